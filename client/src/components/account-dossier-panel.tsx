@@ -150,6 +150,7 @@ export function AccountDossierPanel({ accountId, onClose }: AccountDossierPanelP
         onSuccess: () => {
             setRepNote("");
             queryClient.invalidateQueries({ queryKey: [`/api/agent/account-context/${accountId}`] });
+            queryClient.invalidateQueries({ queryKey: [`/api/accounts/${accountId}/timeline`] });
             toast({ title: "Note saved." });
         },
     });
@@ -189,7 +190,7 @@ export function AccountDossierPanel({ accountId, onClose }: AccountDossierPanelP
                                             )}
                                             {ctx.account.walletShareDirection === "growing" && <TrendingUp className="h-4 w-4 text-green-500" />}
                                             {ctx.account.walletShareDirection === "declining" && <TrendingDown className="h-4 w-4 text-red-500" />}
-                                            {ctx.account.walletShareDirection === "stable" && <Minus className="h-4 w-4 text-slate-400" />}
+                                            {ctx.account.walletShareDirection === "flat" && <Minus className="h-4 w-4 text-slate-400" />}
                                         </div>
                                     </div>
                                     {ctx.metrics?.opportunityScore && (
@@ -66,6 +66,7 @@ export function EmailComposerModal({
         onSuccess: () => {
             toast({ title: "Email logged!", description: "Interaction recorded. Don't forget to send in your email client." });
             queryClient.invalidateQueries({ queryKey: [`/api/agent/account-context/${accountId}`] });
+            queryClient.invalidateQueries({ queryKey: [`/api/accounts/${accountId}/timeline`] });
             onClose();
         },
         onError: () => toast({ title: "Error", description: "Failed to log email.", variant: "destructive" }),
@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from "react";
+import { Fragment, useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -38,7 +38,11 @@ import {
   Users,
   Download,
   ChevronRight,
+  ChevronDown,
+  FolderTree,
   TrendingUp,
+  TrendingDown,
+  Minus,
   DollarSign,
   Target,
   AlertTriangle,
@@ -66,8 +70,11 @@ import {
   Plus,
   Tag,
   CreditCard,
+  CheckCircle,
+  MessageSquare,
+  History,
 } from "lucide-react";
-import type { Contact as ContactType, Project, OrderSignal, CompetitorMention } from "@shared/schema";
+import type { Contact as ContactType, Project, OrderSignal, CompetitorMention, SeasonalityProfile, WalletShareDirection, ChurnDriver, ChurnRiskLevel } from "@shared/schema";
 import { SUB_SEGMENT_TYPES, ACCOUNT_FLAG_TYPES } from "@shared/schema";
 import { Link, useLocation, useSearch } from "wouter";
 import {
@@ -80,10 +87,24 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Legend,
+  Tooltip as RechartsTooltip,
+} from "recharts";
 
 interface AccountWithMetrics {
   id: number;
   name: string;
+  parentAccountId: number | null; // branches roll up to their parent company
   segment: string;
   subSegment: string | null;
   region: string;
@@ -100,14 +121,41 @@ interface AccountWithMetrics {
   mixScore: number | null;
   orderCount12m: number | null;
   daysSinceLastOrder: number | null;
+  walletShareDirection: WalletShareDirection | null;
+  seasonalityProfile: SeasonalityProfile | null;
+  churnProbability: number | null;
+  churnRiskLevel: ChurnRiskLevel | null;
+  churnDrivers: ChurnDriver[];
+  estimatedValue: number;              // Revenue across all gap categories
+  estimatedMarginValue: number | null; // Gross margin across them; null without cost data
   gapCategories: Array<{
     name: string;
     gapPct: number;
     estimatedValue: number;
+    estimatedMarginValue: number | null;
+    marginRate: number | null;
   }>;
   enrolled: boolean;
 }
 
+interface MetricsHistoryPoint {
+  month: string;
+  last12mRevenue: number | null;
+  categoryPenetration: number | null;
+  opportunityScore: number | null;
+  recencyScore: number | null;
+  frequencyScore: number | null;
+  monetaryScore: number | null;
+  mixScore: number | null;
+  gapOpportunity: number;
+  gaps: Array<{
+    categoryId: number;
+    categoryName: string;
+    gapPct: number | null;
+    estimatedOpportunity: number | null;
+  }>;
+}
+
 interface AccountFlag {
   id: number;
   tenantId: number;
@@ -412,6 +460,266 @@ function AccountActivityTab({ accountId }: { accountId: number }) {
   );
 }
 
+interface TimelineEvent {
+  id: string;
+  type: "interaction" | "email" | "task" | "order" | "flag" | "enrollment";
+  occurredAt: string;
+  title: string;
+  detail: string | null;
+  amount: number | null;
+  meta: Record<string, unknown>;
+}
+
+const TIMELINE_ICONS: Record<TimelineEvent["type"], typeof Phone> = {
+  interaction: MessageSquare,
+  email: Mail,
+  task: CheckCircle,
+  order: Package,
+  flag: Tag,
+  enrollment: Target,
+};
+
+const TIMELINE_FILTERS: { value: string; label: string }[] = [
+  { value: "all", label: "All activity" },
+  { value: "interaction", label: "Interactions" },
+  { value: "email", label: "Emails" },
+  { value: "task", label: "Tasks" },
+  { value: "order", label: "Orders" },
+  { value: "flag", label: "Flags" },
+  { value: "enrollment", label: "Enrollment" },
+];
+
+function AccountTimelineTab({ accountId }: { accountId: number }) {
+  const { toast } = useToast();
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [interactionType, setInteractionType] = useState("call");
+  const [subject, setSubject] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const timelineUrl = typeFilter === "all"
+    ? `/api/accounts/${accountId}/timeline`
+    : `/api/accounts/${accountId}/timeline?types=${typeFilter}`;
+  const { data, isLoading } = useQuery<{ accountId: number; events: TimelineEvent[]; nextBefore: { occurredAt: string; id: string } | null }>({
+    queryKey: [timelineUrl],
+  });
+
+  const logMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/agent/interactions", {
+      accountId,
+      interactionType,
+      source: "rep_entered",
+      direction: interactionType === "note" ? null : "outbound",
+      subject: subject.trim() || null,
+      body: notes.trim(),
+    }),
+    onSuccess: () => {
+      setSubject("");
+      setNotes("");
+      queryClient.invalidateQueries({ queryKey: [`/api/accounts/${accountId}/timeline`] });
+      queryClient.invalidateQueries({ queryKey: [timelineUrl] });
+      queryClient.invalidateQueries({ queryKey: [`/api/agent/account-context/${accountId}`] });
+      toast({ title: "Interaction logged" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to log interaction", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const events = data?.events || [];
+
+  return (
+    <div className="space-y-4 pt-2" data-testid="section-account-timeline">
+      <div className="rounded-md border p-3 space-y-2">
+        <div className="flex gap-2">
+          <Select value={interactionType} onValueChange={setInteractionType}>
+            <SelectTrigger className="w-[130px]" data-testid="select-interaction-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="call">Call</SelectItem>
+              <SelectItem value="meeting">Meeting</SelectItem>
+              <SelectItem value="note">Note</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Subject (optional)"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            data-testid="input-interaction-subject"
+          />
+        </div>
+        <Textarea
+          placeholder="What happened?"
+          rows={2}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          data-testid="input-interaction-notes"
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => logMutation.mutate()}
+            disabled={!notes.trim() || logMutation.isPending}
+            data-testid="button-log-interaction"
+          >
+            {logMutation.isPending ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : <Plus className="mr-2 h-3.5 w-3.5" />}
+            Log {interactionType}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
+          <History className="h-3 w-3" /> Timeline
+        </h4>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-[150px] h-8" data-testid="select-timeline-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIMELINE_FILTERS.map(f => (
+              <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No activity recorded for this account yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {events.map((event) => {
+            const Icon = TIMELINE_ICONS[event.type];
+            return (
+              <div key={event.id} className="flex gap-3 p-2.5 rounded-md border text-sm" data-testid={`timeline-event-${event.id}`}>
+                <Icon className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{event.title}</span>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {new Date(event.occurredAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {event.detail && (
+                    <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{event.detail}</p>
+                  )}
+                </div>
+                {event.amount !== null && event.type === "order" && (
+                  <span className="font-medium shrink-0">${event.amount.toLocaleString()}</span>
+                )}
+              </div>
+            );
+          })}
+          {data?.nextBefore && (
+            <p className="text-xs text-center text-muted-foreground">Showing the {events.length} most recent events</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const CHART_TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--popover))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "var(--radius)",
+  fontSize: 12,
+};
+
+const CHART_TICK = { fill: "hsl(var(--muted-foreground))", fontSize: 11 };
+
+function formatMonthLabel(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString("en-US", { month: "short", year: "2-digit", timeZone: "UTC" });
+}
+
+function AccountTrendsTab({ accountId }: { accountId: number }) {
+  const { data, isLoading } = useQuery<{ accountId: number; months: number; history: MetricsHistoryPoint[] }>({
+    queryKey: [`/api/accounts/${accountId}/metrics/history?months=24`],
+  });
+
+  if (isLoading) return <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>;
+
+  const history = (data?.history || []).map((point) => ({ ...point, label: formatMonthLabel(point.month) }));
+
+  if (history.length < 2) {
+    return (
+      <div className="text-center py-8 text-muted-foreground" data-testid="empty-account-trends">
+        <TrendingUp className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">Not enough history to chart yet</p>
+        <p className="text-xs mt-1">A snapshot is recorded each month when account metrics are recomputed</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pt-2" data-testid="section-account-trends">
+      <div>
+        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">Penetration & Opportunity Score</h4>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="label" tick={CHART_TICK} axisLine={{ stroke: "hsl(var(--border))" }} />
+              <YAxis domain={[0, 100]} tick={CHART_TICK} axisLine={{ stroke: "hsl(var(--border))" }} />
+              <RechartsTooltip contentStyle={CHART_TOOLTIP_STYLE} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line type="monotone" dataKey="categoryPenetration" name="Penetration %" stroke="hsl(var(--chart-1))" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="opportunityScore" name="Opportunity Score" stroke="hsl(var(--chart-2))" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">RFM + Mix Scores</h4>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="label" tick={CHART_TICK} axisLine={{ stroke: "hsl(var(--border))" }} />
+              <YAxis domain={[0, 100]} tick={CHART_TICK} axisLine={{ stroke: "hsl(var(--border))" }} />
+              <RechartsTooltip contentStyle={CHART_TOOLTIP_STYLE} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line type="monotone" dataKey="recencyScore" name="Recency" stroke="hsl(var(--chart-1))" dot={false} />
+              <Line type="monotone" dataKey="frequencyScore" name="Frequency" stroke="hsl(var(--chart-2))" dot={false} />
+              <Line type="monotone" dataKey="monetaryScore" name="Monetary" stroke="hsl(var(--chart-3))" dot={false} />
+              <Line type="monotone" dataKey="mixScore" name="Mix" stroke="hsl(var(--chart-4))" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">Gap Opportunity ($)</h4>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="label" tick={CHART_TICK} axisLine={{ stroke: "hsl(var(--border))" }} />
+              <YAxis
+                tickFormatter={(value: number) => `$${Math.round(value / 1000)}K`}
+                tick={CHART_TICK}
+                axisLine={{ stroke: "hsl(var(--border))" }}
+              />
+              <RechartsTooltip
+                contentStyle={CHART_TOOLTIP_STYLE}
+                formatter={(value: number) => [`$${Math.round(value).toLocaleString()}`, "Gap Opportunity"]}
+              />
+              <Bar dataKey="gapOpportunity" fill="hsl(var(--chart-5))" radius={[2, 2, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function AddFlagDialog({
   accountId,
   open,
@@ -567,6 +875,135 @@ function AddFlagDialog({
   );
 }
 
+interface NextBestCategory {
+  categoryId: number;
+  categoryName: string;
+  becauseCategoryName: string;
+  windowDays: number;
+  confidence: number;
+  lift: number;
+  supportingAccounts: number;
+}
+
+function NextBestCategoriesSection({ accountId }: { accountId: number }) {
+  const { data } = useQuery<{ id: number; nextBestCategories: NextBestCategory[] }>({
+    queryKey: [`/api/accounts/${accountId}`],
+  });
+
+  const suggestions = data?.nextBestCategories || [];
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div data-testid="section-next-best-categories">
+      <h3 className="text-sm font-semibold mb-3 flex items-center gap-1.5">
+        <Sparkles className="h-4 w-4" /> Next Best Categories
+      </h3>
+      <div className="space-y-2">
+        {suggestions.map((s) => (
+          <div key={s.categoryId} className="flex items-center justify-between p-2.5 rounded-md border text-sm" data-testid={`next-best-category-${s.categoryId}`}>
+            <div className="min-w-0">
+              <p className="font-medium truncate">{s.categoryName}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                Buyers of {s.becauseCategoryName} add it within {s.windowDays} days ({s.supportingAccounts} accounts)
+              </p>
+            </div>
+            <div className="flex gap-1.5 shrink-0 ml-2">
+              <Badge variant="secondary" data-testid={`badge-confidence-${s.categoryId}`}>
+                {Math.round(s.confidence * 100)}% conf.
+              </Badge>
+              <Badge variant="outline" data-testid={`badge-lift-${s.categoryId}`}>
+                {s.lift.toFixed(1)}x lift
+              </Badge>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface GapTreeNode {
+  categoryId: number;
+  name: string;
+  depth: number;
+  gap: { gapPct: number; estimatedOpportunity: number; estimatedMarginOpportunity: number | null } | null;
+  rolledUpOpportunity: number;
+  rolledUpMarginOpportunity: number | null;
+  children: GapTreeNode[];
+}
+
+// Gaps along the category taxonomy: parents show the roll-up of their subcategories
+function CategoryGapTreeSection({
+  accountId,
+  formatCurrency,
+}: {
+  accountId: number;
+  formatCurrency: (value: number) => string;
+}) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const { data } = useQuery<{ accountId: number; tree: GapTreeNode[] }>({
+    queryKey: [`/api/accounts/${accountId}/category-gaps/tree`],
+  });
+
+  const tree = data?.tree || [];
+  // Only worth showing when some gap sits below a parent category
+  if (!tree.some(node => node.children.length > 0)) return null;
+
+  const toggle = (id: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNode = (node: GapTreeNode): JSX.Element => (
+    <Fragment key={node.categoryId}>
+      <div
+        className="flex items-center justify-between py-1.5 text-sm border-b last:border-b-0"
+        style={{ paddingLeft: `${node.depth * 1.25}rem` }}
+        data-testid={`gap-tree-node-${node.categoryId}`}
+      >
+        <div className="flex items-center gap-1 min-w-0">
+          {node.children.length > 0 ? (
+            <button
+              className="text-muted-foreground hover:text-foreground"
+              onClick={() => toggle(node.categoryId)}
+              data-testid={`button-toggle-gap-node-${node.categoryId}`}
+            >
+              {expanded.has(node.categoryId) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+          <span className={`truncate ${node.children.length > 0 ? "font-medium" : ""}`}>{node.name}</span>
+          {node.gap && (
+            <Badge variant="outline" className="text-xs ml-1">{node.gap.gapPct.toFixed(0)}% gap</Badge>
+          )}
+        </div>
+        <div className="text-right shrink-0 ml-2">
+          <span className="font-semibold">{formatCurrency(node.rolledUpOpportunity)}</span>
+          {node.rolledUpMarginOpportunity !== null && (
+            <span className="text-xs text-muted-foreground ml-2">{formatCurrency(node.rolledUpMarginOpportunity)} GM</span>
+          )}
+        </div>
+      </div>
+      {expanded.has(node.categoryId) && node.children.map(renderNode)}
+    </Fragment>
+  );
+
+  return (
+    <div data-testid="section-category-gap-tree">
+      <h3 className="text-sm font-semibold mb-3 flex items-center gap-1.5">
+        <FolderTree className="h-4 w-4" /> Gaps by Category Group
+      </h3>
+      <div className="rounded-md border px-3">
+        {tree.map(renderNode)}
+      </div>
+    </div>
+  );
+}
+
 function RfmScoresSection({ account }: { account: AccountWithMetrics }) {
   const scores = [
     { label: "Recency", value: account.recencyScore, testId: "rfm-recency" },
@@ -614,6 +1051,123 @@ function RfmScoresSection({ account }: { account: AccountWithMetrics }) {
   );
 }
 
+const MONTH_ABBREVIATIONS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const SEASONALITY_SOURCE_LABELS: Record<SeasonalityProfile["source"], string> = {
+  account: "this account's order history",
+  segment: "its segment's order history",
+  tenant: "all accounts' order history",
+  flat: "no usable history (flat)",
+};
+
+function WalletShareTrend({ direction, trendPct }: { direction: WalletShareDirection | null; trendPct?: number | null }) {
+  if (!direction) return <span className="text-sm text-muted-foreground">—</span>;
+  const Icon = direction === "growing" ? TrendingUp : direction === "declining" ? TrendingDown : Minus;
+  const color = direction === "growing" ? "text-green-600" : direction === "declining" ? "text-red-600" : "text-muted-foreground";
+  return (
+    <span className={`inline-flex items-center gap-1 text-sm capitalize ${color}`} data-testid="wallet-share-trend">
+      <Icon className="h-4 w-4" />
+      {direction}
+      {trendPct != null && (
+        <span className="text-xs text-muted-foreground">({trendPct > 0 ? "+" : ""}{Math.round(trendPct)}%)</span>
+      )}
+    </span>
+  );
+}
+
+function SeasonalitySection({ account }: { account: AccountWithMetrics }) {
+  const profile = account.seasonalityProfile;
+  if (!profile) return null;
+
+  const currentMonth = new Date().getMonth();
+  const data = profile.multipliers.map((multiplier, i) => ({ month: MONTH_ABBREVIATIONS[i], multiplier }));
+
+  return (
+    <div data-testid="section-seasonality">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold">Seasonality & Wallet Share Trend</h3>
+        <WalletShareTrend direction={account.walletShareDirection} trendPct={profile.adjustedTrendPct} />
+      </div>
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <XAxis dataKey="month" tick={CHART_TICK} axisLine={{ stroke: "hsl(var(--border))" }} />
+            <YAxis hide domain={[0, "auto"]} />
+            <RechartsTooltip contentStyle={CHART_TOOLTIP_STYLE} formatter={(value: number) => [`${value.toFixed(2)}x an average month`, "Seasonal index"]} />
+            <Bar dataKey="multiplier">
+              {data.map((_, i) => (
+                <Cell key={i} fill={i === currentMonth ? "hsl(var(--primary))" : "hsl(var(--chart-2))"} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1" data-testid="text-seasonality-source">
+        Based on {SEASONALITY_SOURCE_LABELS[profile.source]}. Trend compares the last 6 months with the 6 before, seasonally adjusted.
+      </p>
+    </div>
+  );
+}
+
+const AT_RISK_LEVELS: ChurnRiskLevel[] = ["high", "critical"];
+
+const CHURN_RISK_STYLES: Record<ChurnRiskLevel, string> = {
+  low: "border-green-400 text-green-700 dark:text-green-400",
+  medium: "border-yellow-400 text-yellow-700 dark:text-yellow-400",
+  high: "border-orange-400 text-orange-600 dark:text-orange-400",
+  critical: "border-red-500 text-red-600 dark:text-red-400",
+};
+
+function ChurnRiskBadge({ account }: { account: AccountWithMetrics }) {
+  if (!account.churnRiskLevel || account.churnProbability === null) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`capitalize ${CHURN_RISK_STYLES[account.churnRiskLevel]}`} data-testid={`badge-churn-risk-${account.id}`}>
+          {account.churnRiskLevel} · {Math.round(account.churnProbability * 100)}%
+        </Badge>
+      </TooltipTrigger>
+      {account.churnDrivers.length > 0 && (
+        <TooltipContent className="max-w-xs" side="top">
+          <ul className="text-xs space-y-0.5">
+            {account.churnDrivers.map((d) => <li key={d.feature}>{d.label}</li>)}
+          </ul>
+        </TooltipContent>
+      )}
+    </Tooltip>
+  );
+}
+
+function ChurnRiskSection({ account }: { account: AccountWithMetrics }) {
+  if (!account.churnRiskLevel || account.churnProbability === null) return null;
+
+  return (
+    <div data-testid="section-churn-risk">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold flex items-center gap-1.5">
+          <AlertTriangle className="h-4 w-4" /> Churn Risk
+        </h3>
+        <ChurnRiskBadge account={account} />
+      </div>
+      {account.churnDrivers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No factor is raising this account's risk above average.</p>
+      ) : (
+        <div className="space-y-1.5">
+          <p className="text-xs text-muted-foreground">Top contributing factors</p>
+          {account.churnDrivers.map((d) => (
+            <div key={d.feature} className="flex items-center justify-between p-2 rounded-md border text-sm" data-testid={`churn-driver-${d.feature}`}>
+              <span>{d.label}</span>
+              <span className="text-xs text-muted-foreground">+{d.contribution.toFixed(2)} log-odds</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function BehavioralFlagsSection({
   accountId,
   gapCategories,
@@ -748,6 +1302,16 @@ function GapCategoriesWithFlags({
                   </p>
                   <p className="text-xs text-muted-foreground">opportunity</p>
                 </div>
+                {gap.estimatedMarginValue !== null && (
+                  <div className="text-right" data-testid={`gap-margin-value-${gap.name}`}>
+                    <p className="text-sm font-semibold">
+                      {formatCurrency(gap.estimatedMarginValue)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      margin{gap.marginRate !== null ? ` (${Math.round(gap.marginRate * 100)}%)` : ""}
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           );
@@ -762,7 +1326,10 @@ export default function Accounts() {
   const [segmentFilter, setSegmentFilter] = useState<string>("all");
   const [subSegmentFilter, setSubSegmentFilter] = useState<string>("all");
   const [regionFilter, setRegionFilter] = useState<string>("all");
+  const [riskFilter, setRiskFilter] = useState<string>("all");
   const [sortBy, setSortBy] = useState<string>("default");
+  const [viewMode, setViewMode] = useState<"list" | "tree">("list");
+  const [collapsedParents, setCollapsedParents] = useState<Set<number>>(new Set());
   const [showAddFlagDialog, setShowAddFlagDialog] = useState(false);
   const [newFlagType, setNewFlagType] = useState<string>(ACCOUNT_FLAG_TYPES[0]);
   const [newFlagValue, setNewFlagValue] = useState("");
@@ -816,6 +1383,28 @@ export default function Accounts() {
     },
   });
 
+  const updateParentMutation = useMutation({
+    mutationFn: async ({ accountId, parentAccountId }: { accountId: number; parentAccountId: number | null }) => {
+      const response = await apiRequest("PUT", `/api/accounts/${accountId}/parent`, { parentAccountId });
+      return response.json();
+    },
+    onSuccess: (_data, { parentAccountId }) => {
+      toast({
+        title: parentAccountId === null ? "Moved to top level" : "Parent company updated",
+        description: "Metrics, gaps and scores will re-roll to the parent in the background.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      setSelectedAccount(prev => prev && { ...prev, parentAccountId });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not update the parent company. An account can't sit under one of its own branches.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const resetTaskForm = () => {
     setTaskType("call");
     setTaskTitle("");
@@ -919,6 +1508,8 @@ export default function Accounts() {
     gapSizeWeight: number;
     revenuePotentialWeight: number;
     categoryCountWeight: number;
+    version?: number;
+    factors?: { factor: string; weight: number }[]; // Set when a scoring model version is active
   }
 
   const { data: scoringWeights } = useQuery<ScoringWeights>({
@@ -936,6 +1527,7 @@ export default function Accounts() {
     {
       id: 1,
       name: "ABC Plumbing Co",
+      parentAccountId: null,
       segment: "Plumbing",
       subSegment: "residential_service",
       region: "Northeast",
@@ -952,16 +1544,24 @@ export default function Accounts() {
       mixScore: 35,
       orderCount12m: 24,
       daysSinceLastOrder: 12,
+      walletShareDirection: null,
+      seasonalityProfile: null,
+      churnProbability: null,
+      churnRiskLevel: null,
+      churnDrivers: [],
+      estimatedValue: 38000,
+      estimatedMarginValue: 11000,
       gapCategories: [
-        { name: "Water Heaters", gapPct: 35, estimatedValue: 18000 },
-        { name: "Tools & Safety", gapPct: 28, estimatedValue: 12000 },
-        { name: "PVF", gapPct: 15, estimatedValue: 8000 },
+        { name: "Water Heaters", gapPct: 35, estimatedValue: 18000, estimatedMarginValue: 3960, marginRate: 0.22 },
+        { name: "Tools & Safety", gapPct: 28, estimatedValue: 12000, estimatedMarginValue: 4560, marginRate: 0.38 },
+        { name: "PVF", gapPct: 15, estimatedValue: 8000, estimatedMarginValue: 2480, marginRate: 0.31 },
       ],
       enrolled: true,
     },
     {
       id: 2,
       name: "Elite HVAC Services",
+      parentAccountId: null,
       segment: "HVAC",
       subSegment: "commercial_mechanical",
       region: "Southeast",
@@ -978,15 +1578,23 @@ export default function Accounts() {
       mixScore: 55,
       orderCount12m: 36,
       daysSinceLastOrder: 5,
+      walletShareDirection: null,
+      seasonalityProfile: null,
+      churnProbability: null,
+      churnRiskLevel: null,
+      churnDrivers: [],
+      estimatedValue: 27000,
+      estimatedMarginValue: 8640,
       gapCategories: [
-        { name: "Controls & Thermostats", gapPct: 25, estimatedValue: 15000 },
-        { name: "Pipe & Fittings", gapPct: 20, estimatedValue: 12000 },
+        { name: "Controls & Thermostats", gapPct: 25, estimatedValue: 15000, estimatedMarginValue: 5400, marginRate: 0.36 },
+        { name: "Pipe & Fittings", gapPct: 20, estimatedValue: 12000, estimatedMarginValue: 3240, marginRate: 0.27 },
       ],
       enrolled: true,
     },
     {
       id: 3,
       name: "Metro Mechanical",
+      parentAccountId: null,
       segment: "Mechanical",
       subSegment: "commercial_mechanical",
       region: "Midwest",
@@ -1003,15 +1611,23 @@ export default function Accounts() {
       mixScore: 30,
       orderCount12m: 18,
       daysSinceLastOrder: 28,
+      walletShareDirection: null,
+      seasonalityProfile: null,
+      churnProbability: null,
+      churnRiskLevel: null,
+      churnDrivers: [],
+      estimatedValue: 32000,
+      estimatedMarginValue: 7340,
       gapCategories: [
-        { name: "Water Heaters", gapPct: 40, estimatedValue: 22000 },
-        { name: "Ductwork", gapPct: 18, estimatedValue: 10000 },
+        { name: "Water Heaters", gapPct: 40, estimatedValue: 22000, estimatedMarginValue: 4840, marginRate: 0.22 },
+        { name: "Ductwork", gapPct: 18, estimatedValue: 10000, estimatedMarginValue: 2500, marginRate: 0.25 },
       ],
       enrolled: false,
     },
     {
       id: 4,
       name: "Premier Plumbing",
+      parentAccountId: null,
       segment: "Plumbing",
       subSegment: "builder",
       region: "Northeast",
@@ -1028,15 +1644,23 @@ export default function Accounts() {
       mixScore: 62,
       orderCount12m: 42,
       daysSinceLastOrder: 3,
+      walletShareDirection: null,
+      seasonalityProfile: null,
+      churnProbability: null,
+      churnRiskLevel: null,
+      churnDrivers: [],
+      estimatedValue: 14000,
+      estimatedMarginValue: 4760,
       gapCategories: [
-        { name: "PVF", gapPct: 22, estimatedValue: 8000 },
-        { name: "Tools", gapPct: 18, estimatedValue: 6000 },
+        { name: "PVF", gapPct: 22, estimatedValue: 8000, estimatedMarginValue: 2480, marginRate: 0.31 },
+        { name: "Tools", gapPct: 18, estimatedValue: 6000, estimatedMarginValue: 2280, marginRate: 0.38 },
       ],
       enrolled: false,
     },
     {
       id: 5,
       name: "Climate Control Inc",
+      parentAccountId: null,
       segment: "HVAC",
       subSegment: "other",
       region: "West",
@@ -1053,14 +1677,22 @@ export default function Accounts() {
       mixScore: 78,
       orderCount12m: 60,
       daysSinceLastOrder: 2,
+      walletShareDirection: null,
+      seasonalityProfile: null,
+      churnProbability: null,
+      churnRiskLevel: null,
+      churnDrivers: [],
+      estimatedValue: 12000,
+      estimatedMarginValue: 2280,
       gapCategories: [
-        { name: "Refrigerant & Supplies", gapPct: 15, estimatedValue: 12000 },
+        { name: "Refrigerant & Supplies", gapPct: 15, estimatedValue: 12000, estimatedMarginValue: 2280, marginRate: 0.19 },
       ],
       enrolled: true,
     },
     {
       id: 6,
       name: "Superior Heating",
+      parentAccountId: null,
       segment: "HVAC",
       subSegment: "residential_service",
       region: "Midwest",
@@ -1077,9 +1709,16 @@ export default function Accounts() {
       mixScore: 45,
       orderCount12m: 12,
       daysSinceLastOrder: 45,
+      walletShareDirection: null,
+      seasonalityProfile: null,
+      churnProbability: null,
+      churnRiskLevel: null,
+      churnDrivers: [],
+      estimatedValue: 25000,
+      estimatedMarginValue: 7460,
       gapCategories: [
-        { name: "Controls", gapPct: 30, estimatedValue: 14000 },
-        { name: "Water Heaters", gapPct: 25, estimatedValue: 11000 },
+        { name: "Controls", gapPct: 30, estimatedValue: 14000, estimatedMarginValue: 5040, marginRate: 0.36 },
+        { name: "Water Heaters", gapPct: 25, estimatedValue: 11000, estimatedMarginValue: 2420, marginRate: 0.22 },
       ],
       enrolled: false,
     },
@@ -1092,6 +1731,7 @@ export default function Accounts() {
   useEffect(() => {
     const params = new URLSearchParams(searchParams);
     const accountId = params.get("account") || params.get("highlight");
+    if (params.get("risk") === "at-risk") setRiskFilter("at-risk");
     if (accountId && displayAccounts.length > 0) {
       const account = displayAccounts.find((a) => a.id === parseInt(accountId));
       if (account) {
@@ -1112,7 +1752,8 @@ export default function Accounts() {
       const matchesSegment = segmentFilter === "all" || account.segment === segmentFilter;
       const matchesSubSegment = subSegmentFilter === "all" || account.subSegment === subSegmentFilter;
       const matchesRegion = regionFilter === "all" || account.region === regionFilter;
-      return matchesSearch && matchesSegment && matchesSubSegment && matchesRegion;
+      const matchesRisk = riskFilter === "all" || (account.churnRiskLevel !== null && AT_RISK_LEVELS.includes(account.churnRiskLevel));
+      return matchesSearch && matchesSegment && matchesSubSegment && matchesRegion && matchesRisk;
     });
 
     if (sortBy === "revenue-impact") {
@@ -1123,13 +1764,59 @@ export default function Accounts() {
       result = [...result].sort((a, b) => b.last12mRevenue - a.last12mRevenue);
     } else if (sortBy === "penetration-low") {
       result = [...result].sort((a, b) => a.categoryPenetration - b.categoryPenetration);
+    } else if (sortBy === "margin-impact") {
+      result = [...result].sort((a, b) => (b.estimatedMarginValue ?? -1) - (a.estimatedMarginValue ?? -1));
+    } else if (sortBy === "churn-risk") {
+      result = [...result].sort((a, b) => (b.churnProbability ?? -1) - (a.churnProbability ?? -1));
     }
 
     return result;
-  }, [displayAccounts, searchQuery, segmentFilter, subSegmentFilter, regionFilter, sortBy]);
+  }, [displayAccounts, searchQuery, segmentFilter, subSegmentFilter, regionFilter, riskFilter, sortBy]);
 
   const filteredAccounts = filteredAndSortedAccounts;
 
+  // Branches of each parent and the display name of every account, for the tree view
+  const { branchesByParent, accountNames } = useMemo(() => {
+    const branches = new Map<number, AccountWithMetrics[]>();
+    for (const account of displayAccounts) {
+      if (account.parentAccountId === null) continue;
+      branches.set(account.parentAccountId, [...(branches.get(account.parentAccountId) ?? []), account]);
+    }
+    return { branchesByParent: branches, accountNames: new Map(displayAccounts.map(a => [a.id, a.name])) };
+  }, [displayAccounts]);
+
+  // Tree view: each parent followed by its (expanded) branches, keeping the current sort within each level.
+  // A branch whose parent is filtered out is shown at the top level.
+  const { tableAccounts, treeDepth } = useMemo(() => {
+    const depth = new Map<number, number>();
+    if (viewMode === "list") return { tableAccounts: filteredAndSortedAccounts, treeDepth: depth };
+
+    const visible = new Set(filteredAndSortedAccounts.map(a => a.id));
+    const rows: AccountWithMetrics[] = [];
+    const visit = (account: AccountWithMetrics, level: number) => {
+      if (depth.has(account.id)) return;
+      depth.set(account.id, level);
+      rows.push(account);
+      if (collapsedParents.has(account.id)) return;
+      for (const branch of filteredAndSortedAccounts.filter(a => a.parentAccountId === account.id)) {
+        visit(branch, level + 1);
+      }
+    };
+    for (const account of filteredAndSortedAccounts) {
+      if (account.parentAccountId === null || !visible.has(account.parentAccountId)) visit(account, 0);
+    }
+    return { tableAccounts: rows, treeDepth: depth };
+  }, [filteredAndSortedAccounts, viewMode, collapsedParents]);
+
+  const toggleParent = (accountId: number) => {
+    setCollapsedParents(prev => {
+      const next = new Set(prev);
+      if (next.has(accountId)) next.delete(accountId);
+      else next.add(accountId);
+      return next;
+    });
+  };
+
   const formatCurrency = (value: number) => {
     if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
     if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`;
@@ -1140,17 +1827,39 @@ export default function Accounts() {
     {
       key: "name",
       header: "Account",
-      cell: (row: AccountWithMetrics) => (
-        <div className="flex items-center gap-3">
-          <div className="flex h-9 w-9 items-center justify-center rounded-md bg-primary/10 text-primary">
-            <Users className="h-4 w-4" />
-          </div>
-          <div className="flex flex-col">
-            <span className="font-medium">{row.name}</span>
-            <span className="text-xs text-muted-foreground">{row.assignedTm}</span>
+      cell: (row: AccountWithMetrics) => {
+        const branchCount = branchesByParent.get(row.id)?.length ?? 0;
+        return (
+          <div className="flex items-center gap-3" style={{ paddingLeft: (treeDepth.get(row.id) ?? 0) * 24 }}>
+            {viewMode === "tree" && (
+              branchCount > 0 ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() => toggleParent(row.id)}
+                  data-testid={`button-toggle-branches-${row.id}`}
+                >
+                  {collapsedParents.has(row.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </Button>
+              ) : (
+                <span className="w-6 shrink-0" />
+              )
+            )}
+            <div className="flex h-9 w-9 items-center justify-center rounded-md bg-primary/10 text-primary">
+              {row.parentAccountId !== null ? <MapPin className="h-4 w-4" /> : branchCount > 0 ? <Building2 className="h-4 w-4" /> : <Users className="h-4 w-4" />}
+            </div>
+            <div className="flex flex-col">
+              <span className="font-medium">{row.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {row.assignedTm}
+                {branchCount > 0 && ` · ${branchCount} branch${branchCount === 1 ? "" : "es"}`}
+                {row.parentAccountId !== null && viewMode === "list" && ` · Branch of ${accountNames.get(row.parentAccountId) ?? "parent"}`}
+              </span>
+            </div>
           </div>
-        </div>
-      ),
+        );
+      },
     },
     {
       key: "segment",
@@ -1186,6 +1895,30 @@ export default function Accounts() {
         <span className="font-semibold">{formatCurrency(row.last12mRevenue)}</span>
       ),
     },
+    {
+      key: "estimatedMarginValue",
+      header: "Gap Margin",
+      cell: (row: AccountWithMetrics) => row.estimatedMarginValue === null ? (
+        <span className="text-sm text-muted-foreground">—</span>
+      ) : (
+        <div data-testid={`gap-margin-${row.id}`}>
+          <span className="font-semibold">{formatCurrency(row.estimatedMarginValue)}</span>
+          <p className="text-xs text-muted-foreground">of {formatCurrency(row.estimatedValue)} revenue</p>
+        </div>
+      ),
+    },
+    {
+      key: "churnRisk",
+      header: "Churn Risk",
+      cell: (row: AccountWithMetrics) => <ChurnRiskBadge account={row} />,
+    },
+    {
+      key: "walletShareDirection",
+      header: "Trend",
+      cell: (row: AccountWithMetrics) => (
+        <WalletShareTrend direction={row.walletShareDirection} />
+      ),
+    },
     {
       key: "credit",
       header: "Credit",
@@ -1233,7 +1966,9 @@ export default function Accounts() {
     {
       key: "opportunityScore",
       header: "Opportunity",
-      cell: (row: AccountWithMetrics) => (
+      cell: (row: AccountWithMetrics) => row.parentAccountId !== null ? (
+        <span className="text-xs text-muted-foreground" data-testid={`score-rolled-up-${row.id}`}>Scored with parent</span>
+      ) : (
         <ScoreBadge score={row.opportunityScore} testId={`score-${row.id}`} />
       ),
     },
@@ -1411,9 +2146,11 @@ export default function Accounts() {
                 <SelectContent>
                   <SelectItem value="default">Default Order</SelectItem>
                   <SelectItem value="revenue-impact">Revenue Impact (High to Low)</SelectItem>
+                  <SelectItem value="margin-impact">Margin Impact (High to Low)</SelectItem>
                   <SelectItem value="opportunity-score">Opportunity Score</SelectItem>
                   <SelectItem value="revenue">Current Revenue</SelectItem>
                   <SelectItem value="penetration-low">Lowest Penetration</SelectItem>
+                  <SelectItem value="churn-risk">Churn Risk (High to Low)</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={segmentFilter} onValueChange={setSegmentFilter}>
@@ -1456,6 +2193,26 @@ export default function Accounts() {
                   ))}
                 </SelectContent>
               </Select>
+              <Select value={viewMode} onValueChange={(value) => setViewMode(value as "list" | "tree")}>
+                <SelectTrigger className="w-40" data-testid="select-view-mode">
+                  <FolderTree className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="View" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="list">Flat List</SelectItem>
+                  <SelectItem value="tree">Parent / Branch Tree</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={riskFilter} onValueChange={setRiskFilter}>
+                <SelectTrigger className="w-36" data-testid="select-risk">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="Risk" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Accounts</SelectItem>
+                  <SelectItem value="at-risk">At Risk</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </CardHeader>
@@ -1470,7 +2227,7 @@ export default function Accounts() {
           ) : (
             <DataTable
               columns={columns}
-              data={filteredAccounts}
+              data={tableAccounts}
               isLoading={isLoading}
               testId="table-accounts"
             />
@@ -1497,6 +2254,8 @@ export default function Accounts() {
                   <TabsTrigger value="contacts" data-testid="tab-contacts">Contacts</TabsTrigger>
                   <TabsTrigger value="projects" data-testid="tab-projects">Projects</TabsTrigger>
                   <TabsTrigger value="activity" data-testid="tab-activity">Activity</TabsTrigger>
+                  <TabsTrigger value="timeline" data-testid="tab-timeline">Timeline</TabsTrigger>
+                  <TabsTrigger value="trends" data-testid="tab-trends">Trends</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="overview">
@@ -1525,9 +2284,41 @@ export default function Accounts() {
                         <p className="font-medium">
                           {formatCurrency(selectedAccount.last12mRevenue)}
                         </p>
+                        {(branchesByParent.get(selectedAccount.id)?.length ?? 0) > 0 && (
+                          <p className="text-xs text-muted-foreground">incl. {branchesByParent.get(selectedAccount.id)!.length} branches</p>
+                        )}
                       </div>
                     </div>
 
+                    <div className="flex items-center gap-3" data-testid="detail-parent-account">
+                      <Label className="text-sm text-muted-foreground shrink-0">Parent Company</Label>
+                      <Select
+                        value={selectedAccount.parentAccountId === null ? "none" : String(selectedAccount.parentAccountId)}
+                        onValueChange={(value) => updateParentMutation.mutate({
+                          accountId: selectedAccount.id,
+                          parentAccountId: value === "none" ? null : parseInt(value),
+                        })}
+                        disabled={updateParentMutation.isPending || !accounts}
+                      >
+                        <SelectTrigger className="w-64" data-testid="select-parent-account">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None (top-level account)</SelectItem>
+                          {displayAccounts
+                            .filter(a => a.id !== selectedAccount.id)
+                            .map(a => (
+                              <SelectItem key={a.id} value={String(a.id)}>{a.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedAccount.parentAccountId !== null && (
+                        <p className="text-xs text-muted-foreground">
+                          Metrics, gaps and enrollment roll up to the parent
+                        </p>
+                      )}
+                    </div>
+
                     <div className="grid grid-cols-2 gap-4">
                       <Card>
                         <CardContent className="pt-4 flex items-center justify-between">
@@ -1580,15 +2371,28 @@ export default function Accounts() {
                                   <div className="text-xs space-y-2">
                                     <p>The Opportunity Score is a weighted composite that identifies accounts with the highest potential for wallet share capture.</p>
                                     <div className="bg-muted/50 p-2 rounded space-y-1">
-                                      <p className="font-medium">Current Weighting:</p>
-                                      <div className="grid grid-cols-2 gap-1">
-                                        <span>Gap Size (% below ICP):</span>
-                                        <span className="font-semibold">{weights.gapSizeWeight}%</span>
-                                        <span>Revenue Potential:</span>
-                                        <span className="font-semibold">{weights.revenuePotentialWeight}%</span>
-                                        <span>Category Count:</span>
-                                        <span className="font-semibold">{weights.categoryCountWeight}%</span>
-                                      </div>
+                                      <p className="font-medium">
+                                        Current Weighting{scoringWeights?.version ? ` (model v${scoringWeights.version})` : ""}:
+                                      </p>
+                                      {scoringWeights?.factors ? (
+                                        <div className="grid grid-cols-2 gap-1">
+                                          {scoringWeights.factors.map(f => (
+                                            <Fragment key={f.factor}>
+                                              <span className="capitalize">{f.factor.replace(/_/g, " ")}:</span>
+                                              <span className="font-semibold">{f.weight}%</span>
+                                            </Fragment>
+                                          ))}
+                                        </div>
+                                      ) : (
+                                        <div className="grid grid-cols-2 gap-1">
+                                          <span>Gap Size (% below ICP):</span>
+                                          <span className="font-semibold">{weights.gapSizeWeight}%</span>
+                                          <span>Revenue Potential:</span>
+                                          <span className="font-semibold">{weights.revenuePotentialWeight}%</span>
+                                          <span>Category Count:</span>
+                                          <span className="font-semibold">{weights.categoryCountWeight}%</span>
+                                        </div>
+                                      )}
                                     </div>
                                     <p>Higher scores indicate greater opportunity for incremental revenue if enrolled.</p>
                                     <Link href="/settings" data-testid="link-settings">
@@ -1616,6 +2420,10 @@ export default function Accounts() {
 
                     <RfmScoresSection account={selectedAccount} />
 
+                    <SeasonalitySection account={selectedAccount} />
+
+                    <ChurnRiskSection account={selectedAccount} />
+
                     <BehavioralFlagsSection
                       accountId={selectedAccount.id}
                       gapCategories={selectedAccount.gapCategories}
@@ -1628,6 +2436,10 @@ export default function Accounts() {
                       formatCurrency={formatCurrency}
                     />
 
+                    <CategoryGapTreeSection accountId={selectedAccount.id} formatCurrency={formatCurrency} />
+
+                    <NextBestCategoriesSection accountId={selectedAccount.id} />
+
                     <div className="flex gap-3 flex-wrap">
                       <Tooltip>
                         <TooltipTrigger asChild>
@@ -1663,7 +2475,7 @@ export default function Accounts() {
                           </TooltipContent>
                         </Tooltip>
                       )}
-                      {!selectedAccount.enrolled && (
+                      {!selectedAccount.enrolled && selectedAccount.parentAccountId === null && (
                         enrollAtLimit ? (
                           <UpgradePromptInline
                             feature="enrolled accounts"
@@ -1720,6 +2532,14 @@ export default function Accounts() {
                 <TabsContent value="activity">
                   <AccountActivityTab accountId={selectedAccount.id} />
                 </TabsContent>
+
+                <TabsContent value="timeline">
+                  <AccountTimelineTab accountId={selectedAccount.id} />
+                </TabsContent>
+
+                <TabsContent value="trends">
+                  <AccountTrendsTab accountId={selectedAccount.id} />
+                </TabsContent>
               </Tabs>
             </>
           )}
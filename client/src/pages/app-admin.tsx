@@ -63,7 +63,6 @@ import {
   Pencil,
   Sparkles,
   Clock,
-  Zap,
   Trash2,
   Link,
   Mail,
@@ -94,6 +93,39 @@ interface TenantUsageResponse {
   totalTenants: number;
 }
 
+interface JobRunInfo {
+  id: number;
+  status: "running" | "success" | "failed";
+  trigger: string;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  error: string | null;
+}
+
+interface JobStatusInfo {
+  name: string;
+  label: string;
+  schedule: string;
+  manual: boolean;
+  nextRunAt: string | null;
+  lastRun: JobRunInfo | null;
+  recentRuns: JobRunInfo[];
+}
+
+const JOB_STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  success: "default",
+  running: "secondary",
+  failed: "destructive",
+};
+
+function formatJobDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
 function IntelligenceCenter() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -107,18 +139,23 @@ function IntelligenceCenter() {
     queryKey: ["/api/agent/health-check"],
   });
 
-  const triggerMutation = useMutation({
-    mutationFn: async (type: "daily-briefing" | "weekly-account-review" | "synthesize-learnings") => {
-      return apiRequest("POST", `/api/agent/${type}`, {});
+  const { data: jobs = [], isLoading: jobsLoading } = useQuery<JobStatusInfo[]>({
+    queryKey: ["/api/admin/jobs"],
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.lastRun?.status === "running") ? 5000 : false,
+  });
+
+  const runJobMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${name}/run`);
+      return res.json();
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (data: { message: string }) => {
       toast({
-        title: "Agent Triggered",
-        description: `${variables.replace("-", " ")} has been started in the background. Status will update shortly.`,
+        title: "Job Started",
+        description: `${data.message}. Status will update when it finishes.`,
       });
-      setTimeout(() => {
-        queryClient.invalidateQueries({ queryKey: ["/api/agent/health-check"] });
-      }, 5000);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
     },
     onError: (error: Error) => {
       toast({
@@ -129,7 +166,7 @@ function IntelligenceCenter() {
     },
   });
 
-  if (isLoading) {
+  if (isLoading || jobsLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -137,30 +174,6 @@ function IntelligenceCenter() {
     );
   }
 
-  const services = [
-    {
-      id: "daily-briefing",
-      name: "Daily Intelligence Briefing",
-      description: "Generates territory action plans and drafts priority emails.",
-      schedule: "Weekdays @ 7:00 AM EST",
-      icon: Clock,
-    },
-    {
-      id: "weekly-account-review",
-      name: "Weekly Account Review",
-      description: "Evaluates graduation readiness and playbook effectiveness.",
-      schedule: "Mondays @ 6:00 AM EST",
-      icon: Target,
-    },
-    {
-      id: "synthesize-learnings",
-      name: "AI Learning Synthesis",
-      description: "Distills winning patterns from past 90 days of interactions.",
-      schedule: "1st of Month @ 3:00 AM EST",
-      icon: Zap,
-    },
-  ];
-
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
       <Card className="md:col-span-2 text-left">
@@ -200,57 +213,88 @@ function IntelligenceCenter() {
         </CardContent>
       </Card>
 
-      {services.map((service) => {
-        const state = health?.stateMap[service.id];
-        const lastRun = state?.lastRunAt ? new Date(state.lastRunAt) : null;
-        const Icon = service.icon;
-
-        return (
-          <Card key={service.id} className="flex flex-col text-left">
-            <CardHeader className="pb-3 text-left">
-              <div className="flex items-center justify-between">
-                <div className="h-10 w-10 rounded-lg bg-blue-50 flex items-center justify-center">
-                  <Icon className="h-5 w-5 text-blue-600" />
-                </div>
-                {lastRun && (
-                  <Badge variant="outline" className="text-[10px] font-mono">
-                    Last Run: {new Date(lastRun).toLocaleDateString()}
-                  </Badge>
-                )}
-              </div>
-              <CardTitle className="text-base mt-4">{service.name}</CardTitle>
-              <CardDescription>{service.description}</CardDescription>
-            </CardHeader>
-            <CardContent className="flex-1 text-left">
-              <div className="text-xs text-muted-foreground flex items-center gap-1.5 mb-4">
-                <Clock className="h-3 w-3" />
-                {service.schedule}
-              </div>
-              {state?.lastRunSummary && (
-                <div className="bg-muted/50 p-2.5 rounded-md text-[11px] text-muted-foreground border leading-relaxed mb-4">
-                  <p className="font-semibold text-[10px] uppercase tracking-wider mb-1">Latest Insight:</p>
-                  {state.lastRunSummary}
-                </div>
-              )}
-            </CardContent>
-            <div className="p-4 pt-0 mt-auto">
-              <Button
-                variant="outline"
-                className="w-full text-xs"
-                onClick={() => triggerMutation.mutate(service.id as any)}
-                disabled={triggerMutation.isPending}
-              >
-                {triggerMutation.isPending && triggerMutation.variables === service.id ? (
-                  <Loader2 className="h-3 w-3 mr-2 animate-spin" />
-                ) : (
-                  <RefreshCw className="h-3 w-3 mr-2" />
-                )}
-                Run Now
-              </Button>
-            </div>
-          </Card>
-        );
-      })}
+      <Card className="md:col-span-2 text-left">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Clock className="h-4 w-4 text-blue-600" />
+            Scheduled Jobs
+          </CardTitle>
+          <CardDescription>
+            Last and next run of each agent job for this workspace. Times are shown in your local timezone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow key={job.name} data-testid={`row-job-${job.name}`}>
+                  <TableCell>
+                    <p className="font-medium">{job.label}</p>
+                    <p className="text-xs text-muted-foreground">{job.schedule}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {job.lastRun ? (
+                      <>
+                        {new Date(job.lastRun.startedAt).toLocaleString()}
+                        {job.lastRun.trigger === "manual" && (
+                          <span className="text-xs text-muted-foreground"> (manual)</span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">Never</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatJobDuration(job.lastRun?.durationMs ?? null)}</TableCell>
+                  <TableCell className="max-w-xs">
+                    {job.lastRun && (
+                      <Badge variant={JOB_STATUS_VARIANTS[job.lastRun.status] ?? "outline"}>
+                        {job.lastRun.status}
+                      </Badge>
+                    )}
+                    {job.lastRun?.error && (
+                      <p className="text-xs text-destructive mt-1 truncate" title={job.lastRun.error}>
+                        {job.lastRun.error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {job.nextRunAt ? new Date(job.nextRunAt).toLocaleString() : <span className="text-muted-foreground">—</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {job.manual && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-xs"
+                        onClick={() => runJobMutation.mutate(job.name)}
+                        disabled={runJobMutation.isPending || job.lastRun?.status === "running"}
+                        data-testid={`button-run-job-${job.name}`}
+                      >
+                        {job.lastRun?.status === "running" || (runJobMutation.isPending && runJobMutation.variables === job.name) ? (
+                          <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-3 w-3 mr-2" />
+                        )}
+                        Run Now
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -123,6 +123,8 @@ interface AccountWithMetrics {
   last12mRevenue: number;
   categoryPenetration: number;
   opportunityScore: number;
+  estimatedValue?: number;
+  estimatedMarginValue?: number | null; // Gross margin across gaps; null without cost data
   gapCategories: Array<{
     name: string;
     gapPct: number;
@@ -144,7 +146,7 @@ interface EnrolledAccount {
   status: "active" | "paused" | "graduated";
 }
 
-type OpportunitySortKey = "opportunityScore" | "name" | "segment" | "subSegment" | "region" | "last12mRevenue" | "categoryPenetration" | "enrolled";
+type OpportunitySortKey = "opportunityScore" | "name" | "segment" | "subSegment" | "region" | "last12mRevenue" | "estimatedValue" | "estimatedMarginValue" | "categoryPenetration" | "enrolled";
 type SortDirection = "asc" | "desc";
 
 const OPPORTUNITY_COLUMNS_STORAGE_KEY = "dashboard_opportunity_columns";
@@ -155,6 +157,8 @@ const ALL_OPPORTUNITY_COLUMNS = [
   { key: "subSegment", label: "Type", default: true },
   { key: "region", label: "Region", default: false },
   { key: "last12mRevenue", label: "Revenue (12M)", default: false },
+  { key: "estimatedValue", label: "Gap Revenue", default: false },
+  { key: "estimatedMarginValue", label: "Gap Margin", default: false },
   { key: "categoryPenetration", label: "Penetration", default: false },
   { key: "opportunityScore", label: "Score", default: true },
   { key: "enrolled", label: "Status", default: true },
@@ -427,7 +431,7 @@ export default function Dashboard() {
       setOpportunitySortDir(prev => prev === "asc" ? "desc" : "asc");
     } else {
       setOpportunitySortKey(key);
-      setOpportunitySortDir(key === "opportunityScore" ? "desc" : "asc");
+      setOpportunitySortDir(key === "opportunityScore" || key === "estimatedValue" || key === "estimatedMarginValue" ? "desc" : "asc");
     }
   }, [opportunitySortKey]);
 
@@ -458,6 +462,12 @@ export default function Dashboard() {
         case "last12mRevenue":
           comparison = a.last12mRevenue - b.last12mRevenue;
           break;
+        case "estimatedValue":
+          comparison = (a.estimatedValue ?? 0) - (b.estimatedValue ?? 0);
+          break;
+        case "estimatedMarginValue":
+          comparison = (a.estimatedMarginValue ?? -1) - (b.estimatedMarginValue ?? -1);
+          break;
         case "categoryPenetration":
           comparison = a.categoryPenetration - b.categoryPenetration;
           break;
@@ -703,6 +713,22 @@ export default function Dashboard() {
           <span className="font-semibold">{formatCurrency(row.last12mRevenue)}</span>
         ),
       },
+      {
+        key: "estimatedValue",
+        header: renderSortableHeader("estimatedValue", "Gap Revenue"),
+        cell: (row: AccountWithMetrics) => (
+          <span className="font-semibold">{formatCurrency(row.estimatedValue ?? 0)}</span>
+        ),
+      },
+      {
+        key: "estimatedMarginValue",
+        header: renderSortableHeader("estimatedMarginValue", "Gap Margin"),
+        cell: (row: AccountWithMetrics) => (
+          row.estimatedMarginValue == null
+            ? <span className="text-muted-foreground">{"\u2014"}</span>
+            : <span className="font-semibold" data-testid={`gap-margin-${row.id}`}>{formatCurrency(row.estimatedMarginValue)}</span>
+        ),
+      },
       {
         key: "categoryPenetration",
         header: renderSortableHeader("categoryPenetration", "Penetration"),
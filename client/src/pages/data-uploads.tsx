@@ -34,6 +34,7 @@ import {
   Package,
   FolderTree,
   ShoppingCart,
+  Receipt,
   HelpCircle,
 } from "lucide-react";
 import {
@@ -47,6 +48,7 @@ interface DataUpload {
   uploadType: string;
   fileName: string;
   rowCount: number | null;
+  rejectedCount: number | null;
   status: string;
   errorMessage: string | null;
   uploadedBy: string | null;
@@ -57,9 +59,9 @@ const uploadTypes = [
   {
     id: "accounts",
     label: "Accounts",
-    description: "Customer accounts with segment and TM assignment",
+    description: "Customer accounts with segment, TM assignment and parent company",
     icon: Users,
-    fields: ["id", "name", "segment", "region", "assigned_tm", "status"],
+    fields: ["id", "name", "parent_id", "segment", "sub_segment", "region", "assigned_tm", "status", "credit_limit", "credit_usage"],
   },
   {
     id: "products",
@@ -78,10 +80,17 @@ const uploadTypes = [
   {
     id: "orders",
     label: "Orders",
-    description: "Historical order data with line items",
+    description: "Historical order totals and margin by account",
     icon: ShoppingCart,
     fields: ["id", "account_id", "order_date", "total_amount", "margin_amount"],
   },
+  {
+    id: "order_items",
+    label: "Order Line Items",
+    description: "Order lines by SKU for category-level analysis",
+    icon: Receipt,
+    fields: ["order_id", "sku", "quantity", "unit_price", "line_total"],
+  },
 ];
 
 export default function DataUploads() {
@@ -93,6 +102,9 @@ export default function DataUploads() {
 
   const { data: uploads, isLoading } = useQuery<DataUpload[]>({
     queryKey: ["/api/data-uploads"],
+    // Poll while any upload is still being parsed
+    refetchInterval: (query) =>
+      query.state.data?.some((u) => u.status === "processing") ? 3000 : false,
   });
 
   const uploadMutation = useMutation({
@@ -186,6 +198,24 @@ export default function DataUploads() {
         <span>{row.rowCount?.toLocaleString() || "-"}</span>
       ),
     },
+    {
+      key: "rejectedCount",
+      header: "Rejected",
+      cell: (row: DataUpload) =>
+        row.rejectedCount ? (
+          <a
+            href={`/api/data-uploads/${row.id}/errors`}
+            download
+            className="inline-flex items-center gap-1 text-destructive hover:underline"
+            data-testid={`link-upload-errors-${row.id}`}
+          >
+            {row.rejectedCount.toLocaleString()}
+            <Download className="h-3 w-3" />
+          </a>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        ),
+    },
     {
       key: "status",
       header: "Status",
@@ -200,12 +230,21 @@ export default function DataUploads() {
         };
         const config = statusConfig[row.status] || statusConfig.processing;
         const Icon = config.icon;
-        return (
+        const status = (
           <div className="flex items-center gap-2">
             <Icon className={`h-4 w-4 ${config.className}`} />
             <span className="capitalize">{row.status}</span>
           </div>
         );
+        if (!row.errorMessage) return status;
+        return (
+          <Tooltip>
+            <TooltipTrigger asChild>{status}</TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+              <p className="text-sm">{row.errorMessage}</p>
+            </TooltipContent>
+          </Tooltip>
+        );
       },
     },
     {
@@ -219,51 +258,7 @@ export default function DataUploads() {
     },
   ];
 
-  // Mock data for demonstration
-  const mockUploads: DataUpload[] = [
-    {
-      id: 1,
-      uploadType: "accounts",
-      fileName: "accounts_2024.csv",
-      rowCount: 487,
-      status: "completed",
-      errorMessage: null,
-      uploadedBy: "Graham",
-      uploadedAt: "2024-01-15T10:30:00Z",
-    },
-    {
-      id: 2,
-      uploadType: "orders",
-      fileName: "orders_q4_2023.csv",
-      rowCount: 15234,
-      status: "completed",
-      errorMessage: null,
-      uploadedBy: "Graham",
-      uploadedAt: "2024-01-14T09:15:00Z",
-    },
-    {
-      id: 3,
-      uploadType: "products",
-      fileName: "product_catalog.csv",
-      rowCount: 2341,
-      status: "completed",
-      errorMessage: null,
-      uploadedBy: "Graham",
-      uploadedAt: "2024-01-10T14:45:00Z",
-    },
-    {
-      id: 4,
-      uploadType: "categories",
-      fileName: "categories.csv",
-      rowCount: 156,
-      status: "completed",
-      errorMessage: null,
-      uploadedBy: "Graham",
-      uploadedAt: "2024-01-10T14:30:00Z",
-    },
-  ];
-
-  const displayUploads = uploads || mockUploads;
+  const displayUploads = uploads ?? [];
 
   return (
     <div className="p-6 space-y-6" data-testid="page-data-uploads">
@@ -371,7 +366,7 @@ export default function DataUploads() {
         </Dialog>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         {uploadTypes.map((type) => {
           const latestUpload = displayUploads.find((u) => u.uploadType === type.id);
           const tooltips: Record<string, string> = {
@@ -379,6 +374,7 @@ export default function DataUploads() {
             products: "Product catalog with SKUs, categories, and pricing. Used to map orders to categories for penetration analysis.",
             categories: "Product category taxonomy that defines how products are grouped. Categories are used for ICP profile expectations.",
             orders: "Historical order data that powers the gap analysis. Order patterns are compared against ICP profiles to identify opportunities.",
+            order_items: "Line items linking orders to product SKUs. Upload after orders and products; re-uploading an order replaces its lines.",
           };
           return (
             <Card key={type.id}>
@@ -411,8 +407,15 @@ export default function DataUploads() {
                   <div className="text-sm">
                     <span className="text-muted-foreground">Last upload: </span>
                     <span>
-                      {latestUpload.rowCount?.toLocaleString()} rows
+                      {latestUpload.status === "processing"
+                        ? "processing..."
+                        : `${latestUpload.rowCount?.toLocaleString() ?? 0} rows`}
                     </span>
+                    {!!latestUpload.rejectedCount && (
+                      <span className="text-destructive">
+                        {" "}({latestUpload.rejectedCount.toLocaleString()} rejected)
+                      </span>
+                    )}
                   </div>
                 ) : (
                   <span className="text-sm text-muted-foreground">No data uploaded</span>
@@ -49,7 +49,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useSubscriptionUsage } from "@/hooks/use-subscription-usage";
 import { UpgradePrompt } from "@/components/upgrade-prompt";
-import { SUB_SEGMENT_TYPES } from "@shared/schema";
+import { SUB_SEGMENT_TYPES, type AccountRollupLevel } from "@shared/schema";
 import {
   Target,
   Plus,
@@ -110,6 +110,7 @@ import {
 interface AccountWithMetrics {
   id: number;
   name: string;
+  parentAccountId: number | null;
   segment: string;
   subSegment: string | null;
   last12mRevenue: number;
@@ -227,6 +228,7 @@ export default function ICPBuilder() {
   const [referenceAccountIds, setReferenceAccountIds] = useState<number[]>([]);
   const [referenceSearch, setReferenceSearch] = useState("");
   const [referenceBaseline, setReferenceBaseline] = useState<ReferenceBaselineResult[] | null>(null);
+  const [referenceLevel, setReferenceLevel] = useState<AccountRollupLevel>("account");
   const { toast } = useToast();
   const { canCreate, getFeatureUsage, planLabel } = useSubscriptionUsage();
   const icpUsage = getFeatureUsage("icps");
@@ -245,7 +247,7 @@ export default function ICPBuilder() {
     queryKey: ["/api/accounts"],
   });
 
-  const { data: categories } = useQuery<Array<{ id: number; name: string }>>({
+  const { data: categories } = useQuery<Array<{ id: number; name: string; path: string; depth: number }>>({
     queryKey: ["/api/categories"],
   });
 
@@ -254,6 +256,12 @@ export default function ICPBuilder() {
     return new Map(categories.map(c => [c.id, c.name]));
   }, [categories]);
 
+  // "Plumbing › Valves" for subcategories, so a target's place in the taxonomy is visible
+  const categoryPathByName = useMemo(() => {
+    if (!categories) return new Map<string, string>();
+    return new Map(categories.filter(c => c.depth > 0).map(c => [c.name, c.path]));
+  }, [categories]);
+
   const filteredReferenceAccounts = useMemo(() => {
     if (!allAccounts) return [];
     return allAccounts.filter(a => {
@@ -263,13 +271,15 @@ export default function ICPBuilder() {
       const matchesSearch = referenceSearch
         ? a.name.toLowerCase().includes(referenceSearch.toLowerCase())
         : true;
-      return matchesSegment && matchesSubSegment && matchesSearch;
+      // At the parent level each company (with all its branches) is one reference customer
+      const matchesLevel = referenceLevel === "account" || a.parentAccountId === null;
+      return matchesSegment && matchesSubSegment && matchesSearch && matchesLevel;
     });
-  }, [allAccounts, selectedProfile?.segment, selectedSubSegment, referenceSearch]);
+  }, [allAccounts, selectedProfile?.segment, selectedSubSegment, referenceSearch, referenceLevel]);
 
   const computeBaselineMutation = useMutation({
     mutationFn: async (accountIds: number[]) => {
-      const res = await apiRequest("POST", "/api/profiles/compute-reference-baseline", { accountIds });
+      const res = await apiRequest("POST", "/api/profiles/compute-reference-baseline", { accountIds, level: referenceLevel });
       return res.json() as Promise<ReferenceBaselineResult[]>;
     },
     onSuccess: (data) => {
@@ -1007,6 +1017,22 @@ export default function ICPBuilder() {
                                 ))}
                               </SelectContent>
                             </Select>
+                            <Select
+                              value={referenceLevel}
+                              onValueChange={(value) => {
+                                setReferenceLevel(value as AccountRollupLevel);
+                                setReferenceAccountIds([]);
+                                setReferenceBaseline(null);
+                              }}
+                            >
+                              <SelectTrigger className="w-[180px]" data-testid="select-reference-level">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="account">Each location</SelectItem>
+                                <SelectItem value="parent">Parent company</SelectItem>
+                              </SelectContent>
+                            </Select>
                           </div>
 
                           <div className="max-h-64 overflow-y-auto space-y-1 border rounded-md p-2">
@@ -1144,6 +1170,11 @@ export default function ICPBuilder() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <span className="font-medium">{category.categoryName}</span>
+                              {categoryPathByName.has(category.categoryName) && (
+                                <span className="text-xs text-muted-foreground">
+                                  {categoryPathByName.get(category.categoryName)}
+                                </span>
+                              )}
                               {displayRequired && (
                                 <Badge variant="destructive" className="text-xs">
                                   Required
@@ -7,7 +7,6 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { DataTable } from "@/components/data-table";
 import { EmptyState } from "@/components/empty-state";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import {
@@ -62,6 +61,7 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { PLAYBOOK_OUTCOME_TYPES, type PlaybookOutcomeType } from "@shared/schema";
 
 interface Task {
   id: number;
@@ -89,11 +89,10 @@ interface Playbook {
   completedCount: number;
 }
 
-interface CustomCategory {
+interface TaxonomyCategory {
   id: number;
   name: string;
-  displayOrder: number;
-  isActive: boolean;
+  isActive: boolean | null;
 }
 
 const taskTypeIcons = {
@@ -102,6 +101,14 @@ const taskTypeIcons = {
   visit: MapPin,
 };
 
+const outcomeTypeLabels: Record<PlaybookOutcomeType, string> = {
+  won: "Won",
+  partial: "Partial win",
+  no_response: "No response",
+  lost: "Lost",
+  deferred: "Deferred",
+};
+
 const statusColors: Record<string, string> = {
   pending: "bg-chart-3/10 text-chart-3 border-chart-3/20",
   in_progress: "bg-chart-1/10 text-chart-1 border-chart-1/20",
@@ -130,6 +137,7 @@ export default function Playbooks() {
   const [playbookName, setPlaybookName] = useState("");
   const [generateSegment, setGenerateSegment] = useState<string>("all");
   const [topN, setTopN] = useState<number>(5);
+  const [prioritizeBy, setPrioritizeBy] = useState<"revenue" | "margin">("revenue");
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
 
   // Create task dialog form state
@@ -138,6 +146,14 @@ export default function Playbooks() {
   const [newTaskDescription, setNewTaskDescription] = useState("");
   const [newTaskAccountId, setNewTaskAccountId] = useState<string>("");
   const [isCreatingTask, setIsCreatingTask] = useState(false);
+
+  // Complete task dialog form state
+  const [outcomeType, setOutcomeType] = useState<PlaybookOutcomeType | "">("");
+  const [wonCategory, setWonCategory] = useState<string>("");
+  const [revenueImpact, setRevenueImpact] = useState("");
+  const [outcomeScore, setOutcomeScore] = useState<string>("");
+  const [repNotes, setRepNotes] = useState("");
+  const [isCompletingTask, setIsCompletingTask] = useState(false);
   
   // Parse URL parameters for task auto-selection
   const params = new URLSearchParams(search);
@@ -165,9 +181,9 @@ export default function Playbooks() {
   // Extract tasks array from response (handles new pagination format)
   const tasks = tasksResponse?.tasks;
 
-  // Fetch custom categories for the dialog
-  const { data: customCategories } = useQuery<CustomCategory[]>({
-    queryKey: ["/api/custom-categories"],
+  // Fetch the category taxonomy for the dialog
+  const { data: productCategories } = useQuery<TaxonomyCategory[]>({
+    queryKey: ["/api/categories"],
   });
 
   // Fetch accounts for manual task creation
@@ -177,10 +193,10 @@ export default function Playbooks() {
 
   // Seed default categories if none exist
   useEffect(() => {
-    if (customCategories && customCategories.length === 0) {
-      apiRequest("POST", "/api/custom-categories/seed-defaults").catch(console.error);
+    if (productCategories && productCategories.length === 0) {
+      apiRequest("POST", "/api/categories/seed-defaults").catch(console.error);
     }
-  }, [customCategories]);
+  }, [productCategories]);
 
   // Handle URL parameters for segment pre-fill
   useEffect(() => {
@@ -252,7 +268,7 @@ export default function Playbooks() {
   const displayPlaybooks = playbooks || mockPlaybooks;
   
   // Get active categories for the dialog
-  const activeCategories = customCategories?.filter(c => c.isActive) || [];
+  const activeCategories = productCategories?.filter(c => c.isActive !== false) || [];
   
   // Default categories if none loaded
   const defaultCategories = ["Water Heaters", "Controls", "PVF", "Tools", "Chinaware", "Brass and Fittings"];
@@ -306,6 +322,7 @@ export default function Playbooks() {
         name: playbookName,
         segment: generateSegment === "all" ? undefined : generateSegment,
         topN: topN,
+        prioritizeBy,
         priorityCategories: selectedCategories.length > 0 ? selectedCategories : undefined,
       });
 
@@ -320,6 +337,7 @@ export default function Playbooks() {
       setSelectedCategories([]);
       setGenerateSegment("all");
       setTopN(5);
+      setPrioritizeBy("revenue");
       
       toast({
         title: "Playbook generated",
@@ -356,9 +374,55 @@ export default function Playbooks() {
   };
 
   const handleCompleteTask = (task: Task) => {
+    setOutcomeType("");
+    setWonCategory("");
+    setRevenueImpact("");
+    setOutcomeScore("");
+    setRepNotes("");
     setSelectedTask(task);
   };
 
+  const handleSubmitOutcome = async () => {
+    if (!selectedTask || !outcomeType) {
+      toast({
+        title: "Missing information",
+        description: "Please select an outcome",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const isWin = outcomeType === "won" || outcomeType === "partial";
+    setIsCompletingTask(true);
+    try {
+      await apiRequest("POST", `/api/tasks/${selectedTask.id}/complete`, {
+        outcomeType,
+        wonCategory: isWin && wonCategory ? wonCategory : null,
+        revenueImpact: revenueImpact ? parseFloat(revenueImpact) : null,
+        outcomeScore: outcomeScore ? parseInt(outcomeScore) : null,
+        repNotes: repNotes.trim() || null,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: [tasksQueryKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/playbooks"] });
+
+      setSelectedTask(null);
+      toast({
+        title: "Task completed",
+        description: "Outcome has been logged",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Failed to log outcome",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCompletingTask(false);
+    }
+  };
+
   const handleCreateTask = async () => {
     if (!newTaskTitle.trim() || !newTaskAccountId) {
       toast({
@@ -886,6 +950,21 @@ export default function Playbooks() {
                 data-testid="input-top-n"
               />
             </div>
+            <div className="space-y-2">
+              <Label>Prioritize By</Label>
+              <Select value={prioritizeBy} onValueChange={(v) => setPrioritizeBy(v as "revenue" | "margin")}>
+                <SelectTrigger data-testid="select-prioritize-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="revenue">Gap revenue</SelectItem>
+                  <SelectItem value="margin">Gap margin dollars</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Picks the top accounts, and orders their gap categories, by this measure
+              </p>
+            </div>
             <div className="space-y-2">
               <Label>Priority Categories</Label>
               <p className="text-xs text-muted-foreground mb-2">
@@ -999,32 +1078,92 @@ export default function Playbooks() {
           <div className="space-y-4 py-4">
             <div className="space-y-2">
               <Label>Outcome</Label>
+              <Select value={outcomeType} onValueChange={(v) => setOutcomeType(v as PlaybookOutcomeType)}>
+                <SelectTrigger data-testid="select-outcome-type">
+                  <SelectValue placeholder="Select outcome" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLAYBOOK_OUTCOME_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>
+                      {outcomeTypeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {(outcomeType === "won" || outcomeType === "partial") && (
+              <div className="space-y-2">
+                <Label>Category Won</Label>
+                <Select value={wonCategory} onValueChange={setWonCategory}>
+                  <SelectTrigger data-testid="select-won-category">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(selectedTask?.gapCategories?.length
+                      ? selectedTask.gapCategories
+                      : productCategories?.filter(c => c.isActive !== false).map(c => c.name) ?? []
+                    ).map(category => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Revenue Impact ($/yr)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="e.g., 12000"
+                  value={revenueImpact}
+                  onChange={(e) => setRevenueImpact(e.target.value)}
+                  data-testid="input-revenue-impact"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Score</Label>
+                <Select value={outcomeScore} onValueChange={setOutcomeScore}>
+                  <SelectTrigger data-testid="select-outcome-score">
+                    <SelectValue placeholder="1-5" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["5", "4", "3", "2", "1"].map(score => (
+                      <SelectItem key={score} value={score}>
+                        {score}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Notes</Label>
               <Textarea
                 placeholder="Describe the outcome of this task..."
                 rows={4}
+                value={repNotes}
+                onChange={(e) => setRepNotes(e.target.value)}
+                data-testid="input-rep-notes"
               />
             </div>
-            <div className="flex items-center gap-2">
-              <Checkbox id="follow-up" />
-              <Label htmlFor="follow-up" className="text-sm">
-                Create follow-up task
-              </Label>
-            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setSelectedTask(null)}>
               Cancel
             </Button>
             <Button
-              onClick={() => {
-                setSelectedTask(null);
-                toast({
-                  title: "Task completed",
-                  description: "Outcome has been logged",
-                });
-              }}
+              onClick={handleSubmitOutcome}
+              disabled={!outcomeType || isCompletingTask}
+              data-testid="button-submit-outcome"
             >
-              <CheckCircle className="mr-2 h-4 w-4" />
+              {isCompletingTask ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CheckCircle className="mr-2 h-4 w-4" />
+              )}
               Complete Task
             </Button>
           </DialogFooter>
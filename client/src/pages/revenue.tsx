@@ -48,6 +48,16 @@ import {
   Clock,
   ChevronRight,
   Award,
+  Lock,
+  Unlock,
+  RefreshCw,
+  FileText,
+  Send,
+  Pause,
+  Play,
+  LogOut,
+  History,
+  RotateCcw,
 } from "lucide-react";
 import {
   Tooltip as TooltipComponent,
@@ -69,6 +79,75 @@ import {
   AreaChart,
 } from "recharts";
 
+type BaselineMethod = "trailing_12" | "same_period_prior_year" | "seasonally_adjusted" | "negotiated";
+
+const BASELINE_METHOD_LABELS: Record<BaselineMethod, string> = {
+  trailing_12: "Trailing 12 months",
+  same_period_prior_year: "Same period prior year",
+  seasonally_adjusted: "Seasonally adjusted",
+  negotiated: "Negotiated",
+};
+
+type EnrollmentStatus = "active" | "paused" | "graduated" | "withdrawn";
+type EnrollmentAction = "pause" | "resume" | "withdraw";
+
+type EnrollmentReasonCode =
+  | "customer_request" | "credit_hold" | "seasonal_shutdown" | "ownership_change"
+  | "data_issue" | "objectives_met" | "contract_ended" | "other";
+
+const ENROLLMENT_REASON_LABELS: Record<EnrollmentReasonCode, string> = {
+  customer_request: "Customer request",
+  credit_hold: "Credit hold",
+  seasonal_shutdown: "Seasonal shutdown",
+  ownership_change: "Ownership change",
+  data_issue: "Data issue",
+  objectives_met: "Objectives met",
+  contract_ended: "Contract ended",
+  other: "Other",
+};
+
+const ENROLLMENT_EVENT_LABELS: Record<string, string> = {
+  enrolled: "Enrolled",
+  re_enrolled: "Re-enrolled",
+  paused: "Paused",
+  resumed: "Resumed",
+  graduated: "Graduated",
+  withdrawn: "Withdrawn",
+};
+
+const ENROLLMENT_ACTION_COPY: Record<EnrollmentAction, { title: string; description: string; button: string; done: string }> = {
+  pause: {
+    title: "Pause Enrollment",
+    description: "Paused days are left out of revenue, baseline and fees until the enrollment is resumed.",
+    button: "Pause",
+    done: "Enrollment paused",
+  },
+  resume: {
+    title: "Resume Enrollment",
+    description: "Revenue, baseline and fees are tracked again from today.",
+    button: "Resume",
+    done: "Enrollment resumed",
+  },
+  withdraw: {
+    title: "Withdraw from Program",
+    description: "Ends the enrollment without graduating. Fees stop after this month; the account can be enrolled again later with a fresh baseline.",
+    button: "Withdraw",
+    done: "Account withdrawn",
+  },
+};
+
+interface EnrollmentEvent {
+  id: number;
+  programAccountId: number;
+  event: string;
+  fromStatus: EnrollmentStatus | null;
+  toStatus: EnrollmentStatus;
+  reasonCode: EnrollmentReasonCode | null;
+  notes: string | null;
+  actor: string | null;
+  occurredAt: string;
+}
+
 interface EnrolledAccount {
   id: number;
   accountId: number;
@@ -76,10 +155,18 @@ interface EnrolledAccount {
   segment: string;
   enrolledAt: string;
   baselineRevenue: number;
+  baselineMethod?: BaselineMethod;
   currentRevenue: number;
   incrementalRevenue: number;
+  organicRevenue?: number;     // Growth the holdout group also saw
+  attributedRevenue?: number;  // incrementalRevenue - organicRevenue
+  holdoutCount?: number;
   shareRate: number;
-  status: "active" | "paused" | "graduated";
+  status: EnrollmentStatus;
+  statusReason?: EnrollmentReasonCode | null; // Reason code of the latest lifecycle change
+  statusChangedAt?: string | null;
+  withdrawnAt?: string | null;
+  previousProgramAccountId?: number | null; // Set on re-enrollments
   // Graduation objectives
   targetPenetration?: number | null;
   targetIncrementalRevenue?: number | null;
@@ -130,12 +217,94 @@ interface Account {
   segment: string | null;
 }
 
+interface HoldoutAccount {
+  id: number;
+  accountId: number;
+  accountName: string;
+  segment: string | null;
+  region: string | null;
+  matchMethod: "similar_pair" | "segment_region" | "manual";
+  similarityScore: string | null;
+}
+
+const HOLDOUT_MATCH_LABELS: Record<HoldoutAccount["matchMethod"], string> = {
+  similar_pair: "Look-alike",
+  segment_region: "Segment / region",
+  manual: "Manual",
+};
+
+interface ProgramRevenuePeriod {
+  id: number;
+  month: string; // "YYYY-MM"
+  status: "open" | "locked";
+  accountCount: number;
+  totalRevenue: string;
+  totalBaseline: string;
+  totalIncremental: string;
+  totalFee: string;
+  lastRunAt: string | null;
+  lockedAt: string | null;
+  lockedBy: string | null;
+}
+
+type StatementStatus = "draft" | "approved" | "sent";
+
+interface StatementAdjustment {
+  id: number;
+  programAccountId: number | null;
+  amount: string;
+  reason: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+interface StatementLine {
+  programAccountId: number;
+  accountId: number;
+  accountName: string;
+  periodStart: string;
+  periodEnd: string;
+  baselineMethod: BaselineMethod;
+  baselineRevenue: number;
+  actualRevenue: number;
+  incrementalRevenue: number;
+  feeAmount: number;
+}
+
+interface SuccessFeeStatement {
+  id: number;
+  statementNumber: string;
+  month: string; // "YYYY-MM"
+  status: StatementStatus;
+  lines?: StatementLine[]; // Only on GET /api/success-fee-statements/:id
+  accountCount?: number;   // Only on the list
+  totalBaseline: string;
+  totalActual: string;
+  totalIncremental: string;
+  totalFee: string;
+  adjustments: StatementAdjustment[];
+  adjustmentTotal: number;
+  amountDue: number;
+  generatedAt: string;
+  approvedAt: string | null;
+  approvedBy: string | null;
+  sentAt: string | null;
+  sentTo: string | null;
+}
+
+const STATEMENT_STATUS_LABELS: Record<StatementStatus, string> = {
+  draft: "Draft",
+  approved: "Approved",
+  sent: "Sent",
+};
+
 export default function Revenue() {
   const [periodFilter, setPeriodFilter] = useState<string>("12m");
   const [showEnrollDialog, setShowEnrollDialog] = useState(false);
   const [selectedAccountId, setSelectedAccountId] = useState<string>("");
   const [shareRate, setShareRate] = useState<string>("15");
-  const [baselinePeriod, setBaselinePeriod] = useState<string>("12m");
+  const [baselineMethod, setBaselineMethod] = useState<BaselineMethod>("trailing_12");
+  const [negotiatedBaseline, setNegotiatedBaseline] = useState<string>("");
   const [isEnrolling, setIsEnrolling] = useState(false);
   
   // Graduation state
@@ -144,7 +313,10 @@ export default function Revenue() {
   const [selectedProgramAccountId, setSelectedProgramAccountId] = useState<number | null>(null);
   const [graduationNotes, setGraduationNotes] = useState<string>("");
   const [isGraduating, setIsGraduating] = useState(false);
-  const [viewMode, setViewMode] = useState<"active" | "graduated">("active");
+  const [viewMode, setViewMode] = useState<"active" | "graduated" | "withdrawn">("active");
+  const [holdoutAccount, setHoldoutAccount] = useState<EnrolledAccount | null>(null);
+  const [lifecycleAction, setLifecycleAction] = useState<{ account: EnrolledAccount; action: EnrollmentAction } | null>(null);
+  const [historyAccount, setHistoryAccount] = useState<EnrolledAccount | null>(null);
   
   // Objective form state
   const [targetPenetration, setTargetPenetration] = useState<string>("");
@@ -168,7 +340,10 @@ export default function Revenue() {
     queryKey: ["/api/program-accounts/graduation-ready"],
   });
 
-  const enrolledAccountIds = new Set(enrolledAccounts?.map(a => a.accountId) || []);
+  // Graduated and withdrawn accounts can be enrolled again
+  const enrolledAccountIds = new Set(
+    enrolledAccounts?.filter(a => a.status === "active" || a.status === "paused").map(a => a.accountId) || []
+  );
   const availableAccounts = allAccounts?.filter(a => !enrolledAccountIds.has(a.id)) || [];
 
   // Mock data for demonstration
@@ -235,11 +410,14 @@ export default function Revenue() {
   const allDisplayAccounts = enrolledAccounts || mockEnrolledAccounts;
   const activeAccounts = allDisplayAccounts.filter(a => a.status === "active" || a.status === "paused");
   const graduatedAccounts = allDisplayAccounts.filter(a => a.status === "graduated");
-  const displayAccounts = viewMode === "active" ? activeAccounts : graduatedAccounts;
+  const withdrawnAccounts = allDisplayAccounts.filter(a => a.status === "withdrawn");
+  const displayAccounts = viewMode === "active" ? activeAccounts : viewMode === "graduated" ? graduatedAccounts : withdrawnAccounts;
 
   const totalBaseline = activeAccounts.reduce((sum, a) => sum + a.baselineRevenue, 0);
   const totalCurrent = displayAccounts.reduce((sum, a) => sum + a.currentRevenue, 0);
   const totalIncremental = displayAccounts.reduce((sum, a) => sum + a.incrementalRevenue, 0);
+  const totalOrganic = displayAccounts.reduce((sum, a) => sum + (a.organicRevenue ?? 0), 0);
+  const accountsWithHoldouts = displayAccounts.filter(a => (a.holdoutCount ?? 0) > 0).length;
   const growthRate = ((totalCurrent - totalBaseline) / totalBaseline) * 100;
 
   const formatCurrency = (value: number) => {
@@ -319,6 +497,13 @@ export default function Revenue() {
     }
   };
 
+  // Open the enroll dialog for a graduated or withdrawn account
+  const openReEnrollDialog = (account: EnrolledAccount) => {
+    setSelectedAccountId(account.accountId.toString());
+    setShareRate((account.shareRate * 100).toString());
+    setShowEnrollDialog(true);
+  };
+
   // Open objectives dialog with current values
   const openObjectivesDialog = (account: EnrolledAccount) => {
     setSelectedProgramAccountId(account.id);
@@ -353,7 +538,12 @@ export default function Revenue() {
       key: "baselineRevenue",
       header: "Baseline",
       cell: (row: EnrolledAccount) => (
-        <span>{formatCurrency(row.baselineRevenue)}</span>
+        <div>
+          <span>{formatCurrency(row.baselineRevenue)}</span>
+          {row.baselineMethod && (
+            <p className="text-xs text-muted-foreground">{BASELINE_METHOD_LABELS[row.baselineMethod]}</p>
+          )}
+        </div>
       ),
     },
     {
@@ -377,6 +567,11 @@ export default function Revenue() {
               <ArrowUpRight className="h-3 w-3 mr-1" />
               {growth.toFixed(0)}%
             </Badge>
+            {(row.holdoutCount ?? 0) > 0 && row.attributedRevenue !== undefined && (
+              <span className="text-xs text-muted-foreground">
+                {formatCurrency(row.attributedRevenue)} attributed
+              </span>
+            )}
           </div>
         );
       },
@@ -394,11 +589,27 @@ export default function Revenue() {
             </Badge>
           );
         }
+        if (row.status === "withdrawn") {
+          return (
+            <div className="flex flex-col">
+              <Badge variant="outline" className="w-fit">Withdrawn</Badge>
+              {row.statusReason && (
+                <span className="text-xs text-muted-foreground">{ENROLLMENT_REASON_LABELS[row.statusReason]}</span>
+              )}
+            </div>
+          );
+        }
         return (
           <div className="flex items-center gap-2">
             <Badge variant={row.status === "active" ? "default" : "secondary"}>
               {row.status}
             </Badge>
+            {row.status === "paused" && row.statusReason && (
+              <span className="text-xs text-muted-foreground">{ENROLLMENT_REASON_LABELS[row.statusReason]}</span>
+            )}
+            {row.previousProgramAccountId && (
+              <Badge variant="outline">Re-enrolled</Badge>
+            )}
             {isReady && (
               <Badge variant="outline" className="bg-chart-2/10 text-chart-2 border-chart-2/30">
                 <CheckCircle2 className="h-3 w-3 mr-1" />
@@ -413,11 +624,45 @@ export default function Revenue() {
       key: "actions",
       header: "Actions",
       cell: (row: EnrolledAccount) => {
-        if (row.status === "graduated") {
+        const historyButton = (
+          <TooltipComponent>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setHistoryAccount(row)}
+                data-testid={`button-history-${row.id}`}
+              >
+                <History className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Enrollment history</TooltipContent>
+          </TooltipComponent>
+        );
+        if (row.status === "graduated" || row.status === "withdrawn") {
+          const endedAt = row.status === "graduated" ? row.graduatedAt : row.withdrawnAt;
           return (
-            <span className="text-sm text-muted-foreground">
-              {row.graduatedAt ? new Date(row.graduatedAt).toLocaleDateString() : "Completed"}
-            </span>
+            <div className="flex items-center gap-1">
+              <span className="text-sm text-muted-foreground mr-1">
+                {endedAt ? new Date(endedAt).toLocaleDateString() : "Completed"}
+              </span>
+              {historyButton}
+              {!enrolledAccountIds.has(row.accountId) && (
+                <TooltipComponent>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openReEnrollDialog(row)}
+                      data-testid={`button-re-enroll-${row.id}`}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Re-enroll with a fresh baseline</TooltipContent>
+                </TooltipComponent>
+              )}
+            </div>
           );
         }
         const isReady = isAccountReadyToGraduate(row.id);
@@ -439,6 +684,21 @@ export default function Revenue() {
                 {hasObjectives ? "Edit graduation objectives" : "Set graduation objectives"}
               </TooltipContent>
             </TooltipComponent>
+            <TooltipComponent>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setHoldoutAccount(row)}
+                  data-testid={`button-holdouts-${row.id}`}
+                >
+                  <Users className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {row.holdoutCount ? `Holdout group (${row.holdoutCount})` : "Set up a holdout group"}
+              </TooltipContent>
+            </TooltipComponent>
             {isReady && (
               <TooltipComponent>
                 <TooltipTrigger asChild>
@@ -458,6 +718,33 @@ export default function Revenue() {
                 <TooltipContent>Graduate account</TooltipContent>
               </TooltipComponent>
             )}
+            <TooltipComponent>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLifecycleAction({ account: row, action: row.status === "paused" ? "resume" : "pause" })}
+                  data-testid={`button-${row.status === "paused" ? "resume" : "pause"}-${row.id}`}
+                >
+                  {row.status === "paused" ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{row.status === "paused" ? "Resume enrollment" : "Pause enrollment"}</TooltipContent>
+            </TooltipComponent>
+            <TooltipComponent>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLifecycleAction({ account: row, action: "withdraw" })}
+                  data-testid={`button-withdraw-${row.id}`}
+                >
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Withdraw from program</TooltipContent>
+            </TooltipComponent>
+            {historyButton}
           </div>
         );
       },
@@ -712,30 +999,45 @@ export default function Revenue() {
               <Trophy className="h-4 w-4 mr-1" />
               Graduated ({graduatedAccounts.length})
             </Button>
+            <Button
+              variant={viewMode === "withdrawn" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setViewMode("withdrawn")}
+              data-testid="button-view-withdrawn"
+            >
+              <LogOut className="h-4 w-4 mr-1" />
+              Withdrawn ({withdrawnAccounts.length})
+            </Button>
           </div>
         </CardHeader>
         <CardContent>
           {displayAccounts.length === 0 ? (
             <EmptyState
-              icon={viewMode === "active" ? Target : Trophy}
-              title={viewMode === "active" ? "No enrolled accounts" : "No graduated accounts yet"}
+              icon={viewMode === "active" ? Target : viewMode === "graduated" ? Trophy : LogOut}
+              title={
+                viewMode === "active" ? "No enrolled accounts"
+                  : viewMode === "graduated" ? "No graduated accounts yet"
+                  : "No withdrawn accounts"
+              }
               description={
-                viewMode === "active" 
-                  ? "Enroll accounts to start tracking revenue growth" 
-                  : "Accounts that complete their objectives will appear here"
+                viewMode === "active"
+                  ? "Enroll accounts to start tracking revenue growth"
+                  : viewMode === "graduated"
+                  ? "Accounts that complete their objectives will appear here"
+                  : "Accounts that leave the program without graduating will appear here"
               }
               action={viewMode === "active" ? {
                 label: "Enroll Account",
                 onClick: () => setShowEnrollDialog(true),
               } : undefined}
-              testId={viewMode === "active" ? "empty-enrolled" : "empty-graduated"}
+              testId={`empty-${viewMode === "active" ? "enrolled" : viewMode}`}
             />
           ) : (
             <DataTable
               columns={columns}
               data={displayAccounts}
               isLoading={isLoading}
-              testId={viewMode === "active" ? "table-enrolled" : "table-graduated"}
+              testId={`table-${viewMode === "active" ? "enrolled" : viewMode}`}
             />
           )}
         </CardContent>
@@ -765,12 +1067,71 @@ export default function Revenue() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Attributed vs. Organic Growth</CardTitle>
+          <CardDescription>
+            Incremental revenue split by the growth each account's holdout group saw over the same months a year earlier (difference-in-differences).
+            {accountsWithHoldouts < displayAccounts.length && ` ${displayAccounts.length - accountsWithHoldouts} of ${displayAccounts.length} accounts have no holdout group, so all of their growth counts as attributed.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-6">
+            <div className="text-center p-4 rounded-md bg-muted/50">
+              <p className="text-3xl font-bold">{formatCurrency(totalIncremental)}</p>
+              <p className="text-sm text-muted-foreground mt-1">Incremental Revenue</p>
+            </div>
+            <div className="text-center p-4 rounded-md bg-muted/50">
+              <p className="text-3xl font-bold" data-testid="text-organic-growth">{formatCurrency(totalOrganic)}</p>
+              <p className="text-sm text-muted-foreground mt-1">Organic (Market) Growth</p>
+            </div>
+            <div className="text-center p-4 rounded-md bg-chart-2/10">
+              <p className="text-3xl font-bold text-chart-2" data-testid="text-attributed-lift">
+                {formatCurrency(totalIncremental - totalOrganic)}
+              </p>
+              <p className="text-sm text-muted-foreground mt-1">Attributed Program Lift</p>
+            </div>
+          </div>
+          {totalIncremental > 0 && (
+            <Progress value={Math.max(0, Math.min(100, ((totalIncremental - totalOrganic) / totalIncremental) * 100))} />
+          )}
+        </CardContent>
+      </Card>
+
+      <MonthlyCloseCard formatCurrency={formatCurrency} />
+
+      <StatementsCard />
+
+      {holdoutAccount && (
+        <HoldoutDialog
+          programAccount={holdoutAccount}
+          candidates={availableAccounts}
+          onClose={() => setHoldoutAccount(null)}
+        />
+      )}
+
+      {lifecycleAction && (
+        <EnrollmentActionDialog
+          programAccount={lifecycleAction.account}
+          action={lifecycleAction.action}
+          onClose={() => setLifecycleAction(null)}
+        />
+      )}
+
+      {historyAccount && (
+        <EnrollmentHistoryDialog
+          programAccount={historyAccount}
+          onClose={() => setHistoryAccount(null)}
+        />
+      )}
+
       <Dialog open={showEnrollDialog} onOpenChange={(open) => {
         setShowEnrollDialog(open);
         if (!open) {
           setSelectedAccountId("");
           setShareRate("15");
-          setBaselinePeriod("12m");
+          setBaselineMethod("trailing_12");
+          setNegotiatedBaseline("");
         }
       }}>
         <DialogContent className="sm:max-w-md">
@@ -810,17 +1171,36 @@ export default function Revenue() {
               />
             </div>
             <div className="space-y-2">
-              <Label>Baseline Period</Label>
-              <Select value={baselinePeriod} onValueChange={setBaselinePeriod}>
-                <SelectTrigger data-testid="select-baseline-period">
-                  <SelectValue placeholder="Select period" />
+              <Label>Baseline Method</Label>
+              <Select value={baselineMethod} onValueChange={(value) => setBaselineMethod(value as BaselineMethod)}>
+                <SelectTrigger data-testid="select-baseline-method">
+                  <SelectValue placeholder="Select method" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="6m">Last 6 months</SelectItem>
-                  <SelectItem value="12m">Last 12 months</SelectItem>
+                  {(Object.keys(BASELINE_METHOD_LABELS) as BaselineMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>{BASELINE_METHOD_LABELS[method]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">
+                {baselineMethod === "same_period_prior_year" && "Each month is compared with the same month of the year before enrollment."}
+                {baselineMethod === "seasonally_adjusted" && "The last 12 months' revenue, shaped by the account's seasonal pattern."}
+                {baselineMethod === "negotiated" && "An annual baseline agreed with the customer."}
+                {baselineMethod === "trailing_12" && "The last 12 months' revenue, spread evenly across the year."}
+              </p>
             </div>
+            {baselineMethod === "negotiated" && (
+              <div className="space-y-2">
+                <Label>Negotiated Annual Baseline ($)</Label>
+                <Input
+                  type="number"
+                  value={negotiatedBaseline}
+                  onChange={(e) => setNegotiatedBaseline(e.target.value)}
+                  placeholder="e.g., 250000"
+                  data-testid="input-negotiated-baseline"
+                />
+              </div>
+            )}
             
             <div className="bg-primary/5 border border-primary/20 rounded-md p-3">
               <div className="flex items-start gap-2">
@@ -844,19 +1224,17 @@ export default function Revenue() {
                   toast({ title: "Select an account", description: "Please select an account to enroll", variant: "destructive" });
                   return;
                 }
+                if (baselineMethod === "negotiated" && !(parseFloat(negotiatedBaseline) > 0)) {
+                  toast({ title: "Enter the baseline", description: "A negotiated baseline needs an annual amount", variant: "destructive" });
+                  return;
+                }
                 
                 setIsEnrolling(true);
                 try {
-                  const months = baselinePeriod === "6m" ? 6 : 12;
-                  const baselineStart = new Date();
-                  baselineStart.setMonth(baselineStart.getMonth() - months);
-                  const baselineEnd = new Date();
-                  
                   const response = await apiRequest("POST", "/api/program-accounts", {
                     accountId: parseInt(selectedAccountId),
-                    baselineStart: baselineStart.toISOString(),
-                    baselineEnd: baselineEnd.toISOString(),
-                    baselineRevenue: "100000",
+                    baselineMethod,
+                    negotiatedBaselineRevenue: baselineMethod === "negotiated" ? parseFloat(negotiatedBaseline) : undefined,
                     shareRate: (parseFloat(shareRate) / 100).toString(),
                     status: "active",
                   });
@@ -1097,3 +1475,826 @@ export default function Revenue() {
     </div>
   );
 }
+
+function MonthlyCloseCard({ formatCurrency }: { formatCurrency: (value: number) => string }) {
+  const { toast } = useToast();
+  const lastMonth = new Date(new Date().getFullYear(), new Date().getMonth() - 1, 1);
+  // Only finished months can be closed
+  const latestMonth = `${lastMonth.getFullYear()}-${String(lastMonth.getMonth() + 1).padStart(2, "0")}`;
+  const [month, setMonth] = useState(latestMonth);
+
+  const { data: periods = [], isLoading } = useQuery<ProgramRevenuePeriod[]>({
+    queryKey: ["/api/program-revenue/periods"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/program-revenue/periods"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/program-accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/program-accounts/graduation-ready"] });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async (periodMonth: string) => {
+      const res = await apiRequest("POST", `/api/program-revenue/periods/${periodMonth}/run`);
+      return res.json();
+    },
+    onSuccess: (result: { month: string; accounts: number }) => {
+      invalidate();
+      toast({ title: `${result.month} closed`, description: `Snapshots written for ${result.accounts} enrolled accounts.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Close failed", description: error.message || "Failed to run the monthly close", variant: "destructive" });
+    },
+  });
+
+  const lockMutation = useMutation({
+    mutationFn: async ({ periodMonth, locked }: { periodMonth: string; locked: boolean }) => {
+      const res = await apiRequest("POST", `/api/program-revenue/periods/${periodMonth}/${locked ? "lock" : "unlock"}`);
+      return res.json();
+    },
+    onSuccess: (_, { periodMonth, locked }) => {
+      invalidate();
+      toast({ title: locked ? `${periodMonth} locked` : `${periodMonth} unlocked` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to update period", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 flex-wrap">
+        <div>
+          <CardTitle className="text-base">Monthly Close</CardTitle>
+          <CardDescription>
+            Enrolled revenue vs. pro-rated baseline per month. Runs on the 1st for the month just ended; lock a month once it has been billed.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="month"
+            value={month}
+            max={latestMonth}
+            onChange={(e) => setMonth(e.target.value)}
+            className="w-40"
+            data-testid="input-close-month"
+          />
+          <Button
+            size="sm"
+            onClick={() => runMutation.mutate(month)}
+            disabled={!month || runMutation.isPending}
+            data-testid="button-run-close"
+          >
+            {runMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-1" />
+            )}
+            Run Close
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : periods.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No months have been closed yet.</p>
+        ) : (
+          <div className="divide-y">
+            {periods.map(period => {
+              const locked = period.status === "locked";
+              return (
+                <div
+                  key={period.id}
+                  className="flex items-center justify-between gap-4 py-2 text-sm flex-wrap"
+                  data-testid={`close-period-${period.month}`}
+                >
+                  <div className="flex items-center gap-2 w-36">
+                    <span className="font-medium">{period.month}</span>
+                    <Badge variant={locked ? "secondary" : "outline"}>{locked ? "Locked" : "Open"}</Badge>
+                  </div>
+                  <span className="text-muted-foreground">{period.accountCount} accounts</span>
+                  <span>Revenue {formatCurrency(parseFloat(period.totalRevenue))}</span>
+                  <span>Baseline {formatCurrency(parseFloat(period.totalBaseline))}</span>
+                  <span className={parseFloat(period.totalIncremental) < 0 ? "text-destructive" : "text-chart-2"}>
+                    Incremental {formatCurrency(parseFloat(period.totalIncremental))}
+                  </span>
+                  <span className="font-medium">Fee {formatCurrency(parseFloat(period.totalFee))}</span>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runMutation.mutate(period.month)}
+                      disabled={locked || runMutation.isPending}
+                      data-testid={`button-rerun-${period.month}`}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => lockMutation.mutate({ periodMonth: period.month, locked: !locked })}
+                      disabled={lockMutation.isPending}
+                      data-testid={`button-${locked ? "unlock" : "lock"}-${period.month}`}
+                    >
+                      {locked ? <Unlock className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+function StatementsCard() {
+  const { toast } = useToast();
+  const [month, setMonth] = useState("");
+  const [openStatementId, setOpenStatementId] = useState<number | null>(null);
+
+  const { data: statements = [], isLoading } = useQuery<SuccessFeeStatement[]>({
+    queryKey: ["/api/success-fee-statements"],
+  });
+  const { data: periods = [] } = useQuery<ProgramRevenuePeriod[]>({
+    queryKey: ["/api/program-revenue/periods"],
+  });
+  const billed = new Set(statements.filter(s => s.status !== "draft").map(s => s.month));
+  const billableMonths = periods.map(p => p.month).filter(m => !billed.has(m));
+
+  const generateMutation = useMutation({
+    mutationFn: async (statementMonth: string) => {
+      const res = await apiRequest("POST", "/api/success-fee-statements", { month: statementMonth });
+      return res.json();
+    },
+    onSuccess: (statement: SuccessFeeStatement) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/success-fee-statements"] });
+      setMonth("");
+      setOpenStatementId(statement.id);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to generate the statement", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 flex-wrap">
+        <div>
+          <CardTitle className="text-base">Success Fee Statements</CardTitle>
+          <CardDescription>
+            Billable statements for closed months. Approved statements can't change; settle disputes with adjustments.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={month} onValueChange={setMonth}>
+            <SelectTrigger className="w-40" data-testid="select-statement-month">
+              <SelectValue placeholder="Closed month" />
+            </SelectTrigger>
+            <SelectContent>
+              {billableMonths.length === 0 ? (
+                <div className="p-2 text-sm text-muted-foreground">No closed months to bill</div>
+              ) : (
+                billableMonths.map(m => (
+                  <SelectItem key={m} value={m}>{m}</SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={() => generateMutation.mutate(month)}
+            disabled={!month || generateMutation.isPending}
+            data-testid="button-generate-statement"
+          >
+            {generateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <FileText className="h-4 w-4 mr-1" />
+            )}
+            Generate
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : statements.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No statements yet. Generate one for a closed month.</p>
+        ) : (
+          <div className="divide-y">
+            {statements.map(statement => (
+              <div
+                key={statement.id}
+                className="flex items-center justify-between gap-4 py-2 text-sm flex-wrap"
+                data-testid={`statement-${statement.month}`}
+              >
+                <div className="flex items-center gap-2 w-48">
+                  <span className="font-medium">{statement.statementNumber}</span>
+                  <Badge variant={statement.status === "draft" ? "outline" : "secondary"}>
+                    {STATEMENT_STATUS_LABELS[statement.status]}
+                  </Badge>
+                </div>
+                <span className="text-muted-foreground">{statement.accountCount ?? 0} accounts</span>
+                <span>Fees {formatAmount(parseFloat(statement.totalFee))}</span>
+                {statement.adjustments.length > 0 && (
+                  <span className="text-muted-foreground">Adjustments {formatAmount(statement.adjustmentTotal)}</span>
+                )}
+                <span className="font-medium">Due {formatAmount(statement.amountDue)}</span>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`/api/success-fee-statements/${statement.id}/export/pdf`} data-testid={`link-statement-pdf-${statement.id}`}>
+                      <Download className="h-4 w-4 mr-1" />
+                      PDF
+                    </a>
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`/api/success-fee-statements/${statement.id}/export/csv`} data-testid={`link-statement-csv-${statement.id}`}>
+                      <Download className="h-4 w-4 mr-1" />
+                      CSV
+                    </a>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOpenStatementId(statement.id)}
+                    data-testid={`button-open-statement-${statement.id}`}
+                  >
+                    Open
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      {openStatementId !== null && (
+        <StatementDialog statementId={openStatementId} onClose={() => setOpenStatementId(null)} />
+      )}
+    </Card>
+  );
+}
+
+function StatementDialog({ statementId, onClose }: { statementId: number; onClose: () => void }) {
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState("");
+  const [adjustmentAmount, setAdjustmentAmount] = useState("");
+  const [adjustmentReason, setAdjustmentReason] = useState("");
+  const [adjustmentAccount, setAdjustmentAccount] = useState("statement");
+  const statementKey = [`/api/success-fee-statements/${statementId}`];
+
+  const { data: statement, isLoading } = useQuery<SuccessFeeStatement>({
+    queryKey: statementKey,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: statementKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/success-fee-statements"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message || "Failed to update the statement", variant: "destructive" });
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (month: string) => {
+      const res = await apiRequest("POST", "/api/success-fee-statements", { month });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Statement refreshed from the latest close" });
+    },
+    onError,
+  });
+
+  const advanceMutation = useMutation({
+    mutationFn: async (action: "approve" | "send") => {
+      const res = await apiRequest("POST", `/api/success-fee-statements/${statementId}/${action}`, action === "send" ? { sentTo } : {});
+      return res.json();
+    },
+    onSuccess: (_, action) => {
+      invalidate();
+      if (action === "approve") {
+        queryClient.invalidateQueries({ queryKey: ["/api/program-revenue/periods"] });
+      }
+      toast({ title: action === "approve" ? "Statement approved" : "Statement marked as sent" });
+    },
+    onError,
+  });
+
+  const addAdjustmentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/success-fee-statements/${statementId}/adjustments`, {
+        amount: parseFloat(adjustmentAmount),
+        reason: adjustmentReason,
+        programAccountId: adjustmentAccount === "statement" ? null : parseInt(adjustmentAccount),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setAdjustmentAmount("");
+      setAdjustmentReason("");
+      setAdjustmentAccount("statement");
+    },
+    onError,
+  });
+
+  const deleteAdjustmentMutation = useMutation({
+    mutationFn: async (adjustmentId: number) => {
+      await apiRequest("DELETE", `/api/success-fee-statements/${statementId}/adjustments/${adjustmentId}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const accountNames = new Map((statement?.lines ?? []).map(l => [l.programAccountId, l.accountName]));
+  const adjustmentValid = adjustmentAmount !== "" && parseFloat(adjustmentAmount) !== 0 && adjustmentReason.trim() !== "";
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {statement?.statementNumber ?? "Statement"}
+            {statement && (
+              <Badge variant={statement.status === "draft" ? "outline" : "secondary"}>
+                {STATEMENT_STATUS_LABELS[statement.status]}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {statement?.status === "draft"
+              ? "Review the lines, then approve. Refresh the draft if the month's close was re-run."
+              : statement?.sentAt
+                ? `Sent ${new Date(statement.sentAt).toLocaleDateString()}${statement.sentTo ? ` to ${statement.sentTo}` : ""}.`
+                : statement?.approvedAt
+                  ? `Approved ${new Date(statement.approvedAt).toLocaleDateString()}${statement.approvedBy ? ` by ${statement.approvedBy}` : ""}.`
+                  : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !statement ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="text-left font-medium py-2">Account</th>
+                    <th className="text-left font-medium py-2">Baseline method</th>
+                    <th className="text-right font-medium py-2">Baseline</th>
+                    <th className="text-right font-medium py-2">Actual</th>
+                    <th className="text-right font-medium py-2">Incremental</th>
+                    <th className="text-right font-medium py-2">Fee</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(statement.lines ?? []).map(line => (
+                    <tr key={line.programAccountId} className="border-b" data-testid={`statement-line-${line.programAccountId}`}>
+                      <td className="py-2">{line.accountName}</td>
+                      <td className="py-2 text-muted-foreground">{BASELINE_METHOD_LABELS[line.baselineMethod] ?? line.baselineMethod}</td>
+                      <td className="py-2 text-right">{formatAmount(line.baselineRevenue)}</td>
+                      <td className="py-2 text-right">{formatAmount(line.actualRevenue)}</td>
+                      <td className={`py-2 text-right ${line.incrementalRevenue < 0 ? "text-destructive" : "text-chart-2"}`}>
+                        {formatAmount(line.incrementalRevenue)}
+                      </td>
+                      <td className="py-2 text-right">{formatAmount(line.feeAmount)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-medium">
+                    <td className="py-2" colSpan={2}>Total</td>
+                    <td className="py-2 text-right">{formatAmount(parseFloat(statement.totalBaseline))}</td>
+                    <td className="py-2 text-right">{formatAmount(parseFloat(statement.totalActual))}</td>
+                    <td className="py-2 text-right">{formatAmount(parseFloat(statement.totalIncremental))}</td>
+                    <td className="py-2 text-right">{formatAmount(parseFloat(statement.totalFee))}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Adjustments</Label>
+              {statement.adjustments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No adjustments.</p>
+              ) : (
+                <div className="divide-y">
+                  {statement.adjustments.map(a => (
+                    <div key={a.id} className="flex items-center justify-between gap-4 py-2 text-sm" data-testid={`adjustment-${a.id}`}>
+                      <div>
+                        <p>{a.reason}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {a.programAccountId === null ? "Whole statement" : accountNames.get(a.programAccountId) ?? `Enrollment ${a.programAccountId}`}
+                          {a.createdBy && ` · ${a.createdBy}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className={parseFloat(a.amount) < 0 ? "text-destructive" : ""}>{formatAmount(parseFloat(a.amount))}</span>
+                        {statement.status === "draft" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteAdjustmentMutation.mutate(a.id)}
+                            disabled={deleteAdjustmentMutation.isPending}
+                            data-testid={`button-delete-adjustment-${a.id}`}
+                          >
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-[1fr_8rem_auto] gap-2">
+                <Input
+                  placeholder="Reason (e.g. disputed order credited)"
+                  value={adjustmentReason}
+                  onChange={(e) => setAdjustmentReason(e.target.value)}
+                  data-testid="input-adjustment-reason"
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="-250.00"
+                  value={adjustmentAmount}
+                  onChange={(e) => setAdjustmentAmount(e.target.value)}
+                  data-testid="input-adjustment-amount"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => addAdjustmentMutation.mutate()}
+                  disabled={!adjustmentValid || addAdjustmentMutation.isPending}
+                  data-testid="button-add-adjustment"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              <Select value={adjustmentAccount} onValueChange={setAdjustmentAccount}>
+                <SelectTrigger data-testid="select-adjustment-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="statement">Whole statement</SelectItem>
+                  {(statement.lines ?? []).map(line => (
+                    <SelectItem key={line.programAccountId} value={line.programAccountId.toString()}>
+                      {line.accountName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Negative amounts are credits to the customer.</p>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md bg-muted/50 p-4">
+              <span className="text-sm text-muted-foreground">Amount due</span>
+              <span className="text-2xl font-bold" data-testid="text-statement-amount-due">{formatAmount(statement.amountDue)}</span>
+            </div>
+
+            {statement.status === "approved" && (
+              <div className="space-y-2">
+                <Label htmlFor="statement-sent-to">Billing contact</Label>
+                <Input
+                  id="statement-sent-to"
+                  placeholder="ap@customer.com"
+                  value={sentTo}
+                  onChange={(e) => setSentTo(e.target.value)}
+                  data-testid="input-statement-sent-to"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          {statement?.status === "draft" && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate(statement.month)}
+                disabled={regenerateMutation.isPending}
+                data-testid="button-refresh-statement"
+              >
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Refresh
+              </Button>
+              <Button
+                onClick={() => advanceMutation.mutate("approve")}
+                disabled={advanceMutation.isPending}
+                data-testid="button-approve-statement"
+              >
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+            </>
+          )}
+          {statement?.status === "approved" && (
+            <Button
+              onClick={() => advanceMutation.mutate("send")}
+              disabled={advanceMutation.isPending}
+              data-testid="button-send-statement"
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Mark as Sent
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function HoldoutDialog({
+  programAccount,
+  candidates,
+  onClose,
+}: {
+  programAccount: EnrolledAccount;
+  candidates: Account[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [manualAccountId, setManualAccountId] = useState<string>("");
+  const holdoutsKey = [`/api/program-accounts/${programAccount.id}/holdouts`];
+
+  const { data: holdouts = [], isLoading } = useQuery<HoldoutAccount[]>({
+    queryKey: holdoutsKey,
+  });
+  const inGroup = new Set(holdouts.map(h => h.accountId));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: holdoutsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/program-accounts"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message || "Failed to update the holdout group", variant: "destructive" });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/program-accounts/${programAccount.id}/holdouts/assign`, {});
+      return res.json();
+    },
+    onSuccess: (group: HoldoutAccount[]) => {
+      invalidate();
+      toast({
+        title: group.length > 0 ? "Holdout group assigned" : "No matching accounts",
+        description: group.length > 0
+          ? `${group.length} look-alike accounts will be kept out of the program as a control group.`
+          : "No eligible look-alike accounts were found. Add controls manually instead.",
+      });
+    },
+    onError,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (accountId: number) => {
+      const res = await apiRequest("POST", `/api/program-accounts/${programAccount.id}/holdouts`, { accountId });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setManualAccountId("");
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (accountId: number) => {
+      await apiRequest("DELETE", `/api/program-accounts/${programAccount.id}/holdouts/${accountId}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Holdout Group: {programAccount.accountName}</DialogTitle>
+          <DialogDescription>
+            Control accounts stay out of the program. Their growth is counted as organic, and only growth beyond it is attributed to the program.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : holdouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No control accounts yet.</p>
+          ) : (
+            <div className="divide-y">
+              {holdouts.map(h => (
+                <div key={h.id} className="flex items-center justify-between py-2 text-sm" data-testid={`holdout-${h.accountId}`}>
+                  <div>
+                    <p className="font-medium">{h.accountName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[h.segment, h.region].filter(Boolean).join(" · ") || "No segment"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{HOLDOUT_MATCH_LABELS[h.matchMethod]}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMutation.mutate(h.accountId)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-remove-holdout-${h.accountId}`}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Select value={manualAccountId} onValueChange={setManualAccountId}>
+              <SelectTrigger data-testid="select-holdout-account">
+                <SelectValue placeholder="Add a control account" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.filter(a => !inGroup.has(a.id)).map(account => (
+                  <SelectItem key={account.id} value={account.id.toString()}>
+                    {account.name} {account.segment && `(${account.segment})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => addMutation.mutate(parseInt(manualAccountId))}
+              disabled={!manualAccountId || addMutation.isPending}
+              data-testid="button-add-holdout"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button
+            onClick={() => assignMutation.mutate()}
+            disabled={assignMutation.isPending}
+            data-testid="button-auto-assign-holdouts"
+          >
+            {assignMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Sparkles className="mr-2 h-4 w-4" />
+            )}
+            Match Look-alikes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EnrollmentActionDialog({
+  programAccount,
+  action,
+  onClose,
+}: {
+  programAccount: EnrolledAccount;
+  action: EnrollmentAction;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [reasonCode, setReasonCode] = useState<string>("");
+  const [notes, setNotes] = useState("");
+  const copy = ENROLLMENT_ACTION_COPY[action];
+  const reasonRequired = action !== "resume";
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/program-accounts/${programAccount.id}/${action}`, {
+        reasonCode: reasonCode || undefined,
+        notes: notes || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/program-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/program-accounts/graduation-ready"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/program-accounts/${programAccount.id}/history`] });
+      toast({ title: copy.done, description: programAccount.accountName });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || `Failed to ${action} the enrollment`, variant: "destructive" });
+    },
+  });
+
+  const missingNotes = reasonCode === "other" && !notes.trim();
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{copy.title}: {programAccount.accountName}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Reason{reasonRequired ? "" : " (optional)"}</Label>
+            <Select value={reasonCode} onValueChange={setReasonCode}>
+              <SelectTrigger data-testid="select-enrollment-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ENROLLMENT_REASON_LABELS) as EnrollmentReasonCode[]).map(code => (
+                  <SelectItem key={code} value={code}>{ENROLLMENT_REASON_LABELS[code]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Notes{reasonCode === "other" ? "" : " (optional)"}</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Add context for the audit history..."
+              data-testid="input-enrollment-notes"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={mutation.isPending}>Cancel</Button>
+          <Button
+            variant={action === "withdraw" ? "destructive" : "default"}
+            onClick={() => mutation.mutate()}
+            disabled={mutation.isPending || (reasonRequired && !reasonCode) || missingNotes}
+            data-testid={`button-confirm-${action}`}
+          >
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {copy.button}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EnrollmentHistoryDialog({ programAccount, onClose }: { programAccount: EnrolledAccount; onClose: () => void }) {
+  const { data, isLoading } = useQuery<{ events: EnrollmentEvent[] }>({
+    queryKey: [`/api/program-accounts/${programAccount.id}/history`],
+  });
+  const events = [...(data?.events ?? [])].reverse();
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Enrollment History: {programAccount.accountName}</DialogTitle>
+          <DialogDescription>Every enrollment change for this account, newest first.</DialogDescription>
+        </DialogHeader>
+        <div className="py-2 max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No recorded changes yet.</p>
+          ) : (
+            <div className="divide-y">
+              {events.map(e => (
+                <div key={e.id} className="py-2 text-sm" data-testid={`enrollment-event-${e.id}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{ENROLLMENT_EVENT_LABELS[e.event] ?? e.event}</span>
+                    <span className="text-xs text-muted-foreground">{new Date(e.occurredAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      e.reasonCode && ENROLLMENT_REASON_LABELS[e.reasonCode],
+                      e.actor && `by ${e.actor}`,
+                      e.programAccountId !== programAccount.id && `enrollment #${e.programAccountId}`,
+                    ].filter(Boolean).join(" · ")}
+                  </p>
+                  {e.notes && <p className="text-xs mt-1">{e.notes}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
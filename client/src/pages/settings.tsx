@@ -50,7 +50,15 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { TerritoryManager } from "@shared/schema";
+import {
+  CRM_SYNC_FIELDS,
+  SCORING_FACTORS,
+  type CrmSyncField,
+  type ScoringFactor,
+  type ScoringFactorWeight,
+  type ScoringModelStatus,
+  type TerritoryManager,
+} from "@shared/schema";
 import {
   Settings,
   Database,
@@ -81,6 +89,9 @@ import {
   TrendingUp,
   Calendar,
   Clock,
+  Webhook,
+  KeyRound,
+  Send,
 } from "lucide-react";
 import {
   LineChart,
@@ -127,18 +138,34 @@ const territoryManagerFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
   email: z.string().email("Invalid email address"),
   territories: z.string(),
+  userId: z.string(),
   isActive: z.boolean().default(true),
 });
 
 type TerritoryManagerFormValues = z.infer<typeof territoryManagerFormSchema>;
 
-interface CustomCategory {
+const NO_LINKED_USER = "none";
+
+function toTerritoryManagerPayload(data: TerritoryManagerFormValues) {
+  return {
+    ...data,
+    territories: data.territories.split(",").map(t => t.trim()).filter(Boolean),
+    userId: data.userId === NO_LINKED_USER ? null : data.userId,
+  };
+}
+
+interface TaxonomyCategory {
   id: number;
   name: string;
-  displayOrder: number;
-  isActive: boolean;
+  parentId: number | null;
+  displayOrder: number | null;
+  isActive: boolean | null;
+  path: string;
+  depth: number;
 }
 
+const TOP_LEVEL = "top-level";
+
 interface RevenueSnapshot {
   period: string;
   baselineRevenue: number;
@@ -164,6 +191,37 @@ interface RevShareTier {
   isActive: boolean | null;
 }
 
+interface TeamMemberRow {
+  userId: string;
+  role: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  joinedAt: string | null;
+  isCurrentUser: boolean;
+}
+
+interface PendingInvite {
+  id: number;
+  email: string;
+  role: string;
+  expiresAt: string;
+  createdAt: string | null;
+}
+
+interface TeamResponse {
+  members: TeamMemberRow[];
+  invites: PendingInvite[];
+  seats: { used: number; limit: number };
+}
+
+const TEAM_ROLES = [
+  { value: "super_admin", label: "Admin" },
+  { value: "reviewer", label: "Reviewer" },
+  { value: "territory_manager", label: "Territory Manager" },
+  { value: "viewer", label: "Viewer" },
+];
+
 interface FeeCalculation {
   incrementalRevenue: number;
   totalFee: number;
@@ -1205,28 +1263,375 @@ function EmailSettingsManager() {
   );
 }
 
+function TeamManager() {
+  const { toast } = useToast();
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState("viewer");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<TeamResponse>({
+    queryKey: ["/api/team"],
+  });
+  const members = data?.members ?? [];
+  const invites = data?.invites ?? [];
+  const seats = data?.seats;
+  const atSeatLimit = seats ? seats.limit !== -1 && seats.used >= seats.limit : false;
+
+  const inviteMutation = useMutation({
+    mutationFn: async (body: { email: string; role: string }) => {
+      const response = await apiRequest("POST", "/api/team/invites", body);
+      return response.json();
+    },
+    onSuccess: (invite: { inviteUrl: string; emailSent: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team"] });
+      setInviteUrl(invite.inviteUrl);
+      toast({
+        title: "Invite created",
+        description: invite.emailSent
+          ? `An invitation email was sent to ${inviteEmail}.`
+          : "Email is not configured. Share the invite link below.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Invite Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/team/invites/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team"] });
+      toast({ title: "Invite revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
+      const response = await apiRequest("PATCH", `/api/team/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team"] });
+      toast({ title: "Role updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/team/members/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team"] });
+      toast({ title: "Member removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Remove Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const closeInviteDialog = () => {
+    setIsInviteDialogOpen(false);
+    setInviteEmail("");
+    setInviteRole("viewer");
+    setInviteUrl(null);
+  };
+
+  const memberName = (member: TeamMemberRow) =>
+    [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email || member.userId;
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">Team Members</CardTitle>
+            <CardDescription>
+              Invite teammates and control what they can do in this workspace
+              {seats && (
+                <span className="ml-1" data-testid="text-team-seats">
+                  ({seats.used} of {seats.limit === -1 ? "unlimited" : seats.limit} seats used)
+                </span>
+              )}
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => setIsInviteDialogOpen(true)}
+            disabled={atSeatLimit}
+            data-testid="button-invite-member"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Invite
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => (
+                  <TableRow key={member.userId} data-testid={`row-member-${member.userId}`}>
+                    <TableCell className="font-medium">
+                      {memberName(member)}
+                      {member.isCurrentUser && (
+                        <Badge variant="outline" className="ml-2 text-xs">You</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{member.email || "-"}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role })}
+                        disabled={updateRoleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-32" data-testid={`select-member-role-${member.userId}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TEAM_ROLES.map((role) => (
+                            <SelectItem key={role.value} value={role.value}>
+                              {role.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {member.joinedAt ? new Date(member.joinedAt).toLocaleDateString() : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => {
+                          if (confirm(`Remove ${memberName(member)} from the team?`)) {
+                            removeMutation.mutate(member.userId);
+                          }
+                        }}
+                        disabled={member.isCurrentUser || removeMutation.isPending}
+                        data-testid={`button-remove-member-${member.userId}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {invites.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Pending Invites</CardTitle>
+            <CardDescription>Invites hold a seat until they are accepted, revoked or expire</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invites.map((invite) => (
+                  <TableRow key={invite.id} data-testid={`row-invite-${invite.id}`}>
+                    <TableCell className="font-medium">{invite.email}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">
+                        {TEAM_ROLES.find((r) => r.value === invite.role)?.label ?? invite.role}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{new Date(invite.expiresAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => revokeMutation.mutate(invite.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-invite-${invite.id}`}
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isInviteDialogOpen} onOpenChange={(open) => !open && closeInviteDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Team Member</DialogTitle>
+            <DialogDescription>
+              They will join this workspace with the selected role the first time they sign in.
+            </DialogDescription>
+          </DialogHeader>
+          {inviteUrl ? (
+            <div className="space-y-2">
+              <Label>Invite link</Label>
+              <div className="flex gap-2">
+                <Input value={inviteUrl} readOnly data-testid="input-invite-url" />
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(inviteUrl);
+                    toast({ title: "Copied", description: "Invite link copied to clipboard." });
+                  }}
+                  data-testid="button-copy-invite-url"
+                >
+                  Copy
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">This link expires in 7 days.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="teammate@company.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  data-testid="input-invite-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={inviteRole} onValueChange={setInviteRole}>
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEAM_ROLES.map((role) => (
+                      <SelectItem key={role.value} value={role.value}>
+                        {role.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {inviteUrl ? (
+              <Button onClick={closeInviteDialog} data-testid="button-invite-done">Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeInviteDialog}>Cancel</Button>
+                <Button
+                  onClick={() => inviteMutation.mutate({ email: inviteEmail.trim(), role: inviteRole })}
+                  disabled={!inviteEmail.trim() || inviteMutation.isPending}
+                  data-testid="button-send-invite"
+                >
+                  {inviteMutation.isPending ? "Sending..." : "Send Invite"}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
 function CategoriesManager() {
   const { toast } = useToast();
   const [newCategoryName, setNewCategoryName] = useState("");
-  const [editingCategory, setEditingCategory] = useState<CustomCategory | null>(null);
+  const [newCategoryParent, setNewCategoryParent] = useState<string>(TOP_LEVEL);
+  const [editingCategory, setEditingCategory] = useState<TaxonomyCategory | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [restructuring, setRestructuring] = useState<{ category: TaxonomyCategory; mode: "move" | "merge" } | null>(null);
+  const [restructureTarget, setRestructureTarget] = useState<string>("");
 
-  const { data: categories = [], isLoading } = useQuery<CustomCategory[]>({
-    queryKey: ["/api/custom-categories"],
+  const { data: categories = [], isLoading } = useQuery<TaxonomyCategory[]>({
+    queryKey: ["/api/categories"],
   });
 
+  // Depth-first order: each category followed by its (expanded) subcategories
+  const { rows, childCount, subtreeOf } = useMemo(() => {
+    const children = new Map<number | null, TaxonomyCategory[]>();
+    const ids = new Set(categories.map(c => c.id));
+    for (const c of categories) {
+      const parent = c.parentId !== null && ids.has(c.parentId) && c.depth > 0 ? c.parentId : null;
+      if (!children.has(parent)) children.set(parent, []);
+      children.get(parent)!.push(c);
+    }
+    Array.from(children.values()).forEach(list =>
+      list.sort((a, b) => (a.displayOrder ?? 0) - (b.displayOrder ?? 0) || a.name.localeCompare(b.name)));
+
+    const ordered: TaxonomyCategory[] = [];
+    const walk = (parent: number | null) => {
+      for (const c of children.get(parent) ?? []) {
+        ordered.push(c);
+        if (!collapsed.has(c.id)) walk(c.id);
+      }
+    };
+    walk(null);
+
+    const subtree = (id: number): number[] => [id, ...(children.get(id) ?? []).flatMap(c => subtree(c.id))];
+    return {
+      rows: ordered,
+      childCount: (id: number) => children.get(id)?.length ?? 0,
+      subtreeOf: subtree,
+    };
+  }, [categories, collapsed]);
+
+  const byPath = useMemo(() => [...categories].sort((a, b) => a.path.localeCompare(b.path)), [categories]);
+
+  const restructureOptions = restructuring
+    ? byPath.filter(c => !subtreeOf(restructuring.category.id).includes(c.id))
+    : [];
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
   const createMutation = useMutation({
-    mutationFn: async (name: string) => {
-      const response = await apiRequest("POST", "/api/custom-categories", {
-        name,
-        displayOrder: categories.length + 1,
-        isActive: true,
-      });
+    mutationFn: async ({ name, parentId }: { name: string; parentId: number | null }) => {
+      const response = await apiRequest("POST", "/api/categories", { name, parentId });
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/custom-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setNewCategoryName("");
+      setNewCategoryParent(TOP_LEVEL);
       setIsAddDialogOpen(false);
       toast({ title: "Category added", description: "New product category has been created." });
     },
@@ -1237,11 +1642,11 @@ function CategoriesManager() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, ...data }: { id: number; name?: string; isActive?: boolean }) => {
-      const response = await apiRequest("PUT", `/api/custom-categories/${id}`, data);
+      const response = await apiRequest("PUT", `/api/categories/${id}`, data);
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/custom-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setEditingCategory(null);
       toast({ title: "Category updated", description: "Product category has been updated." });
     },
@@ -1250,26 +1655,52 @@ function CategoriesManager() {
     },
   });
 
+  const restructureMutation = useMutation({
+    mutationFn: async ({ id, mode, target }: { id: number; mode: "move" | "merge"; target: number | null }) => {
+      const response = mode === "move"
+        ? await apiRequest("POST", `/api/categories/${id}/move`, { parentId: target })
+        : await apiRequest("POST", `/api/categories/${id}/merge`, { targetId: target });
+      return response.json();
+    },
+    onSuccess: (_data, { mode }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      setRestructuring(null);
+      toast({
+        title: mode === "move" ? "Category moved" : "Categories merged",
+        description: "Account metrics and gaps are being recomputed in the background.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/custom-categories/${id}`);
+      await apiRequest("DELETE", `/api/categories/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/custom-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       toast({ title: "Category deleted", description: "Product category has been removed." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to delete category", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "This category is in use. Merge it into another category instead."
+          : "Failed to delete category",
+        variant: "destructive",
+      });
     },
   });
 
   const seedDefaultsMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/custom-categories/seed-defaults");
+      const response = await apiRequest("POST", "/api/categories/seed-defaults");
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/custom-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       toast({ title: "Categories seeded", description: "Default product categories have been added." });
     },
     onError: () => {
@@ -1279,7 +1710,20 @@ function CategoriesManager() {
 
   const handleAddCategory = () => {
     if (!newCategoryName.trim()) return;
-    createMutation.mutate(newCategoryName.trim());
+    createMutation.mutate({
+      name: newCategoryName.trim(),
+      parentId: newCategoryParent === TOP_LEVEL ? null : parseInt(newCategoryParent),
+    });
+  };
+
+  const openAddDialog = (parentId: number | null) => {
+    setNewCategoryParent(parentId === null ? TOP_LEVEL : String(parentId));
+    setIsAddDialogOpen(true);
+  };
+
+  const openRestructure = (category: TaxonomyCategory, mode: "move" | "merge") => {
+    setRestructuring({ category, mode });
+    setRestructureTarget(mode === "move" ? (category.parentId === null ? TOP_LEVEL : String(category.parentId)) : "");
   };
 
   return (
@@ -1289,8 +1733,8 @@ function CategoriesManager() {
           <div>
             <CardTitle className="text-base">Product Categories</CardTitle>
             <CardDescription>
-              Define the product categories used for ICP analysis and playbook generation.
-              These categories are specific to your company's product catalog.
+              The category taxonomy used for ICP analysis, gap roll-ups and playbook generation.
+              ICP targets on a parent category count spend across all of its subcategories.
             </CardDescription>
           </div>
           <div className="flex gap-2">
@@ -1308,7 +1752,7 @@ function CategoriesManager() {
             )}
             <Button
               size="sm"
-              onClick={() => setIsAddDialogOpen(true)}
+              onClick={() => openAddDialog(null)}
               data-testid="button-add-category"
             >
               <Plus className="mr-2 h-4 w-4" />
@@ -1328,7 +1772,7 @@ function CategoriesManager() {
           <div className="text-center py-8 text-muted-foreground">
             <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
             <p className="font-medium">No categories configured</p>
-            <p className="text-sm mt-1">Click "Load Defaults" to add standard categories or create your own.</p>
+            <p className="text-sm mt-1">Click "Load Defaults" to add standard categories, create your own, or upload a categories CSV.</p>
           </div>
         ) : (
           <Table>
@@ -1340,25 +1784,43 @@ function CategoriesManager() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {categories.map((category) => (
+              {rows.map((category) => (
                 <TableRow key={category.id} data-testid={`category-row-${category.id}`}>
                   <TableCell>
-                    {editingCategory?.id === category.id ? (
-                      <Input
-                        value={editingCategory.name}
-                        onChange={(e) =>
-                          setEditingCategory({ ...editingCategory, name: e.target.value })
-                        }
-                        className="max-w-xs"
-                        data-testid={`input-edit-category-${category.id}`}
-                      />
-                    ) : (
-                      <span className="font-medium">{category.name}</span>
-                    )}
+                    <div className="flex items-center gap-1" style={{ paddingLeft: `${category.depth * 1.5}rem` }}>
+                      {childCount(category.id) > 0 ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => toggleCollapsed(category.id)}
+                          data-testid={`button-toggle-children-${category.id}`}
+                        >
+                          {collapsed.has(category.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                      ) : (
+                        <span className="w-6" />
+                      )}
+                      {editingCategory?.id === category.id ? (
+                        <Input
+                          value={editingCategory.name}
+                          onChange={(e) =>
+                            setEditingCategory({ ...editingCategory, name: e.target.value })
+                          }
+                          className="max-w-xs"
+                          data-testid={`input-edit-category-${category.id}`}
+                        />
+                      ) : (
+                        <span className="font-medium">{category.name}</span>
+                      )}
+                      {childCount(category.id) > 0 && editingCategory?.id !== category.id && (
+                        <span className="text-xs text-muted-foreground">({childCount(category.id)})</span>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
-                    <Badge variant={category.isActive ? "default" : "secondary"}>
-                      {category.isActive ? "Active" : "Inactive"}
+                    <Badge variant={category.isActive !== false ? "default" : "secondary"}>
+                      {category.isActive !== false ? "Active" : "Inactive"}
                     </Badge>
                   </TableCell>
                   <TableCell className="text-right">
@@ -1395,18 +1857,42 @@ function CategoriesManager() {
                           >
                             <Pencil className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openAddDialog(category.id)}
+                            data-testid={`button-add-subcategory-${category.id}`}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openRestructure(category, "move")}
+                            data-testid={`button-move-category-${category.id}`}
+                          >
+                            Move
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openRestructure(category, "merge")}
+                            data-testid={`button-merge-category-${category.id}`}
+                          >
+                            Merge
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
                             onClick={() =>
                               updateMutation.mutate({
                                 id: category.id,
-                                isActive: !category.isActive,
+                                isActive: category.isActive === false,
                               })
                             }
                             data-testid={`button-toggle-category-${category.id}`}
                           >
-                            {category.isActive ? (
+                            {category.isActive !== false ? (
                               <AlertCircle className="h-4 w-4 text-muted-foreground" />
                             ) : (
                               <CheckCircle className="h-4 w-4 text-chart-2" />
@@ -1450,6 +1936,20 @@ function CategoriesManager() {
                 data-testid="input-new-category-name"
               />
             </div>
+            <div className="space-y-2">
+              <Label>Parent Category</Label>
+              <Select value={newCategoryParent} onValueChange={setNewCategoryParent}>
+                <SelectTrigger data-testid="select-new-category-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                  {byPath.map(c => (
+                    <SelectItem key={c.id} value={String(c.id)}>{c.path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
@@ -1466,6 +1966,53 @@ function CategoriesManager() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={restructuring !== null} onOpenChange={(open) => !open && setRestructuring(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {restructuring?.mode === "merge" ? "Merge" : "Move"} "{restructuring?.category.name}"
+            </DialogTitle>
+            <DialogDescription>
+              {restructuring?.mode === "merge"
+                ? "Products and ICP targets move to the target category, subcategories move under it, and uploads using this category's ID resolve to the target. This category is deactivated and keeps its gap history."
+                : "The category moves together with all of its subcategories."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>{restructuring?.mode === "merge" ? "Merge into" : "New parent"}</Label>
+            <Select value={restructureTarget} onValueChange={setRestructureTarget}>
+              <SelectTrigger data-testid="select-restructure-target">
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {restructuring?.mode === "move" && <SelectItem value={TOP_LEVEL}>Top level</SelectItem>}
+                {restructureOptions.map(c => (
+                  <SelectItem key={c.id} value={String(c.id)}>{c.path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRestructuring(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={restructuring?.mode === "merge" ? "destructive" : "default"}
+              onClick={() => restructuring && restructureMutation.mutate({
+                id: restructuring.category.id,
+                mode: restructuring.mode,
+                target: restructureTarget === TOP_LEVEL ? null : parseInt(restructureTarget),
+              })}
+              disabled={restructureMutation.isPending || !restructureTarget}
+              data-testid="button-confirm-restructure"
+            >
+              {restructureMutation.isPending && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              {restructuring?.mode === "merge" ? "Merge Categories" : "Move Category"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
@@ -1744,20 +2291,1108 @@ function EmailConnectionsCard() {
   );
 }
 
-export default function SettingsPage() {
-  const { toast } = useToast();
-  const [isSaving, setIsSaving] = useState(false);
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingManager, setEditingManager] = useState<TerritoryManager | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+interface CrmFieldMapping {
+  accountMatchField: string;
+  enrollmentStatusField: string | null;
+  riskSignalsField: string | null;
+  lastOutcomeField: string | null;
+}
 
-  const urlParams = useMemo(() => new URLSearchParams(window.location.search), []);
-  const initialTab = urlParams.get("tab") || "general";
+interface CrmConnectionInfo {
+  id: number;
+  provider: "salesforce" | "hubspot";
+  instanceUrl: string;
+  externalOrgId: string | null;
+  status: string;
+  fieldMapping: CrmFieldMapping;
+  sourceOfTruth: Record<CrmSyncField, "crm" | "app">;
+  createUnmatchedAccounts: boolean;
+  lastSyncAt: string | null;
+  lastPullAt: string | null;
+  syncError: string | null;
+  createdAt: string;
+}
 
-  useEffect(() => {
-    const connected = urlParams.get("connected");
-    const error = urlParams.get("error");
-    if (connected) {
+interface CrmPullResult {
+  accounts: { created: number; updated: number; unmatched: number };
+  contacts: { created: number; updated: number; skipped: number };
+  projects: { created: number; updated: number; skipped: number };
+}
+
+const CRM_PROVIDER_LABELS: Record<CrmConnectionInfo["provider"], string> = {
+  salesforce: "Salesforce",
+  hubspot: "HubSpot",
+};
+
+const CRM_MAPPING_FIELDS: { key: keyof CrmFieldMapping; label: string; help: string }[] = [
+  { key: "accountMatchField", label: "Account match field", help: "CRM field holding the account's external ID" },
+  { key: "enrollmentStatusField", label: "Program status field", help: "Set to enrolled, graduated or at_risk" },
+  { key: "riskSignalsField", label: "Risk signals field", help: "At-risk signals, semicolon separated" },
+  { key: "lastOutcomeField", label: "Last outcome field", help: "Most recent playbook outcome" },
+];
+
+const CRM_SYNC_FIELD_LABELS: Record<CrmSyncField, string> = {
+  "account.name": "Account name",
+  "account.segment": "Account segment",
+  "account.region": "Account region",
+  "contact.firstName": "Contact first name",
+  "contact.lastName": "Contact last name",
+  "contact.email": "Contact email",
+  "contact.phone": "Contact phone",
+  "contact.title": "Contact title",
+  "project.name": "Opportunity name",
+  "project.estimatedValue": "Opportunity amount",
+  "project.stage": "Opportunity stage",
+  "project.bidDeadline": "Opportunity close date",
+};
+
+function CrmConnectionsCard() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<CrmConnectionInfo | null>(null);
+  const [editingSourceOfTruth, setEditingSourceOfTruth] = useState<CrmConnectionInfo | null>(null);
+  const [sourceOfTruthDraft, setSourceOfTruthDraft] = useState<Partial<Record<CrmSyncField, "crm" | "app">>>({});
+  const [mappingDraft, setMappingDraft] = useState<Record<keyof CrmFieldMapping, string>>({
+    accountMatchField: "",
+    enrollmentStatusField: "",
+    riskSignalsField: "",
+    lastOutcomeField: "",
+  });
+
+  const { data: connections = [], isLoading } = useQuery<CrmConnectionInfo[]>({
+    queryKey: ["/api/crm/connections"],
+  });
+
+  const connectMutation = useMutation({
+    mutationFn: async (provider: CrmConnectionInfo["provider"]) => {
+      const res = await apiRequest("GET", `/api/auth/${provider}/start`);
+      const data = await res.json();
+      window.location.href = data.authUrl;
+    },
+    onError: (_error, provider) => {
+      toast({
+        title: "Error",
+        description: `Failed to start ${CRM_PROVIDER_LABELS[provider]} OAuth. Make sure ${CRM_PROVIDER_LABELS[provider]} credentials are configured.`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async ({ id, mapping }: { id: number; mapping: CrmFieldMapping }) => {
+      const res = await apiRequest("PUT", `/api/crm/connections/${id}/field-mapping`, mapping);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Field mapping saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/crm/connections"] });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveSourceOfTruthMutation = useMutation({
+    mutationFn: async ({ id, sourceOfTruth }: { id: number; sourceOfTruth: Partial<Record<CrmSyncField, "crm" | "app">> }) => {
+      const res = await apiRequest("PUT", `/api/crm/connections/${id}/source-of-truth`, sourceOfTruth);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Source of truth saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/crm/connections"] });
+      setEditingSourceOfTruth(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createUnmatchedMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: number; enabled: boolean }) => {
+      const res = await apiRequest("PUT", `/api/crm/connections/${id}/create-unmatched-accounts`, { enabled });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crm/connections"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pullMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/crm/sync-pull");
+      return res.json() as Promise<CrmPullResult>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "CRM pull complete",
+        description: `Accounts: ${result.accounts.created} new, ${result.accounts.updated} updated, ${result.accounts.unmatched} unmatched. ` +
+          `Contacts: ${result.contacts.created} new, ${result.contacts.updated} updated. ` +
+          `Projects: ${result.projects.created} new, ${result.projects.updated} updated.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/crm/connections"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Pull Failed", description: error.message, variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: ["/api/crm/connections"] });
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/crm/connections/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Disconnected", description: "CRM connection removed." });
+      queryClient.invalidateQueries({ queryKey: ["/api/crm/connections"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to disconnect CRM.", variant: "destructive" });
+    },
+  });
+
+  const openMappingDialog = (conn: CrmConnectionInfo) => {
+    setEditing(conn);
+    setMappingDraft({
+      accountMatchField: conn.fieldMapping.accountMatchField,
+      enrollmentStatusField: conn.fieldMapping.enrollmentStatusField ?? "",
+      riskSignalsField: conn.fieldMapping.riskSignalsField ?? "",
+      lastOutcomeField: conn.fieldMapping.lastOutcomeField ?? "",
+    });
+  };
+
+  const handleSaveMapping = () => {
+    if (!editing) return;
+    saveMappingMutation.mutate({
+      id: editing.id,
+      mapping: {
+        accountMatchField: mappingDraft.accountMatchField.trim(),
+        enrollmentStatusField: mappingDraft.enrollmentStatusField.trim() || null,
+        riskSignalsField: mappingDraft.riskSignalsField.trim() || null,
+        lastOutcomeField: mappingDraft.lastOutcomeField.trim() || null,
+      },
+    });
+  };
+
+  const activeConnections = connections.filter((c) => c.status !== "disconnected");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Database className="h-4 w-4" />
+          CRM Connection
+        </CardTitle>
+        <CardDescription>
+          Push enrollments, graduations, at-risk alerts and playbook outcomes into Salesforce or HubSpot as notes, tasks and account fields,
+          and pull accounts, contacts and open opportunities back every 6 hours
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <RefreshCw className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {activeConnections.map((conn) => (
+              <div
+                key={conn.id}
+                className="flex items-center justify-between p-4 rounded-md border"
+                data-testid={`crm-connection-${conn.id}`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className={`h-9 w-9 rounded-md flex items-center justify-center text-white font-bold text-xs ${conn.provider === "salesforce" ? "bg-sky-500" : "bg-orange-500"}`}>
+                    {conn.provider === "salesforce" ? "SF" : "HS"}
+                  </div>
+                  <div>
+                    <p className="font-medium">{CRM_PROVIDER_LABELS[conn.provider]}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {conn.status === "connected" ? "Connected" : conn.status}
+                      {conn.externalOrgId && ` · ${conn.externalOrgId}`}
+                      {conn.lastSyncAt && ` · Last synced ${new Date(conn.lastSyncAt).toLocaleString()}`}
+                      {conn.lastPullAt && ` · Last pulled ${new Date(conn.lastPullAt).toLocaleString()}`}
+                    </p>
+                    {conn.syncError && (
+                      <p className="text-xs text-destructive mt-1">{conn.syncError}</p>
+                    )}
+                    <div className="flex items-center gap-2 mt-2">
+                      <Switch
+                        id={`crm-create-unmatched-${conn.id}`}
+                        checked={conn.createUnmatchedAccounts}
+                        onCheckedChange={(enabled) => createUnmatchedMutation.mutate({ id: conn.id, enabled })}
+                        disabled={createUnmatchedMutation.isPending}
+                        data-testid={`toggle-crm-create-unmatched-${conn.id}`}
+                      />
+                      <Label htmlFor={`crm-create-unmatched-${conn.id}`} className="text-xs text-muted-foreground">
+                        Create accounts for unmatched CRM accounts
+                      </Label>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {conn.status === "connected" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => pullMutation.mutate()}
+                      disabled={pullMutation.isPending}
+                      data-testid={`pull-crm-${conn.id}`}
+                    >
+                      <RefreshCw className={`h-3.5 w-3.5 mr-1.5 ${pullMutation.isPending ? "animate-spin" : ""}`} />
+                      Pull Now
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setEditingSourceOfTruth(conn);
+                      setSourceOfTruthDraft(conn.sourceOfTruth);
+                    }}
+                    data-testid={`edit-crm-source-of-truth-${conn.id}`}
+                  >
+                    <Layers className="h-3.5 w-3.5 mr-1.5" />
+                    Source of Truth
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openMappingDialog(conn)}
+                    data-testid={`edit-crm-mapping-${conn.id}`}
+                  >
+                    <Sliders className="h-3.5 w-3.5 mr-1.5" />
+                    Field Mapping
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => disconnectMutation.mutate(conn.id)}
+                    disabled={disconnectMutation.isPending}
+                    data-testid={`disconnect-crm-${conn.id}`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {activeConnections.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-2">
+                No CRM connected. Events are sent to the configured webhook URL, if any.
+              </p>
+            )}
+
+            <Separator />
+
+            <div className="flex gap-3">
+              {(["salesforce", "hubspot"] as const).map((provider) => (
+                <Button
+                  key={provider}
+                  variant="outline"
+                  onClick={() => connectMutation.mutate(provider)}
+                  disabled={connectMutation.isPending}
+                  data-testid={`connect-crm-${provider}`}
+                >
+                  Connect {CRM_PROVIDER_LABELS[provider]}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing && CRM_PROVIDER_LABELS[editing.provider]} Field Mapping</DialogTitle>
+            <DialogDescription>
+              API names of the account fields to update. Leave a field blank to skip it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {CRM_MAPPING_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`crm-mapping-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`crm-mapping-${field.key}`}
+                  value={mappingDraft[field.key]}
+                  onChange={(e) => setMappingDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  data-testid={`input-crm-mapping-${field.key}`}
+                />
+                <p className="text-xs text-muted-foreground">{field.help}</p>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={handleSaveMapping}
+              disabled={!mappingDraft.accountMatchField.trim() || saveMappingMutation.isPending}
+              data-testid="button-save-crm-mapping"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingSourceOfTruth} onOpenChange={(open) => !open && setEditingSourceOfTruth(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Source of Truth</DialogTitle>
+            <DialogDescription>
+              When a pulled value differs from the value in this app, the owning side wins. Empty values are always filled in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {CRM_SYNC_FIELDS.map((field) => (
+              <div key={field} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`crm-sot-${field}`}>{CRM_SYNC_FIELD_LABELS[field]}</Label>
+                <Select
+                  value={sourceOfTruthDraft[field] ?? "crm"}
+                  onValueChange={(value) => setSourceOfTruthDraft((prev) => ({ ...prev, [field]: value as "crm" | "app" }))}
+                >
+                  <SelectTrigger id={`crm-sot-${field}`} className="w-32" data-testid={`select-crm-sot-${field}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="crm">{editingSourceOfTruth ? CRM_PROVIDER_LABELS[editingSourceOfTruth.provider] : "CRM"}</SelectItem>
+                    <SelectItem value="app">This app</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingSourceOfTruth(null)}>Cancel</Button>
+            <Button
+              onClick={() => editingSourceOfTruth && saveSourceOfTruthMutation.mutate({
+                id: editingSourceOfTruth.id,
+                sourceOfTruth: sourceOfTruthDraft,
+              })}
+              disabled={saveSourceOfTruthMutation.isPending}
+              data-testid="button-save-crm-source-of-truth"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface WebhookConfig {
+  url: string | null;
+  hasSecret: boolean;
+  secretRotatedAt: string | null;
+  previousSecretExpiresAt: string | null;
+  secret?: string | null;
+}
+
+interface WebhookDeliverySummary {
+  id: number;
+  queueId: number;
+  eventType: string;
+  url: string;
+  attempt: number;
+  trigger: string;
+  responseStatus: number | null;
+  durationMs: number | null;
+  error: string | null;
+  eventStatus: string | null;
+  createdAt: string;
+}
+
+interface WebhookDeliveryDetail extends Omit<WebhookDeliverySummary, "eventStatus"> {
+  requestBody: string;
+  responseBody: string | null;
+}
+
+function formatJson(raw: string | null): string {
+  if (!raw) return "";
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+function WebhooksCard() {
+  const { toast } = useToast();
+  const [urlDraft, setUrlDraft] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [selectedDeliveryId, setSelectedDeliveryId] = useState<number | null>(null);
+
+  const { data: config } = useQuery<WebhookConfig>({
+    queryKey: ["/api/webhooks/config"],
+  });
+
+  const { data: deliveries = [], isLoading: deliveriesLoading } = useQuery<WebhookDeliverySummary[]>({
+    queryKey: ["/api/webhooks/deliveries"],
+  });
+
+  const { data: selectedDelivery } = useQuery<WebhookDeliveryDetail>({
+    queryKey: ["/api/webhooks/deliveries", selectedDeliveryId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/webhooks/deliveries/${selectedDeliveryId}`);
+      return res.json();
+    },
+    enabled: selectedDeliveryId !== null,
+  });
+
+  const onConfigSaved = (data: WebhookConfig) => {
+    queryClient.setQueryData(["/api/webhooks/config"], data);
+    setUrlDraft(null);
+    if (data.secret) setRevealedSecret(data.secret);
+  };
+
+  const saveUrlMutation = useMutation({
+    mutationFn: async (url: string | null) => {
+      const res = await apiRequest("PUT", "/api/webhooks/config", { url });
+      return res.json() as Promise<WebhookConfig>;
+    },
+    onSuccess: (data) => {
+      onConfigSaved(data);
+      toast({ title: "Webhook saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/webhooks/secret/rotate");
+      return res.json() as Promise<WebhookConfig>;
+    },
+    onSuccess: (data) => {
+      onConfigSaved(data);
+      toast({ title: "Secret rotated", description: "The previous secret keeps signing requests for 24 hours." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rotation Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/webhooks/deliveries/${id}/redeliver`);
+      return res.json() as Promise<WebhookDeliveryDetail>;
+    },
+    onSuccess: (delivery) => {
+      toast(delivery.error
+        ? { title: "Redelivery failed", description: delivery.error, variant: "destructive" }
+        : { title: "Redelivered", description: `Receiver responded with ${delivery.responseStatus}.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks/deliveries"] });
+      setSelectedDeliveryId(delivery.id);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Redelivery Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const url = urlDraft ?? config?.url ?? "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Webhook className="h-4 w-4" />
+          Outbound Webhook
+        </CardTitle>
+        <CardDescription>
+          When no CRM is connected, events are POSTed as JSON to this URL, signed with HMAC-SHA256 and retried with exponential backoff
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-url">Endpoint URL</Label>
+          <div className="flex gap-2">
+            <Input
+              id="webhook-url"
+              placeholder="https://example.com/hooks/wallet-share"
+              value={url}
+              onChange={(e) => setUrlDraft(e.target.value)}
+              data-testid="input-webhook-url"
+            />
+            <Button
+              onClick={() => saveUrlMutation.mutate(url.trim() || null)}
+              disabled={urlDraft === null || saveUrlMutation.isPending}
+              data-testid="button-save-webhook-url"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-4 rounded-md border">
+          <div className="flex items-center gap-3">
+            <KeyRound className="h-5 w-5 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Signing Secret</p>
+              <p className="text-sm text-muted-foreground">
+                {config?.hasSecret ? "Configured" : "Generated when a URL is saved"}
+                {config?.secretRotatedAt && ` · Rotated ${new Date(config.secretRotatedAt).toLocaleString()}`}
+              </p>
+              {config?.previousSecretExpiresAt && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Previous secret also signs until {new Date(config.previousSecretExpiresAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => rotateMutation.mutate()}
+            disabled={!config?.hasSecret || rotateMutation.isPending}
+            data-testid="button-rotate-webhook-secret"
+          >
+            <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+            Rotate
+          </Button>
+        </div>
+
+        {revealedSecret && (
+          <div className="space-y-2 p-4 rounded-md border bg-muted">
+            <Label>New signing secret</Label>
+            <div className="flex gap-2">
+              <Input value={revealedSecret} readOnly className="font-mono text-xs" data-testid="input-webhook-secret" />
+              <Button
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(revealedSecret);
+                  toast({ title: "Copied", description: "Signing secret copied to clipboard." });
+                }}
+                data-testid="button-copy-webhook-secret"
+              >
+                Copy
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Copy it now; it will not be shown again. Verify the X-Webhook-Signature header as
+              HMAC-SHA256 of "&lt;X-Webhook-Timestamp&gt;.&lt;raw body&gt;" and reject timestamps older than 5 minutes.
+            </p>
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="flex items-center justify-between">
+          <p className="font-medium text-sm">Recent Deliveries</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/webhooks/deliveries"] })}
+            data-testid="button-refresh-webhook-deliveries"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        {deliveriesLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <RefreshCw className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">No webhook deliveries yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sent</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Attempt</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id} data-testid={`row-webhook-delivery-${delivery.id}`}>
+                  <TableCell className="text-sm">{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <span className="font-mono text-xs">{delivery.eventType}</span>
+                    {delivery.eventStatus === "failed" && (
+                      <Badge variant="destructive" className="ml-2">Gave up</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={delivery.error ? "destructive" : "secondary"}>
+                      {delivery.responseStatus ?? "No response"}
+                    </Badge>
+                    {delivery.durationMs !== null && (
+                      <span className="text-xs text-muted-foreground ml-2">{delivery.durationMs} ms</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    #{delivery.attempt}
+                    {delivery.trigger === "manual" && <span className="text-muted-foreground"> (manual)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setSelectedDeliveryId(delivery.id)}
+                      data-testid={`button-view-webhook-delivery-${delivery.id}`}
+                    >
+                      <FileText className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => redeliverMutation.mutate(delivery.id)}
+                      disabled={redeliverMutation.isPending}
+                      data-testid={`button-redeliver-webhook-${delivery.id}`}
+                    >
+                      <Send className="h-3.5 w-3.5 mr-1" />
+                      Redeliver
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={selectedDeliveryId !== null} onOpenChange={(open) => !open && setSelectedDeliveryId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Webhook Delivery</DialogTitle>
+            <DialogDescription>
+              {selectedDelivery
+                ? `${selectedDelivery.eventType} · attempt #${selectedDelivery.attempt} · ${selectedDelivery.url}`
+                : "Loading…"}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedDelivery && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>Request body</Label>
+                <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs">{formatJson(selectedDelivery.requestBody)}</pre>
+              </div>
+              <div className="space-y-1">
+                <Label>
+                  Response {selectedDelivery.responseStatus !== null && `(${selectedDelivery.responseStatus})`}
+                </Label>
+                {selectedDelivery.error && (
+                  <p className="text-xs text-destructive">{selectedDelivery.error}</p>
+                )}
+                <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {formatJson(selectedDelivery.responseBody) || "(empty)"}
+                </pre>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedDeliveryId(null)}>Close</Button>
+            <Button
+              onClick={() => selectedDeliveryId !== null && redeliverMutation.mutate(selectedDeliveryId)}
+              disabled={redeliverMutation.isPending}
+              data-testid="button-redeliver-webhook-dialog"
+            >
+              <Send className="h-3.5 w-3.5 mr-1.5" />
+              Redeliver
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface ScoringModelVersion {
+  id: number;
+  version: number;
+  name: string;
+  description: string | null;
+  factors: ScoringFactorWeight[];
+  status: ScoringModelStatus;
+  createdBy: string | null;
+  createdAt: string | null;
+  activatedAt: string | null;
+  activatedBy: string | null;
+}
+
+interface ScoringModelPreview {
+  topN: number;
+  entered: number;
+  exited: number;
+  moved: number;
+  currentModel: { id: number | null; version: number | null; name: string };
+  rows: {
+    accountId: number;
+    accountName: string;
+    currentRank: number | null;
+    candidateRank: number | null;
+    currentScore: number;
+    candidateScore: number;
+  }[];
+}
+
+const SCORING_FACTOR_LABELS: Record<ScoringFactor, { label: string; hint: string }> = {
+  gap_size: { label: "Gap Size", hint: "Distance from ICP targets" },
+  revenue_potential: { label: "Revenue Potential", hint: "Estimated gap $ vs your largest" },
+  category_count: { label: "Category Count", hint: "Share of ICP categories with gaps" },
+  recency: { label: "Recency", hint: "How recently the account ordered" },
+  frequency: { label: "Frequency", hint: "Orders in the last 12 months" },
+  monetary: { label: "Monetary", hint: "12-month revenue" },
+  mix: { label: "Mix", hint: "Breadth of categories purchased" },
+  credit_headroom: { label: "Credit Headroom", hint: "Unused share of the credit limit" },
+  competitor_threat: { label: "Competitor Threat", hint: "Competitor mentions, last 90 days" },
+  margin: { label: "Margin", hint: "12-month margin % vs your best account" },
+};
+
+const SCORING_MODEL_STATUS_VARIANTS: Record<ScoringModelStatus, "default" | "secondary" | "outline"> = {
+  active: "default",
+  draft: "secondary",
+  archived: "outline",
+};
+
+function emptyFactorWeights(): Record<ScoringFactor, number> {
+  return Object.fromEntries(SCORING_FACTORS.map(f => [f, 0])) as Record<ScoringFactor, number>;
+}
+
+function ScoringModelStudio() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [modelName, setModelName] = useState("");
+  const [factorWeights, setFactorWeights] = useState<Record<ScoringFactor, number>>(emptyFactorWeights);
+  const [preview, setPreview] = useState<ScoringModelPreview | null>(null);
+
+  const { data: models = [], isLoading } = useQuery<ScoringModelVersion[]>({
+    queryKey: ["/api/scoring-models"],
+  });
+
+  const activeModel = models.find(m => m.status === "active");
+  const editingModel = models.find(m => m.id === editingId);
+  const factors = SCORING_FACTORS
+    .filter(f => factorWeights[f] > 0)
+    .map(f => ({ factor: f, weight: factorWeights[f] }));
+  const total = factors.reduce((sum, f) => sum + f.weight, 0);
+  const isValidTotal = Math.abs(total - 100) < 0.01;
+
+  const loadModel = (model: ScoringModelVersion | undefined) => {
+    const weights = emptyFactorWeights();
+    for (const f of model?.factors ?? []) weights[f.factor] = f.weight;
+    setFactorWeights(weights);
+    setEditingId(model?.status === "draft" ? model.id : null);
+    setModelName(model?.status === "draft" ? model.name : model ? `${model.name} (copy)` : "");
+    setPreview(null);
+  };
+
+  useEffect(() => {
+    if (activeModel && editingId === null && total === 0) loadModel(activeModel);
+  }, [activeModel?.id]);
+
+  const setWeight = (factor: ScoringFactor, weight: number) => {
+    setFactorWeights(prev => ({ ...prev, [factor]: Math.max(0, Math.min(100, weight)) }));
+    setPreview(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/scoring-models/preview", { factors });
+      return res.json() as Promise<ScoringModelPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ title: "Preview Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name: modelName.trim() || "Untitled model", factors };
+      const res = editingId !== null
+        ? await apiRequest("PATCH", `/api/scoring-models/${editingId}`, body)
+        : await apiRequest("POST", "/api/scoring-models", body);
+      return res.json() as Promise<ScoringModelVersion>;
+    },
+    onSuccess: (model) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-models"] });
+      setEditingId(model.id);
+      setModelName(model.name);
+      toast({ title: `Draft v${model.version} saved` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/scoring-models/${id}/activate`);
+      return res.json() as Promise<ScoringModelVersion>;
+    },
+    onSuccess: (model) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-models"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-weights"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      setEditingId(null);
+      setPreview(null);
+      toast({ title: `v${model.version} activated`, description: "All accounts are being re-scored with this model." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Activation Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-scoring-model-studio">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Sliders className="h-4 w-4" />
+          Scoring Model Studio
+          {activeModel && (
+            <Badge variant="outline" className="ml-2" data-testid="badge-active-model">
+              Active: v{activeModel.version}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Build a versioned model from any factor, preview how the top {preview?.topN ?? 50} accounts would re-rank, then activate it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-3 flex-wrap">
+          <div className="space-y-1 flex-1 min-w-[200px]">
+            <Label htmlFor="scoring-model-name">Model name</Label>
+            <Input
+              id="scoring-model-name"
+              value={modelName}
+              onChange={(e) => setModelName(e.target.value)}
+              placeholder="e.g. Margin-weighted Q3"
+              data-testid="input-scoring-model-name"
+            />
+          </div>
+          {editingModel ? (
+            <Badge variant="secondary">Editing draft v{editingModel.version}</Badge>
+          ) : (
+            <Badge variant="outline">New version</Badge>
+          )}
+          <Button variant="outline" size="sm" onClick={() => loadModel(undefined)} data-testid="button-new-scoring-model">
+            <Plus className="mr-2 h-4 w-4" />
+            Start Blank
+          </Button>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          {SCORING_FACTORS.map(factor => (
+            <div key={factor} className="flex items-center justify-between gap-3" data-testid={`factor-row-${factor}`}>
+              <div className="min-w-0">
+                <Label className="font-medium">{SCORING_FACTOR_LABELS[factor].label}</Label>
+                <p className="text-xs text-muted-foreground truncate">{SCORING_FACTOR_LABELS[factor].hint}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Slider
+                  value={[factorWeights[factor]]}
+                  onValueChange={([val]) => setWeight(factor, val)}
+                  max={100}
+                  step={5}
+                  className="w-24"
+                  data-testid={`slider-factor-${factor}`}
+                />
+                <Input
+                  type="number"
+                  value={factorWeights[factor]}
+                  onChange={(e) => setWeight(factor, parseInt(e.target.value) || 0)}
+                  className="w-16 text-center"
+                  min={0}
+                  max={100}
+                  data-testid={`input-factor-${factor}`}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between flex-wrap gap-3 pt-4 border-t">
+          <div className="flex items-center gap-2">
+            {isValidTotal ? (
+              <CheckCircle className="h-4 w-4 text-green-500" />
+            ) : (
+              <AlertCircle className="h-4 w-4 text-destructive" />
+            )}
+            <span className={`font-medium ${isValidTotal ? "text-green-600" : "text-destructive"}`} data-testid="text-factor-total">
+              Total: {total}%
+            </span>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={!isValidTotal || previewMutation.isPending}
+              data-testid="button-preview-scoring-model"
+            >
+              <TrendingUp className="mr-2 h-4 w-4" />
+              {previewMutation.isPending ? "Previewing..." : "Preview Ranking"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => saveMutation.mutate()}
+              disabled={!isValidTotal || saveMutation.isPending}
+              data-testid="button-save-scoring-model"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              {editingId !== null ? "Save Draft" : "Save as New Draft"}
+            </Button>
+            <Button
+              onClick={() => editingId !== null && activateMutation.mutate(editingId)}
+              disabled={editingId === null || activateMutation.isPending}
+              data-testid="button-activate-scoring-model"
+            >
+              <CheckCircle className="mr-2 h-4 w-4" />
+              {activateMutation.isPending ? "Activating..." : "Activate Draft"}
+            </Button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="space-y-3" data-testid="scoring-model-preview">
+            <div className="flex items-center gap-2 flex-wrap text-sm">
+              <span className="text-muted-foreground">
+                Top {preview.topN} vs {preview.currentModel.version !== null ? `v${preview.currentModel.version}` : preview.currentModel.name}:
+              </span>
+              <Badge variant="secondary">{preview.entered} enter</Badge>
+              <Badge variant="secondary">{preview.exited} exit</Badge>
+              <Badge variant="secondary">{preview.moved} move</Badge>
+            </div>
+            <div className="max-h-96 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Current Rank</TableHead>
+                    <TableHead className="text-right">New Rank</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead className="text-right">New Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => {
+                    const change = row.currentRank !== null && row.candidateRank !== null ? row.currentRank - row.candidateRank : null;
+                    return (
+                      <TableRow key={row.accountId} data-testid={`preview-row-${row.accountId}`}>
+                        <TableCell className="font-medium">{row.accountName}</TableCell>
+                        <TableCell className="text-right">{row.currentRank ?? "—"}</TableCell>
+                        <TableCell className="text-right">{row.candidateRank ?? "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {row.currentRank === null ? (
+                            <Badge variant="default">New</Badge>
+                          ) : row.candidateRank === null ? (
+                            <Badge variant="destructive">Out</Badge>
+                          ) : change === 0 ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <span className={change! > 0 ? "text-green-600" : "text-destructive"}>
+                              {change! > 0 ? `▲ ${change}` : `▼ ${-change!}`}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.candidateScore.toFixed(1)}
+                          <span className="text-xs text-muted-foreground ml-1">(was {row.currentScore.toFixed(1)})</span>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h4 className="font-semibold text-sm">Versions</h4>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : models.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No versions yet. Accounts are scored with the weights above until a model is activated.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Factors</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Activated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models.map(model => (
+                  <TableRow key={model.id} data-testid={`row-scoring-model-${model.id}`}>
+                    <TableCell>
+                      <div className="font-medium">v{model.version} · {model.name}</div>
+                      {model.createdBy && <div className="text-xs text-muted-foreground">by {model.createdBy}</div>}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {model.factors.map(f => `${SCORING_FACTOR_LABELS[f.factor].label} ${f.weight}%`).join(", ")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={SCORING_MODEL_STATUS_VARIANTS[model.status]}>{model.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {model.activatedAt ? new Date(model.activatedAt).toLocaleDateString() : "—"}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="ghost" size="sm" onClick={() => loadModel(model)} data-testid={`button-load-scoring-model-${model.id}`}>
+                        {model.status === "draft" ? "Edit" : "Copy"}
+                      </Button>
+                      {model.status !== "active" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => activateMutation.mutate(model.id)}
+                          disabled={activateMutation.isPending}
+                          data-testid={`button-activate-scoring-model-${model.id}`}
+                        >
+                          {model.status === "archived" ? "Roll Back" : "Activate"}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SettingsPage() {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingManager, setEditingManager] = useState<TerritoryManager | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const urlParams = useMemo(() => new URLSearchParams(window.location.search), []);
+  const initialTab = urlParams.get("tab") || "general";
+
+  useEffect(() => {
+    const connected = urlParams.get("connected");
+    const error = urlParams.get("error");
+    if (connected === "salesforce" || connected === "hubspot") {
+      toast({
+        title: "CRM Connected",
+        description: `${CRM_PROVIDER_LABELS[connected]} has been connected. Queued CRM events will sync there.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/crm/connections"] });
+      window.history.replaceState({}, "", "/settings?tab=integrations");
+    } else if (connected) {
       toast({
         title: "Email Connected",
         description: `Your ${connected === "microsoft" ? "Microsoft" : "Google"} email has been connected successfully.`,
@@ -1767,7 +3402,9 @@ export default function SettingsPage() {
     } else if (error) {
       toast({
         title: "Connection Failed",
-        description: `Failed to connect your email account. Please try again.`,
+        description: error.startsWith("salesforce") || error.startsWith("hubspot")
+          ? "Failed to connect your CRM. Please try again."
+          : `Failed to connect your email account. Please try again.`,
         variant: "destructive",
       });
       window.history.replaceState({}, "", "/settings?tab=integrations");
@@ -1790,6 +3427,7 @@ export default function SettingsPage() {
       name: "",
       email: "",
       territories: "",
+      userId: NO_LINKED_USER,
       isActive: true,
     },
   });
@@ -1814,6 +3452,11 @@ export default function SettingsPage() {
     queryKey: ["/api/territory-managers"],
   });
 
+  const { data: teamData } = useQuery<TeamResponse>({
+    queryKey: ["/api/team"],
+  });
+  const teamMembers = teamData?.members ?? [];
+
   const { data: scoringWeights } = useQuery<ScoringWeights>({
     queryKey: ["/api/scoring-weights"],
   });
@@ -1832,11 +3475,12 @@ export default function SettingsPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/scoring-weights"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-models"] });
       queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setHasWeightChanges(false);
       toast({
         title: "Scoring weights updated",
-        description: "The new weights will be applied to all account scores.",
+        description: "Saved as a new scoring model version and applied to all account scores.",
       });
     },
     onError: (error: Error) => {
@@ -1848,6 +3492,28 @@ export default function SettingsPage() {
     },
   });
 
+  const recomputeMetricsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/recompute-metrics");
+      return res.json() as Promise<{ accounts: number; matchedAccounts: number; gaps: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Account scores recomputed",
+        description: `${result.accounts} accounts scored (${result.matchedAccounts} matched to an ICP), ${result.gaps} category gaps found.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to recompute scores",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const weightsTotal = gapSizeWeight + revenuePotentialWeight + categoryCountWeight;
   const isValidWeightsTotal = Math.abs(weightsTotal - 100) < 0.01;
 
@@ -1930,8 +3596,7 @@ export default function SettingsPage() {
 
   const createMutation = useMutation({
     mutationFn: async (data: TerritoryManagerFormValues) => {
-      const territories = data.territories.split(",").map(t => t.trim()).filter(Boolean);
-      return apiRequest("POST", "/api/territory-managers", { ...data, territories });
+      return apiRequest("POST", "/api/territory-managers", toTerritoryManagerPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/territory-managers"] });
@@ -1946,8 +3611,7 @@ export default function SettingsPage() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: TerritoryManagerFormValues }) => {
-      const territories = data.territories.split(",").map(t => t.trim()).filter(Boolean);
-      return apiRequest("PUT", `/api/territory-managers/${id}`, { ...data, territories });
+      return apiRequest("PUT", `/api/territory-managers/${id}`, toTerritoryManagerPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/territory-managers"] });
@@ -2003,6 +3667,7 @@ export default function SettingsPage() {
         name: manager.name,
         email: manager.email,
         territories: manager.territories?.join(", ") || "",
+        userId: manager.userId ?? NO_LINKED_USER,
         isActive: manager.isActive ?? true,
       });
     } else {
@@ -2011,6 +3676,7 @@ export default function SettingsPage() {
         name: "",
         email: "",
         territories: "",
+        userId: NO_LINKED_USER,
         isActive: true,
       });
     }
@@ -2061,6 +3727,10 @@ export default function SettingsPage() {
             <Settings className="mr-2 h-4 w-4" />
             General
           </TabsTrigger>
+          <TabsTrigger value="team" data-testid="tab-team">
+            <Shield className="mr-2 h-4 w-4" />
+            Team
+          </TabsTrigger>
           <TabsTrigger value="territory-managers" data-testid="tab-territory-managers">
             <Users className="mr-2 h-4 w-4" />
             Territory Managers
@@ -2252,6 +3922,10 @@ export default function SettingsPage() {
           <ResetDemoDataCard />
         </TabsContent>
 
+        <TabsContent value="team" className="space-y-6">
+          <TeamManager />
+        </TabsContent>
+
         <TabsContent value="territory-managers" className="space-y-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between gap-2">
@@ -2381,6 +4055,7 @@ export default function SettingsPage() {
                       <li>Use sliders or type values directly - weights must add up to exactly 100%</li>
                       <li>Higher weight = more influence on which accounts rank at the top</li>
                       <li>Changes apply immediately after saving and re-rank all accounts</li>
+                      <li>Every save is kept as a scoring model version - use the Scoring Model Studio to weight other factors, preview the top-50 re-ranking and roll back</li>
                     </ul>
                   </div>
 
@@ -2579,9 +4254,20 @@ export default function SettingsPage() {
                   <RotateCcw className="mr-2 h-4 w-4" />
                   Reset
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => recomputeMetricsMutation.mutate()}
+                  disabled={recomputeMetricsMutation.isPending}
+                  data-testid="button-recompute-metrics"
+                >
+                  <RefreshCw className={`mr-2 h-4 w-4 ${recomputeMetricsMutation.isPending ? "animate-spin" : ""}`} />
+                  {recomputeMetricsMutation.isPending ? "Recomputing..." : "Recompute Scores"}
+                </Button>
               </div>
             </CardContent>
           </Card>
+
+          <ScoringModelStudio />
         </TabsContent>
 
         <TabsContent value="prompts" className="space-y-6">
@@ -2716,6 +4402,10 @@ Output a structured profile with category expectations.`}
 
           <EmailConnectionsCard />
 
+          <CrmConnectionsCard />
+
+          <WebhooksCard />
+
           <Card>
             <CardHeader>
               <CardTitle className="text-base flex items-center gap-2">
@@ -2946,6 +4636,34 @@ Output a structured profile with category expectations.`}
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="userId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Linked Login</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-tm-user">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_LINKED_USER}>Not linked</SelectItem>
+                        {teamMembers.map((member) => (
+                          <SelectItem key={member.userId} value={member.userId}>
+                            {member.email || member.userId}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Team members with the Territory Manager role only see accounts assigned to this TM or in its territories
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="isActive"
@@ -0,0 +1,34 @@
+-- Phase 2: Unified Category Taxonomy
+-- Run via: npm run db:push (adds the columns), then paste into psql $DATABASE_URL
+-- to copy custom_categories into product_categories. Safe to run more than once.
+-- Generated: 2026-10-19
+
+-- ─── Extend product_categories ───────────────────────────────────────────────
+
+ALTER TABLE product_categories
+  ADD COLUMN IF NOT EXISTS display_order INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS external_id_aliases TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_product_categories_parent_id ON product_categories (parent_id);
+
+-- ─── Fold custom_categories into the taxonomy ────────────────────────────────
+-- A custom category whose name matches an existing product category (case-insensitive)
+-- lends it its display order and active flag; the rest become top-level categories.
+
+UPDATE product_categories pc
+SET display_order = cc.display_order,
+    is_active = cc.is_active
+FROM custom_categories cc
+WHERE cc.tenant_id = pc.tenant_id
+  AND LOWER(TRIM(cc.name)) = LOWER(TRIM(pc.name));
+
+INSERT INTO product_categories (tenant_id, name, parent_id, display_order, is_active, created_at)
+SELECT cc.tenant_id, cc.name, NULL, cc.display_order, cc.is_active, cc.created_at
+FROM custom_categories cc
+WHERE NOT EXISTS (
+  SELECT 1 FROM product_categories pc
+  WHERE pc.tenant_id = cc.tenant_id
+    AND LOWER(TRIM(pc.name)) = LOWER(TRIM(cc.name))
+);
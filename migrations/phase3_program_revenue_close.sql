@@ -0,0 +1,20 @@
+-- Phase 3: Monthly Program Revenue Close
+-- Run via: npm run db:push (adds program_revenue_periods and the new snapshot
+-- columns), then paste into psql $DATABASE_URL to scope existing snapshots to
+-- their tenant. Safe to run more than once.
+-- Generated: 2026-10-19
+
+ALTER TABLE program_revenue_snapshots
+  ADD COLUMN IF NOT EXISTS tenant_id INTEGER,
+  ADD COLUMN IF NOT EXISTS fee_breakdown JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_program_revenue_snapshots_tenant_id ON program_revenue_snapshots (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_program_revenue_snapshots_account_period ON program_revenue_snapshots (program_account_id, period_start);
+
+-- ─── Backfill tenant_id from the enrollment ──────────────────────────────────
+
+UPDATE program_revenue_snapshots s
+SET tenant_id = pa.tenant_id
+FROM program_accounts pa
+WHERE pa.id = s.program_account_id
+  AND s.tenant_id IS NULL;
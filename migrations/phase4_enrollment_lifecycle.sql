@@ -0,0 +1,38 @@
+-- Phase 4: Enrollment Lifecycle
+-- Run via: npm run db:push (adds program_enrollment_events and the new
+-- program_accounts / snapshot columns), then paste into psql $DATABASE_URL to
+-- give existing enrollments a history. Safe to run more than once.
+-- Generated: 2026-10-19
+
+-- ─── Backfill enrolled / paused / graduated events ───────────────────────────
+
+INSERT INTO program_enrollment_events (tenant_id, program_account_id, account_id, event, from_status, to_status, actor, occurred_at)
+SELECT pa.tenant_id, pa.id, pa.account_id, 'enrolled', NULL, 'active', pa.enrolled_by, pa.enrolled_at
+FROM program_accounts pa
+WHERE pa.tenant_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM program_enrollment_events e WHERE e.program_account_id = pa.id);
+
+-- Pauses made before this release have no recorded date. Give enrollments that
+-- are paused now a pause from their enrollment date, so the monthly close
+-- treats them as paused throughout and a later resume closes a real interval
+-- rather than finding no pause to end.
+INSERT INTO program_enrollment_events (tenant_id, program_account_id, account_id, event, from_status, to_status, notes, occurred_at)
+SELECT pa.tenant_id, pa.id, pa.account_id, 'paused', 'active', 'paused', 'Paused before pause dates were recorded', pa.enrolled_at
+FROM program_accounts pa
+WHERE pa.tenant_id IS NOT NULL
+  AND pa.status = 'paused'
+  AND NOT EXISTS (
+    SELECT 1 FROM program_enrollment_events e
+    WHERE e.program_account_id = pa.id AND e.event = 'paused'
+  );
+
+INSERT INTO program_enrollment_events (tenant_id, program_account_id, account_id, event, from_status, to_status, notes, occurred_at)
+SELECT pa.tenant_id, pa.id, pa.account_id, 'graduated', 'active', 'graduated', pa.graduation_notes, pa.graduated_at
+FROM program_accounts pa
+WHERE pa.tenant_id IS NOT NULL
+  AND pa.status = 'graduated'
+  AND pa.graduated_at IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM program_enrollment_events e
+    WHERE e.program_account_id = pa.id AND e.event = 'graduated'
+  );
@@ -1,7 +1,7 @@
 import OpenAI from "openai";
 import { z } from "zod";
-import { storage } from "./storage";
 import { withRetry } from "./utils/retry";
+import { describeNextBestCategory, type NextBestCategory } from "./services/category-associations";
 
 const openai = new OpenAI({
   apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
@@ -47,6 +47,18 @@ const taskGenerationResultSchema = z.object({
 
 type TaskGenerationResult = z.infer<typeof taskGenerationResultSchema>;
 
+/**
+ * Co-purchase evidence for the prompt ("buyers of A also buy B"), or an empty
+ * string when the account has no next-best-category suggestions.
+ */
+function formatPurchasePatterns(nextBestCategories: NextBestCategory[]): string {
+  if (nextBestCategories.length === 0) return "";
+  return `Purchase patterns across our customer base (next-best categories for this account):
+${nextBestCategories.map(s => `- ${describeNextBestCategory(s)}`).join("\n")}
+Where it fits, use the strongest pattern as the reason to bring up that category.
+`;
+}
+
 function safeParseJSON<T>(content: string, schema: z.ZodSchema<T>, fallback: T): T {
   try {
     const parsed = JSON.parse(content);
@@ -62,13 +74,12 @@ function safeParseJSON<T>(content: string, schema: z.ZodSchema<T>, fallback: T):
   }
 }
 
-export async function analyzeSegment(segment: string): Promise<SegmentAnalysisResult> {
-  // Use custom categories if available, otherwise fall back to product categories
-  const customCats = await storage.getCustomCategories();
-  const categories = customCats.length > 0 
-    ? customCats.filter(c => c.isActive).map(c => ({ name: c.name }))
-    : (await storage.getProductCategories()).map(c => ({ name: c.name }));
-  const categoryNames = categories.map(c => c.name).join(", ");
+/**
+ * @param categories - the tenant's active taxonomy category names, so suggestions
+ *   can be matched back to product_categories
+ */
+export async function analyzeSegment(segment: string, categories: string[]): Promise<SegmentAnalysisResult> {
+  const categoryNames = categories.join(", ");
 
   const prompt = `You are a sales analytics expert for a wholesale distributor serving ${segment} contractors.
 
@@ -118,8 +129,8 @@ Respond in JSON format:
       throw new Error("No response from AI");
     }
 
-    const fallbackCategories: CategorySuggestion[] = categories.slice(0, 5).map((cat, i) => ({
-      categoryName: cat.name,
+    const fallbackCategories: CategorySuggestion[] = categories.slice(0, 5).map((name, i) => ({
+      categoryName: name,
       expectedPct: Math.floor(80 / 5),
       importance: i === 0 ? 1.5 : 1.0,
       isRequired: i < 2,
@@ -135,14 +146,8 @@ Respond in JSON format:
     return safeParseJSON(content, segmentAnalysisResultSchema, fallback) as SegmentAnalysisResult;
   } catch (error) {
     console.error("AI segment analysis error:", error);
-    // Use custom categories if available, otherwise fall back to product categories
-    const customCats = await storage.getCustomCategories();
-    const fallbackCats = customCats.length > 0 
-      ? customCats.filter(c => c.isActive).map(c => ({ name: c.name }))
-      : (await storage.getProductCategories()).map(c => ({ name: c.name }));
-    
-    const errorFallbackCategories: CategorySuggestion[] = fallbackCats.slice(0, 5).map((cat, i) => ({
-      categoryName: cat.name,
+    const errorFallbackCategories: CategorySuggestion[] = categories.slice(0, 5).map((name, i) => ({
+      categoryName: name,
       expectedPct: Math.floor(80 / 5),
       importance: i === 0 ? 1.5 : 1.0,
       isRequired: i < 2,
@@ -161,7 +166,8 @@ export async function generateCallScript(
   accountName: string,
   segment: string,
   gapCategories: string[],
-  revenue: number
+  revenue: number,
+  nextBestCategories: NextBestCategory[] = []
 ): Promise<TaskGenerationResult> {
   const prompt = `You are a Territory Manager at ABC Supply, a wholesale distributor.
 
@@ -169,7 +175,7 @@ Account: ${accountName}
 Segment: ${segment}
 Annual Revenue: $${revenue.toLocaleString()}
 Gap Categories (categories they should be buying from us but aren't): ${gapCategories.join(", ")}
-
+${formatPurchasePatterns(nextBestCategories)}
 Generate a call script for reaching out to this account about the gap categories.
 
 The script should:
@@ -228,7 +234,8 @@ export async function generateEmailTemplate(
   accountName: string,
   segment: string,
   gapCategories: string[],
-  revenue: number
+  revenue: number,
+  nextBestCategories: NextBestCategory[] = []
 ): Promise<TaskGenerationResult> {
   const prompt = `You are a Territory Manager at ABC Supply, a wholesale distributor.
 
@@ -236,7 +243,7 @@ Account: ${accountName}
 Segment: ${segment}  
 Annual Revenue: $${revenue.toLocaleString()}
 Gap Categories (categories they should be buying from us but aren't): ${gapCategories.join(", ")}
-
+${formatPurchasePatterns(nextBestCategories)}
 Generate an email template for reaching out to this account about the gap categories.
 
 The email should:
@@ -295,7 +302,8 @@ export async function generateVisitPlan(
   accountName: string,
   segment: string,
   gapCategories: string[],
-  revenue: number
+  revenue: number,
+  nextBestCategories: NextBestCategory[] = []
 ): Promise<TaskGenerationResult> {
   const prompt = `You are a Territory Manager at ABC Supply, a wholesale distributor.
 
@@ -303,7 +311,7 @@ Account: ${accountName}
 Segment: ${segment}
 Annual Revenue: $${revenue.toLocaleString()}
 Gap Categories (categories they should be buying from us but aren't): ${gapCategories.join(", ")}
-
+${formatPurchasePatterns(nextBestCategories)}
 Generate a site visit plan for this account to assess and address the gap categories.
 
 Include:
@@ -363,6 +371,7 @@ export async function generatePlaybookTasks(
     assignedTm: string;
     revenue: number;
     gapCategories: string[];
+    nextBestCategories?: NextBestCategory[];
   }>,
   priorityCategories: string[] = []
 ): Promise<Array<{
@@ -390,11 +399,11 @@ export async function generatePlaybookTasks(
       let taskResult: TaskGenerationResult;
 
       if (taskType === "call") {
-        taskResult = await generateCallScript(account.name, account.segment, relevantGaps, account.revenue);
+        taskResult = await generateCallScript(account.name, account.segment, relevantGaps, account.revenue, account.nextBestCategories);
       } else if (taskType === "email") {
-        taskResult = await generateEmailTemplate(account.name, account.segment, relevantGaps, account.revenue);
+        taskResult = await generateEmailTemplate(account.name, account.segment, relevantGaps, account.revenue, account.nextBestCategories);
       } else {
-        taskResult = await generateVisitPlan(account.name, account.segment, relevantGaps, account.revenue);
+        taskResult = await generateVisitPlan(account.name, account.segment, relevantGaps, account.revenue, account.nextBestCategories);
       }
 
       tasks.push({
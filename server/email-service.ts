@@ -219,6 +219,35 @@ export async function sendHighPriorityNotification(
   );
 }
 
+/** Escapes text interpolated into email HTML; tenant names and emails are user-supplied */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export async function sendTeamInviteEmail(
+  to: string,
+  tenantName: string,
+  role: string,
+  inviteUrl: string,
+  expiresInDays: number
+): Promise<SendEmailResult> {
+  const htmlContent = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #1a365d;">Join ${escapeHtml(tenantName)}</h2>
+      <p>You've been invited to join <strong>${escapeHtml(tenantName)}</strong> as a <strong>${escapeHtml(role.replace(/_/g, ' '))}</strong>.</p>
+      <p><a href="${escapeHtml(inviteUrl)}" style="display: inline-block; padding: 10px 20px; background: #1a365d; color: white; text-decoration: none; border-radius: 6px;">Accept invitation</a></p>
+      <p style="color: #718096; font-size: 12px;">This link expires in ${expiresInDays} days. Sign in with ${escapeHtml(to)} to accept.</p>
+    </div>
+  `;
+
+  return sendEmail(to, `You've been invited to join ${tenantName}`, htmlContent);
+}
+
 export async function sendDailyDigest(tenantId: number): Promise<{ sent: number; errors: number }> {
   const settings = await getEmailSettings();
 
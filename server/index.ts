@@ -83,8 +83,7 @@ export async function initialize(httpServer: Server) {
   await syncSubscriptionPlans();
   await syncDemoSettings();
 
-  const schedulerTenantId = parseInt(process.env.SCHEDULER_TENANT_ID ?? "8", 10);
-  startScheduler(schedulerTenantId);
+  startScheduler();
 
   const gracefulShutdown = (signal: string) => {
     log(`Received ${signal} — closing server.`);
@@ -1,7 +1,7 @@
 import type { Request, Response, NextFunction, RequestHandler } from "express";
 import { db } from "../db";
-import { subscriptionPlans, playbooks, segmentProfiles, programAccounts, userRoles } from "@shared/schema";
-import { eq, count } from "drizzle-orm";
+import { subscriptionPlans, playbooks, segmentProfiles, programAccounts, userRoles, teamInvites } from "@shared/schema";
+import { eq, and, gt, count, countDistinct } from "drizzle-orm";
 
 export interface FeatureLimits {
   playbooks: number; // -1 = unlimited
@@ -68,7 +68,8 @@ export async function getFeatureUsage(tenantId: number): Promise<FeatureUsage> {
     .from(segmentProfiles)
     .where(eq(segmentProfiles.tenantId, tenantId));
 
-  const [enrolledCount] = await db.select({ count: count() })
+  // Distinct accounts, so a re-enrolled alumni account isn't counted twice
+  const [enrolledCount] = await db.select({ count: countDistinct(programAccounts.accountId) })
     .from(programAccounts)
     .where(eq(programAccounts.tenantId, tenantId));
 
@@ -76,12 +77,21 @@ export async function getFeatureUsage(tenantId: number): Promise<FeatureUsage> {
     .from(userRoles)
     .where(eq(userRoles.tenantId, tenantId));
 
+  // Pending invites hold a seat so a plan can't be over-subscribed by outstanding links
+  const [inviteCount] = await db.select({ count: count() })
+    .from(teamInvites)
+    .where(and(
+      eq(teamInvites.tenantId, tenantId),
+      eq(teamInvites.status, "pending"),
+      gt(teamInvites.expiresAt, new Date())
+    ));
+
   return {
     playbooks: playbookCount?.count || 0,
     icps: icpCount?.count || 0,
     enrolled_accounts: enrolledCount?.count || 0,
     accounts: 0,
-    users: userCount?.count || 0,
+    users: (userCount?.count || 0) + (inviteCount?.count || 0),
   };
 }
 
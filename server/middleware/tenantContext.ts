@@ -1,7 +1,7 @@
 import type { Request, Response, NextFunction, RequestHandler } from "express";
 import { db } from "../db";
-import { tenants, userRoles, pendingSubscriptions, type Tenant, type UserRole, type RoleType, ROLE_PERMISSIONS } from "@shared/schema";
-import { eq, and, isNull } from "drizzle-orm";
+import { tenants, userRoles, pendingSubscriptions, teamInvites, territoryManagers, type Tenant, type UserRole, type RoleType, type TeamInvite, type TerritoryManager, ROLE_PERMISSIONS } from "@shared/schema";
+import { eq, and, isNull, gt, desc, sql } from "drizzle-orm";
 
 import "../types/express.d";
 
@@ -10,6 +10,7 @@ export interface TenantContext {
   tenant: Tenant;
   role: RoleType;
   userId: string;
+  territoryManager?: TerritoryManager; // Set for the territory_manager role; scopes TenantStorage reads
 }
 
 export async function getTenantForUser(userId: string): Promise<{ tenant: Tenant; role: UserRole } | null> {
@@ -83,6 +84,122 @@ export async function createTenantForUser(userId: string, email: string): Promis
   return { tenant: newTenant, role: newRole };
 }
 
+/**
+ * Joins a first-time user to the tenant that invited them. The invite token from
+ * the invite link (stashed in the session by GET /api/invites/:token) is preferred;
+ * otherwise the newest pending invite for the user's email is used. The invite's
+ * email must match the signed-in email either way.
+ */
+export async function acceptPendingInvite(
+  userId: string,
+  email: string,
+  inviteToken?: string
+): Promise<{ tenant: Tenant; role: UserRole } | null> {
+  const normalizedEmail = email.toLowerCase().trim();
+  const now = new Date();
+
+  let invite: TeamInvite | undefined;
+  if (inviteToken) {
+    [invite] = await db.select()
+      .from(teamInvites)
+      .where(and(
+        eq(teamInvites.token, inviteToken),
+        eq(teamInvites.status, "pending"),
+        gt(teamInvites.expiresAt, now)
+      ))
+      .limit(1);
+    if (invite && invite.email !== normalizedEmail) {
+      console.warn(`Invite ${invite.id} for ${invite.email} ignored: signed in as ${normalizedEmail}`);
+      invite = undefined;
+    }
+  }
+
+  if (!invite) {
+    [invite] = await db.select()
+      .from(teamInvites)
+      .where(and(
+        eq(teamInvites.email, normalizedEmail),
+        eq(teamInvites.status, "pending"),
+        gt(teamInvites.expiresAt, now)
+      ))
+      .orderBy(desc(teamInvites.createdAt))
+      .limit(1);
+  }
+
+  if (!invite) {
+    return null;
+  }
+
+  const [tenant] = await db.select()
+    .from(tenants)
+    .where(eq(tenants.id, invite.tenantId))
+    .limit(1);
+
+  if (!tenant) {
+    return null;
+  }
+
+  // Claim the invite before adding the role, so of two concurrent acceptances only one joins the tenant
+  const pendingInvite = invite;
+  const role = await db.transaction(async (tx) => {
+    const [claimed] = await tx.update(teamInvites)
+      .set({ status: "accepted", acceptedBy: userId, acceptedAt: now })
+      .where(and(eq(teamInvites.id, pendingInvite.id), eq(teamInvites.status, "pending")))
+      .returning();
+    if (!claimed) {
+      return null;
+    }
+
+    const [created] = await tx.insert(userRoles)
+      .values({
+        userId,
+        tenantId: pendingInvite.tenantId,
+        role: pendingInvite.role,
+      })
+      .returning();
+    return created;
+  });
+
+  if (!role) {
+    return null;
+  }
+  console.log(`Invite ${invite.id} accepted by ${normalizedEmail} for tenant ${tenant.id} (${invite.role})`);
+
+  return { tenant, role };
+}
+
+/**
+ * Resolves the territory_managers row linked to a user. Falls back to an
+ * unlinked row with the same email and links it, so invited TMs work on first login.
+ */
+export async function getTerritoryManagerForUser(
+  tenantId: number,
+  userId: string,
+  email: string
+): Promise<TerritoryManager | null> {
+  const [linked] = await db.select()
+    .from(territoryManagers)
+    .where(and(eq(territoryManagers.tenantId, tenantId), eq(territoryManagers.userId, userId)))
+    .limit(1);
+  if (linked) return linked;
+
+  const [byEmail] = await db.select()
+    .from(territoryManagers)
+    .where(and(
+      eq(territoryManagers.tenantId, tenantId),
+      isNull(territoryManagers.userId),
+      eq(sql`lower(${territoryManagers.email})`, email.toLowerCase())
+    ))
+    .limit(1);
+  if (!byEmail) return null;
+
+  const [updated] = await db.update(territoryManagers)
+    .set({ userId })
+    .where(eq(territoryManagers.id, byEmail.id))
+    .returning();
+  return updated;
+}
+
 export const withTenantContext: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
   const user = req.user;
 
@@ -93,17 +210,38 @@ export const withTenantContext: RequestHandler = async (req: Request, res: Respo
   const userId = user.claims.sub;
   const email = user.claims.email || "unknown@example.com";
 
+  const session = req.session as (typeof req.session & { inviteToken?: string }) | undefined;
+  const inviteToken = session?.inviteToken;
+
   let tenantData = await getTenantForUser(userId);
 
   if (!tenantData) {
-    tenantData = await createTenantForUser(userId, email);
+    tenantData = await acceptPendingInvite(userId, email, inviteToken)
+      ?? await createTenantForUser(userId, email);
+  }
+
+  if (session && inviteToken) {
+    delete session.inviteToken;
+  }
+
+  const role = tenantData.role.role as RoleType;
+  let territoryManager: TerritoryManager | undefined;
+  if (role === "territory_manager") {
+    const tm = await getTerritoryManagerForUser(tenantData.tenant.id, userId, email);
+    if (!tm) {
+      return res.status(403).json({
+        message: "Your account is not linked to a territory manager profile. Ask an administrator to link it in Settings.",
+      });
+    }
+    territoryManager = tm;
   }
 
   req.tenantContext = {
     tenantId: tenantData.tenant.id,
     tenant: tenantData.tenant,
-    role: tenantData.role.role as RoleType,
+    role,
     userId,
+    territoryManager,
   };
 
   next();
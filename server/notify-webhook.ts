@@ -4,13 +4,14 @@
  * Standardised helper for firing outbound CRM webhook notifications.
  * Wraps `queueCrmEvent` + `processCrmSyncQueue` for callers that want
  * to queue-and-immediately-attempt a single event rather than waiting
- * for the 4-hour cron retry.
+ * for the queue cron.
  *
  * Usage:
  *   await notifyWebhook(tenantId, "enrollment", accountId, payload);
  */
 
 import { queueCrmEvent, processCrmSyncQueue, CrmPayload } from "./services/crm-sync-push.js";
+import type { AgentPlaybookOutcome } from "@shared/schema";
 
 /**
  * Queue a CRM event and immediately attempt delivery.
@@ -54,6 +55,25 @@ export async function notifyEnrollment(
     });
 }
 
+/**
+ * Convenience wrapper for outcome events (a task completed with a structured outcome).
+ */
+export async function notifyOutcome(
+    tenantId: number,
+    outcome: AgentPlaybookOutcome,
+    actionTaken: string,
+): Promise<void> {
+    await notifyWebhook(tenantId, "outcome", outcome.accountId, {
+        event: "outcome",
+        account_id: outcome.accountId,
+        playbook_id: outcome.playbookId ?? outcome.agentPlaybookId ?? 0,
+        action_taken: actionTaken,
+        outcome: outcome.outcomeType,
+        revenue_impact: outcome.revenueImpact,
+        timestamp: (outcome.recordedAt ?? new Date()).toISOString(),
+    });
+}
+
 /**
  * Convenience wrapper for graduation events.
  */
@@ -3,6 +3,9 @@ import { createServer, type Server } from "http";
 import express from "express";
 import path from "path";
 import fs from "fs";
+import os from "os";
+import crypto from "crypto";
+import multer from "multer";
 import { storage } from "./storage";
 import {
   insertAccountSchema,
@@ -11,12 +14,17 @@ import {
   insertTaskSchema,
   insertPlaybookSchema,
   insertProgramAccountSchema,
+  programBaselineRequestSchema,
   insertDataUploadSchema,
   insertScoringWeightsSchema,
+  insertScoringModelSchema,
+  scoringModelFactorsSchema,
   insertTerritoryManagerSchema,
-  insertCustomCategorySchema,
   insertRevShareTierSchema,
   insertAccountFlagSchema,
+  insertAgentInteractionSchema,
+  insertSuccessFeeStatementAdjustmentSchema,
+  programEnrollmentTransitionSchema,
   updateEmailSettingsSchema,
   DEFAULT_SCORING_WEIGHTS,
   tenants,
@@ -28,6 +36,18 @@ import {
   AI_ACTION_LABELS,
   ACCOUNT_FLAG_TYPES,
   SUB_SEGMENT_TYPES,
+  DATA_UPLOAD_TYPES,
+  ROLE_PERMISSIONS,
+  PLAYBOOK_OUTCOME_TYPES,
+  ACCOUNT_ROLLUP_LEVELS,
+  type DataUploadType,
+  type ProgramEnrollmentStatus,
+  type ProgramEnrollmentEventRow,
+  type CrmProvider,
+  type RoleType,
+  type AccountCategoryGap,
+  type ScoringFactor,
+  type ScoringFactorWeight,
 } from "@shared/schema";
 import type Stripe from "stripe";
 import { db } from "./db";
@@ -39,6 +59,7 @@ import {
   programAccounts,
   userRoles,
   users,
+  teamInvites,
 } from "@shared/schema";
 import { z } from "zod";
 import { analyzeSegment, generatePlaybookTasks } from "./ai-service";
@@ -61,6 +82,7 @@ import {
   sendTaskNotification,
   sendHighPriorityNotification,
   isEmailConfigured,
+  sendTeamInviteEmail,
   DEFAULT_EMAIL_SETTINGS,
 } from "./email-service";
 import {
@@ -76,13 +98,20 @@ import { getTenantStorage, TenantStorage } from "./storage/tenantStorage";
 import { requireActiveSubscription, requirePlan, checkSubscriptionStatus } from "./middleware/subscription";
 import { requireFeatureLimit, checkFeatureLimit, getUsageWithLimits, getPlanLimits } from "./middleware/featureLimits";
 import { requireCredits, deductCreditsAfterAction } from "./middleware/creditGuard";
-import { getCreditUsage } from "./services/creditService";
+import { checkCredits, getCreditUsage } from "./services/creditService";
+
+// CSV uploads are spooled to disk and streamed into the parser, never buffered in memory
+const csvUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: 100 * 1024 * 1024 },
+});
 
 function getStorage(req: Request): TenantStorage {
-  if (!req.tenantContext?.tenantId) {
+  const context = req.tenantContext;
+  if (!context?.tenantId) {
     throw new Error("Tenant context not available");
   }
-  return getTenantStorage(req.tenantContext.tenantId);
+  return getTenantStorage(context.tenantId, context.territoryManager);
 }
 
 function safeParseGapCategories(gapCategories: unknown): string[] {
@@ -102,6 +131,27 @@ function safeParseGapCategories(gapCategories: unknown): string[] {
   return [];
 }
 
+/** Gross-margin dollars across an account's gaps; null when none has a margin rate */
+function sumMarginOpportunity(gaps: AccountCategoryGap[]): number | null {
+  const withMargin = gaps.filter(g => g.estimatedMarginOpportunity !== null);
+  if (withMargin.length === 0) return null;
+  return withMargin.reduce((sum, g) => sum + parseFloat(g.estimatedMarginOpportunity!), 0);
+}
+
+/** Base URL for links sent outside the app; taken from config, never from the request's Host header */
+function getAppBaseUrl(): string {
+  return process.env.BASE_URL || `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`;
+}
+
+/** Top-level parent of a branch account, which is where enrollment happens; null for top-level accounts */
+async function findEnrollmentParent(tenantStorage: TenantStorage, tenantId: number, accountId: number): Promise<{ id: number; name: string } | null> {
+  const { loadAccountLinks, resolveRootAccounts } = await import("./services/account-hierarchy.js");
+  const rootId = resolveRootAccounts(await loadAccountLinks(tenantId)).get(accountId) ?? accountId;
+  if (rootId === accountId) return null;
+  const parent = await tenantStorage.getAccount(rootId);
+  return { id: rootId, name: parent?.name ?? `account ${rootId}` };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -184,14 +234,21 @@ export async function registerRoutes(
         tenantStorage.getAccountCategoryGapsBatch(allAccountIds)
       ]);
 
+      // Parents' metrics already include their branches, so revenue KPIs count top-level accounts only
+      const { resolveRootAccounts } = await import("./services/account-hierarchy.js");
+      const rootOf = resolveRootAccounts(allAccounts.map(a => ({ id: a.id, parentAccountId: a.parentAccountId })));
+
       // Calculate Revenue KPIs based on fetched metrics
-      const totalRevenue = allAccountIds.reduce((sum, id) => {
+      const totalRevenue = allAccountIds.filter(id => rootOf.get(id) === id).reduce((sum, id) => {
         const metrics = metricsMap.get(id);
         return sum + (metrics ? parseFloat(metrics.last12mRevenue || "0") : 0);
       }, 0);
 
       const incrementalRevenue = programAccounts.reduce((sum, pa) => {
-        if (pa.status === "graduated") {
+        if (pa.status === "withdrawn") {
+          // Left the program without graduating; nothing to claim
+          return sum;
+        } else if (pa.status === "graduated") {
           return sum + Math.max(0, parseFloat(pa.graduationRevenue || "0") - parseFloat(pa.baselineRevenue || "0"));
         } else {
           const currentMetrics = metricsMap.get(pa.accountId);
@@ -201,8 +258,8 @@ export async function registerRoutes(
         }
       }, 0);
 
-      // Track which accounts are enrolled
-      const enrolledAccountIds = new Set(programAccounts.map(p => p.accountId));
+      // Track which accounts are enrolled (withdrawn accounts left the program)
+      const enrolledAccountIds = new Set(programAccounts.filter(p => p.status !== "withdrawn").map(p => p.accountId));
 
       // Build full metrics for all accounts
       const allAccountsWithMetrics = allAccounts.map(account => {
@@ -211,6 +268,7 @@ export async function registerRoutes(
 
         // Calculate total estimated revenue opportunity by summing all category gaps for this account
         const estimatedValue = gaps.reduce((sum, g) => sum + parseFloat(g.estimatedOpportunity || "0"), 0);
+        const estimatedMarginValue = sumMarginOpportunity(gaps);
 
         return {
           id: account.id,
@@ -224,15 +282,17 @@ export async function registerRoutes(
           categoryPenetration: metrics ? parseFloat(metrics.categoryPenetration || "0") : 0,
           opportunityScore: metrics ? parseFloat(metrics.opportunityScore || "0") : 0,
           estimatedValue: estimatedValue,
+          estimatedMarginValue,
           gapCategories: gaps.slice(0, DASHBOARD_LIMITS.TOP_GAPS).map(g => {
             const cat = categoryMap.get(g.categoryId);
             return {
               name: cat?.name || "Unknown",
               gapPct: parseFloat(g.gapPct || "0"),
               estimatedValue: parseFloat(g.estimatedOpportunity || "0"),
+              estimatedMarginValue: g.estimatedMarginOpportunity === null ? null : parseFloat(g.estimatedMarginOpportunity),
             };
           }),
-          enrolled: enrolledAccountIds.has(account.id),
+          enrolled: enrolledAccountIds.has(rootOf.get(account.id) ?? account.id),
         };
       });
 
@@ -387,7 +447,10 @@ export async function registerRoutes(
       const tenantStorage = getStorage(req);
       const allAccounts = await tenantStorage.getAccounts();
       const programAccounts = await tenantStorage.getProgramAccounts();
-      const enrolledAccountIds = new Set(programAccounts.map(p => p.accountId));
+      const enrolledAccountIds = new Set(programAccounts.filter(p => p.status !== "withdrawn").map(p => p.accountId));
+      // Branches are covered by their top-level parent's enrollment
+      const { resolveRootAccounts } = await import("./services/account-hierarchy.js");
+      const rootOf = resolveRootAccounts(allAccounts.map(a => ({ id: a.id, parentAccountId: a.parentAccountId })));
 
       // Fetch categories once outside the loop and create a Map for O(1) lookups
       const categories = await tenantStorage.getProductCategories();
@@ -395,18 +458,21 @@ export async function registerRoutes(
 
       // Use batch queries to avoid N+1 problem
       const accountIds = allAccounts.map(a => a.id);
-      const [metricsMap, gapsMap] = await Promise.all([
+      const [metricsMap, gapsMap, churnMap] = await Promise.all([
         tenantStorage.getAccountMetricsBatch(accountIds),
-        tenantStorage.getAccountCategoryGapsBatch(accountIds)
+        tenantStorage.getAccountCategoryGapsBatch(accountIds),
+        tenantStorage.getAccountChurnScores(),
       ]);
 
       const accountsWithMetrics = allAccounts.map(account => {
         const metrics = metricsMap.get(account.id);
         const gaps = gapsMap.get(account.id) || [];
+        const churn = churnMap.get(account.id);
 
         return {
           id: account.id,
           name: account.name,
+          parentAccountId: account.parentAccountId ?? null,
           segment: account.segment || "Unknown",
           subSegment: account.subSegment || null,
           region: account.region || "Unknown",
@@ -423,15 +489,24 @@ export async function registerRoutes(
           mixScore: metrics?.mixScore ? parseFloat(metrics.mixScore) : null,
           orderCount12m: metrics?.orderCount12m ?? null,
           daysSinceLastOrder: metrics?.daysSinceLastOrder ?? null,
+          walletShareDirection: account.walletShareDirection ?? null,
+          seasonalityProfile: account.seasonalityProfile ?? null,
+          churnProbability: churn ? parseFloat(churn.probability) : null,
+          churnRiskLevel: churn?.riskLevel ?? null,
+          churnDrivers: churn?.drivers ?? [],
+          estimatedValue: gaps.reduce((sum, g) => sum + parseFloat(g.estimatedOpportunity || "0"), 0),
+          estimatedMarginValue: sumMarginOpportunity(gaps),
           gapCategories: gaps.slice(0, DASHBOARD_LIMITS.ACCOUNT_GAPS_DISPLAY).map(g => {
             const cat = categoryMap.get(g.categoryId);
             return {
               name: cat?.name || "Unknown",
               gapPct: parseFloat(g.gapPct || "0"),
               estimatedValue: parseFloat(g.estimatedOpportunity || "0"),
+              estimatedMarginValue: g.estimatedMarginOpportunity === null ? null : parseFloat(g.estimatedMarginOpportunity),
+              marginRate: g.marginRate === null ? null : parseFloat(g.marginRate),
             };
           }),
-          enrolled: enrolledAccountIds.has(account.id),
+          enrolled: enrolledAccountIds.has(rootOf.get(account.id) ?? account.id),
         };
       });
 
@@ -452,16 +527,154 @@ export async function registerRoutes(
       if (!account) {
         return res.status(404).json({ message: "Account not found" });
       }
-      res.json(account);
+      const { getNextBestCategories } = await import("./services/category-associations.js");
+      const nextBestCategories = await getNextBestCategories(req.tenantContext!.tenantId, [id]);
+      res.json({ ...account, nextBestCategories: nextBestCategories.get(id) ?? [] });
     } catch (error) {
       handleRouteError(error, res, "Get account");
     }
   });
 
+  // Monthly metrics and gap snapshots for trend charts (default 24 months, max 36)
+  app.get("/api/accounts/:id/metrics/history", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      const account = await tenantStorage.getAccount(id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const months = Math.min(Math.max(parseInt(req.query.months as string) || 24, 1), 36);
+      const now = new Date();
+      const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+
+      const [snapshots, gapSnapshots, categories] = await Promise.all([
+        tenantStorage.getAccountMetricsHistory(id, since),
+        tenantStorage.getAccountCategoryGapHistory(id, since),
+        tenantStorage.getProductCategories(),
+      ]);
+      const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+      const toNumber = (value: string | null) => (value === null ? null : parseFloat(value));
+      const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+      const gapsByMonth = new Map<string, typeof gapSnapshots>();
+      for (const gap of gapSnapshots) {
+        const key = monthKey(gap.snapshotMonth);
+        if (!gapsByMonth.has(key)) gapsByMonth.set(key, []);
+        gapsByMonth.get(key)!.push(gap);
+      }
+
+      res.json({
+        accountId: id,
+        months,
+        history: snapshots.map(s => ({
+          month: monthKey(s.snapshotMonth),
+          last12mRevenue: toNumber(s.last12mRevenue),
+          categoryPenetration: toNumber(s.categoryPenetration),
+          opportunityScore: toNumber(s.opportunityScore),
+          recencyScore: toNumber(s.recencyScore),
+          frequencyScore: toNumber(s.frequencyScore),
+          monetaryScore: toNumber(s.monetaryScore),
+          mixScore: toNumber(s.mixScore),
+          gapOpportunity: toNumber(s.gapOpportunity) ?? 0,
+          gapMarginOpportunity: toNumber(s.gapMarginOpportunity),
+          gaps: (gapsByMonth.get(monthKey(s.snapshotMonth)) || []).map(g => ({
+            categoryId: g.categoryId,
+            categoryName: categoryNames.get(g.categoryId) || "Unknown",
+            gapPct: toNumber(g.gapPct),
+            estimatedOpportunity: toNumber(g.estimatedOpportunity),
+            estimatedMarginOpportunity: toNumber(g.estimatedMarginOpportunity),
+          })),
+        })),
+      });
+    } catch (error) {
+      handleRouteError(error, res, "Get account metrics history");
+    }
+  });
+
+  // Merged activity feed: interactions, synced emails, completed tasks, orders, flags, enrollment
+  app.get("/api/accounts/:id/timeline", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      const account = await tenantStorage.getAccount(id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const { getAccountTimeline, TIMELINE_EVENT_TYPES } = await import("./services/account-timeline.js");
+      const query = z.object({
+        types: z.string().optional().transform(v => v ? v.split(",") : undefined)
+          .pipe(z.array(z.enum(TIMELINE_EVENT_TYPES)).optional()),
+        before: z.string().datetime().optional().transform(v => v ? new Date(v) : undefined),
+        beforeId: z.string().min(1).optional(),
+        limit: z.coerce.number().int().min(1).max(500).default(100),
+      }).parse(req.query);
+
+      const events = await getAccountTimeline(tenantStorage, id, {
+        types: query.types,
+        before: query.before ? { occurredAt: query.before, id: query.beforeId } : undefined,
+        limit: query.limit,
+      });
+      const last = events[events.length - 1];
+      res.json({
+        accountId: id,
+        events,
+        nextBefore: events.length === query.limit ? { occurredAt: last.occurredAt, id: last.id } : null,
+      });
+    } catch (error) {
+      handleRouteError(error, res, "Get account timeline");
+    }
+  });
+
+  // Gaps arranged along the category taxonomy, rolled up to each ancestor
+  app.get("/api/accounts/:id/category-gaps/tree", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      const account = await tenantStorage.getAccount(id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const { buildTaxonomy, buildGapTree } = await import("./services/category-taxonomy.js");
+      const [categories, gaps] = await Promise.all([
+        tenantStorage.getProductCategories(),
+        tenantStorage.getAccountCategoryGaps(id),
+      ]);
+      const tree = buildGapTree(
+        buildTaxonomy(categories),
+        new Map(categories.map(c => [c.id, c.name])),
+        gaps.map(g => ({
+          categoryId: g.categoryId,
+          gapPct: parseFloat(g.gapPct ?? "0"),
+          estimatedOpportunity: parseFloat(g.estimatedOpportunity ?? "0"),
+          estimatedMarginOpportunity: g.estimatedMarginOpportunity === null ? null : parseFloat(g.estimatedMarginOpportunity),
+        })),
+      );
+      res.json({ accountId: id, tree });
+    } catch (error) {
+      handleRouteError(error, res, "Get account category gap tree");
+    }
+  });
+
   app.post("/api/accounts", requireSubscription, async (req, res) => {
     try {
       const tenantStorage = getStorage(req);
       const data = insertAccountSchema.parse(req.body);
+      if (data.parentAccountId && !(await tenantStorage.getAccount(data.parentAccountId))) {
+        return res.status(400).json({ message: "Parent account not found" });
+      }
       const account = await tenantStorage.createAccount(data);
       res.status(201).json(account);
     } catch (error) {
@@ -469,6 +682,61 @@ export async function registerRoutes(
     }
   });
 
+  // Move an account under a parent company (or back to the top level); metrics re-roll in the background
+  app.put("/api/accounts/:id/parent", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const tenantId = req.tenantContext!.tenantId;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      const { parentAccountId } = z.object({ parentAccountId: z.number().int().nullable() }).parse(req.body);
+
+      const account = await tenantStorage.getAccount(id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      if (parentAccountId !== null && !(await tenantStorage.getAccount(parentAccountId))) {
+        return res.status(400).json({ message: "Parent account not found" });
+      }
+      const { accountsAffectedByMove, loadAccountLinks, wouldCreateCycle } = await import("./services/account-hierarchy.js");
+      const links = await loadAccountLinks(tenantId);
+      if (parentAccountId === id || wouldCreateCycle(links, id, parentAccountId)) {
+        return res.status(400).json({ message: "An account can't be moved under one of its own branches" });
+      }
+      // Moving a branch into or out of an enrolled family would shift its orders between enrollments mid-period.
+      // The family can reach outside a territory manager's accounts, so enrollments are read tenant-wide.
+      if (parentAccountId !== (account.parentAccountId ?? null)) {
+        const { CURRENT_ENROLLMENT_STATUSES } = await import("./services/program-enrollment.js");
+        const enrolled = new Set((await getTenantStorage(tenantId).getProgramAccounts())
+          .filter(pa => CURRENT_ENROLLMENT_STATUSES.includes(pa.status as ProgramEnrollmentStatus))
+          .map(pa => pa.accountId));
+        const blockedBy = accountsAffectedByMove(links, id, parentAccountId).filter(a => enrolled.has(a));
+        if (blockedBy.length > 0) {
+          const names = await Promise.all(blockedBy.map(async a => (await tenantStorage.getAccount(a))?.name ?? `account ${a}`));
+          return res.status(409).json({
+            message: `This move changes the family of ${names.join(", ")}, which ${blockedBy.length === 1 ? "has" : "have"} a current program enrollment — graduate or withdraw it first`,
+            enrolledAccountIds: blockedBy,
+          });
+        }
+      }
+
+      const updated = await tenantStorage.updateAccount(id, { parentAccountId });
+
+      Promise.all([import("./services/metrics-engine"), import("./services/category-spend-rollup")])
+        .then(async ([{ recomputeAccountMetrics }, { rollupCategorySpend }]) => {
+          await recomputeAccountMetrics(tenantId);
+          await rollupCategorySpend(tenantId);
+        })
+        .catch(err => console.error("[metrics-engine] Recompute after account hierarchy change failed:", err));
+
+      res.json(updated);
+    } catch (error) {
+      handleRouteError(error, res, "Update account parent");
+    }
+  });
+
   // Enroll account in growth program and auto-generate playbook
   app.post("/api/accounts/:id/enroll", requireSubscription, requireFeatureLimit("enrolled_accounts"), async (req, res) => {
     try {
@@ -484,10 +752,18 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Account not found" });
       }
 
-      // Check if already enrolled
-      const existingProgramAccounts = await tenantStorage.getProgramAccounts();
-      const alreadyEnrolled = existingProgramAccounts.find(pa => pa.accountId === accountId);
-      if (alreadyEnrolled) {
+      const branchOf = await findEnrollmentParent(tenantStorage, req.tenantContext!.tenantId, accountId);
+      if (branchOf) {
+        return res.status(400).json({
+          message: `${account.name} is a branch of ${branchOf.name} — enroll ${branchOf.name} instead; its enrollment covers every branch`,
+          parentAccountId: branchOf.id,
+        });
+      }
+
+      // Check if already enrolled; graduated and withdrawn accounts re-enroll with a fresh baseline
+      const { CURRENT_ENROLLMENT_STATUSES } = await import("./services/program-enrollment.js");
+      const previousEnrollment = await tenantStorage.getProgramAccountByAccountId(accountId);
+      if (previousEnrollment && CURRENT_ENROLLMENT_STATUSES.includes(previousEnrollment.status as ProgramEnrollmentStatus)) {
         return res.status(400).json({ message: "Account is already enrolled" });
       }
 
@@ -529,25 +805,26 @@ export async function registerRoutes(
         }
       }
 
-      // Get account metrics for baseline
-      const metrics = await tenantStorage.getAccountMetrics(accountId);
-      const baselineRevenue = metrics ? parseFloat(metrics.last12mRevenue || "0") : DEFAULT_VALUES.BASELINE_REVENUE;
-
-      // Calculate baseline period (last 12 months)
-      const now = new Date();
-      const baselineEnd = now;
-      const baselineStart = new Date(now);
-      baselineStart.setFullYear(baselineStart.getFullYear() - 1);
+      // Baseline per the contract's method (trailing 12 months unless the body says otherwise)
+      const { baselineMethod, negotiatedBaselineRevenue } = programBaselineRequestSchema.parse(req.body ?? {});
+      const { resolveProgramBaseline } = await import("./services/program-baseline.js");
+      const baseline = await resolveProgramBaseline(req.tenantContext!.tenantId, accountId, baselineMethod, {
+        negotiatedRevenue: negotiatedBaselineRevenue,
+      });
 
       // Enroll the account in the program
       const programAccount = await tenantStorage.createProgramAccount({
         accountId: accountId,
-        baselineStart: baselineStart,
-        baselineEnd: baselineEnd,
-        baselineRevenue: baselineRevenue.toString(),
+        baselineStart: baseline.baselineStart,
+        baselineEnd: baseline.baselineEnd,
+        baselineRevenue: baseline.baselineRevenue.toString(),
+        baselineMethod: baseline.baselineMethod,
+        baselineMonthly: baseline.baselineMonthly,
         baselineCategories: [],
-        shareRate: DEFAULT_VALUES.SHARE_RATE,
+        shareRate: previousEnrollment?.shareRate ?? DEFAULT_VALUES.SHARE_RATE,
         status: "active",
+        enrolledBy: req.user?.claims?.email || req.tenantContext?.userId || null,
+        previousProgramAccountId: previousEnrollment?.id ?? null,
       });
 
       // Auto-generate playbook for the enrolled account
@@ -851,7 +1128,8 @@ KEY TALKING POINTS:
         return res.status(400).json({ message: "Segment is required" });
       }
 
-      const analysis = await analyzeSegment(segment);
+      const categories = await getStorage(req).getProductCategories();
+      const analysis = await analyzeSegment(segment, categories.filter(c => c.isActive !== false).map(c => c.name));
 
       await deductCreditsAfterAction(req, 'icp_analysis');
 
@@ -1223,6 +1501,23 @@ KEY TALKING POINTS:
     }
   });
 
+  const completeTaskSchema = z.object({
+    outcome: z.string().max(5000).optional(),
+    outcomeType: z.enum(PLAYBOOK_OUTCOME_TYPES).optional(),
+    wonCategory: z.string().max(200).nullable().optional(),
+    revenueImpact: z.number().finite().nullable().optional(),
+    outcomeScore: z.number().int().min(1).max(5).nullable().optional(),
+    repNotes: z.string().max(5000).nullable().optional(),
+  });
+
+  /**
+   * Complete a task and log its outcome
+   * @route POST /api/tasks/:id/complete
+   * @security requireSubscription - Requires active subscription
+   * @param {string} outcome - Legacy free-text outcome
+   * @param {PlaybookOutcomeType} outcomeType - When set, a structured agent_playbook_outcomes row is recorded
+   * @returns {Task & { playbookOutcome: AgentPlaybookOutcome | null }} - 409 if the task is already completed
+   */
   app.post("/api/tasks/:id/complete", requireSubscription, async (req, res) => {
     try {
       const tenantStorage = getStorage(req);
@@ -1230,16 +1525,28 @@ KEY TALKING POINTS:
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid task ID" });
       }
-      const { outcome } = req.body;
-      const task = await tenantStorage.updateTask(id, {
-        status: "completed",
-        completedAt: new Date(),
-        outcome,
-      });
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
+      const body = completeTaskSchema.parse(req.body);
+
+      const { completeTask, TaskAlreadyCompletedError } = await import("./services/task-completion.js");
+      try {
+        const result = await completeTask(tenantStorage, id, body, req.user?.claims?.email || req.tenantContext?.userId || null);
+        if (!result) {
+          return res.status(404).json({ message: "Task not found" });
+        }
+        const { task, playbookOutcome } = result;
+
+        if (playbookOutcome) {
+          const { notifyOutcome } = await import("./notify-webhook.js");
+          notifyOutcome(req.tenantContext!.tenantId, playbookOutcome, task.title).catch(err => {
+            console.error("Failed to queue outcome webhook:", err);
+          });
+        }
+
+        res.json({ ...task, playbookOutcome });
+      } catch (err) {
+        if (err instanceof TaskAlreadyCompletedError) return res.status(409).json({ message: err.message });
+        throw err;
       }
-      res.json(task);
     } catch (error) {
       handleRouteError(error, res, "Complete task");
     }
@@ -1383,6 +1690,8 @@ KEY TALKING POINTS:
       }
 
       const { name, segment, topN = 10, priorityCategories = [] } = req.body;
+      // Rank accounts (and each account's gaps) by gap revenue, or by gross-margin dollars
+      const prioritizeBy: "revenue" | "margin" = req.body.prioritizeBy === "margin" ? "margin" : "revenue";
 
       // Get accounts with gap data
       const allAccounts = await tenantStorage.getAccounts();
@@ -1394,11 +1703,19 @@ KEY TALKING POINTS:
         ? allAccounts.filter(a => a.segment === segment)
         : allAccounts;
 
-      // Get account metrics and gaps
-      const accountsWithGaps = await Promise.all(
-        targetAccounts.slice(0, topN).map(async account => {
-          const metrics = await tenantStorage.getAccountMetrics(account.id);
-          const gaps = await tenantStorage.getAccountCategoryGaps(account.id);
+      const targetIds = targetAccounts.map(a => a.id);
+      const [metricsMap, gapsMap] = await Promise.all([
+        tenantStorage.getAccountMetricsBatch(targetIds),
+        tenantStorage.getAccountCategoryGapsBatch(targetIds),
+      ]);
+      const gapValue = (g: AccountCategoryGap) => parseFloat(
+        (prioritizeBy === "margin" ? g.estimatedMarginOpportunity : g.estimatedOpportunity) || "0",
+      );
+
+      const accountsWithGaps = targetAccounts
+        .map(account => {
+          const metrics = metricsMap.get(account.id);
+          const gaps = [...(gapsMap.get(account.id) || [])].sort((a, b) => gapValue(b) - gapValue(a));
 
           // Use Map for O(1) category lookups
           const gapCategories = gaps.map(g => {
@@ -1413,12 +1730,18 @@ KEY TALKING POINTS:
             assignedTm: account.assignedTm || "Unassigned",
             revenue: metrics ? parseFloat(metrics.last12mRevenue || "0") : 100000,
             gapCategories,
+            priorityValue: gaps.reduce((sum, g) => sum + gapValue(g), 0),
           };
         })
-      );
+        .sort((a, b) => b.priorityValue - a.priorityValue)
+        .slice(0, topN)
+        .map(({ priorityValue, ...account }) => account);
 
-      // Filter to accounts with gaps
-      const accountsToProcess = accountsWithGaps.filter(a => a.gapCategories.length > 0);
+      // Filter to accounts with gaps, and attach co-purchase suggestions for the prompts
+      const { getNextBestCategories } = await import("./services/category-associations.js");
+      const withGaps = accountsWithGaps.filter(a => a.gapCategories.length > 0);
+      const nextBest = await getNextBestCategories(req.tenantContext!.tenantId, withGaps.map(a => a.id), 3);
+      const accountsToProcess = withGaps.map(a => ({ ...a, nextBestCategories: nextBest.get(a.id) ?? [] }));
 
       // Generate AI-powered tasks
       const generatedTasks = await generatePlaybookTasks(
@@ -1430,7 +1753,7 @@ KEY TALKING POINTS:
       const playbook = await tenantStorage.createPlaybook({
         name: name || `${segment || "All Segments"} Playbook - ${new Date().toLocaleDateString()}`,
         generatedBy: "AI",
-        filtersUsed: { segment, topN, priorityCategories },
+        filtersUsed: { segment, topN, priorityCategories, prioritizeBy },
         taskCount: generatedTasks.length,
       });
 
@@ -1481,6 +1804,10 @@ KEY TALKING POINTS:
       const tenantStorage = getStorage(req);
       const programAccounts = await tenantStorage.getProgramAccounts();
       const allAccounts = await tenantStorage.getAccounts();
+      const holdouts = await tenantStorage.getProgramHoldouts();
+      // Latest lifecycle event per enrollment, for the status reason
+      const lastEvents = new Map<number, ProgramEnrollmentEventRow>();
+      for (const e of await tenantStorage.getProgramEnrollmentEvents()) lastEvents.set(e.programAccountId, e);
       // Use Map for O(1) account lookups
       const accountMap = new Map(allAccounts.map(a => [a.id, a]));
 
@@ -1491,6 +1818,8 @@ KEY TALKING POINTS:
           const currentRevenue = snapshots.reduce((sum, s) => sum + parseFloat(s.periodRevenue || "0"), 0);
           const incrementalRevenue = snapshots.reduce((sum, s) => sum + parseFloat(s.incrementalRevenue || "0"), 0);
           const feeAmount = snapshots.reduce((sum, s) => sum + parseFloat(s.feeAmount || "0"), 0);
+          // Growth the holdout group also saw; months closed without a group count as fully attributed
+          const organicRevenue = snapshots.reduce((sum, s) => sum + parseFloat(s.organicRevenue || "0"), 0);
 
           return {
             id: pa.id,
@@ -1499,11 +1828,20 @@ KEY TALKING POINTS:
             segment: account?.segment || "Unknown",
             enrolledAt: pa.enrolledAt ? new Date(pa.enrolledAt).toISOString().split('T')[0] : null,
             baselineRevenue: parseFloat(pa.baselineRevenue),
-            currentRevenue: currentRevenue || parseFloat(pa.baselineRevenue) * 1.2,
-            incrementalRevenue: incrementalRevenue || parseFloat(pa.baselineRevenue) * 0.2,
+            baselineMethod: pa.baselineMethod,
+            // Program-to-date totals from the monthly close (zero until the first month closes)
+            currentRevenue,
+            incrementalRevenue,
+            organicRevenue,
+            attributedRevenue: incrementalRevenue - organicRevenue,
+            holdoutCount: holdouts.filter(h => h.programAccountId === pa.id).length,
             shareRate: parseFloat(pa.shareRate),
-            feeAmount: feeAmount || parseFloat(pa.baselineRevenue) * 0.2 * parseFloat(pa.shareRate),
+            feeAmount,
             status: pa.status,
+            statusReason: lastEvents.get(pa.id)?.reasonCode ?? null,
+            statusChangedAt: lastEvents.get(pa.id)?.occurredAt ?? null,
+            withdrawnAt: pa.withdrawnAt,
+            previousProgramAccountId: pa.previousProgramAccountId,
           };
         })
       );
@@ -1517,8 +1855,43 @@ KEY TALKING POINTS:
   app.post("/api/program-accounts", requireSubscription, requireFeatureLimit("enrolled_accounts"), async (req, res) => {
     try {
       const tenantStorage = getStorage(req);
-      const data = insertProgramAccountSchema.parse(req.body);
-      const programAccount = await tenantStorage.createProgramAccount(data);
+      const data = insertProgramAccountSchema.omit({
+        baselineStart: true,
+        baselineEnd: true,
+        baselineRevenue: true,
+        baselineMethod: true,
+        baselineMonthly: true,
+        previousProgramAccountId: true,
+        withdrawnAt: true,
+      }).parse(req.body);
+      const { baselineMethod, negotiatedBaselineRevenue } = programBaselineRequestSchema.parse(req.body);
+      const branchOf = await findEnrollmentParent(tenantStorage, req.tenantContext!.tenantId, data.accountId);
+      if (branchOf) {
+        return res.status(400).json({
+          message: `Account ${data.accountId} is a branch of ${branchOf.name} — enroll ${branchOf.name} instead; its enrollment covers every branch`,
+          parentAccountId: branchOf.id,
+        });
+      }
+      // Graduated and withdrawn accounts re-enroll as a new enrollment with a fresh baseline
+      const { CURRENT_ENROLLMENT_STATUSES } = await import("./services/program-enrollment.js");
+      const previousEnrollment = await tenantStorage.getProgramAccountByAccountId(data.accountId);
+      if (previousEnrollment && CURRENT_ENROLLMENT_STATUSES.includes(previousEnrollment.status as ProgramEnrollmentStatus)) {
+        return res.status(400).json({ message: "Account is already enrolled" });
+      }
+      const { resolveProgramBaseline } = await import("./services/program-baseline.js");
+      const baseline = await resolveProgramBaseline(req.tenantContext!.tenantId, data.accountId, baselineMethod, {
+        negotiatedRevenue: negotiatedBaselineRevenue,
+      });
+      const programAccount = await tenantStorage.createProgramAccount({
+        ...data,
+        baselineStart: baseline.baselineStart,
+        baselineEnd: baseline.baselineEnd,
+        baselineRevenue: baseline.baselineRevenue.toString(),
+        baselineMethod: baseline.baselineMethod,
+        baselineMonthly: baseline.baselineMonthly,
+        previousProgramAccountId: previousEnrollment?.id ?? null,
+        enrolledBy: req.user?.claims?.email || req.tenantContext?.userId || null,
+      });
 
       // Auto-generate a playbook for this enrolled account
       const account = await tenantStorage.getAccount(programAccount.accountId);
@@ -1535,6 +1908,8 @@ KEY TALKING POINTS:
         }).filter(Boolean);
 
         if (gapCategories.length > 0) {
+          const { getNextBestCategories } = await import("./services/category-associations.js");
+          const nextBest = await getNextBestCategories(req.tenantContext!.tenantId, [account.id], 3);
           const accountData = [{
             id: account.id,
             name: account.name,
@@ -1542,6 +1917,7 @@ KEY TALKING POINTS:
             assignedTm: account.assignedTm || "Unassigned",
             revenue: metrics ? parseFloat(metrics.last12mRevenue || "0") : 100000,
             gapCategories,
+            nextBestCategories: nextBest.get(account.id) ?? [],
           }];
 
           // Generate AI-powered tasks for this account
@@ -1608,7 +1984,19 @@ KEY TALKING POINTS:
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid program account ID" });
       }
-      const updateData = insertProgramAccountSchema.partial().parse(req.body);
+      // Status changes go through the lifecycle endpoints so they are recorded in the history.
+      // The baseline is fixed at enrollment by resolveProgramBaseline; success fees are billed against it.
+      const updateData = insertProgramAccountSchema.omit({
+        status: true,
+        graduatedAt: true,
+        withdrawnAt: true,
+        previousProgramAccountId: true,
+        baselineRevenue: true,
+        baselineStart: true,
+        baselineEnd: true,
+        baselineMethod: true,
+        baselineMonthly: true,
+      }).partial().parse(req.body);
       const programAccount = await tenantStorage.updateProgramAccount(id, updateData);
       if (!programAccount) {
         return res.status(404).json({ message: "Program account not found" });
@@ -1737,15 +2125,18 @@ KEY TALKING POINTS:
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid program account ID" });
       }
-      const { notes } = req.body;
+      const { notes, reasonCode } = programEnrollmentTransitionSchema.parse(req.body ?? {});
 
       const programAccount = await tenantStorage.getProgramAccount(id);
       if (!programAccount) {
         return res.status(404).json({ message: "Program account not found" });
       }
 
-      if (programAccount.status === "graduated") {
-        return res.status(400).json({ message: "Account is already graduated" });
+      const { activeIntervals, checkTransition, pauseIntervals, transitionEnrollment, EnrollmentTransitionError } =
+        await import("./services/program-enrollment.js");
+      const transitionProblem = checkTransition(programAccount.status, "graduate");
+      if (transitionProblem) {
+        return res.status(400).json({ message: transitionProblem });
       }
 
       const account = await tenantStorage.getAccount(programAccount.accountId);
@@ -1755,9 +2146,9 @@ KEY TALKING POINTS:
       const enrolledAt = new Date(programAccount.enrolledAt);
       const enrollmentDurationDays = Math.floor((now.getTime() - enrolledAt.getTime()) / (1000 * 60 * 60 * 24));
 
-      // Get cumulative revenue from orders during enrollment period
+      // Get cumulative revenue from orders during enrollment period, including every branch
       // graduationRevenue = total revenue generated during the enrollment period (not baseline)
-      const orders = await tenantStorage.getOrdersByAccount(programAccount.accountId);
+      const orders = await tenantStorage.getOrdersByAccounts(await tenantStorage.getAccountFamilyIds(programAccount.accountId));
       const ordersAfterEnrollment = orders.filter(o => new Date(o.orderDate) >= enrolledAt);
       const graduationRevenue = ordersAfterEnrollment.reduce((sum, o) => sum + parseFloat(o.totalAmount?.toString() || "0"), 0);
 
@@ -1836,31 +2227,41 @@ KEY TALKING POINTS:
         }
       }
 
-      // Calculate incremental revenue using pro-rated baseline for fair comparison
-      const baselineRevenue = parseFloat(programAccount.baselineRevenue?.toString() || "0");
-      const baselineStart = programAccount.baselineStart ? new Date(programAccount.baselineStart) : null;
-      const baselineEnd = programAccount.baselineEnd ? new Date(programAccount.baselineEnd) : null;
-
-      let incrementalRevenue = graduationRevenue - baselineRevenue; // Default: simple difference
-      if (baselineStart && baselineEnd && enrollmentDurationDays > 0) {
-        const baselinePeriodDays = Math.floor((baselineEnd.getTime() - baselineStart.getTime()) / (1000 * 60 * 60 * 24));
-        if (baselinePeriodDays > 0) {
-          const proRatedBaseline = baselineRevenue * (enrollmentDurationDays / baselinePeriodDays);
-          incrementalRevenue = graduationRevenue - proRatedBaseline;
-        }
+      // Incremental revenue over the baseline expected for the enrollment period, per its baseline method.
+      // Paused days count toward neither side, as in the monthly close.
+      const { expectedBaseline, programAccountBaseline } = await import("./services/program-baseline.js");
+      const pauses = pauseIntervals(await tenantStorage.getProgramEnrollmentEvents({ programAccountId: id }), programAccount.status);
+      const activeRanges = activeIntervals(enrolledAt, now, pauses);
+      const activeRevenue = ordersAfterEnrollment
+        .filter(o => activeRanges.some(r => new Date(o.orderDate) >= r.from && new Date(o.orderDate) < r.to))
+        .reduce((sum, o) => sum + parseFloat(o.totalAmount?.toString() || "0"), 0);
+      const baseline = programAccountBaseline(programAccount);
+      const incrementalRevenue = activeRevenue - activeRanges.reduce((sum, r) => sum + expectedBaseline(baseline, r.from, r.to), 0);
+
+      let updatedAccount;
+      try {
+        updatedAccount = await transitionEnrollment(req.tenantContext!.tenantId, id, "graduate", {
+          reasonCode,
+          notes: notes || null,
+          actor: req.user?.claims?.email || req.tenantContext?.userId || null,
+          changes: {
+            graduatedAt: now,
+            graduationNotes: notes || null,
+            graduationRevenue: graduationRevenue.toString(),
+            graduationPenetration: graduationPenetration?.toString() || null,
+            icpCategoriesAtEnrollment,
+            icpCategoriesAchieved,
+            enrollmentDurationDays,
+            incrementalRevenue: incrementalRevenue.toString(),
+          },
+        });
+      } catch (err) {
+        if (err instanceof EnrollmentTransitionError) return res.status(409).json({ message: err.message });
+        throw err;
+      }
+      if (!updatedAccount) {
+        return res.status(404).json({ message: "Program account not found" });
       }
-
-      const updatedAccount = await tenantStorage.updateProgramAccount(id, {
-        status: "graduated",
-        graduatedAt: now,
-        graduationNotes: notes || null,
-        graduationRevenue: graduationRevenue.toString(),
-        graduationPenetration: graduationPenetration?.toString() || null,
-        icpCategoriesAtEnrollment,
-        icpCategoriesAchieved,
-        enrollmentDurationDays,
-        incrementalRevenue: incrementalRevenue.toString(),
-      });
 
       res.json({
         success: true,
@@ -1873,6 +2274,58 @@ KEY TALKING POINTS:
     }
   });
 
+  // Pause, resume or withdraw an enrollment
+  for (const action of ["pause", "resume", "withdraw"] as const) {
+    app.post(`/api/program-accounts/:id/${action}`, requireSubscription, async (req, res) => {
+      try {
+        const id = parseInt(String(req.params.id));
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid program account ID" });
+        }
+        const { reasonCode, notes } = programEnrollmentTransitionSchema.parse(req.body ?? {});
+        const { transitionEnrollment, EnrollmentTransitionError } = await import("./services/program-enrollment.js");
+        try {
+          const programAccount = await transitionEnrollment(req.tenantContext!.tenantId, id, action, {
+            reasonCode,
+            notes,
+            actor: req.user?.claims?.email || req.tenantContext?.userId || null,
+          });
+          if (!programAccount) {
+            return res.status(404).json({ message: "Program account not found" });
+          }
+          res.json(programAccount);
+        } catch (err) {
+          if (err instanceof EnrollmentTransitionError) return res.status(409).json({ message: err.message });
+          throw err;
+        }
+      } catch (error) {
+        handleRouteError(error, res, `${action} enrollment`);
+      }
+    });
+  }
+
+  // Lifecycle history of an account across all of its enrollments, oldest first
+  app.get("/api/program-accounts/:id/history", requireAuth, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(String(req.params.id));
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid program account ID" });
+      }
+      const programAccount = await tenantStorage.getProgramAccount(id);
+      if (!programAccount) {
+        return res.status(404).json({ message: "Program account not found" });
+      }
+      const [enrollments, events] = await Promise.all([
+        tenantStorage.getProgramAccountsByAccountId(programAccount.accountId),
+        tenantStorage.getProgramEnrollmentEvents({ accountId: programAccount.accountId }),
+      ]);
+      res.json({ accountId: programAccount.accountId, enrollments, events });
+    } catch (error) {
+      handleRouteError(error, res, "Get enrollment history");
+    }
+  });
+
   // Get all graduation-ready accounts
   app.get("/api/program-accounts/graduation-ready", requireAuth, async (req, res) => {
     try {
@@ -1957,13 +2410,108 @@ KEY TALKING POINTS:
     }
   });
 
+  // Holdout (control) group of an enrollment, used to split incremental revenue into attributed lift and organic growth
+  app.get("/api/program-accounts/:id/holdouts", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid program account ID" });
+      }
+      const holdouts = await tenantStorage.getProgramHoldouts(id);
+      const accountsMap = await tenantStorage.getAccountsBatch(holdouts.map(h => h.accountId));
+      res.json(holdouts.map(h => ({
+        ...h,
+        accountName: accountsMap.get(h.accountId)?.name || "Unknown",
+        segment: accountsMap.get(h.accountId)?.segment || null,
+        region: accountsMap.get(h.accountId)?.region || null,
+      })));
+    } catch (error) {
+      handleRouteError(error, res, "Get holdout accounts");
+    }
+  });
+
+  app.post("/api/program-accounts/:id/holdouts/assign", requireSubscription, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid program account ID" });
+      }
+      const { assignHoldoutGroup, MAX_HOLDOUT_SIZE } = await import("./services/program-holdout.js");
+      const { size } = z.object({ size: z.number().int().min(1).max(MAX_HOLDOUT_SIZE).optional() }).parse(req.body ?? {});
+
+      const holdouts = await assignHoldoutGroup(req.tenantContext!.tenantId, id, {
+        size,
+        assignedBy: req.user?.claims?.email || req.tenantContext?.userId || null,
+      });
+      if (!holdouts) {
+        return res.status(404).json({ message: "Program account not found" });
+      }
+      res.json(holdouts);
+    } catch (error) {
+      handleRouteError(error, res, "Assign holdout accounts");
+    }
+  });
+
+  app.post("/api/program-accounts/:id/holdouts", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid program account ID" });
+      }
+      const { accountId } = z.object({ accountId: z.number().int() }).parse(req.body);
+
+      const programAccount = await tenantStorage.getProgramAccount(id);
+      if (!programAccount) {
+        return res.status(404).json({ message: "Program account not found" });
+      }
+      const account = await tenantStorage.getAccount(accountId);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      const branchOf = await findEnrollmentParent(tenantStorage, req.tenantContext!.tenantId, accountId);
+      if (branchOf) {
+        return res.status(400).json({ message: `${account.name} is a branch of ${branchOf.name} — add ${branchOf.name} to the holdout group instead` });
+      }
+      const enrolled = await tenantStorage.getProgramAccounts();
+      if (enrolled.some(pa => pa.accountId === accountId)) {
+        return res.status(400).json({ message: `${account.name} is enrolled in the program and can't be a control` });
+      }
+
+      const holdout = await tenantStorage.addProgramHoldout(id, accountId, req.user?.claims?.email || req.tenantContext?.userId || null);
+      res.status(201).json({ ...holdout, accountName: account.name, segment: account.segment, region: account.region });
+    } catch (error) {
+      handleRouteError(error, res, "Add holdout account");
+    }
+  });
+
+  app.delete("/api/program-accounts/:id/holdouts/:accountId", requireSubscription, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const accountId = parseInt(req.params.accountId);
+      if (isNaN(id) || isNaN(accountId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      const removed = await getStorage(req).removeProgramHoldout(id, accountId);
+      if (!removed) {
+        return res.status(404).json({ message: "Holdout account not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      handleRouteError(error, res, "Remove holdout account");
+    }
+  });
+
   // Get graduation analytics summary
   // Revenue metrics explained:
   // - baselineRevenue: Historical revenue for the baseline period (typically 12 months before enrollment)
-  // - baselinePeriodDays: Duration of baseline period (baselineEnd - baselineStart)
+  // - baselineMethod: How the baseline was set (trailing 12 months, same period prior year, seasonally adjusted, negotiated)
   // - enrollmentDurationDays: Days from enrollment to graduation
-  // - proRatedBaseline: baselineRevenue * (enrollmentDurationDays / baselinePeriodDays) = expected revenue at baseline run rate
-  // - incrementalRevenue: graduationRevenue - proRatedBaseline = revenue above expected run rate
+  // - expected baseline: baseline revenue for the enrollment period under its method (services/program-baseline.ts)
+  // - incrementalRevenue: graduationRevenue - expected baseline = revenue above expected run rate
+  // - organicGrowth / attributedLift: incrementalRevenue split by the holdout group's year-over-year growth
+  //   (difference-in-differences, services/program-holdout.ts); without a group everything is attributed
   // This represents the true incremental revenue captured during the wallet share expansion program
   app.get("/api/program-accounts/graduation-analytics", requireAuth, async (req, res) => {
     try {
@@ -1975,6 +2523,8 @@ KEY TALKING POINTS:
         return res.json({
           totalGraduated: 0,
           cumulativeRevenueGrowth: 0,
+          cumulativeAttributedLift: 0,
+          cumulativeOrganicGrowth: 0,
           avgDaysToGraduation: 0,
           avgRevenueGrowth: 0,
           avgIcpCategorySuccessRate: 0,
@@ -1990,6 +2540,22 @@ KEY TALKING POINTS:
       let accountsWithDuration = 0;
       let accountsWithRevenue = 0;
 
+      const { expectedBaseline, programAccountBaseline } = await import("./services/program-baseline.js");
+      const { differenceInDifferences, loadControlRevenue } = await import("./services/program-holdout.js");
+      const enrollmentWindow = (pa: typeof graduatedAccounts[number]) => {
+        const from = new Date(pa.enrolledAt);
+        const to = pa.graduatedAt
+          ? new Date(pa.graduatedAt)
+          : new Date(from.getTime() + (pa.enrollmentDurationDays || 0) * 24 * 60 * 60 * 1000);
+        return { from, to };
+      };
+      const controls = await loadControlRevenue(
+        req.tenantContext!.tenantId,
+        graduatedAccounts.map(pa => ({ programAccountId: pa.id, ...enrollmentWindow(pa) })),
+      );
+      let totalAttributedLift = 0;
+      let totalOrganicGrowth = 0;
+
       const detailedAccounts = await Promise.all(
         graduatedAccounts.map(async (pa) => {
           const account = await tenantStorage.getAccount(pa.accountId);
@@ -2002,22 +2568,22 @@ KEY TALKING POINTS:
           let revenueGrowth = pa.incrementalRevenue ? parseFloat(pa.incrementalRevenue.toString()) : 0;
           if (!pa.incrementalRevenue && graduationRevenue > 0) {
             // Fallback: recalculate for legacy accounts
-            const baselineStart = pa.baselineStart ? new Date(pa.baselineStart) : null;
-            const baselineEnd = pa.baselineEnd ? new Date(pa.baselineEnd) : null;
-            const enrollmentDuration = pa.enrollmentDurationDays || 0;
-
-            let proRatedBaseline = baselineRevenue;
-            if (baselineStart && baselineEnd && enrollmentDuration > 0) {
-              const baselinePeriodDays = Math.floor((baselineEnd.getTime() - baselineStart.getTime()) / (1000 * 60 * 60 * 24));
-              if (baselinePeriodDays > 0) {
-                proRatedBaseline = baselineRevenue * (enrollmentDuration / baselinePeriodDays);
-              }
-            }
-            revenueGrowth = graduationRevenue - proRatedBaseline;
+            const { from, to } = enrollmentWindow(pa);
+            revenueGrowth = graduationRevenue - expectedBaseline(programAccountBaseline(pa), from, to);
           }
 
+          // Difference-in-differences against the holdout group (all growth is attributed without one)
+          const { from, to } = enrollmentWindow(pa);
+          const lift = differenceInDifferences(
+            revenueGrowth,
+            expectedBaseline(programAccountBaseline(pa), from, to),
+            controls.get(pa.id) ?? null,
+          );
+
           if (graduationRevenue > 0 || pa.incrementalRevenue) {
             totalRevenueGrowth += revenueGrowth;
+            totalAttributedLift += lift.attributed;
+            totalOrganicGrowth += lift.organic;
             accountsWithRevenue++;
           }
 
@@ -2041,8 +2607,13 @@ KEY TALKING POINTS:
             enrolledAt: pa.enrolledAt,
             graduatedAt: pa.graduatedAt,
             baselineRevenue,
+            baselineMethod: pa.baselineMethod,
             graduationRevenue,
             revenueGrowth,
+            attributedLift: lift.attributed,
+            organicGrowth: lift.organic,
+            controlGrowthPct: lift.controlGrowthPct,
+            holdoutCount: controls.get(pa.id)?.holdoutCount ?? 0,
             enrollmentDurationDays: pa.enrollmentDurationDays || null,
             icpCategoriesAtEnrollment: pa.icpCategoriesAtEnrollment || null,
             icpCategoriesAchieved: pa.icpCategoriesAchieved || null,
@@ -2055,6 +2626,8 @@ KEY TALKING POINTS:
       res.json({
         totalGraduated: graduatedAccounts.length,
         cumulativeRevenueGrowth: totalRevenueGrowth,
+        cumulativeAttributedLift: totalAttributedLift,
+        cumulativeOrganicGrowth: totalOrganicGrowth,
         avgDaysToGraduation: accountsWithDuration > 0 ? Math.round(totalDays / accountsWithDuration) : 0,
         avgRevenueGrowth: accountsWithRevenue > 0 ? Math.round(totalRevenueGrowth / accountsWithRevenue) : 0,
         avgIcpCategorySuccessRate: accountsWithIcpData > 0 ? Math.round(totalIcpSuccess / accountsWithIcpData) : 0,
@@ -2065,51 +2638,334 @@ KEY TALKING POINTS:
     }
   });
 
-  // ============ Data Uploads ============
-  app.get("/api/data-uploads", requireAdmin, async (req, res) => {
+  // ============ Program Revenue Close ============
+  // Monthly snapshots of enrolled accounts' revenue vs. baseline (services/program-revenue.ts)
+  app.get("/api/program-revenue/periods", requireSubscription, async (req, res) => {
     try {
-      const tenantStorage = getStorage(req);
-      const uploads = await tenantStorage.getDataUploads();
-      res.json(uploads);
+      const periods = await getStorage(req).getProgramRevenuePeriods();
+      res.json(periods.map(p => ({ ...p, month: p.periodStart.toISOString().slice(0, 7) })));
     } catch (error) {
-      handleRouteError(error, res, "Get uploads");
+      handleRouteError(error, res, "Get program revenue periods");
     }
   });
 
-  app.post("/api/data-uploads", requireAdmin, async (req, res) => {
+  app.post("/api/program-revenue/periods/:month/run", requireAdmin, async (req, res) => {
     try {
-      const tenantStorage = getStorage(req);
-      // In real implementation, this would handle file upload
-      const data = insertDataUploadSchema.parse(req.body);
-      const upload = await tenantStorage.createDataUpload(data);
+      const { closeProgramRevenuePeriod, monthBounds, ProgramPeriodLockedError } = await import("./services/program-revenue.js");
+      const month = String(req.params.month);
+      const bounds = monthBounds(month);
+      if (!bounds) {
+        return res.status(400).json({ message: "Month must be YYYY-MM" });
+      }
+      // A partial month would be measured against the whole month's baseline
+      if (bounds.end > new Date()) {
+        return res.status(400).json({ message: `${month} isn't over yet; it can be closed from ${bounds.end.toISOString().slice(0, 10)}` });
+      }
 
-      // Simulate processing
-      setTimeout(async () => {
-        await tenantStorage.updateDataUpload(upload.id, {
-          status: "completed",
-          rowCount: Math.floor(Math.random() * 1000 + 100),
+      try {
+        const result = await closeProgramRevenuePeriod(req.tenantContext!.tenantId, month, {
+          runBy: req.user?.claims?.email || req.tenantContext?.userId || null,
         });
-      }, 2000);
-
-      res.status(201).json(upload);
+        res.json(result);
+      } catch (err) {
+        if (err instanceof ProgramPeriodLockedError) return res.status(409).json({ message: err.message });
+        throw err;
+      }
     } catch (error) {
-      handleRouteError(error, res, "Create upload");
+      handleRouteError(error, res, "Run program revenue close");
     }
   });
 
-  // ============ Template Downloads ============
-  app.get("/api/templates/:type", (req, res) => {
-    const { type } = req.params;
-    const validTypes = ["accounts", "products", "categories", "orders"];
-
-    if (!validTypes.includes(type)) {
-      return res.status(400).json({ message: "Invalid template type" });
-    }
+  // A locked period is final: re-runs are refused and the monthly job skips it.
+  // Months on an approved or sent statement can't be unlocked
+  for (const action of ["lock", "unlock"] as const) {
+    app.post(`/api/program-revenue/periods/:month/${action}`, requireAdmin, async (req, res) => {
+      try {
+        const { findBilledStatement, monthBounds } = await import("./services/program-revenue.js");
+        const month = String(req.params.month);
+        const bounds = monthBounds(month);
+        if (!bounds) {
+          return res.status(400).json({ message: "Month must be YYYY-MM" });
+        }
+        // Unlocking would let a re-run rewrite the snapshots behind an invoice
+        const billed = action === "unlock" ? await findBilledStatement(req.tenantContext!.tenantId, bounds.start) : undefined;
+        if (billed) {
+          return res.status(409).json({ message: `${month} is billed on ${billed.statementNumber} (${billed.status}); add an adjustment to the statement instead` });
+        }
 
-    const templatePath = path.join(process.cwd(), "public", "templates", `${type}_template.csv`);
+        const period = await getStorage(req).setProgramRevenuePeriodLock(
+          bounds.start,
+          action === "lock",
+          req.user?.claims?.email || req.tenantContext?.userId || null,
+        );
+        if (!period) {
+          return res.status(404).json({ message: `${month} has not been closed yet` });
+        }
+        res.json({ ...period, month });
+      } catch (error) {
+        handleRouteError(error, res, action === "lock" ? "Lock program revenue period" : "Unlock program revenue period");
+      }
+    });
+  }
 
-    if (!fs.existsSync(templatePath)) {
-      return res.status(404).json({ message: "Template not found" });
+  // ============ Success Fee Statements ============
+  // Monthly billable statements built from closed program revenue (services/success-fee-statements.ts)
+  app.get("/api/success-fee-statements", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const { statementView } = await import("./services/success-fee-statements.js");
+      const [statements, adjustments] = await Promise.all([
+        tenantStorage.getSuccessFeeStatements(),
+        tenantStorage.getSuccessFeeStatementAdjustments(),
+      ]);
+      // The list leaves out the lines; GET /api/success-fee-statements/:id has them
+      res.json(statements.map(statement => {
+        const { lines, ...view } = statementView(statement, adjustments.filter(a => a.statementId === statement.id));
+        return { ...view, accountCount: lines.length };
+      }));
+    } catch (error) {
+      handleRouteError(error, res, "Get success fee statements");
+    }
+  });
+
+  app.get("/api/success-fee-statements/:id", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const statementId = parseInt(String(req.params.id));
+      if (isNaN(statementId)) {
+        return res.status(400).json({ message: "Invalid statement ID" });
+      }
+      const statement = await tenantStorage.getSuccessFeeStatement(statementId);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      const { statementView } = await import("./services/success-fee-statements.js");
+      res.json(statementView(statement, await tenantStorage.getSuccessFeeStatementAdjustments(statementId)));
+    } catch (error) {
+      handleRouteError(error, res, "Get success fee statement");
+    }
+  });
+
+  // Creates the month's statement, or rebuilds a draft after the month was re-run
+  app.post("/api/success-fee-statements", requireAdmin, async (req, res) => {
+    try {
+      const { generateSuccessFeeStatement, StatementStateError } = await import("./services/success-fee-statements.js");
+      const { monthBounds } = await import("./services/program-revenue.js");
+      const { month } = z.object({ month: z.string() }).parse(req.body);
+      if (!monthBounds(month)) {
+        return res.status(400).json({ message: "Month must be YYYY-MM" });
+      }
+
+      try {
+        const statement = await generateSuccessFeeStatement(req.tenantContext!.tenantId, month, {
+          generatedBy: req.user?.claims?.email || req.tenantContext?.userId || null,
+        });
+        res.status(201).json(statement);
+      } catch (err) {
+        if (err instanceof StatementStateError) return res.status(409).json({ message: err.message });
+        throw err;
+      }
+    } catch (error) {
+      handleRouteError(error, res, "Generate success fee statement");
+    }
+  });
+
+  // draft → approved → sent; approving also locks the month's revenue close
+  for (const action of ["approve", "send"] as const) {
+    app.post(`/api/success-fee-statements/:id/${action}`, requireAdmin, async (req, res) => {
+      try {
+        const { advanceSuccessFeeStatement, StatementStateError } = await import("./services/success-fee-statements.js");
+        const statementId = parseInt(String(req.params.id));
+        if (isNaN(statementId)) {
+          return res.status(400).json({ message: "Invalid statement ID" });
+        }
+        const { sentTo } = z.object({ sentTo: z.string().trim().max(500).optional() }).parse(req.body ?? {});
+
+        try {
+          const statement = await advanceSuccessFeeStatement(req.tenantContext!.tenantId, statementId, action, {
+            userId: req.user?.claims?.email || req.tenantContext?.userId || null,
+            sentTo: sentTo || null,
+          });
+          if (!statement) {
+            return res.status(404).json({ message: "Statement not found" });
+          }
+          res.json(statement);
+        } catch (err) {
+          if (err instanceof StatementStateError) return res.status(409).json({ message: err.message });
+          throw err;
+        }
+      } catch (error) {
+        handleRouteError(error, res, action === "approve" ? "Approve success fee statement" : "Send success fee statement");
+      }
+    });
+  }
+
+  // Adjustments are how an approved statement changes, e.g. a credit for a disputed line
+  app.post("/api/success-fee-statements/:id/adjustments", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const statementId = parseInt(String(req.params.id));
+      if (isNaN(statementId)) {
+        return res.status(400).json({ message: "Invalid statement ID" });
+      }
+      const statement = await tenantStorage.getSuccessFeeStatement(statementId);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+
+      const data = insertSuccessFeeStatementAdjustmentSchema.parse(req.body);
+      if (data.programAccountId != null && !statement.lines.some(l => l.programAccountId === data.programAccountId)) {
+        return res.status(400).json({ message: "That enrollment is not on this statement" });
+      }
+      const adjustment = await tenantStorage.createSuccessFeeStatementAdjustment(
+        statementId,
+        data,
+        req.user?.claims?.email || req.tenantContext?.userId || null,
+      );
+      res.status(201).json(adjustment);
+    } catch (error) {
+      handleRouteError(error, res, "Add statement adjustment");
+    }
+  });
+
+  app.delete("/api/success-fee-statements/:id/adjustments/:adjustmentId", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const statementId = parseInt(String(req.params.id));
+      const adjustmentId = parseInt(String(req.params.adjustmentId));
+      if (isNaN(statementId) || isNaN(adjustmentId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      const statement = await tenantStorage.getSuccessFeeStatement(statementId);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      if (statement.status !== "draft") {
+        return res.status(409).json({ message: `${statement.statementNumber} is ${statement.status}; add an offsetting adjustment instead` });
+      }
+
+      const removed = await tenantStorage.deleteSuccessFeeStatementAdjustment(statementId, adjustmentId);
+      if (!removed) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      handleRouteError(error, res, "Delete statement adjustment");
+    }
+  });
+
+  app.get("/api/success-fee-statements/:id/export/:format", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const statementId = parseInt(String(req.params.id));
+      const format = String(req.params.format);
+      if (isNaN(statementId)) {
+        return res.status(400).json({ message: "Invalid statement ID" });
+      }
+      if (format !== "pdf" && format !== "csv") {
+        return res.status(400).json({ message: "Format must be pdf or csv" });
+      }
+      const statement = await tenantStorage.getSuccessFeeStatement(statementId);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+
+      const { statementView, statementCsv, statementPdf } = await import("./services/success-fee-statements.js");
+      const view = statementView(statement, await tenantStorage.getSuccessFeeStatementAdjustments(statementId));
+      const fileName = view.status === "draft" ? `${view.statementNumber}-draft` : view.statementNumber;
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}.csv"`);
+        res.send(statementCsv(view));
+      } else {
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}.pdf"`);
+        res.send(statementPdf(view, req.tenantContext!.tenant.name));
+      }
+    } catch (error) {
+      handleRouteError(error, res, "Export success fee statement");
+    }
+  });
+
+  // ============ Data Uploads ============
+  app.get("/api/data-uploads", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const uploads = await tenantStorage.getDataUploads();
+      res.json(uploads);
+    } catch (error) {
+      handleRouteError(error, res, "Get uploads");
+    }
+  });
+
+  app.post("/api/data-uploads", requireAdmin, csvUpload.single("file"), async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const tenantId = req.tenantContext!.tenantId;
+      const uploadType = req.body?.type;
+
+      if (!req.file) {
+        return res.status(400).json({ message: "A CSV file is required" });
+      }
+      if (!DATA_UPLOAD_TYPES.includes(uploadType)) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: `Invalid upload type. Must be one of: ${DATA_UPLOAD_TYPES.join(", ")}` });
+      }
+
+      const data = insertDataUploadSchema.parse({
+        uploadType,
+        fileName: req.file.originalname,
+        status: "processing",
+        uploadedBy: req.user?.claims?.email || req.tenantContext?.userId,
+      });
+      const upload = await tenantStorage.createDataUpload(data);
+
+      // Parse in the background; the client polls GET /api/data-uploads for status
+      const filePath = req.file.path;
+      const { ingestCsvUpload } = await import("./services/data-ingestion");
+      ingestCsvUpload(tenantId, upload.id, uploadType as DataUploadType, fs.createReadStream(filePath))
+        .catch(err => console.error(`[data-ingestion] Upload ${upload.id} failed:`, err))
+        .finally(() => fs.promises.unlink(filePath).catch(() => {}));
+
+      res.status(201).json(upload);
+    } catch (error) {
+      handleRouteError(error, res, "Create upload");
+    }
+  });
+
+  app.get("/api/data-uploads/:id/errors", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const uploadId = parseInt(req.params.id);
+      if (isNaN(uploadId)) {
+        return res.status(400).json({ message: "Invalid upload ID" });
+      }
+      const upload = await tenantStorage.getDataUpload(uploadId);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const { buildErrorReportCsv } = await import("./services/data-ingestion");
+      const baseName = upload.fileName.replace(/\.csv$/i, "");
+      // The file name is the uploader's; attachment() quotes it and encodes non-ASCII as filename*
+      res.attachment(`${baseName}_errors.csv`);
+      res.send(buildErrorReportCsv(upload.errorReport ?? []));
+    } catch (error) {
+      handleRouteError(error, res, "Download upload error report");
+    }
+  });
+
+  // ============ Template Downloads ============
+  app.get("/api/templates/:type", (req, res) => {
+    const { type } = req.params;
+    if (!(DATA_UPLOAD_TYPES as readonly string[]).includes(type)) {
+      return res.status(400).json({ message: "Invalid template type" });
+    }
+
+    const templatePath = path.join(process.cwd(), "public", "templates", `${type}_template.csv`);
+
+    if (!fs.existsSync(templatePath)) {
+      return res.status(404).json({ message: "Template not found" });
     }
 
     res.setHeader("Content-Type", "text/csv");
@@ -2187,6 +3043,61 @@ KEY TALKING POINTS:
     }
   });
 
+  // ============ Metrics Recompute ============
+  app.post("/api/admin/recompute-metrics", requireAdmin, async (req, res) => {
+    try {
+      const { recomputeAccountMetrics } = await import("./services/metrics-engine");
+      const { backfillMonths } = z.object({
+        backfillMonths: z.number().int().min(0).max(36).optional(),
+      }).parse(req.body ?? {});
+      const result = await recomputeAccountMetrics(req.tenantContext!.tenantId, { backfillMonths });
+      res.json({ success: true, ...result });
+    } catch (error) {
+      handleRouteError(error, res, "Recompute account metrics");
+    }
+  });
+
+  // ============ Scheduled Jobs ============
+  app.get("/api/admin/jobs", requireAdmin, async (req, res) => {
+    try {
+      const { getJobStatuses } = await import("./scheduler.js");
+      res.json(await getJobStatuses(req.tenantContext!.tenantId));
+    } catch (error) {
+      handleRouteError(error, res, "List scheduled jobs");
+    }
+  });
+
+  // Daily briefings spend AI credits whether triggered here or via /api/agent/daily-briefing
+  const requireJobCredits: RequestHandler = (req, res, next) =>
+    req.params.name === "daily-briefing" ? requireCredits("daily_briefing")(req, res, next) : next();
+
+  app.post("/api/admin/jobs/:name/run", requireAdmin, requireJobCredits, async (req, res) => {
+    try {
+      const { JOBS, isJobName, startJobNow, JobAlreadyRunningError } = await import("./scheduler.js");
+      const { name } = req.params;
+      if (!isJobName(name) || !JOBS[name].manual) {
+        return res.status(404).json({ message: `Unknown or non-triggerable job: ${name}` });
+      }
+
+      const tenantId = req.tenantContext!.tenantId;
+      let started: Awaited<ReturnType<typeof startJobNow>>;
+      try {
+        started = await startJobNow(name, tenantId);
+      } catch (err) {
+        if (err instanceof JobAlreadyRunningError) return res.status(409).json({ message: err.message });
+        throw err;
+      }
+      started.finished
+        .then((run) => console.log(`[admin-jobs] ${name} for tenant ${tenantId}: ${run.status}`))
+        .catch((err) => console.error(`[admin-jobs] ${name} for tenant ${tenantId} could not be recorded:`, err));
+
+      if (name === "daily-briefing") await deductCreditsAfterAction(req, "daily_briefing");
+      res.status(202).json({ message: `${JOBS[name].label} started`, run: started.run });
+    } catch (error) {
+      handleRouteError(error, res, "Run scheduled job");
+    }
+  });
+
   // ============ Account Flags ============
   app.get("/api/accounts/:id/flags", requireAuth, async (req, res) => {
     try {
@@ -2226,8 +3137,11 @@ KEY TALKING POINTS:
   app.post("/api/profiles/compute-reference-baseline", requireAuth, async (req, res) => {
     try {
       const tenantStorage = getStorage(req);
-      const { accountIds } = z.object({ accountIds: z.array(z.number()).min(1).max(20) }).parse(req.body);
-      const baseline = await tenantStorage.computeReferenceBaseline(accountIds);
+      const { accountIds, level } = z.object({
+        accountIds: z.array(z.number()).min(1).max(20),
+        level: z.enum(ACCOUNT_ROLLUP_LEVELS).default("account"),
+      }).parse(req.body);
+      const baseline = await tenantStorage.computeReferenceBaseline(accountIds, level);
       res.json(baseline);
     } catch (error) {
       handleRouteError(error, res, "Compute reference baseline");
@@ -2235,16 +3149,185 @@ KEY TALKING POINTS:
   });
 
   // ============ Categories ============
+  // One taxonomy (product_categories) for ICPs, gaps, playbooks and AI prompts.
+  // Structural edits re-roll metrics, spend and association rules in the background.
+  const recomputeAfterTaxonomyChange = (tenantId: number) => {
+    Promise.all([
+      import("./services/metrics-engine"),
+      import("./services/category-spend-rollup"),
+      import("./services/category-associations"),
+    ])
+      .then(async ([{ recomputeAccountMetrics }, { rollupCategorySpend }, { rebuildCategoryAssociations }]) => {
+        await recomputeAccountMetrics(tenantId);
+        await rollupCategorySpend(tenantId);
+        await rebuildCategoryAssociations(tenantId);
+      })
+      .catch(err => console.error("[metrics-engine] Recompute after category taxonomy change failed:", err));
+  };
+
   app.get("/api/categories", requireAuth, async (req, res) => {
     try {
       const tenantStorage = getStorage(req);
       const categories = await tenantStorage.getProductCategories();
-      res.json(categories);
+      const { buildTaxonomy } = await import("./services/category-taxonomy.js");
+      const taxonomy = buildTaxonomy(categories);
+      res.json(categories.map(c => ({ ...c, path: taxonomy.path(c.id), depth: taxonomy.depth(c.id) })));
     } catch (error) {
       handleRouteError(error, res, "Get categories");
     }
   });
 
+  app.post("/api/categories", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const data = z.object({
+        name: z.string().trim().min(1),
+        parentId: z.number().int().nullable().default(null),
+        displayOrder: z.number().int().optional(),
+      }).parse(req.body);
+      const categories = await tenantStorage.getProductCategories();
+      if (data.parentId !== null && !categories.some(c => c.id === data.parentId)) {
+        return res.status(400).json({ message: "Parent category not found" });
+      }
+      const category = await tenantStorage.createProductCategory({
+        ...data,
+        displayOrder: data.displayOrder ?? categories.filter(c => c.parentId === data.parentId).length + 1,
+      });
+      res.status(201).json(category);
+    } catch (error) {
+      handleRouteError(error, res, "Create category");
+    }
+  });
+
+  app.put("/api/categories/:id", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      const data = z.object({
+        name: z.string().trim().min(1).optional(),
+        displayOrder: z.number().int().optional(),
+        isActive: z.boolean().optional(),
+      }).parse(req.body);
+      const category = await tenantStorage.updateProductCategory(id, data);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      handleRouteError(error, res, "Update category");
+    }
+  });
+
+  // Move a category (and its subtree) under another parent, or to the top level
+  app.post("/api/categories/:id/move", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      const { parentId } = z.object({ parentId: z.number().int().nullable() }).parse(req.body);
+
+      const categories = await tenantStorage.getProductCategories();
+      if (!categories.some(c => c.id === id)) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      if (parentId !== null && !categories.some(c => c.id === parentId)) {
+        return res.status(400).json({ message: "Parent category not found" });
+      }
+      const { buildTaxonomy, canMoveCategory } = await import("./services/category-taxonomy.js");
+      if (!canMoveCategory(buildTaxonomy(categories), id, parentId)) {
+        return res.status(400).json({ message: "A category can't be moved under itself or one of its subcategories" });
+      }
+
+      await tenantStorage.setProductCategoryParent(id, parentId);
+      recomputeAfterTaxonomyChange(req.tenantContext!.tenantId);
+      res.json({ id, parentId });
+    } catch (error) {
+      handleRouteError(error, res, "Move category");
+    }
+  });
+
+  // Merge a category into another; products, ICP targets and subcategories move to the target
+  app.post("/api/categories/:id/merge", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      const { targetId } = z.object({ targetId: z.number().int() }).parse(req.body);
+
+      const categories = await tenantStorage.getProductCategories();
+      if (!categories.some(c => c.id === id) || !categories.some(c => c.id === targetId)) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      const { buildTaxonomy } = await import("./services/category-taxonomy.js");
+      if (buildTaxonomy(categories).subtree(id).includes(targetId)) {
+        return res.status(400).json({ message: "A category can't be merged into itself or one of its subcategories" });
+      }
+
+      await tenantStorage.mergeProductCategories(id, targetId);
+      recomputeAfterTaxonomyChange(req.tenantContext!.tenantId);
+      res.json({ message: "Categories merged", sourceId: id, targetId });
+    } catch (error) {
+      handleRouteError(error, res, "Merge categories");
+    }
+  });
+
+  app.delete("/api/categories/:id", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      const usage = await tenantStorage.getProductCategoryUsage(id);
+      if (usage.products > 0 || usage.profiles > 0 || usage.gapSnapshots > 0) {
+        return res.status(409).json({
+          message: "Category is in use by products, ICP profiles or gap history; merge it into another category instead",
+          usage,
+        });
+      }
+      const success = await tenantStorage.deleteProductCategory(id);
+      if (!success) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      recomputeAfterTaxonomyChange(req.tenantContext!.tenantId);
+      res.json({ message: "Category deleted successfully" });
+    } catch (error) {
+      handleRouteError(error, res, "Delete category");
+    }
+  });
+
+  // Seed a starter taxonomy for tenants that haven't uploaded categories yet
+  app.post("/api/categories/seed-defaults", requireAuth, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const existing = await tenantStorage.getProductCategories();
+      if (existing.length > 0) {
+        return res.json({ message: "Categories already exist", categories: existing });
+      }
+
+      const defaults = [
+        "Water Heaters", "Controls & Thermostats", "PVF", "Tools", "Chinaware",
+        "Brass and Fittings", "HVAC Equipment", "Refrigerant & Supplies", "Ductwork & Fittings", "Fixtures",
+      ];
+
+      const created = [];
+      for (const [i, name] of Array.from(defaults.entries())) {
+        created.push(await tenantStorage.createProductCategory({ name, parentId: null, displayOrder: i + 1, isActive: true }));
+      }
+
+      res.status(201).json({ message: "Default categories created", categories: created });
+    } catch (error) {
+      handleRouteError(error, res, "Seed default categories");
+    }
+  });
+
   // ============ Products ============
   app.get("/api/products", requireAuth, async (req, res) => {
     try {
@@ -2257,9 +3340,31 @@ KEY TALKING POINTS:
   });
 
   // ============ Scoring Weights ============
+  // Legacy three-weight view of the active scoring model (see Scoring Models below)
+  const legacyWeights = (factors: ScoringFactorWeight[]) => {
+    const weightOf = (factor: ScoringFactor) => factors.find(f => f.factor === factor)?.weight ?? 0;
+    return {
+      gapSizeWeight: weightOf("gap_size"),
+      revenuePotentialWeight: weightOf("revenue_potential"),
+      categoryCountWeight: weightOf("category_count"),
+    };
+  };
+
   app.get("/api/scoring-weights", requireAuth, async (req, res) => {
     try {
       const tenantStorage = getStorage(req);
+      const model = await tenantStorage.getActiveScoringModel();
+      if (model) {
+        return res.json({
+          id: model.id,
+          name: model.name,
+          ...legacyWeights(model.factors),
+          description: model.description,
+          isActive: true,
+          version: model.version,
+          factors: model.factors,
+        });
+      }
       const weights = await tenantStorage.getScoringWeights();
       if (!weights) {
         // Return default weights if none configured
@@ -2281,41 +3386,319 @@ KEY TALKING POINTS:
         });
       }
     } catch (error) {
-      handleRouteError(error, res, "Get scoring weights");
+      handleRouteError(error, res, "Get scoring weights");
+    }
+  });
+
+  // Saves the three weights as a new scoring model version and activates it
+  app.put("/api/scoring-weights", requireAdmin, async (req, res) => {
+    try {
+      const { gapSizeWeight, revenuePotentialWeight, categoryCountWeight, description } = req.body;
+
+      // Validate weights sum to 100
+      const total = gapSizeWeight + revenuePotentialWeight + categoryCountWeight;
+      if (Math.abs(total - 100) > 0.01) {
+        return res.status(400).json({
+          message: `Weights must sum to 100%. Current total: ${total}%`
+        });
+      }
+
+      const tenantStorage = getStorage(req);
+      const user = req.user?.claims?.email || req.tenantContext?.userId || null;
+      const draft = await tenantStorage.createScoringModel({
+        name: `Weights ${gapSizeWeight}/${revenuePotentialWeight}/${categoryCountWeight}`,
+        description: description ?? null,
+        factors: scoringModelFactorsSchema.parse([
+          { factor: "gap_size", weight: gapSizeWeight },
+          { factor: "revenue_potential", weight: revenuePotentialWeight },
+          { factor: "category_count", weight: categoryCountWeight },
+        ].filter(f => f.weight > 0)),
+        createdBy: user,
+      });
+      const model = (await tenantStorage.activateScoringModel(draft.id, user))!;
+
+      // Re-score accounts with the new weights in the background
+      const tenantId = req.tenantContext!.tenantId;
+      import("./services/metrics-engine")
+        .then(({ recomputeAccountMetrics }) => recomputeAccountMetrics(tenantId))
+        .catch(err => console.error("[metrics-engine] Recompute after weight change failed:", err));
+
+      res.json({
+        id: model.id,
+        name: model.name,
+        ...legacyWeights(model.factors),
+        description: model.description,
+        isActive: true,
+        version: model.version,
+        factors: model.factors,
+      });
+    } catch (error) {
+      handleRouteError(error, res, "Update scoring weights");
+    }
+  });
+
+  // ============ Scoring Models ============
+  // Versioned opportunity-score models: drafts are editable, activation archives
+  // the previous version and re-scores every account.
+  app.get("/api/scoring-models", requireAuth, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      res.json(await tenantStorage.getScoringModels());
+    } catch (error) {
+      handleRouteError(error, res, "Get scoring models");
+    }
+  });
+
+  app.post("/api/scoring-models", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const data = insertScoringModelSchema.pick({ name: true, description: true, factors: true }).parse(req.body);
+      const model = await tenantStorage.createScoringModel({
+        ...data,
+        createdBy: req.user?.claims?.email || req.tenantContext?.userId || null,
+      });
+      res.status(201).json(model);
+    } catch (error) {
+      handleRouteError(error, res, "Create scoring model");
+    }
+  });
+
+  app.patch("/api/scoring-models/:id", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid scoring model ID" });
+      }
+      const existing = await tenantStorage.getScoringModel(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Scoring model not found" });
+      }
+      if (existing.status !== "draft") {
+        return res.status(409).json({ message: "Only draft versions can be edited; create a new version instead" });
+      }
+      const updateData = insertScoringModelSchema.pick({ name: true, description: true, factors: true }).partial().parse(req.body);
+      const model = await tenantStorage.updateScoringModelDraft(id, updateData);
+      res.json(model);
+    } catch (error) {
+      handleRouteError(error, res, "Update scoring model");
+    }
+  });
+
+  // What-if: how the top-50 ranking would change under the given factors. Nothing is saved.
+  app.post("/api/scoring-models/preview", requireAdmin, async (req, res) => {
+    try {
+      const factors = scoringModelFactorsSchema.parse(req.body.factors);
+      const tenantId = req.tenantContext!.tenantId;
+      const { previewScoringModel } = await import("./services/metrics-engine");
+      res.json(await previewScoringModel(tenantId, factors));
+    } catch (error) {
+      handleRouteError(error, res, "Preview scoring model");
+    }
+  });
+
+  app.post("/api/scoring-models/:id/activate", requireAdmin, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid scoring model ID" });
+      }
+      const model = await tenantStorage.activateScoringModel(id, req.user?.claims?.email || req.tenantContext?.userId || null);
+      if (!model) {
+        return res.status(404).json({ message: "Scoring model not found" });
+      }
+
+      const tenantId = req.tenantContext!.tenantId;
+      import("./services/metrics-engine")
+        .then(({ recomputeAccountMetrics }) => recomputeAccountMetrics(tenantId))
+        .catch(err => console.error("[metrics-engine] Recompute after scoring model activation failed:", err));
+
+      res.json(model);
+    } catch (error) {
+      handleRouteError(error, res, "Activate scoring model");
+    }
+  });
+
+  // ============ Margin Benchmarks ============
+  // Gross margin rates per segment × category used to size gaps in margin dollars
+  app.get("/api/margin-benchmarks", requireSubscription, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const [benchmarks, categories] = await Promise.all([
+        tenantStorage.getSegmentMarginBenchmarks(),
+        tenantStorage.getProductCategories(),
+      ]);
+      const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+      res.json(benchmarks
+        .map(b => ({
+          segment: b.segment,
+          categoryId: b.categoryId,
+          categoryName: b.categoryId === null ? null : categoryNames.get(b.categoryId) || "Unknown",
+          marginRate: parseFloat(b.marginRate),
+          revenueBasis: parseFloat(b.revenueBasis),
+          accountCount: b.accountCount,
+          source: b.source,
+          computedAt: b.computedAt,
+        }))
+        .sort((a, b) => (a.segment ?? "").localeCompare(b.segment ?? "") || (a.categoryName ?? "").localeCompare(b.categoryName ?? "")));
+    } catch (error) {
+      handleRouteError(error, res, "Get margin benchmarks");
+    }
+  });
+
+  // ============ Team Management ============
+  // Manage users: authentication + manage_users permission
+  const requireManageUsers = [...requireAuth, requirePermission("manage_users")];
+  const INVITE_TTL_DAYS = 7;
+  const teamRoleSchema = z.enum(Object.keys(ROLE_PERMISSIONS) as [RoleType, ...RoleType[]]);
+
+  app.get("/api/team", requireManageUsers, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const tenant = req.tenantContext!.tenant;
+      const [members, invites, seats] = await Promise.all([
+        tenantStorage.getTeamMembers(),
+        tenantStorage.getPendingTeamInvites(),
+        checkFeatureLimit(tenant.id, tenant.planType || "free", "users"),
+      ]);
+      res.json({
+        members: members.map(m => ({ ...m, isCurrentUser: m.userId === req.tenantContext!.userId })),
+        // Tokens are only ever returned once, when the invite is created
+        invites: invites.map(({ token, ...invite }) => invite),
+        seats: { used: seats.current, limit: seats.limit },
+      });
+    } catch (error) {
+      handleRouteError(error, res, "Get team");
+    }
+  });
+
+  app.post("/api/team/invites", requireManageUsers, requireFeatureLimit("users"), async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const { email, role } = z.object({
+        email: z.string().email(),
+        role: teamRoleSchema.default("viewer"),
+      }).parse(req.body);
+      const normalizedEmail = email.toLowerCase().trim();
+
+      const [members, invites] = await Promise.all([
+        tenantStorage.getTeamMembers(),
+        tenantStorage.getPendingTeamInvites(),
+      ]);
+      if (members.some(m => m.email?.toLowerCase() === normalizedEmail)) {
+        return res.status(409).json({ message: `${normalizedEmail} is already a member of this team` });
+      }
+      if (invites.some(i => i.email === normalizedEmail)) {
+        return res.status(409).json({ message: `${normalizedEmail} already has a pending invite` });
+      }
+
+      const invite = await tenantStorage.createTeamInvite({
+        email: normalizedEmail,
+        role,
+        token: crypto.randomBytes(32).toString("base64url"),
+        status: "pending",
+        invitedBy: req.tenantContext!.userId,
+        expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+      });
+      const inviteUrl = `${getAppBaseUrl()}/api/invites/${invite.token}`;
+
+      const emailResult = await sendTeamInviteEmail(
+        normalizedEmail,
+        req.tenantContext!.tenant.name,
+        role,
+        inviteUrl,
+        INVITE_TTL_DAYS
+      );
+
+      const { token, ...inviteWithoutToken } = invite;
+      res.status(201).json({ ...inviteWithoutToken, inviteUrl, emailSent: emailResult.success });
+    } catch (error) {
+      handleRouteError(error, res, "Create team invite");
+    }
+  });
+
+  app.delete("/api/team/invites/:id", requireManageUsers, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid invite ID" });
+      }
+      const invite = await tenantStorage.getTeamInvite(id);
+      if (!invite || invite.status !== "pending") {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      await tenantStorage.revokeTeamInvite(id);
+      res.json({ success: true });
+    } catch (error) {
+      handleRouteError(error, res, "Revoke team invite");
     }
   });
 
-  app.put("/api/scoring-weights", requireAuth, async (req, res) => {
+  app.patch("/api/team/members/:userId", requireManageUsers, async (req, res) => {
     try {
-      const { gapSizeWeight, revenuePotentialWeight, categoryCountWeight, description } = req.body;
+      const tenantStorage = getStorage(req);
+      const { userId } = req.params;
+      const { role } = z.object({ role: teamRoleSchema }).parse(req.body);
 
-      // Validate weights sum to 100
-      const total = gapSizeWeight + revenuePotentialWeight + categoryCountWeight;
-      if (Math.abs(total - 100) > 0.01) {
-        return res.status(400).json({
-          message: `Weights must sum to 100%. Current total: ${total}%`
-        });
+      const members = await tenantStorage.getTeamMembers();
+      const member = members.find(m => m.userId === userId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      const superAdmins = members.filter(m => m.role === "super_admin").length;
+      if (member.role === "super_admin" && role !== "super_admin" && superAdmins <= 1) {
+        return res.status(400).json({ message: "The team must keep at least one super admin" });
       }
 
+      const updated = await tenantStorage.updateTeamMemberRole(userId, role);
+      res.json(updated);
+    } catch (error) {
+      handleRouteError(error, res, "Update team member role");
+    }
+  });
+
+  app.delete("/api/team/members/:userId", requireManageUsers, async (req, res) => {
+    try {
       const tenantStorage = getStorage(req);
-      const weights = await tenantStorage.upsertScoringWeights({
-        name: "default",
-        gapSizeWeight: gapSizeWeight.toString(),
-        revenuePotentialWeight: revenuePotentialWeight.toString(),
-        categoryCountWeight: categoryCountWeight.toString(),
-        description,
-        isActive: true,
-        updatedBy: "admin",
-      });
+      const { userId } = req.params;
+      if (userId === req.tenantContext!.userId) {
+        return res.status(400).json({ message: "You cannot remove yourself from the team" });
+      }
 
-      res.json({
-        ...weights,
-        gapSizeWeight: parseFloat(weights.gapSizeWeight),
-        revenuePotentialWeight: parseFloat(weights.revenuePotentialWeight),
-        categoryCountWeight: parseFloat(weights.categoryCountWeight),
-      });
+      const members = await tenantStorage.getTeamMembers();
+      const member = members.find(m => m.userId === userId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      if (member.role === "super_admin" && members.filter(m => m.role === "super_admin").length <= 1) {
+        return res.status(400).json({ message: "The team must keep at least one super admin" });
+      }
+
+      await tenantStorage.removeTeamMember(userId);
+      res.json({ success: true });
     } catch (error) {
-      handleRouteError(error, res, "Update scoring weights");
+      handleRouteError(error, res, "Remove team member");
+    }
+  });
+
+  // Public invite link: remember the token for the login callback, which
+  // attaches the user to the inviting tenant (see withTenantContext)
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      const [invite] = await db.select()
+        .from(teamInvites)
+        .where(eq(teamInvites.token, req.params.token))
+        .limit(1);
+      if (!invite || invite.status !== "pending" || invite.expiresAt < new Date()) {
+        return res.status(410).send("This invitation is no longer valid. Ask your administrator to send a new one.");
+      }
+      const session = req.session as typeof req.session & { inviteToken?: string };
+      session.inviteToken = invite.token;
+      session.save(() => res.redirect("/api/login"));
+    } catch (error) {
+      handleRouteError(error, res, "Open team invite");
     }
   });
 
@@ -2376,100 +3759,6 @@ KEY TALKING POINTS:
     }
   });
 
-  // ============ Custom Categories ============
-  app.get("/api/custom-categories", requireAuth, async (req, res) => {
-    try {
-      const tenantStorage = getStorage(req);
-      const categories = await tenantStorage.getCustomCategories();
-      res.json(categories);
-    } catch (error) {
-      handleRouteError(error, res, "Get custom categories");
-    }
-  });
-
-  app.post("/api/custom-categories", requireAdmin, async (req, res) => {
-    try {
-      const tenantStorage = getStorage(req);
-      const parsed = insertCustomCategorySchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ message: "Invalid category data", errors: parsed.error.errors });
-      }
-      const category = await tenantStorage.createCustomCategory(parsed.data);
-      res.status(201).json(category);
-    } catch (error) {
-      handleRouteError(error, res, "Create custom category");
-    }
-  });
-
-  app.put("/api/custom-categories/:id", requireAuth, async (req, res) => {
-    try {
-      const tenantStorage = getStorage(req);
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid category ID" });
-      }
-      const updateData = insertCustomCategorySchema.partial().parse(req.body);
-      const category = await tenantStorage.updateCustomCategory(id, updateData);
-      if (!category) {
-        return res.status(404).json({ message: "Category not found" });
-      }
-      res.json(category);
-    } catch (error) {
-      handleRouteError(error, res, "Update custom category");
-    }
-  });
-
-  app.delete("/api/custom-categories/:id", requireSubscription, async (req, res) => {
-    try {
-      const tenantStorage = getStorage(req);
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid category ID" });
-      }
-      const success = await tenantStorage.deleteCustomCategory(id);
-      if (!success) {
-        return res.status(404).json({ message: "Category not found" });
-      }
-      res.json({ message: "Category deleted successfully" });
-    } catch (error) {
-      handleRouteError(error, res, "Delete custom category");
-    }
-  });
-
-  // Seed default categories if none exist
-  app.post("/api/custom-categories/seed-defaults", requireAuth, async (req, res) => {
-    try {
-      const tenantStorage = getStorage(req);
-      const existing = await tenantStorage.getCustomCategories();
-      if (existing.length > 0) {
-        return res.json({ message: "Categories already exist", categories: existing });
-      }
-
-      const defaults = [
-        { name: "Water Heaters", displayOrder: 1, isActive: true },
-        { name: "Controls & Thermostats", displayOrder: 2, isActive: true },
-        { name: "PVF", displayOrder: 3, isActive: true },
-        { name: "Tools", displayOrder: 4, isActive: true },
-        { name: "Chinaware", displayOrder: 5, isActive: true },
-        { name: "Brass and Fittings", displayOrder: 6, isActive: true },
-        { name: "HVAC Equipment", displayOrder: 7, isActive: true },
-        { name: "Refrigerant & Supplies", displayOrder: 8, isActive: true },
-        { name: "Ductwork & Fittings", displayOrder: 9, isActive: true },
-        { name: "Fixtures", displayOrder: 10, isActive: true },
-      ];
-
-      const created = [];
-      for (const cat of defaults) {
-        const category = await tenantStorage.createCustomCategory(cat);
-        created.push(category);
-      }
-
-      res.status(201).json({ message: "Default categories created", categories: created });
-    } catch (error) {
-      handleRouteError(error, res, "Seed default categories");
-    }
-  });
-
   // ============ Rev-Share Tiers ============
   app.get("/api/rev-share-tiers", requireAuth, async (req, res) => {
     try {
@@ -2565,16 +3854,17 @@ KEY TALKING POINTS:
   // Calculate fee based on tiered rates
   app.post("/api/rev-share-tiers/calculate", requireAuth, async (req, res) => {
     try {
-      const tenantStorage = getStorage(req);
       const { incrementalRevenue } = req.body;
       if (typeof incrementalRevenue !== 'number' || incrementalRevenue < 0) {
         return res.status(400).json({ message: "Invalid incremental revenue" });
       }
 
-      const tiers = await tenantStorage.getRevShareTiers();
+      // Same marginal math as the monthly close
+      const { loadFeeTiers, tieredFee } = await import("./services/program-revenue.js");
+      const tiers = await loadFeeTiers(req.tenantContext!.tenantId);
 
       // If no tiers defined, use default 15%
-      if (tiers.length === 0) {
+      if (!tiers) {
         const fee = incrementalRevenue * 0.15;
         return res.json({
           incrementalRevenue,
@@ -2584,46 +3874,19 @@ KEY TALKING POINTS:
         });
       }
 
-      // Sort tiers by minRevenue
-      const sortedTiers = [...tiers]
-        .filter(t => t.isActive)
-        .sort((a, b) => parseFloat(a.minRevenue) - parseFloat(b.minRevenue));
-
-      let remainingRevenue = incrementalRevenue;
-      let totalFee = 0;
-      const breakdown: Array<{ tier: string; rate: number; revenueInTier: number; fee: number }> = [];
-
-      for (const tier of sortedTiers) {
-        if (remainingRevenue <= 0) break;
-
-        const minRev = parseFloat(tier.minRevenue);
-        const maxRev = tier.maxRevenue ? parseFloat(tier.maxRevenue) : Infinity;
-        const rate = parseFloat(tier.shareRate);
-
-        // How much falls in this tier
-        const tierSize = maxRev - minRev;
-        const revenueInTier = Math.min(remainingRevenue, tierSize);
-
-        if (revenueInTier > 0) {
-          const fee = revenueInTier * (rate / 100);
-          totalFee += fee;
-          breakdown.push({
-            tier: `$${minRev.toLocaleString()} - ${maxRev === Infinity ? 'Unlimited' : '$' + maxRev.toLocaleString()}`,
-            rate,
-            revenueInTier,
-            fee
-          });
-          remainingRevenue -= revenueInTier;
-        }
-      }
-
+      const { fee: totalFee, breakdown } = tieredFee(incrementalRevenue, tiers);
       const effectiveRate = incrementalRevenue > 0 ? (totalFee / incrementalRevenue) * 100 : 0;
 
       res.json({
         incrementalRevenue,
         totalFee,
         effectiveRate: Math.round(effectiveRate * 100) / 100,
-        breakdown
+        breakdown: breakdown.map(line => ({
+          tier: `$${line.minRevenue.toLocaleString()} - ${line.maxRevenue === null ? 'Unlimited' : '$' + line.maxRevenue.toLocaleString()}`,
+          rate: line.ratePct,
+          revenueInTier: line.revenueInTier,
+          fee: line.fee,
+        })),
       });
     } catch (error) {
       handleRouteError(error, res, "Calculate rev-share");
@@ -2826,9 +4089,9 @@ KEY TALKING POINTS:
         'account_flags', 'account_category_gaps', 'account_metrics',
         'playbook_tasks', 'playbooks', 'tasks',
         'profile_categories', 'profile_review_log', 'segment_profiles',
-        'program_accounts', 'order_items', 'orders',
+        'success_fee_statement_adjustments', 'success_fee_statements', 'program_revenue_snapshots', 'program_revenue_periods', 'program_holdout_accounts', 'program_enrollment_events', 'program_accounts', 'order_items', 'orders',
         'products', 'product_categories', 'custom_categories',
-        'scoring_weights', 'territory_managers', 'rev_share_tiers',
+        'segment_margin_benchmarks', 'scoring_models', 'scoring_weights', 'territory_managers', 'rev_share_tiers',
         'data_uploads', 'settings', 'subscription_events',
         'accounts', 'user_roles',
       ];
@@ -4048,6 +5311,260 @@ KEY TALKING POINTS:
     }
   });
 
+  // ============================================================
+  // CRM CONNECTOR ROUTES — Salesforce / HubSpot OAuth + field mapping
+  // ============================================================
+  const {
+    getSalesforceAuthUrl,
+    getHubSpotAuthUrl,
+    exchangeSalesforceCode,
+    exchangeHubSpotCode,
+    saveCrmConnection,
+    getCrmConnections,
+    getCrmConnection,
+    updateCrmFieldMapping,
+    updateCrmSourceOfTruth,
+    updateCrmCreateUnmatchedAccounts,
+    disconnectCrmConnection,
+    createCrmOAuthState,
+    verifyCrmOAuthState,
+  } = await import("./services/crm-oauth.js");
+  const { resolveFieldMapping } = await import("./services/crm-connectors.js");
+  const { runCrmPull, DEFAULT_SOURCE_OF_TRUTH } = await import("./services/crm-sync-pull.js");
+  const { crmFieldMappingSchema, crmSourceOfTruthSchema } = await import("@shared/schema");
+
+  app.get("/api/crm/connections", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const connections = await getCrmConnections(tenantId);
+      const safeConnections = connections.map(c => ({
+        id: c.id,
+        provider: c.provider,
+        instanceUrl: c.instanceUrl,
+        externalOrgId: c.externalOrgId,
+        status: c.status,
+        fieldMapping: resolveFieldMapping(c.provider as "salesforce" | "hubspot", c.fieldMapping),
+        sourceOfTruth: { ...DEFAULT_SOURCE_OF_TRUTH, ...(c.sourceOfTruth ?? {}) },
+        createUnmatchedAccounts: c.createUnmatchedAccounts,
+        lastSyncAt: c.lastSyncAt,
+        lastPullAt: c.lastPullAt,
+        lastPullSummary: c.lastPullSummary,
+        syncError: c.syncError,
+        createdAt: c.createdAt,
+      }));
+      res.json(safeConnections);
+    } catch (error) {
+      handleRouteError(error, res, "Get CRM connections");
+    }
+  });
+
+  const crmOAuthProviders = {
+    salesforce: { getAuthUrl: getSalesforceAuthUrl, exchangeCode: exchangeSalesforceCode },
+    hubspot: { getAuthUrl: getHubSpotAuthUrl, exchangeCode: exchangeHubSpotCode },
+  } as const;
+
+  for (const [provider, oauth] of Object.entries(crmOAuthProviders)) {
+    app.get(`/api/auth/${provider}/start`, requireAdmin, async (req, res) => {
+      try {
+        const tenantId = req.tenantContext!.tenantId;
+        const userId = req.user?.claims?.sub || "";
+        const state = createCrmOAuthState(provider as CrmProvider, { tenantId, userId });
+        res.json({ authUrl: oauth.getAuthUrl(state) });
+      } catch (error) {
+        handleRouteError(error, res, `Start ${provider} OAuth`);
+      }
+    });
+
+    app.get(`/api/auth/${provider}/callback`, async (req, res) => {
+      try {
+        const { code, state } = req.query;
+        if (!code || !state) {
+          return res.redirect("/settings?tab=integrations&error=missing_params");
+        }
+
+        // Only a state signed by /start for this provider names the tenant to connect
+        const stateData = verifyCrmOAuthState(provider as CrmProvider, String(state));
+        if (!stateData) {
+          return res.redirect("/settings?tab=integrations&error=invalid_state");
+        }
+        const { tenantId, userId } = stateData;
+
+        const tokens = await oauth.exchangeCode(code as string);
+
+        await saveCrmConnection({
+          tenantId,
+          provider,
+          instanceUrl: tokens.instanceUrl,
+          externalOrgId: tokens.externalOrgId,
+          connectedBy: userId,
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          tokenExpiresAt: new Date(Date.now() + tokens.expiresIn * 1000),
+          status: "connected",
+        });
+
+        res.redirect(`/settings?tab=integrations&connected=${provider}`);
+      } catch (error) {
+        console.error(`${provider} OAuth callback error:`, error);
+        res.redirect(`/settings?tab=integrations&error=${provider}_failed`);
+      }
+    });
+  }
+
+  app.put("/api/crm/connections/:id/field-mapping", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid connection ID" });
+      const fieldMapping = crmFieldMappingSchema.parse(req.body);
+      const updated = await updateCrmFieldMapping(id, tenantId, fieldMapping);
+      if (!updated) return res.status(404).json({ message: "Connection not found" });
+      res.json({ id: updated.id, fieldMapping: updated.fieldMapping });
+    } catch (error) {
+      handleRouteError(error, res, "Update CRM field mapping");
+    }
+  });
+
+  app.put("/api/crm/connections/:id/source-of-truth", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid connection ID" });
+      const sourceOfTruth = crmSourceOfTruthSchema.parse(req.body);
+      const updated = await updateCrmSourceOfTruth(id, tenantId, sourceOfTruth);
+      if (!updated) return res.status(404).json({ message: "Connection not found" });
+      res.json({ id: updated.id, sourceOfTruth: { ...DEFAULT_SOURCE_OF_TRUTH, ...(updated.sourceOfTruth ?? {}) } });
+    } catch (error) {
+      handleRouteError(error, res, "Update CRM source of truth");
+    }
+  });
+
+  app.put("/api/crm/connections/:id/create-unmatched-accounts", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid connection ID" });
+      const { enabled } = z.object({ enabled: z.boolean() }).parse(req.body);
+      const updated = await updateCrmCreateUnmatchedAccounts(id, tenantId, enabled);
+      if (!updated) return res.status(404).json({ message: "Connection not found" });
+      res.json({ id: updated.id, createUnmatchedAccounts: updated.createUnmatchedAccounts });
+    } catch (error) {
+      handleRouteError(error, res, "Update CRM unmatched account creation");
+    }
+  });
+
+  app.post("/api/crm/sync-pull", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const result = await runCrmPull(tenantId);
+      if (!result) return res.status(400).json({ message: "No CRM is connected" });
+      res.json(result);
+    } catch (error) {
+      handleRouteError(error, res, "CRM sync pull");
+    }
+  });
+
+  app.delete("/api/crm/connections/:id", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid connection ID" });
+      const connection = await getCrmConnection(id, tenantId);
+      if (!connection) return res.status(404).json({ message: "Connection not found" });
+      await disconnectCrmConnection(id, tenantId);
+      res.json({ message: "Connection disconnected" });
+    } catch (error) {
+      handleRouteError(error, res, "Disconnect CRM");
+    }
+  });
+
+  // ============================================================
+  // WEBHOOK ROUTES — Signed outbound webhook config + delivery log
+  // ============================================================
+  const {
+    getWebhookConfig,
+    saveWebhookUrl,
+    rotateWebhookSecret,
+    listWebhookDeliveries,
+    getWebhookDelivery,
+    redeliverWebhook,
+    WebhookNotConfiguredError,
+  } = await import("./services/webhook-delivery.js");
+
+  const webhookConfigSchema = z.object({
+    url: z.string().url().refine((url) => url.startsWith("https://") || url.startsWith("http://"), "URL must be http(s)").nullable(),
+  });
+
+  app.get("/api/webhooks/config", requireAdmin, async (req, res) => {
+    try {
+      res.json(await getWebhookConfig(req.tenantContext!.tenantId));
+    } catch (error) {
+      handleRouteError(error, res, "Get webhook config");
+    }
+  });
+
+  app.put("/api/webhooks/config", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const { url } = webhookConfigSchema.parse(req.body);
+      const { secret } = await saveWebhookUrl(tenantId, url);
+      res.json({ ...(await getWebhookConfig(tenantId)), secret });
+    } catch (error) {
+      handleRouteError(error, res, "Save webhook config");
+    }
+  });
+
+  app.post("/api/webhooks/secret/rotate", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const secret = await rotateWebhookSecret(tenantId);
+      res.json({ ...(await getWebhookConfig(tenantId)), secret });
+    } catch (error) {
+      handleRouteError(error, res, "Rotate webhook secret");
+    }
+  });
+
+  app.get("/api/webhooks/deliveries", requireAdmin, async (req, res) => {
+    try {
+      const tenantId = req.tenantContext!.tenantId;
+      const queueId = req.query.queueId ? parseInt(req.query.queueId as string) : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      res.json(await listWebhookDeliveries(tenantId, { queueId, limit }));
+    } catch (error) {
+      handleRouteError(error, res, "List webhook deliveries");
+    }
+  });
+
+  app.get("/api/webhooks/deliveries/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid delivery ID" });
+      const delivery = await getWebhookDelivery(req.tenantContext!.tenantId, id);
+      if (!delivery) return res.status(404).json({ message: "Delivery not found" });
+      res.json(delivery);
+    } catch (error) {
+      handleRouteError(error, res, "Get webhook delivery");
+    }
+  });
+
+  app.post("/api/webhooks/deliveries/:id/redeliver", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid delivery ID" });
+      let delivery: Awaited<ReturnType<typeof redeliverWebhook>>;
+      try {
+        delivery = await redeliverWebhook(req.tenantContext!.tenantId, id);
+      } catch (err) {
+        if (err instanceof WebhookNotConfiguredError) return res.status(409).json({ message: err.message });
+        throw err;
+      }
+      if (!delivery) return res.status(404).json({ message: "Delivery not found" });
+      res.json(delivery);
+    } catch (error) {
+      handleRouteError(error, res, "Redeliver webhook");
+    }
+  });
+
   // ============================================================
   // CRM ROUTES — Contacts, Projects, Order Signals, Competitors
   // ============================================================
@@ -4055,7 +5572,7 @@ KEY TALKING POINTS:
 
   app.get("/api/crm/contacts", requireSubscription, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const accountId = req.query.accountId ? parseInt(req.query.accountId as string) : undefined;
       res.json(await storage.getContacts(accountId));
     } catch (error) {
@@ -4065,7 +5582,7 @@ KEY TALKING POINTS:
 
   app.get("/api/crm/contacts/:id", requireSubscription, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid contact ID" });
       const contact = await storage.getContact(id);
@@ -4078,7 +5595,7 @@ KEY TALKING POINTS:
 
   app.post("/api/crm/contacts", requireWrite, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const data = insertContactSchema.parse({ ...req.body, tenantId: req.tenantContext!.tenantId, source: "manual" });
       const contact = await storage.createContact(data);
       res.status(201).json(contact);
@@ -4089,7 +5606,7 @@ KEY TALKING POINTS:
 
   app.patch("/api/crm/contacts/:id", requireWrite, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid contact ID" });
       const updated = await storage.updateContact(id, req.body);
@@ -4102,7 +5619,7 @@ KEY TALKING POINTS:
 
   app.delete("/api/crm/contacts/:id", requireWrite, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid contact ID" });
       await storage.deleteContact(id);
@@ -4114,7 +5631,7 @@ KEY TALKING POINTS:
 
   app.get("/api/crm/projects", requireSubscription, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const accountId = req.query.accountId ? parseInt(req.query.accountId as string) : undefined;
       const stage = req.query.stage as string | undefined;
       res.json(await storage.getProjects(accountId, stage));
@@ -4125,7 +5642,7 @@ KEY TALKING POINTS:
 
   app.get("/api/crm/projects/:id", requireSubscription, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid project ID" });
       const project = await storage.getProject(id);
@@ -4138,7 +5655,7 @@ KEY TALKING POINTS:
 
   app.post("/api/crm/projects", requireWrite, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const data = insertProjectSchema.parse({ ...req.body, tenantId: req.tenantContext!.tenantId, source: "manual" });
       const project = await storage.createProject(data);
       res.status(201).json(project);
@@ -4149,7 +5666,7 @@ KEY TALKING POINTS:
 
   app.patch("/api/crm/projects/:id", requireWrite, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid project ID" });
       const updated = await storage.updateProject(id, req.body);
@@ -4162,7 +5679,7 @@ KEY TALKING POINTS:
 
   app.delete("/api/crm/projects/:id", requireWrite, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid project ID" });
       await storage.deleteProject(id);
@@ -4174,7 +5691,7 @@ KEY TALKING POINTS:
 
   app.get("/api/crm/order-signals", requireSubscription, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const accountId = req.query.accountId ? parseInt(req.query.accountId as string) : undefined;
       const signalType = req.query.signalType as string | undefined;
       const status = req.query.status as string | undefined;
@@ -4186,7 +5703,7 @@ KEY TALKING POINTS:
 
   app.patch("/api/crm/order-signals/:id", requireWrite, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid order signal ID" });
       const updated = await storage.updateOrderSignal(id, req.body);
@@ -4199,7 +5716,7 @@ KEY TALKING POINTS:
 
   app.get("/api/crm/competitor-mentions", requireSubscription, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const accountId = req.query.accountId ? parseInt(req.query.accountId as string) : undefined;
       const threatLevel = req.query.threatLevel as string | undefined;
       res.json(await storage.getCompetitorMentions(accountId, threatLevel));
@@ -4210,7 +5727,7 @@ KEY TALKING POINTS:
 
   app.patch("/api/crm/competitor-mentions/:id", requireWrite, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid competitor mention ID" });
       const updated = await storage.updateCompetitorMention(id, req.body);
@@ -4223,7 +5740,7 @@ KEY TALKING POINTS:
 
   app.get("/api/crm/contacts/:contactId/interactions", requireSubscription, async (req, res) => {
     try {
-      const storage = getTenantStorage(req.tenantContext!.tenantId);
+      const storage = getStorage(req);
       const contactId = parseInt(req.params.contactId);
       if (isNaN(contactId)) return res.status(400).json({ message: "Invalid contact ID" });
       res.json(await storage.getContactInteractions(contactId));
@@ -4446,6 +5963,91 @@ KEY TALKING POINTS:
     }
   });
 
+  // ── Interactions (rep-logged calls, meetings, notes and emails) ──
+  app.get("/api/agent/interactions", requireAuth, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const accountId = req.query.accountId ? parseInt(req.query.accountId as string) : undefined;
+      if (accountId !== undefined && isNaN(accountId)) return res.status(400).json({ message: "Invalid account ID" });
+      res.json(await tenantStorage.getAgentInteractions(accountId));
+    } catch (error) {
+      handleRouteError(error, res, "Get interactions");
+    }
+  });
+
+  app.get("/api/agent/interactions/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid interaction ID" });
+      const interaction = await getStorage(req).getAgentInteraction(id);
+      if (!interaction) return res.status(404).json({ message: "Interaction not found" });
+      res.json(interaction);
+    } catch (error) {
+      handleRouteError(error, res, "Get interaction");
+    }
+  });
+
+  /**
+   * Log an interaction. Emails with a body are analyzed by email-intelligence
+   * in the background when the tenant has credits for it.
+   * @route POST /api/agent/interactions
+   * @returns {AgentInteraction & { analysisQueued: boolean }}
+   */
+  app.post("/api/agent/interactions", requireWrite, async (req, res) => {
+    try {
+      const tenantStorage = getStorage(req);
+      const tenant = req.tenantContext!.tenant;
+      const data = insertAgentInteractionSchema.parse(req.body);
+      const account = await tenantStorage.getAccount(data.accountId);
+      if (!account) return res.status(404).json({ message: "Account not found" });
+
+      const interaction = await tenantStorage.createAgentInteraction({
+        ...data,
+        repEmail: data.repEmail ?? req.user?.claims?.email ?? null,
+      });
+
+      let analysisQueued = false;
+      if (interaction.interactionType === "email" && interaction.body) {
+        const credits = await checkCredits(tenant.id, tenant.planType || "free", "email_analysis");
+        if (credits.allowed) {
+          analysisQueued = true;
+          analyzeEmailIntelligence(interaction.id, tenant.id)
+            .then(() => deductCreditsAfterAction(req, "email_analysis", { accountId: account.id, accountName: account.name }))
+            .catch((err) => console.error("[email-intelligence] Background analysis failed:", err));
+        }
+      }
+
+      res.status(201).json({ ...interaction, analysisQueued });
+    } catch (error) {
+      handleRouteError(error, res, "Create interaction");
+    }
+  });
+
+  app.patch("/api/agent/interactions/:id", requireWrite, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid interaction ID" });
+      const data = insertAgentInteractionSchema.omit({ accountId: true }).partial().parse(req.body);
+      const updated = await getStorage(req).updateAgentInteraction(id, data);
+      if (!updated) return res.status(404).json({ message: "Interaction not found" });
+      res.json(updated);
+    } catch (error) {
+      handleRouteError(error, res, "Update interaction");
+    }
+  });
+
+  app.delete("/api/agent/interactions/:id", requireWrite, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid interaction ID" });
+      const deleted = await getStorage(req).deleteAgentInteraction(id);
+      if (!deleted) return res.status(404).json({ message: "Interaction not found" });
+      res.json({ message: "Interaction deleted" });
+    } catch (error) {
+      handleRouteError(error, res, "Delete interaction");
+    }
+  });
+
   app.get("/api/agent/health-check", requireAuth, async (req, res) => {
     try {
       const tenantId = req.tenantContext?.tenantId;
@@ -2,20 +2,54 @@
  * scheduler.ts — Phase 5
  *
  * All node-cron schedule definitions for the agent loop.
- * Import and call `startScheduler(tenantId)` from server/index.ts
+ * Import and call `startScheduler()` from server/index.ts
  * AFTER `registerRoutes()` has run.
  *
- * Schedule reference (all times EST / America/New_York):
- *   Daily Briefing      → weekdays 7:00am
+ * Every job runs for each active tenant (see services/job-runner.ts). Each
+ * tenant run is recorded in job_runs. A Postgres advisory lock per job keeps a
+ * second app instance from running the same sweep at the same time, and a lock
+ * per job and tenant keeps a manual run from overlapping the scheduled one.
+ *
+ * Schedule reference (America/New_York unless noted):
+ *   Daily Briefing      → weekdays at each tenant's briefingTime, in its timezone
+ *   Daily Digest        → weekdays 30 min after each tenant's briefingTime
  *   Weekly Review       → Mondays  6:00am
  *   Synthesize Learning → 1st of month 3:00am
  *   Refresh Embeddings  → Sundays  2:00am
  *   Refresh Similarity  → Sundays  3:00am
- *   CRM Sync Retry      → every 4 hours
+ *   CRM Sync Push       → every 5 minutes (rows wait out their backoff)
+ *   CRM Sync Pull       → every 6 hours at :30
+ *   Account Metrics     → nightly  1:00am
+ *   Category Spend      → nightly  1:15am
+ *   Seasonality         → nightly  1:30am
+ *   Churn Model         → nightly  2:00am
+ *   Category Rules      → Sundays  4:00am
+ *   Program Revenue     → 1st of month 5:00am (closes the month just ended)
  */
 
 import cron from "node-cron";
 import { log } from "./index.js";
+import type { JobRun } from "@shared/schema";
+import {
+    getActiveTenantIds,
+    getNextDailyRun,
+    getRecentJobRuns,
+    getTenantScheduleSettings,
+    getTenantsWithRunSince,
+    isDailyJobDue,
+    recordJobRun,
+    startJobRun,
+    completeJobRun,
+    withAdvisoryLock,
+} from "./services/job-runner.js";
+
+const SCHEDULER_TIMEZONE = "America/New_York";
+
+// Tenant-local jobs tick this often and run for tenants whose time has come
+const LOCAL_TIME_TICK = "*/15 * * * *";
+
+// A tenant-local daily job will not repeat within this window
+const DAILY_JOB_DEDUPE_MS = 20 * 60 * 60 * 1000;
 
 // ─── Lazy service imports  (avoids circular deps at module load time) ─────────
 
@@ -39,204 +73,496 @@ async function getCrmSyncService() {
     return processCrmSyncQueue;
 }
 
+async function getCrmPullService() {
+    const { runCrmPull } = await import("./services/crm-sync-pull.js");
+    return runCrmPull;
+}
+
+async function getMetricsEngineService() {
+    const { recomputeAccountMetrics } = await import("./services/metrics-engine.js");
+    return recomputeAccountMetrics;
+}
+
+async function getCategorySpendService() {
+    const { rollupCategorySpend } = await import("./services/category-spend-rollup.js");
+    return rollupCategorySpend;
+}
+
+async function getSeasonalityService() {
+    const { recomputeSeasonality } = await import("./services/seasonality.js");
+    return recomputeSeasonality;
+}
+
+async function getChurnModelService() {
+    const { runChurnModel } = await import("./services/churn-model.js");
+    return runChurnModel;
+}
+
+async function getCategoryAssociationService() {
+    const { rebuildCategoryAssociations } = await import("./services/category-associations.js");
+    return rebuildCategoryAssociations;
+}
+
+async function getProgramRevenueService() {
+    const { closePreviousProgramMonth } = await import("./services/program-revenue.js");
+    return closePreviousProgramMonth;
+}
+
 async function getDailyDigestService() {
     const { sendDailyDigest } = await import("./email-service.js");
     return sendDailyDigest;
 }
 
+// ─── Inline jobs ─────────────────────────────────────────────────────────────
+
+async function synthesizeLearnings(tenantId: number): Promise<{ learnings: number }> {
+    const { default: OpenAI } = await import("openai");
+    const { getCoreSystemPrompt, writeAgentMemo } = await import("./services/agent-identity.js");
+    const { eq, and, gte } = await import("drizzle-orm");
+    const { db } = await import("./db.js");
+    const { agentPlaybookOutcomes, agentPlaybookLearnings } = await import("@shared/schema");
+    const { z } = await import("zod");
+
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+    const corePrompt = await getCoreSystemPrompt();
+    const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+
+    const outcomes = await db
+        .select()
+        .from(agentPlaybookOutcomes)
+        .where(
+            and(
+                eq(agentPlaybookOutcomes.tenantId, tenantId),
+                gte(agentPlaybookOutcomes.recordedAt, ninetyDaysAgo),
+            ),
+        )
+        .limit(200);
+
+    if (outcomes.length === 0) {
+        log(`[synthesize-learnings] Tenant ${tenantId}: no outcomes in past 90 days, skipping.`, "cron");
+        return { learnings: 0 };
+    }
+
+    const outcomeSummary = outcomes
+        .map((o) => `type=${o.outcomeType} score=${o.outcomeScore ?? "?"} won_category=${o.wonCategory ?? "-"} revenue_impact=${o.revenueImpact ?? "-"} notes=${o.repNotes ?? ""}`)
+        .join("\n");
+
+    const LearningsSchema = z.object({
+        learnings: z.array(z.object({
+            learning: z.string().max(500),
+            evidence_count: z.number().int().min(1),
+            success_rate: z.number().min(0).max(1).nullable(),
+            recommended_for_segments: z.array(z.string()).max(5),
+        })).max(10),
+        agent_memo: z.object({
+            last_run_summary: z.string(),
+            current_focus: z.string(),
+            pattern_notes_addition: z.string(),
+            anomalies_watching: z.array(z.object({
+                account_name: z.string(),
+                signal: z.string(),
+                watch_until_date: z.string(),
+            })),
+        }),
+    });
+
+    const completion = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+            { role: "system", content: corePrompt },
+            {
+                role: "user",
+                content: `Analyze these 90-day playbook outcomes and distill the top cross-account learnings:\n\n${outcomeSummary}\n\nReturn JSON matching this schema exactly. Focus on patterns that predict success.`,
+            },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.3,
+    });
+
+    const raw = JSON.parse(completion.choices[0].message.content ?? "{}");
+    const parsed = LearningsSchema.parse(raw);
+
+    // Insert new learnings
+    for (const l of parsed.learnings) {
+        await db.insert(agentPlaybookLearnings).values({
+            tenantId,
+            learning: l.learning,
+            evidenceCount: l.evidence_count,
+            successRate: String(l.success_rate ?? ""),
+            recommendedForSegments: l.recommended_for_segments,
+            isActive: true,
+        });
+    }
+
+    await writeAgentMemo(tenantId, "synthesize-learnings", parsed.agent_memo);
+    return { learnings: parsed.learnings.length };
+}
+
+async function refreshSimilarPairs(tenantId: number): Promise<{ processed: number; total: number }> {
+    const { db } = await import("./db.js");
+    const { accounts } = await import("@shared/schema");
+    const { eq } = await import("drizzle-orm");
+    const { findSimilarAccounts } = await import("./services/account-embedding.js");
+
+    const enrolledAccounts = await db
+        .select({ id: accounts.id })
+        .from(accounts)
+        .where(eq(accounts.tenantId, tenantId));
+
+    let processed = 0;
+    for (const acc of enrolledAccounts) {
+        try {
+            await findSimilarAccounts(acc.id, tenantId);
+            processed++;
+        } catch {
+            // continue if one account fails
+        }
+    }
+    return { processed, total: enrolledAccounts.length };
+}
+
+// ─── Job registry ────────────────────────────────────────────────────────────
+
+interface JobDefinition {
+    label: string;
+    schedule: string;
+    /** Can be triggered from POST /api/admin/jobs/:name/run */
+    manual: boolean;
+    run: (tenantId: number) => Promise<unknown>;
+}
+
+export const JOBS = {
+    "daily-briefing": {
+        label: "Daily Intelligence Briefing",
+        schedule: "Weekdays at the briefing time",
+        manual: true,
+        run: async (tenantId) => (await getDailyBriefingService())(tenantId),
+    },
+    "daily-digest": {
+        label: "Daily Digest",
+        schedule: "Weekdays 30 min after the briefing time",
+        manual: true,
+        run: async (tenantId) => (await getDailyDigestService())(tenantId),
+    },
+    "weekly-account-review": {
+        label: "Weekly Account Review",
+        schedule: "Mondays @ 6:00 AM EST",
+        manual: true,
+        run: async (tenantId) => (await getWeeklyReviewService())(tenantId),
+    },
+    "synthesize-learnings": {
+        label: "AI Learning Synthesis",
+        schedule: "1st of Month @ 3:00 AM EST",
+        manual: false,
+        run: synthesizeLearnings,
+    },
+    "refresh-embeddings": {
+        label: "Refresh Embeddings",
+        schedule: "Sundays @ 2:00 AM EST",
+        manual: true,
+        run: async (tenantId) => (await getEmbeddingService())(tenantId),
+    },
+    "refresh-similar-pairs": {
+        label: "Refresh Similar Accounts",
+        schedule: "Sundays @ 3:00 AM EST",
+        manual: true,
+        run: refreshSimilarPairs,
+    },
+    "crm-sync": {
+        label: "CRM Sync Push",
+        schedule: "Every 5 minutes",
+        manual: true,
+        run: async (tenantId) => (await getCrmSyncService())(tenantId),
+    },
+    "crm-sync-pull": {
+        label: "CRM Sync Pull",
+        schedule: "Every 6 hours",
+        manual: false,
+        run: async (tenantId) => (await getCrmPullService())(tenantId),
+    },
+    "account-metrics": {
+        label: "Account Metrics",
+        schedule: "Nightly @ 1:00 AM EST",
+        manual: false,
+        run: async (tenantId) => (await getMetricsEngineService())(tenantId),
+    },
+    "category-spend": {
+        label: "Category Spend Rollup",
+        schedule: "Nightly @ 1:15 AM EST",
+        manual: true,
+        run: async (tenantId) => (await getCategorySpendService())(tenantId),
+    },
+    "seasonality": {
+        label: "Seasonality & Wallet Share Trend",
+        schedule: "Nightly @ 1:30 AM EST",
+        manual: true,
+        run: async (tenantId) => (await getSeasonalityService())(tenantId),
+    },
+    "churn-model": {
+        label: "Churn Risk Model",
+        schedule: "Nightly @ 2:00 AM EST",
+        manual: true,
+        run: async (tenantId) => (await getChurnModelService())(tenantId),
+    },
+    "category-associations": {
+        label: "Next-Best-Category Rules",
+        schedule: "Sundays @ 4:00 AM EST",
+        manual: true,
+        run: async (tenantId) => (await getCategoryAssociationService())(tenantId),
+    },
+    "program-revenue-close": {
+        label: "Program Revenue Close",
+        schedule: "1st of Month @ 5:00 AM EST",
+        manual: true,
+        run: async (tenantId) => (await getProgramRevenueService())(tenantId),
+    },
+} satisfies Record<string, JobDefinition>;
+
+export type JobName = keyof typeof JOBS;
+
+export function isJobName(name: string): name is JobName {
+    return Object.prototype.hasOwnProperty.call(JOBS, name);
+}
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function safeRun(label: string, fn: () => Promise<unknown>): void {
     fn()
-        .then((res) => log(`[scheduler] ${label} done: ${JSON.stringify(res)}`, "cron"))
+        .then((res) => {
+            if (res !== null) log(`[scheduler] ${label} done: ${JSON.stringify(res)}`, "cron");
+        })
         .catch((err) => log(`[scheduler] ${label} error: ${err?.message ?? err}`, "cron"));
 }
 
-// ─── Scheduler bootstrap ─────────────────────────────────────────────────────
+/** Lock held while a job runs for one tenant; manual runs take only this one */
+function tenantLockName(jobName: JobName, tenantId: number): string {
+    return `${jobName}:${tenantId}`;
+}
 
-export function startScheduler(tenantId: number): void {
-    log(`[scheduler] Starting with tenantId=${tenantId}`, "cron");
+/**
+ * Runs a job for each selected tenant under the job's advisory lock, and each
+ * tenant under its own lock. A tenant whose run was started manually and is
+ * still going is skipped; the sweep carries on with the rest.
+ * Resolves to null when there was nothing to do.
+ */
+async function runJobForTenants(
+    jobName: JobName,
+    selectTenants: () => Promise<number[]>,
+): Promise<Record<string, unknown> | null> {
+    const outcome = await withAdvisoryLock(jobName, async () => {
+        const tenantIds = await selectTenants();
+        if (tenantIds.length === 0) return null;
 
-    // ── 1. Daily Briefing — weekdays at 7:00am EST ──────────────────────────────
-    // Cron: minute=0, hour=7, day-of-month=*, month=*, day-of-week=1-5
-    cron.schedule(
-        "0 7 * * 1-5",
-        async () => {
-            const runDailyBriefing = await getDailyBriefingService();
-            safeRun("daily-briefing", () => runDailyBriefing(tenantId));
-        },
-        { timezone: "America/New_York", name: "daily-briefing" },
+        let succeeded = 0;
+        let failed = 0;
+        let skipped = 0;
+        for (const tenantId of tenantIds) {
+            const tenantRun = await withAdvisoryLock(tenantLockName(jobName, tenantId), () =>
+                recordJobRun(jobName, tenantId, () => JOBS[jobName].run(tenantId)),
+            );
+            if (!tenantRun.acquired) {
+                skipped++;
+                log(`[scheduler] ${jobName} skipped for tenant ${tenantId}: already running`, "cron");
+                continue;
+            }
+            const run = tenantRun.result;
+            if (run.status === "success") {
+                succeeded++;
+            } else {
+                failed++;
+                log(`[scheduler] ${jobName} failed for tenant ${tenantId}: ${run.error}`, "cron");
+            }
+        }
+        return { tenants: tenantIds.length, succeeded, failed, skipped };
+    });
+
+    if (!outcome.acquired) {
+        log(`[scheduler] ${jobName} skipped: running on another instance`, "cron");
+        return null;
+    }
+    return outcome.result;
+}
+
+/**
+ * Tenants whose local time has reached briefingTime (+ offset) today and that
+ * have not run `jobName` yet.
+ */
+async function getTenantsDueForDailyJob(
+    jobName: JobName,
+    options: { offsetMinutes?: number; requireBriefingEnabled?: boolean },
+): Promise<number[]> {
+    const now = new Date();
+    const due = (await getTenantScheduleSettings()).filter((s) =>
+        (!options.requireBriefingEnabled || s.briefingEnabled) &&
+        isDailyJobDue(now, s.timezone, s.briefingTime, { offsetMinutes: options.offsetMinutes }),
     );
+    const alreadyRan = await getTenantsWithRunSince(
+        jobName,
+        due.map((s) => s.tenantId),
+        new Date(now.getTime() - DAILY_JOB_DEDUPE_MS),
+    );
+    return due.map((s) => s.tenantId).filter((id) => !alreadyRan.has(id));
+}
 
-    // ── 2. Weekly Account Review — Mondays at 6:00am EST ───────────────────────
+function scheduleForAllTenants(jobName: JobName, expression: string): void {
     cron.schedule(
-        "0 6 * * 1",
-        async () => {
-            const runWeeklyAccountReview = await getWeeklyReviewService();
-            safeRun("weekly-account-review", () => runWeeklyAccountReview(tenantId));
-        },
-        { timezone: "America/New_York", name: "weekly-account-review" },
+        expression,
+        () => safeRun(jobName, () => runJobForTenants(jobName, getActiveTenantIds)),
+        { timezone: SCHEDULER_TIMEZONE, name: jobName },
     );
+}
 
-    // ── 3. Synthesize Learnings — 1st of every month at 3:00am EST ────────────
+// ─── Scheduler bootstrap ─────────────────────────────────────────────────────
+
+export function startScheduler(): void {
+    log("[scheduler] Starting for all active tenants", "cron");
+
+    // ── 1. Daily Briefing — weekdays at each tenant's briefingTime ─────────────
+    // Ticks every 15 minutes; skips tenants with briefingEnabled = false
     cron.schedule(
-        "0 3 1 * *",
-        async () => {
-            try {
-                const { default: OpenAI } = await import("openai");
-                const { storage } = await import("./storage.js");
-                const { getCoreSystemPrompt, writeAgentMemo } = await import("./services/agent-identity.js");
-                const { eq, and, gte } = await import("drizzle-orm");
-                const { db } = await import("./db.js");
-                const { agentPlaybookOutcomes, agentPlaybookLearnings } = await import("@shared/schema");
-                const { z } = await import("zod");
-
-                const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-                const corePrompt = await getCoreSystemPrompt();
-                const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-
-                const outcomes = await db
-                    .select()
-                    .from(agentPlaybookOutcomes)
-                    .where(
-                        and(
-                            eq(agentPlaybookOutcomes.tenantId, tenantId),
-                            gte(agentPlaybookOutcomes.recordedAt, ninetyDaysAgo),
-                        ),
-                    )
-                    .limit(200);
-
-                if (outcomes.length === 0) {
-                    log("[synthesize-learnings] No outcomes in past 90 days, skipping.", "cron");
-                    return;
-                }
-
-                const outcomeSummary = outcomes
-                    .map((o) => `type=${o.outcomeType} score=${o.outcomeScore ?? "?"} notes=${o.repNotes ?? ""}`)
-                    .join("\n");
-
-                const LearningsSchema = z.object({
-                    learnings: z.array(z.object({
-                        learning: z.string().max(500),
-                        evidence_count: z.number().int().min(1),
-                        success_rate: z.number().min(0).max(1).nullable(),
-                        recommended_for_segments: z.array(z.string()).max(5),
-                    })).max(10),
-                    agent_memo: z.object({
-                        last_run_summary: z.string(),
-                        current_focus: z.string(),
-                        pattern_notes_addition: z.string(),
-                        anomalies_watching: z.array(z.object({
-                            account_name: z.string(),
-                            signal: z.string(),
-                            watch_until_date: z.string(),
-                        })),
-                    }),
-                });
-
-                const completion = await openai.chat.completions.create({
-                    model: "gpt-4o",
-                    messages: [
-                        { role: "system", content: corePrompt },
-                        {
-                            role: "user",
-                            content: `Analyze these 90-day playbook outcomes and distill the top cross-account learnings:\n\n${outcomeSummary}\n\nReturn JSON matching this schema exactly. Focus on patterns that predict success.`,
-                        },
-                    ],
-                    response_format: { type: "json_object" },
-                    temperature: 0.3,
-                });
-
-                const raw = JSON.parse(completion.choices[0].message.content ?? "{}");
-                const parsed = LearningsSchema.parse(raw);
-
-                // Insert new learnings
-                for (const l of parsed.learnings) {
-                    await db.insert(agentPlaybookLearnings).values({
-                        tenantId,
-                        learning: l.learning,
-                        evidenceCount: l.evidence_count,
-                        successRate: String(l.success_rate ?? ""),
-                        recommendedForSegments: l.recommended_for_segments,
-                        isActive: true,
-                    });
-                }
-
-                await writeAgentMemo(tenantId, "synthesize-learnings", parsed.agent_memo);
-                log(`[synthesize-learnings] Inserted ${parsed.learnings.length} learnings.`, "cron");
-            } catch (err: any) {
-                log(`[synthesize-learnings] Error: ${err?.message ?? err}`, "cron");
-            }
-        },
-        { timezone: "America/New_York", name: "synthesize-learnings" },
+        LOCAL_TIME_TICK,
+        () => safeRun("daily-briefing", () => runJobForTenants(
+            "daily-briefing",
+            () => getTenantsDueForDailyJob("daily-briefing", { requireBriefingEnabled: true }),
+        )),
+        { timezone: SCHEDULER_TIMEZONE, name: "daily-briefing" },
     );
 
+    // ── 2. Weekly Account Review — Mondays at 6:00am EST ───────────────────────
+    scheduleForAllTenants("weekly-account-review", "0 6 * * 1");
+
+    // ── 3. Synthesize Learnings — 1st of every month at 3:00am EST ────────────
+    scheduleForAllTenants("synthesize-learnings", "0 3 1 * *");
+
     // ── 4. Refresh Embeddings — Sundays at 2:00am EST ──────────────────────────
-    cron.schedule(
-        "0 2 * * 0",
-        async () => {
-            const refreshAllEmbeddings = await getEmbeddingService();
-            safeRun("refresh-embeddings", () => refreshAllEmbeddings(tenantId));
-        },
-        { timezone: "America/New_York", name: "refresh-embeddings" },
-    );
+    scheduleForAllTenants("refresh-embeddings", "0 2 * * 0");
 
     // ── 5. Refresh Similar Pairs — Sundays at 3:00am EST (after embeddings) ────
-    cron.schedule(
-        "0 3 * * 0",
-        async () => {
-            try {
-                const { db } = await import("./db.js");
-                const { accounts } = await import("@shared/schema");
-                const { eq } = await import("drizzle-orm");
-                const { findSimilarAccounts } = await import("./services/account-embedding.js");
-
-                const enrolledAccounts = await db
-                    .select({ id: accounts.id })
-                    .from(accounts)
-                    .where(eq(accounts.tenantId, tenantId));
-
-                let processed = 0;
-                for (const acc of enrolledAccounts) {
-                    try {
-                        await findSimilarAccounts(acc.id, tenantId);
-                        processed++;
-                    } catch {
-                        // continue if one account fails
-                    }
-                }
-                log(`[refresh-similar-pairs] Processed ${processed}/${enrolledAccounts.length} accounts.`, "cron");
-            } catch (err: any) {
-                log(`[refresh-similar-pairs] Error: ${err?.message ?? err}`, "cron");
-            }
-        },
-        { timezone: "America/New_York", name: "refresh-similar-pairs" },
-    );
+    scheduleForAllTenants("refresh-similar-pairs", "0 3 * * 0");
 
-    // ── 6. Daily Digest — weekdays at 7:30am EST ──────────────────────────────
+    // ── 6. Daily Digest — weekdays 30 minutes after each tenant's briefingTime ─
     cron.schedule(
-        "30 7 * * 1-5",
-        async () => {
-            const sendDailyDigest = await getDailyDigestService();
-            safeRun("daily-digest", () => sendDailyDigest(tenantId));
-        },
-        { timezone: "America/New_York", name: "daily-digest" },
+        LOCAL_TIME_TICK,
+        () => safeRun("daily-digest", () => runJobForTenants(
+            "daily-digest",
+            () => getTenantsDueForDailyJob("daily-digest", { offsetMinutes: 30 }),
+        )),
+        { timezone: SCHEDULER_TIMEZONE, name: "daily-digest" },
     );
 
-    // ── 7. CRM Sync Retry — every 4 hours ──────────────────────────────────────
-    cron.schedule(
-        "0 */4 * * *",
-        async () => {
-            const processCrmSyncQueue = await getCrmSyncService();
-            safeRun("crm-sync-retry", () => processCrmSyncQueue(tenantId));
-        },
-        { timezone: "America/New_York", name: "crm-sync-retry" },
-    );
+    // ── 7. CRM Sync Push — every 5 minutes; each row waits out its backoff ─────
+    scheduleForAllTenants("crm-sync", "*/5 * * * *");
+
+    // ── 8. Account Metrics Recompute — nightly at 1:00am EST ───────────────────
+    scheduleForAllTenants("account-metrics", "0 1 * * *");
+
+    // ── 9. CRM Sync Pull — every 6 hours at :30 ────────────────────────────────
+    scheduleForAllTenants("crm-sync-pull", "30 */6 * * *");
+
+    // ── 10. Category Association Rules — Sundays at 4:00am EST ─────────────────
+    scheduleForAllTenants("category-associations", "0 4 * * 0");
+
+    // ── 11. Seasonality & Wallet Share Direction — nightly at 1:30am EST ───────
+    scheduleForAllTenants("seasonality", "30 1 * * *");
+
+    // ── 12. Churn Model — retrain and rescore nightly at 2:00am EST ────────────
+    scheduleForAllTenants("churn-model", "0 2 * * *");
+
+    // ── 13. Category Spend Rollup — nightly at 1:15am EST, after metrics ──────
+    scheduleForAllTenants("category-spend", "15 1 * * *");
+
+    // ── 14. Program Revenue Close — 1st of every month at 5:00am EST ──────────
+    scheduleForAllTenants("program-revenue-close", "0 5 1 * *");
 
     const scheduled = cron.getTasks();
     log(`[scheduler] ${scheduled.size} cron jobs registered.`, "cron");
 }
 
+// ─── Status + manual runs (GET/POST /api/admin/jobs) ─────────────────────────
+
+export interface JobStatus {
+    name: JobName;
+    label: string;
+    schedule: string;
+    manual: boolean;
+    nextRunAt: Date | null;
+    lastRun: JobRun | null;
+    recentRuns: JobRun[];
+}
+
+function getCronNextRun(jobName: JobName): Date | null {
+    for (const task of Array.from(cron.getTasks().values())) {
+        if (task.name === jobName) return task.getNextRun();
+    }
+    return null;
+}
+
+/**
+ * Every job with its next run and recent runs for one tenant. Tenant-local
+ * jobs report the tenant's next briefing slot rather than the 15-minute tick.
+ */
+export async function getJobStatuses(tenantId: number): Promise<JobStatus[]> {
+    const [settings, runs] = await Promise.all([
+        getTenantScheduleSettings(tenantId),
+        getRecentJobRuns(tenantId),
+    ]);
+    const now = new Date();
+
+    return (Object.keys(JOBS) as JobName[]).map((name) => {
+        const job = JOBS[name];
+        let nextRunAt = getCronNextRun(name);
+        if (name === "daily-briefing" || name === "daily-digest") {
+            const tenant = settings[0];
+            nextRunAt = !tenant || (name === "daily-briefing" && !tenant.briefingEnabled)
+                ? null
+                : getNextDailyRun(now, tenant.timezone, tenant.briefingTime, { offsetMinutes: name === "daily-digest" ? 30 : 0 });
+        }
+        const jobRuns = runs.filter((r) => r.jobName === name);
+        return {
+            name,
+            label: job.label,
+            schedule: job.schedule,
+            manual: job.manual,
+            nextRunAt,
+            lastRun: jobRuns[0] ?? null,
+            recentRuns: jobRuns.slice(0, 5),
+        };
+    });
+}
+
+export class JobAlreadyRunningError extends Error {
+    constructor(jobName: string) {
+        super(`${jobName} is already running`);
+        this.name = "JobAlreadyRunningError";
+    }
+}
+
+/**
+ * Starts a job for one tenant outside its schedule, under the per-tenant lock
+ * scheduled runs take for that tenant, so it never holds up the sweep for
+ * other tenants. Resolves once the run is recorded as started; `finished`
+ * settles when it completes and the lock is released.
+ * @throws JobAlreadyRunningError when the job is running for this tenant here or on another instance
+ */
+export async function startJobNow(jobName: JobName, tenantId: number): Promise<{ run: JobRun; finished: Promise<JobRun> }> {
+    let markStarted!: (run: JobRun) => void;
+    const started = new Promise<JobRun>((resolve) => { markStarted = resolve; });
+
+    const finished = withAdvisoryLock(tenantLockName(jobName, tenantId), async () => {
+        log(`[scheduler] ${jobName} triggered manually for tenant ${tenantId}`, "cron");
+        const run = await startJobRun(jobName, tenantId, "manual");
+        markStarted(run);
+        return completeJobRun(run, () => JOBS[jobName].run(tenantId));
+    }).then((outcome) => {
+        if (!outcome.acquired) throw new JobAlreadyRunningError(jobName);
+        return outcome.result;
+    });
+
+    // Settles with the started run, or rejects when the lock is held or the run can't be recorded
+    const run = await Promise.race([started, finished]);
+    return { run, finished };
+}
+
 /**
  * stopScheduler — gracefully stops all cron tasks.
  * Call during process SIGTERM / SIGINT cleanup.
@@ -13,6 +13,8 @@ import {
   dataUploads,
   accountMetrics,
   accountCategoryGaps,
+  accountMetricsSnapshots,
+  accountCategoryGapSnapshots,
   subscriptionPlans,
   territoryManagers,
   orders,
@@ -50,6 +52,8 @@ export async function seed() {
   await db.delete(contacts);
   await db.delete(programRevenueSnapshots);
   await db.delete(programAccounts);
+  await db.delete(accountCategoryGapSnapshots);
+  await db.delete(accountMetricsSnapshots);
   await db.delete(accountCategoryGaps);
   await db.delete(accountMetrics);
   await db.delete(playbookTasks);
@@ -752,6 +756,7 @@ Is there 10 minutes this week to reconnect?`;
       const incremental = Math.max(0, periodRevenue - baselineMonthly);
 
       await db.insert(programRevenueSnapshots).values({
+        tenantId: TENANT_ID,
         programAccountId: pa.id,
         periodStart,
         periodEnd,
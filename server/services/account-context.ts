@@ -7,7 +7,9 @@
  * structured context bundle that gets injected into the OpenAI system prompt.
  *
  * Data pulled:
- *   - accounts + account_metrics (core financials, scores, enrollment state)
+ *   - accounts + account_metrics (core financials, scores, enrollment state,
+ *     seasonality profile and seasonally adjusted wallet share direction)
+ *   - account_churn_scores (churn model probability and top drivers)
  *   - agent_contacts (key people)
  *   - agent_account_category_spend (last 12 months, top gaps)
  *   - agent_interactions (last 10 touchpoints)
@@ -34,9 +36,14 @@ import {
     agentCompetitors,
     agentPlaybookLearnings,
     agentState,
+    accountChurnScores,
+    type ChurnDriver,
+    type MonthlySpendPoint,
+    type SeasonalityProfile,
 } from "@shared/schema";
-import { and, eq, desc, gte, isNull, or, inArray } from "drizzle-orm";
+import { and, eq, desc, gte, isNull, or, inArray, sql } from "drizzle-orm";
 import { getCoreSystemPrompt, buildStatePreamble } from "./agent-identity";
+import { describeSeasonality } from "./seasonality";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -50,6 +57,7 @@ export interface AccountContext {
         status: string | null;
         enrollmentStatus: string | null;
         walletShareDirection: string | null;
+        seasonality: SeasonalityProfile | null;
     };
     metrics: {
         last12mRevenue: string | null;
@@ -60,6 +68,11 @@ export interface AccountContext {
         walletSharePercentage: string | null;
         daysSinceLastOrder: number | null;
     } | null;
+    churnRisk: {
+        probability: number;
+        riskLevel: string;
+        drivers: ChurnDriver[];
+    } | null;
     contacts: Array<{
         name: string;
         role: string | null;
@@ -72,8 +85,11 @@ export interface AccountContext {
         periodStart: Date;
         spendAmount: string;
         spendPct: string | null;
+        potentialSpend: string | null;
         gapDollars: string | null;
         gapPct: string | null;
+        trend: string | null;
+        monthlySpendHistory: MonthlySpendPoint[];
     }>;
     recentInteractions: Array<{
         interactionType: string;
@@ -137,12 +153,14 @@ export async function assembleAccountContext(
         similarRows,
         competitorJoinRows,
         stateRow,
+        churnRow,
     ] = await Promise.all([
         db.select().from(accounts).where(and(eq(accounts.id, accountId), eq(accounts.tenantId, tenantId))).limit(1),
         db.select().from(accountMetrics).where(and(eq(accountMetrics.accountId, accountId), eq(accountMetrics.tenantId, tenantId))).limit(1),
         db.select().from(agentContacts).where(and(eq(agentContacts.accountId, accountId), eq(agentContacts.tenantId, tenantId))),
         db.select().from(agentAccountCategorySpend)
             .where(and(eq(agentAccountCategorySpend.accountId, accountId), eq(agentAccountCategorySpend.tenantId, tenantId)))
+            .orderBy(sql`${agentAccountCategorySpend.gapDollars} DESC NULLS LAST`, desc(agentAccountCategorySpend.currentSpend))
             .limit(24),
         db.select().from(agentInteractions)
             .where(and(eq(agentInteractions.accountId, accountId), eq(agentInteractions.tenantId, tenantId)))
@@ -167,6 +185,9 @@ export async function assembleAccountContext(
         db.select().from(agentState)
             .where(and(eq(agentState.tenantId, tenantId), eq(agentState.agentRunType, "weekly-account-review")))
             .limit(1),
+        db.select().from(accountChurnScores)
+            .where(and(eq(accountChurnScores.accountId, accountId), eq(accountChurnScores.tenantId, tenantId)))
+            .limit(1),
     ]);
 
     const account = accountRow[0];
@@ -204,7 +225,8 @@ export async function assembleAccountContext(
             assignedTm: account.assignedTm,
             status: account.status,
             enrollmentStatus: (account as any).enrollmentStatus ?? null,
-            walletShareDirection: (account as any).walletShareDirection ?? null,
+            walletShareDirection: account.walletShareDirection ?? null,
+            seasonality: account.seasonalityProfile ?? null,
         },
         metrics: metricsRow[0]
             ? {
@@ -217,6 +239,13 @@ export async function assembleAccountContext(
                 daysSinceLastOrder: (metricsRow[0] as any).daysSinceLastOrder ?? null,
             }
             : null,
+        churnRisk: churnRow[0]
+            ? {
+                probability: parseFloat(churnRow[0].probability),
+                riskLevel: churnRow[0].riskLevel,
+                drivers: churnRow[0].drivers,
+            }
+            : null,
         contacts: contactRows.map((c) => ({
             name: c.name,
             role: c.role,
@@ -229,8 +258,11 @@ export async function assembleAccountContext(
             periodStart: s.lastOrderDate ?? new Date(),
             spendAmount: s.currentSpend ?? "0",
             spendPct: null,
+            potentialSpend: s.potentialSpend,
             gapDollars: s.gapDollars,
             gapPct: s.gapPercentage,
+            trend: s.trend,
+            monthlySpendHistory: s.monthlySpendHistory ?? [],
         })),
         recentInteractions: interactionRows.map((i) => ({
             interactionType: i.interactionType,
@@ -286,6 +318,9 @@ export function contextToPromptString(ctx: AccountContext): string {
     lines.push(`ACCOUNT: ${ctx.account.name}`);
     lines.push(`Segment: ${ctx.account.segment ?? "Unknown"} | Region: ${ctx.account.region ?? "Unknown"} | Rep: ${ctx.account.assignedTm ?? "Unassigned"}`);
     lines.push(`Enrollment: ${ctx.account.enrollmentStatus ?? "discovered"} | Wallet Share Trend: ${ctx.account.walletShareDirection ?? "unknown"}`);
+    if (ctx.account.seasonality) {
+        lines.push(`Seasonality: ${describeSeasonality(ctx.account.seasonality)}`);
+    }
 
     if (ctx.metrics) {
         lines.push(`\nFINANCIALS:`);
@@ -297,6 +332,11 @@ export function contextToPromptString(ctx: AccountContext): string {
         lines.push(`  Category Penetration: ${ctx.metrics.categoryPenetration ?? "N/A"}% | Opportunity Score: ${ctx.metrics.opportunityScore ?? "N/A"}`);
     }
 
+    if (ctx.churnRisk) {
+        const drivers = ctx.churnRisk.drivers.map((d) => d.label).join("; ");
+        lines.push(`\nCHURN RISK (model): ${Math.round(ctx.churnRisk.probability * 100)}% (${ctx.churnRisk.riskLevel})${drivers ? ` — drivers: ${drivers}` : ""}`);
+    }
+
     if (ctx.contacts.length > 0) {
         lines.push(`\nCONTACTS:`);
         ctx.contacts.forEach((c) => {
@@ -307,7 +347,9 @@ export function contextToPromptString(ctx: AccountContext): string {
     if (ctx.categorySpend.length > 0) {
         lines.push(`\nCAT SPEND (last 12 months, top gaps first):`);
         ctx.categorySpend.slice(0, 8).forEach((s) => {
-            lines.push(`  - ${s.categoryName ?? `Cat ${s.categoryId}`}: $${s.spendAmount} spend | gap: ${s.gapPct ?? "?"}% ($${s.gapDollars ?? "?"} est.)`);
+            const potential = s.potentialSpend ? ` of $${s.potentialSpend} potential` : "";
+            const recent = s.monthlySpendHistory.slice(-6).map((p) => `$${Math.round(p.spend)}`).join(", ");
+            lines.push(`  - ${s.categoryName ?? `Cat ${s.categoryId}`}: $${s.spendAmount} spend${potential} | gap: ${s.gapPct ?? "?"}% ($${s.gapDollars ?? "?"} est.) | trend: ${s.trend ?? "?"}${recent ? ` | last 6 months: ${recent}` : ""}`);
         });
     }
 
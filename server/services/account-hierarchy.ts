@@ -0,0 +1,134 @@
+/**
+ * Account Hierarchy
+ *
+ * (Used by the metrics engine, category spend rollup, program enrollment and
+ *  the accounts CSV import)
+ *
+ * Contractors often buy through several branches or legal entities that share
+ * one wallet. accounts.parentAccountId links a branch to its parent company;
+ * chains may be several levels deep, and everything rolls up to the top-level
+ * ancestor (the "root"):
+ *   1. Metrics, gaps and ICP matching are computed for the root over the whole
+ *      family's orders, using the root's segment / sub-segment
+ *   2. Branches keep their own order metrics for the tree view, but are not
+ *      scored and carry no gaps, so opportunities are never counted twice
+ *   3. Program enrollment happens at the root and covers every branch
+ * Links are validated on write (see wouldCreateCycle), and a move that would
+ * shift orders into or out of a current enrollment is refused (see
+ * accountsAffectedByMove). resolveRootAccounts still tolerates a cycle or a
+ * missing parent so one bad row can't break a recompute.
+ *
+ * The hierarchy math is pure so it can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import { accounts } from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AccountLink {
+    id: number;
+    parentAccountId: number | null;
+}
+
+// ─── Hierarchy ────────────────────────────────────────────────────────────────
+
+/**
+ * Maps every account to its top-level ancestor (itself for top-level accounts).
+ * A parent outside the list counts as missing, so the account becomes a root;
+ * accounts on a cycle all resolve to the cycle's lowest id.
+ */
+export function resolveRootAccounts(links: AccountLink[]): Map<number, number> {
+    const parentOf = new Map(links.map(l => [l.id, l.parentAccountId]));
+    const rootOf = new Map<number, number>();
+
+    for (const link of links) {
+        const chain: number[] = [];
+        let current = link.id;
+        while (!rootOf.has(current)) {
+            const seenAt = chain.indexOf(current);
+            if (seenAt !== -1) {
+                rootOf.set(current, Math.min(...chain.slice(seenAt)));
+                break;
+            }
+            chain.push(current);
+            const parent = parentOf.get(current);
+            if (parent === null || parent === undefined || !parentOf.has(parent)) {
+                rootOf.set(current, current);
+                break;
+            }
+            current = parent;
+        }
+        const root = rootOf.get(current)!;
+        for (const id of chain) {
+            if (!rootOf.has(id)) rootOf.set(id, root);
+        }
+    }
+    return rootOf;
+}
+
+/** Groups accounts by root: root id → [root, ...branches] */
+export function accountFamilies(rootOf: Map<number, number>): Map<number, number[]> {
+    const families = new Map<number, number[]>();
+    for (const [id, root] of Array.from(rootOf.entries())) {
+        if (!families.has(root)) families.set(root, [root]);
+        if (id !== root) families.get(root)!.push(id);
+    }
+    return families;
+}
+
+/** True when making parentId the parent of accountId would close a loop */
+export function wouldCreateCycle(links: AccountLink[], accountId: number, parentId: number | null): boolean {
+    if (parentId === null) return false;
+    const parentOf = new Map(links.map(l => [l.id, l.parentAccountId]));
+    const visited = new Set<number>();
+    let current: number | null | undefined = parentId;
+    while (current !== null && current !== undefined && !visited.has(current)) {
+        if (current === accountId) return true;
+        visited.add(current);
+        current = parentOf.get(current);
+    }
+    return false;
+}
+
+/**
+ * Accounts whose family changes when accountId moves under parentId: the moved
+ * account with all of its branches, and its old and new ancestors. A current
+ * enrollment on any of them would gain or lose orders mid-enrollment.
+ */
+export function accountsAffectedByMove(links: AccountLink[], accountId: number, parentId: number | null): number[] {
+    const parentOf = new Map(links.map(l => [l.id, l.parentAccountId]));
+    const affected = new Set<number>([accountId]);
+
+    // The moved subtree
+    const queue = [accountId];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const link of links) {
+            if (link.parentAccountId === current && !affected.has(link.id)) {
+                affected.add(link.id);
+                queue.push(link.id);
+            }
+        }
+    }
+
+    // Both ancestor chains
+    for (const start of [parentOf.get(accountId), parentId]) {
+        let current = start;
+        while (current !== null && current !== undefined && !affected.has(current)) {
+            affected.add(current);
+            current = parentOf.get(current);
+        }
+    }
+    return Array.from(affected);
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+export async function loadAccountLinks(tenantId: number): Promise<AccountLink[]> {
+    return db
+        .select({ id: accounts.id, parentAccountId: accounts.parentAccountId })
+        .from(accounts)
+        .where(eq(accounts.tenantId, tenantId));
+}
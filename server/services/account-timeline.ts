@@ -0,0 +1,276 @@
+/**
+ * Account Timeline
+ *
+ * GET /api/accounts/:id/timeline
+ *
+ * Merges everything that has happened on an account into one newest-first
+ * feed for the Accounts detail view:
+ *   - agent_interactions (rep-logged calls, meetings, notes and emails)
+ *   - synced_emails linked to the account
+ *   - completed tasks
+ *   - orders
+ *   - account_flags
+ *   - program_enrollment_events (enrolled, paused, resumed, graduated, withdrawn,
+ *     re-enrolled), or for enrollments older than that history, enrollment and
+ *     graduation from program_accounts
+ */
+
+import type {
+    AccountFlag,
+    AgentInteraction,
+    Order,
+    ProgramAccount,
+    ProgramEnrollmentEventRow,
+    SyncedEmail,
+    Task,
+} from "@shared/schema";
+import type { TenantStorage } from "../storage/tenantStorage";
+
+export const TIMELINE_EVENT_TYPES = ["interaction", "email", "task", "order", "flag", "enrollment"] as const;
+export type TimelineEventType = typeof TIMELINE_EVENT_TYPES[number];
+
+export interface TimelineEvent {
+    id: string;                     // "<type>-<source row id>", unique within the feed
+    type: TimelineEventType;
+    occurredAt: Date;
+    title: string;
+    detail: string | null;
+    amount: number | null;
+    meta: Record<string, unknown>;
+}
+
+export interface TimelineSources {
+    interactions: AgentInteraction[];
+    emails: SyncedEmail[];
+    tasks: Task[];
+    orders: Order[];
+    flags: AccountFlag[];
+    programAccounts: ProgramAccount[];
+    enrollmentEvents: ProgramEnrollmentEventRow[];
+}
+
+/**
+ * Position of the last event on the previous page. Events sharing a timestamp
+ * are ordered by id, so the id is needed to resume between them; without one
+ * only strictly older events follow.
+ */
+export interface TimelineCursor {
+    occurredAt: Date;
+    id?: string;
+}
+
+export interface TimelineOptions {
+    types?: TimelineEventType[];
+    before?: TimelineCursor;        // Only events after this one in feed order
+    limit?: number;
+}
+
+const DEFAULT_LIMIT = 100;
+// Per-source cap for the row-limited sources; at least the route's largest page
+const SOURCE_LIMIT = 500;
+
+const INTERACTION_TITLES: Record<string, string> = {
+    email: "Email logged",
+    call: "Call",
+    meeting: "Meeting",
+    note: "Note",
+    rep_note: "Rep note",
+};
+
+function toNumber(value: string | null): number | null {
+    if (value === null) return null;
+    const n = parseFloat(value);
+    return Number.isFinite(n) ? n : null;
+}
+
+// ─── Source → event mapping ───────────────────────────────────────────────────
+
+function interactionEvents(rows: AgentInteraction[]): TimelineEvent[] {
+    return rows.map((i) => ({
+        id: `interaction-${i.id}`,
+        type: "interaction",
+        occurredAt: i.occurredAt,
+        title: i.subject || INTERACTION_TITLES[i.interactionType] || i.interactionType,
+        detail: i.body,
+        amount: null,
+        meta: {
+            interactionId: i.id,
+            interactionType: i.interactionType,
+            direction: i.direction,
+            source: i.source,
+            repEmail: i.repEmail,
+            sentiment: i.sentiment ?? i.sentimentSignal,
+            followUpDate: i.followUpDate,
+        },
+    }));
+}
+
+function emailEvents(rows: SyncedEmail[]): TimelineEvent[] {
+    return rows.filter((e) => e.receivedAt).map((e) => ({
+        id: `email-${e.id}`,
+        type: "email",
+        occurredAt: e.receivedAt!,
+        title: e.subject || "(no subject)",
+        detail: e.aiSummary || e.bodyPreview,
+        amount: null,
+        meta: {
+            emailId: e.id,
+            direction: e.direction,
+            from: e.fromName || e.fromAddress,
+            sentiment: e.aiSentiment,
+        },
+    }));
+}
+
+function taskEvents(rows: Task[]): TimelineEvent[] {
+    return rows.filter((t) => t.status === "completed" && t.completedAt).map((t) => ({
+        id: `task-${t.id}`,
+        type: "task",
+        occurredAt: t.completedAt!,
+        title: `Completed ${t.taskType}: ${t.title}`,
+        detail: t.outcome,
+        amount: null,
+        meta: { taskId: t.id, taskType: t.taskType, playbookId: t.playbookId, assignedTm: t.assignedTm },
+    }));
+}
+
+function orderEvents(rows: Order[]): TimelineEvent[] {
+    return rows.map((o) => ({
+        id: `order-${o.id}`,
+        type: "order",
+        occurredAt: o.orderDate,
+        title: o.externalId ? `Order ${o.externalId}` : "Order",
+        detail: null,
+        amount: toNumber(o.totalAmount),
+        meta: { orderId: o.id, marginAmount: toNumber(o.marginAmount) },
+    }));
+}
+
+function flagEvents(rows: AccountFlag[]): TimelineEvent[] {
+    return rows.filter((f) => f.createdAt).map((f) => ({
+        id: `flag-${f.id}`,
+        type: "flag",
+        occurredAt: f.createdAt!,
+        title: `Flag added: ${f.flagValue}`,
+        detail: f.notes,
+        amount: null,
+        meta: { flagId: f.id, flagType: f.flagType, affectedCategories: f.affectedCategories ?? [] },
+    }));
+}
+
+const ENROLLMENT_EVENT_TITLES: Record<string, string> = {
+    enrolled: "Enrolled in growth program",
+    re_enrolled: "Re-enrolled in growth program",
+    paused: "Program enrollment paused",
+    resumed: "Program enrollment resumed",
+    graduated: "Graduated from growth program",
+    withdrawn: "Withdrawn from growth program",
+};
+
+function enrollmentEvents(programAccounts: ProgramAccount[], history: ProgramEnrollmentEventRow[]): TimelineEvent[] {
+    const byId = new Map(programAccounts.map((pa) => [pa.id, pa]));
+    const withHistory = new Set(history.map((e) => e.programAccountId));
+    const events: TimelineEvent[] = history.map((e) => {
+        const pa = byId.get(e.programAccountId);
+        const amount = e.event === "enrolled" || e.event === "re_enrolled" ? toNumber(pa?.baselineRevenue ?? null)
+            : e.event === "graduated" ? toNumber(pa?.incrementalRevenue ?? null)
+            : null;
+        return {
+            id: `enrollment-event-${e.id}`,
+            type: "enrollment",
+            occurredAt: e.occurredAt,
+            title: ENROLLMENT_EVENT_TITLES[e.event] ?? e.event,
+            detail: e.notes,
+            amount,
+            meta: {
+                programAccountId: e.programAccountId,
+                event: e.event,
+                fromStatus: e.fromStatus,
+                toStatus: e.toStatus,
+                reasonCode: e.reasonCode,
+                actor: e.actor,
+            },
+        };
+    });
+    for (const pa of programAccounts) {
+        if (!withHistory.has(pa.id)) events.push(...legacyEnrollmentEvents(pa));
+    }
+    return events;
+}
+
+/** Enrollments from before program_enrollment_events only have their own dates */
+function legacyEnrollmentEvents(pa: ProgramAccount): TimelineEvent[] {
+    const events: TimelineEvent[] = [{
+        id: `enrollment-${pa.id}`,
+        type: "enrollment",
+        occurredAt: pa.enrolledAt,
+        title: "Enrolled in growth program",
+        detail: pa.notes,
+        amount: toNumber(pa.baselineRevenue),
+        meta: { programAccountId: pa.id, enrolledBy: pa.enrolledBy, shareRate: toNumber(pa.shareRate) },
+    }];
+    if (pa.graduatedAt) {
+        events.push({
+            id: `graduation-${pa.id}`,
+            type: "enrollment",
+            occurredAt: pa.graduatedAt,
+            title: "Graduated from growth program",
+            detail: pa.graduationNotes,
+            amount: toNumber(pa.incrementalRevenue),
+            meta: { programAccountId: pa.id, enrollmentDurationDays: pa.enrollmentDurationDays },
+        });
+    }
+    return events;
+}
+
+// ─── Merge ────────────────────────────────────────────────────────────────────
+
+function compareEvents(a: { occurredAt: Date; id: string }, b: { occurredAt: Date; id: string }): number {
+    return b.occurredAt.getTime() - a.occurredAt.getTime() || a.id.localeCompare(b.id);
+}
+
+function isAfterCursor(event: TimelineEvent, cursor: TimelineCursor): boolean {
+    if (cursor.id === undefined) return event.occurredAt.getTime() < cursor.occurredAt.getTime();
+    return compareEvents(event, { occurredAt: cursor.occurredAt, id: cursor.id }) > 0;
+}
+
+/**
+ * Flattens the per-source rows into one feed, newest first. Ties are broken
+ * by event id so paging with a compound `before` cursor is stable.
+ */
+export function buildAccountTimeline(sources: TimelineSources, options: TimelineOptions = {}): TimelineEvent[] {
+    const types = new Set(options.types?.length ? options.types : TIMELINE_EVENT_TYPES);
+    const before = options.before;
+
+    const events = [
+        ...interactionEvents(sources.interactions),
+        ...emailEvents(sources.emails),
+        ...taskEvents(sources.tasks),
+        ...orderEvents(sources.orders),
+        ...flagEvents(sources.flags),
+        ...enrollmentEvents(sources.programAccounts, sources.enrollmentEvents),
+    ].filter((e) => types.has(e.type) && (before === undefined || isAfterCursor(e, before)));
+
+    events.sort(compareEvents);
+    return events.slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+export async function getAccountTimeline(
+    storage: TenantStorage,
+    accountId: number,
+    options: TimelineOptions = {},
+): Promise<TimelineEvent[]> {
+    // The capped sources start at the cursor, so older pages aren't cut off by
+    // SOURCE_LIMIT; rows sharing the cursor's timestamp are kept for the id tiebreak
+    const until = options.before?.occurredAt;
+    const [interactions, emails, tasks, orders, flags, programAccounts, enrollmentEvents] = await Promise.all([
+        storage.getAgentInteractions(accountId, SOURCE_LIMIT, until),
+        storage.getSyncedEmailsByAccount(accountId, SOURCE_LIMIT, until),
+        storage.getTasksByAccount(accountId),
+        storage.getOrdersByAccount(accountId),
+        storage.getAccountFlags(accountId),
+        storage.getProgramAccountsByAccountId(accountId),
+        storage.getProgramEnrollmentEvents({ accountId }),
+    ]);
+    return buildAccountTimeline({ interactions, emails, tasks, orders, flags, programAccounts, enrollmentEvents }, options);
+}
@@ -0,0 +1,297 @@
+/**
+ * Category Associations — "next best category"
+ *
+ * POST /api/admin/jobs/category-associations/run
+ * (Also rebuilt after every orders, order_items or products upload in data-ingestion.ts
+ *  and weekly in scheduler.ts)
+ *
+ * Mines order_items → products.category_id across a tenant for co-purchase
+ * rules of the form "accounts that buy A also buy B within N days", stores
+ * them in category_association_rules, and turns them into per-account
+ * suggestions (GET /api/accounts/:id, playbook task prompts):
+ *   1. Loads distinct (account, category, order date) purchases for the last 24 months
+ *   2. For every category pair counts the accounts that bought B within
+ *      windowDays on or after buying A
+ *   3. Keeps rules with enough supporting accounts, confidence and lift > 1
+ *   4. Suggests, per account, the categories it does not buy that its current
+ *      categories point to, best rule first
+ *
+ * The mining and suggestion steps are pure (see mineAssociationRules /
+ * recommendNextCategories) so they can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import { categoryAssociationRules, productCategories } from "@shared/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+
+export const DEFAULT_WINDOW_DAYS = 60;
+const LOOKBACK_MONTHS = 24;
+const CURRENT_PURCHASE_MONTHS = 12;   // "already buys" = bought in the trailing 12 months, as in gap analysis
+const INSERT_CHUNK_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface CategoryPurchase {
+    accountId: number;
+    categoryId: number;
+    orderDate: Date;
+}
+
+export interface MiningOptions {
+    windowDays?: number;
+    minPairAccounts?: number;   // Fewer supporting accounts than this is noise
+    minConfidence?: number;
+    minLift?: number;
+}
+
+export interface AssociationRule {
+    antecedentCategoryId: number;
+    consequentCategoryId: number;
+    windowDays: number;
+    antecedentAccounts: number;
+    consequentAccounts: number;
+    pairAccounts: number;
+    totalAccounts: number;
+    support: number;
+    confidence: number;
+    lift: number;
+}
+
+export interface NextBestCategory {
+    categoryId: number;
+    categoryName: string;
+    becauseCategoryId: number;
+    becauseCategoryName: string;
+    windowDays: number;
+    confidence: number;
+    lift: number;
+    support: number;
+    supportingAccounts: number;
+}
+
+const DEFAULT_MINING_OPTIONS: Required<MiningOptions> = {
+    windowDays: DEFAULT_WINDOW_DAYS,
+    minPairAccounts: 3,
+    minConfidence: 0.1,
+    minLift: 1,
+};
+
+// ─── Mining ───────────────────────────────────────────────────────────────────
+
+/** True if some date in `later` falls within [a, a + windowMs] for some a in `earlier`. Both sorted ascending. */
+function followsWithin(earlier: number[], later: number[], windowMs: number): boolean {
+    let j = 0;
+    for (const a of earlier) {
+        while (j < later.length && later[j] < a) j++;
+        if (j === later.length) return false;
+        if (later[j] - a <= windowMs) return true;
+    }
+    return false;
+}
+
+export function mineAssociationRules(purchases: CategoryPurchase[], options: MiningOptions = {}): AssociationRule[] {
+    const opts = { ...DEFAULT_MINING_OPTIONS, ...options };
+    const windowMs = opts.windowDays * DAY_MS;
+
+    // account → category → sorted purchase times
+    const byAccount = new Map<number, Map<number, number[]>>();
+    for (const p of purchases) {
+        let categories = byAccount.get(p.accountId);
+        if (!categories) byAccount.set(p.accountId, categories = new Map());
+        let dates = categories.get(p.categoryId);
+        if (!dates) categories.set(p.categoryId, dates = []);
+        dates.push(p.orderDate.getTime());
+    }
+
+    const totalAccounts = byAccount.size;
+    if (totalAccounts === 0) return [];
+
+    const categoryAccounts = new Map<number, number>();
+    const pairAccounts = new Map<string, number>();
+    for (const categories of Array.from(byAccount.values())) {
+        for (const dates of Array.from(categories.values())) dates.sort((x, y) => x - y);
+        for (const [a, datesA] of Array.from(categories)) {
+            categoryAccounts.set(a, (categoryAccounts.get(a) ?? 0) + 1);
+            for (const [b, datesB] of Array.from(categories)) {
+                if (a === b || !followsWithin(datesA, datesB, windowMs)) continue;
+                const key = `${a}:${b}`;
+                pairAccounts.set(key, (pairAccounts.get(key) ?? 0) + 1);
+            }
+        }
+    }
+
+    const rules: AssociationRule[] = [];
+    for (const [key, pairs] of Array.from(pairAccounts)) {
+        if (pairs < opts.minPairAccounts) continue;
+        const [a, b] = key.split(":").map(Number);
+        const antecedentAccounts = categoryAccounts.get(a)!;
+        const consequentAccounts = categoryAccounts.get(b)!;
+        const confidence = pairs / antecedentAccounts;
+        const lift = confidence / (consequentAccounts / totalAccounts);
+        if (confidence < opts.minConfidence || lift <= opts.minLift) continue;
+        rules.push({
+            antecedentCategoryId: a,
+            consequentCategoryId: b,
+            windowDays: opts.windowDays,
+            antecedentAccounts,
+            consequentAccounts,
+            pairAccounts: pairs,
+            totalAccounts,
+            support: pairs / totalAccounts,
+            confidence,
+            lift,
+        });
+    }
+
+    return rules.sort((x, y) => y.confidence - x.confidence || y.lift - x.lift);
+}
+
+// ─── Suggestions ──────────────────────────────────────────────────────────────
+
+/**
+ * Best rule per category the account does not buy yet, triggered by a
+ * category it does buy. Ordered by confidence, then lift.
+ */
+export function recommendNextCategories(
+    purchasedCategoryIds: Set<number>,
+    rules: AssociationRule[],
+    limit = 5,
+): AssociationRule[] {
+    const best = new Map<number, AssociationRule>();
+    for (const rule of rules) {
+        if (!purchasedCategoryIds.has(rule.antecedentCategoryId)) continue;
+        if (purchasedCategoryIds.has(rule.consequentCategoryId)) continue;
+        const current = best.get(rule.consequentCategoryId);
+        if (!current || rule.confidence > current.confidence || (rule.confidence === current.confidence && rule.lift > current.lift)) {
+            best.set(rule.consequentCategoryId, rule);
+        }
+    }
+    return Array.from(best.values())
+        .sort((x, y) => y.confidence - x.confidence || y.lift - x.lift)
+        .slice(0, limit);
+}
+
+/** One-line explanation of a suggestion, used in playbook task prompts. */
+export function describeNextBestCategory(s: NextBestCategory): string {
+    return `${Math.round(s.confidence * 100)}% of accounts that buy ${s.becauseCategoryName} also buy ${s.categoryName} within ${s.windowDays} days (${s.lift.toFixed(1)}x lift, ${s.supportingAccounts} accounts)`;
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+async function loadPurchases(tenantId: number, since: Date, accountIds?: number[]): Promise<CategoryPurchase[]> {
+    const accountFilter = accountIds
+        ? sql`AND o.account_id IN (${sql.join(accountIds.map(id => sql`${id}`), sql`, `)})`
+        : sql``;
+    const result = await db.execute(sql`
+        SELECT DISTINCT
+            o.account_id AS "accountId",
+            p.category_id AS "categoryId",
+            date_trunc('day', o.order_date) AS "orderDate"
+        FROM orders o
+        JOIN order_items oi ON oi.order_id = o.id AND oi.tenant_id = ${tenantId}
+        JOIN products p ON p.id = oi.product_id AND p.tenant_id = ${tenantId}
+        WHERE o.tenant_id = ${tenantId}
+            AND o.order_date >= ${since}
+            AND p.category_id IS NOT NULL
+            ${accountFilter}
+    `);
+    type Row = { accountId: number; categoryId: number; orderDate: string | Date };
+    return ((result.rows || []) as Row[]).map(r => ({
+        accountId: Number(r.accountId),
+        categoryId: Number(r.categoryId),
+        orderDate: new Date(r.orderDate),
+    }));
+}
+
+function monthsAgo(months: number): Date {
+    const d = new Date();
+    d.setMonth(d.getMonth() - months);
+    return d;
+}
+
+/**
+ * Re-mines the tenant's rules and replaces its category_association_rules rows.
+ */
+export async function rebuildCategoryAssociations(
+    tenantId: number,
+    options: MiningOptions = {},
+): Promise<{ purchases: number; accounts: number; rules: number; durationMs: number }> {
+    const started = Date.now();
+    const purchases = await loadPurchases(tenantId, monthsAgo(LOOKBACK_MONTHS));
+    const rules = mineAssociationRules(purchases, options);
+    const computedAt = new Date();
+
+    await db.transaction(async (tx) => {
+        await tx.delete(categoryAssociationRules).where(eq(categoryAssociationRules.tenantId, tenantId));
+        const rows = rules.map(r => ({
+            ...r,
+            tenantId,
+            support: r.support.toFixed(4),
+            confidence: r.confidence.toFixed(4),
+            lift: r.lift.toFixed(4),
+            computedAt,
+        }));
+        for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+            await tx.insert(categoryAssociationRules).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+        }
+    });
+
+    const accounts = new Set(purchases.map(p => p.accountId)).size;
+    console.log(`[category-associations] Tenant ${tenantId}: ${rules.length} rules from ${accounts} accounts`);
+    return { purchases: purchases.length, accounts, rules: rules.length, durationMs: Date.now() - started };
+}
+
+/**
+ * Next-best-category suggestions for each of `accountIds`, from the stored rules.
+ */
+export async function getNextBestCategories(
+    tenantId: number,
+    accountIds: number[],
+    limit = 5,
+): Promise<Map<number, NextBestCategory[]>> {
+    const result = new Map<number, NextBestCategory[]>(accountIds.map(id => [id, []]));
+    if (accountIds.length === 0) return result;
+
+    const purchases = await loadPurchases(tenantId, monthsAgo(CURRENT_PURCHASE_MONTHS), accountIds);
+    const purchasedByAccount = new Map<number, Set<number>>();
+    for (const p of purchases) {
+        if (!purchasedByAccount.has(p.accountId)) purchasedByAccount.set(p.accountId, new Set());
+        purchasedByAccount.get(p.accountId)!.add(p.categoryId);
+    }
+    const antecedentIds = Array.from(new Set(purchases.map(p => p.categoryId)));
+    if (antecedentIds.length === 0) return result;
+
+    const [ruleRows, categoryRows] = await Promise.all([
+        db.select().from(categoryAssociationRules)
+            .where(and(
+                eq(categoryAssociationRules.tenantId, tenantId),
+                inArray(categoryAssociationRules.antecedentCategoryId, antecedentIds),
+            )),
+        db.select({ id: productCategories.id, name: productCategories.name })
+            .from(productCategories)
+            .where(eq(productCategories.tenantId, tenantId)),
+    ]);
+    const rules: AssociationRule[] = ruleRows.map(r => ({
+        ...r,
+        support: parseFloat(r.support),
+        confidence: parseFloat(r.confidence),
+        lift: parseFloat(r.lift),
+    }));
+    const categoryNames = new Map(categoryRows.map(c => [c.id, c.name]));
+
+    for (const [accountId, purchased] of Array.from(purchasedByAccount)) {
+        result.set(accountId, recommendNextCategories(purchased, rules, limit).map(r => ({
+            categoryId: r.consequentCategoryId,
+            categoryName: categoryNames.get(r.consequentCategoryId) ?? "Unknown",
+            becauseCategoryId: r.antecedentCategoryId,
+            becauseCategoryName: categoryNames.get(r.antecedentCategoryId) ?? "Unknown",
+            windowDays: r.windowDays,
+            confidence: r.confidence,
+            lift: r.lift,
+            support: r.support,
+            supportingAccounts: r.pairAccounts,
+        })));
+    }
+    return result;
+}
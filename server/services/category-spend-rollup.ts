@@ -0,0 +1,234 @@
+/**
+ * Category Spend Rollup
+ *
+ * POST /api/admin/jobs/category-spend/run
+ * (Also run after every CSV upload in data-ingestion.ts, following the metrics
+ *  recompute, and nightly after account-metrics in scheduler.ts)
+ *
+ * Rebuilds agent_account_category_spend for a tenant from orders and
+ * order_items, so assembleAccountContext (playbooks, dossiers, Ask Anything)
+ * sees real per-category data:
+ *   1. Loads monthly spend per account and category for the last 24 complete
+ *      months, plus each category's last order date (including this month)
+ *   2. Potential spend = the matched ICP's expectedPct × the account's
+ *      trailing-12-month revenue (account_metrics.matched_profile_id, so the
+ *      metrics engine must have run first); gap = potential − current
+ *   3. Trend compares the last 6 months with the 6 before: ±20% is growing /
+ *      declining, else stable. A category with no spend in 12 months is a
+ *      new_gap — an ICP category never started, or one the account stopped buying
+ *   4. An ICP category that is a parent in the taxonomy counts spend across its
+ *      whole subtree (see category-taxonomy.ts)
+ *   5. A parent account's rows include its branches' spend, matching its
+ *      family-wide metrics; branches keep their own spend but no potential
+ *
+ * The rollup itself is pure (see rollupAccountCategorySpend) so it can be unit
+ * tested without a database.
+ */
+
+import { db } from "../db";
+import {
+    accountMetrics,
+    agentAccountCategorySpend,
+    profileCategories,
+    type CategorySpendTrend,
+    type MonthlySpendPoint,
+} from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+import { loadAccountLinks, resolveRootAccounts } from "./account-hierarchy";
+import { loadTaxonomy } from "./category-taxonomy";
+import { completeMonths } from "./seasonality";
+
+const LOOKBACK_MONTHS = 24;
+const HISTORY_MONTHS = 12;
+const TREND_WINDOW_MONTHS = 6;
+const TREND_THRESHOLD = 0.2;
+const INSERT_CHUNK_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AccountCategoryInput {
+    accountId: number;
+    revenue12m: number;
+    icpExpectedPct: Map<number, number>;            // categoryId → expected % of spend; empty without an ICP
+    monthlySpend: Map<string, Map<number, number>>; // "YYYY-MM" → categoryId → spend
+    lastOrderDates: Map<number, Date>;              // categoryId → last order
+    coveredCategoryIds?: Map<number, number[]>;     // ICP categoryId → itself + descendants in the taxonomy
+}
+
+export interface CategorySpendRow {
+    accountId: number;
+    categoryId: number;
+    currentSpend: number;
+    potentialSpend: number | null;
+    gapPercentage: number | null;
+    gapDollars: number | null;
+    lastOrderDate: Date | null;
+    daysSinceOrder: number | null;
+    trend: CategorySpendTrend;
+    monthlySpendHistory: MonthlySpendPoint[];
+}
+
+// ─── Rollup ───────────────────────────────────────────────────────────────────
+
+export function classifyCategoryTrend(recent: number, prior: number, currentSpend: number): CategorySpendTrend {
+    if (currentSpend <= 0) return "new_gap";
+    if (prior <= 0) return "growing";
+    if (recent >= prior * (1 + TREND_THRESHOLD)) return "growing";
+    if (recent <= prior * (1 - TREND_THRESHOLD)) return "declining";
+    return "stable";
+}
+
+/**
+ * One row per category the account bought in the last 24 complete months or
+ * that its ICP expects, largest dollar gap first.
+ */
+export function rollupAccountCategorySpend(input: AccountCategoryInput, asOf: Date): CategorySpendRow[] {
+    // asOf's own month is still in progress and would read as a drop in every window
+    const months = completeMonths(asOf, LOOKBACK_MONTHS);
+    const last12 = months.slice(-HISTORY_MONTHS);
+    const recent = months.slice(-TREND_WINDOW_MONTHS);
+    const prior = months.slice(-TREND_WINDOW_MONTHS * 2, -TREND_WINDOW_MONTHS);
+
+    const categoryIds = new Set<number>(input.icpExpectedPct.keys());
+    for (const byCategory of Array.from(input.monthlySpend.values())) {
+        for (const categoryId of Array.from(byCategory.keys())) categoryIds.add(categoryId);
+    }
+
+    const covered = (categoryId: number) =>
+        (input.icpExpectedPct.has(categoryId) && input.coveredCategoryIds?.get(categoryId)) || [categoryId];
+    const spendInMonth = (categoryId: number, month: string) =>
+        covered(categoryId).reduce((sum, id) => sum + (input.monthlySpend.get(month)?.get(id) ?? 0), 0);
+    const spendIn = (categoryId: number, window: string[]) =>
+        window.reduce((sum, m) => sum + spendInMonth(categoryId, m), 0);
+    const round2 = (n: number) => Math.round(n * 100) / 100;
+
+    const rows = Array.from(categoryIds).map((categoryId): CategorySpendRow => {
+        const currentSpend = spendIn(categoryId, last12);
+        const expectedPct = input.icpExpectedPct.get(categoryId);
+        const potentialSpend = expectedPct === undefined ? null : input.revenue12m * expectedPct / 100;
+        const gapDollars = potentialSpend === null ? null : Math.max(0, potentialSpend - currentSpend);
+        const lastOrderDate = covered(categoryId)
+            .map(id => input.lastOrderDates.get(id))
+            .reduce<Date | null>((latest, d) => (d && (!latest || d > latest) ? d : latest), null);
+
+        return {
+            accountId: input.accountId,
+            categoryId,
+            currentSpend: round2(currentSpend),
+            potentialSpend: potentialSpend === null ? null : round2(potentialSpend),
+            gapPercentage: potentialSpend && gapDollars !== null ? round2((gapDollars / potentialSpend) * 100) : null,
+            gapDollars: gapDollars === null ? null : round2(gapDollars),
+            lastOrderDate,
+            daysSinceOrder: lastOrderDate ? Math.max(0, Math.floor((asOf.getTime() - lastOrderDate.getTime()) / DAY_MS)) : null,
+            trend: classifyCategoryTrend(spendIn(categoryId, recent), spendIn(categoryId, prior), currentSpend),
+            monthlySpendHistory: last12.map(month => ({ month, spend: round2(spendInMonth(categoryId, month)) })),
+        };
+    });
+
+    return rows.sort((a, b) => (b.gapDollars ?? -1) - (a.gapDollars ?? -1) || b.currentSpend - a.currentSpend);
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+export async function rollupCategorySpend(
+    tenantId: number,
+    asOf: Date = new Date(),
+): Promise<{ accounts: number; rows: number; durationMs: number }> {
+    const started = Date.now();
+    const from = new Date(`${completeMonths(asOf, LOOKBACK_MONTHS)[0]}-01T00:00:00Z`);
+
+    const [spendResult, metricsRows, icpRows, links, taxonomy] = await Promise.all([
+        db.execute(sql`
+            SELECT
+                o.account_id AS "accountId",
+                p.category_id AS "categoryId",
+                to_char(date_trunc('month', o.order_date), 'YYYY-MM') AS "month",
+                SUM(oi.line_total::numeric)::float AS "spend",
+                MAX(o.order_date) AS "lastOrderDate"
+            FROM orders o
+            JOIN order_items oi ON oi.order_id = o.id AND oi.tenant_id = ${tenantId}
+            JOIN products p ON p.id = oi.product_id AND p.tenant_id = ${tenantId}
+            WHERE o.tenant_id = ${tenantId}
+                AND o.order_date >= ${from}
+                AND o.order_date < ${asOf}
+                AND p.category_id IS NOT NULL
+            GROUP BY o.account_id, p.category_id, date_trunc('month', o.order_date)
+        `),
+        db.select({
+            accountId: accountMetrics.accountId,
+            last12mRevenue: accountMetrics.last12mRevenue,
+            matchedProfileId: accountMetrics.matchedProfileId,
+        }).from(accountMetrics).where(eq(accountMetrics.tenantId, tenantId)),
+        db.select({
+            profileId: profileCategories.profileId,
+            categoryId: profileCategories.categoryId,
+            expectedPct: profileCategories.expectedPct,
+        }).from(profileCategories).where(eq(profileCategories.tenantId, tenantId)),
+        loadAccountLinks(tenantId),
+        loadTaxonomy(tenantId),
+    ]);
+    const rootOf = resolveRootAccounts(links);
+    const isBranch = (accountId: number) => (rootOf.get(accountId) ?? accountId) !== accountId;
+
+    const icpByProfile = new Map<number, Map<number, number>>();
+    const coveredCategoryIds = new Map<number, number[]>();
+    for (const row of icpRows) {
+        if (!icpByProfile.has(row.profileId)) icpByProfile.set(row.profileId, new Map());
+        icpByProfile.get(row.profileId)!.set(row.categoryId, parseFloat(row.expectedPct ?? "0"));
+        coveredCategoryIds.set(row.categoryId, taxonomy.subtree(row.categoryId));
+    }
+
+    const inputs = new Map<number, AccountCategoryInput>();
+    const inputFor = (accountId: number) => {
+        if (!inputs.has(accountId)) {
+            inputs.set(accountId, { accountId, revenue12m: 0, icpExpectedPct: new Map(), monthlySpend: new Map(), lastOrderDates: new Map() });
+        }
+        return inputs.get(accountId)!;
+    };
+    for (const m of metricsRows) {
+        const input = inputFor(m.accountId);
+        input.revenue12m = parseFloat(m.last12mRevenue ?? "0");
+        if (isBranch(m.accountId)) continue;
+        input.icpExpectedPct = (m.matchedProfileId !== null && icpByProfile.get(m.matchedProfileId)) || new Map();
+        input.coveredCategoryIds = coveredCategoryIds;
+    }
+    type SpendRow = { accountId: number; categoryId: number; month: string; spend: number; lastOrderDate: string | Date };
+    for (const row of (spendResult.rows || []) as SpendRow[]) {
+        const accountId = Number(row.accountId);
+        const categoryId = Number(row.categoryId);
+        const lastOrder = new Date(row.lastOrderDate);
+        for (const input of Array.from(new Set([inputFor(accountId), inputFor(rootOf.get(accountId) ?? accountId)]))) {
+            if (!input.monthlySpend.has(row.month)) input.monthlySpend.set(row.month, new Map());
+            const byCategory = input.monthlySpend.get(row.month)!;
+            byCategory.set(categoryId, (byCategory.get(categoryId) ?? 0) + Number(row.spend));
+            const previous = input.lastOrderDates.get(categoryId);
+            if (!previous || lastOrder > previous) input.lastOrderDates.set(categoryId, lastOrder);
+        }
+    }
+
+    const rows = Array.from(inputs.values()).flatMap(input => rollupAccountCategorySpend(input, asOf));
+
+    await db.transaction(async (tx) => {
+        await tx.delete(agentAccountCategorySpend).where(eq(agentAccountCategorySpend.tenantId, tenantId));
+        const values = rows.map(r => ({
+            tenantId,
+            accountId: r.accountId,
+            categoryId: r.categoryId,
+            currentSpend: r.currentSpend.toFixed(2),
+            potentialSpend: r.potentialSpend === null ? null : r.potentialSpend.toFixed(2),
+            gapPercentage: r.gapPercentage === null ? null : r.gapPercentage.toFixed(2),
+            gapDollars: r.gapDollars === null ? null : r.gapDollars.toFixed(2),
+            lastOrderDate: r.lastOrderDate,
+            daysSinceOrder: r.daysSinceOrder,
+            trend: r.trend,
+            monthlySpendHistory: r.monthlySpendHistory,
+        }));
+        for (let i = 0; i < values.length; i += INSERT_CHUNK_SIZE) {
+            await tx.insert(agentAccountCategorySpend).values(values.slice(i, i + INSERT_CHUNK_SIZE));
+        }
+    });
+
+    console.log(`[category-spend] Tenant ${tenantId}: ${rows.length} category rows for ${inputs.size} accounts`);
+    return { accounts: inputs.size, rows: rows.length, durationMs: Date.now() - started };
+}
@@ -0,0 +1,173 @@
+/**
+ * Category Taxonomy
+ *
+ * (Used by the metrics engine, margin benchmarks, the category spend rollup,
+ *  GET /api/accounts/:id/category-gaps/tree and the /api/categories editor)
+ *
+ * product_categories is a tree: parentId comes from the categories CSV or the
+ * Settings tree editor, and the old custom_categories list has been folded in
+ * (migrations/phase2_category_taxonomy.sql). Spend rolls up the tree, so:
+ *   1. An ICP profile category may target a parent category; its actual share
+ *      of wallet counts spend on the category and everything beneath it
+ *   2. Margin benchmarks exist for parent categories too, measured over the
+ *      products of their whole subtree
+ *   3. Gaps can be rolled up to any ancestor or drilled down to the leaves
+ *      (see buildGapTree)
+ * A parent link that points at a missing category or closes a loop is ignored,
+ * so a bad import can't break a recompute; the editor refuses such moves.
+ *
+ * The tree math is pure so it can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import { productCategories } from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface TaxonomyCategory {
+    id: number;
+    name: string;
+    parentId: number | null;
+}
+
+export interface CategoryTaxonomy {
+    has(id: number): boolean;
+    parentOf(id: number): number | null;
+    childrenOf(id: number): number[];
+    /** The category followed by every descendant, depth-first */
+    subtree(id: number): number[];
+    /** Ancestors, nearest first (empty for a top-level category) */
+    ancestors(id: number): number[];
+    depth(id: number): number;
+    /** "Plumbing › Valves › Ball Valves" */
+    path(id: number): string;
+}
+
+/** A gap as stored in account_category_gaps, in numbers */
+export interface CategoryGapAmounts {
+    categoryId: number;
+    gapPct: number;
+    estimatedOpportunity: number;
+    estimatedMarginOpportunity: number | null;
+}
+
+export interface GapTreeNode {
+    categoryId: number;
+    name: string;
+    depth: number;
+    gap: Omit<CategoryGapAmounts, "categoryId"> | null; // null = no ICP target at this level
+    // A directly targeted category's own gap already covers its subtree; otherwise the children's sum
+    rolledUpOpportunity: number;
+    rolledUpMarginOpportunity: number | null;
+    children: GapTreeNode[];
+}
+
+// ─── Tree ─────────────────────────────────────────────────────────────────────
+
+export function buildTaxonomy(categories: TaxonomyCategory[]): CategoryTaxonomy {
+    const byId = new Map(categories.map(c => [c.id, c]));
+    const parent = new Map<number, number | null>();
+    for (const c of categories) {
+        parent.set(c.id, c.parentId !== null && c.parentId !== c.id && byId.has(c.parentId) ? c.parentId : null);
+    }
+
+    // Break loops: the lowest id on a loop becomes a top-level category
+    for (const c of categories) {
+        const chain: number[] = [];
+        let current: number | null = c.id;
+        while (current !== null && !chain.includes(current)) {
+            chain.push(current);
+            current = parent.get(current) ?? null;
+        }
+        if (current !== null) {
+            parent.set(Math.min(...chain.slice(chain.indexOf(current))), null);
+        }
+    }
+
+    const children = new Map<number, number[]>();
+    for (const c of categories) {
+        const p = parent.get(c.id);
+        if (p === null || p === undefined) continue;
+        if (!children.has(p)) children.set(p, []);
+        children.get(p)!.push(c.id);
+    }
+
+    const ancestors = (id: number) => {
+        const result: number[] = [];
+        let current = parent.get(id) ?? null;
+        while (current !== null) {
+            result.push(current);
+            current = parent.get(current) ?? null;
+        }
+        return result;
+    };
+    const subtree = (id: number): number[] => [id, ...(children.get(id) ?? []).flatMap(subtree)];
+
+    return {
+        has: id => byId.has(id),
+        parentOf: id => parent.get(id) ?? null,
+        childrenOf: id => children.get(id) ?? [],
+        subtree: id => (byId.has(id) ? subtree(id) : [id]),
+        ancestors,
+        depth: id => ancestors(id).length,
+        path: id => [...ancestors(id).reverse(), id].map(a => byId.get(a)?.name ?? `Category ${a}`).join(" › "),
+    };
+}
+
+/** True when `parentId` can become the parent of `id` without closing a loop */
+export function canMoveCategory(taxonomy: CategoryTaxonomy, id: number, parentId: number | null): boolean {
+    return parentId === null || !taxonomy.subtree(id).includes(parentId);
+}
+
+/**
+ * Arranges an account's gaps along the taxonomy: every gap category plus its
+ * ancestors, largest rolled-up opportunity first at each level.
+ */
+export function buildGapTree(
+    taxonomy: CategoryTaxonomy,
+    names: Map<number, string>,
+    gaps: CategoryGapAmounts[],
+): GapTreeNode[] {
+    const gapByCategory = new Map(gaps.map(g => [g.categoryId, g]));
+    const included = new Set<number>();
+    for (const g of gaps) {
+        included.add(g.categoryId);
+        taxonomy.ancestors(g.categoryId).forEach(a => included.add(a));
+    }
+
+    const build = (id: number): GapTreeNode => {
+        const children = taxonomy.childrenOf(id).filter(c => included.has(c)).map(build)
+            .sort((a, b) => b.rolledUpOpportunity - a.rolledUpOpportunity);
+        const own = gapByCategory.get(id);
+        const childMargins = children.map(c => c.rolledUpMarginOpportunity).filter((m): m is number => m !== null);
+        return {
+            categoryId: id,
+            name: names.get(id) ?? `Category ${id}`,
+            depth: taxonomy.depth(id),
+            gap: own
+                ? { gapPct: own.gapPct, estimatedOpportunity: own.estimatedOpportunity, estimatedMarginOpportunity: own.estimatedMarginOpportunity }
+                : null,
+            rolledUpOpportunity: own ? own.estimatedOpportunity : children.reduce((sum, c) => sum + c.rolledUpOpportunity, 0),
+            rolledUpMarginOpportunity: own
+                ? own.estimatedMarginOpportunity
+                : childMargins.length === 0 ? null : childMargins.reduce((a, b) => a + b, 0),
+            children,
+        };
+    };
+
+    return Array.from(included)
+        .filter(id => { const p = taxonomy.parentOf(id); return p === null || !included.has(p); })
+        .map(build)
+        .sort((a, b) => b.rolledUpOpportunity - a.rolledUpOpportunity);
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+export async function loadTaxonomy(tenantId: number): Promise<CategoryTaxonomy> {
+    const rows = await db
+        .select({ id: productCategories.id, name: productCategories.name, parentId: productCategories.parentId })
+        .from(productCategories)
+        .where(eq(productCategories.tenantId, tenantId));
+    return buildTaxonomy(rows);
+}
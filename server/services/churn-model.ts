@@ -0,0 +1,539 @@
+/**
+ * Churn Model Service
+ *
+ * POST /api/admin/jobs/churn-model/run
+ * (Also run nightly after account-metrics and seasonality in scheduler.ts)
+ *
+ * Deterministic, per-tenant churn prediction that replaces the LLM's risk call
+ * in the weekly account review:
+ *   1. Builds one training example per account per month from
+ *      account_metrics_snapshots: RFM + Mix scores, days since last order,
+ *      category mix drift (last 6 vs prior 6 months of order_items), and
+ *      competitor mentions / negative email or interaction sentiment in the
+ *      90 days before the snapshot
+ *   2. Labels an example churned when the account's revenue over the next
+ *      3 months fell below a quarter of its trailing-12-month run rate
+ *   3. Fits an L2-regularised logistic regression by full-batch gradient
+ *      descent from zero (same data → same model). Too little history keeps
+ *      DEFAULT_CHURN_MODEL; features with no variance keep its weights
+ *   4. Scores every active account on its current snapshot, stores the
+ *      probability, risk level and top contributing factors in
+ *      account_churn_scores, and fires notifyAtRisk for accounts that newly
+ *      reach high or critical risk
+ *
+ * Training and scoring are pure (see trainChurnModel / scoreChurn) so they can
+ * be unit tested without a database.
+ */
+
+import { db } from "../db";
+import {
+    accounts,
+    accountMetricsSnapshots,
+    accountChurnScores,
+    agentInteractions,
+    churnModels,
+    competitorMentions,
+    syncedEmails,
+    CHURN_FEATURES,
+    type ChurnDriver,
+    type ChurnFeature,
+    type ChurnModelCoefficient,
+    type ChurnRiskLevel,
+} from "@shared/schema";
+import { and, desc, eq, gte, isNotNull, or, sql } from "drizzle-orm";
+import { notifyAtRisk } from "../notify-webhook";
+
+export const HORIZON_MONTHS = 3;
+const HISTORY_MONTHS = 36;
+const CHURN_REVENUE_RATIO = 0.25;   // Next-3-month revenue below 25% of the 12-month run rate = churned
+const SIGNAL_WINDOW_DAYS = 90;
+const MAX_DAYS_SINCE_ORDER = 365;
+const MAX_SIGNAL_COUNT = 10;
+const MIN_TRAINING_EXAMPLES = 50;
+const MIN_CLASS_EXAMPLES = 5;       // Of each of churned / retained
+const MAX_DRIVERS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TRAINING_ITERATIONS = 500;
+const LEARNING_RATE = 0.5;
+const L2_PENALTY = 0.01;
+
+// Probability thresholds, highest first
+const RISK_THRESHOLDS: [minProbability: number, level: ChurnRiskLevel][] = [
+    [0.75, "critical"], [0.5, "high"], [0.25, "medium"], [0, "low"],
+];
+export const AT_RISK_LEVELS: ChurnRiskLevel[] = ["high", "critical"];
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ChurnFeatures = Record<ChurnFeature, number>;
+
+export interface ChurnExample {
+    features: ChurnFeatures;
+    churned: boolean;
+}
+
+export interface ChurnModelParams {
+    source: "trained" | "default";
+    intercept: number;
+    coefficients: ChurnModelCoefficient[];
+    trainingExamples: number;
+    positiveExamples: number;
+    trainingAuc: number | null;
+}
+
+export interface ChurnScore {
+    probability: number;
+    riskLevel: ChurnRiskLevel;
+    drivers: ChurnDriver[];
+}
+
+export interface ChurnSnapshot {
+    accountId: number;
+    month: string; // "YYYY-MM"
+    recencyScore: number;
+    frequencyScore: number;
+    monetaryScore: number;
+    mixScore: number;
+    daysSinceLastOrder: number | null;
+    last12mRevenue: number;
+    last3mRevenue: number;
+}
+
+export interface AccountSignals {
+    competitorMentions: Date[];
+    negativeSentiment: Date[];
+}
+
+/** accountId → "YYYY-MM" → categoryId → spend */
+export type CategorySpendByMonth = Map<number, Map<string, Map<number, number>>>;
+
+/**
+ * Prior used when a tenant has too little history to train on, on the scales
+ * the metrics engine produces: low RFM scores, long silences, a shifting
+ * category mix and negative signals all raise risk.
+ */
+export const DEFAULT_CHURN_MODEL: ChurnModelParams = {
+    source: "default",
+    intercept: -1.5,
+    coefficients: [
+        { feature: "recencyScore", mean: 50, std: 30, weight: -0.6 },
+        { feature: "frequencyScore", mean: 40, std: 30, weight: -0.4 },
+        { feature: "monetaryScore", mean: 40, std: 30, weight: -0.3 },
+        { feature: "mixScore", mean: 40, std: 25, weight: -0.2 },
+        { feature: "daysSinceLastOrder", mean: 45, std: 60, weight: 0.8 },
+        { feature: "categoryMixDrift", mean: 0.2, std: 0.15, weight: 0.4 },
+        { feature: "competitorMentions90d", mean: 0.3, std: 1, weight: 0.5 },
+        { feature: "negativeSentiment90d", mean: 0.3, std: 1, weight: 0.5 },
+    ],
+    trainingExamples: 0,
+    positiveExamples: 0,
+    trainingAuc: null,
+};
+
+// ─── Features ─────────────────────────────────────────────────────────────────
+
+export function shiftMonth(month: string, delta: number): string {
+    const [year, m] = month.split("-").map(Number);
+    return new Date(Date.UTC(year, m - 1 + delta, 1)).toISOString().slice(0, 7);
+}
+
+/**
+ * Total variation distance between the category spend shares of two windows:
+ * 0 = identical mix, 1 = no category in common. 0 when either window is empty.
+ */
+export function categoryMixDrift(recent: Map<number, number>, prior: Map<number, number>): number {
+    const total = (m: Map<number, number>) => Array.from(m.values()).reduce((a, b) => a + b, 0);
+    const recentTotal = total(recent);
+    const priorTotal = total(prior);
+    if (recentTotal <= 0 || priorTotal <= 0) return 0;
+
+    const categories = new Set([...Array.from(recent.keys()), ...Array.from(prior.keys())]);
+    let distance = 0;
+    for (const c of Array.from(categories)) {
+        distance += Math.abs((recent.get(c) ?? 0) / recentTotal - (prior.get(c) ?? 0) / priorTotal);
+    }
+    return distance / 2;
+}
+
+function windowSpend(byMonth: Map<string, Map<number, number>> | undefined, lastMonth: string, months: number): Map<number, number> {
+    const spend = new Map<number, number>();
+    if (!byMonth) return spend;
+    for (let i = 0; i < months; i++) {
+        for (const [categoryId, amount] of Array.from(byMonth.get(shiftMonth(lastMonth, -i)) ?? [])) {
+            spend.set(categoryId, (spend.get(categoryId) ?? 0) + amount);
+        }
+    }
+    return spend;
+}
+
+function countInWindow(dates: Date[], asOf: Date): number {
+    const from = asOf.getTime() - SIGNAL_WINDOW_DAYS * DAY_MS;
+    return Math.min(MAX_SIGNAL_COUNT, dates.filter(d => d.getTime() >= from && d.getTime() < asOf.getTime()).length);
+}
+
+export function buildChurnFeatures(
+    snapshot: ChurnSnapshot,
+    categorySpend: Map<string, Map<number, number>> | undefined,
+    signals: AccountSignals | undefined,
+    asOf: Date,
+): ChurnFeatures {
+    return {
+        recencyScore: snapshot.recencyScore,
+        frequencyScore: snapshot.frequencyScore,
+        monetaryScore: snapshot.monetaryScore,
+        mixScore: snapshot.mixScore,
+        daysSinceLastOrder: Math.min(MAX_DAYS_SINCE_ORDER, snapshot.daysSinceLastOrder ?? MAX_DAYS_SINCE_ORDER),
+        categoryMixDrift: categoryMixDrift(
+            windowSpend(categorySpend, snapshot.month, 6),
+            windowSpend(categorySpend, shiftMonth(snapshot.month, -6), 6),
+        ),
+        competitorMentions90d: countInWindow(signals?.competitorMentions ?? [], asOf),
+        negativeSentiment90d: countInWindow(signals?.negativeSentiment ?? [], asOf),
+    };
+}
+
+/** Revenue over the following months collapsed below a quarter of the trailing run rate. */
+export function isChurned(current: ChurnSnapshot, future: ChurnSnapshot): boolean {
+    const expected = (current.last12mRevenue / 12) * HORIZON_MONTHS;
+    return future.last3mRevenue < expected * CHURN_REVENUE_RATIO;
+}
+
+/**
+ * One example per account-month that was buying (revenue in the trailing 12
+ * months) and whose outcome window has fully elapsed before `currentMonth`.
+ */
+export function buildTrainingExamples(
+    snapshots: ChurnSnapshot[],
+    categorySpend: CategorySpendByMonth,
+    signals: Map<number, AccountSignals>,
+    currentMonth: string,
+): ChurnExample[] {
+    const byAccount = new Map<number, Map<string, ChurnSnapshot>>();
+    for (const s of snapshots) {
+        if (!byAccount.has(s.accountId)) byAccount.set(s.accountId, new Map());
+        byAccount.get(s.accountId)!.set(s.month, s);
+    }
+
+    const examples: ChurnExample[] = [];
+    for (const [accountId, months] of Array.from(byAccount)) {
+        for (const snapshot of Array.from(months.values())) {
+            if (snapshot.last12mRevenue <= 0) continue;
+            const outcomeMonth = shiftMonth(snapshot.month, HORIZON_MONTHS);
+            if (outcomeMonth >= currentMonth) continue;
+            const future = months.get(outcomeMonth);
+            if (!future) continue;
+            // Completed months are evaluated as of the first instant of the following month, as in the metrics engine
+            const asOf = new Date(`${shiftMonth(snapshot.month, 1)}-01T00:00:00Z`);
+            examples.push({
+                features: buildChurnFeatures(snapshot, categorySpend.get(accountId), signals.get(accountId), asOf),
+                churned: isChurned(snapshot, future),
+            });
+        }
+    }
+    return examples;
+}
+
+// ─── Training ─────────────────────────────────────────────────────────────────
+
+function sigmoid(z: number): number {
+    return 1 / (1 + Math.exp(-z));
+}
+
+/** Area under the ROC curve (Mann-Whitney, tied scores share their average rank). Null with only one class. */
+export function rocAuc(scores: number[], labels: boolean[]): number | null {
+    const positives = labels.filter(Boolean).length;
+    const negatives = labels.length - positives;
+    if (positives === 0 || negatives === 0) return null;
+
+    const order = scores.map((score, i) => ({ score, positive: labels[i] })).sort((a, b) => a.score - b.score);
+    let positiveRankSum = 0;
+    for (let i = 0; i < order.length;) {
+        let j = i;
+        while (j < order.length && order[j].score === order[i].score) j++;
+        const averageRank = (i + 1 + j) / 2;
+        for (let k = i; k < j; k++) if (order[k].positive) positiveRankSum += averageRank;
+        i = j;
+    }
+    return (positiveRankSum - positives * (positives + 1) / 2) / (positives * negatives);
+}
+
+export function trainChurnModel(examples: ChurnExample[]): ChurnModelParams {
+    const positives = examples.filter(e => e.churned).length;
+    const negatives = examples.length - positives;
+    if (examples.length < MIN_TRAINING_EXAMPLES || positives < MIN_CLASS_EXAMPLES || negatives < MIN_CLASS_EXAMPLES) {
+        return { ...DEFAULT_CHURN_MODEL, trainingExamples: examples.length, positiveExamples: positives };
+    }
+
+    // Standardise; a feature without variance keeps the default model's scale and weight
+    const defaults = new Map(DEFAULT_CHURN_MODEL.coefficients.map(c => [c.feature, c]));
+    const scales = CHURN_FEATURES.map(feature => {
+        const values = examples.map(e => e.features[feature]);
+        const mean = values.reduce((a, b) => a + b, 0) / values.length;
+        const std = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+        return std > 1e-9 ? { feature, mean, std, fixed: false } : { ...defaults.get(feature)!, fixed: true };
+    });
+    const x = examples.map(e => scales.map(s => (e.features[s.feature] - s.mean) / s.std));
+    const y = examples.map(e => (e.churned ? 1 : 0));
+
+    const weights = scales.map(s => (s.fixed ? defaults.get(s.feature)!.weight : 0));
+    let intercept = 0;
+    const n = examples.length;
+    for (let iter = 0; iter < TRAINING_ITERATIONS; iter++) {
+        const gradient = weights.map(() => 0);
+        let interceptGradient = 0;
+        for (let i = 0; i < n; i++) {
+            let z = intercept;
+            for (let j = 0; j < weights.length; j++) z += weights[j] * x[i][j];
+            const error = sigmoid(z) - y[i];
+            interceptGradient += error;
+            for (let j = 0; j < weights.length; j++) gradient[j] += error * x[i][j];
+        }
+        intercept -= LEARNING_RATE * interceptGradient / n;
+        for (let j = 0; j < weights.length; j++) {
+            if (scales[j].fixed) continue;
+            weights[j] -= LEARNING_RATE * (gradient[j] / n + L2_PENALTY * weights[j]);
+        }
+    }
+
+    const model: ChurnModelParams = {
+        source: "trained",
+        intercept,
+        coefficients: scales.map((s, j) => ({ feature: s.feature, mean: s.mean, std: s.std, weight: weights[j] })),
+        trainingExamples: n,
+        positiveExamples: positives,
+        trainingAuc: null,
+    };
+    model.trainingAuc = rocAuc(examples.map(e => scoreChurn(model, e.features).probability), examples.map(e => e.churned));
+    return model;
+}
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+export function riskLevelFor(probability: number): ChurnRiskLevel {
+    return RISK_THRESHOLDS.find(([min]) => probability >= min)![1];
+}
+
+export function describeChurnDriver(feature: ChurnFeature, value: number): string {
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+    switch (feature) {
+        case "recencyScore": return `Recency score ${Math.round(value)}/100`;
+        case "frequencyScore": return `Order frequency score ${Math.round(value)}/100`;
+        case "monetaryScore": return `Spend score ${Math.round(value)}/100`;
+        case "mixScore": return `Category mix score ${Math.round(value)}/100`;
+        case "daysSinceLastOrder": return `No order in ${Math.round(value)} days`;
+        case "categoryMixDrift": return `Category mix shifted ${Math.round(value * 100)}% vs the prior 6 months`;
+        case "competitorMentions90d": return `${plural(value, "competitor mention")} in the last 90 days`;
+        case "negativeSentiment90d": return `${plural(value, "negative email or interaction")} in the last 90 days`;
+    }
+}
+
+/**
+ * Churn probability with the factors that pushed it up the most. A factor's
+ * contribution is its weight times its standardised value, in log-odds.
+ */
+export function scoreChurn(model: Pick<ChurnModelParams, "intercept" | "coefficients">, features: ChurnFeatures): ChurnScore {
+    let z = model.intercept;
+    const contributions: ChurnDriver[] = [];
+    for (const c of model.coefficients) {
+        const value = features[c.feature];
+        const contribution = c.weight * (value - c.mean) / c.std;
+        z += contribution;
+        contributions.push({ feature: c.feature, label: describeChurnDriver(c.feature, value), value, contribution });
+    }
+    const probability = sigmoid(z);
+    return {
+        probability,
+        riskLevel: riskLevelFor(probability),
+        drivers: contributions
+            .filter(d => d.contribution > 0)
+            .sort((a, b) => b.contribution - a.contribution)
+            .slice(0, MAX_DRIVERS)
+            .map(d => ({ ...d, contribution: Math.round(d.contribution * 1000) / 1000 })),
+    };
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+async function loadSnapshots(tenantId: number, from: Date): Promise<ChurnSnapshot[]> {
+    const rows = await db.select().from(accountMetricsSnapshots)
+        .where(and(eq(accountMetricsSnapshots.tenantId, tenantId), gte(accountMetricsSnapshots.snapshotMonth, from)));
+    const num = (v: string | null) => (v === null ? 0 : parseFloat(v) || 0);
+    return rows.map(r => ({
+        accountId: r.accountId,
+        month: r.snapshotMonth.toISOString().slice(0, 7),
+        recencyScore: num(r.recencyScore),
+        frequencyScore: num(r.frequencyScore),
+        monetaryScore: num(r.monetaryScore),
+        mixScore: num(r.mixScore),
+        daysSinceLastOrder: r.daysSinceLastOrder,
+        last12mRevenue: num(r.last12mRevenue),
+        last3mRevenue: num(r.last3mRevenue),
+    }));
+}
+
+async function loadCategorySpend(tenantId: number, from: Date): Promise<CategorySpendByMonth> {
+    const result = await db.execute(sql`
+        SELECT
+            o.account_id AS "accountId",
+            to_char(date_trunc('month', o.order_date), 'YYYY-MM') AS "month",
+            p.category_id AS "categoryId",
+            SUM(oi.line_total::numeric)::float AS "spend"
+        FROM orders o
+        JOIN order_items oi ON oi.order_id = o.id AND oi.tenant_id = ${tenantId}
+        JOIN products p ON p.id = oi.product_id AND p.tenant_id = ${tenantId}
+        WHERE o.tenant_id = ${tenantId}
+            AND o.order_date >= ${from}
+            AND p.category_id IS NOT NULL
+        GROUP BY o.account_id, date_trunc('month', o.order_date), p.category_id
+    `);
+    type Row = { accountId: number; month: string; categoryId: number; spend: number };
+    const spend: CategorySpendByMonth = new Map();
+    for (const row of (result.rows || []) as Row[]) {
+        if (!spend.has(row.accountId)) spend.set(row.accountId, new Map());
+        const byMonth = spend.get(row.accountId)!;
+        if (!byMonth.has(row.month)) byMonth.set(row.month, new Map());
+        byMonth.get(row.month)!.set(Number(row.categoryId), Number(row.spend));
+    }
+    return spend;
+}
+
+async function loadSignals(tenantId: number, from: Date): Promise<Map<number, AccountSignals>> {
+    const [mentionRows, emailRows, interactionRows] = await Promise.all([
+        db.select({ accountId: competitorMentions.accountId, at: competitorMentions.createdAt })
+            .from(competitorMentions)
+            .where(and(eq(competitorMentions.tenantId, tenantId), isNotNull(competitorMentions.accountId), gte(competitorMentions.createdAt, from))),
+        db.select({ accountId: syncedEmails.linkedAccountId, at: syncedEmails.receivedAt })
+            .from(syncedEmails)
+            .where(and(
+                eq(syncedEmails.tenantId, tenantId),
+                isNotNull(syncedEmails.linkedAccountId),
+                eq(syncedEmails.aiSentiment, "negative"),
+                gte(syncedEmails.receivedAt, from),
+            )),
+        db.select({ accountId: agentInteractions.accountId, at: agentInteractions.occurredAt })
+            .from(agentInteractions)
+            .where(and(
+                eq(agentInteractions.tenantId, tenantId),
+                or(eq(agentInteractions.sentiment, "negative"), eq(agentInteractions.sentimentSignal, "negative")),
+                gte(agentInteractions.occurredAt, from),
+            )),
+    ]);
+
+    const signals = new Map<number, AccountSignals>();
+    const get = (accountId: number) => {
+        if (!signals.has(accountId)) signals.set(accountId, { competitorMentions: [], negativeSentiment: [] });
+        return signals.get(accountId)!;
+    };
+    for (const r of mentionRows) if (r.accountId !== null && r.at) get(r.accountId).competitorMentions.push(r.at);
+    for (const r of emailRows) if (r.accountId !== null && r.at) get(r.accountId).negativeSentiment.push(r.at);
+    for (const r of interactionRows) get(r.accountId).negativeSentiment.push(r.at);
+    return signals;
+}
+
+/** The tenant's most recently trained model, if any. */
+export async function getLatestChurnModel(tenantId: number) {
+    const [model] = await db.select().from(churnModels)
+        .where(eq(churnModels.tenantId, tenantId))
+        .orderBy(desc(churnModels.trainedAt), desc(churnModels.id))
+        .limit(1);
+    return model;
+}
+
+/**
+ * Retrains the tenant's model, rescores its active accounts and notifies the
+ * CRM webhook about accounts that newly crossed into high or critical risk.
+ */
+export async function runChurnModel(tenantId: number, now: Date = new Date()): Promise<{
+    modelId: number;
+    source: ChurnModelParams["source"];
+    trainingExamples: number;
+    positiveExamples: number;
+    trainingAuc: number | null;
+    scored: number;
+    atRisk: number;
+    notified: number;
+    durationMs: number;
+}> {
+    const started = Date.now();
+    const currentMonth = now.toISOString().slice(0, 7);
+    const historyFrom = new Date(`${shiftMonth(currentMonth, -HISTORY_MONTHS)}-01T00:00:00Z`);
+    const spendFrom = new Date(`${shiftMonth(currentMonth, -HISTORY_MONTHS - 12)}-01T00:00:00Z`);
+
+    const [snapshots, categorySpend, signals, accountRows, previousScores] = await Promise.all([
+        loadSnapshots(tenantId, historyFrom),
+        loadCategorySpend(tenantId, spendFrom),
+        loadSignals(tenantId, new Date(historyFrom.getTime() - SIGNAL_WINDOW_DAYS * DAY_MS)),
+        db.select({ id: accounts.id, name: accounts.name, assignedTm: accounts.assignedTm })
+            .from(accounts)
+            .where(eq(accounts.tenantId, tenantId)),
+        db.select({ accountId: accountChurnScores.accountId, riskLevel: accountChurnScores.riskLevel })
+            .from(accountChurnScores)
+            .where(eq(accountChurnScores.tenantId, tenantId)),
+    ]);
+
+    const model = trainChurnModel(buildTrainingExamples(snapshots, categorySpend, signals, currentMonth));
+
+    const scores = snapshots
+        .filter(s => s.month === currentMonth && s.last12mRevenue > 0)
+        .map(s => {
+            const features = buildChurnFeatures(s, categorySpend.get(s.accountId), signals.get(s.accountId), now);
+            return { accountId: s.accountId, features, ...scoreChurn(model, features) };
+        });
+
+    const modelId = await db.transaction(async (tx) => {
+        const [saved] = await tx.insert(churnModels).values({
+            tenantId,
+            source: model.source,
+            intercept: model.intercept.toFixed(6),
+            coefficients: model.coefficients,
+            horizonMonths: HORIZON_MONTHS,
+            trainingExamples: model.trainingExamples,
+            positiveExamples: model.positiveExamples,
+            trainingAuc: model.trainingAuc === null ? null : model.trainingAuc.toFixed(4),
+            trainedAt: now,
+        }).returning({ id: churnModels.id });
+
+        await tx.delete(accountChurnScores).where(eq(accountChurnScores.tenantId, tenantId));
+        if (scores.length > 0) {
+            await tx.insert(accountChurnScores).values(scores.map(s => ({
+                tenantId,
+                accountId: s.accountId,
+                modelId: saved.id,
+                probability: s.probability.toFixed(4),
+                riskLevel: s.riskLevel,
+                drivers: s.drivers,
+                features: s.features,
+                scoredAt: now,
+            })));
+        }
+        return saved.id;
+    });
+
+    // Only transitions into high/critical notify, so a still-at-risk account is not re-sent nightly
+    const previousLevels = new Map(previousScores.map(p => [p.accountId, p.riskLevel as ChurnRiskLevel]));
+    const accountById = new Map(accountRows.map(a => [a.id, a]));
+    let notified = 0;
+    for (const s of scores) {
+        const previous = previousLevels.get(s.accountId);
+        if (!AT_RISK_LEVELS.includes(s.riskLevel) || (previous && AT_RISK_LEVELS.includes(previous))) continue;
+        const account = accountById.get(s.accountId);
+        if (!account) continue;
+        await notifyAtRisk(tenantId, account.id, account.name, account.assignedTm ?? "", s.drivers.map(d => d.label), s.riskLevel);
+        notified++;
+    }
+
+    const atRisk = scores.filter(s => AT_RISK_LEVELS.includes(s.riskLevel)).length;
+    console.log(`[churn-model] Tenant ${tenantId}: ${model.source} model on ${model.trainingExamples} examples (${model.positiveExamples} churned, AUC ${model.trainingAuc?.toFixed(3) ?? "n/a"}), ${scores.length} scored, ${atRisk} at risk, ${notified} notified`);
+    return {
+        modelId,
+        source: model.source,
+        trainingExamples: model.trainingExamples,
+        positiveExamples: model.positiveExamples,
+        trainingAuc: model.trainingAuc,
+        scored: scores.length,
+        atRisk,
+        notified,
+        durationMs: Date.now() - started,
+    };
+}
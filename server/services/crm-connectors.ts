@@ -0,0 +1,557 @@
+/**
+ * CRM Connectors — native Salesforce / HubSpot delivery for the CRM sync queue
+ *
+ * Used by processCrmSyncQueue when agent_organization_settings.crm_provider is
+ * salesforce or hubspot. Each queued payload is mapped onto the provider's own
+ * objects instead of being POSTed as raw JSON:
+ *
+ *   enrollment  → status field on the account + Note
+ *   graduation  → status field on the account + Note
+ *   at_risk     → status + risk-signal fields + open high-priority Task
+ *   outcome     → last-outcome field + completed Task
+ *
+ * Which account fields are written comes from crm_connections.field_mapping
+ * (merged over DEFAULT_FIELD_MAPPINGS). The same connectors list accounts,
+ * contacts and opportunities for the inbound pull (crm-sync-pull.ts).
+ *
+ * Connectors only talk HTTP to the connection's instanceUrl with a bearer
+ * token, so tests can point them at a local mock server.
+ */
+
+import type { CrmConnection, CrmFieldMapping, CrmProvider } from "@shared/schema";
+import type { CrmPayload } from "./crm-sync-push";
+
+// ─── Connector interface ──────────────────────────────────────────────────────
+
+export interface CrmTaskInput {
+    subject: string;
+    body: string;
+    dueDate: string; // YYYY-MM-DD
+    priority: "high" | "normal";
+    completed: boolean;
+}
+
+export interface CrmAccountRecord {
+    crmId: string;
+    matchValue: string | null; // Value of fieldMapping.accountMatchField, compared to accounts.externalId
+    name: string;
+    segment: string | null;
+    region: string | null;
+}
+
+export interface CrmContactRecord {
+    crmId: string;
+    crmAccountId: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    phone: string | null;
+    title: string | null;
+}
+
+export interface CrmOpportunityRecord {
+    crmId: string;
+    crmAccountId: string | null;
+    name: string;
+    amount: number | null;
+    status: "open" | "won" | "lost";
+    closeDate: string | null; // YYYY-MM-DD
+}
+
+export interface CrmConnector {
+    readonly provider: CrmProvider;
+    /** Resolves accounts.externalId to the CRM's record ID, or null when no record matches */
+    findAccount(externalId: string): Promise<string | null>;
+    updateAccount(crmAccountId: string, fields: Record<string, string>): Promise<void>;
+    createNote(crmAccountId: string, title: string, body: string): Promise<string>;
+    createTask(crmAccountId: string, task: CrmTaskInput): Promise<string>;
+    listAccounts(): Promise<CrmAccountRecord[]>;
+    listContacts(modifiedSince: Date | null): Promise<CrmContactRecord[]>;
+    /** Open opportunities, plus any closed after modifiedSince so existing projects can be closed out */
+    listOpportunities(modifiedSince: Date | null): Promise<CrmOpportunityRecord[]>;
+}
+
+export interface CrmConnectorOptions {
+    instanceUrl: string;
+    getAccessToken: () => Promise<string>;
+    fieldMapping: CrmFieldMapping;
+}
+
+// ─── Field mapping defaults ───────────────────────────────────────────────────
+
+export const DEFAULT_FIELD_MAPPINGS: Record<CrmProvider, CrmFieldMapping> = {
+    salesforce: {
+        accountMatchField: "Id",
+        enrollmentStatusField: "Wallet_Share_Status__c",
+        riskSignalsField: "Wallet_Share_Risk_Signals__c",
+        lastOutcomeField: "Wallet_Share_Last_Outcome__c",
+    },
+    hubspot: {
+        accountMatchField: "hs_object_id",
+        enrollmentStatusField: "wallet_share_status",
+        riskSignalsField: "wallet_share_risk_signals",
+        lastOutcomeField: "wallet_share_last_outcome",
+    },
+};
+
+export function resolveFieldMapping(provider: CrmProvider, overrides: Partial<CrmFieldMapping> | null | undefined): CrmFieldMapping {
+    return { ...DEFAULT_FIELD_MAPPINGS[provider], ...(overrides ?? {}) };
+}
+
+// ─── Payload → native actions ─────────────────────────────────────────────────
+
+export interface CrmActionPlan {
+    fields: Record<string, string>;
+    note: { title: string; body: string } | null;
+    task: CrmTaskInput | null;
+}
+
+function addDays(iso: string, days: number): string {
+    const date = new Date(iso);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Provider-neutral description of what a payload should change in the CRM.
+ * Connectors translate the plan into their own objects.
+ */
+export function planCrmActions(payload: CrmPayload, mapping: CrmFieldMapping): CrmActionPlan {
+    const fields: Record<string, string> = {};
+    const setField = (field: string | null, value: string) => {
+        if (field) fields[field] = value;
+    };
+
+    switch (payload.event) {
+        case "enrollment":
+            setField(mapping.enrollmentStatusField, payload.enrollment_status);
+            return {
+                fields,
+                note: {
+                    title: "Enrolled in wallet share program",
+                    body: [
+                        `${payload.account_name} was enrolled in the wallet share expansion program.`,
+                        payload.segment ? `Segment: ${payload.segment}` : null,
+                        `Territory manager: ${payload.assigned_tm ?? "Unassigned"}`,
+                    ].filter(Boolean).join("\n"),
+                },
+                task: null,
+            };
+
+        case "graduation":
+            setField(mapping.enrollmentStatusField, "graduated");
+            return {
+                fields,
+                note: {
+                    title: "Graduated from wallet share program",
+                    body: `${payload.account_name} graduated.\nReason: ${payload.graduation_reason}`,
+                },
+                task: null,
+            };
+
+        case "at_risk":
+            setField(mapping.enrollmentStatusField, "at_risk");
+            setField(mapping.riskSignalsField, payload.risk_signals.join("; "));
+            return {
+                fields,
+                note: null,
+                task: {
+                    subject: `At-risk follow-up: ${payload.account_name}`,
+                    body: ["Risk signals:", ...payload.risk_signals.map(s => `- ${s}`)].join("\n"),
+                    dueDate: addDays(payload.timestamp, 2),
+                    priority: "high",
+                    completed: false,
+                },
+            };
+
+        case "outcome":
+            setField(mapping.lastOutcomeField, payload.outcome);
+            return {
+                fields,
+                note: null,
+                task: {
+                    subject: `Playbook outcome: ${payload.action_taken}`,
+                    body: [
+                        `Outcome: ${payload.outcome}`,
+                        `Revenue impact: ${payload.revenue_impact ?? "n/a"}`,
+                        `Playbook #${payload.playbook_id}`,
+                    ].join("\n"),
+                    dueDate: payload.timestamp.slice(0, 10),
+                    priority: "normal",
+                    completed: true,
+                },
+            };
+    }
+}
+
+/**
+ * Applies a queued payload through a connector.
+ * @returns The CRM account ID the payload was written to
+ */
+export async function pushCrmPayload(
+    connector: CrmConnector,
+    mapping: CrmFieldMapping,
+    externalId: string,
+    payload: CrmPayload,
+): Promise<string> {
+    const crmAccountId = await connector.findAccount(externalId);
+    if (!crmAccountId) {
+        throw new Error(`No ${connector.provider} account matches ${mapping.accountMatchField} = ${externalId}`);
+    }
+
+    const plan = planCrmActions(payload, mapping);
+    if (Object.keys(plan.fields).length > 0) {
+        await connector.updateAccount(crmAccountId, plan.fields);
+    }
+    if (plan.note) {
+        await connector.createNote(crmAccountId, plan.note.title, plan.note.body);
+    }
+    if (plan.task) {
+        await connector.createTask(crmAccountId, plan.task);
+    }
+    return crmAccountId;
+}
+
+// ─── HTTP helper ──────────────────────────────────────────────────────────────
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function assertFieldName(field: string): void {
+    if (!FIELD_NAME_PATTERN.test(field)) {
+        throw new Error(`Invalid CRM field name: ${field}`);
+    }
+}
+
+async function crmRequest<T>(
+    options: CrmConnectorOptions,
+    method: string,
+    path: string,
+    body?: unknown,
+): Promise<T | null> {
+    const token = await options.getAccessToken();
+    const response = await fetch(`${options.instanceUrl.replace(/\/$/, "")}${path}`, {
+        method,
+        headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+            Accept: "application/json",
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        throw new Error(`${method} ${path} responded with ${response.status}: ${await response.text()}`);
+    }
+    if (response.status === 204) return null;
+    const text = await response.text();
+    return text ? (JSON.parse(text) as T) : null;
+}
+
+// Upper bound per object and pull so a misconfigured org cannot exhaust memory
+const MAX_PULL_RECORDS = 50000;
+
+// ─── Salesforce ───────────────────────────────────────────────────────────────
+
+export const SALESFORCE_API_VERSION = "v59.0";
+
+type SalesforceRecord = Record<string, unknown>;
+
+// Query results are untyped JSON; fields are read through these rather than trusted
+
+function sfString(record: SalesforceRecord, field: string): string | null {
+    const value = record[field];
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "boolean") return String(value);
+    return null;
+}
+
+function sfNumber(record: SalesforceRecord, field: string): number | null {
+    const value = record[field];
+    return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/** Every queried record carries its Id; anything else is skipped */
+function withSalesforceId(record: SalesforceRecord): record is SalesforceRecord & { Id: string } {
+    return typeof record.Id === "string" && record.Id !== "";
+}
+
+async function salesforceQueryAll(options: CrmConnectorOptions, soql: string): Promise<SalesforceRecord[]> {
+    const records: SalesforceRecord[] = [];
+    let path: string | null = `/services/data/${SALESFORCE_API_VERSION}/query?q=${encodeURIComponent(soql)}`;
+    while (path && records.length < MAX_PULL_RECORDS) {
+        const page: { records: SalesforceRecord[]; done: boolean; nextRecordsUrl?: string } | null =
+            await crmRequest(options, "GET", path);
+        if (!page) break;
+        records.push(...page.records);
+        path = page.done ? null : page.nextRecordsUrl ?? null;
+    }
+    return records;
+}
+
+function soqlDateTime(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+export function createSalesforceConnector(options: CrmConnectorOptions): CrmConnector {
+    const base = `/services/data/${SALESFORCE_API_VERSION}`;
+    const matchField = options.fieldMapping.accountMatchField;
+    assertFieldName(matchField);
+
+    return {
+        provider: "salesforce",
+
+        async findAccount(externalId) {
+            if (matchField === "Id") return externalId;
+            const escaped = externalId.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+            const soql = `SELECT Id FROM Account WHERE ${matchField} = '${escaped}' LIMIT 1`;
+            const result = await crmRequest<{ records: { Id: string }[] }>(
+                options, "GET", `${base}/query?q=${encodeURIComponent(soql)}`,
+            );
+            return result?.records[0]?.Id ?? null;
+        },
+
+        async updateAccount(crmAccountId, fields) {
+            Object.keys(fields).forEach(assertFieldName);
+            await crmRequest(options, "PATCH", `${base}/sobjects/Account/${encodeURIComponent(crmAccountId)}`, fields);
+        },
+
+        async createNote(crmAccountId, title, body) {
+            const created = await crmRequest<{ id: string }>(options, "POST", `${base}/sobjects/Note`, {
+                ParentId: crmAccountId,
+                Title: title,
+                Body: body,
+            });
+            return created!.id;
+        },
+
+        async createTask(crmAccountId, task) {
+            const created = await crmRequest<{ id: string }>(options, "POST", `${base}/sobjects/Task`, {
+                WhatId: crmAccountId,
+                Subject: task.subject,
+                Description: task.body,
+                ActivityDate: task.dueDate,
+                Priority: task.priority === "high" ? "High" : "Normal",
+                Status: task.completed ? "Completed" : "Not Started",
+            });
+            return created!.id;
+        },
+
+        async listAccounts() {
+            const fields = ["Id", "Name", "Industry", "BillingState"];
+            if (!fields.includes(matchField)) fields.push(matchField);
+            const records = await salesforceQueryAll(options, `SELECT ${fields.join(", ")} FROM Account`);
+            return records.filter(withSalesforceId).map(r => ({
+                crmId: r.Id,
+                matchValue: sfString(r, matchField),
+                name: sfString(r, "Name") ?? `Salesforce account ${r.Id}`,
+                segment: sfString(r, "Industry"),
+                region: sfString(r, "BillingState"),
+            }));
+        },
+
+        async listContacts(modifiedSince) {
+            const since = modifiedSince ? ` AND LastModifiedDate > ${soqlDateTime(modifiedSince)}` : "";
+            const records = await salesforceQueryAll(
+                options,
+                `SELECT Id, AccountId, FirstName, LastName, Email, Phone, Title FROM Contact WHERE AccountId != null${since}`,
+            );
+            return records.filter(withSalesforceId).map(r => ({
+                crmId: r.Id,
+                crmAccountId: sfString(r, "AccountId"),
+                firstName: sfString(r, "FirstName"),
+                lastName: sfString(r, "LastName"),
+                email: sfString(r, "Email"),
+                phone: sfString(r, "Phone"),
+                title: sfString(r, "Title"),
+            }));
+        },
+
+        async listOpportunities(modifiedSince) {
+            const where = modifiedSince
+                ? `IsClosed = false OR LastModifiedDate > ${soqlDateTime(modifiedSince)}`
+                : "IsClosed = false";
+            const records = await salesforceQueryAll(
+                options,
+                `SELECT Id, AccountId, Name, Amount, IsClosed, IsWon, CloseDate FROM Opportunity WHERE ${where}`,
+            );
+            return records.filter(withSalesforceId).map(r => ({
+                crmId: r.Id,
+                crmAccountId: sfString(r, "AccountId"),
+                name: sfString(r, "Name") ?? `Salesforce opportunity ${r.Id}`,
+                amount: sfNumber(r, "Amount"),
+                status: r.IsClosed !== true ? "open" as const : r.IsWon === true ? "won" as const : "lost" as const,
+                closeDate: sfString(r, "CloseDate")?.slice(0, 10) ?? null,
+            }));
+        },
+    };
+}
+
+// ─── HubSpot ──────────────────────────────────────────────────────────────────
+
+// HubSpot-defined association type IDs (engagement → company)
+const HUBSPOT_NOTE_TO_COMPANY = 190;
+const HUBSPOT_TASK_TO_COMPANY = 192;
+
+function hubspotAssociation(companyId: string, associationTypeId: number) {
+    return [{
+        to: { id: companyId },
+        types: [{ associationCategory: "HUBSPOT_DEFINED", associationTypeId }],
+    }];
+}
+
+interface HubSpotObject {
+    id: string;
+    properties: Record<string, string | null>;
+    updatedAt?: string;
+    associations?: { companies?: { results: { id: string }[] } };
+}
+
+async function hubspotListAll(
+    options: CrmConnectorOptions,
+    objectType: string,
+    properties: string[],
+    withCompanies: boolean,
+): Promise<HubSpotObject[]> {
+    const results: HubSpotObject[] = [];
+    let after: string | undefined;
+    do {
+        const params = new URLSearchParams({ limit: "100", properties: properties.join(",") });
+        if (withCompanies) params.set("associations", "companies");
+        if (after) params.set("after", after);
+        const page: { results: HubSpotObject[]; paging?: { next?: { after: string } } } | null =
+            await crmRequest(options, "GET", `/crm/v3/objects/${objectType}?${params.toString()}`);
+        if (!page) break;
+        results.push(...page.results);
+        after = page.paging?.next?.after;
+    } while (after && results.length < MAX_PULL_RECORDS);
+    return results;
+}
+
+function modifiedAfter(obj: HubSpotObject, since: Date | null): boolean {
+    return !since || !obj.updatedAt || new Date(obj.updatedAt) > since;
+}
+
+export function createHubSpotConnector(options: CrmConnectorOptions): CrmConnector {
+    const matchField = options.fieldMapping.accountMatchField;
+    assertFieldName(matchField);
+
+    return {
+        provider: "hubspot",
+
+        async findAccount(externalId) {
+            if (matchField === "hs_object_id") return externalId;
+            const result = await crmRequest<{ results: { id: string }[] }>(
+                options, "POST", "/crm/v3/objects/companies/search", {
+                    filterGroups: [{ filters: [{ propertyName: matchField, operator: "EQ", value: externalId }] }],
+                    properties: ["hs_object_id"],
+                    limit: 1,
+                },
+            );
+            return result?.results[0]?.id ?? null;
+        },
+
+        async updateAccount(crmAccountId, fields) {
+            Object.keys(fields).forEach(assertFieldName);
+            await crmRequest(options, "PATCH", `/crm/v3/objects/companies/${encodeURIComponent(crmAccountId)}`, {
+                properties: fields,
+            });
+        },
+
+        async createNote(crmAccountId, title, body) {
+            const created = await crmRequest<{ id: string }>(options, "POST", "/crm/v3/objects/notes", {
+                properties: {
+                    hs_timestamp: new Date().toISOString(),
+                    hs_note_body: `<strong>${title}</strong><br>${body.replace(/\n/g, "<br>")}`,
+                },
+                associations: hubspotAssociation(crmAccountId, HUBSPOT_NOTE_TO_COMPANY),
+            });
+            return created!.id;
+        },
+
+        async listAccounts() {
+            const properties = ["name", "industry", "state"];
+            if (matchField !== "hs_object_id") properties.push(matchField);
+            const companies = await hubspotListAll(options, "companies", properties, false);
+            return companies.map(c => ({
+                crmId: c.id,
+                matchValue: matchField === "hs_object_id" ? c.id : c.properties[matchField] ?? null,
+                name: c.properties.name ?? `HubSpot company ${c.id}`,
+                segment: c.properties.industry ?? null,
+                region: c.properties.state ?? null,
+            }));
+        },
+
+        async listContacts(modifiedSince) {
+            const contacts = await hubspotListAll(
+                options, "contacts", ["firstname", "lastname", "email", "phone", "jobtitle"], true,
+            );
+            return contacts
+                .filter(c => modifiedAfter(c, modifiedSince))
+                .map(c => ({
+                    crmId: c.id,
+                    crmAccountId: c.associations?.companies?.results[0]?.id ?? null,
+                    firstName: c.properties.firstname ?? null,
+                    lastName: c.properties.lastname ?? null,
+                    email: c.properties.email ?? null,
+                    phone: c.properties.phone ?? null,
+                    title: c.properties.jobtitle ?? null,
+                }));
+        },
+
+        async listOpportunities(modifiedSince) {
+            const deals = await hubspotListAll(
+                options, "deals", ["dealname", "amount", "closedate", "hs_is_closed", "hs_is_closed_won"], true,
+            );
+            return deals
+                .map(d => {
+                    const status = d.properties.hs_is_closed_won === "true" ? "won" as const
+                        : d.properties.hs_is_closed === "true" ? "lost" as const
+                        : "open" as const;
+                    return { deal: d, status };
+                })
+                .filter(({ deal, status }) => status === "open" || (modifiedSince && modifiedAfter(deal, modifiedSince)))
+                .map(({ deal, status }) => ({
+                    crmId: deal.id,
+                    crmAccountId: deal.associations?.companies?.results[0]?.id ?? null,
+                    name: deal.properties.dealname ?? `HubSpot deal ${deal.id}`,
+                    amount: deal.properties.amount ? parseFloat(deal.properties.amount) : null,
+                    status,
+                    closeDate: deal.properties.closedate?.slice(0, 10) ?? null,
+                }));
+        },
+
+        async createTask(crmAccountId, task) {
+            const created = await crmRequest<{ id: string }>(options, "POST", "/crm/v3/objects/tasks", {
+                properties: {
+                    hs_timestamp: new Date(`${task.dueDate}T00:00:00Z`).toISOString(),
+                    hs_task_subject: task.subject,
+                    hs_task_body: task.body,
+                    hs_task_priority: task.priority === "high" ? "HIGH" : "MEDIUM",
+                    hs_task_status: task.completed ? "COMPLETED" : "NOT_STARTED",
+                },
+                associations: hubspotAssociation(crmAccountId, HUBSPOT_TASK_TO_COMPANY),
+            });
+            return created!.id;
+        },
+    };
+}
+
+// ─── Factory ──────────────────────────────────────────────────────────────────
+
+export function createCrmConnector(
+    connection: Pick<CrmConnection, "provider" | "instanceUrl" | "fieldMapping">,
+    getAccessToken: () => Promise<string>,
+): { connector: CrmConnector; fieldMapping: CrmFieldMapping } {
+    const provider = connection.provider as CrmProvider;
+    const fieldMapping = resolveFieldMapping(provider, connection.fieldMapping);
+    const options = { instanceUrl: connection.instanceUrl, getAccessToken, fieldMapping };
+
+    switch (provider) {
+        case "salesforce":
+            return { connector: createSalesforceConnector(options), fieldMapping };
+        case "hubspot":
+            return { connector: createHubSpotConnector(options), fieldMapping };
+        default:
+            throw new Error(`Unsupported CRM provider: ${connection.provider}`);
+    }
+}
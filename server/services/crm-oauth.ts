@@ -0,0 +1,375 @@
+import crypto from "crypto";
+import { db } from "../db";
+import {
+  crmConnections,
+  agentOrganizationSettings,
+  type CrmConnection,
+  type CrmFieldMapping,
+  type CrmProvider,
+  type CrmSourceOfTruth,
+  type InsertCrmConnection,
+} from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+
+// Sandbox orgs authenticate against test.salesforce.com
+const SALESFORCE_LOGIN_URL = process.env.SALESFORCE_LOGIN_URL || "https://login.salesforce.com";
+const HUBSPOT_AUTH_URL = "https://app.hubspot.com/oauth/authorize";
+const HUBSPOT_API_URL = process.env.HUBSPOT_API_URL || "https://api.hubapi.com";
+
+// Salesforce omits expires_in; sessions default to a 2 hour timeout
+const SALESFORCE_SESSION_SECONDS = 2 * 60 * 60;
+
+function getBaseUrl(): string {
+  return process.env.BASE_URL || `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`;
+}
+
+// How long an admin has to finish the provider's consent screen
+export const CRM_OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface CrmOAuthState {
+  tenantId: number;
+  userId: string;
+}
+
+function crmOAuthStateSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error("SESSION_SECRET not configured");
+  return secret;
+}
+
+function signCrmOAuthState(payload: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * OAuth `state` for /api/auth/:provider/start: the tenant and admin starting
+ * the flow, the provider and an expiry, HMAC-signed so the unauthenticated
+ * callback can trust it. Format: <base64url JSON>.<base64url HMAC-SHA256>
+ */
+export function createCrmOAuthState(
+  provider: CrmProvider,
+  state: CrmOAuthState,
+  now: number = Date.now(),
+  secret: string = crmOAuthStateSecret(),
+): string {
+  const payload = Buffer.from(JSON.stringify({
+    ...state,
+    provider,
+    exp: now + CRM_OAUTH_STATE_TTL_MS,
+    nonce: crypto.randomBytes(12).toString("base64url"),
+  })).toString("base64url");
+  return `${payload}.${signCrmOAuthState(payload, secret)}`;
+}
+
+/** The signed tenant and user, or null for a forged, expired or other-provider state */
+export function verifyCrmOAuthState(
+  provider: CrmProvider,
+  state: string,
+  now: number = Date.now(),
+  secret: string = crmOAuthStateSecret(),
+): CrmOAuthState | null {
+  const [payload, signature, extra] = state.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(signCrmOAuthState(payload, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return null;
+  }
+  if (typeof data !== "object" || data === null) return null;
+  const { tenantId, userId, provider: signedProvider, exp } = data as Record<string, unknown>;
+  if (signedProvider !== provider || typeof exp !== "number" || exp < now) return null;
+  if (typeof tenantId !== "number" || typeof userId !== "string") return null;
+  return { tenantId, userId };
+}
+
+export interface CrmTokenResult {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresIn: number;
+  instanceUrl: string;
+  externalOrgId: string | null;
+}
+
+export function getSalesforceAuthUrl(state: string): string {
+  const clientId = process.env.SALESFORCE_CLIENT_ID;
+  if (!clientId) throw new Error("SALESFORCE_CLIENT_ID not configured");
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    response_type: "code",
+    redirect_uri: `${getBaseUrl()}/api/auth/salesforce/callback`,
+    scope: "api refresh_token",
+    state,
+    prompt: "consent",
+  });
+
+  return `${SALESFORCE_LOGIN_URL}/services/oauth2/authorize?${params.toString()}`;
+}
+
+export function getHubSpotAuthUrl(state: string): string {
+  const clientId = process.env.HUBSPOT_CLIENT_ID;
+  if (!clientId) throw new Error("HUBSPOT_CLIENT_ID not configured");
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: `${getBaseUrl()}/api/auth/hubspot/callback`,
+    scope: "oauth crm.objects.companies.read crm.objects.companies.write crm.objects.contacts.read crm.objects.deals.read",
+    state,
+  });
+
+  return `${HUBSPOT_AUTH_URL}?${params.toString()}`;
+}
+
+export async function exchangeSalesforceCode(code: string): Promise<CrmTokenResult> {
+  const tokenRes = await fetch(`${SALESFORCE_LOGIN_URL}/services/oauth2/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: process.env.SALESFORCE_CLIENT_ID!,
+      client_secret: process.env.SALESFORCE_CLIENT_SECRET!,
+      code,
+      redirect_uri: `${getBaseUrl()}/api/auth/salesforce/callback`,
+      grant_type: "authorization_code",
+    }),
+  });
+
+  if (!tokenRes.ok) {
+    const errorBody = await tokenRes.text();
+    throw new Error(`Salesforce token exchange failed: ${errorBody}`);
+  }
+
+  const tokens = await tokenRes.json();
+  // Identity URL: https://login.salesforce.com/id/<orgId>/<userId>
+  const orgId = typeof tokens.id === "string" ? tokens.id.split("/").slice(-2)[0] : null;
+
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token ?? null,
+    expiresIn: SALESFORCE_SESSION_SECONDS,
+    instanceUrl: tokens.instance_url,
+    externalOrgId: orgId,
+  };
+}
+
+export async function exchangeHubSpotCode(code: string): Promise<CrmTokenResult> {
+  const tokenRes = await fetch(`${HUBSPOT_API_URL}/oauth/v1/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: process.env.HUBSPOT_CLIENT_ID!,
+      client_secret: process.env.HUBSPOT_CLIENT_SECRET!,
+      code,
+      redirect_uri: `${getBaseUrl()}/api/auth/hubspot/callback`,
+      grant_type: "authorization_code",
+    }),
+  });
+
+  if (!tokenRes.ok) {
+    const errorBody = await tokenRes.text();
+    throw new Error(`HubSpot token exchange failed: ${errorBody}`);
+  }
+
+  const tokens = await tokenRes.json();
+
+  const infoRes = await fetch(`${HUBSPOT_API_URL}/oauth/v1/access-tokens/${tokens.access_token}`);
+  const info = infoRes.ok ? await infoRes.json() : null;
+
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token ?? null,
+    expiresIn: tokens.expires_in,
+    instanceUrl: HUBSPOT_API_URL,
+    externalOrgId: info?.hub_id ? String(info.hub_id) : null,
+  };
+}
+
+async function refreshCrmToken(connection: CrmConnection): Promise<{ accessToken: string; expiresIn: number }> {
+  const isSalesforce = connection.provider === "salesforce";
+  const tokenUrl = isSalesforce
+    ? `${SALESFORCE_LOGIN_URL}/services/oauth2/token`
+    : `${HUBSPOT_API_URL}/oauth/v1/token`;
+
+  const tokenRes = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: (isSalesforce ? process.env.SALESFORCE_CLIENT_ID : process.env.HUBSPOT_CLIENT_ID)!,
+      client_secret: (isSalesforce ? process.env.SALESFORCE_CLIENT_SECRET : process.env.HUBSPOT_CLIENT_SECRET)!,
+      refresh_token: connection.refreshToken!,
+      grant_type: "refresh_token",
+    }),
+  });
+
+  if (!tokenRes.ok) throw new Error(`${connection.provider} token refresh failed`);
+  const tokens = await tokenRes.json();
+  const expiresIn = tokens.expires_in ?? SALESFORCE_SESSION_SECONDS;
+
+  await db.update(crmConnections)
+    .set({
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token || connection.refreshToken,
+      instanceUrl: tokens.instance_url || connection.instanceUrl,
+      tokenExpiresAt: new Date(Date.now() + expiresIn * 1000),
+      status: "connected",
+      updatedAt: new Date(),
+    })
+    .where(eq(crmConnections.id, connection.id));
+
+  return { accessToken: tokens.access_token, expiresIn };
+}
+
+export async function getValidCrmAccessToken(connection: CrmConnection): Promise<string> {
+  if (connection.tokenExpiresAt && new Date(connection.tokenExpiresAt) > new Date(Date.now() + 60000)) {
+    return connection.accessToken;
+  }
+
+  if (!connection.refreshToken) {
+    await db.update(crmConnections)
+      .set({ status: "expired", updatedAt: new Date() })
+      .where(eq(crmConnections.id, connection.id));
+    throw new Error("Token expired and no refresh token available");
+  }
+
+  try {
+    const result = await refreshCrmToken(connection);
+    connection.accessToken = result.accessToken;
+    connection.tokenExpiresAt = new Date(Date.now() + result.expiresIn * 1000);
+    return result.accessToken;
+  } catch (err) {
+    await db.update(crmConnections)
+      .set({ status: "expired", syncError: String(err), updatedAt: new Date() })
+      .where(eq(crmConnections.id, connection.id));
+    throw err;
+  }
+}
+
+/**
+ * Stores (or re-authorizes) a tenant's connection for a provider and makes it
+ * the tenant's active CRM. An existing field mapping is kept on re-connect.
+ */
+export async function saveCrmConnection(data: InsertCrmConnection): Promise<CrmConnection> {
+  const [existing] = await db.select()
+    .from(crmConnections)
+    .where(and(
+      eq(crmConnections.tenantId, data.tenantId),
+      eq(crmConnections.provider, data.provider),
+    ))
+    .limit(1);
+
+  let connection: CrmConnection;
+  if (existing) {
+    [connection] = await db.update(crmConnections)
+      .set({
+        instanceUrl: data.instanceUrl,
+        externalOrgId: data.externalOrgId,
+        connectedBy: data.connectedBy,
+        accessToken: data.accessToken,
+        refreshToken: data.refreshToken,
+        tokenExpiresAt: data.tokenExpiresAt,
+        status: "connected",
+        syncError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(crmConnections.id, existing.id))
+      .returning();
+  } else {
+    [connection] = await db.insert(crmConnections).values(data).returning();
+  }
+
+  const [settings] = await db.select()
+    .from(agentOrganizationSettings)
+    .where(eq(agentOrganizationSettings.tenantId, data.tenantId))
+    .limit(1);
+  if (settings) {
+    await db.update(agentOrganizationSettings)
+      .set({ crmProvider: data.provider, updatedAt: new Date() })
+      .where(eq(agentOrganizationSettings.id, settings.id));
+  } else {
+    await db.insert(agentOrganizationSettings).values({ tenantId: data.tenantId, crmProvider: data.provider });
+  }
+
+  return connection;
+}
+
+export async function getCrmConnections(tenantId: number): Promise<CrmConnection[]> {
+  return db.select()
+    .from(crmConnections)
+    .where(eq(crmConnections.tenantId, tenantId));
+}
+
+export async function getCrmConnection(id: number, tenantId: number): Promise<CrmConnection | undefined> {
+  const [connection] = await db.select()
+    .from(crmConnections)
+    .where(and(
+      eq(crmConnections.id, id),
+      eq(crmConnections.tenantId, tenantId),
+    ))
+    .limit(1);
+  return connection;
+}
+
+export async function getActiveCrmConnection(tenantId: number, provider: CrmProvider): Promise<CrmConnection | undefined> {
+  const [connection] = await db.select()
+    .from(crmConnections)
+    .where(and(
+      eq(crmConnections.tenantId, tenantId),
+      eq(crmConnections.provider, provider),
+      eq(crmConnections.status, "connected"),
+    ))
+    .limit(1);
+  return connection;
+}
+
+export async function updateCrmFieldMapping(id: number, tenantId: number, fieldMapping: CrmFieldMapping): Promise<CrmConnection | undefined> {
+  const [updated] = await db.update(crmConnections)
+    .set({ fieldMapping, updatedAt: new Date() })
+    .where(and(
+      eq(crmConnections.id, id),
+      eq(crmConnections.tenantId, tenantId),
+    ))
+    .returning();
+  return updated;
+}
+
+export async function updateCrmSourceOfTruth(id: number, tenantId: number, sourceOfTruth: CrmSourceOfTruth): Promise<CrmConnection | undefined> {
+  const [updated] = await db.update(crmConnections)
+    .set({ sourceOfTruth, updatedAt: new Date() })
+    .where(and(
+      eq(crmConnections.id, id),
+      eq(crmConnections.tenantId, tenantId),
+    ))
+    .returning();
+  return updated;
+}
+
+export async function updateCrmCreateUnmatchedAccounts(id: number, tenantId: number, createUnmatchedAccounts: boolean): Promise<CrmConnection | undefined> {
+  const [updated] = await db.update(crmConnections)
+    .set({ createUnmatchedAccounts, updatedAt: new Date() })
+    .where(and(
+      eq(crmConnections.id, id),
+      eq(crmConnections.tenantId, tenantId),
+    ))
+    .returning();
+  return updated;
+}
+
+export async function recordCrmSyncResult(id: number, error: string | null): Promise<void> {
+  await db.update(crmConnections)
+    .set({ lastSyncAt: new Date(), syncError: error, updatedAt: new Date() })
+    .where(eq(crmConnections.id, id));
+}
+
+export async function disconnectCrmConnection(id: number, tenantId: number): Promise<void> {
+  await db.update(crmConnections)
+    .set({ status: "disconnected", accessToken: "", refreshToken: null, updatedAt: new Date() })
+    .where(and(
+      eq(crmConnections.id, id),
+      eq(crmConnections.tenantId, tenantId),
+    ));
+}
@@ -0,0 +1,312 @@
+/**
+ * CRM Sync Pull Service
+ *
+ * POST /api/crm/sync-pull
+ *
+ * Imports accounts, contacts and open opportunities from the tenant's connected
+ * CRM (Salesforce / HubSpot, via crm-connectors.ts):
+ *   - CRM accounts match local accounts on accounts.external_id, i.e. the value
+ *     of the connection's accountMatchField. Unmatched CRM accounts are only
+ *     counted (with a sample for review) unless the connection opted into
+ *     create_unmatched_accounts; a CRM usually holds far more accounts than
+ *     the tenant sells to, and each created row would flow into scoring
+ *   - Contacts on matched accounts upsert into contacts with source "crm_import",
+ *     matched on external_id first and then on email
+ *   - Opportunities become projects (open → bidding, won → awarded, lost → lost);
+ *     only open opportunities create new rows
+ *
+ * When a pulled value differs from a non-empty local value, the connection's
+ * per-field source_of_truth decides which side wins (defaults below).
+ *
+ * Called on:
+ *   - Scheduler, every 6 hours
+ *   - Manual trigger from Settings → Integrations
+ */
+
+import { db } from "../db";
+import {
+    accounts,
+    contacts,
+    projects,
+    crmConnections,
+    agentOrganizationSettings,
+    CRM_PROVIDERS,
+    type CrmProvider,
+    type CrmSourceOfTruth,
+    type CrmSyncField,
+} from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { createCrmConnector, type CrmOpportunityRecord } from "./crm-connectors";
+import { getActiveCrmConnection, getValidCrmAccessToken } from "./crm-oauth";
+
+// ─── Conflict resolution ──────────────────────────────────────────────────────
+
+// Segments drive ICP matching and are usually curated in-app; everything else follows the CRM
+export const DEFAULT_SOURCE_OF_TRUTH: Record<CrmSyncField, "crm" | "app"> = {
+    "account.name": "crm",
+    "account.segment": "app",
+    "account.region": "crm",
+    "contact.firstName": "crm",
+    "contact.lastName": "crm",
+    "contact.email": "crm",
+    "contact.phone": "crm",
+    "contact.title": "crm",
+    "project.name": "crm",
+    "project.estimatedValue": "crm",
+    "project.stage": "crm",
+    "project.bidDeadline": "crm",
+};
+
+type SyncEntity = "account" | "contact" | "project";
+type FieldValue = string | number | Date | null | undefined;
+
+function isEmpty(value: FieldValue): boolean {
+    return value === null || value === undefined || value === "";
+}
+
+function sameValue(a: FieldValue, b: FieldValue): boolean {
+    if (a instanceof Date || b instanceof Date) {
+        return new Date(a as string | number | Date).getTime() === new Date(b as string | number | Date).getTime();
+    }
+    const numA = Number(a);
+    const numB = Number(b);
+    if (a !== "" && b !== "" && Number.isFinite(numA) && Number.isFinite(numB)) {
+        return numA === numB;
+    }
+    return String(a).trim() === String(b).trim();
+}
+
+/**
+ * Picks which pulled values to write onto a local row.
+ * Empty pulled values never overwrite; empty local values are always filled;
+ * otherwise the field's source of truth decides.
+ * @param current - The local row, or null when the record is new
+ * @returns The subset of `incoming` to write
+ */
+export function resolveConflicts<T extends Record<string, FieldValue>>(
+    entity: SyncEntity,
+    current: Partial<Record<keyof T, FieldValue>> | null,
+    incoming: T,
+    sourceOfTruth: CrmSourceOfTruth,
+): Partial<T> {
+    const updates: Partial<T> = {};
+    for (const key of Object.keys(incoming) as (keyof T & string)[]) {
+        const value = incoming[key];
+        if (isEmpty(value)) continue;
+        if (!current) {
+            updates[key] = value;
+            continue;
+        }
+        const existing = current[key];
+        if (!isEmpty(existing) && sameValue(existing, value)) continue;
+        const owner = sourceOfTruth[`${entity}.${key}` as CrmSyncField] ?? "crm";
+        if (isEmpty(existing) || owner === "crm") {
+            updates[key] = value;
+        }
+    }
+    return updates;
+}
+
+const OPPORTUNITY_STAGES: Record<CrmOpportunityRecord["status"], string> = {
+    open: "bidding",
+    won: "awarded",
+    lost: "lost",
+};
+
+// ─── Pull ─────────────────────────────────────────────────────────────────────
+
+const UNMATCHED_SAMPLE_SIZE = 20;
+
+export interface CrmUnmatchedAccount {
+    crmId: string;
+    name: string;
+    matchValue: string;
+}
+
+export interface CrmPullResult {
+    provider: CrmProvider;
+    accounts: { created: number; updated: number; unmatched: number; unmatchedSample: CrmUnmatchedAccount[] };
+    contacts: { created: number; updated: number; skipped: number };
+    projects: { created: number; updated: number; skipped: number };
+}
+
+export async function runCrmPull(tenantId: number): Promise<CrmPullResult | null> {
+    const [settings] = await db.select().from(agentOrganizationSettings)
+        .where(eq(agentOrganizationSettings.tenantId, tenantId));
+    const provider = settings?.crmProvider;
+    if (!provider || !(CRM_PROVIDERS as readonly string[]).includes(provider)) {
+        console.log(`[crm-pull] No CRM provider configured for tenant ${tenantId}`);
+        return null;
+    }
+
+    const connection = await getActiveCrmConnection(tenantId, provider as CrmProvider);
+    if (!connection) {
+        console.log(`[crm-pull] No connected ${provider} account for tenant ${tenantId}`);
+        return null;
+    }
+
+    const { connector } = createCrmConnector(connection, () => getValidCrmAccessToken(connection));
+    const rules: CrmSourceOfTruth = { ...DEFAULT_SOURCE_OF_TRUTH, ...(connection.sourceOfTruth ?? {}) };
+    const startedAt = new Date();
+    const result: CrmPullResult = {
+        provider: provider as CrmProvider,
+        accounts: { created: 0, updated: 0, unmatched: 0, unmatchedSample: [] },
+        contacts: { created: 0, updated: 0, skipped: 0 },
+        projects: { created: 0, updated: 0, skipped: 0 },
+    };
+
+    try {
+        // ── Accounts ────────────────────────────────────────────────────────
+        const crmAccounts = await connector.listAccounts();
+        const localAccounts = await db.select({
+            id: accounts.id,
+            externalId: accounts.externalId,
+            name: accounts.name,
+            segment: accounts.segment,
+            region: accounts.region,
+        }).from(accounts).where(eq(accounts.tenantId, tenantId));
+        const accountsByExternalId = new Map(
+            localAccounts.filter(a => a.externalId).map(a => [a.externalId!, a]),
+        );
+
+        // CRM record ID → local account ID, used to attach contacts and opportunities
+        const accountIdByCrmId = new Map<string, number>();
+        for (const crmAccount of crmAccounts) {
+            if (!crmAccount.matchValue) continue;
+            const incoming = { name: crmAccount.name, segment: crmAccount.segment, region: crmAccount.region };
+            const existing = accountsByExternalId.get(crmAccount.matchValue);
+
+            if (existing) {
+                const updates = resolveConflicts("account", existing, incoming, rules);
+                if (Object.keys(updates).length > 0) {
+                    await db.update(accounts).set(updates).where(eq(accounts.id, existing.id));
+                    result.accounts.updated++;
+                }
+                accountIdByCrmId.set(crmAccount.crmId, existing.id);
+            } else if (!connection.createUnmatchedAccounts) {
+                // Contacts and opportunities on this account are skipped below
+                result.accounts.unmatched++;
+                if (result.accounts.unmatchedSample.length < UNMATCHED_SAMPLE_SIZE) {
+                    result.accounts.unmatchedSample.push({
+                        crmId: crmAccount.crmId,
+                        name: crmAccount.name,
+                        matchValue: crmAccount.matchValue,
+                    });
+                }
+            } else {
+                const [created] = await db.insert(accounts).values({
+                    ...incoming,
+                    tenantId,
+                    externalId: crmAccount.matchValue,
+                    status: "active",
+                }).returning({ id: accounts.id });
+                accountsByExternalId.set(crmAccount.matchValue, { id: created.id, externalId: crmAccount.matchValue, ...incoming });
+                accountIdByCrmId.set(crmAccount.crmId, created.id);
+                result.accounts.created++;
+            }
+        }
+
+        // ── Contacts ────────────────────────────────────────────────────────
+        const crmContacts = await connector.listContacts(connection.lastPullAt);
+        const localContacts = await db.select().from(contacts).where(eq(contacts.tenantId, tenantId));
+        const contactsByExternalId = new Map(localContacts.filter(c => c.externalId).map(c => [c.externalId!, c]));
+        const contactsByEmail = new Map(localContacts.filter(c => c.email).map(c => [c.email!.toLowerCase(), c]));
+
+        for (const crmContact of crmContacts) {
+            const accountId = crmContact.crmAccountId ? accountIdByCrmId.get(crmContact.crmAccountId) : undefined;
+            if (!accountId) {
+                result.contacts.skipped++;
+                continue;
+            }
+            const incoming = {
+                firstName: crmContact.firstName ?? crmContact.lastName ?? crmContact.email ?? "Unknown",
+                lastName: crmContact.firstName ? crmContact.lastName : null,
+                email: crmContact.email?.toLowerCase() ?? null,
+                phone: crmContact.phone,
+                title: crmContact.title,
+            };
+            const existing = contactsByExternalId.get(crmContact.crmId)
+                ?? (incoming.email ? contactsByEmail.get(incoming.email) : undefined);
+
+            if (existing) {
+                const updates = resolveConflicts("contact", existing, incoming, rules);
+                const link = {
+                    ...(existing.externalId ? {} : { externalId: crmContact.crmId }),
+                    ...(existing.accountId ? {} : { accountId }),
+                };
+                if (Object.keys(updates).length > 0 || Object.keys(link).length > 0) {
+                    await db.update(contacts)
+                        .set({ ...updates, ...link, updatedAt: new Date() })
+                        .where(eq(contacts.id, existing.id));
+                    result.contacts.updated++;
+                }
+            } else {
+                const [created] = await db.insert(contacts).values({
+                    ...incoming,
+                    tenantId,
+                    accountId,
+                    externalId: crmContact.crmId,
+                    source: "crm_import",
+                }).returning();
+                contactsByExternalId.set(crmContact.crmId, created);
+                if (created.email) contactsByEmail.set(created.email, created);
+                result.contacts.created++;
+            }
+        }
+
+        // ── Opportunities → projects ────────────────────────────────────────
+        const opportunities = await connector.listOpportunities(connection.lastPullAt);
+        const localProjects = await db.select().from(projects).where(eq(projects.tenantId, tenantId));
+        const projectsByExternalId = new Map(localProjects.filter(p => p.externalId).map(p => [p.externalId!, p]));
+
+        for (const opportunity of opportunities) {
+            const incoming = {
+                name: opportunity.name,
+                estimatedValue: opportunity.amount !== null ? String(opportunity.amount) : null,
+                stage: OPPORTUNITY_STAGES[opportunity.status],
+                bidDeadline: opportunity.closeDate ? new Date(`${opportunity.closeDate}T00:00:00Z`) : null,
+            };
+            const existing = projectsByExternalId.get(opportunity.crmId);
+
+            if (existing) {
+                const updates = resolveConflicts("project", existing, incoming, rules);
+                if (Object.keys(updates).length > 0) {
+                    await db.update(projects)
+                        .set({ ...updates, updatedAt: new Date() })
+                        .where(eq(projects.id, existing.id));
+                    result.projects.updated++;
+                }
+                continue;
+            }
+
+            const accountId = opportunity.crmAccountId ? accountIdByCrmId.get(opportunity.crmAccountId) : undefined;
+            if (!accountId || opportunity.status !== "open") {
+                result.projects.skipped++;
+                continue;
+            }
+            await db.insert(projects).values({
+                ...incoming,
+                tenantId,
+                accountId,
+                externalId: opportunity.crmId,
+                source: "crm_import",
+            });
+            result.projects.created++;
+        }
+
+        await db.update(crmConnections)
+            .set({ lastPullAt: startedAt, lastPullSummary: { ...result }, syncError: null, updatedAt: new Date() })
+            .where(eq(crmConnections.id, connection.id));
+    } catch (err) {
+        await db.update(crmConnections)
+            .set({ syncError: err instanceof Error ? err.message : String(err), updatedAt: new Date() })
+            .where(eq(crmConnections.id, connection.id));
+        throw err;
+    }
+
+    console.log(
+        `[crm-pull] Tenant ${tenantId} (${provider}): accounts +${result.accounts.created}/~${result.accounts.updated}, ` +
+        `contacts +${result.contacts.created}/~${result.contacts.updated}, projects +${result.projects.created}/~${result.projects.updated}`,
+    );
+    return result;
+}
@@ -4,20 +4,33 @@
  * POST /api/agent/crm-sync-push
  * Body: { eventType, accountId, payload }
  *
- * Queues CRM sync events and POSTs structured payloads to the webhook URL
- * configured in agent_organization_settings.crm_webhook_url.
+ * Queues CRM sync events and delivers them through the tenant's CRM:
+ *   - crm_provider salesforce/hubspot → native connector (see crm-connectors.ts),
+ *     matching the CRM record on accounts.external_id
+ *   - otherwise → raw JSON POST to agent_organization_settings.crm_webhook_url
  *
  * Called on:
  *   - Account enrollment_status change (enrolled, graduated, at_risk)
  *   - agent_playbook_outcomes INSERT
  *   - Manual trigger from admin
  *
- * Retries are handled by the scheduler (every 4 hours for failed rows).
+ * Failed rows are retried by the scheduler with exponential backoff
+ * (see getRetryDelayMs) and marked failed after WEBHOOK_MAX_ATTEMPTS.
+ * Webhook requests are signed and logged by webhook-delivery.ts.
  */
 
 import { db } from "../db";
-import { agentCrmSyncQueue, agentOrganizationSettings } from "@shared/schema";
-import { and, eq } from "drizzle-orm";
+import { agentCrmSyncQueue, agentOrganizationSettings, accounts, CRM_PROVIDERS, type AgentCrmSyncQueue, type CrmProvider } from "@shared/schema";
+import { and, eq, inArray, isNull, lte, or } from "drizzle-orm";
+import { createCrmConnector, pushCrmPayload } from "./crm-connectors";
+import { getActiveCrmConnection, getValidCrmAccessToken, recordCrmSyncResult } from "./crm-oauth";
+import {
+    activeWebhookSecrets,
+    describeDeliveryError,
+    getRetryDelayMs,
+    sendWebhook,
+    WEBHOOK_MAX_ATTEMPTS,
+} from "./webhook-delivery";
 
 // ─── CRM payload shapes ───────────────────────────────────────────────────────
 
@@ -75,8 +88,9 @@ export async function queueCrmEvent(
 ): Promise<number> {
     const [row] = await db.insert(agentCrmSyncQueue).values({
         tenantId,
+        entityType: "account",
+        entityId: accountId,
         eventType,
-        accountId,
         payload,
         status: "pending",
         attempts: 0,
@@ -84,63 +98,114 @@ export async function queueCrmEvent(
     return row.id;
 }
 
-// ─── Fire a single queued event ───────────────────────────────────────────────
-
-async function fireWebhook(
-    webhookUrl: string,
-    webhookSecret: string | null,
-    payload: unknown,
-): Promise<void> {
-    const body = JSON.stringify(payload);
-    const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        "User-Agent": "WalletShareExpander-Agent/1.0",
-    };
-    if (webhookSecret) {
-        headers["X-Webhook-Secret"] = webhookSecret;
+// ─── Resolve how a tenant's events are delivered ─────────────────────────────
+
+type DeliverFn = (row: AgentCrmSyncQueue, externalId: string | null) => Promise<void>;
+
+interface Delivery {
+    label: string;
+    deliver: DeliverFn;
+    onFinished?: (error: string | null) => Promise<void>;
+}
+
+async function resolveDelivery(tenantId: number): Promise<Delivery | null> {
+    const [settings] = await db.select().from(agentOrganizationSettings)
+        .where(eq(agentOrganizationSettings.tenantId, tenantId));
+
+    const provider = settings?.crmProvider;
+    if (provider && (CRM_PROVIDERS as readonly string[]).includes(provider)) {
+        const connection = await getActiveCrmConnection(tenantId, provider as CrmProvider);
+        if (!connection) {
+            console.log(`[crm-sync] No connected ${provider} account for tenant ${tenantId}`);
+            return null;
+        }
+        const { connector, fieldMapping } = createCrmConnector(connection, () => getValidCrmAccessToken(connection));
+        return {
+            label: provider,
+            deliver: async (row, externalId) => {
+                if (!externalId) {
+                    throw new Error(`Account ${row.entityId} has no external ID to match in ${provider}`);
+                }
+                await pushCrmPayload(connector, fieldMapping, externalId, row.payload as CrmPayload);
+            },
+            onFinished: (error) => recordCrmSyncResult(connection.id, error),
+        };
     }
 
-    const response = await fetch(webhookUrl, { method: "POST", headers, body });
-    if (!response.ok) {
-        throw new Error(`Webhook responded with ${response.status}: ${await response.text()}`);
+    if (settings?.crmWebhookUrl) {
+        const { crmWebhookUrl } = settings;
+        const secrets = activeWebhookSecrets(settings);
+        return {
+            label: "webhook",
+            deliver: async (row) => {
+                const delivery = await sendWebhook({
+                    tenantId,
+                    queueId: row.id,
+                    eventType: row.eventType,
+                    url: crmWebhookUrl,
+                    secrets,
+                    payload: row.payload,
+                    attempt: (row.attempts ?? 0) + 1,
+                });
+                const error = describeDeliveryError(delivery);
+                if (error) throw new Error(error);
+            },
+        };
     }
+
+    console.log(`[crm-sync] No CRM connector or webhook URL configured for tenant ${tenantId}`);
+    return null;
 }
 
 // ─── Process pending queue entries for a tenant ───────────────────────────────
 
 export async function processCrmSyncQueue(tenantId: number): Promise<{ sent: number; failed: number }> {
-    const [settings] = await db.select().from(agentOrganizationSettings)
-        .where(eq(agentOrganizationSettings.tenantId, tenantId));
-
-    if (!settings?.crmWebhookUrl) {
-        console.log(`[crm-sync] No webhook URL configured for tenant ${tenantId}`);
+    const delivery = await resolveDelivery(tenantId);
+    if (!delivery) {
         return { sent: 0, failed: 0 };
     }
 
+    const now = new Date();
     const pending = await db.select().from(agentCrmSyncQueue)
         .where(and(
             eq(agentCrmSyncQueue.tenantId, tenantId),
             eq(agentCrmSyncQueue.status, "pending"),
+            or(isNull(agentCrmSyncQueue.nextAttemptAt), lte(agentCrmSyncQueue.nextAttemptAt, now)),
         ));
 
+    const accountIds = Array.from(new Set(pending.filter(r => r.entityType === "account").map(r => r.entityId)));
+    const externalIds = new Map<number, string | null>();
+    if (accountIds.length > 0) {
+        const rows = await db.select({ id: accounts.id, externalId: accounts.externalId })
+            .from(accounts)
+            .where(and(eq(accounts.tenantId, tenantId), inArray(accounts.id, accountIds)));
+        rows.forEach(r => externalIds.set(r.id, r.externalId));
+    }
+
     let sent = 0;
     let failed = 0;
+    let lastError: string | null = null;
 
     for (const row of pending) {
+        const attemptedAt = new Date();
         try {
-            await fireWebhook(settings.crmWebhookUrl, settings.crmWebhookSecret, row.payload);
+            await delivery.deliver(row, externalIds.get(row.entityId) ?? null);
             await db.update(agentCrmSyncQueue)
-                .set({ status: "sent", sentAt: new Date() })
+                .set({ status: "synced", attempts: (row.attempts ?? 0) + 1, syncedAt: attemptedAt, lastAttemptAt: attemptedAt, nextAttemptAt: null, errorMessage: null })
                 .where(eq(agentCrmSyncQueue.id, row.id));
             sent++;
-            console.log(`[crm-sync] Sent event ${row.eventType} for account ${row.accountId}`);
+            console.log(`[crm-sync] Sent event ${row.eventType} for account ${row.entityId} via ${delivery.label}`);
         } catch (err) {
             const newAttempts = (row.attempts ?? 0) + 1;
+            const exhausted = newAttempts >= WEBHOOK_MAX_ATTEMPTS;
+            lastError = err instanceof Error ? err.message : String(err);
             await db.update(agentCrmSyncQueue)
                 .set({
-                    status: newAttempts >= 5 ? "failed" : "pending",
+                    status: exhausted ? "failed" : "pending",
                     attempts: newAttempts,
-                    errorMessage: err instanceof Error ? err.message : String(err),
+                    lastAttemptAt: attemptedAt,
+                    nextAttemptAt: exhausted ? null : new Date(attemptedAt.getTime() + getRetryDelayMs(newAttempts)),
+                    errorMessage: lastError,
                 })
                 .where(eq(agentCrmSyncQueue.id, row.id));
             failed++;
@@ -148,5 +213,9 @@ export async function processCrmSyncQueue(tenantId: number): Promise<{ sent: num
         }
     }
 
+    if (pending.length > 0 && delivery.onFinished) {
+        await delivery.onFinished(lastError);
+    }
+
     return { sent, failed };
 }
@@ -7,6 +7,7 @@
  * For each active territory manager:
  *   1. Loads all enrolled accounts assigned to that TM
  *   2. Assembles context for each and asks gpt-4o for a prioritized daily brief
+ *      (revenue dips are judged against each account's seasonality profile)
  *   3. Formats HTML email with headline action + priority list + at-risk accounts
  *   4. Sends via Resend
  *   5. Writes to agent_rep_daily_briefings
@@ -217,6 +218,8 @@ export async function runDailyBriefing(tenantId: number): Promise<{ repCount: nu
                             "- Identify the single most important action for today (headline_action)",
                             "- Surface up to 5 priority accounts with specific, data-grounded actions",
                             "- Flag up to 3 at-risk accounts (declining trend, silence, negative signals)",
+                            "- Judge revenue trends against each account's Seasonality line: a dip in a slow month is expected.",
+                            "  Only call an account slipping on revenue when its Wallet Share Trend is declining (seasonally adjusted)",
                             "- Write a 2-3 sentence portfolio summary",
                             "- Prioritize accounts where action TODAY matters — not just general observations",
                             AGENT_MEMO_INSTRUCTION,
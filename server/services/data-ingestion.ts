@@ -0,0 +1,451 @@
+/**
+ * Data Ingestion Service
+ *
+ * POST /api/data-uploads (multipart: file + type)
+ *
+ * Streams an uploaded CSV through csv-parse, validates each row against the
+ * shared insert schemas and upserts valid rows into the tenant's tables in
+ * batches via TenantStorage. Source-system keys are preserved so re-uploading
+ * a file updates rows instead of duplicating them:
+ *   - accounts      → accounts.externalId           (CSV "id", "parent_id")
+ *   - categories    → product_categories.externalId (CSV "id", "parent_id")
+ *   - products      → products.sku
+ *   - orders        → orders.externalId             (CSV "id", "account_id")
+ *   - order_items   → order_items, replacing the lines of each order in the file
+ * A category ID that was merged into another category resolves to the target,
+ * and a category created in Settings takes the ID of the row with its name.
+ *
+ * Upload order matters: categories before products, accounts before orders,
+ * orders and products before order_items. Rows that reference an unknown key
+ * are rejected and listed in the upload's error report. A parent_id links a
+ * branch to its parent company in the same file or an earlier upload; links
+ * that would make an account its own ancestor, or move orders into or out of a
+ * current program enrollment, are reported and skipped.
+ *
+ * A completed upload triggers a metrics-engine recompute for the tenant followed
+ * by its per-category spend rollup, order or product uploads also rebuild its
+ * category association rules, and account or order uploads recompute its
+ * seasonality profiles.
+ */
+
+import { parse } from "csv-parse";
+import type { Readable } from "stream";
+import { z } from "zod";
+import {
+    insertAccountSchema,
+    insertProductCategorySchema,
+    insertProductSchema,
+    insertOrderSchema,
+    insertOrderItemSchema,
+    SUB_SEGMENT_TYPES,
+    type DataUploadType,
+    type DataUploadRowError,
+    type InsertAccount,
+    type InsertProductCategory,
+    type InsertProduct,
+    type InsertOrder,
+    type InsertOrderItem,
+    type ProgramEnrollmentStatus,
+} from "@shared/schema";
+import { getTenantStorage, type TenantStorage } from "../storage/tenantStorage";
+import { recomputeAccountMetrics } from "./metrics-engine";
+import { rebuildCategoryAssociations } from "./category-associations";
+import { recomputeSeasonality } from "./seasonality";
+import { rollupCategorySpend } from "./category-spend-rollup";
+import { accountsAffectedByMove, loadAccountLinks, wouldCreateCycle } from "./account-hierarchy";
+import { CURRENT_ENROLLMENT_STATUSES } from "./program-enrollment";
+
+const BATCH_SIZE = 500;
+const MAX_REPORTED_ERRORS = 1000;
+const HISTORY_BACKFILL_MONTHS = 24;
+
+export const REQUIRED_COLUMNS: Record<DataUploadType, string[]> = {
+    accounts: ["id", "name"],
+    categories: ["id", "name"],
+    products: ["sku"],
+    orders: ["id", "account_id", "order_date", "total_amount"],
+    order_items: ["order_id", "sku", "quantity", "unit_price"],
+};
+
+export interface IngestionResult {
+    rowCount: number;
+    rejectedCount: number;
+    inserted: number;
+    updated: number;
+}
+
+type CsvRecord = Record<string, string>;
+type ExternalIdMaps = Awaited<ReturnType<TenantStorage["getExternalIdMaps"]>>;
+type RowResult<T> = { ok: true; value: T } | { ok: false; field?: string; message: string };
+
+class RowError extends Error {
+    constructor(public field: string, message: string) {
+        super(message);
+    }
+}
+
+// ─── Field helpers ────────────────────────────────────────────────────────────
+
+function optional(record: CsvRecord, field: string): string | null {
+    const value = record[field];
+    return value === undefined || value === "" ? null : value;
+}
+
+function required(record: CsvRecord, field: string): string {
+    const value = optional(record, field);
+    if (value === null) throw new RowError(field, `${field} is required`);
+    return value;
+}
+
+function numeric(record: CsvRecord, field: string, isRequired = false): string | null {
+    const value = isRequired ? required(record, field) : optional(record, field);
+    if (value === null) return null;
+    const cleaned = value.replace(/[$,]/g, "");
+    if (!Number.isFinite(Number(cleaned))) {
+        throw new RowError(field, `${field} must be a number (got "${value}")`);
+    }
+    return cleaned;
+}
+
+function date(record: CsvRecord, field: string): Date {
+    const value = required(record, field);
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) {
+        throw new RowError(field, `${field} must be a valid date (got "${value}")`);
+    }
+    return parsed;
+}
+
+function lookup(map: Map<string, number>, record: CsvRecord, field: string, label: string): number {
+    const key = required(record, field);
+    const id = map.get(key);
+    if (id === undefined) {
+        throw new RowError(field, `Unknown ${label} "${key}" — upload ${label}s first`);
+    }
+    return id;
+}
+
+function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        throw new RowError(issue.path.join("."), issue.message);
+    }
+    return result.data;
+}
+
+// ─── Row mappers (CSV record → insert row) ───────────────────────────────────
+
+function mapAccount(record: CsvRecord): InsertAccount {
+    const subSegment = optional(record, "sub_segment");
+    if (subSegment && !(SUB_SEGMENT_TYPES as readonly string[]).includes(subSegment)) {
+        throw new RowError("sub_segment", `sub_segment must be one of ${SUB_SEGMENT_TYPES.join(", ")}`);
+    }
+    return validate(insertAccountSchema, {
+        externalId: required(record, "id"),
+        name: required(record, "name"),
+        segment: optional(record, "segment"),
+        subSegment,
+        region: optional(record, "region"),
+        assignedTm: optional(record, "assigned_tm"),
+        status: optional(record, "status") ?? "active",
+        creditLimit: numeric(record, "credit_limit"),
+        creditUsage: numeric(record, "credit_usage"),
+        // parentAccountId is set once every account in the file exists (see linkAccountParents)
+    });
+}
+
+function mapCategory(record: CsvRecord): InsertProductCategory {
+    return validate(insertProductCategorySchema, {
+        externalId: required(record, "id"),
+        name: required(record, "name"),
+        parentId: null, // resolved once every category in the file exists
+    });
+}
+
+function mapProduct(record: CsvRecord, maps: ExternalIdMaps): InsertProduct {
+    return validate(insertProductSchema, {
+        sku: required(record, "sku"),
+        name: optional(record, "name"),
+        categoryId: optional(record, "category_id") ? lookup(maps.categories, record, "category_id", "category") : null,
+        unitCost: numeric(record, "unit_cost"),
+        unitPrice: numeric(record, "unit_price"),
+    });
+}
+
+function mapOrder(record: CsvRecord, maps: ExternalIdMaps): InsertOrder {
+    return validate(insertOrderSchema, {
+        externalId: required(record, "id"),
+        accountId: lookup(maps.accounts, record, "account_id", "account"),
+        orderDate: date(record, "order_date"),
+        totalAmount: numeric(record, "total_amount", true),
+        marginAmount: numeric(record, "margin_amount"),
+    });
+}
+
+function mapOrderItem(record: CsvRecord, maps: ExternalIdMaps): InsertOrderItem {
+    const quantity = numeric(record, "quantity", true)!;
+    const unitPrice = numeric(record, "unit_price", true)!;
+    const lineTotal = numeric(record, "line_total") ?? String(Number(quantity) * Number(unitPrice));
+    return validate(insertOrderItemSchema, {
+        orderId: lookup(maps.orders, record, "order_id", "order"),
+        productId: lookup(maps.products, record, "sku", "product"),
+        quantity,
+        unitPrice,
+        lineTotal,
+    });
+}
+
+function mapRow(type: DataUploadType, record: CsvRecord, maps: ExternalIdMaps): RowResult<unknown> {
+    try {
+        switch (type) {
+            case "accounts": return { ok: true, value: mapAccount(record) };
+            case "categories": return { ok: true, value: mapCategory(record) };
+            case "products": return { ok: true, value: mapProduct(record, maps) };
+            case "orders": return { ok: true, value: mapOrder(record, maps) };
+            case "order_items": return { ok: true, value: mapOrderItem(record, maps) };
+        }
+    } catch (err) {
+        if (err instanceof RowError) return { ok: false, field: err.field || undefined, message: err.message };
+        return { ok: false, message: err instanceof Error ? err.message : String(err) };
+    }
+}
+
+// ─── Batch writers ────────────────────────────────────────────────────────────
+
+// Source-system key each upsert matches on; order lines have none
+const BATCH_KEYS: Record<DataUploadType, ((row: unknown) => string | null | undefined) | null> = {
+    accounts: (row) => (row as InsertAccount).externalId,
+    categories: (row) => (row as InsertProductCategory).externalId,
+    products: (row) => (row as InsertProduct).sku,
+    orders: (row) => (row as InsertOrder).externalId,
+    order_items: null,
+};
+
+/**
+ * Collapses rows of a batch that share a source-system key into the last one.
+ * The upserts only look up keys that already exist, so both copies of a new
+ * key would otherwise be inserted.
+ */
+export function dedupeBatch(type: DataUploadType, batch: unknown[]): unknown[] {
+    const keyOf = BATCH_KEYS[type];
+    if (!keyOf) return batch;
+    const byKey = new Map<string, unknown>();
+    const unkeyed: unknown[] = [];
+    for (const row of batch) {
+        const key = keyOf(row);
+        if (key) byKey.set(key, row);
+        else unkeyed.push(row);
+    }
+    return byKey.size + unkeyed.length === batch.length ? batch : [...Array.from(byKey.values()), ...unkeyed];
+}
+
+async function flushBatch(
+    type: DataUploadType,
+    storage: TenantStorage,
+    batch: unknown[],
+    clearedOrderIds: Set<number>,
+): Promise<{ inserted: number; updated: number }> {
+    batch = dedupeBatch(type, batch);
+    switch (type) {
+        case "accounts": return storage.upsertAccounts(batch as InsertAccount[]);
+        case "categories": return storage.upsertProductCategories(batch as InsertProductCategory[]);
+        case "products": return storage.upsertProducts(batch as InsertProduct[]);
+        case "orders": return storage.upsertOrders(batch as InsertOrder[]);
+        case "order_items": {
+            // A re-uploaded order replaces its lines; clear each order once per upload
+            const items = batch as InsertOrderItem[];
+            const newOrderIds = Array.from(new Set(items.map(i => i.orderId))).filter(id => !clearedOrderIds.has(id));
+            await storage.deleteOrderItemsForOrders(newOrderIds);
+            newOrderIds.forEach(id => clearedOrderIds.add(id));
+            await storage.createOrderItems(items);
+            return { inserted: items.length, updated: 0 };
+        }
+    }
+}
+
+async function linkCategoryParents(storage: TenantStorage, parentLinks: Map<string, string>): Promise<void> {
+    if (parentLinks.size === 0) return;
+    const { categories } = await storage.getExternalIdMaps();
+    for (const [externalId, parentExternalId] of Array.from(parentLinks.entries())) {
+        const id = categories.get(externalId);
+        // Unknown parents leave the category at the root of the taxonomy
+        const parentId = categories.get(parentExternalId) ?? null;
+        if (id !== undefined && id !== parentId) {
+            await storage.setProductCategoryParent(id, parentId);
+        }
+    }
+}
+
+async function linkAccountParents(
+    tenantId: number,
+    storage: TenantStorage,
+    parentLinks: Map<string, { parentExternalId: string | null; row: number }>,
+): Promise<DataUploadRowError[]> {
+    if (parentLinks.size === 0) return [];
+    const [{ accounts }, links, programAccounts] = await Promise.all([
+        storage.getExternalIdMaps(),
+        loadAccountLinks(tenantId),
+        storage.getProgramAccounts(),
+    ]);
+    const enrolled = new Set(programAccounts
+        .filter(pa => CURRENT_ENROLLMENT_STATUSES.includes(pa.status as ProgramEnrollmentStatus))
+        .map(pa => pa.accountId));
+    const errors: DataUploadRowError[] = [];
+    for (const [externalId, { parentExternalId, row }] of Array.from(parentLinks.entries())) {
+        const id = accounts.get(externalId);
+        // A blank or unknown parent leaves the account at the top level
+        const parentId = parentExternalId === null ? null : accounts.get(parentExternalId) ?? null;
+        const currentParent = links.find(l => l.id === id)?.parentAccountId ?? null;
+        if (id === undefined || id === parentId || currentParent === parentId) continue;
+        if (wouldCreateCycle(links, id, parentId)) {
+            errors.push({ row, field: "parent_id", message: `Parent "${parentExternalId}" is a branch of account "${externalId}" — link skipped` });
+            continue;
+        }
+        if (accountsAffectedByMove(links, id, parentId).some(a => enrolled.has(a))) {
+            errors.push({ row, field: "parent_id", message: `Moving account "${externalId}" would change the family of a current program enrollment — link skipped` });
+            continue;
+        }
+        await storage.setAccountParent(id, parentId);
+        const link = links.find(l => l.id === id);
+        if (link) link.parentAccountId = parentId;
+    }
+    return errors;
+}
+
+// ─── Main ingestion entry point ──────────────────────────────────────────────
+
+export async function ingestCsvUpload(
+    tenantId: number,
+    uploadId: number,
+    type: DataUploadType,
+    input: Readable,
+): Promise<IngestionResult> {
+    const storage = getTenantStorage(tenantId);
+    const maps = await storage.getExternalIdMaps();
+
+    const errors: DataUploadRowError[] = [];
+    const parentLinks = new Map<string, string>();
+    const accountParentLinks = new Map<string, { parentExternalId: string | null; row: number }>();
+    const clearedOrderIds = new Set<number>();
+    let batch: unknown[] = [];
+    let rowCount = 0;
+    let rejectedCount = 0;
+    let inserted = 0;
+    let updated = 0;
+
+    const flush = async () => {
+        if (batch.length === 0) return;
+        const result = await flushBatch(type, storage, batch, clearedOrderIds);
+        inserted += result.inserted;
+        updated += result.updated;
+        batch = [];
+    };
+
+    const parser = input.pipe(parse({
+        bom: true,
+        trim: true,
+        skip_empty_lines: true,
+        columns: (header: string[]) => {
+            const columns = header.map(h => h.trim().toLowerCase().replace(/\s+/g, "_"));
+            const missing = REQUIRED_COLUMNS[type].filter(c => !columns.includes(c));
+            if (missing.length > 0) {
+                throw new Error(`Missing required column(s): ${missing.join(", ")}`);
+            }
+            return columns;
+        },
+    }));
+
+    try {
+        let rowNumber = 0;
+        for await (const record of parser as AsyncIterable<CsvRecord>) {
+            rowNumber++;
+            const result = mapRow(type, record, maps);
+            if (!result.ok) {
+                rejectedCount++;
+                if (errors.length < MAX_REPORTED_ERRORS) {
+                    errors.push({ row: rowNumber, field: result.field, message: result.message });
+                }
+                continue;
+            }
+
+            if (type === "categories" && optional(record, "parent_id")) {
+                parentLinks.set(record.id, record.parent_id);
+            }
+            // Files without the column keep existing links; a blank parent_id detaches the branch
+            if (type === "accounts" && "parent_id" in record) {
+                accountParentLinks.set(record.id, { parentExternalId: optional(record, "parent_id"), row: rowNumber });
+            }
+            batch.push(result.value);
+            rowCount++;
+            if (batch.length >= BATCH_SIZE) await flush();
+        }
+        await flush();
+
+        if (type === "categories") {
+            await linkCategoryParents(storage, parentLinks);
+        }
+        if (type === "accounts") {
+            const linkErrors = await linkAccountParents(tenantId, storage, accountParentLinks);
+            errors.push(...linkErrors.slice(0, Math.max(0, MAX_REPORTED_ERRORS - errors.length)));
+        }
+    } catch (err) {
+        await storage.updateDataUpload(uploadId, {
+            status: "failed",
+            rowCount,
+            rejectedCount,
+            errorReport: errors,
+            errorMessage: err instanceof Error ? err.message : String(err),
+            completedAt: new Date(),
+        });
+        throw err;
+    }
+
+    await storage.updateDataUpload(uploadId, {
+        status: "completed",
+        rowCount,
+        rejectedCount,
+        errorReport: errors,
+        errorMessage: rejectedCount > 0
+            ? `${rejectedCount} row(s) rejected — download the error report for details`
+            : errors.length > 0 ? `${errors.length} parent link(s) skipped — download the error report for details` : null,
+        completedAt: new Date(),
+    });
+
+    console.log(`[data-ingestion] Upload ${uploadId} (${type}): ${rowCount} imported (${inserted} new, ${updated} updated), ${rejectedCount} rejected`);
+
+    if (rowCount > 0) {
+        // Metrics failures are logged but never fail an upload that has already been imported
+        // New order history can change every past month, so rebuild the trend snapshots too
+        const backfillMonths = type === "orders" || type === "order_items" ? HISTORY_BACKFILL_MONTHS : 0;
+        await recomputeAccountMetrics(tenantId, { backfillMonths }).catch(err =>
+            console.error(`[data-ingestion] Metrics recompute after upload ${uploadId} failed:`, err));
+        await rollupCategorySpend(tenantId).catch(err =>
+            console.error(`[data-ingestion] Category spend rollup after upload ${uploadId} failed:`, err));
+        if (type === "orders" || type === "order_items" || type === "products") {
+            await rebuildCategoryAssociations(tenantId).catch(err =>
+                console.error(`[data-ingestion] Category association rebuild after upload ${uploadId} failed:`, err));
+        }
+        // Seasonality reads order totals only, which an order_items upload leaves unchanged
+        if (type === "orders" || type === "accounts") {
+            await recomputeSeasonality(tenantId).catch(err =>
+                console.error(`[data-ingestion] Seasonality recompute after upload ${uploadId} failed:`, err));
+        }
+    }
+    return { rowCount, rejectedCount, inserted, updated };
+}
+
+// ─── Error report export ──────────────────────────────────────────────────────
+
+export function csvEscape(value: string | number | undefined): string {
+    const str = value === undefined ? "" : String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function buildErrorReportCsv(errors: DataUploadRowError[]): string {
+    const lines = ["row,field,message"];
+    for (const e of errors) {
+        lines.push([e.row, e.field, e.message].map(csvEscape).join(","));
+    }
+    return lines.join("\n") + "\n";
+}
@@ -1,5 +1,5 @@
 import { db } from "../db";
-import { syncedEmails, accounts, customCategories, type SyncedEmail } from "@shared/schema";
+import { syncedEmails, accounts, productCategories, type SyncedEmail } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import OpenAI from "openai";
 import { z } from "zod";
@@ -82,11 +82,11 @@ export async function analyzeEmail(email: SyncedEmail, tenantId: number): Promis
     db.select({ id: accounts.id, name: accounts.name, segment: accounts.segment })
       .from(accounts)
       .where(eq(accounts.tenantId, tenantId)),
-    db.select({ id: customCategories.id, name: customCategories.name })
-      .from(customCategories)
+    db.select({ id: productCategories.id, name: productCategories.name })
+      .from(productCategories)
       .where(and(
-        eq(customCategories.tenantId, tenantId),
-        eq(customCategories.isActive, true),
+        eq(productCategories.tenantId, tenantId),
+        eq(productCategories.isActive, true),
       )),
   ]);
 
@@ -4,7 +4,7 @@
  * POST /api/agent/email-intelligence
  * Body: { interactionId: number }
  *
- * Called when a new agent_interactions row is inserted with source='email'.
+ * Called when a new agent_interactions row is inserted with interaction_type='email'
  * Extracts: sentiment, buying signals, competitor mentions, project mentions,
  *           urgency level, follow-up date suggestion.
  * If at_risk signal detected → fires Resend alert to the assigned TM.
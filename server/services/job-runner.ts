@@ -0,0 +1,244 @@
+/**
+ * Job Runner
+ *
+ * Shared plumbing for the multi-tenant scheduler (see scheduler.ts):
+ *   - Active tenant discovery (subscription active or trialing)
+ *   - Per-job Postgres advisory locks, so only one app instance runs a job
+ *   - job_runs bookkeeping: status, duration and result of every tenant run
+ *   - Tenant-local "is it time yet" checks for briefingTime / timezone
+ */
+
+import { db, pool } from "../db";
+import { agentOrganizationSettings, jobRuns, tenants, type JobRun } from "@shared/schema";
+import { and, desc, eq, gte, inArray } from "drizzle-orm";
+
+export const DEFAULT_TIMEZONE = "America/New_York";
+export const DEFAULT_BRIEFING_TIME = "07:00";
+
+// First key of the two-key advisory lock, so scheduler locks cannot collide with other lock users
+const SCHEDULER_LOCK_NAMESPACE = 42_017;
+
+const ACTIVE_SUBSCRIPTION_STATUSES = ["active", "trialing"];
+
+// ─── Tenants ──────────────────────────────────────────────────────────────────
+
+export interface TenantScheduleSettings {
+    tenantId: number;
+    briefingEnabled: boolean;
+    briefingTime: string;
+    timezone: string;
+}
+
+export async function getActiveTenantIds(): Promise<number[]> {
+    const rows = await db.select({ id: tenants.id })
+        .from(tenants)
+        .where(inArray(tenants.subscriptionStatus, ACTIVE_SUBSCRIPTION_STATUSES))
+        .orderBy(tenants.id);
+    return rows.map(r => r.id);
+}
+
+/**
+ * Schedule settings for every active tenant (or just `onlyTenantId`); tenants
+ * without an agent_organization_settings row get the defaults.
+ */
+export async function getTenantScheduleSettings(onlyTenantId?: number): Promise<TenantScheduleSettings[]> {
+    const tenantIds = (await getActiveTenantIds()).filter(id => onlyTenantId === undefined || id === onlyTenantId);
+    if (tenantIds.length === 0) return [];
+
+    const rows = await db.select().from(agentOrganizationSettings)
+        .where(inArray(agentOrganizationSettings.tenantId, tenantIds));
+    const byTenant = new Map(rows.map(r => [r.tenantId, r]));
+
+    return tenantIds.map(tenantId => {
+        const settings = byTenant.get(tenantId);
+        return {
+            tenantId,
+            briefingEnabled: settings?.briefingEnabled ?? true,
+            briefingTime: settings?.briefingTime || DEFAULT_BRIEFING_TIME,
+            timezone: settings?.timezone || DEFAULT_TIMEZONE,
+        };
+    });
+}
+
+// ─── Tenant-local time ────────────────────────────────────────────────────────
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Day of week (0 = Sunday) and minutes past midnight in `timezone`.
+ * Unknown zones fall back to DEFAULT_TIMEZONE.
+ */
+export function getLocalClock(now: Date, timezone: string): { weekday: number; minutes: number } {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat("en-US", {
+            timeZone: timezone,
+            weekday: "short",
+            hour: "2-digit",
+            minute: "2-digit",
+            hourCycle: "h23",
+        }).formatToParts(now);
+    } catch {
+        return getLocalClock(now, DEFAULT_TIMEZONE);
+    }
+    const get = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+    return {
+        weekday: WEEKDAYS.indexOf(get("weekday")),
+        minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+    };
+}
+
+function parseLocalTime(value: string): number {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    if (!match) return parseLocalTime(DEFAULT_BRIEFING_TIME);
+    return Math.min(parseInt(match[1], 10), 23) * 60 + Math.min(parseInt(match[2], 10), 59);
+}
+
+/**
+ * Whether a once-a-day weekday job should run now for a tenant: it is a
+ * weekday in the tenant's zone and the local clock is between `localTime`
+ * (plus `offsetMinutes`) and `catchUpMinutes` after it. A scheduler tick that
+ * was missed (restart, lock held) is still picked up inside that window.
+ */
+export function isDailyJobDue(
+    now: Date,
+    timezone: string,
+    localTime: string,
+    options: { offsetMinutes?: number; catchUpMinutes?: number } = {},
+): boolean {
+    const { weekday, minutes } = getLocalClock(now, timezone);
+    if (weekday === 0 || weekday === 6) return false;
+    const target = parseLocalTime(localTime) + (options.offsetMinutes ?? 0);
+    const elapsed = minutes - target;
+    return elapsed >= 0 && elapsed < (options.catchUpMinutes ?? 180);
+}
+
+/**
+ * The next 15-minute scheduler tick (within 8 days) at which isDailyJobDue
+ * first holds, i.e. when a tenant-local daily job will next run.
+ */
+export function getNextDailyRun(
+    now: Date,
+    timezone: string,
+    localTime: string,
+    options: { offsetMinutes?: number } = {},
+): Date | null {
+    const tickMs = 15 * 60 * 1000;
+    let tick = Math.ceil((now.getTime() + 1) / tickMs) * tickMs;
+    for (let i = 0; i < 8 * 24 * 4; i++, tick += tickMs) {
+        const at = new Date(tick);
+        if (isDailyJobDue(at, timezone, localTime, { offsetMinutes: options.offsetMinutes, catchUpMinutes: 15 })) {
+            return at;
+        }
+    }
+    return null;
+}
+
+// ─── Advisory locks ───────────────────────────────────────────────────────────
+
+/**
+ * Runs `fn` while holding a session-level advisory lock for `jobName`.
+ * Returns `{ acquired: false }` without running when another instance holds it.
+ */
+export async function withAdvisoryLock<T>(
+    jobName: string,
+    fn: () => Promise<T>,
+): Promise<{ acquired: true; result: T } | { acquired: false }> {
+    const client = await pool.connect();
+    try {
+        const lock = await client.query<{ locked: boolean }>(
+            "SELECT pg_try_advisory_lock($1, hashtext($2)) AS locked",
+            [SCHEDULER_LOCK_NAMESPACE, jobName],
+        );
+        if (!lock.rows[0]?.locked) return { acquired: false };
+        try {
+            return { acquired: true, result: await fn() };
+        } finally {
+            await client.query("SELECT pg_advisory_unlock($1, hashtext($2))", [SCHEDULER_LOCK_NAMESPACE, jobName]);
+        }
+    } finally {
+        client.release();
+    }
+}
+
+// ─── Run bookkeeping ──────────────────────────────────────────────────────────
+
+function toJsonResult(value: unknown): unknown {
+    if (value === undefined) return null;
+    try {
+        return JSON.parse(JSON.stringify(value));
+    } catch {
+        return String(value);
+    }
+}
+
+/**
+ * Runs one job for one tenant and records it in job_runs. Errors are
+ * captured on the row rather than thrown.
+ */
+export async function recordJobRun(
+    jobName: string,
+    tenantId: number | null,
+    fn: () => Promise<unknown>,
+    trigger: "schedule" | "manual" = "schedule",
+): Promise<JobRun> {
+    const run = await startJobRun(jobName, tenantId, trigger);
+    return completeJobRun(run, fn);
+}
+
+export async function startJobRun(
+    jobName: string,
+    tenantId: number | null,
+    trigger: "schedule" | "manual",
+): Promise<JobRun> {
+    const [run] = await db.insert(jobRuns).values({ jobName, tenantId, trigger, status: "running", startedAt: new Date() }).returning();
+    return run;
+}
+
+/**
+ * Runs `fn` for a started run and stores its outcome on the row.
+ */
+export async function completeJobRun(run: JobRun, fn: () => Promise<unknown>): Promise<JobRun> {
+    let update: Partial<JobRun>;
+    try {
+        const result = await fn();
+        update = { status: "success", result: toJsonResult(result) };
+    } catch (err) {
+        update = { status: "failed", error: err instanceof Error ? err.message : String(err) };
+    }
+
+    const finishedAt = new Date();
+    const [finished] = await db.update(jobRuns)
+        .set({ ...update, finishedAt, durationMs: finishedAt.getTime() - run.startedAt.getTime() })
+        .where(eq(jobRuns.id, run.id))
+        .returning();
+    return finished;
+}
+
+/**
+ * Tenant IDs (from `tenantIds`) that already have a run of `jobName` since `since`,
+ * whatever its outcome. Used to keep once-a-day jobs from repeating.
+ */
+export async function getTenantsWithRunSince(jobName: string, tenantIds: number[], since: Date): Promise<Set<number>> {
+    if (tenantIds.length === 0) return new Set();
+    const rows = await db.select({ tenantId: jobRuns.tenantId })
+        .from(jobRuns)
+        .where(and(
+            eq(jobRuns.jobName, jobName),
+            inArray(jobRuns.tenantId, tenantIds),
+            gte(jobRuns.startedAt, since),
+        ));
+    return new Set(rows.map(r => r.tenantId!));
+}
+
+export async function getRecentJobRuns(
+    tenantId: number,
+    options: { jobName?: string; limit?: number } = {},
+): Promise<JobRun[]> {
+    const conditions = [eq(jobRuns.tenantId, tenantId)];
+    if (options.jobName) conditions.push(eq(jobRuns.jobName, options.jobName));
+    return db.select().from(jobRuns)
+        .where(and(...conditions))
+        .orderBy(desc(jobRuns.startedAt))
+        .limit(options.limit ?? 200);
+}
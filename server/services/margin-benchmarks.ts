@@ -0,0 +1,236 @@
+/**
+ * Margin Benchmarks
+ *
+ * (Rebuilt inside every metrics recompute - see metrics-engine.ts - and read by
+ *  GET /api/margin-benchmarks)
+ *
+ * Turns revenue gaps into gross-margin dollars. orders.marginAmount,
+ * products.unitCost and products.unitPrice are all optional in the CSV
+ * uploads, so rates are measured from whatever the tenant provides:
+ *   1. item_cost: trailing-12-month order_items revenue vs quantity × unitCost,
+ *      per segment × category and tenant-wide per category
+ *   2. list_price: catalog unitPrice vs unitCost, per category
+ *   3. order_margin: orders.marginAmount / totalAmount, per segment and tenant-wide
+ * A gap takes the most specific rate available: segment × category, then the
+ * tenant's category rate (item cost, then list price), then the segment's and
+ * the tenant's order margin. Segment benchmarks need MIN_SEGMENT_ACCOUNTS
+ * accounts so one contractor's pricing doesn't set the rate for everyone.
+ * Category samples also count towards every ancestor in the taxonomy, so an
+ * ICP that targets a parent category gets a rate for its whole subtree.
+ *
+ * The benchmark math is pure (see computeMarginBenchmarks / buildMarginRateLookup)
+ * so it can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import {
+    products,
+    segmentMarginBenchmarks,
+    type MarginRateSource,
+} from "@shared/schema";
+import { and, eq, isNotNull, sql } from "drizzle-orm";
+import type { CategoryTaxonomy } from "./category-taxonomy";
+
+const MIN_SEGMENT_ACCOUNTS = 3;
+const INSERT_CHUNK_SIZE = 500;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Revenue and margin for one account, per category (item cost) or overall (order margin) */
+export interface MarginSample {
+    accountId: number;
+    segment: string | null;
+    categoryId: number | null; // null for order-level samples
+    revenue: number;           // only revenue whose cost / margin is known
+    margin: number;
+}
+
+export interface ListPriceSample {
+    categoryId: number;
+    unitPrice: number;
+    unitCost: number;
+}
+
+export interface MarginBenchmark {
+    segment: string | null;    // null = tenant-wide
+    categoryId: number | null; // null = all categories
+    marginRate: number;        // 0-1
+    revenueBasis: number;
+    accountCount: number;
+    source: MarginRateSource;
+}
+
+export type MarginRateLookup = (segment: string | null, categoryId: number) => MarginBenchmark | null;
+
+// ─── Benchmarks ───────────────────────────────────────────────────────────────
+
+const clampRate = (rate: number) => Math.round(Math.max(0, Math.min(1, rate)) * 10000) / 10000;
+const segmentKey = (segment: string | null) => (segment ? segment.toLowerCase() : null);
+
+function aggregate(
+    samples: MarginSample[],
+    bySegment: boolean,
+    source: MarginRateSource,
+    minAccounts: number,
+): MarginBenchmark[] {
+    const groups = new Map<string, { segment: string | null; categoryId: number | null; revenue: number; margin: number; accounts: Set<number> }>();
+    for (const s of samples) {
+        if (bySegment && !s.segment) continue;
+        const key = `${bySegment ? segmentKey(s.segment) : ""}|${s.categoryId ?? ""}`;
+        if (!groups.has(key)) {
+            groups.set(key, { segment: bySegment ? s.segment : null, categoryId: s.categoryId, revenue: 0, margin: 0, accounts: new Set() });
+        }
+        const group = groups.get(key)!;
+        group.revenue += s.revenue;
+        group.margin += s.margin;
+        group.accounts.add(s.accountId);
+    }
+
+    return Array.from(groups.values())
+        .filter(g => g.revenue > 0 && g.accounts.size >= minAccounts)
+        .map(g => ({
+            segment: g.segment,
+            categoryId: g.categoryId,
+            marginRate: clampRate(g.margin / g.revenue),
+            revenueBasis: Math.round(g.revenue * 100) / 100,
+            accountCount: g.accounts.size,
+            source,
+        }));
+}
+
+export function computeMarginBenchmarks(
+    itemSamples: MarginSample[],
+    orderSamples: MarginSample[],
+    listPrices: ListPriceSample[],
+): MarginBenchmark[] {
+    const listRates = new Map<number, number[]>();
+    for (const p of listPrices) {
+        if (p.unitPrice <= 0) continue;
+        if (!listRates.has(p.categoryId)) listRates.set(p.categoryId, []);
+        listRates.get(p.categoryId)!.push((p.unitPrice - p.unitCost) / p.unitPrice);
+    }
+
+    return [
+        ...aggregate(itemSamples, true, "item_cost", MIN_SEGMENT_ACCOUNTS),
+        ...aggregate(itemSamples, false, "item_cost", 1),
+        ...Array.from(listRates.entries()).map(([categoryId, rates]): MarginBenchmark => ({
+            segment: null,
+            categoryId,
+            marginRate: clampRate(rates.reduce((a, b) => a + b, 0) / rates.length),
+            revenueBasis: 0,
+            accountCount: 0,
+            source: "list_price",
+        })),
+        ...aggregate(orderSamples.map(s => ({ ...s, categoryId: null })), true, "order_margin", MIN_SEGMENT_ACCOUNTS),
+        ...aggregate(orderSamples.map(s => ({ ...s, categoryId: null })), false, "order_margin", 1),
+    ];
+}
+
+/** Resolves a segment × category to its most specific benchmark (see the header for the order) */
+export function buildMarginRateLookup(benchmarks: MarginBenchmark[]): MarginRateLookup {
+    const index = new Map<string, MarginBenchmark>();
+    for (const b of benchmarks) {
+        const key = `${b.source}|${segmentKey(b.segment) ?? ""}|${b.categoryId ?? ""}`;
+        if (!index.has(key)) index.set(key, b);
+    }
+    const find = (source: MarginRateSource, segment: string | null, categoryId: number | null) =>
+        index.get(`${source}|${segmentKey(segment) ?? ""}|${categoryId ?? ""}`) ?? null;
+
+    return (segment, categoryId) =>
+        (segment ? find("item_cost", segment, categoryId) : null) ??
+        find("item_cost", null, categoryId) ??
+        find("list_price", null, categoryId) ??
+        (segment ? find("order_margin", segment, null) : null) ??
+        find("order_margin", null, null);
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+export async function loadMarginBenchmarks(tenantId: number, asOf: Date, taxonomy: CategoryTaxonomy): Promise<MarginBenchmark[]> {
+    const from12m = new Date(asOf);
+    from12m.setMonth(from12m.getMonth() - 12);
+
+    const [itemResult, orderResult, listRows] = await Promise.all([
+        db.execute(sql`
+            SELECT
+                o.account_id AS "accountId",
+                a.segment AS "segment",
+                p.category_id AS "categoryId",
+                SUM(oi.line_total::numeric)::float AS "revenue",
+                SUM(oi.line_total::numeric - oi.quantity::numeric * p.unit_cost::numeric)::float AS "margin"
+            FROM orders o
+            JOIN accounts a ON a.id = o.account_id AND a.tenant_id = ${tenantId}
+            JOIN order_items oi ON oi.order_id = o.id AND oi.tenant_id = ${tenantId}
+            JOIN products p ON p.id = oi.product_id AND p.tenant_id = ${tenantId}
+            WHERE o.tenant_id = ${tenantId}
+                AND o.order_date >= ${from12m}
+                AND o.order_date < ${asOf}
+                AND p.category_id IS NOT NULL
+                AND p.unit_cost IS NOT NULL
+            GROUP BY o.account_id, a.segment, p.category_id
+        `),
+        db.execute(sql`
+            SELECT
+                o.account_id AS "accountId",
+                a.segment AS "segment",
+                SUM(o.total_amount::numeric)::float AS "revenue",
+                SUM(o.margin_amount::numeric)::float AS "margin"
+            FROM orders o
+            JOIN accounts a ON a.id = o.account_id AND a.tenant_id = ${tenantId}
+            WHERE o.tenant_id = ${tenantId}
+                AND o.order_date >= ${from12m}
+                AND o.order_date < ${asOf}
+                AND o.margin_amount IS NOT NULL
+            GROUP BY o.account_id, a.segment
+        `),
+        db.select({ categoryId: products.categoryId, unitPrice: products.unitPrice, unitCost: products.unitCost })
+            .from(products)
+            .where(and(
+                eq(products.tenantId, tenantId),
+                isNotNull(products.categoryId),
+                isNotNull(products.unitPrice),
+                isNotNull(products.unitCost),
+            )),
+    ]);
+
+    type SampleRow = { accountId: number; segment: string | null; categoryId?: number; revenue: number; margin: number };
+    const toSample = (row: SampleRow): MarginSample => ({
+        accountId: Number(row.accountId),
+        segment: row.segment,
+        categoryId: row.categoryId === undefined ? null : Number(row.categoryId),
+        revenue: Number(row.revenue),
+        margin: Number(row.margin),
+    });
+
+    const withAncestors = <T extends { categoryId: number | null }>(sample: T): T[] =>
+        sample.categoryId === null
+            ? [sample]
+            : [sample, ...taxonomy.ancestors(sample.categoryId).map(categoryId => ({ ...sample, categoryId }))];
+
+    return computeMarginBenchmarks(
+        ((itemResult.rows || []) as SampleRow[]).map(toSample).flatMap(withAncestors),
+        ((orderResult.rows || []) as SampleRow[]).map(toSample),
+        listRows
+            .map(p => ({ categoryId: p.categoryId!, unitPrice: parseFloat(p.unitPrice!), unitCost: parseFloat(p.unitCost!) }))
+            .flatMap(withAncestors),
+    );
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export async function writeMarginBenchmarks(tx: Tx, tenantId: number, benchmarks: MarginBenchmark[], computedAt: Date): Promise<void> {
+    await tx.delete(segmentMarginBenchmarks).where(eq(segmentMarginBenchmarks.tenantId, tenantId));
+    const values = benchmarks.map(b => ({
+        tenantId,
+        segment: b.segment,
+        categoryId: b.categoryId,
+        marginRate: b.marginRate.toFixed(4),
+        revenueBasis: b.revenueBasis.toFixed(2),
+        accountCount: b.accountCount,
+        source: b.source,
+        computedAt,
+    }));
+    for (let i = 0; i < values.length; i += INSERT_CHUNK_SIZE) {
+        await tx.insert(segmentMarginBenchmarks).values(values.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+}
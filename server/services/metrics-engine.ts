@@ -0,0 +1,858 @@
+/**
+ * Metrics Engine Service
+ *
+ * POST /api/admin/recompute-metrics
+ * (Also triggered after every CSV upload in data-ingestion.ts and nightly at
+ *  1:00am EST in scheduler.ts)
+ *
+ * Rebuilds account_metrics and account_category_gaps for a tenant from real
+ * order history, and records the result as this month's row in
+ * account_metrics_snapshots / account_category_gap_snapshots:
+ *   1. Aggregates orders per account (12m / 3m / prior-12m revenue, order count, recency)
+ *   2. Aggregates order_items → products → category spend over the trailing 12 months
+ *   3. Matches each account to its approved segment_profiles ICP
+ *      (segment + sub-segment, then segment-wide profile)
+ *   4. Computes gaps against profile_categories.expectedPct, sized in revenue and
+ *      in gross margin via segment_margin_benchmarks (see margin-benchmarks.ts)
+ *   5. Scores RFM + Mix, then the opportunity score using the tenant's active
+ *      scoring_models version (any weighted mix of SCORING_FACTORS), falling back
+ *      to the legacy scoring_weights row. Each account_metrics row records the
+ *      model version that produced it
+ *   6. Optionally backfills earlier monthly snapshots by re-running 1-5 as of
+ *      each month end (used after historical order uploads)
+ *
+ * Profile categories may target a parent category in the taxonomy (see
+ * category-taxonomy.ts); their actual share counts spend across the subtree.
+ *
+ * Branch accounts roll up to their top-level parent (see account-hierarchy.ts):
+ * steps 3-5 run once per parent over the whole family's orders, while each
+ * branch keeps its own order metrics but no gaps and no opportunity score.
+ *
+ * The computation itself is pure (see computeAccountMetrics / scoreOpportunities)
+ * so it can be unit tested without a database.
+ *
+ * previewScoringModel (POST /api/scoring-models/preview) scores the same data
+ * with the active model and a candidate one and compares the top-50 rankings,
+ * so admins can see the effect of a new version before activating it.
+ */
+
+import { db } from "../db";
+import {
+    accounts,
+    accountMetrics,
+    accountCategoryGaps,
+    accountMetricsSnapshots,
+    accountCategoryGapSnapshots,
+    productCategories,
+    segmentProfiles,
+    profileCategories,
+    scoringWeights,
+    scoringModels,
+    competitorMentions,
+    DEFAULT_SCORING_WEIGHTS,
+    type InsertAccountMetrics,
+    type InsertAccountCategoryGap,
+    type ScoringFactor,
+    type ScoringFactorWeight,
+} from "@shared/schema";
+import { and, eq, gte, inArray, isNotNull, lt, ne, sql } from "drizzle-orm";
+import { buildMarginRateLookup, loadMarginBenchmarks, writeMarginBenchmarks } from "./margin-benchmarks";
+import { accountFamilies, loadAccountLinks, resolveRootAccounts } from "./account-hierarchy";
+import { loadTaxonomy, type CategoryTaxonomy } from "./category-taxonomy";
+
+const INSERT_CHUNK_SIZE = 500;
+const MAX_BACKFILL_MONTHS = 36;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RFM + Mix normalisation (matches the scales used by the demo seed)
+const FREQUENCY_FULL_SCORE_ORDERS = 60;    // orders in 12 months for a 100 frequency score
+const MONETARY_FULL_SCORE_REVENUE = 250000; // 12-month revenue for a 100 monetary score
+const MIX_FULL_SCORE_CATEGORIES = 12;      // categories purchased for a 100 mix score
+const RECENCY_STEPS: [maxDays: number, score: number][] = [
+    [7, 100], [14, 85], [30, 65], [60, 40], [90, 20],
+];
+const RECENCY_FLOOR_SCORE = 5;
+
+// Scoring model factors
+const COMPETITOR_WINDOW_DAYS = 90;
+const THREAT_LEVEL_WEIGHTS: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+export const PREVIEW_TOP_N = 50;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AccountOrderStats {
+    accountId: number;
+    segment: string | null;
+    subSegment: string | null;
+    revenue12m: number;
+    revenue3m: number;
+    revenuePrior12m: number;
+    orderCount12m: number;
+    lastOrderDate: Date | null;
+    categorySpend: Map<number, number>; // categoryId → trailing-12m spend
+    totalLineSpend: number;             // all trailing-12m line spend, incl. uncategorised
+    // Scoring-model inputs beyond order history; absent = unknown
+    creditLimit?: number | null;
+    creditUsage?: number | null;
+    competitorThreat?: number;          // threat-weighted competitor mentions in the last 90 days
+    marginPct12m?: number | null;       // trailing-12m margin % over orders that report a margin
+}
+
+export interface IcpProfile {
+    id: number;
+    segment: string;
+    subSegment: string | null;
+    categories: {
+        categoryId: number;
+        expectedPct: number;
+        importance: number;
+        coveredCategoryIds?: number[]; // the category and its descendants (defaults to just the category)
+    }[];
+}
+
+export interface WeightConfig {
+    gapSizeWeight: number;
+    revenuePotentialWeight: number;
+    categoryCountWeight: number;
+}
+
+export interface ComputedAccountMetrics {
+    metrics: Omit<InsertAccountMetrics, "opportunityScore">;
+    gaps: Omit<InsertAccountCategoryGap, "tenantId">[];
+    // Opportunity score components, each 0-100 except estimatedOpportunity ($)
+    gapSizeComponent: number;
+    categoryCountComponent: number;
+    creditHeadroomComponent: number;
+    estimatedOpportunity: number;
+    estimatedMarginOpportunity: number | null; // null when no gap has a margin rate
+    // Raw inputs for the tenant-relative factors (see computeFactorScores)
+    competitorThreat: number;
+    marginPct: number | null;
+}
+
+/** Every scoring factor for one account, each 0-100 */
+export type FactorScores = Record<ScoringFactor, number>;
+
+/** The model an opportunity score was produced by; id is null for legacy scoring_weights / defaults */
+export interface ActiveScoringModel {
+    id: number | null;
+    version: number | null;
+    name: string;
+    factors: ScoringFactorWeight[];
+}
+
+export interface RankingChange {
+    accountId: number;
+    currentRank: number | null;   // null = outside the current top N
+    candidateRank: number | null; // null = drops out of the top N
+    currentScore: number;
+    candidateScore: number;
+}
+
+export interface RankingPreview {
+    topN: number;
+    entered: number; // accounts new to the top N
+    exited: number;  // accounts that leave it
+    moved: number;   // accounts in both whose rank changes
+    rows: RankingChange[]; // candidate top N in order, then the accounts that exit
+}
+
+export interface RecomputeResult {
+    accounts: number;
+    branchAccounts: number; // rolled up into a parent, so not scored
+    matchedAccounts: number;
+    gaps: number;
+    backfilledMonths: number;
+    durationMs: number;
+}
+
+// ─── Pure computation ─────────────────────────────────────────────────────────
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const clamp100 = (n: number) => Math.max(0, Math.min(100, n));
+
+export function recencyScore(daysSinceLastOrder: number | null): number {
+    if (daysSinceLastOrder === null) return 0;
+    for (const [maxDays, score] of RECENCY_STEPS) {
+        if (daysSinceLastOrder <= maxDays) return score;
+    }
+    return RECENCY_FLOOR_SCORE;
+}
+
+/**
+ * Picks the approved ICP for an account: an exact segment + sub-segment match
+ * wins, then a segment-wide profile (no sub-segment), then any profile for the segment.
+ */
+export function matchProfile(
+    account: { segment: string | null; subSegment: string | null },
+    profiles: IcpProfile[],
+): IcpProfile | null {
+    if (!account.segment) return null;
+    const segment = account.segment.toLowerCase();
+    const candidates = profiles.filter(p => p.segment.toLowerCase() === segment);
+    if (candidates.length === 0) return null;
+    return (
+        (account.subSegment && candidates.find(p => p.subSegment === account.subSegment)) ||
+        candidates.find(p => !p.subSegment) ||
+        candidates[0]
+    );
+}
+
+/**
+ * Combines a parent and its branches into one set of order stats, keyed by the
+ * parent (the first entry) and matched to an ICP by the parent's segment.
+ * Margin % is averaged by 12-month revenue across the accounts that report it.
+ */
+export function rollupOrderStats(family: AccountOrderStats[]): AccountOrderStats {
+    const [root] = family;
+    const sum = (pick: (s: AccountOrderStats) => number) => family.reduce((total, s) => total + pick(s), 0);
+    const sumKnown = (pick: (s: AccountOrderStats) => number | null | undefined) => {
+        const known = family.map(pick).filter((v): v is number => v !== null && v !== undefined);
+        return known.length === 0 ? null : known.reduce((a, b) => a + b, 0);
+    };
+
+    const categorySpend = new Map<number, number>();
+    for (const s of family) {
+        for (const [categoryId, spend] of Array.from(s.categorySpend.entries())) {
+            categorySpend.set(categoryId, (categorySpend.get(categoryId) ?? 0) + spend);
+        }
+    }
+    const lastOrderDates = family.map(s => s.lastOrderDate).filter((d): d is Date => d !== null);
+    const withMargin = family.filter(s => s.marginPct12m !== null && s.marginPct12m !== undefined);
+    const marginRevenue = withMargin.reduce((total, s) => total + s.revenue12m, 0);
+
+    return {
+        accountId: root.accountId,
+        segment: root.segment,
+        subSegment: root.subSegment,
+        revenue12m: sum(s => s.revenue12m),
+        revenue3m: sum(s => s.revenue3m),
+        revenuePrior12m: sum(s => s.revenuePrior12m),
+        orderCount12m: sum(s => s.orderCount12m),
+        lastOrderDate: lastOrderDates.length === 0 ? null : new Date(Math.max(...lastOrderDates.map(d => d.getTime()))),
+        categorySpend,
+        totalLineSpend: sum(s => s.totalLineSpend),
+        creditLimit: sumKnown(s => s.creditLimit),
+        creditUsage: sumKnown(s => s.creditUsage),
+        competitorThreat: sum(s => s.competitorThreat ?? 0),
+        marginPct12m: withMargin.length === 0
+            ? null
+            : marginRevenue > 0
+                ? withMargin.reduce((total, s) => total + s.marginPct12m! * s.revenue12m, 0) / marginRevenue
+                : withMargin.reduce((total, s) => total + s.marginPct12m!, 0) / withMargin.length,
+    };
+}
+
+/**
+ * @param marginRateFor - gross margin rate (0-1) of a gap category for this
+ *   account's segment, or null when the tenant has no cost data for it
+ */
+export function computeAccountMetrics(
+    stats: AccountOrderStats,
+    profile: IcpProfile | null,
+    tenantCategoryCount: number,
+    asOf: Date,
+    marginRateFor: (categoryId: number) => number | null = () => null,
+): ComputedAccountMetrics {
+    const daysSinceLastOrder = stats.lastOrderDate
+        ? Math.max(0, Math.floor((asOf.getTime() - stats.lastOrderDate.getTime()) / DAY_MS))
+        : null;
+    const purchasedCategories = Array.from(stats.categorySpend.values()).filter(v => v > 0).length;
+    const actualPct = (categoryIds: number[]) => {
+        if (stats.totalLineSpend <= 0) return 0;
+        const spend = categoryIds.reduce((sum, id) => sum + (stats.categorySpend.get(id) ?? 0), 0);
+        return (spend / stats.totalLineSpend) * 100;
+    };
+
+    const gaps: ComputedAccountMetrics["gaps"] = [];
+    let categoryPenetration: number;
+    let gapSizeComponent = 0;
+    let categoryCountComponent = 0;
+
+    if (profile && profile.categories.length > 0) {
+        let expectedTotal = 0;
+        let weightedGapTotal = 0;
+        let penetrated = 0;
+
+        for (const pc of profile.categories) {
+            const actual = actualPct(pc.coveredCategoryIds ?? [pc.categoryId]);
+            if (actual > 0) penetrated++;
+            expectedTotal += pc.expectedPct * pc.importance;
+
+            const gap = pc.expectedPct - actual;
+            if (gap <= 0) continue;
+            weightedGapTotal += gap * pc.importance;
+            const opportunity = stats.revenue12m * gap / 100;
+            const marginRate = marginRateFor(pc.categoryId);
+            gaps.push({
+                accountId: stats.accountId,
+                categoryId: pc.categoryId,
+                expectedPct: pc.expectedPct.toFixed(2),
+                actualPct: actual.toFixed(2),
+                gapPct: gap.toFixed(2),
+                estimatedOpportunity: opportunity.toFixed(2),
+                marginRate: marginRate === null ? null : marginRate.toFixed(4),
+                estimatedMarginOpportunity: marginRate === null ? null : (opportunity * marginRate).toFixed(2),
+            });
+        }
+
+        categoryPenetration = (penetrated / profile.categories.length) * 100;
+        gapSizeComponent = expectedTotal > 0 ? clamp100((weightedGapTotal / expectedTotal) * 100) : 0;
+        categoryCountComponent = (gaps.length / profile.categories.length) * 100;
+    } else {
+        // No approved ICP for this segment: penetration is breadth across the tenant's catalog
+        categoryPenetration = tenantCategoryCount > 0 ? (purchasedCategories / tenantCategoryCount) * 100 : 0;
+    }
+
+    const creditLimit = stats.creditLimit ?? 0;
+    const creditHeadroomComponent = creditLimit > 0
+        ? clamp100(((creditLimit - (stats.creditUsage ?? 0)) / creditLimit) * 100)
+        : 0;
+
+    const marginGaps = gaps.filter(g => g.estimatedMarginOpportunity != null);
+
+    const yoyGrowthRate = stats.revenuePrior12m > 0
+        ? ((stats.revenue12m - stats.revenuePrior12m) / stats.revenuePrior12m) * 100
+        : null;
+
+    return {
+        metrics: {
+            accountId: stats.accountId,
+            last12mRevenue: stats.revenue12m.toFixed(2),
+            last3mRevenue: stats.revenue3m.toFixed(2),
+            yoyGrowthRate: yoyGrowthRate === null ? null : yoyGrowthRate.toFixed(2),
+            categoryCount: purchasedCategories,
+            categoryPenetration: categoryPenetration.toFixed(2),
+            categoryGapScore: (100 - categoryPenetration).toFixed(2),
+            matchedProfileId: profile?.id ?? null,
+            recencyScore: String(recencyScore(daysSinceLastOrder)),
+            frequencyScore: String(Math.floor(clamp100((stats.orderCount12m / FREQUENCY_FULL_SCORE_ORDERS) * 100))),
+            monetaryScore: String(Math.floor(clamp100((stats.revenue12m / MONETARY_FULL_SCORE_REVENUE) * 100))),
+            mixScore: String(Math.floor(clamp100((purchasedCategories / MIX_FULL_SCORE_CATEGORIES) * 100))),
+            orderCount12m: stats.orderCount12m,
+            daysSinceLastOrder,
+        },
+        gaps,
+        gapSizeComponent,
+        categoryCountComponent,
+        creditHeadroomComponent,
+        estimatedOpportunity: gaps.reduce((sum, g) => sum + parseFloat(g.estimatedOpportunity ?? "0"), 0),
+        estimatedMarginOpportunity: marginGaps.length === 0
+            ? null
+            : marginGaps.reduce((sum, g) => sum + parseFloat(g.estimatedMarginOpportunity!), 0),
+        competitorThreat: stats.competitorThreat ?? 0,
+        marginPct: stats.marginPct12m ?? null,
+    };
+}
+
+/** The legacy three-weight configuration expressed as scoring model factors */
+export function weightsToFactors(weights: WeightConfig): ScoringFactorWeight[] {
+    return [
+        { factor: "gap_size", weight: weights.gapSizeWeight },
+        { factor: "revenue_potential", weight: weights.revenuePotentialWeight },
+        { factor: "category_count", weight: weights.categoryCountWeight },
+    ];
+}
+
+/**
+ * Scores every factor for each account. Revenue potential, competitor threat
+ * and margin are relative to the tenant's highest value, so scores stay
+ * comparable across tenants of very different sizes.
+ */
+export function computeFactorScores(results: ComputedAccountMetrics[]): FactorScores[] {
+    const maxOpportunity = Math.max(0, ...results.map(r => r.estimatedOpportunity));
+    const maxThreat = Math.max(0, ...results.map(r => r.competitorThreat));
+    const maxMargin = Math.max(0, ...results.map(r => r.marginPct ?? 0));
+    const score = (value: string | null | undefined) => parseFloat(value ?? "0") || 0;
+
+    return results.map(r => ({
+        gap_size: r.gapSizeComponent,
+        revenue_potential: maxOpportunity > 0 ? (r.estimatedOpportunity / maxOpportunity) * 100 : 0,
+        category_count: r.categoryCountComponent,
+        recency: score(r.metrics.recencyScore),
+        frequency: score(r.metrics.frequencyScore),
+        monetary: score(r.metrics.monetaryScore),
+        mix: score(r.metrics.mixScore),
+        credit_headroom: r.creditHeadroomComponent,
+        competitor_threat: maxThreat > 0 ? (r.competitorThreat / maxThreat) * 100 : 0,
+        margin: r.marginPct !== null && maxMargin > 0 ? clamp100((r.marginPct / maxMargin) * 100) : 0,
+    }));
+}
+
+/**
+ * Applies a scoring model - the weighted average of its factors - or the legacy
+ * three-weight configuration.
+ */
+export function scoreOpportunities(
+    results: ComputedAccountMetrics[],
+    weights: WeightConfig | ScoringFactorWeight[],
+): InsertAccountMetrics[] {
+    const factors = Array.isArray(weights) ? weights : weightsToFactors(weights);
+    const totalWeight = factors.reduce((sum, f) => sum + f.weight, 0);
+    const factorScores = computeFactorScores(results);
+
+    return results.map((r, i) => {
+        const score = totalWeight > 0
+            ? factors.reduce((sum, f) => sum + factorScores[i][f.factor] * f.weight, 0) / totalWeight
+            : 0;
+        return { ...r.metrics, opportunityScore: round2(clamp100(score)).toFixed(2) };
+    });
+}
+
+/** Rank (1-based) of each account by score, highest first; ties go to the lower account id */
+function rankAccounts(scored: { accountId: number; score: number }[]): Map<number, number> {
+    const sorted = scored.slice().sort((a, b) => b.score - a.score || a.accountId - b.accountId);
+    return new Map(sorted.map((s, i) => [s.accountId, i + 1]));
+}
+
+/**
+ * Compares the top-N ranking under the current model with a candidate's. Both
+ * lists must score the same accounts.
+ */
+export function compareRankings(
+    current: { accountId: number; score: number }[],
+    candidate: { accountId: number; score: number }[],
+    topN: number = PREVIEW_TOP_N,
+): RankingPreview {
+    const currentRanks = rankAccounts(current);
+    const candidateRanks = rankAccounts(candidate);
+    const currentScores = new Map(current.map(s => [s.accountId, s.score]));
+    const candidateScores = new Map(candidate.map(s => [s.accountId, s.score]));
+    const inTop = (rank: number | undefined) => (rank !== undefined && rank <= topN ? rank : null);
+
+    const row = (accountId: number): RankingChange => ({
+        accountId,
+        currentRank: inTop(currentRanks.get(accountId)),
+        candidateRank: inTop(candidateRanks.get(accountId)),
+        currentScore: currentScores.get(accountId) ?? 0,
+        candidateScore: candidateScores.get(accountId) ?? 0,
+    });
+    const byRank = (ranks: Map<number, number>) =>
+        Array.from(ranks.entries()).filter(([, rank]) => rank <= topN).sort((a, b) => a[1] - b[1]).map(([id]) => id);
+
+    const candidateTop = byRank(candidateRanks).map(row);
+    const exiting = byRank(currentRanks).filter(id => inTop(candidateRanks.get(id)) === null).map(row);
+
+    return {
+        topN,
+        entered: candidateTop.filter(r => r.currentRank === null).length,
+        exited: exiting.length,
+        moved: candidateTop.filter(r => r.currentRank !== null && r.currentRank !== r.candidateRank).length,
+        rows: [...candidateTop, ...exiting],
+    };
+}
+
+// ─── Data loading ─────────────────────────────────────────────────────────────
+
+async function loadOrderStats(tenantId: number, asOf: Date): Promise<AccountOrderStats[]> {
+    const from12m = new Date(asOf);
+    from12m.setMonth(from12m.getMonth() - 12);
+    const from3m = new Date(asOf);
+    from3m.setMonth(from3m.getMonth() - 3);
+    const from24m = new Date(asOf);
+    from24m.setMonth(from24m.getMonth() - 24);
+    const fromCompetitor = new Date(asOf.getTime() - COMPETITOR_WINDOW_DAYS * DAY_MS);
+
+    const accountRows = await db
+        .select({
+            id: accounts.id,
+            segment: accounts.segment,
+            subSegment: accounts.subSegment,
+            creditLimit: accounts.creditLimit,
+            creditUsage: accounts.creditUsage,
+        })
+        .from(accounts)
+        .where(eq(accounts.tenantId, tenantId));
+
+    const orderResult = await db.execute(sql`
+        SELECT
+            account_id AS "accountId",
+            COALESCE(SUM(total_amount::numeric) FILTER (WHERE order_date >= ${from12m}), 0)::float AS "revenue12m",
+            COALESCE(SUM(total_amount::numeric) FILTER (WHERE order_date >= ${from3m}), 0)::float AS "revenue3m",
+            COALESCE(SUM(total_amount::numeric) FILTER (WHERE order_date >= ${from24m} AND order_date < ${from12m}), 0)::float AS "revenuePrior12m",
+            COUNT(*) FILTER (WHERE order_date >= ${from12m})::int AS "orderCount12m",
+            MAX(order_date) AS "lastOrderDate",
+            (SUM(margin_amount::numeric) FILTER (WHERE order_date >= ${from12m} AND margin_amount IS NOT NULL)
+                / NULLIF(SUM(total_amount::numeric) FILTER (WHERE order_date >= ${from12m} AND margin_amount IS NOT NULL), 0)
+                * 100)::float AS "marginPct12m"
+        FROM orders
+        WHERE tenant_id = ${tenantId} AND order_date < ${asOf}
+        GROUP BY account_id
+    `);
+
+    const categoryResult = await db.execute(sql`
+        SELECT
+            o.account_id AS "accountId",
+            p.category_id AS "categoryId",
+            SUM(oi.line_total::numeric)::float AS "spend"
+        FROM orders o
+        JOIN order_items oi ON oi.order_id = o.id AND oi.tenant_id = ${tenantId}
+        LEFT JOIN products p ON p.id = oi.product_id AND p.tenant_id = ${tenantId}
+        WHERE o.tenant_id = ${tenantId}
+            AND o.order_date >= ${from12m}
+            AND o.order_date < ${asOf}
+        GROUP BY o.account_id, p.category_id
+    `);
+
+    // Positive mentions are not a threat; the rest count by threat level
+    const mentionRows = await db
+        .select({
+            accountId: competitorMentions.accountId,
+            threatLevel: competitorMentions.threatLevel,
+            count: sql<number>`count(*)::int`,
+        })
+        .from(competitorMentions)
+        .where(and(
+            eq(competitorMentions.tenantId, tenantId),
+            isNotNull(competitorMentions.accountId),
+            ne(competitorMentions.mentionType, "positive_mention"),
+            gte(competitorMentions.createdAt, fromCompetitor),
+            lt(competitorMentions.createdAt, asOf),
+        ))
+        .groupBy(competitorMentions.accountId, competitorMentions.threatLevel);
+
+    type OrderRow = { accountId: number; revenue12m: number; revenue3m: number; revenuePrior12m: number; orderCount12m: number; lastOrderDate: string | Date | null; marginPct12m: number | null };
+    type CategoryRow = { accountId: number; categoryId: number | null; spend: number };
+
+    const ordersByAccount = new Map<number, OrderRow>();
+    for (const row of (orderResult.rows || []) as OrderRow[]) {
+        ordersByAccount.set(row.accountId, row);
+    }
+
+    const categoriesByAccount = new Map<number, { spend: Map<number, number>; total: number }>();
+    for (const row of (categoryResult.rows || []) as CategoryRow[]) {
+        if (!categoriesByAccount.has(row.accountId)) {
+            categoriesByAccount.set(row.accountId, { spend: new Map(), total: 0 });
+        }
+        const entry = categoriesByAccount.get(row.accountId)!;
+        entry.total += Number(row.spend);
+        if (row.categoryId !== null) entry.spend.set(row.categoryId, Number(row.spend));
+    }
+
+    const threatByAccount = new Map<number, number>();
+    for (const row of mentionRows) {
+        const weight = THREAT_LEVEL_WEIGHTS[row.threatLevel ?? "medium"] ?? THREAT_LEVEL_WEIGHTS.medium;
+        threatByAccount.set(row.accountId!, (threatByAccount.get(row.accountId!) ?? 0) + weight * Number(row.count));
+    }
+
+    return accountRows.map(a => {
+        const o = ordersByAccount.get(a.id);
+        const c = categoriesByAccount.get(a.id);
+        return {
+            accountId: a.id,
+            segment: a.segment,
+            subSegment: a.subSegment,
+            revenue12m: Number(o?.revenue12m ?? 0),
+            revenue3m: Number(o?.revenue3m ?? 0),
+            revenuePrior12m: Number(o?.revenuePrior12m ?? 0),
+            orderCount12m: Number(o?.orderCount12m ?? 0),
+            lastOrderDate: o?.lastOrderDate ? new Date(o.lastOrderDate) : null,
+            categorySpend: c?.spend ?? new Map(),
+            totalLineSpend: c?.total ?? 0,
+            creditLimit: a.creditLimit === null ? null : parseFloat(a.creditLimit),
+            creditUsage: a.creditUsage === null ? null : parseFloat(a.creditUsage),
+            competitorThreat: threatByAccount.get(a.id) ?? 0,
+            marginPct12m: o?.marginPct12m === null || o?.marginPct12m === undefined ? null : Number(o.marginPct12m),
+        };
+    });
+}
+
+async function loadApprovedProfiles(tenantId: number, taxonomy: CategoryTaxonomy): Promise<IcpProfile[]> {
+    const profiles = await db
+        .select()
+        .from(segmentProfiles)
+        .where(and(eq(segmentProfiles.tenantId, tenantId), eq(segmentProfiles.status, "approved")));
+    if (profiles.length === 0) return [];
+
+    const categories = await db
+        .select()
+        .from(profileCategories)
+        .where(and(
+            eq(profileCategories.tenantId, tenantId),
+            inArray(profileCategories.profileId, profiles.map(p => p.id)),
+        ));
+
+    return profiles.map(p => ({
+        id: p.id,
+        segment: p.segment,
+        subSegment: p.subSegment,
+        categories: categories
+            .filter(c => c.profileId === p.id && c.expectedPct !== null)
+            .map(c => ({
+                categoryId: c.categoryId,
+                expectedPct: parseFloat(c.expectedPct!),
+                importance: parseFloat(c.importance ?? "1") || 1,
+                coveredCategoryIds: taxonomy.subtree(c.categoryId),
+            })),
+    }));
+}
+
+async function loadWeights(tenantId: number): Promise<WeightConfig> {
+    const [weights] = await db
+        .select()
+        .from(scoringWeights)
+        .where(and(eq(scoringWeights.tenantId, tenantId), eq(scoringWeights.isActive, true)));
+    if (!weights) return { ...DEFAULT_SCORING_WEIGHTS };
+    return {
+        gapSizeWeight: parseFloat(weights.gapSizeWeight),
+        revenuePotentialWeight: parseFloat(weights.revenuePotentialWeight),
+        categoryCountWeight: parseFloat(weights.categoryCountWeight),
+    };
+}
+
+/** The tenant's active scoring model version, else the legacy scoring_weights row or the defaults */
+async function loadScoringModel(tenantId: number): Promise<ActiveScoringModel> {
+    const [model] = await db
+        .select()
+        .from(scoringModels)
+        .where(and(eq(scoringModels.tenantId, tenantId), eq(scoringModels.status, "active")));
+    if (model) return { id: model.id, version: model.version, name: model.name, factors: model.factors };
+    return { id: null, version: null, name: "Legacy weights", factors: weightsToFactors(await loadWeights(tenantId)) };
+}
+
+// ─── Snapshots ────────────────────────────────────────────────────────────────
+
+/** First day of the month (UTC) containing `date` */
+export function startOfMonthUtc(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export interface SnapshotMonth {
+    month: Date;    // snapshot_month the row is stored under
+    asOf: Date;     // instant the month is evaluated at
+}
+
+/**
+ * The current (partial) month as of `asOf`, followed by `backfillMonths` completed
+ * months, newest first. Completed months are evaluated as of the first instant of
+ * the following month, so a month's snapshot covers orders through its last day.
+ */
+export function snapshotMonths(asOf: Date, backfillMonths: number): SnapshotMonth[] {
+    const current = startOfMonthUtc(asOf);
+    const months: SnapshotMonth[] = [{ month: current, asOf }];
+    for (let i = 1; i <= backfillMonths; i++) {
+        months.push({
+            month: new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - i, 1)),
+            asOf: new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - i + 1, 1)),
+        });
+    }
+    return months;
+}
+
+type MetricsRow = InsertAccountMetrics & { tenantId: number; computedAt: Date };
+type GapRow = InsertAccountCategoryGap & { tenantId: number; computedAt: Date };
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function writeMonthSnapshot(tx: Tx, tenantId: number, month: Date, metricsRows: MetricsRow[], gapRows: GapRow[]): Promise<void> {
+    const gapTotals = new Map<number, number>();
+    const gapMarginTotals = new Map<number, number>();
+    for (const g of gapRows) {
+        gapTotals.set(g.accountId, (gapTotals.get(g.accountId) ?? 0) + parseFloat(g.estimatedOpportunity ?? "0"));
+        if (g.estimatedMarginOpportunity != null) {
+            gapMarginTotals.set(g.accountId, (gapMarginTotals.get(g.accountId) ?? 0) + parseFloat(g.estimatedMarginOpportunity));
+        }
+    }
+
+    await tx.delete(accountCategoryGapSnapshots).where(and(
+        eq(accountCategoryGapSnapshots.tenantId, tenantId),
+        eq(accountCategoryGapSnapshots.snapshotMonth, month),
+    ));
+    await tx.delete(accountMetricsSnapshots).where(and(
+        eq(accountMetricsSnapshots.tenantId, tenantId),
+        eq(accountMetricsSnapshots.snapshotMonth, month),
+    ));
+
+    const snapshotRows = metricsRows.map(m => ({
+        ...m,
+        snapshotMonth: month,
+        gapOpportunity: (gapTotals.get(m.accountId) ?? 0).toFixed(2),
+        gapMarginOpportunity: gapMarginTotals.get(m.accountId)?.toFixed(2) ?? null,
+    }));
+    const gapSnapshotRows = gapRows.map(g => ({ ...g, snapshotMonth: month }));
+    for (let i = 0; i < snapshotRows.length; i += INSERT_CHUNK_SIZE) {
+        await tx.insert(accountMetricsSnapshots).values(snapshotRows.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+    for (let i = 0; i < gapSnapshotRows.length; i += INSERT_CHUNK_SIZE) {
+        await tx.insert(accountCategoryGapSnapshots).values(gapSnapshotRows.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+}
+
+// ─── Main service ─────────────────────────────────────────────────────────────
+
+export interface RecomputeOptions {
+    /** Also rebuild this many completed months of history from order data (e.g. after a historical orders upload) */
+    backfillMonths?: number;
+}
+
+const inFlight = new Map<number, Promise<RecomputeResult>>();
+const pendingReruns = new Map<number, RecomputeOptions>();
+
+/**
+ * Recomputes metrics and gaps for every account in the tenant, replacing the
+ * previous rows and the current month's snapshot in a single transaction.
+ * Concurrent calls for the same tenant (e.g. several uploads in a row) are
+ * coalesced into one follow-up run.
+ */
+export async function recomputeAccountMetrics(tenantId: number, options: RecomputeOptions = {}): Promise<RecomputeResult> {
+    const running = inFlight.get(tenantId);
+    if (running) {
+        const pending = pendingReruns.get(tenantId);
+        pendingReruns.set(tenantId, {
+            backfillMonths: Math.max(pending?.backfillMonths ?? 0, options.backfillMonths ?? 0),
+        });
+        return running;
+    }
+
+    const run = (async () => {
+        let result = await runRecompute(tenantId, options);
+        while (pendingReruns.has(tenantId)) {
+            const next = pendingReruns.get(tenantId)!;
+            pendingReruns.delete(tenantId);
+            result = await runRecompute(tenantId, next);
+        }
+        return result;
+    })();
+
+    inFlight.set(tenantId, run);
+    try {
+        return await run;
+    } finally {
+        inFlight.delete(tenantId);
+    }
+}
+
+async function loadComputeInputs(tenantId: number, asOf: Date) {
+    const taxonomy = await loadTaxonomy(tenantId);
+    const [profiles, model, marginBenchmarks, links, [{ categoryCount }]] = await Promise.all([
+        loadApprovedProfiles(tenantId, taxonomy),
+        loadScoringModel(tenantId),
+        loadMarginBenchmarks(tenantId, asOf, taxonomy),
+        loadAccountLinks(tenantId),
+        // Breadth is measured over leaf categories, where products are filed
+        db.select({ categoryCount: sql<number>`count(*)::int` })
+            .from(productCategories)
+            .where(and(
+                eq(productCategories.tenantId, tenantId),
+                sql`NOT EXISTS (SELECT 1 FROM product_categories child WHERE child.parent_id = ${productCategories.id})`,
+            )),
+    ]);
+    const marginRate = buildMarginRateLookup(marginBenchmarks);
+    const rootOf = resolveRootAccounts(links);
+    const families = accountFamilies(rootOf);
+
+    // Parents are computed over their whole family; branches only for their own order metrics
+    const computeAt = async (at: Date) => {
+        const stats = await loadOrderStats(tenantId, at);
+        const statsById = new Map(stats.map(s => [s.accountId, s]));
+        const parents: ComputedAccountMetrics[] = [];
+        const branches: ComputedAccountMetrics[] = [];
+        for (const s of stats) {
+            const rootStats = statsById.get(rootOf.get(s.accountId) ?? s.accountId) ?? s;
+            const profile = matchProfile(rootStats, profiles);
+            if (rootStats !== s) {
+                branches.push({ ...computeAccountMetrics(s, profile, categoryCount, at), gaps: [] });
+                continue;
+            }
+            const family = (families.get(s.accountId) ?? [s.accountId])
+                .map(id => statsById.get(id))
+                .filter((f): f is AccountOrderStats => f !== undefined);
+            parents.push(computeAccountMetrics(
+                family.length > 1 ? rollupOrderStats(family) : s,
+                profile,
+                categoryCount,
+                at,
+                categoryId => marginRate(s.segment, categoryId)?.marginRate ?? null,
+            ));
+        }
+        return { parents, branches };
+    };
+    return { model, marginBenchmarks, computeAt };
+}
+
+async function runRecompute(tenantId: number, options: RecomputeOptions): Promise<RecomputeResult> {
+    const started = Date.now();
+    const asOf = new Date();
+    const { model, marginBenchmarks, computeAt } = await loadComputeInputs(tenantId, asOf);
+
+    const computeAsOf = async (at: Date) => {
+        const { parents, branches } = await computeAt(at);
+        const metricsRows: MetricsRow[] = [
+            ...scoreOpportunities(parents, model.factors).map(m => ({ ...m, scoringModelId: model.id })),
+            ...branches.map(b => ({ ...b.metrics, opportunityScore: null, scoringModelId: null })),
+        ].map(m => ({ ...m, tenantId, computedAt: asOf }));
+        const gapRows: GapRow[] = parents.flatMap(c => c.gaps.map(g => ({ ...g, tenantId, computedAt: asOf })));
+        return { metricsRows, gapRows, branchCount: branches.length };
+    };
+
+    const backfillMonths = Math.min(options.backfillMonths ?? 0, MAX_BACKFILL_MONTHS);
+    const [current, ...history] = snapshotMonths(asOf, backfillMonths);
+    const { metricsRows, gapRows, branchCount } = await computeAsOf(asOf);
+
+    await db.transaction(async (tx) => {
+        await tx.delete(accountCategoryGaps).where(eq(accountCategoryGaps.tenantId, tenantId));
+        await tx.delete(accountMetrics).where(eq(accountMetrics.tenantId, tenantId));
+        for (let i = 0; i < metricsRows.length; i += INSERT_CHUNK_SIZE) {
+            await tx.insert(accountMetrics).values(metricsRows.slice(i, i + INSERT_CHUNK_SIZE));
+        }
+        for (let i = 0; i < gapRows.length; i += INSERT_CHUNK_SIZE) {
+            await tx.insert(accountCategoryGaps).values(gapRows.slice(i, i + INSERT_CHUNK_SIZE));
+        }
+        await writeMonthSnapshot(tx, tenantId, current.month, metricsRows, gapRows);
+        await writeMarginBenchmarks(tx, tenantId, marginBenchmarks, asOf);
+    });
+
+    // History uses today's ICPs, scoring model and margin benchmarks, so trends reflect behaviour, not config changes.
+    for (const { month, asOf: monthEnd } of history) {
+        const snapshot = await computeAsOf(monthEnd);
+        await db.transaction(tx => writeMonthSnapshot(tx, tenantId, month, snapshot.metricsRows, snapshot.gapRows));
+    }
+
+    const result: RecomputeResult = {
+        accounts: metricsRows.length,
+        branchAccounts: branchCount,
+        matchedAccounts: metricsRows.filter(m => m.matchedProfileId !== null).length,
+        gaps: gapRows.length,
+        backfilledMonths: backfillMonths,
+        durationMs: Date.now() - started,
+    };
+    console.log(`[metrics-engine] Tenant ${tenantId}: ${result.accounts} accounts (${result.branchAccounts} branches rolled up, ${result.matchedAccounts} matched to an ICP), ${result.gaps} gaps, ${backfillMonths} months backfilled in ${result.durationMs}ms`);
+    return result;
+}
+
+// ─── Model preview ────────────────────────────────────────────────────────────
+
+export interface ScoringModelPreview extends RankingPreview {
+    currentModel: Omit<ActiveScoringModel, "factors">;
+    rows: (RankingChange & { accountName: string })[];
+}
+
+/**
+ * What-if for a candidate model: scores today's data with both the active model
+ * and the candidate factors and compares the top-N rankings. Nothing is written.
+ */
+export async function previewScoringModel(
+    tenantId: number,
+    factors: ScoringFactorWeight[],
+    topN: number = PREVIEW_TOP_N,
+): Promise<ScoringModelPreview> {
+    const asOf = new Date();
+    const { model, computeAt } = await loadComputeInputs(tenantId, asOf);
+    const { parents: computed } = await computeAt(asOf);
+
+    const scored = (weights: ScoringFactorWeight[]) => scoreOpportunities(computed, weights)
+        .map(m => ({ accountId: m.accountId, score: parseFloat(m.opportunityScore ?? "0") }));
+    const preview = compareRankings(scored(model.factors), scored(factors), topN);
+
+    const ids = preview.rows.map(r => r.accountId);
+    const names = ids.length === 0 ? [] : await db
+        .select({ id: accounts.id, name: accounts.name })
+        .from(accounts)
+        .where(and(eq(accounts.tenantId, tenantId), inArray(accounts.id, ids)));
+    const nameById = new Map(names.map(n => [n.id, n.name]));
+
+    return {
+        ...preview,
+        currentModel: { id: model.id, version: model.version, name: model.name },
+        rows: preview.rows.map(r => ({ ...r, accountName: nameById.get(r.accountId) ?? `Account ${r.accountId}` })),
+    };
+}
@@ -0,0 +1,197 @@
+/**
+ * Program Baselines
+ *
+ * (Used by POST /api/accounts/:id/enroll, POST /api/program-accounts, the
+ *  monthly program revenue close, graduation and graduation analytics)
+ *
+ * A fee-for-success contract pays on revenue above an agreed baseline. The
+ * method is chosen per enrollment and stored on program_accounts:
+ *   trailing_12            – the account family's last-12-month revenue
+ *                            (account_metrics), spread evenly over days
+ *   same_period_prior_year – the 12 complete months before enrollment, month by
+ *                            month, so each March is measured against last March
+ *   seasonally_adjusted    – the trailing-12 total shaped by the account's
+ *                            seasonality multipliers (see seasonality.ts)
+ *   negotiated             – an annual figure agreed with the customer, spread evenly
+ * Methods with a monthly shape store baselineMonthly (expected revenue for each
+ * calendar month). expectedBaseline() turns either form into the baseline for
+ * any date range, which keeps snapshots and graduation figures in step.
+ *
+ * The baseline math is pure (see buildProgramBaseline / expectedBaseline) so it
+ * can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import { accountMetrics, accounts, type ProgramAccount, type ProgramBaselineMethod } from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { DEFAULT_VALUES } from "../utils/constants";
+import { accountFamilies, loadAccountLinks, resolveRootAccounts } from "./account-hierarchy";
+import { completeMonths, type MonthlySeries } from "./seasonality";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ProgramBaseline {
+    baselineMethod: ProgramBaselineMethod;
+    baselineStart: Date;
+    baselineEnd: Date;
+    baselineRevenue: number;             // Annual
+    baselineMonthly: number[] | null;    // Jan..Dec; null = baselineRevenue spread evenly over days
+}
+
+export interface BaselineInputs {
+    asOf: Date;                          // Enrollment date
+    last12mRevenue: number | null;       // From account_metrics; null when metrics haven't run
+    priorYear: MonthlySeries;            // The 12 complete months before asOf's month
+    multipliers: number[] | null;        // accounts.seasonality_profile
+    negotiatedRevenue?: number;
+}
+
+// ─── Baseline math ────────────────────────────────────────────────────────────
+
+/** Baseline revenue scaled from the baseline window's length to [from, to) */
+export function proratedBaseline(baselineRevenue: number, baselineStart: Date, baselineEnd: Date, from: Date, to: Date): number {
+    const baselineMs = baselineEnd.getTime() - baselineStart.getTime();
+    if (baselineMs <= 0 || to <= from) return 0;
+    return baselineRevenue * (to.getTime() - from.getTime()) / baselineMs;
+}
+
+export function buildProgramBaseline(method: ProgramBaselineMethod, inputs: BaselineInputs): ProgramBaseline {
+    const yearBefore = new Date(inputs.asOf);
+    yearBefore.setUTCFullYear(yearBefore.getUTCFullYear() - 1);
+    const trailing = inputs.last12mRevenue ?? DEFAULT_VALUES.BASELINE_REVENUE;
+
+    switch (method) {
+        case "same_period_prior_year": {
+            const monthly = Array.from({ length: 12 }, () => 0);
+            inputs.priorYear.months.forEach((month, i) => {
+                monthly[parseInt(month.slice(5, 7), 10) - 1] += inputs.priorYear.revenue[i];
+            });
+            const first = inputs.priorYear.months[0];
+            const start = first ? new Date(`${first}-01T00:00:00Z`) : yearBefore;
+            return {
+                baselineMethod: method,
+                baselineStart: start,
+                baselineEnd: new Date(Date.UTC(start.getUTCFullYear() + 1, start.getUTCMonth(), 1)),
+                baselineRevenue: monthly.reduce((a, b) => a + b, 0),
+                baselineMonthly: monthly,
+            };
+        }
+        case "seasonally_adjusted": {
+            const multipliers = inputs.multipliers?.length === 12 ? inputs.multipliers : null;
+            const mean = multipliers ? multipliers.reduce((a, b) => a + b, 0) / 12 : 0;
+            return {
+                baselineMethod: method,
+                baselineStart: yearBefore,
+                baselineEnd: inputs.asOf,
+                baselineRevenue: trailing,
+                baselineMonthly: multipliers && mean > 0
+                    ? multipliers.map(m => (trailing / 12) * (m / mean))
+                    : Array.from({ length: 12 }, () => trailing / 12),
+            };
+        }
+        case "negotiated":
+            if (inputs.negotiatedRevenue === undefined) throw new Error("A negotiated baseline needs an agreed annual revenue");
+            return {
+                baselineMethod: method,
+                baselineStart: yearBefore,
+                baselineEnd: inputs.asOf,
+                baselineRevenue: inputs.negotiatedRevenue,
+                baselineMonthly: null,
+            };
+        case "trailing_12":
+            return {
+                baselineMethod: method,
+                baselineStart: yearBefore,
+                baselineEnd: inputs.asOf,
+                baselineRevenue: trailing,
+                baselineMonthly: null,
+            };
+    }
+}
+
+/**
+ * Expected revenue over [from, to): a monthly baseline contributes each
+ * overlapped calendar month in proportion to the days covered; otherwise the
+ * annual figure is pro-rated over the baseline window.
+ */
+export function expectedBaseline(
+    baseline: Pick<ProgramBaseline, "baselineStart" | "baselineEnd" | "baselineRevenue" | "baselineMonthly">,
+    from: Date,
+    to: Date,
+): number {
+    if (to <= from) return 0;
+    if (!baseline.baselineMonthly) {
+        return proratedBaseline(baseline.baselineRevenue, baseline.baselineStart, baseline.baselineEnd, from, to);
+    }
+
+    let total = 0;
+    let monthStart = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+    while (monthStart < to) {
+        const monthEnd = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1));
+        const overlap = Math.min(to.getTime(), monthEnd.getTime()) - Math.max(from.getTime(), monthStart.getTime());
+        if (overlap > 0) {
+            total += (baseline.baselineMonthly[monthStart.getUTCMonth()] ?? 0) * overlap / (monthEnd.getTime() - monthStart.getTime());
+        }
+        monthStart = monthEnd;
+    }
+    return total;
+}
+
+/** The stored baseline of an enrollment, in numbers */
+export function programAccountBaseline(pa: ProgramAccount): ProgramBaseline {
+    return {
+        baselineMethod: pa.baselineMethod as ProgramBaselineMethod,
+        baselineStart: pa.baselineStart,
+        baselineEnd: pa.baselineEnd,
+        baselineRevenue: parseFloat(pa.baselineRevenue),
+        baselineMonthly: pa.baselineMonthly ?? null,
+    };
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+/** Computes the baseline for enrolling `accountId` (a top-level account) today */
+export async function resolveProgramBaseline(
+    tenantId: number,
+    accountId: number,
+    method: ProgramBaselineMethod,
+    options: { negotiatedRevenue?: number; asOf?: Date } = {},
+): Promise<ProgramBaseline> {
+    const asOf = options.asOf ?? new Date();
+    const months = completeMonths(asOf, 12);
+    const from = new Date(`${months[0]}-01T00:00:00Z`);
+    const to = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), 1));
+
+    const links = await loadAccountLinks(tenantId);
+    const family = accountFamilies(resolveRootAccounts(links)).get(accountId) ?? [accountId];
+
+    const [[metrics], [account], revenueResult] = await Promise.all([
+        db.select({ last12mRevenue: accountMetrics.last12mRevenue }).from(accountMetrics)
+            .where(and(eq(accountMetrics.tenantId, tenantId), eq(accountMetrics.accountId, accountId))),
+        db.select({ seasonalityProfile: accounts.seasonalityProfile }).from(accounts)
+            .where(and(eq(accounts.tenantId, tenantId), eq(accounts.id, accountId))),
+        method === "same_period_prior_year"
+            ? db.execute(sql`
+                SELECT to_char(order_date, 'YYYY-MM') AS "month",
+                       SUM(total_amount::numeric)::float AS "revenue"
+                FROM orders
+                WHERE tenant_id = ${tenantId}
+                    AND account_id IN (${sql.join(family.map(id => sql`${id}`), sql`, `)})
+                    AND order_date >= ${from}
+                    AND order_date < ${to}
+                GROUP BY to_char(order_date, 'YYYY-MM')
+            `)
+            : Promise.resolve({ rows: [] }),
+    ]);
+
+    const byMonth = new Map(
+        ((revenueResult.rows || []) as { month: string; revenue: number }[]).map(r => [r.month, Number(r.revenue)]),
+    );
+    return buildProgramBaseline(method, {
+        asOf,
+        last12mRevenue: metrics?.last12mRevenue ? parseFloat(metrics.last12mRevenue) : null,
+        priorYear: { months, revenue: months.map(m => byMonth.get(m) ?? 0) },
+        multipliers: account?.seasonalityProfile?.multipliers ?? null,
+        negotiatedRevenue: options.negotiatedRevenue,
+    });
+}
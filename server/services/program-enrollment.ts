@@ -0,0 +1,211 @@
+/**
+ * Program Enrollment Lifecycle
+ *
+ * POST /api/program-accounts/:id/pause
+ * POST /api/program-accounts/:id/resume
+ * POST /api/program-accounts/:id/withdraw
+ * POST /api/program-accounts/:id/graduate
+ * (Enrolling and re-enrolling are POST /api/accounts/:id/enroll)
+ *
+ * An enrollment (one program_accounts row) moves through:
+ *   active ⇄ paused                 pausing needs a reason code; paused days count
+ *                                   toward neither revenue, baseline nor fees in the
+ *                                   monthly close (see program-revenue.ts)
+ *   active | paused → graduated | withdrawn      final for that row
+ * A graduated or withdrawn account can be enrolled again; that starts a new row
+ * with a fresh baseline and a fresh program-to-date fee, linked to the old one by
+ * previousProgramAccountId. Every change is written to program_enrollment_events
+ * with who, when and why, which is also where pause periods are read from.
+ *
+ * The transition rules and pause arithmetic are pure (see checkTransition /
+ * pauseIntervals / activeIntervals) so they can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import {
+    programAccounts,
+    programEnrollmentEvents,
+    type InsertProgramAccount,
+    type ProgramAccount,
+    type ProgramEnrollmentEvent,
+    type ProgramEnrollmentReasonCode,
+    type ProgramEnrollmentStatus,
+} from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type EnrollmentAction = "pause" | "resume" | "graduate" | "withdraw";
+
+export interface EnrollmentTransitionRule {
+    from: ProgramEnrollmentStatus[];
+    to: ProgramEnrollmentStatus;
+    event: ProgramEnrollmentEvent;
+    reasonRequired: boolean;
+}
+
+export interface PauseInterval {
+    from: Date;
+    to: Date | null; // null = still paused
+}
+
+export class EnrollmentTransitionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "EnrollmentTransitionError";
+    }
+}
+
+// ─── State machine ────────────────────────────────────────────────────────────
+
+export const ENROLLMENT_TRANSITIONS: Record<EnrollmentAction, EnrollmentTransitionRule> = {
+    pause: { from: ["active"], to: "paused", event: "paused", reasonRequired: true },
+    resume: { from: ["paused"], to: "active", event: "resumed", reasonRequired: false },
+    graduate: { from: ["active", "paused"], to: "graduated", event: "graduated", reasonRequired: false },
+    withdraw: { from: ["active", "paused"], to: "withdrawn", event: "withdrawn", reasonRequired: true },
+};
+
+/** Statuses that hold an account in the program; anything else can be enrolled again */
+export const CURRENT_ENROLLMENT_STATUSES: ProgramEnrollmentStatus[] = ["active", "paused"];
+
+/** Why `action` isn't allowed from `status`, or null when it is */
+export function checkTransition(status: string | null, action: EnrollmentAction, reasonCode?: ProgramEnrollmentReasonCode): string | null {
+    const rule = ENROLLMENT_TRANSITIONS[action];
+    const current = status ?? "active";
+    if (!(rule.from as string[]).includes(current)) {
+        return `Can't ${action} an enrollment that is ${current}`;
+    }
+    if (rule.reasonRequired && !reasonCode) {
+        return `A reason code is required to ${action}`;
+    }
+    return null;
+}
+
+// ─── Pause arithmetic ─────────────────────────────────────────────────────────
+
+const startOfDay = (d: Date) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+
+/**
+ * Pause periods from an enrollment's history, oldest first. Whole days are
+ * paused: from the pause day up to (not including) the resume day. A row that
+ * is paused without a recorded pause (older data) counts as paused throughout.
+ */
+export function pauseIntervals(
+    events: { event: string; occurredAt: Date }[],
+    status: string | null,
+): PauseInterval[] {
+    const intervals: PauseInterval[] = [];
+    let open: Date | null = null;
+    for (const e of [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())) {
+        if (e.event === "paused" && open === null) {
+            open = startOfDay(e.occurredAt);
+        } else if (e.event === "resumed" && open !== null) {
+            const resumed = startOfDay(e.occurredAt);
+            if (resumed > open) intervals.push({ from: open, to: resumed });
+            open = null;
+        }
+    }
+    if (open !== null) intervals.push({ from: open, to: null });
+    else if (status === "paused") intervals.push({ from: new Date(0), to: null });
+    return intervals;
+}
+
+/** [from, to) with the paused days taken out, as consecutive ranges */
+export function activeIntervals(from: Date, to: Date, pauses: PauseInterval[]): { from: Date; to: Date }[] {
+    const ranges: { from: Date; to: Date }[] = [];
+    let cursor = from;
+    for (const p of [...pauses].sort((a, b) => a.from.getTime() - b.from.getTime())) {
+        if (p.to !== null && p.to <= cursor) continue;
+        if (p.from >= to) break;
+        if (p.from > cursor) ranges.push({ from: cursor, to: p.from });
+        if (p.to === null || p.to >= to) return ranges;
+        cursor = p.to;
+    }
+    if (cursor < to) ranges.push({ from: cursor, to });
+    return ranges;
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+/** Pause periods of each of a tenant's enrollments that have any */
+export async function loadPauseIntervals(
+    tenantId: number,
+    enrollments: Pick<ProgramAccount, "id" | "status">[],
+): Promise<Map<number, PauseInterval[]>> {
+    const result = new Map<number, PauseInterval[]>();
+    if (enrollments.length === 0) return result;
+
+    const events = await db.select({
+        programAccountId: programEnrollmentEvents.programAccountId,
+        event: programEnrollmentEvents.event,
+        occurredAt: programEnrollmentEvents.occurredAt,
+    })
+        .from(programEnrollmentEvents)
+        .where(and(
+            eq(programEnrollmentEvents.tenantId, tenantId),
+            inArray(programEnrollmentEvents.event, ["paused", "resumed"]),
+        ));
+    for (const pa of enrollments) {
+        const intervals = pauseIntervals(events.filter(e => e.programAccountId === pa.id), pa.status);
+        if (intervals.length > 0) result.set(pa.id, intervals);
+    }
+    return result;
+}
+
+/**
+ * Moves an enrollment to its next state and records why. `changes` are
+ * written with the status (graduation figures, for example). Returns null when
+ * the enrollment doesn't exist; a transition the current state doesn't allow
+ * throws EnrollmentTransitionError.
+ */
+export async function transitionEnrollment(
+    tenantId: number,
+    programAccountId: number,
+    action: EnrollmentAction,
+    options: {
+        reasonCode?: ProgramEnrollmentReasonCode;
+        notes?: string | null;
+        actor?: string | null;
+        changes?: Partial<InsertProgramAccount>;
+    } = {},
+): Promise<ProgramAccount | null> {
+    const rule = ENROLLMENT_TRANSITIONS[action];
+    const now = new Date();
+
+    return db.transaction(async (tx) => {
+        const [current] = await tx.select().from(programAccounts)
+            .where(and(eq(programAccounts.id, programAccountId), eq(programAccounts.tenantId, tenantId)));
+        if (!current) return null;
+        const problem = checkTransition(current.status, action, options.reasonCode);
+        if (problem) throw new EnrollmentTransitionError(problem);
+
+        // The status condition keeps two concurrent transitions from both applying
+        const [updated] = await tx.update(programAccounts)
+            .set({
+                ...options.changes,
+                status: rule.to,
+                ...(action === "withdraw" ? { withdrawnAt: now } : {}),
+            })
+            .where(and(
+                eq(programAccounts.id, programAccountId),
+                eq(programAccounts.tenantId, tenantId),
+                eq(programAccounts.status, current.status ?? "active"),
+            ))
+            .returning();
+        if (!updated) throw new EnrollmentTransitionError("The enrollment changed while it was being updated; try again");
+
+        await tx.insert(programEnrollmentEvents).values({
+            tenantId,
+            programAccountId,
+            accountId: current.accountId,
+            event: rule.event,
+            fromStatus: current.status ?? "active",
+            toStatus: rule.to,
+            reasonCode: options.reasonCode ?? null,
+            notes: options.notes || null,
+            actor: options.actor ?? null,
+            occurredAt: now,
+        });
+        return updated;
+    });
+}
@@ -0,0 +1,261 @@
+/**
+ * Program Holdout Groups
+ *
+ * POST /api/program-accounts/:id/holdouts/assign
+ * (Lift is also computed by the monthly program revenue close and
+ *  GET /api/program-accounts/graduation-analytics)
+ *
+ * Revenue above baseline includes growth the account would have had anyway.
+ * Each enrollment can keep a small control group of look-alike accounts out
+ * of the program, and lift is measured by difference-in-differences:
+ *   1. Controls are top-level accounts that are not enrolled and not already
+ *      in another group, taken first from agent_similar_account_pairs (best
+ *      score first), then from the same segment (same region first) with the
+ *      closest trailing revenue
+ *   2. Organic growth factor = the controls' revenue over the measured days ÷
+ *      their revenue over the same days a year earlier (seasonality cancels out)
+ *   3. Organic revenue = expected baseline × (factor − 1); attributed lift =
+ *      incremental revenue − organic revenue
+ * Without a holdout group (or without control revenue a year earlier) the
+ * whole incremental revenue counts as attributed, as before.
+ *
+ * Matching and the lift math are pure (see pickHoldoutAccounts /
+ * differenceInDifferences) so they can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import {
+    accountMetrics,
+    accounts,
+    agentSimilarAccountPairs,
+    programAccounts,
+    programHoldoutAccounts,
+    type ProgramHoldoutAccount,
+    type ProgramHoldoutMatchMethod,
+} from "@shared/schema";
+import { and, eq, sql, type SQL } from "drizzle-orm";
+import { accountFamilies, loadAccountLinks, resolveRootAccounts } from "./account-hierarchy";
+
+export const DEFAULT_HOLDOUT_SIZE = 3;
+export const MAX_HOLDOUT_SIZE = 10;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface HoldoutCandidate {
+    accountId: number;
+    segment: string | null;
+    region: string | null;
+    revenue: number; // Trailing 12 months
+}
+
+export interface HoldoutPick {
+    accountId: number;
+    matchMethod: ProgramHoldoutMatchMethod;
+    similarityScore: number | null;
+}
+
+export interface ControlRevenue {
+    holdoutCount: number;
+    revenue: number;       // Over the measured days
+    priorRevenue: number;  // Over the same days a year earlier
+}
+
+export interface ProgramLift {
+    organic: number;
+    attributed: number;
+    controlGrowthPct: number | null; // null = no usable control group
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** How far apart two revenues are, as a ratio (0 = equal) */
+function revenueDistance(a: number, b: number): number {
+    return Math.abs(Math.log((Math.max(a, 0) + 1) / (Math.max(b, 0) + 1)));
+}
+
+/**
+ * Up to `size` controls for an enrolled account. `candidates` must already be
+ * limited to eligible accounts; similar pairs pointing elsewhere are ignored.
+ */
+export function pickHoldoutAccounts(
+    enrolled: HoldoutCandidate,
+    candidates: HoldoutCandidate[],
+    similarPairs: { accountId: number; score: number }[],
+    size: number,
+): HoldoutPick[] {
+    const eligible = new Map(candidates.filter(c => c.accountId !== enrolled.accountId).map(c => [c.accountId, c]));
+    const picks: HoldoutPick[] = [];
+
+    for (const pair of [...similarPairs].sort((a, b) => b.score - a.score)) {
+        if (picks.length >= size) break;
+        if (!eligible.has(pair.accountId)) continue;
+        picks.push({ accountId: pair.accountId, matchMethod: "similar_pair", similarityScore: pair.score });
+        eligible.delete(pair.accountId);
+    }
+
+    if (enrolled.segment) {
+        const sameSegment = Array.from(eligible.values())
+            .filter(c => c.segment === enrolled.segment)
+            .sort((a, b) =>
+                Number(b.region === enrolled.region && enrolled.region !== null) - Number(a.region === enrolled.region && enrolled.region !== null)
+                || revenueDistance(a.revenue, enrolled.revenue) - revenueDistance(b.revenue, enrolled.revenue)
+                || a.accountId - b.accountId);
+        for (const c of sameSegment) {
+            if (picks.length >= size) break;
+            picks.push({ accountId: c.accountId, matchMethod: "segment_region", similarityScore: null });
+        }
+    }
+    return picks;
+}
+
+// ─── Lift ─────────────────────────────────────────────────────────────────────
+
+export function differenceInDifferences(incremental: number, expectedBaseline: number, control: ControlRevenue | null): ProgramLift {
+    if (!control || control.holdoutCount === 0 || control.priorRevenue <= 0) {
+        return { organic: 0, attributed: round2(incremental), controlGrowthPct: null };
+    }
+    const growth = control.revenue / control.priorRevenue;
+    const organic = expectedBaseline * (growth - 1);
+    return {
+        organic: round2(organic),
+        attributed: round2(incremental - organic),
+        controlGrowthPct: round2((growth - 1) * 100),
+    };
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+/**
+ * Control group revenue per enrollment over [from, to) and the same days a
+ * year earlier, counting each control's branches. Enrollments without a
+ * holdout group are left out of the map.
+ */
+export async function loadControlRevenue(
+    tenantId: number,
+    windows: { programAccountId: number; from: Date; to: Date }[],
+): Promise<Map<number, ControlRevenue>> {
+    const result = new Map<number, ControlRevenue>();
+    if (windows.length === 0) return result;
+
+    const [holdouts, links] = await Promise.all([
+        db.select().from(programHoldoutAccounts).where(eq(programHoldoutAccounts.tenantId, tenantId)),
+        loadAccountLinks(tenantId),
+    ]);
+    const families = accountFamilies(resolveRootAccounts(links));
+    const groups = new Map<number, number[]>();
+    for (const h of holdouts) {
+        if (!groups.has(h.programAccountId)) groups.set(h.programAccountId, []);
+        groups.get(h.programAccountId)!.push(h.accountId);
+    }
+
+    // One row per (enrollment, control account incl. branches) with both windows
+    const rows: SQL[] = [];
+    for (const w of Array.from(new Map(windows.map(w => [w.programAccountId, w])).values())) {
+        const controls = groups.get(w.programAccountId);
+        if (!controls?.length) continue;
+        const priorFrom = new Date(w.from);
+        priorFrom.setUTCFullYear(priorFrom.getUTCFullYear() - 1);
+        const priorTo = new Date(w.to);
+        priorTo.setUTCFullYear(priorTo.getUTCFullYear() - 1);
+        for (const accountId of controls.flatMap(id => families.get(id) ?? [id])) {
+            rows.push(sql`(${w.programAccountId}::int, ${accountId}::int, ${w.from}::timestamp, ${w.to}::timestamp, ${priorFrom}::timestamp, ${priorTo}::timestamp)`);
+        }
+        result.set(w.programAccountId, { holdoutCount: controls.length, revenue: 0, priorRevenue: 0 });
+    }
+    if (rows.length === 0) return result;
+
+    const revenueResult = await db.execute(sql`
+        WITH controls (program_account_id, account_id, period_from, period_to, prior_from, prior_to) AS (
+            VALUES ${sql.join(rows, sql`, `)}
+        )
+        SELECT c.program_account_id AS "programAccountId",
+               COALESCE(SUM(CASE WHEN o.order_date >= c.period_from AND o.order_date < c.period_to THEN o.total_amount::numeric END), 0)::float AS "revenue",
+               COALESCE(SUM(CASE WHEN o.order_date >= c.prior_from AND o.order_date < c.prior_to THEN o.total_amount::numeric END), 0)::float AS "priorRevenue"
+        FROM controls c
+        JOIN orders o ON o.tenant_id = ${tenantId}
+            AND o.account_id = c.account_id
+            AND o.order_date >= c.prior_from
+            AND o.order_date < c.period_to
+        GROUP BY c.program_account_id
+    `);
+    for (const row of (revenueResult.rows || []) as { programAccountId: number; revenue: number; priorRevenue: number }[]) {
+        const control = result.get(Number(row.programAccountId));
+        if (!control) continue;
+        control.revenue = Number(row.revenue ?? 0);
+        control.priorRevenue = Number(row.priorRevenue ?? 0);
+    }
+    return result;
+}
+
+/**
+ * Re-picks the matched controls of an enrollment, keeping manually added ones.
+ * Returns the whole group, or null when the enrollment doesn't exist.
+ */
+export async function assignHoldoutGroup(
+    tenantId: number,
+    programAccountId: number,
+    options: { size?: number; assignedBy?: string | null } = {},
+): Promise<ProgramHoldoutAccount[] | null> {
+    const size = Math.min(MAX_HOLDOUT_SIZE, Math.max(1, options.size ?? DEFAULT_HOLDOUT_SIZE));
+    const [enrollment] = await db.select().from(programAccounts)
+        .where(and(eq(programAccounts.id, programAccountId), eq(programAccounts.tenantId, tenantId)));
+    if (!enrollment) return null;
+
+    const [accountRows, metricsRows, enrolledRows, holdouts, pairs] = await Promise.all([
+        db.select({ id: accounts.id, parentAccountId: accounts.parentAccountId, segment: accounts.segment, region: accounts.region })
+            .from(accounts).where(eq(accounts.tenantId, tenantId)),
+        db.select({ accountId: accountMetrics.accountId, last12mRevenue: accountMetrics.last12mRevenue })
+            .from(accountMetrics).where(eq(accountMetrics.tenantId, tenantId)),
+        db.select({ accountId: programAccounts.accountId }).from(programAccounts).where(eq(programAccounts.tenantId, tenantId)),
+        db.select().from(programHoldoutAccounts).where(eq(programHoldoutAccounts.tenantId, tenantId)),
+        db.select({ accountId: agentSimilarAccountPairs.accountIdB, score: agentSimilarAccountPairs.similarityScore })
+            .from(agentSimilarAccountPairs)
+            .where(and(eq(agentSimilarAccountPairs.tenantId, tenantId), eq(agentSimilarAccountPairs.accountIdA, enrollment.accountId))),
+    ]);
+
+    const rootOf = resolveRootAccounts(accountRows);
+    const revenue = new Map(metricsRows.map(m => [m.accountId, parseFloat(m.last12mRevenue || "0")]));
+    const enrolled = new Set(enrolledRows.map(r => r.accountId));
+    const manual = holdouts.filter(h => h.programAccountId === programAccountId && h.matchMethod === "manual");
+    const taken = new Set(holdouts.filter(h => h.programAccountId !== programAccountId || h.matchMethod === "manual").map(h => h.accountId));
+
+    const toCandidate = (a: typeof accountRows[number]): HoldoutCandidate =>
+        ({ accountId: a.id, segment: a.segment, region: a.region, revenue: revenue.get(a.id) ?? 0 });
+    const target = accountRows.find(a => a.id === enrollment.accountId);
+    const candidates = accountRows
+        .filter(a => rootOf.get(a.id) === a.id && !enrolled.has(a.id) && !taken.has(a.id))
+        .map(toCandidate);
+    const picks = pickHoldoutAccounts(
+        target ? toCandidate(target) : { accountId: enrollment.accountId, segment: null, region: null, revenue: 0 },
+        candidates,
+        pairs.map(p => ({ accountId: p.accountId, score: parseFloat(p.score || "0") })),
+        Math.max(0, size - manual.length),
+    );
+
+    await db.transaction(async (tx) => {
+        await tx.delete(programHoldoutAccounts).where(and(
+            eq(programHoldoutAccounts.tenantId, tenantId),
+            eq(programHoldoutAccounts.programAccountId, programAccountId),
+            sql`${programHoldoutAccounts.matchMethod} <> 'manual'`,
+        ));
+        if (picks.length > 0) {
+            await tx.insert(programHoldoutAccounts).values(picks.map(p => ({
+                tenantId,
+                programAccountId,
+                accountId: p.accountId,
+                matchMethod: p.matchMethod,
+                similarityScore: p.similarityScore === null ? null : p.similarityScore.toFixed(4),
+                assignedBy: options.assignedBy ?? null,
+            })))
+                // A control another group claimed meanwhile stays there
+                .onConflictDoNothing({ target: [programHoldoutAccounts.tenantId, programHoldoutAccounts.accountId] });
+        }
+    });
+
+    return db.select().from(programHoldoutAccounts).where(and(
+        eq(programHoldoutAccounts.tenantId, tenantId),
+        eq(programHoldoutAccounts.programAccountId, programAccountId),
+    ));
+}
@@ -0,0 +1,404 @@
+/**
+ * Program Revenue Close
+ *
+ * POST /api/program-revenue/periods/:month/run
+ * (Also run on the 1st of every month at 5:00am EST in scheduler.ts for the
+ *  month just ended, unless an admin has locked it)
+ *
+ * Writes one program_revenue_snapshots row per enrolled account for a calendar
+ * month, which is what graduation progress, the Revenue page and the program
+ * account list add up:
+ *   1. The period is the enrolled part of the month: from the enrollment day
+ *      (or the 1st) to the graduation or withdrawal day (or month end), less
+ *      any days the enrollment was paused (see program-enrollment.ts). A month
+ *      that was paused throughout gets no snapshot
+ *   2. Period revenue and category mix come from orders / order_items of the
+ *      enrolled account and all of its branches (see account-hierarchy.ts)
+ *   3. The baseline is the enrollment's expected revenue for the period under
+ *      its baseline method (see program-baseline.ts); incremental = revenue − baseline
+ *   4. The fee runs program-to-date incremental revenue through the tenant's
+ *      active rev_share_tiers (or the enrollment's shareRate without tiers); the
+ *      period's fee is the change in that running fee, so a month below
+ *      baseline gives back part of an earlier month's fee
+ *   5. With a holdout group, the organic part of the incremental revenue is
+ *      recorded as well (see program-holdout.ts); the fee is not affected
+ * Re-running a month replaces its snapshots; a locked month, or one on an
+ * approved or sent success fee statement, is refused (ProgramPeriodLockedError). Later months are not recalculated, so re-run
+ * months in order after correcting older data.
+ *
+ * The period math is pure (see computeProgramPeriod / tieredFee) so it can be
+ * unit tested without a database.
+ */
+
+import { db } from "../db";
+import {
+    programAccounts,
+    programRevenuePeriods,
+    programRevenueSnapshots,
+    revShareTiers,
+    successFeeStatements,
+    type ProgramFeeTierLine,
+    type ProgramPeriodCategory,
+} from "@shared/schema";
+import { and, eq, gte, lt, ne, sql } from "drizzle-orm";
+import { loadAccountLinks, resolveRootAccounts } from "./account-hierarchy";
+import { expectedBaseline, programAccountBaseline, type ProgramBaseline } from "./program-baseline";
+import { activeIntervals, loadPauseIntervals, type PauseInterval } from "./program-enrollment";
+import { differenceInDifferences, loadControlRevenue } from "./program-holdout";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INSERT_CHUNK_SIZE = 500;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface FeeTier {
+    minRevenue: number;
+    maxRevenue: number | null; // null = unlimited
+    ratePct: number;
+}
+
+export interface ProgramPeriodInput {
+    programAccountId: number;
+    enrolledAt: Date;
+    endedAt: Date | null;                              // Graduation or withdrawal
+    pauses: PauseInterval[];
+    baseline: ProgramBaseline;
+    tiers: FeeTier[];
+    priorIncremental: number;                          // Program-to-date incremental before this month
+    dailyRevenue: Map<string, number>;                 // "YYYY-MM-DD" → order revenue
+    dailyCategorySpend: Map<string, Map<number, number>>; // "YYYY-MM-DD" → categoryId → line revenue
+}
+
+export interface ProgramPeriodSnapshot {
+    programAccountId: number;
+    periodStart: Date;
+    periodEnd: Date;
+    pausedDays: number;
+    periodRevenue: number;
+    periodCategories: ProgramPeriodCategory[];
+    baselineComparison: number;
+    incrementalRevenue: number;
+    feeAmount: number;
+    feeBreakdown: ProgramFeeTierLine[];
+}
+
+export interface ProgramCloseResult {
+    month: string;
+    accounts: number;
+    totalRevenue: number;
+    totalBaseline: number;
+    totalIncremental: number;
+    totalFee: number;
+    durationMs: number;
+}
+
+export class ProgramPeriodLockedError extends Error {
+    constructor(month: string) {
+        super(`Program revenue for ${month} is locked; unlock it before re-running`);
+        this.name = "ProgramPeriodLockedError";
+    }
+}
+
+/** The month is on an approved or sent statement, so its snapshots are what was billed */
+export class ProgramPeriodBilledError extends ProgramPeriodLockedError {
+    constructor(month: string, statementNumber: string, status: string) {
+        super(month);
+        this.message = `Program revenue for ${month} is billed on ${statementNumber} (${status}); add an adjustment to the statement instead`;
+        this.name = "ProgramPeriodBilledError";
+    }
+}
+
+// ─── Period math ──────────────────────────────────────────────────────────────
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const startOfDay = (d: Date) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+
+/** "2025-06" → [Jun 1, Jul 1) in UTC, or null for anything else */
+export function monthBounds(month: string): { start: Date; end: Date } | null {
+    const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+    if (!match) return null;
+    const year = Number(match[1]);
+    const m = Number(match[2]) - 1;
+    return { start: new Date(Date.UTC(year, m, 1)), end: new Date(Date.UTC(year, m + 1, 1)) };
+}
+
+/** The calendar month before `asOf`'s, as "YYYY-MM" */
+export function previousMonth(asOf: Date): string {
+    return new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+}
+
+/** Marginal fee: each tier's rate applies to the part of `amount` inside [minRevenue, maxRevenue) */
+export function tieredFee(amount: number, tiers: FeeTier[]): { fee: number; breakdown: ProgramFeeTierLine[] } {
+    const breakdown: ProgramFeeTierLine[] = [];
+    for (const tier of [...tiers].sort((a, b) => a.minRevenue - b.minRevenue)) {
+        const revenueInTier = Math.min(amount, tier.maxRevenue ?? Infinity) - tier.minRevenue;
+        if (revenueInTier <= 0) continue;
+        breakdown.push({ ...tier, revenueInTier: round2(revenueInTier), fee: round2(revenueInTier * tier.ratePct / 100) });
+    }
+    return { fee: round2(breakdown.reduce((sum, line) => sum + line.fee, 0)), breakdown };
+}
+
+/** One month's snapshot for an enrollment, or null when it wasn't enrolled during the month */
+export function computeProgramPeriod(input: ProgramPeriodInput, month: string): ProgramPeriodSnapshot | null {
+    const bounds = monthBounds(month);
+    if (!bounds) throw new Error(`Invalid period month: ${month}`);
+
+    const enrolledFrom = startOfDay(input.enrolledAt);
+    const enrolledTo = input.endedAt ? new Date(startOfDay(input.endedAt).getTime() + DAY_MS) : null;
+    const periodStart = enrolledFrom > bounds.start ? enrolledFrom : bounds.start;
+    const periodEnd = enrolledTo && enrolledTo < bounds.end ? enrolledTo : bounds.end;
+    if (periodEnd <= periodStart) return null;
+    const active = activeIntervals(periodStart, periodEnd, input.pauses);
+    if (active.length === 0) return null;
+
+    const days = active.map(r => [r.from.toISOString().slice(0, 10), r.to.toISOString().slice(0, 10)]);
+    const inPeriod = (day: string) => days.some(([from, to]) => day >= from && day < to);
+    const activeMs = active.reduce((sum, r) => sum + (r.to.getTime() - r.from.getTime()), 0);
+
+    let periodRevenue = 0;
+    for (const [day, revenue] of Array.from(input.dailyRevenue.entries())) {
+        if (inPeriod(day)) periodRevenue += revenue;
+    }
+    const categorySpend = new Map<number, number>();
+    for (const [day, byCategory] of Array.from(input.dailyCategorySpend.entries())) {
+        if (!inPeriod(day)) continue;
+        for (const [categoryId, spend] of Array.from(byCategory.entries())) {
+            categorySpend.set(categoryId, (categorySpend.get(categoryId) ?? 0) + spend);
+        }
+    }
+    const lineTotal = Array.from(categorySpend.values()).reduce((a, b) => a + b, 0);
+
+    const baseline = active.reduce((sum, r) => sum + expectedBaseline(input.baseline, r.from, r.to), 0);
+    const incremental = periodRevenue - baseline;
+    const toDate = tieredFee(Math.max(0, input.priorIncremental + incremental), input.tiers);
+    const before = tieredFee(Math.max(0, input.priorIncremental), input.tiers);
+
+    return {
+        programAccountId: input.programAccountId,
+        periodStart,
+        periodEnd,
+        pausedDays: Math.round((periodEnd.getTime() - periodStart.getTime() - activeMs) / DAY_MS),
+        periodRevenue: round2(periodRevenue),
+        periodCategories: Array.from(categorySpend.entries())
+            .map(([categoryId, revenue]) => ({
+                categoryId,
+                revenue: round2(revenue),
+                pct: lineTotal > 0 ? round2((revenue / lineTotal) * 100) : 0,
+            }))
+            .sort((a, b) => b.revenue - a.revenue),
+        baselineComparison: round2(baseline),
+        incrementalRevenue: round2(incremental),
+        feeAmount: round2(toDate.fee - before.fee),
+        feeBreakdown: toDate.breakdown,
+    };
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+/** The tenant's active tiers, or null when it has none configured */
+export async function loadFeeTiers(tenantId: number): Promise<FeeTier[] | null> {
+    const rows = await db.select().from(revShareTiers)
+        .where(and(eq(revShareTiers.tenantId, tenantId), eq(revShareTiers.isActive, true)));
+    if (rows.length === 0) return null;
+    return rows.map(t => ({
+        minRevenue: parseFloat(t.minRevenue),
+        maxRevenue: t.maxRevenue === null ? null : parseFloat(t.maxRevenue),
+        ratePct: parseFloat(t.shareRate),
+    }));
+}
+
+export async function closeProgramRevenuePeriod(
+    tenantId: number,
+    month: string,
+    options: { runBy?: string | null } = {},
+): Promise<ProgramCloseResult> {
+    const started = Date.now();
+    const bounds = monthBounds(month);
+    if (!bounds) throw new Error(`Invalid period month: ${month}`);
+
+    const [period] = await db.select().from(programRevenuePeriods)
+        .where(and(eq(programRevenuePeriods.tenantId, tenantId), eq(programRevenuePeriods.periodStart, bounds.start)));
+    // Checked again inside the write transaction; this saves computing a month that is already final
+    if (period?.status === "locked") throw new ProgramPeriodLockedError(month);
+    const billed = await findBilledStatement(tenantId, bounds.start);
+    if (billed) throw new ProgramPeriodBilledError(month, billed.statementNumber, billed.status);
+
+    const [enrollments, links, tiers, orderResult, itemResult, priorResult] = await Promise.all([
+        db.select().from(programAccounts).where(and(
+            eq(programAccounts.tenantId, tenantId),
+            lt(programAccounts.enrolledAt, bounds.end),
+        )),
+        loadAccountLinks(tenantId),
+        loadFeeTiers(tenantId),
+        db.execute(sql`
+            SELECT o.account_id AS "accountId",
+                   to_char(o.order_date, 'YYYY-MM-DD') AS "day",
+                   SUM(o.total_amount::numeric)::float AS "revenue"
+            FROM orders o
+            WHERE o.tenant_id = ${tenantId}
+                AND o.order_date >= ${bounds.start}
+                AND o.order_date < ${bounds.end}
+            GROUP BY o.account_id, to_char(o.order_date, 'YYYY-MM-DD')
+        `),
+        db.execute(sql`
+            SELECT o.account_id AS "accountId",
+                   to_char(o.order_date, 'YYYY-MM-DD') AS "day",
+                   p.category_id AS "categoryId",
+                   SUM(oi.line_total::numeric)::float AS "spend"
+            FROM orders o
+            JOIN order_items oi ON oi.order_id = o.id AND oi.tenant_id = ${tenantId}
+            JOIN products p ON p.id = oi.product_id AND p.tenant_id = ${tenantId}
+            WHERE o.tenant_id = ${tenantId}
+                AND o.order_date >= ${bounds.start}
+                AND o.order_date < ${bounds.end}
+                AND p.category_id IS NOT NULL
+            GROUP BY o.account_id, to_char(o.order_date, 'YYYY-MM-DD'), p.category_id
+        `),
+        db.execute(sql`
+            SELECT program_account_id AS "programAccountId",
+                   SUM(incremental_revenue::numeric)::float AS "incremental"
+            FROM program_revenue_snapshots
+            WHERE tenant_id = ${tenantId}
+                AND period_start < ${bounds.start}
+            GROUP BY program_account_id
+        `),
+    ]);
+    const rootOf = resolveRootAccounts(links);
+    const rootFor = (accountId: number) => rootOf.get(accountId) ?? accountId;
+
+    // Branch orders count towards the enrolled parent
+    const dailyRevenue = new Map<number, Map<string, number>>();
+    for (const row of (orderResult.rows || []) as { accountId: number; day: string; revenue: number }[]) {
+        const root = rootFor(Number(row.accountId));
+        if (!dailyRevenue.has(root)) dailyRevenue.set(root, new Map());
+        const byDay = dailyRevenue.get(root)!;
+        byDay.set(row.day, (byDay.get(row.day) ?? 0) + Number(row.revenue));
+    }
+    const dailyCategorySpend = new Map<number, Map<string, Map<number, number>>>();
+    for (const row of (itemResult.rows || []) as { accountId: number; day: string; categoryId: number; spend: number }[]) {
+        const root = rootFor(Number(row.accountId));
+        if (!dailyCategorySpend.has(root)) dailyCategorySpend.set(root, new Map());
+        const byDay = dailyCategorySpend.get(root)!;
+        if (!byDay.has(row.day)) byDay.set(row.day, new Map());
+        const byCategory = byDay.get(row.day)!;
+        const categoryId = Number(row.categoryId);
+        byCategory.set(categoryId, (byCategory.get(categoryId) ?? 0) + Number(row.spend));
+    }
+    const priorIncremental = new Map(
+        ((priorResult.rows || []) as { programAccountId: number; incremental: number }[])
+            .map(r => [Number(r.programAccountId), Number(r.incremental)]),
+    );
+
+    const pauses = await loadPauseIntervals(tenantId, enrollments);
+
+    const periods = enrollments
+        .map(pa => computeProgramPeriod({
+            programAccountId: pa.id,
+            enrolledAt: pa.enrolledAt,
+            endedAt: pa.graduatedAt ?? pa.withdrawnAt,
+            pauses: pauses.get(pa.id) ?? [],
+            baseline: programAccountBaseline(pa),
+            tiers: tiers ?? [{ minRevenue: 0, maxRevenue: null, ratePct: parseFloat(pa.shareRate) * 100 }],
+            priorIncremental: priorIncremental.get(pa.id) ?? 0,
+            dailyRevenue: dailyRevenue.get(pa.accountId) ?? new Map(),
+            dailyCategorySpend: dailyCategorySpend.get(pa.accountId) ?? new Map(),
+        }, month))
+        .filter((s): s is ProgramPeriodSnapshot => s !== null);
+
+    const controls = await loadControlRevenue(tenantId, periods.map(s => ({
+        programAccountId: s.programAccountId,
+        from: s.periodStart,
+        to: s.periodEnd,
+    })));
+    const snapshots = periods.map(s => {
+        const control = controls.get(s.programAccountId) ?? null;
+        const lift = differenceInDifferences(s.incrementalRevenue, s.baselineComparison, control);
+        return { ...s, organicRevenue: control ? lift.organic : null, controlGrowthPct: lift.controlGrowthPct };
+    });
+
+    const sum = (pick: (s: typeof snapshots[number]) => number) => round2(snapshots.reduce((total, s) => total + pick(s), 0));
+    const totals = {
+        accountCount: snapshots.length,
+        totalRevenue: sum(s => s.periodRevenue),
+        totalBaseline: sum(s => s.baselineComparison),
+        totalIncremental: sum(s => s.incrementalRevenue),
+        totalFee: sum(s => s.feeAmount),
+    };
+
+    await db.transaction(async (tx) => {
+        // Re-checked under a row lock: a lock or approval made while this run was computing wins,
+        // and a concurrent run of the same month waits here instead of writing a second period
+        await tx.insert(programRevenuePeriods)
+            .values({ tenantId, periodStart: bounds.start, status: "open" })
+            .onConflictDoNothing({ target: [programRevenuePeriods.tenantId, programRevenuePeriods.periodStart] });
+        const [current] = await tx.select().from(programRevenuePeriods)
+            .where(and(eq(programRevenuePeriods.tenantId, tenantId), eq(programRevenuePeriods.periodStart, bounds.start)))
+            .for("update");
+        if (current.status === "locked") throw new ProgramPeriodLockedError(month);
+
+        await tx.delete(programRevenueSnapshots).where(and(
+            eq(programRevenueSnapshots.tenantId, tenantId),
+            gte(programRevenueSnapshots.periodStart, bounds.start),
+            lt(programRevenueSnapshots.periodStart, bounds.end),
+        ));
+        const values = snapshots.map(s => ({
+            tenantId,
+            programAccountId: s.programAccountId,
+            periodStart: s.periodStart,
+            periodEnd: s.periodEnd,
+            pausedDays: s.pausedDays,
+            periodRevenue: s.periodRevenue.toFixed(2),
+            periodCategories: s.periodCategories,
+            baselineComparison: s.baselineComparison.toFixed(2),
+            incrementalRevenue: s.incrementalRevenue.toFixed(2),
+            feeAmount: s.feeAmount.toFixed(2),
+            feeBreakdown: s.feeBreakdown,
+            organicRevenue: s.organicRevenue === null ? null : s.organicRevenue.toFixed(2),
+            controlGrowthPct: s.controlGrowthPct === null ? null : s.controlGrowthPct.toFixed(2),
+        }));
+        for (let i = 0; i < values.length; i += INSERT_CHUNK_SIZE) {
+            await tx.insert(programRevenueSnapshots).values(values.slice(i, i + INSERT_CHUNK_SIZE));
+        }
+
+        const periodValues = {
+            accountCount: totals.accountCount,
+            totalRevenue: totals.totalRevenue.toFixed(2),
+            totalBaseline: totals.totalBaseline.toFixed(2),
+            totalIncremental: totals.totalIncremental.toFixed(2),
+            totalFee: totals.totalFee.toFixed(2),
+            lastRunAt: new Date(),
+            lastRunBy: options.runBy ?? null,
+        };
+        await tx.update(programRevenuePeriods).set(periodValues).where(eq(programRevenuePeriods.id, current.id));
+    });
+
+    console.log(`[program-revenue] Tenant ${tenantId}: closed ${month} for ${snapshots.length} enrolled accounts`);
+    return { month, ...totals, accounts: totals.accountCount, durationMs: Date.now() - started };
+}
+
+/** The month's approved or sent success fee statement, if it has one */
+export async function findBilledStatement(
+    tenantId: number,
+    periodStart: Date,
+): Promise<{ statementNumber: string; status: string } | undefined> {
+    const [statement] = await db
+        .select({ statementNumber: successFeeStatements.statementNumber, status: successFeeStatements.status })
+        .from(successFeeStatements)
+        .where(and(
+            eq(successFeeStatements.tenantId, tenantId),
+            eq(successFeeStatements.periodStart, periodStart),
+            ne(successFeeStatements.status, "draft"),
+        ));
+    return statement;
+}
+
+/** Scheduled close of the month just ended; a locked month is left alone */
+export async function closePreviousProgramMonth(tenantId: number, asOf: Date = new Date()): Promise<ProgramCloseResult | { month: string; skipped: "locked" }> {
+    const month = previousMonth(asOf);
+    try {
+        return await closeProgramRevenuePeriod(tenantId, month);
+    } catch (err) {
+        if (err instanceof ProgramPeriodLockedError) return { month, skipped: "locked" };
+        throw err;
+    }
+}
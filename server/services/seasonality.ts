@@ -0,0 +1,261 @@
+/**
+ * Seasonality Service
+ *
+ * POST /api/admin/jobs/seasonality/run
+ * (Also run nightly after account-metrics in scheduler.ts and after account or
+ *  order uploads in data-ingestion.ts)
+ *
+ * Writes accounts.seasonality_profile and accounts.wallet_share_direction for a tenant:
+ *   1. Loads monthly revenue per account for the last 36 complete months
+ *   2. Derives 12 monthly multipliers per account by ratio-to-moving-average
+ *      (each month's revenue over its centred 12-month average, averaged per
+ *      calendar month). Accounts with under 24 months of history, or too few
+ *      active months, fall back to their segment's combined series, then the
+ *      tenant's, then a flat profile
+ *   3. Divides the last 12 months by those multipliers and compares the last
+ *      6 months with the 6 before: ±10% or more is growing / declining, else flat
+ *
+ * The daily briefing reads both through assembleAccountContext so a slow month
+ * that is slow every year is not reported as a slipping account.
+ *
+ * The computation itself is pure (see computeSeasonalMultipliers /
+ * classifyWalletShareDirection) so it can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import { accounts, type SeasonalityProfile, type SeasonalitySource, type WalletShareDirection } from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+
+export const HISTORY_MONTHS = 36;
+const MIN_HISTORY_MONTHS = 24;     // Two full seasonal cycles are needed for the centred average
+const MIN_ACTIVE_MONTHS = 12;      // Months with any revenue; sparser buyers are too noisy
+const TREND_WINDOW_MONTHS = 6;
+export const TREND_THRESHOLD_PCT = 10;
+const MIN_MULTIPLIER = 0.2;
+const MAX_MULTIPLIER = 3;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface MonthlySeries {
+    months: string[];   // "YYYY-MM", oldest first, complete months only
+    revenue: number[];  // Same length as months; 0 for months without orders
+}
+
+export interface SeasonalityResult {
+    profile: SeasonalityProfile;
+    direction: WalletShareDirection | null;
+}
+
+// ─── Month helpers ────────────────────────────────────────────────────────────
+
+/** The `count` complete calendar months before `asOf`'s month, oldest first. */
+export function completeMonths(asOf: Date, count = HISTORY_MONTHS): string[] {
+    const months: string[] = [];
+    for (let i = count; i >= 1; i--) {
+        const d = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - i, 1));
+        months.push(d.toISOString().slice(0, 7));
+    }
+    return months;
+}
+
+function calendarMonth(month: string): number {
+    return parseInt(month.slice(5, 7), 10) - 1;
+}
+
+export const FLAT_MULTIPLIERS = Array.from({ length: 12 }, () => 1);
+
+// ─── Computation ──────────────────────────────────────────────────────────────
+
+/**
+ * Twelve multipliers (Jan..Dec, mean 1.0) from a monthly series, or null when
+ * the series is too short or too sparse to trust.
+ */
+export function computeSeasonalMultipliers(series: MonthlySeries): number[] | null {
+    const firstActive = series.revenue.findIndex(r => r > 0);
+    if (firstActive === -1) return null;
+    const history = series.revenue.length - firstActive;
+    const activeMonths = series.revenue.filter(r => r > 0).length;
+    if (history < MIN_HISTORY_MONTHS || activeMonths < MIN_ACTIVE_MONTHS) return null;
+
+    // Centred 12-month moving average (2x12 MA) for each month with 6 months either side
+    const ratios: number[][] = Array.from({ length: 12 }, () => []);
+    for (let t = firstActive + 6; t < series.revenue.length - 6; t++) {
+        let sum = series.revenue[t - 6] / 2 + series.revenue[t + 6] / 2;
+        for (let k = t - 5; k <= t + 5; k++) sum += series.revenue[k];
+        const centred = sum / 12;
+        if (centred > 0) ratios[calendarMonth(series.months[t])].push(series.revenue[t] / centred);
+    }
+    if (ratios.some(r => r.length === 0)) return null;
+
+    const raw = ratios.map(r => r.reduce((a, b) => a + b, 0) / r.length);
+    const mean = raw.reduce((a, b) => a + b, 0) / 12;
+    if (mean <= 0) return null;
+    return raw.map(m => Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, m / mean)));
+}
+
+/**
+ * Seasonally adjusted change of the last 6 months over the 6 before, in percent.
+ * Null when there is nothing to compare against.
+ */
+export function seasonallyAdjustedTrendPct(series: MonthlySeries, multipliers: number[]): number | null {
+    const n = series.revenue.length;
+    if (n < TREND_WINDOW_MONTHS * 2) return null;
+    const adjustedMean = (from: number, to: number) => {
+        let sum = 0;
+        for (let t = from; t < to; t++) sum += series.revenue[t] / multipliers[calendarMonth(series.months[t])];
+        return sum / (to - from);
+    };
+    const recent = adjustedMean(n - TREND_WINDOW_MONTHS, n);
+    const prior = adjustedMean(n - TREND_WINDOW_MONTHS * 2, n - TREND_WINDOW_MONTHS);
+    if (prior <= 0) return null;
+    return ((recent - prior) / prior) * 100;
+}
+
+export function classifyWalletShareDirection(series: MonthlySeries, trendPct: number | null): WalletShareDirection | null {
+    const lastYear = series.revenue.slice(-TREND_WINDOW_MONTHS * 2);
+    if (trendPct === null) {
+        // Nothing in the prior window: new buying in the recent one is growth, no buying at all is unknown
+        return lastYear.slice(-TREND_WINDOW_MONTHS).some(r => r > 0) ? "growing" : null;
+    }
+    if (trendPct >= TREND_THRESHOLD_PCT) return "growing";
+    if (trendPct <= -TREND_THRESHOLD_PCT) return "declining";
+    return "flat";
+}
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const SLOW_MONTH_MULTIPLIER = 0.85;
+const PEAK_MONTH_MULTIPLIER = 1.15;
+
+/**
+ * One-line summary for AI prompts, e.g.
+ * "Oct is typically 0.72x an average month (slow month) | seasonally adjusted 6-month trend: -3% (account history)"
+ */
+export function describeSeasonality(profile: SeasonalityProfile, asOf: Date = new Date()): string {
+    const month = asOf.getUTCMonth();
+    const multiplier = profile.multipliers[month] ?? 1;
+    const label = multiplier <= SLOW_MONTH_MULTIPLIER ? " (slow month)" : multiplier >= PEAK_MONTH_MULTIPLIER ? " (peak month)" : "";
+    const trend = profile.adjustedTrendPct === null
+        ? "n/a"
+        : `${profile.adjustedTrendPct > 0 ? "+" : ""}${Math.round(profile.adjustedTrendPct)}%`;
+    return `${MONTH_NAMES[month]} is typically ${multiplier.toFixed(2)}x an average month${label} | seasonally adjusted 6-month trend: ${trend} (${profile.source} history)`;
+}
+
+function sumSeries(series: MonthlySeries[], months: string[]): MonthlySeries {
+    const revenue = months.map(() => 0);
+    for (const s of series) s.revenue.forEach((r, i) => { revenue[i] += r; });
+    return { months, revenue };
+}
+
+/**
+ * Profiles and directions for every account. Segment and tenant fallbacks are
+ * computed from the combined series of all accounts in that scope.
+ */
+export function computeSeasonality(
+    accountsSeries: { accountId: number; segment: string | null; series: MonthlySeries }[],
+    months: string[],
+    computedAt: Date,
+): Map<number, SeasonalityResult> {
+    const bySegment = new Map<string, MonthlySeries[]>();
+    for (const a of accountsSeries) {
+        const key = a.segment ?? "";
+        if (!bySegment.has(key)) bySegment.set(key, []);
+        bySegment.get(key)!.push(a.series);
+    }
+    const segmentMultipliers = new Map<string, number[] | null>();
+    for (const [segment, list] of Array.from(bySegment)) {
+        segmentMultipliers.set(segment, segment ? computeSeasonalMultipliers(sumSeries(list, months)) : null);
+    }
+    const tenantMultipliers = computeSeasonalMultipliers(sumSeries(accountsSeries.map(a => a.series), months));
+
+    const results = new Map<number, SeasonalityResult>();
+    for (const a of accountsSeries) {
+        let multipliers = computeSeasonalMultipliers(a.series);
+        let source: SeasonalitySource = "account";
+        if (!multipliers) {
+            multipliers = segmentMultipliers.get(a.segment ?? "") ?? null;
+            source = "segment";
+        }
+        if (!multipliers) {
+            multipliers = tenantMultipliers;
+            source = "tenant";
+        }
+        if (!multipliers) {
+            multipliers = FLAT_MULTIPLIERS;
+            source = "flat";
+        }
+
+        const firstActive = a.series.revenue.findIndex(r => r > 0);
+        const trendPct = seasonallyAdjustedTrendPct(a.series, multipliers);
+        results.set(a.accountId, {
+            profile: {
+                multipliers: multipliers.map(m => Math.round(m * 1000) / 1000),
+                source,
+                monthsOfHistory: firstActive === -1 ? 0 : a.series.revenue.length - firstActive,
+                adjustedTrendPct: trendPct === null ? null : Math.round(trendPct * 10) / 10,
+                computedAt: computedAt.toISOString(),
+            },
+            direction: classifyWalletShareDirection(a.series, trendPct),
+        });
+    }
+    return results;
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+export async function recomputeSeasonality(
+    tenantId: number,
+    asOf: Date = new Date(),
+): Promise<{ accounts: number; bySource: Record<SeasonalitySource, number>; durationMs: number }> {
+    const started = Date.now();
+    const months = completeMonths(asOf);
+    const from = new Date(`${months[0]}-01T00:00:00Z`);
+    const to = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), 1));
+
+    const [accountRows, revenueResult] = await Promise.all([
+        db.select({ id: accounts.id, segment: accounts.segment })
+            .from(accounts)
+            .where(eq(accounts.tenantId, tenantId)),
+        db.execute(sql`
+            SELECT
+                account_id AS "accountId",
+                to_char(date_trunc('month', order_date), 'YYYY-MM') AS "month",
+                SUM(total_amount::numeric)::float AS "revenue"
+            FROM orders
+            WHERE tenant_id = ${tenantId} AND order_date >= ${from} AND order_date < ${to}
+            GROUP BY account_id, date_trunc('month', order_date)
+        `),
+    ]);
+
+    const monthIndex = new Map(months.map((m, i) => [m, i]));
+    const revenueByAccount = new Map<number, number[]>();
+    type RevenueRow = { accountId: number; month: string; revenue: number };
+    for (const row of (revenueResult.rows || []) as RevenueRow[]) {
+        const i = monthIndex.get(row.month);
+        if (i === undefined) continue;
+        if (!revenueByAccount.has(row.accountId)) revenueByAccount.set(row.accountId, months.map(() => 0));
+        revenueByAccount.get(row.accountId)![i] = Number(row.revenue);
+    }
+
+    const results = computeSeasonality(
+        accountRows.map(a => ({
+            accountId: a.id,
+            segment: a.segment,
+            series: { months, revenue: revenueByAccount.get(a.id) ?? months.map(() => 0) },
+        })),
+        months,
+        asOf,
+    );
+
+    const bySource: Record<SeasonalitySource, number> = { account: 0, segment: 0, tenant: 0, flat: 0 };
+    await db.transaction(async (tx) => {
+        for (const [accountId, result] of Array.from(results)) {
+            bySource[result.profile.source]++;
+            await tx.update(accounts)
+                .set({ seasonalityProfile: result.profile, walletShareDirection: result.direction })
+                .where(and(eq(accounts.id, accountId), eq(accounts.tenantId, tenantId)));
+        }
+    });
+
+    console.log(`[seasonality] Tenant ${tenantId}: ${results.size} accounts (${JSON.stringify(bySource)})`);
+    return { accounts: results.size, bySource, durationMs: Date.now() - started };
+}
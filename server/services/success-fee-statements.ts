@@ -0,0 +1,403 @@
+/**
+ * Success Fee Statements
+ *
+ * POST /api/success-fee-statements                 (generate / refresh a draft)
+ * POST /api/success-fee-statements/:id/approve
+ * POST /api/success-fee-statements/:id/send
+ * GET  /api/success-fee-statements/:id/export/:format   (pdf or csv)
+ *
+ * Turns a closed month of program revenue (see program-revenue.ts) into a
+ * billable statement for the tenant:
+ *   1. Generating copies each of the month's program_revenue_snapshots into a
+ *      statement line: account, enrolled days, baseline method, baseline,
+ *      actual and incremental revenue, the tier breakdown and the fee. The
+ *      month must have been closed; a draft can be regenerated after a re-run
+ *   2. Approving freezes the statement and locks the month's close, so the
+ *      snapshots behind it aren't re-run by the monthly job. A draft generated
+ *      before the month's latest close must be regenerated first
+ *   3. Sending records when and to whom the statement went out
+ * Approved and sent statements never change (StatementStateError); disputes are
+ * settled with adjustment lines, and amount due = total fee + adjustments.
+ *
+ * Line building and the CSV / PDF rendering are pure (see buildStatementLines /
+ * statementCsv / statementPdf) so they can be unit tested without a database.
+ */
+
+import { db } from "../db";
+import {
+    accounts,
+    programAccounts,
+    programRevenuePeriods,
+    programRevenueSnapshots,
+    successFeeStatements,
+    type ProgramRevenuePeriod,
+    type ProgramRevenueSnapshot,
+    type SuccessFeeStatement,
+    type SuccessFeeStatementAdjustment,
+    type SuccessFeeStatementLine,
+} from "@shared/schema";
+import { and, eq, gte, inArray, lt } from "drizzle-orm";
+import { courierWidth, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, renderTextPdf, type PdfText } from "../utils/pdf";
+import { csvEscape } from "./data-ingestion";
+import { monthBounds } from "./program-revenue";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type StatementAction = "approve" | "send";
+
+export interface SuccessFeeStatementView extends SuccessFeeStatement {
+    month: string;
+    adjustments: SuccessFeeStatementAdjustment[];
+    adjustmentTotal: number;
+    amountDue: number;
+}
+
+export class StatementStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "StatementStateError";
+    }
+}
+
+// ─── Statement lines ──────────────────────────────────────────────────────────
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Statement numbers are per tenant and month */
+export function statementNumber(month: string): string {
+    return `SF-${month}`;
+}
+
+/** One line per snapshot of the month, by account name */
+export function buildStatementLines(
+    snapshots: Pick<ProgramRevenueSnapshot, "programAccountId" | "periodStart" | "periodEnd" | "periodRevenue" | "baselineComparison" | "incrementalRevenue" | "feeAmount" | "feeBreakdown">[],
+    enrollments: Map<number, { accountId: number; baselineMethod: string }>,
+    accountNames: Map<number, string>,
+): SuccessFeeStatementLine[] {
+    return snapshots
+        .map(s => {
+            const enrollment = enrollments.get(s.programAccountId);
+            const accountId = enrollment?.accountId ?? 0;
+            return {
+                programAccountId: s.programAccountId,
+                accountId,
+                accountName: accountNames.get(accountId) ?? `Account ${accountId}`,
+                periodStart: s.periodStart.toISOString(),
+                periodEnd: s.periodEnd.toISOString(),
+                baselineMethod: enrollment?.baselineMethod ?? "trailing_12",
+                baselineRevenue: round2(parseFloat(s.baselineComparison || "0")),
+                actualRevenue: round2(parseFloat(s.periodRevenue)),
+                incrementalRevenue: round2(parseFloat(s.incrementalRevenue || "0")),
+                feeBreakdown: s.feeBreakdown ?? [],
+                feeAmount: round2(parseFloat(s.feeAmount || "0")),
+            };
+        })
+        .sort((a, b) => a.accountName.localeCompare(b.accountName) || a.programAccountId - b.programAccountId);
+}
+
+export function statementTotals(lines: SuccessFeeStatementLine[]) {
+    const sum = (pick: (l: SuccessFeeStatementLine) => number) => round2(lines.reduce((total, l) => total + pick(l), 0));
+    return {
+        totalBaseline: sum(l => l.baselineRevenue),
+        totalActual: sum(l => l.actualRevenue),
+        totalIncremental: sum(l => l.incrementalRevenue),
+        totalFee: sum(l => l.feeAmount),
+    };
+}
+
+export function statementView(statement: SuccessFeeStatement, adjustments: SuccessFeeStatementAdjustment[]): SuccessFeeStatementView {
+    const adjustmentTotal = round2(adjustments.reduce((sum, a) => sum + parseFloat(a.amount), 0));
+    return {
+        ...statement,
+        month: statement.periodStart.toISOString().slice(0, 7),
+        adjustments,
+        adjustmentTotal,
+        amountDue: round2(parseFloat(statement.totalFee) + adjustmentTotal),
+    };
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+const BASELINE_METHOD_LABELS: Record<string, string> = {
+    trailing_12: "Trailing 12",
+    same_period_prior_year: "Prior year",
+    seasonally_adjusted: "Seasonal",
+    negotiated: "Negotiated",
+};
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function money(n: number): string {
+    return n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** periodEnd is exclusive; statements show the last enrolled day */
+function lastEnrolledDay(line: SuccessFeeStatementLine): Date {
+    return new Date(new Date(line.periodEnd).getTime() - 1);
+}
+
+/** "Jan 10-31" */
+function enrolledDays(line: SuccessFeeStatementLine): string {
+    const start = new Date(line.periodStart);
+    return `${MONTH_NAMES[start.getUTCMonth()]} ${start.getUTCDate()}-${lastEnrolledDay(line).getUTCDate()}`;
+}
+
+function tierSummary(line: SuccessFeeStatementLine): string {
+    return line.feeBreakdown.map(t => `${t.ratePct}% x ${t.revenueInTier.toFixed(2)}`).join("; ");
+}
+
+const CSV_COLUMNS = [
+    "line_type", "statement_number", "month", "program_account_id", "account_id", "account_name",
+    "period_start", "period_end", "baseline_method", "baseline_revenue", "actual_revenue",
+    "incremental_revenue", "program_to_date_tiers", "fee_amount", "reason",
+];
+
+/** One row per account line and adjustment, then the totals and amount due */
+export function statementCsv(view: SuccessFeeStatementView): string {
+    const rows: (string | number | undefined)[][] = [CSV_COLUMNS];
+    const base = [view.statementNumber, view.month];
+    for (const l of view.lines) {
+        rows.push(["account", ...base, l.programAccountId, l.accountId, l.accountName,
+            l.periodStart.slice(0, 10), lastEnrolledDay(l).toISOString().slice(0, 10), l.baselineMethod,
+            l.baselineRevenue.toFixed(2), l.actualRevenue.toFixed(2), l.incrementalRevenue.toFixed(2),
+            tierSummary(l), l.feeAmount.toFixed(2), ""]);
+    }
+    const names = new Map(view.lines.map(l => [l.programAccountId, l]));
+    for (const a of view.adjustments) {
+        const line = a.programAccountId === null ? undefined : names.get(a.programAccountId);
+        rows.push(["adjustment", ...base, a.programAccountId ?? "", line?.accountId ?? "", line?.accountName ?? "",
+            "", "", "", "", "", "", "", parseFloat(a.amount).toFixed(2), a.reason]);
+    }
+    rows.push(["total", ...base, "", "", "", "", "", "",
+        view.totalBaseline, view.totalActual, view.totalIncremental, "", view.totalFee, ""]);
+    rows.push(["amount_due", ...base, "", "", "", "", "", "", "", "", "", "", view.amountDue.toFixed(2), ""]);
+    return rows.map(r => r.map(csvEscape).join(",")).join("\n") + "\n";
+}
+
+const PDF_MARGIN = 40;
+const PDF_FONT_SIZE = 8;
+const PDF_LINE_HEIGHT = 12;
+
+// Account, days, method, then the money columns (right-aligned)
+const PDF_COLUMNS: { title: string; width: number; right?: boolean }[] = [
+    { title: "Account", width: 24 },
+    { title: "Enrolled", width: 10 },
+    { title: "Baseline method", width: 16 },
+    { title: "Baseline", width: 14, right: true },
+    { title: "Actual", width: 14, right: true },
+    { title: "Incremental", width: 14, right: true },
+    { title: "Fee", width: 12, right: true },
+];
+
+function pdfRow(cells: string[]): string {
+    return PDF_COLUMNS.map((col, i) => {
+        const cell = (cells[i] ?? "").slice(0, col.width);
+        return col.right ? cell.padStart(col.width) : cell.padEnd(col.width);
+    }).join(" ");
+}
+
+/** A Letter-size statement; long statements continue onto further pages */
+export function statementPdf(view: SuccessFeeStatementView, tenantName: string): Buffer {
+    const [year, month] = view.month.split("-").map(Number);
+    const status = view.status === "draft" ? "DRAFT - not for payment" : view.status === "sent" ? "Sent" : "Approved";
+
+    // Body rows as plain text; bold rows are headings
+    const body: { text: string; bold?: boolean }[] = [];
+    for (const l of view.lines) {
+        body.push({ text: pdfRow([l.accountName, enrolledDays(l), BASELINE_METHOD_LABELS[l.baselineMethod] ?? l.baselineMethod,
+            money(l.baselineRevenue), money(l.actualRevenue), money(l.incrementalRevenue), money(l.feeAmount)]) });
+        for (const t of l.feeBreakdown) {
+            const band = t.maxRevenue === null ? `over ${money(t.minRevenue)}` : `${money(t.minRevenue)}-${money(t.maxRevenue)}`;
+            body.push({ text: `    Program to date: ${t.ratePct}% on ${money(t.revenueInTier)} (${band}) = ${money(t.fee)}` });
+        }
+    }
+    if (view.lines.length === 0) body.push({ text: "No enrolled accounts were billed this month." });
+    body.push({ text: "" });
+    body.push({ text: pdfRow(["Total", "", "", money(parseFloat(view.totalBaseline)), money(parseFloat(view.totalActual)),
+        money(parseFloat(view.totalIncremental)), money(parseFloat(view.totalFee))]) });
+
+    if (view.adjustments.length > 0) {
+        body.push({ text: "" });
+        body.push({ text: "Adjustments", bold: true });
+        const accountNames = new Map(view.lines.map(l => [l.programAccountId, l.accountName]));
+        for (const a of view.adjustments) {
+            const who = a.programAccountId === null ? "Statement" : accountNames.get(a.programAccountId) ?? `Enrollment ${a.programAccountId}`;
+            const date = a.createdAt ? a.createdAt.toISOString().slice(0, 10) : "";
+            body.push({ text: `${date.padEnd(11)}${who.slice(0, 28).padEnd(29)}${a.reason.slice(0, 50).padEnd(51)}${money(parseFloat(a.amount)).padStart(14)}` });
+        }
+        body.push({ text: `${"Adjustments total".padEnd(91)}${money(view.adjustmentTotal).padStart(14)}` });
+    }
+    body.push({ text: "" });
+    body.push({ text: `Amount due: $${money(view.amountDue)}`, bold: true });
+
+    const headerHeight = 6 * PDF_LINE_HEIGHT;
+    const rowsPerPage = Math.floor((PDF_PAGE_HEIGHT - 2 * PDF_MARGIN - headerHeight - 2 * PDF_LINE_HEIGHT) / PDF_LINE_HEIGHT);
+    const pageCount = Math.max(1, Math.ceil(body.length / rowsPerPage));
+    const columnHeader = pdfRow(PDF_COLUMNS.map(c => c.title));
+
+    const pages: PdfText[][] = [];
+    for (let p = 0; p < pageCount; p++) {
+        const items: PdfText[] = [];
+        let y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+        items.push({ x: PDF_MARGIN, y, size: 14, text: `Success Fee Statement ${view.statementNumber}`, bold: true });
+        y -= 18;
+        items.push({ x: PDF_MARGIN, y, size: 10, text: `${tenantName} - ${MONTH_NAMES[month - 1]} ${year}` });
+        items.push({ x: PDF_PAGE_WIDTH - PDF_MARGIN - courierWidth(status.length, 10), y, size: 10, text: status });
+        y -= 14;
+        const issued = view.approvedAt ? `Approved ${view.approvedAt.toISOString().slice(0, 10)}` : `Generated ${view.generatedAt?.toISOString().slice(0, 10) ?? ""}`;
+        items.push({ x: PDF_MARGIN, y, size: PDF_FONT_SIZE, text: issued });
+        y -= 2 * PDF_LINE_HEIGHT;
+        items.push({ x: PDF_MARGIN, y, size: PDF_FONT_SIZE, text: columnHeader, bold: true });
+        y -= PDF_LINE_HEIGHT;
+        items.push({ x: PDF_MARGIN, y, size: PDF_FONT_SIZE, text: "-".repeat(columnHeader.length) });
+        y -= PDF_LINE_HEIGHT;
+
+        for (const row of body.slice(p * rowsPerPage, (p + 1) * rowsPerPage)) {
+            if (row.text) items.push({ x: PDF_MARGIN, y, size: row.bold ? 10 : PDF_FONT_SIZE, text: row.text, bold: row.bold });
+            y -= PDF_LINE_HEIGHT;
+        }
+        const footer = `Page ${p + 1} of ${pageCount}`;
+        items.push({ x: PDF_PAGE_WIDTH - PDF_MARGIN - courierWidth(footer.length, PDF_FONT_SIZE), y: PDF_MARGIN / 2, size: PDF_FONT_SIZE, text: footer });
+        pages.push(items);
+    }
+    return renderTextPdf(pages, `Success Fee Statement ${view.statementNumber}`);
+}
+
+/** True when the month was closed again after the draft's lines were copied */
+export function isStaleDraft(
+    statement: Pick<SuccessFeeStatement, "generatedAt">,
+    period: Pick<ProgramRevenuePeriod, "lastRunAt"> | undefined,
+): boolean {
+    if (!period) return true;
+    if (!period.lastRunAt || !statement.generatedAt) return false;
+    return period.lastRunAt.getTime() > statement.generatedAt.getTime();
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+/**
+ * Creates the month's statement from its closed snapshots, or rebuilds the
+ * lines of an existing draft. Approved and sent statements are refused.
+ */
+export async function generateSuccessFeeStatement(
+    tenantId: number,
+    month: string,
+    options: { generatedBy?: string | null } = {},
+): Promise<SuccessFeeStatement> {
+    const bounds = monthBounds(month);
+    if (!bounds) throw new Error(`Invalid statement month: ${month}`);
+
+    const [[period], [existing]] = await Promise.all([
+        db.select().from(programRevenuePeriods)
+            .where(and(eq(programRevenuePeriods.tenantId, tenantId), eq(programRevenuePeriods.periodStart, bounds.start))),
+        db.select().from(successFeeStatements)
+            .where(and(eq(successFeeStatements.tenantId, tenantId), eq(successFeeStatements.periodStart, bounds.start))),
+    ]);
+    if (!period) throw new StatementStateError(`${month} has not been closed yet; run the monthly close first`);
+    if (existing && existing.status !== "draft") {
+        throw new StatementStateError(`${existing.statementNumber} is ${existing.status}; add an adjustment instead`);
+    }
+
+    const snapshots = await db.select().from(programRevenueSnapshots).where(and(
+        eq(programRevenueSnapshots.tenantId, tenantId),
+        gte(programRevenueSnapshots.periodStart, bounds.start),
+        lt(programRevenueSnapshots.periodStart, bounds.end),
+    ));
+    const programAccountIds = Array.from(new Set(snapshots.map(s => s.programAccountId)));
+    const enrollments = programAccountIds.length === 0 ? [] : await db
+        .select({ id: programAccounts.id, accountId: programAccounts.accountId, baselineMethod: programAccounts.baselineMethod })
+        .from(programAccounts)
+        .where(and(eq(programAccounts.tenantId, tenantId), inArray(programAccounts.id, programAccountIds)));
+    const accountIds = enrollments.map(e => e.accountId);
+    const accountRows = accountIds.length === 0 ? [] : await db
+        .select({ id: accounts.id, name: accounts.name })
+        .from(accounts)
+        .where(and(eq(accounts.tenantId, tenantId), inArray(accounts.id, accountIds)));
+
+    const lines = buildStatementLines(
+        snapshots,
+        new Map(enrollments.map(e => [e.id, e])),
+        new Map(accountRows.map(a => [a.id, a.name])),
+    );
+    const totals = statementTotals(lines);
+    const values = {
+        lines,
+        totalBaseline: totals.totalBaseline.toFixed(2),
+        totalActual: totals.totalActual.toFixed(2),
+        totalIncremental: totals.totalIncremental.toFixed(2),
+        totalFee: totals.totalFee.toFixed(2),
+        generatedAt: new Date(),
+        generatedBy: options.generatedBy ?? null,
+    };
+
+    if (existing) {
+        // The status check keeps a concurrent approval from being overwritten
+        const [updated] = await db.update(successFeeStatements).set(values)
+            .where(and(eq(successFeeStatements.id, existing.id), eq(successFeeStatements.status, "draft")))
+            .returning();
+        if (!updated) throw new StatementStateError(`${existing.statementNumber} was approved while it was being regenerated`);
+        return updated;
+    }
+    // The unique (tenant, month) index turns a concurrent generate into a conflict instead of a second statement
+    const [created] = await db.insert(successFeeStatements)
+        .values({ tenantId, statementNumber: statementNumber(month), periodStart: bounds.start, status: "draft", ...values })
+        .onConflictDoNothing({ target: [successFeeStatements.tenantId, successFeeStatements.periodStart] })
+        .returning();
+    if (!created) throw new StatementStateError(`${statementNumber(month)} was generated by another request; refresh to see it`);
+    console.log(`[success-fee-statements] Tenant ${tenantId}: generated ${created.statementNumber} with ${lines.length} lines`);
+    return created;
+}
+
+/**
+ * draft → approved (also locks the month's close) → sent. Returns null when
+ * the statement doesn't exist; a statement in the wrong state throws.
+ */
+export async function advanceSuccessFeeStatement(
+    tenantId: number,
+    statementId: number,
+    action: StatementAction,
+    options: { userId?: string | null; sentTo?: string | null } = {},
+): Promise<SuccessFeeStatement | null> {
+    const from = action === "approve" ? "draft" : "approved";
+    const now = new Date();
+    const userId = options.userId ?? null;
+
+    return db.transaction(async (tx) => {
+        const [statement] = await tx.select().from(successFeeStatements)
+            .where(and(eq(successFeeStatements.id, statementId), eq(successFeeStatements.tenantId, tenantId)))
+            .for("update");
+        if (!statement) return null;
+        if (statement.status !== from) {
+            throw new StatementStateError(action === "approve"
+                ? `${statement.statementNumber} is already ${statement.status}`
+                : `${statement.statementNumber} must be approved before it is sent`);
+        }
+        if (action === "approve") {
+            // Locked so a close can't re-run the month between this check and the lock below
+            const [period] = await tx.select().from(programRevenuePeriods)
+                .where(and(eq(programRevenuePeriods.tenantId, tenantId), eq(programRevenuePeriods.periodStart, statement.periodStart)))
+                .for("update");
+            if (isStaleDraft(statement, period)) {
+                throw new StatementStateError(`${statement.statementNumber} was generated before the month's latest close; regenerate it before approving`);
+            }
+        }
+
+        const [updated] = await tx.update(successFeeStatements)
+            .set(action === "approve"
+                ? { status: "approved", approvedAt: now, approvedBy: userId }
+                : { status: "sent", sentAt: now, sentBy: userId, sentTo: options.sentTo ?? null })
+            .where(eq(successFeeStatements.id, statement.id))
+            .returning();
+
+        if (action === "approve") {
+            await tx.update(programRevenuePeriods)
+                .set({ status: "locked", lockedAt: now, lockedBy: userId })
+                .where(and(
+                    eq(programRevenuePeriods.tenantId, tenantId),
+                    eq(programRevenuePeriods.periodStart, updated.periodStart),
+                    eq(programRevenuePeriods.status, "open"),
+                ));
+        }
+        return updated;
+    });
+}
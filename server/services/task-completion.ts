@@ -0,0 +1,77 @@
+/**
+ * Task Completion
+ *
+ * POST /api/tasks/:id/complete
+ *
+ * Completes a task once:
+ *   1. Marks it completed, storing the rep's notes (or the legacy free-text
+ *      outcome) on the task. A task that is already completed is rejected, so
+ *      a retried or double-clicked submit can't record a second outcome.
+ *   2. When a structured outcome type is given, records an
+ *      agent_playbook_outcomes row against the task, its playbook and the
+ *      account's active agent playbook.
+ * Both writes run in one transaction: if the outcome can't be recorded the
+ * task stays open, rather than completed with no way to retry the outcome.
+ */
+
+import type { AgentPlaybookOutcome, PlaybookOutcomeType, Task } from "@shared/schema";
+import type { TenantStorage } from "../storage/tenantStorage";
+
+export interface TaskCompletionInput {
+    outcome?: string;                   // Legacy free-text outcome
+    outcomeType?: PlaybookOutcomeType;  // When set, a structured outcome is recorded
+    wonCategory?: string | null;
+    revenueImpact?: number | null;
+    outcomeScore?: number | null;
+    repNotes?: string | null;
+}
+
+export interface TaskCompletionResult {
+    task: Task;
+    playbookOutcome: AgentPlaybookOutcome | null;
+}
+
+export class TaskAlreadyCompletedError extends Error {
+    constructor(taskId: number) {
+        super(`Task ${taskId} is already completed`);
+        this.name = "TaskAlreadyCompletedError";
+    }
+}
+
+/**
+ * Completes a task and records its structured outcome.
+ * Returns null when the task doesn't exist (or is outside the caller's scope);
+ * throws TaskAlreadyCompletedError when it has been completed before.
+ */
+export async function completeTask(
+    storage: TenantStorage,
+    taskId: number,
+    input: TaskCompletionInput,
+    recordedBy: string | null,
+): Promise<TaskCompletionResult | null> {
+    const existing = await storage.getTask(taskId);
+    if (!existing) return null;
+    if (existing.status === "completed") throw new TaskAlreadyCompletedError(taskId);
+
+    const notes = input.repNotes ?? input.outcome ?? null;
+    const agentPlaybook = input.outcomeType ? await storage.getActiveAgentPlaybook(existing.accountId) : undefined;
+    const playbookOutcome = input.outcomeType
+        ? {
+            accountId: existing.accountId,
+            taskId: existing.id,
+            playbookId: existing.playbookId,
+            agentPlaybookId: agentPlaybook?.id ?? null,
+            outcomeType: input.outcomeType,
+            wonCategory: input.wonCategory ?? null,
+            revenueImpact: input.revenueImpact != null ? String(input.revenueImpact) : null,
+            outcomeScore: input.outcomeScore ?? null,
+            repNotes: notes,
+            recordedBy,
+        }
+        : null;
+
+    const completed = await storage.markTaskCompleted(taskId, notes ?? existing.outcome, playbookOutcome);
+    // Completed by a concurrent request between the read and the update
+    if (!completed) throw new TaskAlreadyCompletedError(taskId);
+    return completed;
+}
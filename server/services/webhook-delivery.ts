@@ -0,0 +1,319 @@
+/**
+ * Webhook Delivery Service
+ *
+ * GET  /api/webhooks/deliveries
+ * POST /api/webhooks/deliveries/:id/redeliver
+ *
+ * Sends queued CRM events to agent_organization_settings.crm_webhook_url and
+ * logs every attempt (status code, response body, timing) in webhook_deliveries.
+ *
+ * Each request is signed so receivers can verify it and reject replays:
+ *   X-Webhook-Id         agent_crm_sync_queue.id (stable across retries, for dedupe)
+ *   X-Webhook-Timestamp  Unix seconds when the request was signed
+ *   X-Webhook-Signature  v1=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ *
+ * Receivers should reject timestamps more than 5 minutes old. After a secret
+ * rotation the previous secret keeps signing (a second v1= entry) for 24 hours
+ * so receivers can switch over without dropping events.
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import {
+    agentCrmSyncQueue,
+    agentOrganizationSettings,
+    webhookDeliveries,
+    type AgentOrganizationSettings,
+    type WebhookDelivery,
+} from "@shared/schema";
+import { and, desc, eq } from "drizzle-orm";
+
+export const WEBHOOK_SECRET_GRACE_HOURS = 24;
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const WEBHOOK_RETRY_BASE_MS = 5 * 60 * 1000;
+const WEBHOOK_RETRY_MAX_MS = 12 * 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 15000;
+const MAX_LOGGED_RESPONSE_CHARS = 4000;
+
+// ─── Signing ──────────────────────────────────────────────────────────────────
+
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function buildSignatureHeader(secrets: string[], timestamp: number, body: string): string {
+    return secrets.map(secret => `v1=${signWebhookBody(secret, timestamp, body)}`).join(",");
+}
+
+/**
+ * Secrets that should sign outgoing requests: the current one, plus the
+ * previous one while the rotation grace period is still running.
+ */
+export function activeWebhookSecrets(
+    settings: Pick<AgentOrganizationSettings, "crmWebhookSecret" | "crmWebhookPreviousSecret" | "crmWebhookSecretRotatedAt">,
+    now: Date = new Date(),
+): string[] {
+    const secrets: string[] = [];
+    if (settings.crmWebhookSecret) secrets.push(settings.crmWebhookSecret);
+    if (settings.crmWebhookPreviousSecret && settings.crmWebhookSecretRotatedAt) {
+        const graceEndsAt = settings.crmWebhookSecretRotatedAt.getTime() + WEBHOOK_SECRET_GRACE_HOURS * 60 * 60 * 1000;
+        if (now.getTime() < graceEndsAt) secrets.push(settings.crmWebhookPreviousSecret);
+    }
+    return secrets;
+}
+
+function generateWebhookSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+// ─── Backoff ──────────────────────────────────────────────────────────────────
+
+/**
+ * Delay before the next attempt once `attempts` attempts have failed:
+ * 5 min, 10 min, 20 min, ... capped at 12 hours.
+ */
+export function getRetryDelayMs(attempts: number): number {
+    return Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), WEBHOOK_RETRY_MAX_MS);
+}
+
+// ─── Sending ──────────────────────────────────────────────────────────────────
+
+export interface WebhookSendOptions {
+    tenantId: number;
+    queueId: number;
+    eventType: string;
+    url: string;
+    secrets: string[];
+    payload: unknown;
+    attempt: number;
+    trigger?: "automatic" | "manual";
+}
+
+/**
+ * Signs and POSTs one event and logs the attempt. Never throws for delivery
+ * failures: a non-2xx response or network error is recorded in `error`.
+ */
+export async function sendWebhook(options: WebhookSendOptions): Promise<WebhookDelivery> {
+    const body = JSON.stringify(options.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "User-Agent": "WalletShareExpander-Agent/1.0",
+        "X-Webhook-Id": String(options.queueId),
+        "X-Webhook-Event": options.eventType,
+        "X-Webhook-Timestamp": String(timestamp),
+    };
+    if (options.secrets.length > 0) {
+        headers["X-Webhook-Signature"] = buildSignatureHeader(options.secrets, timestamp, body);
+    }
+
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+    try {
+        const response = await fetch(options.url, {
+            method: "POST",
+            headers,
+            body,
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        responseStatus = response.status;
+        responseBody = (await response.text()).slice(0, MAX_LOGGED_RESPONSE_CHARS);
+        if (!response.ok) {
+            error = `Webhook responded with ${response.status}`;
+        }
+    } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+    }
+
+    const [delivery] = await db.insert(webhookDeliveries).values({
+        tenantId: options.tenantId,
+        queueId: options.queueId,
+        eventType: options.eventType,
+        url: options.url,
+        attempt: options.attempt,
+        trigger: options.trigger ?? "automatic",
+        requestBody: body,
+        responseStatus,
+        responseBody,
+        durationMs: Date.now() - startedAt,
+        error,
+    }).returning();
+    return delivery;
+}
+
+export function describeDeliveryError(delivery: WebhookDelivery): string | null {
+    if (!delivery.error) return null;
+    return delivery.responseBody ? `${delivery.error}: ${delivery.responseBody}` : delivery.error;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+async function getOrgSettings(tenantId: number): Promise<AgentOrganizationSettings | undefined> {
+    const [settings] = await db.select().from(agentOrganizationSettings)
+        .where(eq(agentOrganizationSettings.tenantId, tenantId));
+    return settings;
+}
+
+export interface WebhookConfig {
+    url: string | null;
+    hasSecret: boolean;
+    secretRotatedAt: Date | null;
+    previousSecretExpiresAt: Date | null;
+}
+
+export async function getWebhookConfig(tenantId: number): Promise<WebhookConfig> {
+    const settings = await getOrgSettings(tenantId);
+    const rotatedAt = settings?.crmWebhookSecretRotatedAt ?? null;
+    const previousActive = settings ? activeWebhookSecrets(settings).length > 1 : false;
+    return {
+        url: settings?.crmWebhookUrl ?? null,
+        hasSecret: !!settings?.crmWebhookSecret,
+        secretRotatedAt: rotatedAt,
+        previousSecretExpiresAt: previousActive && rotatedAt
+            ? new Date(rotatedAt.getTime() + WEBHOOK_SECRET_GRACE_HOURS * 60 * 60 * 1000)
+            : null,
+    };
+}
+
+/**
+ * Saves the webhook URL. A signing secret is generated the first time a URL
+ * is set and returned so it can be shown once.
+ */
+export async function saveWebhookUrl(tenantId: number, url: string | null): Promise<{ secret: string | null }> {
+    const settings = await getOrgSettings(tenantId);
+    const secret = url && !settings?.crmWebhookSecret ? generateWebhookSecret() : null;
+    const updates = {
+        crmWebhookUrl: url,
+        ...(secret ? { crmWebhookSecret: secret } : {}),
+        updatedAt: new Date(),
+    };
+
+    if (settings) {
+        await db.update(agentOrganizationSettings).set(updates).where(eq(agentOrganizationSettings.id, settings.id));
+    } else {
+        await db.insert(agentOrganizationSettings).values({ tenantId, ...updates });
+    }
+    return { secret };
+}
+
+/**
+ * Replaces the signing secret. The old secret keeps signing alongside the
+ * new one for WEBHOOK_SECRET_GRACE_HOURS.
+ */
+export async function rotateWebhookSecret(tenantId: number): Promise<string> {
+    const settings = await getOrgSettings(tenantId);
+    const secret = generateWebhookSecret();
+    const updates = {
+        crmWebhookSecret: secret,
+        crmWebhookPreviousSecret: settings?.crmWebhookSecret ?? null,
+        crmWebhookSecretRotatedAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    if (settings) {
+        await db.update(agentOrganizationSettings).set(updates).where(eq(agentOrganizationSettings.id, settings.id));
+    } else {
+        await db.insert(agentOrganizationSettings).values({ tenantId, ...updates });
+    }
+    console.log(`[webhooks] Rotated signing secret for tenant ${tenantId}`);
+    return secret;
+}
+
+// ─── Delivery log ─────────────────────────────────────────────────────────────
+
+export interface WebhookDeliverySummary {
+    id: number;
+    queueId: number;
+    eventType: string;
+    url: string;
+    attempt: number;
+    trigger: string;
+    responseStatus: number | null;
+    durationMs: number | null;
+    error: string | null;
+    eventStatus: string | null;
+    createdAt: Date | null;
+}
+
+export async function listWebhookDeliveries(
+    tenantId: number,
+    options: { queueId?: number; limit?: number } = {},
+): Promise<WebhookDeliverySummary[]> {
+    const conditions = [eq(webhookDeliveries.tenantId, tenantId)];
+    if (options.queueId) conditions.push(eq(webhookDeliveries.queueId, options.queueId));
+
+    return db.select({
+        id: webhookDeliveries.id,
+        queueId: webhookDeliveries.queueId,
+        eventType: webhookDeliveries.eventType,
+        url: webhookDeliveries.url,
+        attempt: webhookDeliveries.attempt,
+        trigger: webhookDeliveries.trigger,
+        responseStatus: webhookDeliveries.responseStatus,
+        durationMs: webhookDeliveries.durationMs,
+        error: webhookDeliveries.error,
+        eventStatus: agentCrmSyncQueue.status,
+        createdAt: webhookDeliveries.createdAt,
+    })
+        .from(webhookDeliveries)
+        .leftJoin(agentCrmSyncQueue, eq(agentCrmSyncQueue.id, webhookDeliveries.queueId))
+        .where(and(...conditions))
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(options.limit ?? 100);
+}
+
+export async function getWebhookDelivery(tenantId: number, id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.tenantId, tenantId), eq(webhookDeliveries.id, id)));
+    return delivery;
+}
+
+export class WebhookNotConfiguredError extends Error {
+    constructor() {
+        super("No webhook URL is configured");
+        this.name = "WebhookNotConfiguredError";
+    }
+}
+
+/**
+ * Re-sends the event behind a logged delivery to the current webhook URL,
+ * signed with the current secrets. The attempt is logged but doesn't count
+ * toward WEBHOOK_MAX_ATTEMPTS or move the retry schedule; a success marks the
+ * queued event synced.
+ * Throws WebhookNotConfiguredError when the tenant has no webhook URL.
+ * @returns The new delivery row, or undefined when the delivery is not found
+ */
+export async function redeliverWebhook(tenantId: number, deliveryId: number): Promise<WebhookDelivery | undefined> {
+    const original = await getWebhookDelivery(tenantId, deliveryId);
+    if (!original) return undefined;
+
+    const [row] = await db.select().from(agentCrmSyncQueue)
+        .where(and(eq(agentCrmSyncQueue.tenantId, tenantId), eq(agentCrmSyncQueue.id, original.queueId)));
+    if (!row) return undefined;
+
+    const settings = await getOrgSettings(tenantId);
+    if (!settings?.crmWebhookUrl) {
+        throw new WebhookNotConfiguredError();
+    }
+
+    const delivery = await sendWebhook({
+        tenantId,
+        queueId: row.id,
+        eventType: row.eventType,
+        url: settings.crmWebhookUrl,
+        secrets: activeWebhookSecrets(settings),
+        payload: row.payload,
+        // Numbered after the automatic attempt it follows
+        attempt: row.attempts ?? 0,
+        trigger: "manual",
+    });
+
+    if (!delivery.error) {
+        await db.update(agentCrmSyncQueue)
+            .set({ status: "synced", syncedAt: delivery.createdAt ?? new Date(), nextAttemptAt: null, errorMessage: null })
+            .where(eq(agentCrmSyncQueue.id, row.id));
+    }
+    return delivery;
+}
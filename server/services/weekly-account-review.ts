@@ -6,7 +6,8 @@
  *
  * For each enrolled account per tenant:
  *   1. Assembles full context
- *   2. Asks gpt-4o: graduation readiness, playbook effectiveness, risk signals
+ *   2. Asks gpt-4o: graduation readiness and playbook effectiveness. Risk comes
+ *      from the churn model's latest scores (services/churn-model.ts), not the LLM
  *   3. Auto-graduates accounts meeting the threshold (updates enrollment_status)
  *   4. Rotates stale playbooks (marks old active → rotated, triggers new generation)
  *   5. Sends congratulations email to TM on graduation
@@ -16,8 +17,9 @@
 import OpenAI from "openai";
 import { z } from "zod";
 import { db } from "../db";
-import { accounts, agentPlaybooks } from "@shared/schema";
+import { accounts, agentPlaybooks, accountChurnScores } from "@shared/schema";
 import { and, eq } from "drizzle-orm";
+import { AT_RISK_LEVELS } from "./churn-model";
 import { assembleAccountContext, buildFullSystemPrompt } from "./account-context";
 import { writeAgentMemo, AGENT_MEMO_INSTRUCTION } from "./agent-identity";
 import { Resend } from "resend";
@@ -32,8 +34,6 @@ const ReviewResponseSchema = z.object({
     graduation_ready: z.boolean(),
     graduation_confidence: z.number().min(0).max(1),
     graduation_reason: z.string(),
-    risk_level: z.enum(["low", "medium", "high", "critical"]),
-    risk_signals: z.array(z.string()).max(3),
     playbook_effectiveness: z.enum(["effective", "needs_rotation", "no_playbook"]),
     recommended_next_playbook_type: z.string().nullable(),
     rep_action_this_week: z.string().max(300),
@@ -90,6 +90,11 @@ export async function runWeeklyAccountReview(tenantId: number): Promise<{
             eq((accounts as any).enrollmentStatus, "enrolled"),
         ));
 
+    const churnScores = await db.select({ accountId: accountChurnScores.accountId, riskLevel: accountChurnScores.riskLevel })
+        .from(accountChurnScores)
+        .where(eq(accountChurnScores.tenantId, tenantId));
+    const riskByAccount = new Map(churnScores.map((s) => [s.accountId, s.riskLevel]));
+
     let graduated = 0;
     let rotated = 0;
     let atRisk = 0;
@@ -115,9 +120,8 @@ export async function runWeeklyAccountReview(tenantId: number): Promise<{
                             "",
                             "Assess:",
                             "1. Graduation readiness — has this account achieved consistent, broad category penetration and strong revenue growth? Should it be moved to 'graduated' status?",
-                            "2. Risk level — low/medium/high/critical based on recency, trend, and interaction signals",
-                            "3. Playbook effectiveness — is the current playbook working or does it need rotation?",
-                            "4. Single most important rep action for this week",
+                            "2. Playbook effectiveness — is the current playbook working or does it need rotation?",
+                            "3. Single most important rep action for this week — address the CHURN RISK drivers first if the risk is high or critical",
                             AGENT_MEMO_INSTRUCTION,
                         ].join("\n"),
                     },
@@ -160,7 +164,8 @@ export async function runWeeklyAccountReview(tenantId: number): Promise<{
                 console.log(`[weekly-review] Rotated playbook for: ${account.name}`);
             }
 
-            if (review.risk_level === "high" || review.risk_level === "critical") atRisk++;
+            const riskLevel = riskByAccount.get(account.id);
+            if (riskLevel && (AT_RISK_LEVELS as string[]).includes(riskLevel)) atRisk++;
             lastMemo = review.agent_memo;
 
         } catch (err) {
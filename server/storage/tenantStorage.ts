@@ -1,12 +1,16 @@
 import { db } from "../db";
-import { eq, and, desc, sql, gte, lte, inArray } from "drizzle-orm";
+import { eq, and, or, desc, sql, gt, gte, lte, inArray, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import {
   accounts, products, productCategories, orders, orderItems,
   segmentProfiles, profileCategories, profileReviewLog, accountMetrics, accountCategoryGaps,
-  tasks, playbooks, playbookTasks, programAccounts, programRevenueSnapshots,
-  dataUploads, settings, scoringWeights, territoryManagers, customCategories,
-  revShareTiers, accountFlags,
+  tasks, playbooks, playbookTasks, programAccounts, programRevenueSnapshots, programRevenuePeriods, programHoldoutAccounts, programEnrollmentEvents,
+  successFeeStatements, successFeeStatementAdjustments,
+  dataUploads, settings, scoringWeights, scoringModels, territoryManagers,
+  revShareTiers, accountFlags, categoryAssociationRules, agentAccountCategorySpend, accountMetricsSnapshots, accountCategoryGapSnapshots, accountChurnScores, segmentMarginBenchmarks,
+  userRoles, users, teamInvites,
   contacts, projects, orderSignals, competitorMentions, emailInteractions,
+  agentPlaybooks, agentPlaybookOutcomes, agentInteractions, syncedEmails,
   type Account, type InsertAccount,
   type Product, type InsertProduct,
   type ProductCategory, type InsertProductCategory,
@@ -17,15 +21,19 @@ import {
   type ProfileReviewLog, type InsertProfileReviewLog,
   type AccountMetrics, type InsertAccountMetrics,
   type AccountCategoryGap, type InsertAccountCategoryGap,
+  type AccountMetricsSnapshot, type AccountCategoryGapSnapshot, type AccountChurnScore, type SegmentMarginBenchmark,
   type Task, type InsertTask,
   type Playbook, type InsertPlaybook,
   type PlaybookTask, type InsertPlaybookTask,
-  type ProgramAccount, type InsertProgramAccount,
+  type AgentPlaybook, type AgentPlaybookOutcome, type InsertAgentPlaybookOutcome,
+  type AgentInteraction, type InsertAgentInteraction, type SyncedEmail,
+  type ProgramAccount, type InsertProgramAccount, type ProgramRevenuePeriod, type ProgramHoldoutAccount, type ProgramEnrollmentEventRow,
+  type SuccessFeeStatement, type SuccessFeeStatementAdjustment, type InsertSuccessFeeStatementAdjustment,
   type DataUpload, type InsertDataUpload,
   type Setting, type InsertSetting,
   type ScoringWeights, type InsertScoringWeights,
+  type ScoringModel, type InsertScoringModel,
   type TerritoryManager, type InsertTerritoryManager,
-  type CustomCategory, type InsertCustomCategory,
   type RevShareTier, type InsertRevShareTier,
   type Contact, type InsertContact,
   type Project, type InsertProject,
@@ -33,8 +41,20 @@ import {
   type CompetitorMention, type InsertCompetitorMention,
   type EmailInteraction, type InsertEmailInteraction,
   type AccountFlag, type InsertAccountFlag,
+  type UserRole, type TeamInvite, type InsertTeamInvite,
+  type AccountRollupLevel,
 } from "@shared/schema";
 
+export interface TeamMember {
+  userId: string;
+  role: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+  joinedAt: Date | null;
+}
+
 /**
  * TenantStorage provides tenant-scoped data access for all database operations.
  * All queries are automatically filtered by tenantId to ensure data isolation.
@@ -44,15 +64,52 @@ export class TenantStorage {
   /**
    * Creates a new TenantStorage instance for the specified tenant
    * @param tenantId - The tenant ID to scope all operations to
+   * @param territoryManager - Optional TM whose book of business limits account, metrics, task and CRM reads
+   */
+  constructor(private tenantId: number, private territoryManager?: TerritoryManager) {}
+
+  /**
+   * Row-level filter for the territory_manager role: accounts assigned to the
+   * manager (by name or email) or located in one of their territories
+   * @returns SQL condition on accounts, or undefined when not territory-scoped
    */
-  constructor(private tenantId: number) {}
+  private accountScope(): SQL | undefined {
+    const tm = this.territoryManager;
+    if (!tm) return undefined;
+    const conditions = [inArray(accounts.assignedTm, [tm.name, tm.email])];
+    if (tm.territories?.length) {
+      conditions.push(inArray(accounts.region, tm.territories));
+    }
+    return or(...conditions);
+  }
+
+  /**
+   * Limits an account_id column to the accounts visible under accountScope()
+   * @param column - The account_id column of the table being queried
+   * @returns SQL condition, or undefined when not territory-scoped
+   */
+  private accountIdScope(column: AnyPgColumn): SQL | undefined {
+    const scope = this.accountScope();
+    if (!scope) return undefined;
+    return inArray(column, db.select({ id: accounts.id }).from(accounts)
+      .where(and(eq(accounts.tenantId, this.tenantId), scope)));
+  }
+
+  /**
+   * Tasks visible to a territory manager: those on their accounts plus any assigned to them directly
+   * @returns SQL condition on tasks, or undefined when not territory-scoped
+   */
+  private taskScope(): SQL | undefined {
+    if (!this.territoryManager) return undefined;
+    return or(eq(tasks.assignedTmId, this.territoryManager.id), this.accountIdScope(tasks.accountId));
+  }
 
   /**
    * Retrieves all accounts for the current tenant
    * @returns Promise resolving to array of Account objects
    */
   async getAccounts(): Promise<Account[]> {
-    return db.select().from(accounts).where(eq(accounts.tenantId, this.tenantId));
+    return db.select().from(accounts).where(and(eq(accounts.tenantId, this.tenantId), this.accountScope()));
   }
 
   /**
@@ -62,7 +119,7 @@ export class TenantStorage {
    */
   async getAccount(id: number): Promise<Account | undefined> {
     const [account] = await db.select().from(accounts)
-      .where(and(eq(accounts.id, id), eq(accounts.tenantId, this.tenantId)));
+      .where(and(eq(accounts.id, id), eq(accounts.tenantId, this.tenantId), this.accountScope()));
     return account;
   }
 
@@ -87,11 +144,31 @@ export class TenantStorage {
   async updateAccount(id: number, data: Partial<InsertAccount>): Promise<Account | undefined> {
     const [updated] = await db.update(accounts)
       .set(data)
-      .where(and(eq(accounts.id, id), eq(accounts.tenantId, this.tenantId)))
+      .where(and(eq(accounts.id, id), eq(accounts.tenantId, this.tenantId), this.accountScope()))
       .returning();
     return updated;
   }
 
+  /**
+   * Retrieves an account and every branch beneath it, at any depth
+   * @param accountId - The parent (or branch) account ID
+   * @returns Promise resolving to the account ID followed by its descendants' IDs
+   */
+  async getAccountFamilyIds(accountId: number): Promise<number[]> {
+    const result = await db.execute(sql`
+      WITH RECURSIVE family AS (
+        SELECT id FROM accounts WHERE id = ${accountId} AND tenant_id = ${this.tenantId}
+        UNION
+        SELECT a.id FROM accounts a
+        JOIN family f ON a.parent_account_id = f.id
+        WHERE a.tenant_id = ${this.tenantId}
+      )
+      SELECT id FROM family
+    `);
+    const ids = ((result.rows || []) as { id: number }[]).map(r => Number(r.id));
+    return [accountId, ...ids.filter(id => id !== accountId)];
+  }
+
   /**
    * Retrieves all products for the current tenant
    * @returns Promise resolving to array of Product objects
@@ -138,6 +215,17 @@ export class TenantStorage {
       .where(and(eq(orders.accountId, accountId), eq(orders.tenantId, this.tenantId)));
   }
 
+  /**
+   * Retrieves orders for several accounts (e.g. a parent and its branches) within the current tenant
+   * @param accountIds - The account IDs to filter orders by
+   * @returns Promise resolving to array of Order objects for the accounts
+   */
+  async getOrdersByAccounts(accountIds: number[]): Promise<Order[]> {
+    if (accountIds.length === 0) return [];
+    return db.select().from(orders)
+      .where(and(inArray(orders.accountId, accountIds), eq(orders.tenantId, this.tenantId)));
+  }
+
   /**
    * Creates a new order for the current tenant
    * @param order - The order data to insert (tenantId is auto-added)
@@ -235,7 +323,7 @@ export class TenantStorage {
    */
   async getAccountMetrics(accountId: number): Promise<AccountMetrics | undefined> {
     const [metrics] = await db.select().from(accountMetrics)
-      .where(and(eq(accountMetrics.accountId, accountId), eq(accountMetrics.tenantId, this.tenantId)))
+      .where(and(eq(accountMetrics.accountId, accountId), eq(accountMetrics.tenantId, this.tenantId), this.accountIdScope(accountMetrics.accountId)))
       .orderBy(desc(accountMetrics.computedAt))
       .limit(1);
     return metrics;
@@ -247,7 +335,7 @@ export class TenantStorage {
    */
   async getLatestAccountMetrics(): Promise<AccountMetrics[]> {
     return db.select().from(accountMetrics)
-      .where(eq(accountMetrics.tenantId, this.tenantId))
+      .where(and(eq(accountMetrics.tenantId, this.tenantId), this.accountIdScope(accountMetrics.accountId)))
       .orderBy(desc(accountMetrics.opportunityScore));
   }
 
@@ -270,7 +358,7 @@ export class TenantStorage {
    */
   async getAccountCategoryGaps(accountId: number): Promise<AccountCategoryGap[]> {
     return db.select().from(accountCategoryGaps)
-      .where(and(eq(accountCategoryGaps.accountId, accountId), eq(accountCategoryGaps.tenantId, this.tenantId)))
+      .where(and(eq(accountCategoryGaps.accountId, accountId), eq(accountCategoryGaps.tenantId, this.tenantId), this.accountIdScope(accountCategoryGaps.accountId)))
       .orderBy(desc(accountCategoryGaps.gapPct));
   }
 
@@ -297,7 +385,8 @@ export class TenantStorage {
     const allMetrics = await db.select().from(accountMetrics)
       .where(and(
         inArray(accountMetrics.accountId, accountIds),
-        eq(accountMetrics.tenantId, this.tenantId)
+        eq(accountMetrics.tenantId, this.tenantId),
+        this.accountIdScope(accountMetrics.accountId)
       ))
       .orderBy(desc(accountMetrics.computedAt));
     
@@ -310,6 +399,25 @@ export class TenantStorage {
     return metricsMap;
   }
 
+  /**
+   * Retrieves the latest churn model score of every scored account in the tenant
+   * @returns Promise resolving to Map of accountId to AccountChurnScore
+   */
+  async getAccountChurnScores(): Promise<Map<number, AccountChurnScore>> {
+    const rows = await db.select().from(accountChurnScores)
+      .where(eq(accountChurnScores.tenantId, this.tenantId));
+    return new Map(rows.map(r => [r.accountId, r]));
+  }
+
+  /**
+   * Retrieves the gross margin benchmarks from the latest metrics recompute
+   * @returns Promise resolving to array of SegmentMarginBenchmark
+   */
+  async getSegmentMarginBenchmarks(): Promise<SegmentMarginBenchmark[]> {
+    return db.select().from(segmentMarginBenchmarks)
+      .where(eq(segmentMarginBenchmarks.tenantId, this.tenantId));
+  }
+
   /**
    * Batch retrieves category gaps for multiple accounts in a single query (O(1) lookup)
    * @param accountIds - Array of account IDs to retrieve gaps for
@@ -335,6 +443,40 @@ export class TenantStorage {
     return gapsMap;
   }
 
+  /**
+   * Retrieves monthly metrics snapshots for an account, oldest first
+   * @param accountId - The account ID to retrieve history for
+   * @param since - Earliest snapshot month to include
+   * @returns Promise resolving to array of AccountMetricsSnapshot objects
+   */
+  async getAccountMetricsHistory(accountId: number, since: Date): Promise<AccountMetricsSnapshot[]> {
+    return db.select().from(accountMetricsSnapshots)
+      .where(and(
+        eq(accountMetricsSnapshots.accountId, accountId),
+        eq(accountMetricsSnapshots.tenantId, this.tenantId),
+        gte(accountMetricsSnapshots.snapshotMonth, since),
+        this.accountIdScope(accountMetricsSnapshots.accountId)
+      ))
+      .orderBy(accountMetricsSnapshots.snapshotMonth);
+  }
+
+  /**
+   * Retrieves monthly category gap snapshots for an account, oldest first
+   * @param accountId - The account ID to retrieve history for
+   * @param since - Earliest snapshot month to include
+   * @returns Promise resolving to array of AccountCategoryGapSnapshot objects
+   */
+  async getAccountCategoryGapHistory(accountId: number, since: Date): Promise<AccountCategoryGapSnapshot[]> {
+    return db.select().from(accountCategoryGapSnapshots)
+      .where(and(
+        eq(accountCategoryGapSnapshots.accountId, accountId),
+        eq(accountCategoryGapSnapshots.tenantId, this.tenantId),
+        gte(accountCategoryGapSnapshots.snapshotMonth, since),
+        this.accountIdScope(accountCategoryGapSnapshots.accountId)
+      ))
+      .orderBy(accountCategoryGapSnapshots.snapshotMonth);
+  }
+
   async getSegmentProfiles(): Promise<SegmentProfile[]> {
     return db.select().from(segmentProfiles)
       .where(eq(segmentProfiles.tenantId, this.tenantId))
@@ -390,12 +532,12 @@ export class TenantStorage {
     
     const [taskResults, countResult] = await Promise.all([
       db.select().from(tasks)
-        .where(eq(tasks.tenantId, this.tenantId))
+        .where(and(eq(tasks.tenantId, this.tenantId), this.taskScope()))
         .orderBy(desc(tasks.createdAt))
         .limit(limit)
         .offset(offset),
       db.select({ count: sql<number>`count(*)::int` }).from(tasks)
-        .where(eq(tasks.tenantId, this.tenantId))
+        .where(and(eq(tasks.tenantId, this.tenantId), this.taskScope()))
     ]);
     
     return {
@@ -412,7 +554,7 @@ export class TenantStorage {
    */
   async getAllTasks(): Promise<Task[]> {
     return db.select().from(tasks)
-      .where(eq(tasks.tenantId, this.tenantId))
+      .where(and(eq(tasks.tenantId, this.tenantId), this.taskScope()))
       .orderBy(desc(tasks.createdAt));
   }
 
@@ -423,7 +565,7 @@ export class TenantStorage {
    */
   async getTasksByAccount(accountId: number): Promise<Task[]> {
     return db.select().from(tasks)
-      .where(and(eq(tasks.accountId, accountId), eq(tasks.tenantId, this.tenantId)));
+      .where(and(eq(tasks.accountId, accountId), eq(tasks.tenantId, this.tenantId), this.taskScope()));
   }
 
   /**
@@ -433,7 +575,7 @@ export class TenantStorage {
    */
   async getTask(id: number): Promise<Task | undefined> {
     const [task] = await db.select().from(tasks)
-      .where(and(eq(tasks.id, id), eq(tasks.tenantId, this.tenantId)));
+      .where(and(eq(tasks.id, id), eq(tasks.tenantId, this.tenantId), this.taskScope()));
     return task;
   }
 
@@ -458,11 +600,41 @@ export class TenantStorage {
   async updateTask(id: number, data: Partial<InsertTask>): Promise<Task | undefined> {
     const [updated] = await db.update(tasks)
       .set(data)
-      .where(and(eq(tasks.id, id), eq(tasks.tenantId, this.tenantId)))
+      .where(and(eq(tasks.id, id), eq(tasks.tenantId, this.tenantId), this.taskScope()))
       .returning();
     return updated;
   }
 
+  /**
+   * Marks a task completed unless it already is, and records its structured
+   * outcome in the same transaction so a failed insert leaves the task open.
+   * The status check is part of the update, so of two concurrent completions
+   * only one gets the row back.
+   * @param id - The task ID to complete
+   * @param outcome - Free-text outcome to store on the task
+   * @param playbookOutcome - Structured outcome to record, if any (tenantId is auto-added)
+   * @returns Promise resolving to the completed Task and its outcome, undefined if not found or already completed
+   */
+  async markTaskCompleted(
+    id: number,
+    outcome: string | null,
+    playbookOutcome: InsertAgentPlaybookOutcome | null = null
+  ): Promise<{ task: Task; playbookOutcome: AgentPlaybookOutcome | null } | undefined> {
+    return db.transaction(async (tx) => {
+      const [task] = await tx.update(tasks)
+        .set({ status: "completed", completedAt: new Date(), outcome })
+        .where(and(eq(tasks.id, id), eq(tasks.tenantId, this.tenantId), sql`${tasks.status} is distinct from 'completed'`, this.taskScope()))
+        .returning();
+      if (!task) return undefined;
+      if (!playbookOutcome) return { task, playbookOutcome: null };
+
+      const [created] = await tx.insert(agentPlaybookOutcomes)
+        .values({ ...playbookOutcome, tenantId: this.tenantId })
+        .returning();
+      return { task, playbookOutcome: created };
+    });
+  }
+
   /**
    * Retrieves all playbooks for the current tenant
    * @returns Promise resolving to array of Playbook objects ordered by generation date
@@ -503,9 +675,49 @@ export class TenantStorage {
     return created;
   }
 
+  /**
+   * Most recent active AI playbook generated for an account
+   * @param accountId - The account ID
+   * @returns Promise resolving to the AgentPlaybook, or undefined when none is active
+   */
+  async getActiveAgentPlaybook(accountId: number): Promise<AgentPlaybook | undefined> {
+    const [playbook] = await db.select().from(agentPlaybooks)
+      .where(and(
+        eq(agentPlaybooks.tenantId, this.tenantId),
+        eq(agentPlaybooks.accountId, accountId),
+        eq(agentPlaybooks.status, "active"),
+      ))
+      .orderBy(desc(agentPlaybooks.generatedAt))
+      .limit(1);
+    return playbook;
+  }
+
+  /**
+   * Records a structured task outcome for the current tenant
+   * @param outcome - The outcome data to insert (tenantId is auto-added)
+   * @returns Promise resolving to the created AgentPlaybookOutcome
+   */
+  async createPlaybookOutcome(outcome: InsertAgentPlaybookOutcome): Promise<AgentPlaybookOutcome> {
+    const [created] = await db.insert(agentPlaybookOutcomes)
+      .values({ ...outcome, tenantId: this.tenantId })
+      .returning();
+    return created;
+  }
+
+  /**
+   * Retrieves the outcomes logged against a task, newest first
+   * @param taskId - The task ID
+   * @returns Promise resolving to array of AgentPlaybookOutcome objects
+   */
+  async getTaskOutcomes(taskId: number): Promise<AgentPlaybookOutcome[]> {
+    return db.select().from(agentPlaybookOutcomes)
+      .where(and(eq(agentPlaybookOutcomes.taskId, taskId), eq(agentPlaybookOutcomes.tenantId, this.tenantId)))
+      .orderBy(desc(agentPlaybookOutcomes.recordedAt));
+  }
+
   async getProgramAccounts(): Promise<ProgramAccount[]> {
     return db.select().from(programAccounts)
-      .where(eq(programAccounts.tenantId, this.tenantId))
+      .where(and(eq(programAccounts.tenantId, this.tenantId), this.accountIdScope(programAccounts.accountId)))
       .orderBy(desc(programAccounts.enrolledAt));
   }
 
@@ -515,17 +727,56 @@ export class TenantStorage {
     return pa;
   }
 
+  /** The account's latest enrollment; earlier ones remain after a re-enrollment */
   async getProgramAccountByAccountId(accountId: number): Promise<ProgramAccount | undefined> {
     const [pa] = await db.select().from(programAccounts)
-      .where(and(eq(programAccounts.accountId, accountId), eq(programAccounts.tenantId, this.tenantId)));
+      .where(and(eq(programAccounts.accountId, accountId), eq(programAccounts.tenantId, this.tenantId)))
+      .orderBy(desc(programAccounts.enrolledAt), desc(programAccounts.id))
+      .limit(1);
     return pa;
   }
 
+  /** Every enrollment of the account, oldest first */
+  async getProgramAccountsByAccountId(accountId: number): Promise<ProgramAccount[]> {
+    return db.select().from(programAccounts)
+      .where(and(eq(programAccounts.accountId, accountId), eq(programAccounts.tenantId, this.tenantId)))
+      .orderBy(programAccounts.enrolledAt, programAccounts.id);
+  }
+
+  /** Records the enrolled / re_enrolled event with the new row */
   async createProgramAccount(data: InsertProgramAccount): Promise<ProgramAccount> {
-    const [created] = await db.insert(programAccounts)
-      .values({ ...data, tenantId: this.tenantId })
-      .returning();
-    return created;
+    return db.transaction(async (tx) => {
+      // An enrolled account can no longer serve as a control
+      await tx.delete(programHoldoutAccounts).where(and(
+        eq(programHoldoutAccounts.tenantId, this.tenantId),
+        eq(programHoldoutAccounts.accountId, data.accountId)
+      ));
+      const [created] = await tx.insert(programAccounts)
+        .values({ ...data, tenantId: this.tenantId })
+        .returning();
+      await tx.insert(programEnrollmentEvents).values({
+        tenantId: this.tenantId,
+        programAccountId: created.id,
+        accountId: created.accountId,
+        event: created.previousProgramAccountId ? "re_enrolled" : "enrolled",
+        toStatus: created.status ?? "active",
+        notes: created.notes,
+        actor: created.enrolledBy,
+        occurredAt: created.enrolledAt,
+      });
+      return created;
+    });
+  }
+
+  /** Enrollment history, oldest first, for one enrollment or every enrollment of an account */
+  async getProgramEnrollmentEvents(filter: { programAccountId?: number; accountId?: number } = {}): Promise<ProgramEnrollmentEventRow[]> {
+    return db.select().from(programEnrollmentEvents)
+      .where(and(
+        eq(programEnrollmentEvents.tenantId, this.tenantId),
+        filter.programAccountId === undefined ? undefined : eq(programEnrollmentEvents.programAccountId, filter.programAccountId),
+        filter.accountId === undefined ? undefined : eq(programEnrollmentEvents.accountId, filter.accountId)
+      ))
+      .orderBy(programEnrollmentEvents.occurredAt, programEnrollmentEvents.id);
   }
 
   async updateProgramAccount(id: number, data: Partial<InsertProgramAccount>): Promise<ProgramAccount | undefined> {
@@ -538,17 +789,123 @@ export class TenantStorage {
 
   async getProgramRevenueSnapshots(programAccountId: number): Promise<import("@shared/schema").ProgramRevenueSnapshot[]> {
     return db.select().from(programRevenueSnapshots)
-      .where(eq(programRevenueSnapshots.programAccountId, programAccountId))
+      .where(and(
+        eq(programRevenueSnapshots.programAccountId, programAccountId),
+        eq(programRevenueSnapshots.tenantId, this.tenantId)
+      ))
       .orderBy(desc(programRevenueSnapshots.periodEnd));
   }
 
-  async createProgramRevenueSnapshot(snapshot: import("@shared/schema").InsertProgramRevenueSnapshot): Promise<import("@shared/schema").ProgramRevenueSnapshot> {
-    const [created] = await db.insert(programRevenueSnapshots)
-      .values(snapshot)
+  /** Monthly close periods, newest first (snapshots are written by services/program-revenue.ts) */
+  async getProgramRevenuePeriods(): Promise<ProgramRevenuePeriod[]> {
+    return db.select().from(programRevenuePeriods)
+      .where(eq(programRevenuePeriods.tenantId, this.tenantId))
+      .orderBy(desc(programRevenuePeriods.periodStart));
+  }
+
+  async getProgramRevenuePeriod(periodStart: Date): Promise<ProgramRevenuePeriod | undefined> {
+    const [period] = await db.select().from(programRevenuePeriods)
+      .where(and(
+        eq(programRevenuePeriods.tenantId, this.tenantId),
+        eq(programRevenuePeriods.periodStart, periodStart)
+      ));
+    return period;
+  }
+
+  /** Locks or unlocks a period that has been closed at least once */
+  async setProgramRevenuePeriodLock(periodStart: Date, locked: boolean, userId: string | null): Promise<ProgramRevenuePeriod | undefined> {
+    const [updated] = await db.update(programRevenuePeriods)
+      .set({
+        status: locked ? "locked" : "open",
+        lockedAt: locked ? new Date() : null,
+        lockedBy: locked ? userId : null,
+      })
+      .where(and(
+        eq(programRevenuePeriods.tenantId, this.tenantId),
+        eq(programRevenuePeriods.periodStart, periodStart)
+      ))
+      .returning();
+    return updated;
+  }
+
+  /** Control accounts of one enrollment, or of every enrollment when omitted */
+  async getProgramHoldouts(programAccountId?: number): Promise<ProgramHoldoutAccount[]> {
+    return db.select().from(programHoldoutAccounts)
+      .where(and(
+        eq(programHoldoutAccounts.tenantId, this.tenantId),
+        programAccountId === undefined ? undefined : eq(programHoldoutAccounts.programAccountId, programAccountId)
+      ))
+      .orderBy(programHoldoutAccounts.assignedAt);
+  }
+
+  /** Adds a hand-picked control; an account can only be in one holdout group, so it moves from any other */
+  async addProgramHoldout(programAccountId: number, accountId: number, assignedBy: string | null): Promise<ProgramHoldoutAccount> {
+    const [created] = await db.insert(programHoldoutAccounts)
+      .values({ tenantId: this.tenantId, programAccountId, accountId, matchMethod: "manual", assignedBy })
+      .onConflictDoUpdate({
+        target: [programHoldoutAccounts.tenantId, programHoldoutAccounts.accountId],
+        set: { programAccountId, matchMethod: "manual", similarityScore: null, assignedBy, assignedAt: new Date() },
+      })
       .returning();
     return created;
   }
 
+  async removeProgramHoldout(programAccountId: number, accountId: number): Promise<boolean> {
+    const removed = await db.delete(programHoldoutAccounts)
+      .where(and(
+        eq(programHoldoutAccounts.tenantId, this.tenantId),
+        eq(programHoldoutAccounts.programAccountId, programAccountId),
+        eq(programHoldoutAccounts.accountId, accountId)
+      ))
+      .returning();
+    return removed.length > 0;
+  }
+
+  /** Success fee statements, newest month first (written by services/success-fee-statements.ts) */
+  async getSuccessFeeStatements(): Promise<SuccessFeeStatement[]> {
+    return db.select().from(successFeeStatements)
+      .where(eq(successFeeStatements.tenantId, this.tenantId))
+      .orderBy(desc(successFeeStatements.periodStart));
+  }
+
+  async getSuccessFeeStatement(id: number): Promise<SuccessFeeStatement | undefined> {
+    const [statement] = await db.select().from(successFeeStatements)
+      .where(and(eq(successFeeStatements.id, id), eq(successFeeStatements.tenantId, this.tenantId)));
+    return statement;
+  }
+
+  /** Adjustments of one statement, or of every statement when omitted, oldest first */
+  async getSuccessFeeStatementAdjustments(statementId?: number): Promise<SuccessFeeStatementAdjustment[]> {
+    return db.select().from(successFeeStatementAdjustments)
+      .where(and(
+        eq(successFeeStatementAdjustments.tenantId, this.tenantId),
+        statementId === undefined ? undefined : eq(successFeeStatementAdjustments.statementId, statementId)
+      ))
+      .orderBy(successFeeStatementAdjustments.createdAt, successFeeStatementAdjustments.id);
+  }
+
+  async createSuccessFeeStatementAdjustment(
+    statementId: number,
+    data: InsertSuccessFeeStatementAdjustment,
+    createdBy: string | null
+  ): Promise<SuccessFeeStatementAdjustment> {
+    const [created] = await db.insert(successFeeStatementAdjustments)
+      .values({ ...data, tenantId: this.tenantId, statementId, createdBy })
+      .returning();
+    return created;
+  }
+
+  async deleteSuccessFeeStatementAdjustment(statementId: number, adjustmentId: number): Promise<boolean> {
+    const removed = await db.delete(successFeeStatementAdjustments)
+      .where(and(
+        eq(successFeeStatementAdjustments.id, adjustmentId),
+        eq(successFeeStatementAdjustments.statementId, statementId),
+        eq(successFeeStatementAdjustments.tenantId, this.tenantId)
+      ))
+      .returning();
+    return removed.length > 0;
+  }
+
   async getAccountsBatch(accountIds: number[]): Promise<Map<number, Account>> {
     if (accountIds.length === 0) return new Map();
     
@@ -569,7 +926,10 @@ export class TenantStorage {
     if (programAccountIds.length === 0) return new Map();
     
     const allSnapshots = await db.select().from(programRevenueSnapshots)
-      .where(inArray(programRevenueSnapshots.programAccountId, programAccountIds))
+      .where(and(
+        inArray(programRevenueSnapshots.programAccountId, programAccountIds),
+        eq(programRevenueSnapshots.tenantId, this.tenantId)
+      ))
       .orderBy(desc(programRevenueSnapshots.periodEnd));
     
     const snapshotsMap = new Map<number, import("@shared/schema").ProgramRevenueSnapshot[]>();
@@ -588,6 +948,12 @@ export class TenantStorage {
       .orderBy(desc(dataUploads.uploadedAt));
   }
 
+  async getDataUpload(id: number): Promise<DataUpload | undefined> {
+    const [upload] = await db.select().from(dataUploads)
+      .where(and(eq(dataUploads.id, id), eq(dataUploads.tenantId, this.tenantId)));
+    return upload;
+  }
+
   async createDataUpload(data: InsertDataUpload): Promise<DataUpload> {
     const [created] = await db.insert(dataUploads)
       .values({ ...data, tenantId: this.tenantId })
@@ -595,6 +961,458 @@ export class TenantStorage {
     return created;
   }
 
+  async updateDataUpload(id: number, data: Partial<InsertDataUpload> & { completedAt?: Date }): Promise<DataUpload | undefined> {
+    const [updated] = await db.update(dataUploads)
+      .set(data)
+      .where(and(eq(dataUploads.id, id), eq(dataUploads.tenantId, this.tenantId)))
+      .returning();
+    return updated;
+  }
+
+  // ============ Bulk upserts (CSV ingestion) ============
+  // Each upsert matches existing rows on the source-system key in a single query,
+  // bulk-inserts the new rows and updates the matched ones in place.
+
+  /**
+   * Upserts accounts matched on externalId
+   * @param rows - Account rows; rows without an externalId are always inserted
+   * @returns Promise resolving to inserted/updated counts
+   */
+  async upsertAccounts(rows: InsertAccount[]): Promise<{ inserted: number; updated: number }> {
+    const externalIds = rows.map(r => r.externalId).filter((id): id is string => !!id);
+    const existing = externalIds.length > 0
+      ? await db.select({ id: accounts.id, externalId: accounts.externalId }).from(accounts)
+        .where(and(eq(accounts.tenantId, this.tenantId), inArray(accounts.externalId, externalIds)))
+      : [];
+    const existingMap = new Map(existing.map(a => [a.externalId, a.id]));
+
+    const toInsert = rows.filter(r => !r.externalId || !existingMap.has(r.externalId));
+    const toUpdate = rows.filter(r => r.externalId && existingMap.has(r.externalId));
+
+    if (toInsert.length > 0) {
+      await db.insert(accounts).values(toInsert.map(r => ({ ...r, tenantId: this.tenantId })));
+    }
+    for (const row of toUpdate) {
+      await db.update(accounts)
+        .set(row)
+        .where(and(eq(accounts.id, existingMap.get(row.externalId!)!), eq(accounts.tenantId, this.tenantId)));
+    }
+    return { inserted: toInsert.length, updated: toUpdate.length };
+  }
+
+  /**
+   * Updates the parent link of an account
+   * @param id - The account ID to update
+   * @param parentAccountId - The internal ID of the parent account, or null for a top-level account
+   */
+  async setAccountParent(id: number, parentAccountId: number | null): Promise<void> {
+    await db.update(accounts)
+      .set({ parentAccountId })
+      .where(and(eq(accounts.id, id), eq(accounts.tenantId, this.tenantId)));
+  }
+
+  /**
+   * Upserts product categories matched on externalId, then on an alias left by a
+   * merge, then by name among categories created in Settings (no externalId)
+   * @param rows - Category rows; parentId is expected to already be an internal category ID (or null)
+   * @returns Promise resolving to inserted/updated counts
+   */
+  async upsertProductCategories(rows: InsertProductCategory[]): Promise<{ inserted: number; updated: number }> {
+    const existing = await db.select({
+      id: productCategories.id,
+      externalId: productCategories.externalId,
+      externalIdAliases: productCategories.externalIdAliases,
+      name: productCategories.name,
+      isActive: productCategories.isActive,
+    }).from(productCategories).where(eq(productCategories.tenantId, this.tenantId));
+    const byExternalId = new Map(existing.filter(c => c.externalId).map(c => [c.externalId!, c.id]));
+    const byAlias = new Map(existing.flatMap(c => (c.externalIdAliases ?? []).map(alias => [alias, c.id] as const)));
+    const unkeyedByName = new Map<string, number>();
+    for (const c of existing) {
+      const name = c.name.trim().toLowerCase();
+      if (!c.externalId && c.isActive !== false && !unkeyedByName.has(name)) unkeyedByName.set(name, c.id);
+    }
+
+    const toInsert: InsertProductCategory[] = [];
+    let updated = 0;
+    for (const row of rows) {
+      if (row.externalId && byAlias.has(row.externalId) && !byExternalId.has(row.externalId)) {
+        // Merged into another category, which keeps its own name
+        updated++;
+        continue;
+      }
+      const name = row.name.trim().toLowerCase();
+      const id = (row.externalId ? byExternalId.get(row.externalId) : undefined) ?? unkeyedByName.get(name);
+      if (id === undefined) {
+        toInsert.push(row);
+        continue;
+      }
+      const adopted = !row.externalId || !byExternalId.has(row.externalId);
+      if (adopted) {
+        // A category created in Settings takes the row's source-system ID and keeps its place in the tree
+        unkeyedByName.delete(name);
+        if (row.externalId) byExternalId.set(row.externalId, id);
+      }
+      await db.update(productCategories)
+        .set(adopted ? { externalId: row.externalId } : row)
+        .where(and(eq(productCategories.id, id), eq(productCategories.tenantId, this.tenantId)));
+      updated++;
+    }
+
+    if (toInsert.length > 0) {
+      await db.insert(productCategories).values(toInsert.map(r => ({ ...r, tenantId: this.tenantId })));
+    }
+    return { inserted: toInsert.length, updated };
+  }
+
+
+  /**
+   * Updates the parent link of a product category
+   * @param id - The category ID to update
+   * @param parentId - The internal ID of the parent category, or null for a root category
+   */
+  async setProductCategoryParent(id: number, parentId: number | null): Promise<void> {
+    await db.update(productCategories)
+      .set({ parentId })
+      .where(and(eq(productCategories.id, id), eq(productCategories.tenantId, this.tenantId)));
+  }
+
+  /**
+   * Creates a category in the taxonomy (Settings tree editor)
+   * @param data - Name, optional parentId and display order
+   * @returns Promise resolving to the created ProductCategory
+   */
+  async createProductCategory(data: InsertProductCategory): Promise<ProductCategory> {
+    const [created] = await db.insert(productCategories)
+      .values({ ...data, tenantId: this.tenantId })
+      .returning();
+    return created;
+  }
+
+  /**
+   * Renames, reorders or (de)activates a category; moves go through setProductCategoryParent
+   * @returns Promise resolving to the updated ProductCategory, or undefined if not found
+   */
+  async updateProductCategory(
+    id: number,
+    data: Partial<Pick<InsertProductCategory, "name" | "displayOrder" | "isActive">>,
+  ): Promise<ProductCategory | undefined> {
+    const [updated] = await db.update(productCategories)
+      .set(data)
+      .where(and(eq(productCategories.id, id), eq(productCategories.tenantId, this.tenantId)))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Counts what references a category directly: catalog products, ICP profile
+   * categories and gap history. Only an unused category may be deleted.
+   */
+  async getProductCategoryUsage(id: number): Promise<{ products: number; profiles: number; gapSnapshots: number }> {
+    const [[productCount], [profileCount], [snapshotCount]] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` }).from(products)
+        .where(and(eq(products.tenantId, this.tenantId), eq(products.categoryId, id))),
+      db.select({ count: sql<number>`count(*)::int` }).from(profileCategories)
+        .where(and(eq(profileCategories.tenantId, this.tenantId), eq(profileCategories.categoryId, id))),
+      db.select({ count: sql<number>`count(*)::int` }).from(accountCategoryGapSnapshots)
+        .where(and(eq(accountCategoryGapSnapshots.tenantId, this.tenantId), eq(accountCategoryGapSnapshots.categoryId, id))),
+    ]);
+    return { products: productCount.count, profiles: profileCount.count, gapSnapshots: snapshotCount.count };
+  }
+
+  /**
+   * Deletes a category; its children move up to its parent. Callers check
+   * getProductCategoryUsage first.
+   * @returns Promise resolving to false when the category doesn't exist
+   */
+  async deleteProductCategory(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [category] = await tx.select().from(productCategories)
+        .where(and(eq(productCategories.id, id), eq(productCategories.tenantId, this.tenantId)));
+      if (!category) return false;
+      await tx.update(productCategories)
+        .set({ parentId: category.parentId })
+        .where(and(eq(productCategories.tenantId, this.tenantId), eq(productCategories.parentId, id)));
+      await tx.delete(productCategories).where(eq(productCategories.id, id));
+      return true;
+    });
+  }
+
+  /**
+   * Merges one category into another: products and ICP targets move to the
+   * target (a profile that had both sums them), the source's children move
+   * under the target and its source-system IDs become aliases of the target so
+   * later uploads resolve to it. Derived rows (current gaps, spend rollup,
+   * margin benchmarks, association rules) are dropped for the source and
+   * rebuilt by the next recompute. Gap history can't be recombined from stored
+   * percentages, so it stays with the source, which is deactivated rather than
+   * deleted.
+   */
+  async mergeProductCategories(sourceId: number, targetId: number): Promise<void> {
+    const tenantId = this.tenantId;
+    await db.transaction(async (tx) => {
+      const merging = await tx.select().from(productCategories)
+        .where(and(eq(productCategories.tenantId, tenantId), inArray(productCategories.id, [sourceId, targetId])))
+        .for("update");
+      const source = merging.find(c => c.id === sourceId);
+      const target = merging.find(c => c.id === targetId);
+      if (!source || !target) return;
+
+      await tx.update(products)
+        .set({ categoryId: targetId })
+        .where(and(eq(products.tenantId, tenantId), eq(products.categoryId, sourceId)));
+
+      await tx.execute(sql`
+        UPDATE profile_categories t
+        SET expected_pct = COALESCE(t.expected_pct, 0) + COALESCE(s.expected_pct, 0),
+            importance = GREATEST(COALESCE(t.importance, 1), COALESCE(s.importance, 1)),
+            is_required = COALESCE(t.is_required, false) OR COALESCE(s.is_required, false)
+        FROM profile_categories s
+        WHERE t.tenant_id = ${tenantId} AND s.tenant_id = ${tenantId}
+          AND t.category_id = ${targetId} AND s.category_id = ${sourceId}
+          AND t.profile_id = s.profile_id
+      `);
+      await tx.execute(sql`
+        DELETE FROM profile_categories s
+        USING profile_categories t
+        WHERE s.tenant_id = ${tenantId} AND t.tenant_id = ${tenantId}
+          AND s.category_id = ${sourceId} AND t.category_id = ${targetId}
+          AND s.profile_id = t.profile_id
+      `);
+      await tx.update(profileCategories)
+        .set({ categoryId: targetId })
+        .where(and(eq(profileCategories.tenantId, tenantId), eq(profileCategories.categoryId, sourceId)));
+
+      await tx.delete(accountCategoryGaps)
+        .where(and(eq(accountCategoryGaps.tenantId, tenantId), eq(accountCategoryGaps.categoryId, sourceId)));
+      await tx.delete(agentAccountCategorySpend)
+        .where(and(eq(agentAccountCategorySpend.tenantId, tenantId), eq(agentAccountCategorySpend.categoryId, sourceId)));
+      await tx.delete(segmentMarginBenchmarks)
+        .where(and(eq(segmentMarginBenchmarks.tenantId, tenantId), eq(segmentMarginBenchmarks.categoryId, sourceId)));
+      await tx.delete(categoryAssociationRules)
+        .where(and(
+          eq(categoryAssociationRules.tenantId, tenantId),
+          or(eq(categoryAssociationRules.antecedentCategoryId, sourceId), eq(categoryAssociationRules.consequentCategoryId, sourceId)),
+        ));
+
+      await tx.update(productCategories)
+        .set({ parentId: targetId })
+        .where(and(eq(productCategories.tenantId, tenantId), eq(productCategories.parentId, sourceId)));
+      const aliases = new Set([...(target.externalIdAliases ?? []), ...(source.externalIdAliases ?? [])]);
+      if (source.externalId) aliases.add(source.externalId);
+      if (aliases.size > 0) {
+        await tx.update(productCategories)
+          .set({ externalIdAliases: Array.from(aliases) })
+          .where(eq(productCategories.id, targetId));
+      }
+      await tx.update(productCategories)
+        .set({ externalId: null, externalIdAliases: null, isActive: false })
+        .where(and(eq(productCategories.id, sourceId), eq(productCategories.tenantId, tenantId)));
+    });
+  }
+
+  /**
+   * Upserts products matched on SKU
+   * @param rows - Product rows to insert or update
+   * @returns Promise resolving to inserted/updated counts
+   */
+  async upsertProducts(rows: InsertProduct[]): Promise<{ inserted: number; updated: number }> {
+    const skus = rows.map(r => r.sku);
+    const existing = skus.length > 0
+      ? await db.select({ id: products.id, sku: products.sku }).from(products)
+        .where(and(eq(products.tenantId, this.tenantId), inArray(products.sku, skus)))
+      : [];
+    const existingMap = new Map(existing.map(p => [p.sku, p.id]));
+
+    const toInsert = rows.filter(r => !existingMap.has(r.sku));
+    const toUpdate = rows.filter(r => existingMap.has(r.sku));
+
+    if (toInsert.length > 0) {
+      await db.insert(products).values(toInsert.map(r => ({ ...r, tenantId: this.tenantId })));
+    }
+    for (const row of toUpdate) {
+      await db.update(products)
+        .set(row)
+        .where(and(eq(products.id, existingMap.get(row.sku)!), eq(products.tenantId, this.tenantId)));
+    }
+    return { inserted: toInsert.length, updated: toUpdate.length };
+  }
+
+  /**
+   * Upserts orders matched on externalId
+   * @param rows - Order rows; accountId is expected to already be an internal account ID
+   * @returns Promise resolving to inserted/updated counts
+   */
+  async upsertOrders(rows: InsertOrder[]): Promise<{ inserted: number; updated: number }> {
+    const externalIds = rows.map(r => r.externalId).filter((id): id is string => !!id);
+    const existing = externalIds.length > 0
+      ? await db.select({ id: orders.id, externalId: orders.externalId }).from(orders)
+        .where(and(eq(orders.tenantId, this.tenantId), inArray(orders.externalId, externalIds)))
+      : [];
+    const existingMap = new Map(existing.map(o => [o.externalId, o.id]));
+
+    const toInsert = rows.filter(r => !r.externalId || !existingMap.has(r.externalId));
+    const toUpdate = rows.filter(r => r.externalId && existingMap.has(r.externalId));
+
+    if (toInsert.length > 0) {
+      await db.insert(orders).values(toInsert.map(r => ({ ...r, tenantId: this.tenantId })));
+    }
+    for (const row of toUpdate) {
+      await db.update(orders)
+        .set(row)
+        .where(and(eq(orders.id, existingMap.get(row.externalId!)!), eq(orders.tenantId, this.tenantId)));
+    }
+    return { inserted: toInsert.length, updated: toUpdate.length };
+  }
+
+  /**
+   * Builds lookup maps from source-system keys to internal IDs, used to resolve
+   * foreign keys in uploaded CSV rows
+   * @returns Promise resolving to maps keyed by account/category/order externalId and product SKU
+   */
+  async getExternalIdMaps(): Promise<{
+    accounts: Map<string, number>;
+    categories: Map<string, number>;
+    orders: Map<string, number>;
+    products: Map<string, number>;
+  }> {
+    const [accountRows, categoryRows, orderRows, productRows] = await Promise.all([
+      db.select({ id: accounts.id, key: accounts.externalId }).from(accounts).where(eq(accounts.tenantId, this.tenantId)),
+      db.select({ id: productCategories.id, key: productCategories.externalId, aliases: productCategories.externalIdAliases })
+        .from(productCategories).where(eq(productCategories.tenantId, this.tenantId)),
+      db.select({ id: orders.id, key: orders.externalId }).from(orders).where(eq(orders.tenantId, this.tenantId)),
+      db.select({ id: products.id, key: products.sku }).from(products).where(eq(products.tenantId, this.tenantId)),
+    ]);
+    const toMap = (rows: { id: number; key: string | null }[]) =>
+      new Map(rows.filter(r => r.key !== null).map(r => [r.key as string, r.id]));
+    // IDs of merged categories resolve to the category they were merged into
+    const categories = toMap(categoryRows);
+    for (const row of categoryRows) {
+      for (const alias of row.aliases ?? []) {
+        if (!categories.has(alias)) categories.set(alias, row.id);
+      }
+    }
+    return {
+      accounts: toMap(accountRows),
+      categories,
+      orders: toMap(orderRows),
+      products: toMap(productRows),
+    };
+  }
+
+  /**
+   * Deletes all line items for the given orders so a re-uploaded order replaces its lines
+   * @param orderIds - Internal order IDs whose items should be cleared
+   */
+  async deleteOrderItemsForOrders(orderIds: number[]): Promise<void> {
+    if (orderIds.length === 0) return;
+    await db.delete(orderItems)
+      .where(and(inArray(orderItems.orderId, orderIds), eq(orderItems.tenantId, this.tenantId)));
+  }
+
+  /**
+   * Bulk inserts order items for the current tenant
+   * @param rows - Order item rows to insert (tenantId is auto-added)
+   */
+  async createOrderItems(rows: InsertOrderItem[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db.insert(orderItems).values(rows.map(r => ({ ...r, tenantId: this.tenantId })));
+  }
+
+  // ============ Team (user roles & invites) ============
+
+  /**
+   * Retrieves all users with a role in the current tenant, joined with their profile
+   * @returns Promise resolving to array of TeamMember objects ordered by join date
+   */
+  async getTeamMembers(): Promise<TeamMember[]> {
+    return db.select({
+      userId: userRoles.userId,
+      role: userRoles.role,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      profileImageUrl: users.profileImageUrl,
+      joinedAt: userRoles.createdAt,
+    })
+      .from(userRoles)
+      .leftJoin(users, eq(users.id, userRoles.userId))
+      .where(eq(userRoles.tenantId, this.tenantId))
+      .orderBy(userRoles.createdAt);
+  }
+
+  /**
+   * Retrieves a single user's role in the current tenant
+   * @param userId - The user ID to look up
+   * @returns Promise resolving to UserRole if the user is a member, undefined otherwise
+   */
+  async getTeamMemberRole(userId: string): Promise<UserRole | undefined> {
+    const [role] = await db.select().from(userRoles)
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.tenantId, this.tenantId)));
+    return role;
+  }
+
+  /**
+   * Changes a member's role in the current tenant
+   * @param userId - The member's user ID
+   * @param role - The new role (super_admin, reviewer, viewer)
+   * @returns Promise resolving to the updated UserRole if found, undefined otherwise
+   */
+  async updateTeamMemberRole(userId: string, role: string): Promise<UserRole | undefined> {
+    const [updated] = await db.update(userRoles)
+      .set({ role, updatedAt: new Date() })
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.tenantId, this.tenantId)))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Removes a member from the current tenant
+   * @param userId - The member's user ID
+   * @returns Promise resolving to true if a membership was removed
+   */
+  async removeTeamMember(userId: string): Promise<boolean> {
+    const result = await db.delete(userRoles)
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.tenantId, this.tenantId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Retrieves unexpired pending invites for the current tenant
+   * @returns Promise resolving to array of TeamInvite objects, newest first
+   */
+  async getPendingTeamInvites(): Promise<TeamInvite[]> {
+    return db.select().from(teamInvites)
+      .where(and(
+        eq(teamInvites.tenantId, this.tenantId),
+        eq(teamInvites.status, "pending"),
+        gt(teamInvites.expiresAt, new Date())
+      ))
+      .orderBy(desc(teamInvites.createdAt));
+  }
+
+  async getTeamInvite(id: number): Promise<TeamInvite | undefined> {
+    const [invite] = await db.select().from(teamInvites)
+      .where(and(eq(teamInvites.id, id), eq(teamInvites.tenantId, this.tenantId)));
+    return invite;
+  }
+
+  async createTeamInvite(data: Omit<InsertTeamInvite, "tenantId">): Promise<TeamInvite> {
+    const [created] = await db.insert(teamInvites)
+      .values({ ...data, tenantId: this.tenantId })
+      .returning();
+    return created;
+  }
+
+  async revokeTeamInvite(id: number): Promise<TeamInvite | undefined> {
+    const [updated] = await db.update(teamInvites)
+      .set({ status: "revoked" })
+      .where(and(eq(teamInvites.id, id), eq(teamInvites.tenantId, this.tenantId)))
+      .returning();
+    return updated;
+  }
+
   async getSettings(): Promise<Setting[]> {
     return db.select().from(settings).where(eq(settings.tenantId, this.tenantId));
   }
@@ -641,55 +1459,97 @@ export class TenantStorage {
     return created;
   }
 
-  async getTerritoryManagers(): Promise<TerritoryManager[]> {
-    return db.select().from(territoryManagers)
-      .where(eq(territoryManagers.tenantId, this.tenantId));
+  async getScoringModels(): Promise<ScoringModel[]> {
+    return db.select().from(scoringModels)
+      .where(eq(scoringModels.tenantId, this.tenantId))
+      .orderBy(desc(scoringModels.version));
   }
 
-  async createTerritoryManager(data: InsertTerritoryManager): Promise<TerritoryManager> {
-    const [created] = await db.insert(territoryManagers)
-      .values({ ...data, tenantId: this.tenantId })
-      .returning();
-    return created;
+  async getScoringModel(id: number): Promise<ScoringModel | undefined> {
+    const [model] = await db.select().from(scoringModels)
+      .where(and(eq(scoringModels.id, id), eq(scoringModels.tenantId, this.tenantId)));
+    return model;
   }
 
-  async updateTerritoryManager(id: number, data: Partial<InsertTerritoryManager>): Promise<TerritoryManager | undefined> {
-    const [updated] = await db.update(territoryManagers)
+  async getActiveScoringModel(): Promise<ScoringModel | undefined> {
+    const [model] = await db.select().from(scoringModels)
+      .where(and(eq(scoringModels.tenantId, this.tenantId), eq(scoringModels.status, "active")));
+    return model;
+  }
+
+  /**
+   * Serializes version numbering and activation for the tenant's scoring models
+   * until the transaction ends; the unique indexes on (tenant_id, version) and
+   * on the active version back this up
+   */
+  private async lockScoringModels(tx: Pick<typeof db, "execute">): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('scoring_models'), ${this.tenantId})`);
+  }
+
+  /** Creates a draft as the tenant's next version number */
+  async createScoringModel(data: Omit<InsertScoringModel, "tenantId" | "version" | "status">): Promise<ScoringModel> {
+    return db.transaction(async (tx) => {
+      await this.lockScoringModels(tx);
+      const [{ maxVersion }] = await tx.select({ maxVersion: sql<number>`coalesce(max(${scoringModels.version}), 0)::int` })
+        .from(scoringModels)
+        .where(eq(scoringModels.tenantId, this.tenantId));
+      const [created] = await tx.insert(scoringModels)
+        .values({ ...data, tenantId: this.tenantId, version: maxVersion + 1, status: "draft" })
+        .returning();
+      return created;
+    });
+  }
+
+  /** Only drafts can be edited; activated versions are immutable */
+  async updateScoringModelDraft(id: number, data: Partial<Pick<InsertScoringModel, "name" | "description" | "factors">>): Promise<ScoringModel | undefined> {
+    const [updated] = await db.update(scoringModels)
       .set(data)
-      .where(and(eq(territoryManagers.id, id), eq(territoryManagers.tenantId, this.tenantId)))
+      .where(and(eq(scoringModels.id, id), eq(scoringModels.tenantId, this.tenantId), eq(scoringModels.status, "draft")))
       .returning();
     return updated;
   }
 
-  async deleteTerritoryManager(id: number): Promise<boolean> {
-    await db.delete(territoryManagers)
-      .where(and(eq(territoryManagers.id, id), eq(territoryManagers.tenantId, this.tenantId)));
-    return true;
+  /** Archives the active version and activates this one */
+  async activateScoringModel(id: number, activatedBy: string | null): Promise<ScoringModel | undefined> {
+    return db.transaction(async (tx) => {
+      await this.lockScoringModels(tx);
+      const [target] = await tx.select().from(scoringModels)
+        .where(and(eq(scoringModels.id, id), eq(scoringModels.tenantId, this.tenantId)));
+      if (!target) return undefined;
+      await tx.update(scoringModels)
+        .set({ status: "archived" })
+        .where(and(eq(scoringModels.tenantId, this.tenantId), eq(scoringModels.status, "active")));
+      const [activated] = await tx.update(scoringModels)
+        .set({ status: "active", activatedAt: new Date(), activatedBy })
+        .where(eq(scoringModels.id, id))
+        .returning();
+      return activated;
+    });
   }
 
-  async getCustomCategories(): Promise<CustomCategory[]> {
-    return db.select().from(customCategories)
-      .where(eq(customCategories.tenantId, this.tenantId));
+  async getTerritoryManagers(): Promise<TerritoryManager[]> {
+    return db.select().from(territoryManagers)
+      .where(eq(territoryManagers.tenantId, this.tenantId));
   }
 
-  async createCustomCategory(data: InsertCustomCategory): Promise<CustomCategory> {
-    const [created] = await db.insert(customCategories)
+  async createTerritoryManager(data: InsertTerritoryManager): Promise<TerritoryManager> {
+    const [created] = await db.insert(territoryManagers)
       .values({ ...data, tenantId: this.tenantId })
       .returning();
     return created;
   }
 
-  async updateCustomCategory(id: number, data: Partial<InsertCustomCategory>): Promise<CustomCategory | undefined> {
-    const [updated] = await db.update(customCategories)
+  async updateTerritoryManager(id: number, data: Partial<InsertTerritoryManager>): Promise<TerritoryManager | undefined> {
+    const [updated] = await db.update(territoryManagers)
       .set(data)
-      .where(and(eq(customCategories.id, id), eq(customCategories.tenantId, this.tenantId)))
+      .where(and(eq(territoryManagers.id, id), eq(territoryManagers.tenantId, this.tenantId)))
       .returning();
     return updated;
   }
 
-  async deleteCustomCategory(id: number): Promise<boolean> {
-    await db.delete(customCategories)
-      .where(and(eq(customCategories.id, id), eq(customCategories.tenantId, this.tenantId)));
+  async deleteTerritoryManager(id: number): Promise<boolean> {
+    await db.delete(territoryManagers)
+      .where(and(eq(territoryManagers.id, id), eq(territoryManagers.tenantId, this.tenantId)));
     return true;
   }
 
@@ -720,7 +1580,7 @@ export class TenantStorage {
   }
 
   async getContacts(accountId?: number): Promise<Contact[]> {
-    const conditions = [eq(contacts.tenantId, this.tenantId)];
+    const conditions = [eq(contacts.tenantId, this.tenantId), this.accountIdScope(contacts.accountId)];
     if (accountId !== undefined) {
       conditions.push(eq(contacts.accountId, accountId));
     }
@@ -731,7 +1591,7 @@ export class TenantStorage {
 
   async getContact(id: number): Promise<Contact | undefined> {
     const [contact] = await db.select().from(contacts)
-      .where(and(eq(contacts.id, id), eq(contacts.tenantId, this.tenantId)));
+      .where(and(eq(contacts.id, id), eq(contacts.tenantId, this.tenantId), this.accountIdScope(contacts.accountId)));
     return contact;
   }
 
@@ -745,12 +1605,13 @@ export class TenantStorage {
   async updateContact(id: number, data: Partial<InsertContact>): Promise<Contact | undefined> {
     const [updated] = await db.update(contacts)
       .set({ ...data, updatedAt: new Date() })
-      .where(and(eq(contacts.id, id), eq(contacts.tenantId, this.tenantId)))
+      .where(and(eq(contacts.id, id), eq(contacts.tenantId, this.tenantId), this.accountIdScope(contacts.accountId)))
       .returning();
     return updated;
   }
 
   async deleteContact(id: number): Promise<boolean> {
+    if (this.territoryManager && !(await this.getContact(id))) return false;
     await db.delete(emailInteractions)
       .where(and(eq(emailInteractions.contactId, id), eq(emailInteractions.tenantId, this.tenantId)));
     await db.delete(contacts)
@@ -759,7 +1620,7 @@ export class TenantStorage {
   }
 
   async getProjects(accountId?: number, stage?: string): Promise<Project[]> {
-    const conditions = [eq(projects.tenantId, this.tenantId)];
+    const conditions = [eq(projects.tenantId, this.tenantId), this.accountIdScope(projects.accountId)];
     if (accountId !== undefined) {
       conditions.push(eq(projects.accountId, accountId));
     }
@@ -773,7 +1634,7 @@ export class TenantStorage {
 
   async getProject(id: number): Promise<Project | undefined> {
     const [project] = await db.select().from(projects)
-      .where(and(eq(projects.id, id), eq(projects.tenantId, this.tenantId)));
+      .where(and(eq(projects.id, id), eq(projects.tenantId, this.tenantId), this.accountIdScope(projects.accountId)));
     return project;
   }
 
@@ -787,19 +1648,19 @@ export class TenantStorage {
   async updateProject(id: number, data: Partial<InsertProject>): Promise<Project | undefined> {
     const [updated] = await db.update(projects)
       .set({ ...data, updatedAt: new Date() })
-      .where(and(eq(projects.id, id), eq(projects.tenantId, this.tenantId)))
+      .where(and(eq(projects.id, id), eq(projects.tenantId, this.tenantId), this.accountIdScope(projects.accountId)))
       .returning();
     return updated;
   }
 
   async deleteProject(id: number): Promise<boolean> {
     await db.delete(projects)
-      .where(and(eq(projects.id, id), eq(projects.tenantId, this.tenantId)));
+      .where(and(eq(projects.id, id), eq(projects.tenantId, this.tenantId), this.accountIdScope(projects.accountId)));
     return true;
   }
 
   async getOrderSignals(accountId?: number, signalType?: string, status?: string): Promise<OrderSignal[]> {
-    const conditions = [eq(orderSignals.tenantId, this.tenantId)];
+    const conditions = [eq(orderSignals.tenantId, this.tenantId), this.accountIdScope(orderSignals.accountId)];
     if (accountId !== undefined) {
       conditions.push(eq(orderSignals.accountId, accountId));
     }
@@ -817,13 +1678,13 @@ export class TenantStorage {
   async updateOrderSignal(id: number, data: Partial<InsertOrderSignal>): Promise<OrderSignal | undefined> {
     const [updated] = await db.update(orderSignals)
       .set({ ...data, updatedAt: new Date() })
-      .where(and(eq(orderSignals.id, id), eq(orderSignals.tenantId, this.tenantId)))
+      .where(and(eq(orderSignals.id, id), eq(orderSignals.tenantId, this.tenantId), this.accountIdScope(orderSignals.accountId)))
       .returning();
     return updated;
   }
 
   async getCompetitorMentions(accountId?: number, threatLevel?: string): Promise<CompetitorMention[]> {
-    const conditions = [eq(competitorMentions.tenantId, this.tenantId)];
+    const conditions = [eq(competitorMentions.tenantId, this.tenantId), this.accountIdScope(competitorMentions.accountId)];
     if (accountId !== undefined) {
       conditions.push(eq(competitorMentions.accountId, accountId));
     }
@@ -838,7 +1699,7 @@ export class TenantStorage {
   async updateCompetitorMention(id: number, data: Partial<{ notes: string; respondedAt: Date | null }>): Promise<CompetitorMention | undefined> {
     const [updated] = await db.update(competitorMentions)
       .set(data)
-      .where(and(eq(competitorMentions.id, id), eq(competitorMentions.tenantId, this.tenantId)))
+      .where(and(eq(competitorMentions.id, id), eq(competitorMentions.tenantId, this.tenantId), this.accountIdScope(competitorMentions.accountId)))
       .returning();
     return updated;
   }
@@ -849,6 +1710,59 @@ export class TenantStorage {
       .orderBy(desc(emailInteractions.createdAt));
   }
 
+  async getAgentInteractions(accountId?: number, limit = 200, until?: Date): Promise<AgentInteraction[]> {
+    const conditions = [eq(agentInteractions.tenantId, this.tenantId), this.accountIdScope(agentInteractions.accountId)];
+    if (accountId !== undefined) {
+      conditions.push(eq(agentInteractions.accountId, accountId));
+    }
+    if (until) {
+      conditions.push(lte(agentInteractions.occurredAt, until));
+    }
+    return db.select().from(agentInteractions)
+      .where(and(...conditions))
+      .orderBy(desc(agentInteractions.occurredAt))
+      .limit(limit);
+  }
+
+  async getAgentInteraction(id: number): Promise<AgentInteraction | undefined> {
+    const [interaction] = await db.select().from(agentInteractions)
+      .where(and(eq(agentInteractions.id, id), eq(agentInteractions.tenantId, this.tenantId), this.accountIdScope(agentInteractions.accountId)));
+    return interaction;
+  }
+
+  async createAgentInteraction(data: InsertAgentInteraction): Promise<AgentInteraction> {
+    const [created] = await db.insert(agentInteractions)
+      .values({ ...data, occurredAt: data.occurredAt ?? new Date(), tenantId: this.tenantId })
+      .returning();
+    return created;
+  }
+
+  async updateAgentInteraction(id: number, data: Partial<InsertAgentInteraction>): Promise<AgentInteraction | undefined> {
+    const [updated] = await db.update(agentInteractions)
+      .set(data)
+      .where(and(eq(agentInteractions.id, id), eq(agentInteractions.tenantId, this.tenantId), this.accountIdScope(agentInteractions.accountId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteAgentInteraction(id: number): Promise<boolean> {
+    const deleted = await db.delete(agentInteractions)
+      .where(and(eq(agentInteractions.id, id), eq(agentInteractions.tenantId, this.tenantId), this.accountIdScope(agentInteractions.accountId)))
+      .returning({ id: agentInteractions.id });
+    return deleted.length > 0;
+  }
+
+  async getSyncedEmailsByAccount(accountId: number, limit = 200, until?: Date): Promise<SyncedEmail[]> {
+    return db.select().from(syncedEmails)
+      .where(and(
+        eq(syncedEmails.linkedAccountId, accountId),
+        eq(syncedEmails.tenantId, this.tenantId),
+        until ? lte(syncedEmails.receivedAt, until) : undefined,
+      ))
+      .orderBy(desc(syncedEmails.receivedAt))
+      .limit(limit);
+  }
+
   async getAccountFlags(accountId: number): Promise<AccountFlag[]> {
     return db.select().from(accountFlags)
       .where(and(eq(accountFlags.accountId, accountId), eq(accountFlags.tenantId, this.tenantId)))
@@ -872,40 +1786,71 @@ export class TenantStorage {
       .where(and(eq(accountFlags.id, id), eq(accountFlags.tenantId, this.tenantId)));
   }
 
-  async computeReferenceBaseline(accountIds: number[]): Promise<{ categoryId: number; avgPct: number; accountsCovered: number }[]> {
+  /**
+   * Average category share of wallet across reference accounts over the trailing 12 months
+   * @param accountIds - The reference accounts
+   * @param level - "account" treats every location separately; "parent" counts each
+   *   selected account's whole family (top-level parent plus branches) as one customer
+   * @returns Promise resolving to per-category average %, highest first
+   */
+  async computeReferenceBaseline(
+    accountIds: number[],
+    level: AccountRollupLevel = "account",
+  ): Promise<{ categoryId: number; avgPct: number; accountsCovered: number }[]> {
+    const ids = sql.join(accountIds.map(id => sql`${id}`), sql`, `);
+    const unitOf = (accountColumn: SQL) => level === "parent" ? sql`COALESCE(ar.root_id, ${accountColumn})` : accountColumn;
     const result = await db.execute(sql`
-      WITH account_totals AS (
-        SELECT
-          o.account_id,
-          SUM(oi.line_total::numeric) as total_spend
+      WITH RECURSIVE account_roots AS (
+        SELECT id AS account_id, id AS root_id
+        FROM accounts
+        WHERE tenant_id = ${this.tenantId} AND parent_account_id IS NULL
+        UNION ALL
+        SELECT a.id, r.root_id
+        FROM accounts a
+        JOIN account_roots r ON a.parent_account_id = r.account_id
+        WHERE a.tenant_id = ${this.tenantId}
+      ),
+      reference_units AS (
+        SELECT DISTINCT ${unitOf(sql`a.id`)} AS unit_id
+        FROM accounts a
+        LEFT JOIN account_roots ar ON ar.account_id = a.id
+        WHERE a.tenant_id = ${this.tenantId}
+          AND a.id IN (${ids})
+      ),
+      unit_orders AS (
+        SELECT o.id AS order_id, ${unitOf(sql`o.account_id`)} AS unit_id
         FROM orders o
-        JOIN order_items oi ON oi.order_id = o.id AND oi.tenant_id = ${this.tenantId}
+        LEFT JOIN account_roots ar ON ar.account_id = o.account_id
         WHERE o.tenant_id = ${this.tenantId}
-          AND o.account_id IN (${sql.join(accountIds.map(id => sql`${id}`), sql`, `)})
           AND o.order_date >= NOW() - INTERVAL '12 months'
-        GROUP BY o.account_id
       ),
-      account_category_spend AS (
+      unit_totals AS (
+        SELECT
+          uo.unit_id,
+          SUM(oi.line_total::numeric) as total_spend
+        FROM unit_orders uo
+        JOIN reference_units ru ON ru.unit_id = uo.unit_id
+        JOIN order_items oi ON oi.order_id = uo.order_id AND oi.tenant_id = ${this.tenantId}
+        GROUP BY uo.unit_id
+      ),
+      unit_category_spend AS (
         SELECT
-          o.account_id,
+          uo.unit_id,
           p.category_id,
           SUM(oi.line_total::numeric) as category_spend,
-          at2.total_spend
-        FROM orders o
-        JOIN order_items oi ON oi.order_id = o.id AND oi.tenant_id = ${this.tenantId}
+          ut.total_spend
+        FROM unit_orders uo
+        JOIN unit_totals ut ON ut.unit_id = uo.unit_id
+        JOIN order_items oi ON oi.order_id = uo.order_id AND oi.tenant_id = ${this.tenantId}
         JOIN products p ON p.id = oi.product_id AND p.tenant_id = ${this.tenantId}
-        JOIN account_totals at2 ON at2.account_id = o.account_id
-        WHERE o.tenant_id = ${this.tenantId}
-          AND o.account_id IN (${sql.join(accountIds.map(id => sql`${id}`), sql`, `)})
-          AND o.order_date >= NOW() - INTERVAL '12 months'
-          AND p.category_id IS NOT NULL
-        GROUP BY o.account_id, p.category_id, at2.total_spend
+        WHERE p.category_id IS NOT NULL
+        GROUP BY uo.unit_id, p.category_id, ut.total_spend
       )
       SELECT
         category_id as "categoryId",
         ROUND(AVG(category_spend / NULLIF(total_spend, 0) * 100)::numeric, 2) as "avgPct",
-        COUNT(DISTINCT account_id)::int as "accountsCovered"
-      FROM account_category_spend
+        COUNT(DISTINCT unit_id)::int as "accountsCovered"
+      FROM unit_category_spend
       GROUP BY category_id
       ORDER BY "avgPct" DESC
     `);
@@ -928,6 +1873,6 @@ export class TenantStorage {
   }
 }
 
-export function getTenantStorage(tenantId: number): TenantStorage {
-  return new TenantStorage(tenantId);
+export function getTenantStorage(tenantId: number, territoryManager?: TerritoryManager): TenantStorage {
+  return new TenantStorage(tenantId, territoryManager);
 }
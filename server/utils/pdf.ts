@@ -0,0 +1,69 @@
+/**
+ * Minimal PDF writer for text-only documents (statements, reports).
+ *
+ * Uses the standard Helvetica-Bold and Courier fonts, so nothing is embedded.
+ * Courier is monospaced, which lets callers right-align figures by padding
+ * strings. Text outside Latin-1 is replaced with "?".
+ */
+
+export const PDF_PAGE_WIDTH = 612;  // US Letter, in points
+export const PDF_PAGE_HEIGHT = 792;
+
+export interface PdfText {
+  x: number;
+  y: number;  // From the bottom of the page
+  size: number;
+  text: string;
+  bold?: boolean; // Helvetica-Bold instead of Courier
+}
+
+/** Width of `chars` Courier characters at `size` points */
+export function courierWidth(chars: number, size: number): number {
+  return chars * size * 0.6;
+}
+
+function escapePdfString(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+function contentStream(items: PdfText[]): string {
+  return items.map(item =>
+    `BT /${item.bold ? "F1" : "F2"} ${item.size} Tf ${item.x.toFixed(2)} ${item.y.toFixed(2)} Td (${escapePdfString(item.text)}) Tj ET`
+  ).join("\n");
+}
+
+/** Renders one PDF with a page per entry of `pages` */
+export function renderTextPdf(pages: PdfText[][], title?: string): Buffer {
+  const objects: string[] = [];
+  const pageCount = Math.max(pages.length, 1);
+  // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then a page + content pair per page
+  const pageIds = Array.from({ length: pageCount }, (_, i) => 6 + i * 2);
+
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageCount} >>`);
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>");
+  objects.push(`<< /Producer (AI VP Dashboard) ${title ? `/Title (${escapePdfString(title)}) ` : ""}>>`);
+  for (let i = 0; i < pageCount; i++) {
+    const stream = contentStream(pages[i] ?? []);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+  }
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
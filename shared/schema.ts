@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, serial, numeric, boolean, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, serial, numeric, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -74,7 +74,7 @@ export const userRoles = pgTable("user_roles", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull(), // References users.id from Replit Auth
   tenantId: integer("tenant_id").notNull(), // References tenants.id
-  role: text("role").notNull().default("viewer"), // super_admin, reviewer, viewer
+  role: text("role").notNull().default("viewer"), // super_admin, reviewer, territory_manager, viewer
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -95,23 +95,62 @@ export type UserRole = typeof userRoles.$inferSelect;
 export const ROLE_PERMISSIONS = {
   super_admin: ['read', 'write', 'delete', 'manage_users', 'manage_settings'],
   reviewer: ['read', 'approve'],
+  // Sees only their own book of business (see territoryManagers.userId)
+  territory_manager: ['read', 'write'],
   viewer: ['read'],
 } as const;
 
 export type RoleType = keyof typeof ROLE_PERMISSIONS;
 
+// ============ TEAM INVITES (Pending tenant invitations) ============
+// A tokenized invite reserves a seat; it is accepted when the invitee first signs in
+export const INVITE_STATUSES = ['pending', 'accepted', 'revoked'] as const;
+export type InviteStatus = typeof INVITE_STATUSES[number];
+
+export const teamInvites = pgTable("team_invites", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(), // References tenants.id
+  email: text("email").notNull(), // Stored lower-cased
+  role: text("role").notNull().default("viewer"), // super_admin, reviewer, territory_manager, viewer
+  token: text("token").notNull().unique(),
+  status: text("status").notNull().default("pending"), // pending, accepted, revoked
+  invitedBy: varchar("invited_by"), // users.id of the inviter
+  acceptedBy: varchar("accepted_by"), // users.id of the invitee once accepted
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_team_invites_tenant_id").on(table.tenantId),
+  index("idx_team_invites_email").on(table.email),
+]);
+
+export const insertTeamInviteSchema = createInsertSchema(teamInvites).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertTeamInvite = z.infer<typeof insertTeamInviteSchema>;
+export type TeamInvite = typeof teamInvites.$inferSelect;
+
 // ============ PRODUCT CATEGORIES ============
 export const productCategories = pgTable("product_categories", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id"), // Multi-tenant isolation
+  externalId: text("external_id"), // Category ID from the source system (categories CSV "id"); null = created in Settings
+  externalIdAliases: text("external_id_aliases").array(), // Source-system IDs of categories merged into this one; uploads resolve them here
   name: text("name").notNull(),
-  parentId: integer("parent_id"),
+  parentId: integer("parent_id"), // product_categories.id; null = top of the taxonomy
+  displayOrder: integer("display_order").default(0),
+  isActive: boolean("is_active").default(true), // inactive categories keep their history but leave pickers and AI prompts
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
 }, (table) => [
   index("idx_product_categories_tenant_id").on(table.tenantId),
+  index("idx_product_categories_parent_id").on(table.parentId),
 ]);
 
 export const insertProductCategorySchema = createInsertSchema(productCategories).omit({
   id: true,
+  createdAt: true,
 });
 
 export type InsertProductCategory = z.infer<typeof insertProductCategorySchema>;
@@ -146,6 +185,7 @@ export const accounts = pgTable("accounts", {
   tenantId: integer("tenant_id"), // Multi-tenant isolation
   externalId: text("external_id"),
   name: text("name").notNull(),
+  parentAccountId: integer("parent_account_id"), // accounts.id of the parent company; null = top-level
   segment: text("segment"), // HVAC, plumbing, mechanical, etc.
   subSegment: text("sub_segment"), // residential_service, commercial_mechanical, builder, other
   region: text("region"),
@@ -157,8 +197,8 @@ export const accounts = pgTable("accounts", {
   enrollmentStatus: text("enrollment_status"),   // enrolled, graduated, at_risk, candidate
   enrolledAt: timestamp("enrolled_at"),
   graduatedAt: timestamp("graduated_at"),
-  walletShareDirection: text("wallet_share_direction"), // growing, flat, declining
-  seasonalityProfile: jsonb("seasonality_profile"),     // monthly multipliers
+  walletShareDirection: text("wallet_share_direction"), // WALLET_SHARE_DIRECTIONS, seasonally adjusted
+  seasonalityProfile: jsonb("seasonality_profile").$type<SeasonalityProfile>(), // monthly multipliers
   embedding: text("embedding"),                         // vector for similarity search (stored as text)
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
 }, (table) => [
@@ -166,20 +206,43 @@ export const accounts = pgTable("accounts", {
   index("idx_accounts_segment").on(table.segment),
   index("idx_accounts_sub_segment").on(table.subSegment),
   index("idx_accounts_assigned_tm").on(table.assignedTm),
+  index("idx_accounts_parent_account_id").on(table.parentAccountId),
 ]);
 
 export const insertAccountSchema = createInsertSchema(accounts).omit({
   id: true,
   createdAt: true,
+  seasonalityProfile: true,   // Written only by the seasonality job
 });
 
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
 export type Account = typeof accounts.$inferSelect;
 
+// Branches and legal entities roll up to their top-level parent for metrics, ICP
+// matching and program enrollment; "account" keeps each location on its own
+export const ACCOUNT_ROLLUP_LEVELS = ["account", "parent"] as const;
+export type AccountRollupLevel = typeof ACCOUNT_ROLLUP_LEVELS[number];
+
+export const WALLET_SHARE_DIRECTIONS = ["growing", "flat", "declining"] as const;
+export type WalletShareDirection = typeof WALLET_SHARE_DIRECTIONS[number];
+
+export const SEASONALITY_SOURCES = ["account", "segment", "tenant", "flat"] as const;
+export type SeasonalitySource = typeof SEASONALITY_SOURCES[number];
+
+// Written by services/seasonality.ts
+export interface SeasonalityProfile {
+  multipliers: number[];      // 12 entries, Jan..Dec; 1.0 = an average month
+  source: SeasonalitySource;  // Where the multipliers came from (segment/tenant when the account's history is too thin)
+  monthsOfHistory: number;    // Complete months of the account's own orders used (max 36)
+  adjustedTrendPct: number | null; // Seasonally adjusted change, last 6 months vs the 6 before
+  computedAt: string;
+}
+
 // ============ ORDERS ============
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id"), // Multi-tenant isolation
+  externalId: text("external_id"), // Order ID from the source system (orders CSV "id")
   accountId: integer("account_id").notNull(),
   orderDate: timestamp("order_date").notNull(),
   totalAmount: numeric("total_amount").notNull(),
@@ -309,6 +372,7 @@ export const accountMetrics = pgTable("account_metrics", {
   // Agent-layer derived metrics
   walletSharePercentage: numeric("wallet_share_percentage"), // % of contractor's total spend captured
   daysSinceLastOrder: integer("days_since_last_order"),
+  scoringModelId: integer("scoring_model_id"), // scoring_models.id that produced opportunityScore; null = legacy scoring_weights / defaults
 }, (table) => [
   index("idx_account_metrics_tenant_id").on(table.tenantId),
   index("idx_account_metrics_account_id").on(table.accountId),
@@ -332,6 +396,8 @@ export const accountCategoryGaps = pgTable("account_category_gaps", {
   actualPct: numeric("actual_pct"),
   gapPct: numeric("gap_pct"),
   estimatedOpportunity: numeric("estimated_opportunity"),
+  marginRate: numeric("margin_rate"), // Gross margin rate (0-1) from segment_margin_benchmarks; null = no cost data
+  estimatedMarginOpportunity: numeric("estimated_margin_opportunity"), // estimatedOpportunity × marginRate
   computedAt: timestamp("computed_at").default(sql`CURRENT_TIMESTAMP`),
 }, (table) => [
   index("idx_account_category_gaps_tenant_id").on(table.tenantId),
@@ -346,6 +412,189 @@ export const insertAccountCategoryGapSchema = createInsertSchema(accountCategory
 export type InsertAccountCategoryGap = z.infer<typeof insertAccountCategoryGapSchema>;
 export type AccountCategoryGap = typeof accountCategoryGaps.$inferSelect;
 
+// ============ ACCOUNT METRICS SNAPSHOTS ============
+// Monthly time-series of account_metrics. The metrics engine replaces the current
+// month's rows on every recompute and can backfill earlier months from order history.
+export const accountMetricsSnapshots = pgTable("account_metrics_snapshots", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id"), // Multi-tenant isolation
+  accountId: integer("account_id").notNull(),
+  snapshotMonth: timestamp("snapshot_month").notNull(), // First day of the month (UTC) the snapshot represents
+  last12mRevenue: numeric("last_12m_revenue"),
+  last3mRevenue: numeric("last_3m_revenue"),
+  yoyGrowthRate: numeric("yoy_growth_rate"),
+  categoryCount: integer("category_count"),
+  categoryPenetration: numeric("category_penetration"),
+  categoryGapScore: numeric("category_gap_score"),
+  opportunityScore: numeric("opportunity_score"),
+  matchedProfileId: integer("matched_profile_id"),
+  recencyScore: numeric("recency_score"),
+  frequencyScore: numeric("frequency_score"),
+  monetaryScore: numeric("monetary_score"),
+  mixScore: numeric("mix_score"),
+  orderCount12m: integer("order_count_12m"),
+  daysSinceLastOrder: integer("days_since_last_order"),
+  gapOpportunity: numeric("gap_opportunity"), // Sum of estimatedOpportunity across the month's gaps
+  gapMarginOpportunity: numeric("gap_margin_opportunity"), // Sum of estimatedMarginOpportunity across the month's gaps
+  scoringModelId: integer("scoring_model_id"), // scoring_models.id that produced opportunityScore
+  computedAt: timestamp("computed_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("idx_account_metrics_snapshots_tenant_id").on(table.tenantId),
+  index("idx_account_metrics_snapshots_account_month").on(table.accountId, table.snapshotMonth),
+]);
+
+export const insertAccountMetricsSnapshotSchema = createInsertSchema(accountMetricsSnapshots).omit({
+  id: true,
+  computedAt: true,
+});
+
+export type InsertAccountMetricsSnapshot = z.infer<typeof insertAccountMetricsSnapshotSchema>;
+export type AccountMetricsSnapshot = typeof accountMetricsSnapshots.$inferSelect;
+
+// ============ ACCOUNT CATEGORY GAP SNAPSHOTS ============
+export const accountCategoryGapSnapshots = pgTable("account_category_gap_snapshots", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id"), // Multi-tenant isolation
+  accountId: integer("account_id").notNull(),
+  categoryId: integer("category_id").notNull(),
+  snapshotMonth: timestamp("snapshot_month").notNull(), // First day of the month (UTC) the snapshot represents
+  expectedPct: numeric("expected_pct"),
+  actualPct: numeric("actual_pct"),
+  gapPct: numeric("gap_pct"),
+  estimatedOpportunity: numeric("estimated_opportunity"),
+  marginRate: numeric("margin_rate"),
+  estimatedMarginOpportunity: numeric("estimated_margin_opportunity"),
+  computedAt: timestamp("computed_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("idx_account_category_gap_snapshots_tenant_id").on(table.tenantId),
+  index("idx_account_category_gap_snapshots_account_month").on(table.accountId, table.snapshotMonth),
+]);
+
+export const insertAccountCategoryGapSnapshotSchema = createInsertSchema(accountCategoryGapSnapshots).omit({
+  id: true,
+  computedAt: true,
+});
+
+export type InsertAccountCategoryGapSnapshot = z.infer<typeof insertAccountCategoryGapSnapshotSchema>;
+export type AccountCategoryGapSnapshot = typeof accountCategoryGapSnapshots.$inferSelect;
+
+// ============ SEGMENT MARGIN BENCHMARKS ============
+// Gross margin rates per segment × category over the trailing 12 months, rebuilt
+// by the metrics engine on every recompute and used to turn revenue gaps into
+// margin dollars. segment null = tenant-wide; categoryId null = all categories.
+export const MARGIN_RATE_SOURCES = [
+  "item_cost",    // order_items line totals vs quantity × products.unitCost
+  "list_price",   // products.unitPrice vs unitCost across the category's catalog
+  "order_margin", // orders.marginAmount / totalAmount
+] as const;
+export type MarginRateSource = typeof MARGIN_RATE_SOURCES[number];
+
+export const segmentMarginBenchmarks = pgTable("segment_margin_benchmarks", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  segment: text("segment"),
+  categoryId: integer("category_id"),
+  marginRate: numeric("margin_rate").notNull(), // 0-1
+  revenueBasis: numeric("revenue_basis").notNull(), // Revenue with known cost the rate was measured on
+  accountCount: integer("account_count").notNull(),
+  source: text("source").notNull(), // MARGIN_RATE_SOURCES
+  computedAt: timestamp("computed_at").default(sql`CURRENT_TIMESTAMP`),
+}, (t) => [
+  index("idx_segment_margin_benchmarks_tenant").on(t.tenantId),
+]);
+
+export type SegmentMarginBenchmark = typeof segmentMarginBenchmarks.$inferSelect;
+
+// ============ CATEGORY ASSOCIATION RULES ============
+// Tenant-wide co-purchase rules "buyers of A also buy B within windowDays",
+// rebuilt by services/category-associations.ts after order uploads and weekly.
+export const categoryAssociationRules = pgTable("category_association_rules", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  antecedentCategoryId: integer("antecedent_category_id").notNull(), // product_categories.id (A)
+  consequentCategoryId: integer("consequent_category_id").notNull(), // product_categories.id (B)
+  windowDays: integer("window_days").notNull(),
+  antecedentAccounts: integer("antecedent_accounts").notNull(), // Accounts that bought A
+  consequentAccounts: integer("consequent_accounts").notNull(), // Accounts that bought B
+  pairAccounts: integer("pair_accounts").notNull(),             // Accounts that bought B within the window after A
+  totalAccounts: integer("total_accounts").notNull(),           // Accounts with any categorised purchase
+  support: numeric("support").notNull(),                        // pairAccounts / totalAccounts
+  confidence: numeric("confidence").notNull(),                  // pairAccounts / antecedentAccounts
+  lift: numeric("lift").notNull(),                              // confidence / (consequentAccounts / totalAccounts)
+  computedAt: timestamp("computed_at").defaultNow(),
+}, (t) => [
+  index("idx_category_assoc_rules_tenant").on(t.tenantId, t.antecedentCategoryId),
+]);
+
+export type CategoryAssociationRule = typeof categoryAssociationRules.$inferSelect;
+
+// ============ CHURN MODELS ============
+// Per-tenant logistic regression over monthly account snapshots, retrained nightly
+// by services/churn-model.ts. Each training run inserts a new row; the latest one scores.
+export const CHURN_RISK_LEVELS = ["low", "medium", "high", "critical"] as const;
+export type ChurnRiskLevel = typeof CHURN_RISK_LEVELS[number];
+
+export const CHURN_FEATURES = [
+  "recencyScore",
+  "frequencyScore",
+  "monetaryScore",
+  "mixScore",
+  "daysSinceLastOrder",
+  "categoryMixDrift",
+  "competitorMentions90d",
+  "negativeSentiment90d",
+] as const;
+export type ChurnFeature = typeof CHURN_FEATURES[number];
+
+export interface ChurnModelCoefficient {
+  feature: ChurnFeature;
+  mean: number;   // Standardisation applied before the weight
+  std: number;
+  weight: number; // Log-odds per standard deviation
+}
+
+export interface ChurnDriver {
+  feature: ChurnFeature;
+  label: string;        // e.g. "No order in 74 days"
+  value: number;
+  contribution: number; // Log-odds added to the account's risk
+}
+
+export const churnModels = pgTable("churn_models", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  source: text("source").notNull(), // "trained", or "default" when history was too thin to train on
+  intercept: numeric("intercept").notNull(),
+  coefficients: jsonb("coefficients").$type<ChurnModelCoefficient[]>().notNull(),
+  horizonMonths: integer("horizon_months").notNull(), // Churn = revenue collapse within this many months
+  trainingExamples: integer("training_examples").notNull().default(0),
+  positiveExamples: integer("positive_examples").notNull().default(0),
+  trainingAuc: numeric("training_auc"),
+  trainedAt: timestamp("trained_at").defaultNow(),
+}, (t) => [
+  index("idx_churn_models_tenant").on(t.tenantId, t.trainedAt),
+]);
+
+export type ChurnModel = typeof churnModels.$inferSelect;
+
+// ============ ACCOUNT CHURN SCORES ============
+// Latest churn probability per account with the factors that drove it
+export const accountChurnScores = pgTable("account_churn_scores", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  modelId: integer("model_id").notNull(), // churn_models.id
+  probability: numeric("probability").notNull(),
+  riskLevel: text("risk_level").notNull(), // CHURN_RISK_LEVELS
+  drivers: jsonb("drivers").$type<ChurnDriver[]>().notNull(),
+  features: jsonb("features").$type<Record<ChurnFeature, number>>().notNull(),
+  scoredAt: timestamp("scored_at").defaultNow(),
+}, (t) => [
+  index("idx_account_churn_scores_account").on(t.tenantId, t.accountId),
+]);
+
+export type AccountChurnScore = typeof accountChurnScores.$inferSelect;
+
 // ============ TASKS ============
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
@@ -420,6 +669,15 @@ export type InsertPlaybookTask = z.infer<typeof insertPlaybookTaskSchema>;
 export type PlaybookTask = typeof playbookTasks.$inferSelect;
 
 // ============ PROGRAM ACCOUNTS (Enrollment) ============
+// Lifecycle of an enrollment (see services/program-enrollment.ts). Graduated and withdrawn are
+// final for that row; re-enrolling an alumni account starts a new row with a fresh baseline.
+export const PROGRAM_ENROLLMENT_STATUSES = ["active", "paused", "graduated", "withdrawn"] as const;
+export type ProgramEnrollmentStatus = typeof PROGRAM_ENROLLMENT_STATUSES[number];
+
+// How an enrollment's baseline was set (see services/program-baseline.ts)
+export const PROGRAM_BASELINE_METHODS = ["trailing_12", "same_period_prior_year", "seasonally_adjusted", "negotiated"] as const;
+export type ProgramBaselineMethod = typeof PROGRAM_BASELINE_METHODS[number];
+
 export const programAccounts = pgTable("program_accounts", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id"), // Multi-tenant isolation
@@ -429,9 +687,13 @@ export const programAccounts = pgTable("program_accounts", {
   baselineStart: timestamp("baseline_start").notNull(),
   baselineEnd: timestamp("baseline_end").notNull(),
   baselineRevenue: numeric("baseline_revenue").notNull(),
+  baselineMethod: text("baseline_method").notNull().default("trailing_12"), // PROGRAM_BASELINE_METHODS
+  baselineMonthly: jsonb("baseline_monthly").$type<number[]>(), // Expected revenue per calendar month (Jan..Dec); null = baselineRevenue spread evenly over days
   baselineCategories: jsonb("baseline_categories"),
   shareRate: numeric("share_rate").notNull(),
-  status: text("status").default("active"), // active, paused, graduated
+  status: text("status").default("active"), // PROGRAM_ENROLLMENT_STATUSES
+  previousProgramAccountId: integer("previous_program_account_id"), // program_accounts.id of the enrollment this one re-enrolls
+  withdrawnAt: timestamp("withdrawn_at"),
   notes: text("notes"),
   // Graduation objectives
   targetPenetration: numeric("target_penetration"), // Target category penetration % (e.g., 80 for 80%)
@@ -452,27 +714,111 @@ export const programAccounts = pgTable("program_accounts", {
   index("idx_program_accounts_account_id").on(table.accountId),
 ]);
 
-export const insertProgramAccountSchema = createInsertSchema(programAccounts).omit({
+export const insertProgramAccountSchema = createInsertSchema(programAccounts, {
+  baselineMethod: z.enum(PROGRAM_BASELINE_METHODS).optional(),
+  baselineMonthly: z.array(z.number()).length(12).nullish(),
+}).omit({
   id: true,
   enrolledAt: true,
 });
 
+// Body of POST /api/accounts/:id/enroll and POST /api/program-accounts; the baseline itself is computed server-side
+export const programBaselineRequestSchema = z.object({
+  baselineMethod: z.enum(PROGRAM_BASELINE_METHODS).default("trailing_12"),
+  negotiatedBaselineRevenue: z.number().positive().optional(), // Annual; required for "negotiated"
+}).refine(
+  b => b.baselineMethod !== "negotiated" || b.negotiatedBaselineRevenue !== undefined,
+  { message: "A negotiated baseline needs negotiatedBaselineRevenue", path: ["negotiatedBaselineRevenue"] },
+);
+export type ProgramBaselineRequest = z.infer<typeof programBaselineRequestSchema>;
+
 export type InsertProgramAccount = z.infer<typeof insertProgramAccountSchema>;
 export type ProgramAccount = typeof programAccounts.$inferSelect;
 
+// ============ PROGRAM ENROLLMENT EVENTS ============
+// Audit history of enrollment state changes. Pause / resume events are also what the
+// monthly close reads to leave paused days out of snapshots.
+export const PROGRAM_ENROLLMENT_EVENTS = ["enrolled", "re_enrolled", "paused", "resumed", "graduated", "withdrawn"] as const;
+export type ProgramEnrollmentEvent = typeof PROGRAM_ENROLLMENT_EVENTS[number];
+
+export const PROGRAM_ENROLLMENT_REASON_CODES = [
+  "customer_request",
+  "credit_hold",
+  "seasonal_shutdown",
+  "ownership_change",
+  "data_issue",
+  "objectives_met",
+  "contract_ended",
+  "other",
+] as const;
+export type ProgramEnrollmentReasonCode = typeof PROGRAM_ENROLLMENT_REASON_CODES[number];
+
+export const programEnrollmentEvents = pgTable("program_enrollment_events", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  programAccountId: integer("program_account_id").notNull(), // program_accounts.id
+  accountId: integer("account_id").notNull(),                // accounts.id, so an account's history spans re-enrollments
+  event: text("event").notNull(),                            // PROGRAM_ENROLLMENT_EVENTS
+  fromStatus: text("from_status"),                           // null for enrolled / re_enrolled
+  toStatus: text("to_status").notNull(),
+  reasonCode: text("reason_code"),                           // PROGRAM_ENROLLMENT_REASON_CODES
+  notes: text("notes"),
+  actor: text("actor"),                                      // User email / ID
+  occurredAt: timestamp("occurred_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("idx_program_enrollment_events_program_account").on(table.programAccountId),
+  index("idx_program_enrollment_events_tenant_account").on(table.tenantId, table.accountId),
+]);
+
+export type ProgramEnrollmentEventRow = typeof programEnrollmentEvents.$inferSelect;
+
+// Body of POST /api/program-accounts/:id/{pause,resume,withdraw,graduate}
+export const programEnrollmentTransitionSchema = z.object({
+  reasonCode: z.enum(PROGRAM_ENROLLMENT_REASON_CODES).optional(),
+  notes: z.string().trim().max(2000).optional(),
+}).refine(
+  t => t.reasonCode !== "other" || !!t.notes,
+  { message: "Describe the reason in notes when the reason code is \"other\"", path: ["notes"] },
+);
+export type ProgramEnrollmentTransition = z.infer<typeof programEnrollmentTransitionSchema>;
+
 // ============ PROGRAM REVENUE SNAPSHOTS ============
+// One row per enrolled account per closed month, written by services/program-revenue.ts.
+// periodStart/periodEnd cover only the enrolled part of the month.
+export interface ProgramPeriodCategory {
+  categoryId: number;
+  revenue: number;
+  pct: number; // Share of the period's categorised line revenue
+}
+
+export interface ProgramFeeTierLine {
+  minRevenue: number;
+  maxRevenue: number | null;
+  ratePct: number;
+  revenueInTier: number;
+  fee: number;
+}
+
 export const programRevenueSnapshots = pgTable("program_revenue_snapshots", {
   id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id"), // Multi-tenant isolation
   programAccountId: integer("program_account_id").notNull(),
   periodStart: timestamp("period_start").notNull(),
   periodEnd: timestamp("period_end").notNull(),
   periodRevenue: numeric("period_revenue").notNull(),
-  periodCategories: jsonb("period_categories"),
-  baselineComparison: numeric("baseline_comparison"),
-  incrementalRevenue: numeric("incremental_revenue"),
-  feeAmount: numeric("fee_amount"),
+  periodCategories: jsonb("period_categories").$type<ProgramPeriodCategory[]>(),
+  baselineComparison: numeric("baseline_comparison"), // Baseline revenue pro-rated to the period's days
+  incrementalRevenue: numeric("incremental_revenue"), // periodRevenue - baselineComparison (negative below baseline)
+  feeAmount: numeric("fee_amount"),                   // Change in program-to-date fee; negative is a credit
+  feeBreakdown: jsonb("fee_breakdown").$type<ProgramFeeTierLine[]>(), // Tiers applied to program-to-date incremental revenue
+  organicRevenue: numeric("organic_revenue"),         // Growth the holdout group saw over the same days; null = no holdout group
+  controlGrowthPct: numeric("control_growth_pct"),    // Holdout group revenue vs the same days a year earlier
+  pausedDays: integer("paused_days").notNull().default(0), // Days of the period the enrollment was paused; left out of revenue and baseline
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => [
+  index("idx_program_revenue_snapshots_tenant_id").on(table.tenantId),
+  index("idx_program_revenue_snapshots_account_period").on(table.programAccountId, table.periodStart),
+]);
 
 export const insertProgramRevenueSnapshotSchema = createInsertSchema(programRevenueSnapshots).omit({
   id: true,
@@ -482,22 +828,153 @@ export const insertProgramRevenueSnapshotSchema = createInsertSchema(programReve
 export type InsertProgramRevenueSnapshot = z.infer<typeof insertProgramRevenueSnapshotSchema>;
 export type ProgramRevenueSnapshot = typeof programRevenueSnapshots.$inferSelect;
 
+// ============ PROGRAM REVENUE PERIODS ============
+// Monthly close status per tenant. A locked period's snapshots are final: the
+// close job skips it and re-runs are refused until an admin unlocks it.
+export const PROGRAM_REVENUE_PERIOD_STATUSES = ["open", "locked"] as const;
+export type ProgramRevenuePeriodStatus = typeof PROGRAM_REVENUE_PERIOD_STATUSES[number];
+
+export const programRevenuePeriods = pgTable("program_revenue_periods", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  periodStart: timestamp("period_start").notNull(), // First day of the month (UTC)
+  status: text("status").notNull().default("open"), // open, locked
+  accountCount: integer("account_count").notNull().default(0),
+  totalRevenue: numeric("total_revenue").notNull().default("0"),
+  totalBaseline: numeric("total_baseline").notNull().default("0"),
+  totalIncremental: numeric("total_incremental").notNull().default("0"),
+  totalFee: numeric("total_fee").notNull().default("0"),
+  lastRunAt: timestamp("last_run_at"),
+  lastRunBy: text("last_run_by"), // User email / ID, or null for the scheduled close
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+}, (table) => [
+  uniqueIndex("idx_program_revenue_periods_tenant_period").on(table.tenantId, table.periodStart), // One close per month
+]);
+
+export type ProgramRevenuePeriod = typeof programRevenuePeriods.$inferSelect;
+
+// ============ PROGRAM HOLDOUT ACCOUNTS ============
+// Look-alike accounts kept out of the program as a control group for one enrollment.
+// Their year-over-year growth is the organic growth that enrolled revenue is measured against
+// (difference-in-differences, see services/program-holdout.ts). An account is in at most one group.
+export const PROGRAM_HOLDOUT_MATCH_METHODS = ["similar_pair", "segment_region", "manual"] as const;
+export type ProgramHoldoutMatchMethod = typeof PROGRAM_HOLDOUT_MATCH_METHODS[number];
+
+export const programHoldoutAccounts = pgTable("program_holdout_accounts", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  programAccountId: integer("program_account_id").notNull(), // program_accounts.id of the enrollment it controls for
+  accountId: integer("account_id").notNull(),                // accounts.id of the top-level control account
+  matchMethod: text("match_method").notNull(),                // PROGRAM_HOLDOUT_MATCH_METHODS
+  similarityScore: numeric("similarity_score"),               // From agent_similar_account_pairs when matched that way
+  assignedBy: text("assigned_by"),
+  assignedAt: timestamp("assigned_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("idx_program_holdout_accounts_tenant_id").on(table.tenantId),
+  index("idx_program_holdout_accounts_program_account").on(table.programAccountId),
+  uniqueIndex("idx_program_holdout_accounts_tenant_account").on(table.tenantId, table.accountId), // One holdout group per account
+]);
+
+export type ProgramHoldoutAccount = typeof programHoldoutAccounts.$inferSelect;
+
+// ============ SUCCESS FEE STATEMENTS ============
+// One billable statement per tenant per closed month (services/success-fee-statements.ts).
+// Lines are copied from the month's program revenue snapshots while the statement is a
+// draft; once approved they never change and disputes are settled with adjustments.
+export const SUCCESS_FEE_STATEMENT_STATUSES = ["draft", "approved", "sent"] as const;
+export type SuccessFeeStatementStatus = typeof SUCCESS_FEE_STATEMENT_STATUSES[number];
+
+export interface SuccessFeeStatementLine {
+  programAccountId: number;
+  accountId: number;
+  accountName: string;
+  periodStart: string; // ISO; the enrolled part of the month
+  periodEnd: string;
+  baselineMethod: string;
+  baselineRevenue: number;
+  actualRevenue: number;
+  incrementalRevenue: number;
+  feeBreakdown: ProgramFeeTierLine[];
+  feeAmount: number;
+}
+
+export const successFeeStatements = pgTable("success_fee_statements", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  statementNumber: text("statement_number").notNull(), // SF-YYYY-MM
+  periodStart: timestamp("period_start").notNull(),     // First day of the month (UTC)
+  status: text("status").notNull().default("draft"),    // SUCCESS_FEE_STATEMENT_STATUSES
+  lines: jsonb("lines").$type<SuccessFeeStatementLine[]>().notNull(),
+  totalBaseline: numeric("total_baseline").notNull().default("0"),
+  totalActual: numeric("total_actual").notNull().default("0"),
+  totalIncremental: numeric("total_incremental").notNull().default("0"),
+  totalFee: numeric("total_fee").notNull().default("0"), // Before adjustments
+  generatedAt: timestamp("generated_at").default(sql`CURRENT_TIMESTAMP`),
+  generatedBy: text("generated_by"),
+  approvedAt: timestamp("approved_at"),
+  approvedBy: text("approved_by"),
+  sentAt: timestamp("sent_at"),
+  sentBy: text("sent_by"),
+  sentTo: text("sent_to"), // Billing contact the statement went to
+}, (table) => [
+  uniqueIndex("idx_success_fee_statements_tenant_period").on(table.tenantId, table.periodStart), // One statement per month
+]);
+
+export type SuccessFeeStatement = typeof successFeeStatements.$inferSelect;
+
+export const successFeeStatementAdjustments = pgTable("success_fee_statement_adjustments", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  statementId: integer("statement_id").notNull(),    // success_fee_statements.id
+  programAccountId: integer("program_account_id"),   // program_accounts.id; null = whole statement
+  amount: numeric("amount").notNull(),               // Negative = credit to the customer
+  reason: text("reason").notNull(),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("idx_success_fee_statement_adjustments_statement").on(table.tenantId, table.statementId),
+]);
+
+export const insertSuccessFeeStatementAdjustmentSchema = createInsertSchema(successFeeStatementAdjustments, {
+  amount: z.coerce.number().refine(n => n !== 0, "Amount can't be zero").transform(n => n.toFixed(2)),
+  reason: z.string().trim().min(1, "A reason is required"),
+}).omit({
+  id: true,
+  tenantId: true,
+  statementId: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+export type InsertSuccessFeeStatementAdjustment = z.infer<typeof insertSuccessFeeStatementAdjustmentSchema>;
+export type SuccessFeeStatementAdjustment = typeof successFeeStatementAdjustments.$inferSelect;
+
 // ============ DATA UPLOADS ============
 export const dataUploads = pgTable("data_uploads", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id"), // Multi-tenant isolation
-  uploadType: text("upload_type").notNull(), // accounts, orders, products, categories
+  uploadType: text("upload_type").notNull(), // accounts, orders, order_items, products, categories
   fileName: text("file_name").notNull(),
-  rowCount: integer("row_count"),
+  rowCount: integer("row_count"), // Rows successfully imported
+  rejectedCount: integer("rejected_count").default(0), // Rows that failed validation
+  errorReport: jsonb("error_report").$type<DataUploadRowError[]>(), // Per-row rejection reasons
   status: text("status").default("processing"), // processing, completed, failed
   errorMessage: text("error_message"),
   uploadedBy: text("uploaded_by"),
   uploadedAt: timestamp("uploaded_at").default(sql`CURRENT_TIMESTAMP`),
+  completedAt: timestamp("completed_at"),
 }, (table) => [
   index("idx_data_uploads_tenant_id").on(table.tenantId),
 ]);
 
-export const insertDataUploadSchema = createInsertSchema(dataUploads).omit({
+export const insertDataUploadSchema = createInsertSchema(dataUploads, {
+  errorReport: z.array(z.object({
+    row: z.number(),
+    field: z.string().optional(),
+    message: z.string(),
+  })).nullish(),
+}).omit({
   id: true,
   uploadedAt: true,
 });
@@ -505,6 +982,15 @@ export const insertDataUploadSchema = createInsertSchema(dataUploads).omit({
 export type InsertDataUpload = z.infer<typeof insertDataUploadSchema>;
 export type DataUpload = typeof dataUploads.$inferSelect;
 
+export const DATA_UPLOAD_TYPES = ['accounts', 'products', 'categories', 'orders', 'order_items'] as const;
+export type DataUploadType = typeof DATA_UPLOAD_TYPES[number];
+
+export interface DataUploadRowError {
+  row: number; // 1-based data row number (header excluded)
+  field?: string;
+  message: string;
+}
+
 // ============ SETTINGS ============
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
@@ -555,6 +1041,66 @@ export const DEFAULT_SCORING_WEIGHTS = {
   categoryCountWeight: 30,
 };
 
+// ============ SCORING MODELS ============
+// Versioned opportunity-score models. Each version weights any mix of factors
+// (each scored 0-100 by the metrics engine); exactly one version per tenant is
+// active. Versions are immutable once activated - edits create a new draft.
+// Supersedes scoring_weights, which is only read when no version is active.
+export const SCORING_FACTORS = [
+  "gap_size",           // Distance below the ICP's expected category mix
+  "revenue_potential",  // Estimated gap $ relative to the tenant's largest
+  "category_count",     // Share of ICP categories with a gap
+  "recency",
+  "frequency",
+  "monetary",
+  "mix",
+  "credit_headroom",    // Unused share of the account's credit limit
+  "competitor_threat",  // Threat-weighted competitor mentions, last 90 days
+  "margin",             // Trailing-12-month margin % relative to the tenant's best
+] as const;
+export type ScoringFactor = typeof SCORING_FACTORS[number];
+
+export const SCORING_MODEL_STATUSES = ["draft", "active", "archived"] as const;
+export type ScoringModelStatus = typeof SCORING_MODEL_STATUSES[number];
+
+export const scoringFactorWeightSchema = z.object({
+  factor: z.enum(SCORING_FACTORS),
+  weight: z.number().min(0).max(100),
+});
+export type ScoringFactorWeight = z.infer<typeof scoringFactorWeightSchema>;
+
+export const scoringModelFactorsSchema = z.array(scoringFactorWeightSchema).min(1)
+  .refine(factors => new Set(factors.map(f => f.factor)).size === factors.length, "Each factor can only appear once")
+  .refine(factors => Math.abs(factors.reduce((sum, f) => sum + f.weight, 0) - 100) <= 0.01, "Weights must sum to 100%");
+
+export const scoringModels = pgTable("scoring_models", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  version: integer("version").notNull(), // 1, 2, 3... per tenant
+  name: text("name").notNull(),
+  description: text("description"),
+  factors: jsonb("factors").$type<ScoringFactorWeight[]>().notNull(), // Weights sum to 100
+  status: text("status").notNull().default("draft"), // SCORING_MODEL_STATUSES
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  activatedAt: timestamp("activated_at"),
+  activatedBy: text("activated_by"),
+}, (t) => [
+  index("idx_scoring_models_tenant_status").on(t.tenantId, t.status),
+  uniqueIndex("idx_scoring_models_tenant_version").on(t.tenantId, t.version),
+  uniqueIndex("idx_scoring_models_tenant_active").on(t.tenantId).where(sql`${t.status} = 'active'`), // One active version per tenant
+]);
+
+export const insertScoringModelSchema = createInsertSchema(scoringModels, {
+  factors: scoringModelFactorsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertScoringModel = z.infer<typeof insertScoringModelSchema>;
+export type ScoringModel = typeof scoringModels.$inferSelect;
+
 // ============ TERRITORY MANAGERS ============
 export const territoryManagers = pgTable("territory_managers", {
   id: serial("id").primaryKey(),
@@ -562,10 +1108,12 @@ export const territoryManagers = pgTable("territory_managers", {
   name: text("name").notNull(),
   email: text("email").notNull(),
   territories: text("territories").array(),
+  userId: varchar("user_id"), // Login linked to this TM for the territory_manager role
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
 }, (table) => [
   index("idx_territory_managers_tenant_id").on(table.tenantId),
+  index("idx_territory_managers_user_id").on(table.userId),
 ]);
 
 export const insertTerritoryManagerSchema = createInsertSchema(territoryManagers).omit({
@@ -576,7 +1124,9 @@ export const insertTerritoryManagerSchema = createInsertSchema(territoryManagers
 export type InsertTerritoryManager = z.infer<typeof insertTerritoryManagerSchema>;
 export type TerritoryManager = typeof territoryManagers.$inferSelect;
 
-// ============ CUSTOM CATEGORY CONFIG ============
+// ============ CUSTOM CATEGORY CONFIG (superseded) ============
+// Replaced by the product_categories taxonomy; migrations/phase2_category_taxonomy.sql
+// copies these rows across. Kept so db:push doesn't drop data before the migration runs.
 export const customCategories = pgTable("custom_categories", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id"), // Multi-tenant isolation
@@ -588,12 +1138,6 @@ export const customCategories = pgTable("custom_categories", {
   index("idx_custom_categories_tenant_id").on(table.tenantId),
 ]);
 
-export const insertCustomCategorySchema = createInsertSchema(customCategories).omit({
-  id: true,
-  createdAt: true,
-});
-
-export type InsertCustomCategory = z.infer<typeof insertCustomCategorySchema>;
 export type CustomCategory = typeof customCategories.$inferSelect;
 
 // ============ DASHBOARD LAYOUT CONFIG ============
@@ -794,20 +1338,30 @@ export const agentContacts = pgTable("agent_contacts", {
 export type AgentContact = typeof agentContacts.$inferSelect;
 
 // ── Agent Account Category Spend ──────────────────────────────
+export const CATEGORY_SPEND_TRENDS = ["growing", "declining", "stable", "new_gap"] as const;
+export type CategorySpendTrend = typeof CATEGORY_SPEND_TRENDS[number];
+
+export interface MonthlySpendPoint {
+  month: string; // "YYYY-MM"
+  spend: number;
+}
+
 export const agentAccountCategorySpend = pgTable("agent_account_category_spend", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id"),
   accountId: integer("account_id").notNull(),
   categoryId: integer("category_id"),
-  currentSpend: numeric("current_spend"),
-  potentialSpend: numeric("potential_spend"),
-  gapPercentage: numeric("gap_percentage"),
+  currentSpend: numeric("current_spend"),     // Trailing 12 months
+  potentialSpend: numeric("potential_spend"), // ICP expectedPct x trailing-12m revenue; null outside the ICP
+  gapPercentage: numeric("gap_percentage"),   // gapDollars / potentialSpend
   gapDollars: numeric("gap_dollars"),
   lastOrderDate: timestamp("last_order_date"),
   daysSinceOrder: integer("days_since_order"),
-  trend: text("trend"), // growing, declining, stable, new_gap
-  monthlySpendHistory: jsonb("monthly_spend_history"), // [{month, spend}]
-});
+  trend: text("trend"), // CATEGORY_SPEND_TRENDS
+  monthlySpendHistory: jsonb("monthly_spend_history").$type<MonthlySpendPoint[]>(), // Last 12 months, oldest first
+}, (t) => [
+  index("idx_agent_account_category_spend_account").on(t.tenantId, t.accountId),
+]);
 export type AgentAccountCategorySpend = typeof agentAccountCategorySpend.$inferSelect;
 
 // ── Agent Projects ────────────────────────────────────────────
@@ -867,25 +1421,54 @@ export type AgentSimilarAccountPair = typeof agentSimilarAccountPairs.$inferSele
 
 // ── Agent Interactions ────────────────────────────────────────
 // Email/call/meeting history per account (source for email intelligence).
+export const AGENT_INTERACTION_TYPES = ["email", "call", "meeting", "note", "rep_note"] as const;
+export type AgentInteractionType = typeof AGENT_INTERACTION_TYPES[number];
+
 export const agentInteractions = pgTable("agent_interactions", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id"),
   accountId: integer("account_id").notNull(),
-  interactionType: text("interaction_type").notNull(), // email, call, meeting, note
+  interactionType: text("interaction_type").notNull(), // AGENT_INTERACTION_TYPES
+  source: text("source").default("rep_entered"),       // rep_entered, email_sync, crm, seed
   direction: text("direction"),                        // inbound, outbound
   subject: text("subject"),
   body: text("body"),
   repEmail: text("rep_email"),
   contactEmail: text("contact_email"),
   occurredAt: timestamp("occurred_at").notNull(),
+  followUpDate: timestamp("follow_up_date"),
   sentimentSignal: text("sentiment_signal"),           // positive, neutral, negative, competitor_mention
   flaggedForReview: boolean("flagged_for_review").default(false),
+  // Filled in by email-intelligence.ts
+  aiAnalyzed: boolean("ai_analyzed").default(false),
+  sentiment: text("sentiment"),                        // positive, neutral, negative, at_risk_signal, competitor_mention
+  urgency: text("urgency"),                            // immediate, this_week, monitor
+  buyingSignal: text("buying_signal"),
+  competitorMentioned: text("competitor_mentioned"),
+  projectMentioned: text("project_mentioned"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (t) => [
   index("idx_agent_interactions_tenant").on(t.tenantId),
   index("idx_agent_interactions_account").on(t.accountId),
 ]);
 
+export const insertAgentInteractionSchema = createInsertSchema(agentInteractions).omit({
+  id: true,
+  createdAt: true,
+  aiAnalyzed: true,
+  sentiment: true,
+  urgency: true,
+  buyingSignal: true,
+  competitorMentioned: true,
+  projectMentioned: true,
+}).extend({
+  interactionType: z.enum(AGENT_INTERACTION_TYPES),
+  // Accept string dates from frontend and coerce to Date
+  occurredAt: z.union([z.date(), z.string().transform((s) => new Date(s))]).optional(),
+  followUpDate: z.union([z.date(), z.string().transform((s) => new Date(s))]).nullable().optional(),
+});
+
+export type InsertAgentInteraction = z.infer<typeof insertAgentInteractionSchema>;
 export type AgentInteraction = typeof agentInteractions.$inferSelect;
 
 // ── Agent Playbooks ───────────────────────────────────────────
@@ -907,6 +1490,38 @@ export const agentPlaybooks = pgTable("agent_playbooks", {
 
 export type AgentPlaybook = typeof agentPlaybooks.$inferSelect;
 
+// ── Agent Playbook Outcomes ───────────────────────────────────
+// Structured result of each completed task; input to synthesize-learnings.
+export const PLAYBOOK_OUTCOME_TYPES = ["won", "partial", "no_response", "lost", "deferred"] as const;
+export type PlaybookOutcomeType = typeof PLAYBOOK_OUTCOME_TYPES[number];
+
+export const agentPlaybookOutcomes = pgTable("agent_playbook_outcomes", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id"),
+  accountId: integer("account_id").notNull(),
+  taskId: integer("task_id"),                          // tasks.id
+  playbookId: integer("playbook_id"),                  // playbooks.id
+  agentPlaybookId: integer("agent_playbook_id"),       // agent_playbooks.id active for the account at completion
+  outcomeType: text("outcome_type").notNull(),         // PLAYBOOK_OUTCOME_TYPES
+  wonCategory: text("won_category"),                   // Gap category the account started buying
+  revenueImpact: numeric("revenue_impact"),            // Estimated annual revenue impact ($)
+  outcomeScore: integer("outcome_score"),              // Rep rating 1-5
+  repNotes: text("rep_notes"),
+  recordedBy: text("recorded_by"),
+  recordedAt: timestamp("recorded_at").defaultNow(),
+}, (t) => [
+  index("idx_agent_pb_outcomes_tenant").on(t.tenantId, t.recordedAt),
+  index("idx_agent_pb_outcomes_task").on(t.taskId),
+]);
+
+export const insertAgentPlaybookOutcomeSchema = createInsertSchema(agentPlaybookOutcomes).omit({
+  id: true,
+  recordedAt: true,
+});
+
+export type InsertAgentPlaybookOutcome = z.infer<typeof insertAgentPlaybookOutcomeSchema>;
+export type AgentPlaybookOutcome = typeof agentPlaybookOutcomes.$inferSelect;
+
 // ── Agent Rep Daily Briefings ─────────────────────────────────
 // Record of every daily briefing generated and sent to each rep.
 export const agentRepDailyBriefings = pgTable("agent_rep_daily_briefings", {
@@ -955,6 +1570,7 @@ export const agentCrmSyncQueue = pgTable("agent_crm_sync_queue", {
   status: text("status").default("pending"),          // pending, synced, failed
   attempts: integer("attempts").default(0),
   lastAttemptAt: timestamp("last_attempt_at"),
+  nextAttemptAt: timestamp("next_attempt_at"),        // Exponential backoff; null = due now
   syncedAt: timestamp("synced_at"),
   errorMessage: text("error_message"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -965,6 +1581,31 @@ export const agentCrmSyncQueue = pgTable("agent_crm_sync_queue", {
 
 export type AgentCrmSyncQueue = typeof agentCrmSyncQueue.$inferSelect;
 
+// ── Webhook Deliveries ────────────────────────────────────────
+// One row per outbound webhook HTTP attempt for a queued CRM event.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  queueId: integer("queue_id").notNull(),              // agent_crm_sync_queue.id
+  eventType: text("event_type").notNull(),
+  url: text("url").notNull(),
+  attempt: integer("attempt").notNull(),
+  trigger: text("trigger").notNull().default("automatic"), // automatic, manual
+  requestBody: text("request_body").notNull(),
+  responseStatus: integer("response_status"),          // null when the request never got a response
+  responseBody: text("response_body"),
+  durationMs: integer("duration_ms"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => [
+  index("idx_webhook_deliveries_tenant").on(t.tenantId, t.createdAt),
+  index("idx_webhook_deliveries_queue").on(t.queueId),
+]);
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true });
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
 // ── Agent Organization Settings ───────────────────────────────
 // Per-tenant configuration for the agentic layer.
 export const agentOrganizationSettings = pgTable("agent_organization_settings", {
@@ -973,14 +1614,42 @@ export const agentOrganizationSettings = pgTable("agent_organization_settings",
   activeRepEmails: jsonb("active_rep_emails"),        // Which TM emails get daily briefings
   briefingEnabled: boolean("briefing_enabled").default(true),
   briefingTime: text("briefing_time").default("07:00"), // HH:MM local time
+  timezone: text("timezone").default("America/New_York"), // IANA zone for briefingTime and the daily digest
   emailIntelligenceEnabled: boolean("email_intelligence_enabled").default(true),
   crmSyncEnabled: boolean("crm_sync_enabled").default(false),
-  crmProvider: text("crm_provider"),                 // salesforce, hubspot, none
+  crmProvider: text("crm_provider"),                 // salesforce, hubspot, webhook, none
+  crmWebhookUrl: text("crm_webhook_url"),            // Generic JSON webhook target when crmProvider is webhook/none
+  crmWebhookSecret: text("crm_webhook_secret"),      // HMAC-SHA256 signing key
+  crmWebhookPreviousSecret: text("crm_webhook_previous_secret"), // Still signed with until the rotation grace period ends
+  crmWebhookSecretRotatedAt: timestamp("crm_webhook_secret_rotated_at"),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (t) => [index("idx_agent_org_settings_tenant").on(t.tenantId)]);
 
 export type AgentOrganizationSettings = typeof agentOrganizationSettings.$inferSelect;
 
+// ── Job Runs ──────────────────────────────────────────────────
+// One row per scheduled (or manually triggered) job execution for a tenant.
+export const JOB_RUN_STATUSES = ["running", "success", "failed"] as const;
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobName: text("job_name").notNull(),
+  tenantId: integer("tenant_id"),
+  trigger: text("trigger").notNull().default("schedule"), // schedule, manual
+  status: text("status").notNull().default("running"),   // running, success, failed
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  result: jsonb("result"),
+  error: text("error"),
+}, (t) => [
+  index("idx_job_runs_job_started").on(t.jobName, t.startedAt),
+  index("idx_job_runs_tenant").on(t.tenantId),
+]);
+
+export type JobRun = typeof jobRuns.$inferSelect;
+
 // ============ EMAIL OAUTH CONNECTIONS ============
 export const emailConnections = pgTable("email_connections", {
   id: serial("id").primaryKey(),
@@ -1010,6 +1679,76 @@ export const insertEmailConnectionSchema = createInsertSchema(emailConnections).
 export type EmailConnection = typeof emailConnections.$inferSelect;
 export type InsertEmailConnection = z.infer<typeof insertEmailConnectionSchema>;
 
+// ============ CRM OAUTH CONNECTIONS ============
+// Native CRM connectors used by the sync queue (see server/services/crm-connectors.ts)
+export const CRM_PROVIDERS = ['salesforce', 'hubspot'] as const;
+export type CrmProvider = typeof CRM_PROVIDERS[number];
+
+// Where queued events land on the CRM account record. Null disables that field update.
+export interface CrmFieldMapping {
+  accountMatchField: string;            // CRM field holding accounts.externalId (record ID field by default)
+  enrollmentStatusField: string | null; // enrolled / graduated / at_risk
+  riskSignalsField: string | null;      // semicolon-joined at-risk signals
+  lastOutcomeField: string | null;      // most recent playbook outcome
+}
+
+// Fields the inbound pull may write, keyed "<entity>.<column>"
+export const CRM_SYNC_FIELDS = [
+  'account.name', 'account.segment', 'account.region',
+  'contact.firstName', 'contact.lastName', 'contact.email', 'contact.phone', 'contact.title',
+  'project.name', 'project.estimatedValue', 'project.stage', 'project.bidDeadline',
+] as const;
+export type CrmSyncField = typeof CRM_SYNC_FIELDS[number];
+
+// Which side wins when a pulled value differs from a non-empty local value
+export type CrmSourceOfTruth = Partial<Record<CrmSyncField, 'crm' | 'app'>>;
+
+export const crmSourceOfTruthSchema = z.record(z.enum(CRM_SYNC_FIELDS), z.enum(['crm', 'app']));
+
+export const crmFieldMappingSchema = z.object({
+  accountMatchField: z.string().min(1),
+  enrollmentStatusField: z.string().min(1).nullable(),
+  riskSignalsField: z.string().min(1).nullable(),
+  lastOutcomeField: z.string().min(1).nullable(),
+});
+
+export const crmConnections = pgTable("crm_connections", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  provider: text("provider").notNull(), // salesforce, hubspot
+  instanceUrl: text("instance_url").notNull(), // API base URL (Salesforce instance or HubSpot API host)
+  externalOrgId: text("external_org_id"), // Salesforce org ID / HubSpot portal ID
+  connectedBy: text("connected_by"),
+  accessToken: text("access_token").notNull(),
+  refreshToken: text("refresh_token"),
+  tokenExpiresAt: timestamp("token_expires_at"),
+  fieldMapping: jsonb("field_mapping").$type<CrmFieldMapping>(),
+  sourceOfTruth: jsonb("source_of_truth").$type<CrmSourceOfTruth>(),
+  createUnmatchedAccounts: boolean("create_unmatched_accounts").notNull().default(false), // Pull creates local accounts for CRM accounts that match none
+  status: text("status").default("connected"), // connected, expired, disconnected, error
+  lastSyncAt: timestamp("last_sync_at"),
+  lastPullAt: timestamp("last_pull_at"), // Contacts/opportunities modified after this are re-pulled
+  lastPullSummary: jsonb("last_pull_summary"),
+  syncError: text("sync_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => [
+  index("idx_crm_connections_tenant").on(t.tenantId),
+]);
+
+export const insertCrmConnectionSchema = createInsertSchema(crmConnections, {
+  fieldMapping: crmFieldMappingSchema.nullish(),
+  sourceOfTruth: crmSourceOfTruthSchema.nullish(),
+  lastPullSummary: z.record(z.unknown()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CrmConnection = typeof crmConnections.$inferSelect;
+export type InsertCrmConnection = z.infer<typeof insertCrmConnectionSchema>;
+
 // ============ SYNCED EMAILS ============
 export const syncedEmails = pgTable("synced_emails", {
   id: serial("id").primaryKey(),
@@ -1054,6 +1793,7 @@ export const contacts = pgTable("contacts", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id").notNull(),
   accountId: integer("account_id"),
+  externalId: text("external_id"), // CRM record ID for crm_import contacts
   firstName: text("first_name").notNull(),
   lastName: text("last_name"),
   email: text("email"),
@@ -1064,13 +1804,14 @@ export const contacts = pgTable("contacts", {
   isPrimary: boolean("is_primary").default(false),
   lastContactedAt: timestamp("last_contacted_at"),
   notes: text("notes"),
-  source: text("source").default("email_sync"), // email_sync, manual, csv_import
+  source: text("source").default("email_sync"), // email_sync, manual, csv_import, crm_import
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (t) => [
   index("idx_contacts_tenant").on(t.tenantId),
   index("idx_contacts_account").on(t.accountId),
   index("idx_contacts_email").on(t.email),
+  index("idx_contacts_external_id").on(t.externalId),
 ]);
 
 export const insertContactSchema = createInsertSchema(contacts).omit({
@@ -1087,6 +1828,7 @@ export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id").notNull(),
   accountId: integer("account_id"),
+  externalId: text("external_id"), // CRM opportunity ID for crm_import projects
   name: text("name").notNull(),
   location: text("location"),
   projectType: text("project_type"), // new_construction, renovation, retrofit, maintenance, tenant_improvement
@@ -1101,7 +1843,7 @@ export const projects = pgTable("projects", {
   productCategories: jsonb("product_categories"), // Array of category names relevant to this project
   competitorsInvolved: jsonb("competitors_involved"), // Array of competitor names bidding
   notes: text("notes"),
-  source: text("source").default("email_sync"), // email_sync, manual
+  source: text("source").default("email_sync"), // email_sync, manual, crm_import
   sourceEmailId: integer("source_email_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -1109,6 +1851,7 @@ export const projects = pgTable("projects", {
   index("idx_projects_tenant").on(t.tenantId),
   index("idx_projects_account").on(t.accountId),
   index("idx_projects_stage").on(t.stage),
+  index("idx_projects_external_id").on(t.externalId),
 ]);
 
 export const insertProjectSchema = createInsertSchema(projects).omit({
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'http';
+import { createTestApp, listenForTest, type TestServer } from './setup';
+
+// The real history route, mounted behind a signed-in user whose tenant storage is a fake
+const { tenantStorage } = vi.hoisted(() => {
+  // Clients constructed while the routes load need a key; none of these tests calls out
+  process.env.OPENAI_API_KEY ??= 'test-key';
+  process.env.AI_INTEGRATIONS_OPENAI_API_KEY ??= 'test-key';
+  process.env.RESEND_API_KEY ??= 're_test';
+  return {
+    tenantStorage: {
+      getAccount: vi.fn(),
+      getAccountMetricsHistory: vi.fn(),
+      getAccountCategoryGapHistory: vi.fn(),
+      getProductCategories: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../server/replit_integrations/auth', () => ({
+  setupAuth: vi.fn(),
+  registerAuthRoutes: vi.fn(),
+  isAuthenticated: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../server/middleware/tenantContext', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/middleware/tenantContext')>()),
+  withTenantContext: (req: any, _res: any, next: any) => {
+    req.tenantContext = {
+      tenantId: 1,
+      userId: 'user-1',
+      role: 'super_admin',
+      tenant: { id: 1, name: 'Acme Supply', planType: 'professional', subscriptionStatus: 'active' },
+    };
+    next();
+  },
+}));
+
+vi.mock('../../server/storage/tenantStorage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/storage/tenantStorage')>()),
+  getTenantStorage: () => tenantStorage,
+}));
+
+import { registerRoutes } from '../../server/routes';
+
+function snapshot(month: string, overrides: Record<string, string | null> = {}) {
+  return {
+    accountId: 42,
+    snapshotMonth: new Date(`${month}-01T00:00:00Z`),
+    last12mRevenue: '120000.00',
+    categoryPenetration: '40.00',
+    opportunityScore: '72.50',
+    recencyScore: '80.00',
+    frequencyScore: '60.00',
+    monetaryScore: '70.00',
+    mixScore: '40.00',
+    gapOpportunity: '18000.00',
+    gapMarginOpportunity: null,
+    ...overrides,
+  };
+}
+
+let server: TestServer;
+
+describe('GET /api/accounts/:id/metrics/history', () => {
+  beforeAll(async () => {
+    const app = createTestApp();
+    const httpServer = createServer(app);
+    await registerRoutes(httpServer, app);
+    server = await listenForTest(httpServer);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    tenantStorage.getAccount.mockResolvedValue({ id: 42, name: 'Metro HVAC Supply' });
+    tenantStorage.getAccountMetricsHistory.mockResolvedValue([]);
+    tenantStorage.getAccountCategoryGapHistory.mockResolvedValue([]);
+    tenantStorage.getProductCategories.mockResolvedValue([{ id: 10, name: 'Water Heaters' }]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts the window on the first of the month, counting the current month', async () => {
+    vi.setSystemTime(new Date('2026-03-31T23:59:59Z'));
+
+    const res = await server.request('GET', '/api/accounts/42/metrics/history?months=3');
+
+    expect(res.status).toBe(200);
+    expect(res.body.months).toBe(3);
+    const since = new Date('2026-01-01T00:00:00Z');
+    expect(tenantStorage.getAccountMetricsHistory).toHaveBeenCalledWith(42, since);
+    expect(tenantStorage.getAccountCategoryGapHistory).toHaveBeenCalledWith(42, since);
+  });
+
+  it('crosses the year boundary and clamps the window to 1-36 months', async () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    await server.request('GET', '/api/accounts/42/metrics/history?months=2');
+    await server.request('GET', '/api/accounts/42/metrics/history?months=99');
+    await server.request('GET', '/api/accounts/42/metrics/history?months=-5');
+
+    expect(tenantStorage.getAccountMetricsHistory.mock.calls.map(([, since]) => since.toISOString())).toEqual([
+      '2025-12-01T00:00:00.000Z',
+      '2023-02-01T00:00:00.000Z',
+      '2026-01-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('returns one entry per snapshot month with that month\'s gaps', async () => {
+    vi.setSystemTime(new Date('2026-03-15T12:00:00Z'));
+    tenantStorage.getAccountMetricsHistory.mockResolvedValue([
+      snapshot('2026-02'),
+      snapshot('2026-03', { last12mRevenue: '125000.00', opportunityScore: null, gapOpportunity: null }),
+    ]);
+    tenantStorage.getAccountCategoryGapHistory.mockResolvedValue([
+      {
+        accountId: 42, categoryId: 10, snapshotMonth: new Date('2026-02-01T00:00:00Z'),
+        gapPct: '25.00', estimatedOpportunity: '18000.00', estimatedMarginOpportunity: '5400.00',
+      },
+      {
+        accountId: 42, categoryId: 11, snapshotMonth: new Date('2026-03-01T00:00:00Z'),
+        gapPct: '10.00', estimatedOpportunity: '6000.00', estimatedMarginOpportunity: null,
+      },
+    ]);
+
+    const res = await server.request('GET', '/api/accounts/42/metrics/history');
+
+    expect(res.body.months).toBe(24);
+    expect(res.body.history.map((h: any) => h.month)).toEqual(['2026-02', '2026-03']);
+    expect(res.body.history[0]).toMatchObject({
+      last12mRevenue: 120000,
+      opportunityScore: 72.5,
+      gapOpportunity: 18000,
+      gapMarginOpportunity: null,
+      gaps: [{ categoryId: 10, categoryName: 'Water Heaters', gapPct: 25, estimatedOpportunity: 18000, estimatedMarginOpportunity: 5400 }],
+    });
+    expect(res.body.history[1]).toMatchObject({
+      last12mRevenue: 125000,
+      opportunityScore: null,
+      gapOpportunity: 0,
+      gaps: [{ categoryId: 11, categoryName: 'Unknown', gapPct: 10 }],
+    });
+  });
+
+  it('returns 404 for an account outside the tenant or territory', async () => {
+    tenantStorage.getAccount.mockResolvedValue(undefined);
+
+    const res = await server.request('GET', '/api/accounts/42/metrics/history');
+
+    expect(res.status).toBe(404);
+    expect(tenantStorage.getAccountMetricsHistory).not.toHaveBeenCalled();
+  });
+});
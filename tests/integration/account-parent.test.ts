@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'http';
+import { createTestApp, listenForTest, type TestServer } from './setup';
+
+// The real move route, mounted behind a territory manager. Storage built with the manager
+// sees only their accounts; storage built without one sees the whole tenant.
+const { scopedStorage, tenantWideStorage, links } = vi.hoisted(() => {
+  // Clients constructed while the routes load need a key; none of these tests calls out
+  process.env.OPENAI_API_KEY ??= 'test-key';
+  process.env.AI_INTEGRATIONS_OPENAI_API_KEY ??= 'test-key';
+  process.env.RESEND_API_KEY ??= 're_test';
+  const storage = () => ({
+    getAccount: vi.fn(),
+    getProgramAccounts: vi.fn(),
+    updateAccount: vi.fn(),
+  });
+  return {
+    scopedStorage: storage(),
+    tenantWideStorage: storage(),
+    links: { current: [] as { id: number; parentAccountId: number | null }[] },
+  };
+});
+
+const sam = { id: 3, tenantId: 1, name: 'Sam Lee', email: 'sam@example.com', territories: ['West'] };
+
+vi.mock('../../server/replit_integrations/auth', () => ({
+  setupAuth: vi.fn(),
+  registerAuthRoutes: vi.fn(),
+  isAuthenticated: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../server/middleware/tenantContext', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/middleware/tenantContext')>()),
+  withTenantContext: (req: any, _res: any, next: any) => {
+    req.tenantContext = {
+      tenantId: 1,
+      userId: 'user-3',
+      role: 'territory_manager',
+      territoryManager: sam,
+      tenant: { id: 1, name: 'Acme Supply', planType: 'professional', subscriptionStatus: 'active' },
+    };
+    next();
+  },
+}));
+
+vi.mock('../../server/storage/tenantStorage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/storage/tenantStorage')>()),
+  getTenantStorage: (_tenantId: number, territoryManager?: object) =>
+    (territoryManager ? scopedStorage : tenantWideStorage),
+}));
+
+vi.mock('../../server/services/account-hierarchy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/services/account-hierarchy')>()),
+  loadAccountLinks: async () => links.current,
+}));
+
+import { registerRoutes } from '../../server/routes';
+
+let server: TestServer;
+
+describe('PUT /api/accounts/:id/parent as a territory manager', () => {
+  beforeAll(async () => {
+    const app = createTestApp();
+    const httpServer = createServer(app);
+    await registerRoutes(httpServer, app);
+    server = await listenForTest(httpServer);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Branch 12 (Sam's) and head office 10 (another territory's); 20 is Sam's new parent
+    links.current = [
+      { id: 10, parentAccountId: null },
+      { id: 12, parentAccountId: 10 },
+      { id: 20, parentAccountId: null },
+    ];
+    scopedStorage.getAccount.mockImplementation(async (id: number) =>
+      ({ 12: { id: 12, name: 'Metro HVAC West', parentAccountId: 10 }, 20: { id: 20, name: 'Coastal Plumbing' } } as any)[id]);
+    scopedStorage.getProgramAccounts.mockResolvedValue([]);
+    scopedStorage.updateAccount.mockImplementation(async (id: number, data: object) => ({ id, ...data }));
+    tenantWideStorage.getProgramAccounts.mockResolvedValue([{ id: 1, accountId: 10, status: 'active' }]);
+  });
+
+  it('blocks moving a branch out of a family enrolled outside the manager\'s territory', async () => {
+    const res = await server.request('PUT', '/api/accounts/12/parent', { parentAccountId: 20 });
+
+    expect(res.status).toBe(409);
+    expect(res.body.enrolledAccountIds).toEqual([10]);
+    expect(res.body.message).toContain('account 10');
+    expect(tenantWideStorage.getProgramAccounts).toHaveBeenCalled();
+    expect(scopedStorage.getProgramAccounts).not.toHaveBeenCalled();
+    expect(scopedStorage.updateAccount).not.toHaveBeenCalled();
+  });
+
+  it('moves the branch once that enrollment has ended', async () => {
+    tenantWideStorage.getProgramAccounts.mockResolvedValue([{ id: 1, accountId: 10, status: 'graduated' }]);
+
+    const res = await server.request('PUT', '/api/accounts/12/parent', { parentAccountId: 20 });
+
+    expect(res.status).toBe(200);
+    expect(scopedStorage.updateAccount).toHaveBeenCalledWith(12, { parentAccountId: 20 });
+  });
+});
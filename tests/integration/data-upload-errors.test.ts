@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'http';
+import { createTestApp, listenForTest, type TestServer } from './setup';
+
+// The real error report route, mounted behind an admin whose tenant storage is a fake
+const { tenantStorage } = vi.hoisted(() => {
+  // Clients constructed while the routes load need a key; none of these tests calls out
+  process.env.OPENAI_API_KEY ??= 'test-key';
+  process.env.AI_INTEGRATIONS_OPENAI_API_KEY ??= 'test-key';
+  process.env.RESEND_API_KEY ??= 're_test';
+  return {
+    tenantStorage: {
+      getDataUpload: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../server/replit_integrations/auth', () => ({
+  setupAuth: vi.fn(),
+  registerAuthRoutes: vi.fn(),
+  isAuthenticated: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../server/middleware/tenantContext', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/middleware/tenantContext')>()),
+  withTenantContext: (req: any, _res: any, next: any) => {
+    req.tenantContext = {
+      tenantId: 1,
+      userId: 'user-1',
+      role: 'super_admin',
+      tenant: { id: 1, name: 'Acme Supply', planType: 'professional', subscriptionStatus: 'active' },
+    };
+    next();
+  },
+}));
+
+vi.mock('../../server/storage/tenantStorage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/storage/tenantStorage')>()),
+  getTenantStorage: () => tenantStorage,
+}));
+
+import { registerRoutes } from '../../server/routes';
+
+let server: TestServer;
+
+describe('GET /api/data-uploads/:id/errors', () => {
+  beforeAll(async () => {
+    const app = createTestApp();
+    const httpServer = createServer(app);
+    await registerRoutes(httpServer, app);
+    server = await listenForTest(httpServer);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('downloads the rejected rows as CSV named after the upload', async () => {
+    tenantStorage.getDataUpload.mockResolvedValue({
+      id: 7, fileName: 'accounts.CSV', errorReport: [{ row: 3, field: 'name', message: 'Required' }],
+    });
+
+    const res = await server.request('GET', '/api/data-uploads/7/errors');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toMatch(/^text\/csv/);
+    expect(res.headers.get('content-disposition')).toBe('attachment; filename="accounts_errors.csv"');
+    expect(res.body).toBe('row,field,message\n3,name,Required\n');
+  });
+
+  it('keeps quotes and non-ASCII in the uploaded file name out of the header syntax', async () => {
+    tenantStorage.getDataUpload.mockResolvedValue({ id: 7, fileName: 'Q3 "final"\r\nX-Evil: 1 café.csv', errorReport: [] });
+
+    const res = await server.request('GET', '/api/data-uploads/7/errors');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-evil')).toBeNull();
+    const disposition = res.headers.get('content-disposition');
+    expect(disposition).toMatch(/^attachment; filename="Q3 \\"final\\"[^"]*_errors\.csv"; /);
+    expect(disposition).toContain("filename*=UTF-8''Q3%20%22final%22%0D%0AX-Evil%3A%201%20caf%C3%A9_errors.csv");
+  });
+});
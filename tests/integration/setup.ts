@@ -1,4 +1,6 @@
 import express, { Express, Request, Response, NextFunction } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
 import { vi } from 'vitest';
 import { TenantStorage } from '../../server/storage/tenantStorage';
 
@@ -32,6 +34,29 @@ export function createTestApp(): Express {
   return app;
 }
 
+export interface TestServer {
+  request(method: string, path: string, body?: object): Promise<{ status: number; headers: Headers; body: any }>;
+  close(): Promise<void>;
+}
+
+/** Listens on an ephemeral port and sends JSON requests to the server; non-JSON responses come back as text */
+export async function listenForTest(server: Server): Promise<TestServer> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    async request(method, path, body) {
+      const res = await fetch(`http://127.0.0.1:${port}${path}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const json = res.headers.get('content-type')?.includes('application/json');
+      return { status: res.status, headers: res.headers, body: json ? await res.json() : await res.text() };
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
+
 export function mockAuthentication(user: MockUser) {
   return (req: Request, _res: Response, next: NextFunction) => {
     (req as any).user = user;
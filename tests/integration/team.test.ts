@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'http';
+import { createTestApp, listenForTest, type TestServer } from './setup';
+
+// The real team routes, mounted behind a signed-in user whose tenant context and storage are fakes
+const { context, tenantStorage, sendTeamInviteEmail } = vi.hoisted(() => {
+  // Clients constructed while the routes load need a key; none of these tests calls out
+  process.env.OPENAI_API_KEY ??= 'test-key';
+  process.env.AI_INTEGRATIONS_OPENAI_API_KEY ??= 'test-key';
+  process.env.RESEND_API_KEY ??= 're_test';
+  return {
+    context: { current: undefined as any },
+    tenantStorage: {
+      getTeamMembers: vi.fn(),
+      getPendingTeamInvites: vi.fn(),
+      getTeamInvite: vi.fn(),
+      createTeamInvite: vi.fn(),
+      revokeTeamInvite: vi.fn(),
+      updateTeamMemberRole: vi.fn(),
+      removeTeamMember: vi.fn(),
+    },
+    sendTeamInviteEmail: vi.fn(),
+  };
+});
+
+vi.mock('../../server/replit_integrations/auth', () => ({
+  setupAuth: vi.fn(),
+  registerAuthRoutes: vi.fn(),
+  isAuthenticated: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../server/middleware/tenantContext', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/middleware/tenantContext')>()),
+  withTenantContext: (req: any, _res: any, next: any) => {
+    req.tenantContext = context.current;
+    next();
+  },
+}));
+
+vi.mock('../../server/middleware/featureLimits', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/middleware/featureLimits')>()),
+  requireFeatureLimit: () => (_req: any, _res: any, next: any) => next(),
+  checkFeatureLimit: vi.fn().mockResolvedValue({ allowed: true, current: 2, limit: 5 }),
+}));
+
+vi.mock('../../server/storage/tenantStorage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/storage/tenantStorage')>()),
+  getTenantStorage: () => tenantStorage,
+}));
+
+vi.mock('../../server/email-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/email-service')>()),
+  sendTeamInviteEmail,
+}));
+
+import { registerRoutes } from '../../server/routes';
+
+const owner = { userId: 'user-1', email: 'owner@example.com', role: 'super_admin' };
+const rep = { userId: 'user-2', email: 'rep@example.com', role: 'viewer' };
+
+let server: TestServer;
+
+describe('Team routes', () => {
+  beforeAll(async () => {
+    const app = createTestApp();
+    const httpServer = createServer(app);
+    await registerRoutes(httpServer, app);
+    server = await listenForTest(httpServer);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    context.current = {
+      tenantId: 1,
+      userId: 'user-1',
+      role: 'super_admin',
+      tenant: { id: 1, name: 'Acme Supply', planType: 'professional', subscriptionStatus: 'active' },
+    };
+    tenantStorage.getTeamMembers.mockResolvedValue([owner, rep]);
+    tenantStorage.getPendingTeamInvites.mockResolvedValue([]);
+    tenantStorage.createTeamInvite.mockImplementation(async (data: object) => ({ id: 5, tenantId: 1, ...data }));
+    sendTeamInviteEmail.mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('lists members, pending invites without their tokens, and seat usage', async () => {
+    tenantStorage.getPendingTeamInvites.mockResolvedValue([{ id: 5, email: 'new@example.com', token: 'secret' }]);
+
+    const res = await server.request('GET', '/api/team');
+
+    expect(res.status).toBe(200);
+    expect(res.body.members).toEqual([
+      { ...owner, isCurrentUser: true },
+      { ...rep, isCurrentUser: false },
+    ]);
+    expect(res.body.invites).toEqual([{ id: 5, email: 'new@example.com' }]);
+    expect(res.body.seats).toEqual({ used: 2, limit: 5 });
+  });
+
+  it('forbids users without manage_users', async () => {
+    context.current.role = 'viewer';
+
+    const res = await server.request('GET', '/api/team');
+
+    expect(res.status).toBe(403);
+    expect(tenantStorage.getTeamMembers).not.toHaveBeenCalled();
+  });
+
+  it('creates an invite for the lowercased email and sends the invite email', async () => {
+    vi.stubEnv('BASE_URL', 'https://app.example.com');
+
+    const res = await server.request('POST', '/api/team/invites', { email: 'New@Example.com', role: 'territory_manager' });
+
+    expect(res.status).toBe(201);
+    expect(tenantStorage.createTeamInvite).toHaveBeenCalledWith(expect.objectContaining({
+      email: 'new@example.com', role: 'territory_manager', status: 'pending', invitedBy: 'user-1',
+    }));
+    expect(res.body.token).toBeUndefined();
+    expect(res.body.inviteUrl).toMatch(/^https:\/\/app\.example\.com\/api\/invites\/.+$/);
+    expect(res.body.emailSent).toBe(true);
+    expect(sendTeamInviteEmail).toHaveBeenCalledWith('new@example.com', 'Acme Supply', 'territory_manager', res.body.inviteUrl, 7);
+  });
+
+  it('rejects inviting an existing member or an email with a pending invite', async () => {
+    tenantStorage.getPendingTeamInvites.mockResolvedValue([{ id: 5, email: 'new@example.com' }]);
+
+    const member = await server.request('POST', '/api/team/invites', { email: 'REP@example.com' });
+    const pending = await server.request('POST', '/api/team/invites', { email: 'new@example.com' });
+
+    expect(member.status).toBe(409);
+    expect(pending.status).toBe(409);
+    expect(tenantStorage.createTeamInvite).not.toHaveBeenCalled();
+  });
+
+  it('only revokes pending invites', async () => {
+    tenantStorage.getTeamInvite.mockResolvedValue({ id: 5, status: 'accepted' });
+
+    const res = await server.request('DELETE', '/api/team/invites/5');
+
+    expect(res.status).toBe(404);
+    expect(tenantStorage.revokeTeamInvite).not.toHaveBeenCalled();
+  });
+
+  it('keeps at least one super admin when changing roles or removing members', async () => {
+    context.current.userId = 'user-3';
+    const demote = await server.request('PATCH', '/api/team/members/user-1', { role: 'viewer' });
+    const remove = await server.request('DELETE', '/api/team/members/user-1');
+
+    expect(demote.status).toBe(400);
+    expect(remove.status).toBe(400);
+    expect(tenantStorage.updateTeamMemberRole).not.toHaveBeenCalled();
+    expect(tenantStorage.removeTeamMember).not.toHaveBeenCalled();
+  });
+
+  it('does not let a user remove themselves', async () => {
+    const res = await server.request('DELETE', '/api/team/members/user-1');
+
+    expect(res.status).toBe(400);
+    expect(tenantStorage.removeTeamMember).not.toHaveBeenCalled();
+  });
+
+  it('changes a member\'s role', async () => {
+    tenantStorage.updateTeamMemberRole.mockResolvedValue({ userId: 'user-2', role: 'territory_manager' });
+
+    const res = await server.request('PATCH', '/api/team/members/user-2', { role: 'territory_manager' });
+
+    expect(res.status).toBe(200);
+    expect(tenantStorage.updateTeamMemberRole).toHaveBeenCalledWith('user-2', 'territory_manager');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  resolveRootAccounts,
+  accountFamilies,
+  wouldCreateCycle,
+  accountsAffectedByMove,
+  type AccountLink,
+} from '../../server/services/account-hierarchy';
+
+// Acme (1) → Acme North (2) → Acme North Service (3); Beta (4) stands alone
+const links: AccountLink[] = [
+  { id: 3, parentAccountId: 2 },
+  { id: 1, parentAccountId: null },
+  { id: 2, parentAccountId: 1 },
+  { id: 4, parentAccountId: null },
+];
+
+describe('resolveRootAccounts', () => {
+  it('rolls every branch up to its top-level parent', () => {
+    expect(Array.from(resolveRootAccounts(links).entries()).sort((a, b) => a[0] - b[0])).toEqual([
+      [1, 1], [2, 1], [3, 1], [4, 4],
+    ]);
+  });
+
+  it('treats a missing parent as top-level and survives cycles', () => {
+    const rootOf = resolveRootAccounts([
+      { id: 5, parentAccountId: 99 },
+      { id: 6, parentAccountId: 7 },
+      { id: 7, parentAccountId: 6 },
+      { id: 8, parentAccountId: 7 },
+    ]);
+
+    expect(rootOf.get(5)).toBe(5);
+    expect([rootOf.get(6), rootOf.get(7), rootOf.get(8)]).toEqual([6, 6, 6]);
+  });
+});
+
+describe('accountFamilies', () => {
+  it('groups each parent with its branches, parent first', () => {
+    const families = accountFamilies(resolveRootAccounts(links));
+
+    expect(families.get(1)!.slice().sort()).toEqual([1, 2, 3]);
+    expect(families.get(1)![0]).toBe(1);
+    expect(families.get(4)).toEqual([4]);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  it('rejects moving an account under one of its own branches', () => {
+    expect(wouldCreateCycle(links, 1, 3)).toBe(true);
+    expect(wouldCreateCycle(links, 3, 4)).toBe(false);
+    expect(wouldCreateCycle(links, 2, null)).toBe(false);
+  });
+});
+
+describe('accountsAffectedByMove', () => {
+  it('includes the moved branches and both ancestor chains', () => {
+    expect(accountsAffectedByMove(links, 2, 4).sort()).toEqual([1, 2, 3, 4]);
+    expect(accountsAffectedByMove(links, 3, null).sort()).toEqual([1, 2, 3]);
+    expect(accountsAffectedByMove(links, 4, 3).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('leaves unrelated families out', () => {
+    expect(accountsAffectedByMove([...links, { id: 5, parentAccountId: null }], 4, 5).sort()).toEqual([4, 5]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { buildAccountTimeline, type TimelineSources } from '../../server/services/account-timeline';
+import type { ProgramAccount } from '../../shared/schema';
+
+const day = (d: number) => new Date(Date.UTC(2025, 5, d, 12));
+
+function sources(overrides: Partial<TimelineSources> = {}): TimelineSources {
+  return {
+    interactions: [
+      { id: 1, tenantId: 1, accountId: 7, interactionType: 'call', source: 'rep_entered', direction: 'outbound', subject: null, body: 'Discussed PVF pricing', repEmail: 'rep@example.com', contactEmail: null, occurredAt: day(10), followUpDate: null, sentimentSignal: 'positive', flaggedForReview: false, aiAnalyzed: false, sentiment: null, urgency: null, buyingSignal: null, competitorMentioned: null, projectMentioned: null, createdAt: day(10) },
+    ],
+    emails: [],
+    tasks: [
+      { id: 3, tenantId: 1, accountId: 7, playbookId: 2, assignedTm: 'Sam', assignedTmId: null, taskType: 'email', title: 'Send quote', description: null, script: null, gapCategories: [], status: 'completed', dueDate: null, completedAt: day(12), outcome: 'Quote accepted', createdAt: day(1) },
+      { id: 4, tenantId: 1, accountId: 7, playbookId: 2, assignedTm: 'Sam', assignedTmId: null, taskType: 'call', title: 'Follow up', description: null, script: null, gapCategories: [], status: 'pending', dueDate: null, completedAt: null, outcome: null, createdAt: day(1) },
+    ],
+    orders: [
+      { id: 5, tenantId: 1, externalId: 'SO-100', accountId: 7, orderDate: day(12), totalAmount: '1250.50', marginAmount: '300' },
+      { id: 6, tenantId: 1, externalId: null, accountId: 7, orderDate: day(2), totalAmount: '80', marginAmount: null },
+    ],
+    flags: [],
+    programAccounts: [],
+    enrollmentEvents: [],
+    ...overrides,
+  };
+}
+
+describe('buildAccountTimeline', () => {
+  it('merges sources newest first and skips tasks that are not completed', () => {
+    const events = buildAccountTimeline(sources());
+
+    expect(events.map(e => e.id)).toEqual(['order-5', 'task-3', 'interaction-1', 'order-6']);
+  });
+
+  it('maps order totals and interaction titles', () => {
+    const events = buildAccountTimeline(sources());
+
+    expect(events.find(e => e.id === 'order-5')).toMatchObject({ title: 'Order SO-100', amount: 1250.5 });
+    expect(events.find(e => e.id === 'interaction-1')).toMatchObject({ title: 'Call', detail: 'Discussed PVF pricing' });
+  });
+
+  it('filters by type and pages with a before cursor', () => {
+    expect(buildAccountTimeline(sources(), { types: ['order'] }).map(e => e.id)).toEqual(['order-5', 'order-6']);
+    expect(buildAccountTimeline(sources(), { before: { occurredAt: day(12) }, limit: 1 }).map(e => e.id)).toEqual(['interaction-1']);
+  });
+
+  it('resumes between events that share a timestamp', () => {
+    const first = buildAccountTimeline(sources(), { limit: 1 });
+    const next = buildAccountTimeline(sources(), { before: first[0], limit: 2 });
+
+    expect(first.map(e => e.id)).toEqual(['order-5']);
+    expect(next.map(e => e.id)).toEqual(['task-3', 'interaction-1']);
+  });
+
+  it('lists enrollment history, falling back to enrollment dates for older enrollments', () => {
+    const enrollment = (id: number, enrolledAt: Date, graduatedAt: Date | null) => ({
+      id, tenantId: 1, accountId: 7, enrolledAt, enrolledBy: null, baselineStart: day(1), baselineEnd: day(1),
+      baselineRevenue: '120000', baselineMethod: 'trailing_12', baselineMonthly: null, baselineCategories: null,
+      shareRate: '0.15', status: graduatedAt ? 'graduated' : 'active', previousProgramAccountId: graduatedAt ? null : 8,
+      withdrawnAt: null, notes: null, targetPenetration: null, targetIncrementalRevenue: null, targetDurationMonths: null,
+      graduationCriteria: 'any', graduatedAt, graduationNotes: null, graduationRevenue: null, graduationPenetration: null,
+      icpCategoriesAtEnrollment: null, icpCategoriesAchieved: null, enrollmentDurationDays: null, incrementalRevenue: '5000',
+    }) as ProgramAccount;
+    const historyEvent = (id: number, event: string, occurredAt: Date, reasonCode: string | null = null) => ({
+      id, tenantId: 1, programAccountId: 9, accountId: 7, event, fromStatus: null, toStatus: 'active',
+      reasonCode, notes: null, actor: 'admin@example.com', occurredAt,
+    });
+
+    const events = buildAccountTimeline(sources({
+      programAccounts: [enrollment(8, day(1), day(3)), enrollment(9, day(4), null)],
+      enrollmentEvents: [historyEvent(20, 're_enrolled', day(4)), historyEvent(21, 'paused', day(5), 'credit_hold')],
+    }), { types: ['enrollment'] });
+
+    expect(events.map(e => [e.id, e.title])).toEqual([
+      ['enrollment-event-21', 'Program enrollment paused'],
+      ['enrollment-event-20', 'Re-enrolled in growth program'],
+      ['graduation-8', 'Graduated from growth program'],
+      ['enrollment-8', 'Enrolled in growth program'],
+    ]);
+    expect(events[0].meta).toMatchObject({ reasonCode: 'credit_hold', actor: 'admin@example.com' });
+    expect(events[1].amount).toBe(120000);
+  });
+});
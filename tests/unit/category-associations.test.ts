@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import { mineAssociationRules, recommendNextCategories, type CategoryPurchase } from '../../server/services/category-associations';
+
+const WATER_HEATERS = 1;
+const VENTING = 2;
+const FITTINGS = 3;
+
+const day = (d: number) => new Date(Date.UTC(2025, 0, 1) + d * 24 * 60 * 60 * 1000);
+
+function purchases(): CategoryPurchase[] {
+  const rows: CategoryPurchase[] = [];
+  // Accounts 1-4 buy water heaters, then venting 20 days later
+  for (const accountId of [1, 2, 3, 4]) {
+    rows.push({ accountId, categoryId: WATER_HEATERS, orderDate: day(0) });
+    rows.push({ accountId, categoryId: VENTING, orderDate: day(20) });
+  }
+  // Account 5 buys venting 200 days after water heaters: outside the window
+  rows.push({ accountId: 5, categoryId: WATER_HEATERS, orderDate: day(0) });
+  rows.push({ accountId: 5, categoryId: VENTING, orderDate: day(200) });
+  // Accounts 6-10 only buy fittings
+  for (const accountId of [6, 7, 8, 9, 10]) {
+    rows.push({ accountId, categoryId: FITTINGS, orderDate: day(5) });
+  }
+  return rows;
+}
+
+describe('mineAssociationRules', () => {
+  it('counts accounts that buy the consequent within the window', () => {
+    const rules = mineAssociationRules(purchases(), { windowDays: 60 });
+    const rule = rules.find(r => r.antecedentCategoryId === WATER_HEATERS && r.consequentCategoryId === VENTING)!;
+
+    expect(rule).toMatchObject({ antecedentAccounts: 5, consequentAccounts: 5, pairAccounts: 4, totalAccounts: 10 });
+    expect(rule.confidence).toBeCloseTo(0.8);
+    expect(rule.lift).toBeCloseTo(1.6);
+    expect(rule.support).toBeCloseTo(0.4);
+  });
+
+  it('ignores purchases of the consequent before the antecedent', () => {
+    const rules = mineAssociationRules(purchases(), { windowDays: 60 });
+
+    expect(rules.find(r => r.antecedentCategoryId === VENTING && r.consequentCategoryId === WATER_HEATERS)).toBeUndefined();
+  });
+
+  it('drops rules with too few supporting accounts', () => {
+    expect(mineAssociationRules(purchases(), { windowDays: 60, minPairAccounts: 5 })).toEqual([]);
+  });
+});
+
+describe('recommendNextCategories', () => {
+  const rules = mineAssociationRules(purchases(), { windowDays: 60 });
+
+  it('suggests categories the account does not buy yet', () => {
+    expect(recommendNextCategories(new Set([WATER_HEATERS]), rules).map(r => r.consequentCategoryId)).toEqual([VENTING]);
+  });
+
+  it('suggests nothing once the account already buys the consequent', () => {
+    expect(recommendNextCategories(new Set([WATER_HEATERS, VENTING]), rules)).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import { rollupAccountCategorySpend, classifyCategoryTrend, type AccountCategoryInput } from '../../server/services/category-spend-rollup';
+
+const PVF = 1;
+const WATER_HEATERS = 2;
+const TOOLS = 3;
+
+const asOf = new Date(Date.UTC(2025, 5, 15));
+
+function input(): AccountCategoryInput {
+  const monthlySpend = new Map<string, Map<number, number>>();
+  // PVF: $1,000 a month for the 12 complete months before asOf
+  for (let m = 1; m <= 12; m++) {
+    const month = new Date(Date.UTC(2025, 5 - m, 1)).toISOString().slice(0, 7);
+    monthlySpend.set(month, new Map([[PVF, 1000]]));
+  }
+  // Tools: last bought 18 months ago
+  monthlySpend.set('2023-12', new Map([[TOOLS, 500]]));
+  return {
+    accountId: 7,
+    revenue12m: 40000,
+    icpExpectedPct: new Map([[PVF, 50], [WATER_HEATERS, 25]]),
+    monthlySpend,
+    lastOrderDates: new Map([[PVF, new Date(Date.UTC(2025, 5, 5))], [TOOLS, new Date(Date.UTC(2023, 11, 10))]]),
+  };
+}
+
+describe('rollupAccountCategorySpend', () => {
+  it('computes current and potential spend from the ICP, largest gap first', () => {
+    const rows = rollupAccountCategorySpend(input(), asOf);
+
+    expect(rows.map(r => r.categoryId)).toEqual([WATER_HEATERS, PVF, TOOLS]);
+    expect(rows[0]).toMatchObject({ currentSpend: 0, potentialSpend: 10000, gapDollars: 10000, gapPercentage: 100, trend: 'new_gap' });
+    expect(rows[1]).toMatchObject({ currentSpend: 12000, potentialSpend: 20000, gapDollars: 8000, gapPercentage: 40, trend: 'stable', daysSinceOrder: 10 });
+  });
+
+  it('keeps purchased categories outside the ICP without a potential', () => {
+    const tools = rollupAccountCategorySpend(input(), asOf).find(r => r.categoryId === TOOLS)!;
+
+    expect(tools).toMatchObject({ currentSpend: 0, potentialSpend: null, gapDollars: null, trend: 'new_gap' });
+  });
+
+  it('counts spend across the subtree of a parent category in the ICP', () => {
+    const PLUMBING = 9;
+    const rows = rollupAccountCategorySpend({
+      ...input(),
+      icpExpectedPct: new Map([[PLUMBING, 50]]),
+      coveredCategoryIds: new Map([[PLUMBING, [PLUMBING, PVF, WATER_HEATERS]]]),
+    }, asOf);
+    const plumbing = rows.find(r => r.categoryId === PLUMBING)!;
+
+    expect(plumbing).toMatchObject({ currentSpend: 12000, potentialSpend: 20000, gapDollars: 8000, daysSinceOrder: 10 });
+    expect(rows.find(r => r.categoryId === PVF)).toMatchObject({ currentSpend: 12000, potentialSpend: null });
+  });
+
+  it('records the last 12 months of spend, oldest first', () => {
+    const pvf = rollupAccountCategorySpend(input(), asOf).find(r => r.categoryId === PVF)!;
+
+    expect(pvf.monthlySpendHistory).toHaveLength(12);
+    expect(pvf.monthlySpendHistory[0]).toEqual({ month: '2024-06', spend: 1000 });
+    expect(pvf.monthlySpendHistory[11]).toEqual({ month: '2025-05', spend: 1000 });
+  });
+
+  it('leaves the partial current month out of spend and trend', () => {
+    const partial = input();
+    partial.monthlySpend.set('2025-06', new Map([[PVF, 300]]));
+    const pvf = rollupAccountCategorySpend(partial, asOf).find(r => r.categoryId === PVF)!;
+
+    expect(pvf).toMatchObject({ currentSpend: 12000, trend: 'stable' });
+    expect(pvf.monthlySpendHistory.map(p => p.month)).not.toContain('2025-06');
+  });
+});
+
+describe('classifyCategoryTrend', () => {
+  it('compares the last 6 months with the 6 before', () => {
+    expect(classifyCategoryTrend(1300, 1000, 2300)).toBe('growing');
+    expect(classifyCategoryTrend(700, 1000, 1700)).toBe('declining');
+    expect(classifyCategoryTrend(1100, 1000, 2100)).toBe('stable');
+    expect(classifyCategoryTrend(500, 0, 500)).toBe('growing');
+    expect(classifyCategoryTrend(0, 0, 0)).toBe('new_gap');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import { buildTaxonomy, canMoveCategory, buildGapTree } from '../../server/services/category-taxonomy';
+
+// Plumbing (1) › Valves (2) › Ball Valves (3); Plumbing › Fittings (4); HVAC (5)
+const categories = [
+  { id: 1, name: 'Plumbing', parentId: null },
+  { id: 2, name: 'Valves', parentId: 1 },
+  { id: 3, name: 'Ball Valves', parentId: 2 },
+  { id: 4, name: 'Fittings', parentId: 1 },
+  { id: 5, name: 'HVAC', parentId: null },
+];
+const names = new Map(categories.map(c => [c.id, c.name]));
+
+describe('buildTaxonomy', () => {
+  it('resolves subtrees, ancestors and paths', () => {
+    const taxonomy = buildTaxonomy(categories);
+
+    expect(taxonomy.subtree(1)).toEqual([1, 2, 3, 4]);
+    expect(taxonomy.ancestors(3)).toEqual([2, 1]);
+    expect(taxonomy.depth(3)).toBe(2);
+    expect(taxonomy.path(3)).toBe('Plumbing › Valves › Ball Valves');
+    expect(taxonomy.subtree(5)).toEqual([5]);
+  });
+
+  it('treats a missing parent or a loop as the top of the tree', () => {
+    const taxonomy = buildTaxonomy([
+      { id: 7, name: 'Orphan', parentId: 99 },
+      { id: 8, name: 'A', parentId: 9 },
+      { id: 9, name: 'B', parentId: 8 },
+    ]);
+
+    expect(taxonomy.parentOf(7)).toBeNull();
+    expect(taxonomy.parentOf(8)).toBeNull();
+    expect(taxonomy.parentOf(9)).toBe(8);
+    expect(taxonomy.subtree(8)).toEqual([8, 9]);
+  });
+});
+
+describe('canMoveCategory', () => {
+  it('refuses moves under the category itself or its descendants', () => {
+    const taxonomy = buildTaxonomy(categories);
+
+    expect(canMoveCategory(taxonomy, 2, 5)).toBe(true);
+    expect(canMoveCategory(taxonomy, 2, null)).toBe(true);
+    expect(canMoveCategory(taxonomy, 1, 3)).toBe(false);
+    expect(canMoveCategory(taxonomy, 2, 2)).toBe(false);
+  });
+});
+
+describe('buildGapTree', () => {
+  it('rolls leaf gaps up to their ancestors, largest first', () => {
+    const tree = buildGapTree(buildTaxonomy(categories), names, [
+      { categoryId: 3, gapPct: 10, estimatedOpportunity: 5000, estimatedMarginOpportunity: 1500 },
+      { categoryId: 4, gapPct: 5, estimatedOpportunity: 2000, estimatedMarginOpportunity: null },
+      { categoryId: 5, gapPct: 20, estimatedOpportunity: 4000, estimatedMarginOpportunity: 1000 },
+    ]);
+
+    expect(tree.map(n => n.categoryId)).toEqual([1, 5]);
+    expect(tree[0]).toMatchObject({ gap: null, rolledUpOpportunity: 7000, rolledUpMarginOpportunity: 1500 });
+    expect(tree[0].children.map(n => n.categoryId)).toEqual([2, 4]);
+    expect(tree[0].children[0].children[0]).toMatchObject({ name: 'Ball Valves', depth: 2, rolledUpOpportunity: 5000 });
+  });
+
+  it("uses a directly targeted parent's own gap instead of its children's", () => {
+    const tree = buildGapTree(buildTaxonomy(categories), names, [
+      { categoryId: 1, gapPct: 30, estimatedOpportunity: 9000, estimatedMarginOpportunity: null },
+      { categoryId: 3, gapPct: 10, estimatedOpportunity: 5000, estimatedMarginOpportunity: 1500 },
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0]).toMatchObject({ categoryId: 1, rolledUpOpportunity: 9000, rolledUpMarginOpportunity: null });
+    expect(tree[0].children[0]).toMatchObject({ categoryId: 2, rolledUpOpportunity: 5000 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+vi.mock('../../server/notify-webhook', () => ({
+  notifyAtRisk: vi.fn(),
+}));
+
+import {
+  trainChurnModel,
+  scoreChurn,
+  rocAuc,
+  categoryMixDrift,
+  buildTrainingExamples,
+  DEFAULT_CHURN_MODEL,
+  type ChurnExample,
+  type ChurnFeatures,
+  type ChurnSnapshot,
+} from '../../server/services/churn-model';
+
+const BASE_FEATURES: ChurnFeatures = {
+  recencyScore: 60,
+  frequencyScore: 50,
+  monetaryScore: 50,
+  mixScore: 50,
+  daysSinceLastOrder: 20,
+  categoryMixDrift: 0.1,
+  competitorMentions90d: 0,
+  negativeSentiment90d: 0,
+};
+
+// Accounts silent for longer churn more often
+function examples(): ChurnExample[] {
+  const rows: ChurnExample[] = [];
+  for (let i = 0; i < 100; i++) {
+    const days = i * 2;
+    rows.push({
+      features: { ...BASE_FEATURES, daysSinceLastOrder: days, recencyScore: Math.max(5, 100 - days), mixScore: (i * 37) % 100 },
+      churned: days > 120 || (days > 80 && i % 3 === 0),
+    });
+  }
+  return rows;
+}
+
+function snapshot(month: string, last3mRevenue: number): ChurnSnapshot {
+  return { accountId: 1, month, recencyScore: 50, frequencyScore: 50, monetaryScore: 50, mixScore: 50, daysSinceLastOrder: 10, last12mRevenue: 12000, last3mRevenue };
+}
+
+describe('trainChurnModel', () => {
+  it('learns that long silences raise risk, deterministically', () => {
+    const model = trainChurnModel(examples());
+
+    expect(model.source).toBe('trained');
+    expect(model.coefficients.find(c => c.feature === 'daysSinceLastOrder')!.weight).toBeGreaterThan(0);
+    expect(model.trainingAuc).toBeGreaterThan(0.9);
+    expect(trainChurnModel(examples())).toEqual(model);
+  });
+
+  it('keeps the default model when history is too thin', () => {
+    expect(trainChurnModel(examples().slice(0, 10))).toMatchObject({ source: 'default', intercept: DEFAULT_CHURN_MODEL.intercept, trainingExamples: 10 });
+  });
+});
+
+describe('scoreChurn', () => {
+  it('explains a high score with its largest contributing factors', () => {
+    const score = scoreChurn(DEFAULT_CHURN_MODEL, { ...BASE_FEATURES, daysSinceLastOrder: 180, recencyScore: 5, competitorMentions90d: 3 });
+
+    expect(score.riskLevel).toBe('critical');
+    expect(score.drivers.map(d => d.label)).toEqual([
+      'No order in 180 days',
+      '3 competitor mentions in the last 90 days',
+      'Recency score 5/100',
+    ]);
+  });
+});
+
+describe('features and labels', () => {
+  it('measures category mix drift as total variation distance', () => {
+    expect(categoryMixDrift(new Map([[1, 50], [2, 50]]), new Map([[1, 100]]))).toBeCloseTo(0.5);
+    expect(categoryMixDrift(new Map(), new Map([[1, 100]]))).toBe(0);
+  });
+
+  it('labels months whose next 3 months collapsed and skips unfinished outcome windows', () => {
+    const snapshots = [
+      snapshot('2025-01', 3000),
+      snapshot('2025-02', 3000),
+      snapshot('2025-03', 3000),
+      snapshot('2025-04', 3000),
+      snapshot('2025-05', 100),
+    ];
+
+    expect(buildTrainingExamples(snapshots, new Map(), new Map(), '2025-06').map(e => e.churned)).toEqual([false, true]);
+  });
+
+  it('computes ROC AUC with ties', () => {
+    expect(rocAuc([0.1, 0.4, 0.35, 0.8], [false, true, false, true])).toBe(1);
+    expect(rocAuc([1, 1], [true, false])).toBe(0.5);
+    expect(rocAuc([1, 2], [true, true])).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import {
+  planCrmActions,
+  pushCrmPayload,
+  createCrmConnector,
+  resolveFieldMapping,
+  SALESFORCE_API_VERSION,
+} from '../../server/services/crm-connectors';
+import type { CrmAtRiskPayload, CrmOutcomePayload } from '../../server/services/crm-sync-push';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: any;
+}
+
+// Local stand-in for the Salesforce / HubSpot REST APIs
+let server: http.Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+let nextId = 1;
+let queryRecords: object[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      requests.push({
+        method: req.method!,
+        url: req.url!,
+        authorization: req.headers.authorization,
+        body: raw ? JSON.parse(raw) : null,
+      });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.method === 'PATCH') {
+        res.statusCode = 204;
+        return res.end();
+      }
+      if (req.url!.includes('/query?')) {
+        return res.end(JSON.stringify({ records: queryRecords, done: true }));
+      }
+      if (req.url!.endsWith('/companies/search')) {
+        return res.end(JSON.stringify({ results: [] }));
+      }
+      res.statusCode = 201;
+      res.end(JSON.stringify({ id: `obj-${nextId++}` }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  queryRecords = [{ Id: '001ABC' }];
+});
+
+const atRisk: CrmAtRiskPayload = {
+  event: 'at_risk',
+  account_id: 7,
+  account_name: 'Metro HVAC',
+  risk_signals: ['Order frequency down 40%', 'Competitor quote mentioned'],
+  assigned_tm: 'Sarah Chen',
+  timestamp: '2025-06-01T12:00:00.000Z',
+};
+
+const outcome: CrmOutcomePayload = {
+  event: 'outcome',
+  account_id: 7,
+  playbook_id: 3,
+  action_taken: 'Quoted water heaters',
+  outcome: 'won',
+  revenue_impact: '12000',
+  timestamp: '2025-06-01T12:00:00.000Z',
+};
+
+describe('planCrmActions', () => {
+  it('maps at-risk events to status fields and an open high-priority task', () => {
+    const plan = planCrmActions(atRisk, resolveFieldMapping('salesforce', null));
+
+    expect(plan.fields).toEqual({
+      Wallet_Share_Status__c: 'at_risk',
+      Wallet_Share_Risk_Signals__c: 'Order frequency down 40%; Competitor quote mentioned',
+    });
+    expect(plan.note).toBeNull();
+    expect(plan.task).toMatchObject({ priority: 'high', completed: false, dueDate: '2025-06-03' });
+  });
+
+  it('skips field updates that are unmapped', () => {
+    const mapping = resolveFieldMapping('hubspot', { lastOutcomeField: null });
+    const plan = planCrmActions(outcome, mapping);
+
+    expect(plan.fields).toEqual({});
+    expect(plan.task).toMatchObject({ completed: true, subject: 'Playbook outcome: Quoted water heaters' });
+  });
+});
+
+describe('Salesforce connector', () => {
+  it('updates the account and creates a Task against the matched record', async () => {
+    const { connector, fieldMapping } = createCrmConnector(
+      { provider: 'salesforce', instanceUrl: baseUrl, fieldMapping: { ...resolveFieldMapping('salesforce', null), accountMatchField: 'ERP_Id__c' } },
+      async () => 'sf-token',
+    );
+
+    const crmAccountId = await pushCrmPayload(connector, fieldMapping, 'ERP-42', atRisk);
+
+    expect(crmAccountId).toBe('001ABC');
+    expect(requests.map(r => r.method)).toEqual(['GET', 'PATCH', 'POST']);
+    expect(decodeURIComponent(requests[0].url)).toContain("WHERE ERP_Id__c = 'ERP-42'");
+    expect(requests[1].url).toBe(`/services/data/${SALESFORCE_API_VERSION}/sobjects/Account/001ABC`);
+    expect(requests[2].body).toMatchObject({ WhatId: '001ABC', Priority: 'High', Status: 'Not Started' });
+    expect(requests.every(r => r.authorization === 'Bearer sf-token')).toBe(true);
+  });
+
+  it('reads opportunity fields by type and skips records without an Id', async () => {
+    queryRecords = [
+      { Id: '006A', AccountId: '001ABC', Name: 'Boiler retrofit', Amount: 48000, IsClosed: false, IsWon: false, CloseDate: '2026-03-31' },
+      { Id: '006B', AccountId: null, Name: null, Amount: 'n/a', IsClosed: true, IsWon: true, CloseDate: null },
+      { AccountId: '001ABC', Name: 'No Id' },
+    ];
+    const { connector } = createCrmConnector(
+      { provider: 'salesforce', instanceUrl: baseUrl, fieldMapping: null },
+      async () => 'sf-token',
+    );
+
+    expect(await connector.listOpportunities(null)).toEqual([
+      { crmId: '006A', crmAccountId: '001ABC', name: 'Boiler retrofit', amount: 48000, status: 'open', closeDate: '2026-03-31' },
+      { crmId: '006B', crmAccountId: null, name: 'Salesforce opportunity 006B', amount: null, status: 'won', closeDate: null },
+    ]);
+  });
+
+  it('stringifies a non-text match field', async () => {
+    queryRecords = [{ Id: '001ABC', Name: 'Metro HVAC', ERP_Number__c: 4200, Industry: null }];
+    const { connector } = createCrmConnector(
+      { provider: 'salesforce', instanceUrl: baseUrl, fieldMapping: { ...resolveFieldMapping('salesforce', null), accountMatchField: 'ERP_Number__c' } },
+      async () => 'sf-token',
+    );
+
+    expect(await connector.listAccounts()).toEqual([
+      { crmId: '001ABC', matchValue: '4200', name: 'Metro HVAC', segment: null, region: null },
+    ]);
+  });
+});
+
+describe('HubSpot connector', () => {
+  it('uses the record ID directly and associates the task with the company', async () => {
+    const { connector, fieldMapping } = createCrmConnector(
+      { provider: 'hubspot', instanceUrl: baseUrl, fieldMapping: null },
+      async () => 'hs-token',
+    );
+
+    await pushCrmPayload(connector, fieldMapping, '9001', outcome);
+
+    expect(requests.map(r => `${r.method} ${r.url}`)).toEqual([
+      'PATCH /crm/v3/objects/companies/9001',
+      'POST /crm/v3/objects/tasks',
+    ]);
+    expect(requests[0].body).toEqual({ properties: { wallet_share_last_outcome: 'won' } });
+    expect(requests[1].body.properties.hs_task_status).toBe('COMPLETED');
+    expect(requests[1].body.associations[0].to.id).toBe('9001');
+  });
+
+  it('fails when no company matches the configured field', async () => {
+    const { connector, fieldMapping } = createCrmConnector(
+      { provider: 'hubspot', instanceUrl: baseUrl, fieldMapping: { ...resolveFieldMapping('hubspot', null), accountMatchField: 'erp_id' } },
+      async () => 'hs-token',
+    );
+
+    await expect(pushCrmPayload(connector, fieldMapping, 'missing', outcome))
+      .rejects.toThrow('No hubspot account matches erp_id = missing');
+  });
+});
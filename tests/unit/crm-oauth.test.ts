@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  createCrmOAuthState,
+  verifyCrmOAuthState,
+  CRM_OAUTH_STATE_TTL_MS,
+} from '../../server/services/crm-oauth';
+
+const secret = 'test-session-secret';
+const now = Date.UTC(2025, 0, 1);
+
+describe('CRM OAuth state', () => {
+  it('round-trips the tenant and user it was signed for', () => {
+    const state = createCrmOAuthState('salesforce', { tenantId: 7, userId: 'admin-1' }, now, secret);
+
+    expect(verifyCrmOAuthState('salesforce', state, now + 1000, secret)).toEqual({ tenantId: 7, userId: 'admin-1' });
+  });
+
+  it('rejects an unsigned or tampered state', () => {
+    const forged = Buffer.from(JSON.stringify({ tenantId: 7, userId: 'x' })).toString('base64url');
+    expect(verifyCrmOAuthState('salesforce', forged, now, secret)).toBeNull();
+
+    const state = createCrmOAuthState('salesforce', { tenantId: 7, userId: 'admin-1' }, now, secret);
+    const [, signature] = state.split('.');
+    const payload = Buffer.from(JSON.stringify({
+      tenantId: 8, userId: 'admin-1', provider: 'salesforce', exp: now + CRM_OAUTH_STATE_TTL_MS,
+    })).toString('base64url');
+    expect(verifyCrmOAuthState('salesforce', `${payload}.${signature}`, now, secret)).toBeNull();
+    expect(verifyCrmOAuthState('salesforce', state, now, 'another-secret')).toBeNull();
+  });
+
+  it('rejects an expired state or one started for another provider', () => {
+    const state = createCrmOAuthState('hubspot', { tenantId: 7, userId: 'admin-1' }, now, secret);
+
+    expect(verifyCrmOAuthState('salesforce', state, now, secret)).toBeNull();
+    expect(verifyCrmOAuthState('hubspot', state, now + CRM_OAUTH_STATE_TTL_MS + 1, secret)).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import { resolveConflicts, DEFAULT_SOURCE_OF_TRUTH } from '../../server/services/crm-sync-pull';
+
+describe('resolveConflicts', () => {
+  it('writes every non-empty value for a new record', () => {
+    const updates = resolveConflicts('account', null, { name: 'Metro HVAC', segment: null, region: 'West' }, DEFAULT_SOURCE_OF_TRUTH);
+
+    expect(updates).toEqual({ name: 'Metro HVAC', region: 'West' });
+  });
+
+  it('lets the owning side win when both sides have a value', () => {
+    const current = { name: 'Metro HVAC', segment: 'HVAC', region: 'West' };
+    const incoming = { name: 'Metro HVAC Supply', segment: 'Plumbing', region: 'West' };
+
+    expect(resolveConflicts('account', current, incoming, DEFAULT_SOURCE_OF_TRUTH)).toEqual({ name: 'Metro HVAC Supply' });
+    expect(resolveConflicts('account', current, incoming, { 'account.name': 'app', 'account.segment': 'crm' }))
+      .toEqual({ segment: 'Plumbing' });
+  });
+
+  it('fills empty local values even when the app owns the field', () => {
+    const updates = resolveConflicts('account', { segment: null }, { segment: 'Plumbing' }, { 'account.segment': 'app' });
+
+    expect(updates).toEqual({ segment: 'Plumbing' });
+  });
+
+  it('never clears a local value with an empty CRM value', () => {
+    const updates = resolveConflicts('contact', { phone: '555-0100' }, { phone: null }, DEFAULT_SOURCE_OF_TRUTH);
+
+    expect(updates).toEqual({});
+  });
+
+  it('treats numerically and chronologically equal values as unchanged', () => {
+    const current = { estimatedValue: '12000.00', bidDeadline: new Date('2025-07-01T00:00:00Z') };
+    const incoming = { estimatedValue: '12000', bidDeadline: new Date('2025-07-01T00:00:00Z') };
+
+    expect(resolveConflicts('project', current, incoming, DEFAULT_SOURCE_OF_TRUTH)).toEqual({});
+  });
+});
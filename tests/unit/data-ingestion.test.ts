@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Readable } from 'stream';
+
+const { db } = vi.hoisted(() => ({
+  db: { select: vi.fn(), insert: vi.fn(), update: vi.fn(), delete: vi.fn() },
+}));
+
+vi.mock('../../server/db', () => ({ db }));
+vi.mock('../../server/services/metrics-engine', () => ({ recomputeAccountMetrics: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../../server/services/category-spend-rollup', () => ({ rollupCategorySpend: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../../server/services/category-associations', () => ({ rebuildCategoryAssociations: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../../server/services/seasonality', () => ({ recomputeSeasonality: vi.fn().mockResolvedValue(undefined) }));
+
+import { accounts } from '../../shared/schema';
+import { dedupeBatch, ingestCsvUpload } from '../../server/services/data-ingestion';
+
+/** A query builder that accepts any chain of calls and resolves to `result` */
+function query(result: unknown): any {
+  const chain: any = new Proxy({}, {
+    get: (_, prop) => prop === 'then'
+      ? (resolve: (value: unknown) => void) => resolve(result)
+      : () => chain,
+  });
+  return chain;
+}
+
+let existingAccounts: { id: number; externalId: string }[];
+let inserted: Record<string, unknown>[];
+let updates: Record<string, unknown>[];
+
+function upload(csv: string) {
+  return ingestCsvUpload(7, 1, 'accounts', Readable.from([csv]));
+}
+
+describe('ingestCsvUpload (accounts)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    existingAccounts = [{ id: 10, externalId: 'A-1' }];
+    inserted = [];
+    updates = [];
+    db.select.mockImplementation(() => ({
+      from: (table: unknown) => query(table === accounts
+        ? existingAccounts.map(a => ({ id: a.id, key: a.externalId, externalId: a.externalId }))
+        : []),
+    }));
+    db.insert.mockImplementation((table: unknown) => ({
+      values: (rows: Record<string, unknown>[]) => {
+        if (table === accounts) inserted.push(...rows);
+        return query(undefined);
+      },
+    }));
+    db.update.mockImplementation((table: unknown) => ({
+      set: (values: Record<string, unknown>) => {
+        if (table === accounts) updates.push(values);
+        return query([]);
+      },
+    }));
+  });
+
+  it('updates accounts whose id already exists and inserts the rest', async () => {
+    const result = await upload('id,name\nA-1,Metro HVAC Supply\nA-2,Gulf Plumbing\n');
+
+    expect(result).toEqual({ rowCount: 2, rejectedCount: 0, inserted: 1, updated: 1 });
+    expect(inserted).toEqual([expect.objectContaining({ externalId: 'A-2', name: 'Gulf Plumbing', tenantId: 7 })]);
+    expect(updates).toEqual([expect.objectContaining({ externalId: 'A-1', name: 'Metro HVAC Supply' })]);
+  });
+
+  it('keeps the last row when a new id appears twice in the file', async () => {
+    const result = await upload('id,name\nA-2,Gulf Plumbing\nA-3,Coastal Supply\nA-2,Gulf Plumbing & Heating\n');
+
+    expect(result).toMatchObject({ inserted: 2, updated: 0 });
+    expect(inserted.map(r => [r.externalId, r.name])).toEqual([
+      ['A-2', 'Gulf Plumbing & Heating'],
+      ['A-3', 'Coastal Supply'],
+    ]);
+  });
+
+  it('updates an existing account once with the last row for its id', async () => {
+    const result = await upload('id,name\nA-1,Metro HVAC\nA-1,Metro HVAC Supply\n');
+
+    expect(result).toMatchObject({ inserted: 0, updated: 1 });
+    expect(updates).toEqual([expect.objectContaining({ externalId: 'A-1', name: 'Metro HVAC Supply' })]);
+  });
+});
+
+describe('dedupeBatch', () => {
+  it('matches products on SKU and leaves order lines alone', () => {
+    const products = [{ sku: 'P-1', name: 'Valve' }, { sku: 'P-1', name: 'Ball valve' }];
+    const lines = [{ orderId: 1, productId: 2 }, { orderId: 1, productId: 2 }];
+
+    expect(dedupeBatch('products', products)).toEqual([{ sku: 'P-1', name: 'Ball valve' }]);
+    expect(dedupeBatch('order_items', lines)).toBe(lines);
+  });
+});
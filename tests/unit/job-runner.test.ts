@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {},
+  pool: {}
+}));
+
+import { getLocalClock, getNextDailyRun, isDailyJobDue } from '../../server/services/job-runner';
+
+// Wednesday 2025-06-04, 11:05 UTC = 07:05 in New York (EDT), 04:05 in Los Angeles (PDT)
+const wednesday = new Date('2025-06-04T11:05:00Z');
+
+describe('getLocalClock', () => {
+  it('reads the weekday and time in the tenant timezone', () => {
+    expect(getLocalClock(wednesday, 'America/New_York')).toEqual({ weekday: 3, minutes: 7 * 60 + 5 });
+    expect(getLocalClock(wednesday, 'America/Los_Angeles')).toEqual({ weekday: 3, minutes: 4 * 60 + 5 });
+  });
+
+  it('falls back to New York for unknown zones', () => {
+    expect(getLocalClock(wednesday, 'Mars/Olympus_Mons')).toEqual(getLocalClock(wednesday, 'America/New_York'));
+  });
+});
+
+describe('isDailyJobDue', () => {
+  it('is due once the local briefing time has passed', () => {
+    expect(isDailyJobDue(wednesday, 'America/New_York', '07:00')).toBe(true);
+    expect(isDailyJobDue(wednesday, 'America/Los_Angeles', '07:00')).toBe(false);
+  });
+
+  it('applies the offset', () => {
+    expect(isDailyJobDue(wednesday, 'America/New_York', '07:00', { offsetMinutes: 30 })).toBe(false);
+  });
+
+  it('stops catching up after the window closes', () => {
+    const afternoon = new Date('2025-06-04T17:00:00Z');
+
+    expect(isDailyJobDue(afternoon, 'America/New_York', '07:00')).toBe(false);
+    expect(isDailyJobDue(afternoon, 'America/New_York', '07:00', { catchUpMinutes: 12 * 60 })).toBe(true);
+  });
+
+  it('never runs on local weekends', () => {
+    // Saturday 07:05 in New York
+    expect(isDailyJobDue(new Date('2025-06-07T11:05:00Z'), 'America/New_York', '07:00')).toBe(false);
+  });
+});
+
+describe('getNextDailyRun', () => {
+  it('returns the next weekday tick at or after the local briefing time', () => {
+    expect(getNextDailyRun(wednesday, 'America/New_York', '07:00')).toEqual(new Date('2025-06-05T11:00:00Z'));
+  });
+
+  it('skips the weekend and rounds up to the next 15-minute tick', () => {
+    // Friday noon in New York; 07:10 + 30 min offset runs on the 07:45 tick
+    const friday = new Date('2025-06-06T16:00:00Z');
+
+    expect(getNextDailyRun(friday, 'America/New_York', '07:10', { offsetMinutes: 30 })).toEqual(new Date('2025-06-09T11:45:00Z'));
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  computeMarginBenchmarks,
+  buildMarginRateLookup,
+  type MarginSample,
+} from '../../server/services/margin-benchmarks';
+
+const PVF = 1;
+const TOOLS = 2;
+const CONTROLS = 3;
+
+function item(accountId: number, segment: string, categoryId: number, revenue: number, margin: number): MarginSample {
+  return { accountId, segment, categoryId, revenue, margin };
+}
+
+// Three HVAC accounts buy PVF at 30%; one plumbing account buys PVF at 20% and tools at 40%
+const itemSamples = [
+  item(1, 'HVAC', PVF, 10000, 3000),
+  item(2, 'HVAC', PVF, 20000, 6000),
+  item(3, 'hvac', PVF, 10000, 3000),
+  item(4, 'Plumbing', PVF, 10000, 2000),
+  item(4, 'Plumbing', TOOLS, 5000, 2000),
+];
+const orderSamples: MarginSample[] = [
+  { accountId: 5, segment: 'Plumbing', categoryId: null, revenue: 50000, margin: 12500 },
+];
+
+describe('computeMarginBenchmarks', () => {
+  it('needs three accounts for a segment benchmark', () => {
+    const benchmarks = computeMarginBenchmarks(itemSamples, orderSamples, []);
+
+    expect(benchmarks.filter(b => b.source === 'item_cost' && b.segment !== null)).toEqual([
+      { segment: 'HVAC', categoryId: PVF, marginRate: 0.3, revenueBasis: 40000, accountCount: 3, source: 'item_cost' },
+    ]);
+    expect(benchmarks.find(b => b.source === 'item_cost' && b.segment === null && b.categoryId === PVF)!.marginRate).toBe(0.28);
+  });
+});
+
+describe('buildMarginRateLookup', () => {
+  const lookup = buildMarginRateLookup(computeMarginBenchmarks(
+    itemSamples,
+    orderSamples,
+    [{ categoryId: CONTROLS, unitPrice: 100, unitCost: 65 }, { categoryId: CONTROLS, unitPrice: 50, unitCost: 30 }],
+  ));
+
+  it('prefers the segment rate, then the tenant category rate', () => {
+    expect(lookup('hvac', PVF)).toMatchObject({ marginRate: 0.3, segment: 'HVAC' });
+    expect(lookup('Plumbing', PVF)).toMatchObject({ marginRate: 0.28, segment: null });
+    expect(lookup('Plumbing', TOOLS)).toMatchObject({ marginRate: 0.4, source: 'item_cost' });
+  });
+
+  it('falls back to list prices, then order margin', () => {
+    expect(lookup('HVAC', CONTROLS)).toMatchObject({ marginRate: 0.375, source: 'list_price' });
+    expect(lookup('HVAC', 99)).toMatchObject({ marginRate: 0.25, source: 'order_margin', segment: null });
+  });
+
+  it('returns null without any cost data', () => {
+    expect(buildMarginRateLookup([])('HVAC', PVF)).toBeNull();
+  });
+});
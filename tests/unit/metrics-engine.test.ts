@@ -0,0 +1,249 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  recencyScore,
+  matchProfile,
+  computeAccountMetrics,
+  scoreOpportunities,
+  compareRankings,
+  rollupOrderStats,
+  snapshotMonths,
+  type AccountOrderStats,
+  type IcpProfile,
+} from '../../server/services/metrics-engine';
+
+const asOf = new Date('2025-06-30T00:00:00Z');
+
+function createStats(overrides: Partial<AccountOrderStats> = {}): AccountOrderStats {
+  return {
+    accountId: 1,
+    segment: 'HVAC',
+    subSegment: null,
+    revenue12m: 100000,
+    revenue3m: 25000,
+    revenuePrior12m: 80000,
+    orderCount12m: 30,
+    lastOrderDate: new Date('2025-06-20T00:00:00Z'),
+    categorySpend: new Map([[10, 60000], [11, 40000]]),
+    totalLineSpend: 100000,
+    ...overrides,
+  };
+}
+
+const hvacProfile: IcpProfile = {
+  id: 5,
+  segment: 'HVAC',
+  subSegment: null,
+  categories: [
+    { categoryId: 10, expectedPct: 50, importance: 1 },
+    { categoryId: 11, expectedPct: 30, importance: 1 },
+    { categoryId: 12, expectedPct: 20, importance: 1 },
+  ],
+};
+
+describe('recencyScore', () => {
+  it('steps down as the last order ages', () => {
+    expect(recencyScore(3)).toBe(100);
+    expect(recencyScore(14)).toBe(85);
+    expect(recencyScore(45)).toBe(40);
+    expect(recencyScore(400)).toBe(5);
+  });
+
+  it('returns 0 for accounts that have never ordered', () => {
+    expect(recencyScore(null)).toBe(0);
+  });
+});
+
+describe('matchProfile', () => {
+  const subSegmentProfile: IcpProfile = { ...hvacProfile, id: 6, subSegment: 'builder' };
+
+  it('prefers an exact sub-segment match', () => {
+    const match = matchProfile({ segment: 'hvac', subSegment: 'builder' }, [hvacProfile, subSegmentProfile]);
+    expect(match?.id).toBe(6);
+  });
+
+  it('falls back to the segment-wide profile', () => {
+    const match = matchProfile({ segment: 'HVAC', subSegment: 'other' }, [subSegmentProfile, hvacProfile]);
+    expect(match?.id).toBe(5);
+  });
+
+  it('returns null when no profile covers the segment', () => {
+    expect(matchProfile({ segment: 'Plumbing', subSegment: null }, [hvacProfile])).toBeNull();
+  });
+});
+
+describe('computeAccountMetrics', () => {
+  it('computes gaps against expected category percentages', () => {
+    const result = computeAccountMetrics(createStats(), hvacProfile, 20, asOf);
+
+    expect(result.gaps).toHaveLength(1);
+    expect(result.gaps[0]).toMatchObject({
+      categoryId: 12,
+      expectedPct: '20.00',
+      actualPct: '0.00',
+      gapPct: '20.00',
+      estimatedOpportunity: '20000.00',
+    });
+    expect(result.metrics.matchedProfileId).toBe(5);
+    expect(result.metrics.categoryPenetration).toBe('66.67');
+    expect(result.metrics.yoyGrowthRate).toBe('25.00');
+    expect(result.metrics.daysSinceLastOrder).toBe(10);
+    expect(result.metrics.recencyScore).toBe('85');
+  });
+
+  it('sizes gaps in margin dollars when a margin rate is known', () => {
+    const result = computeAccountMetrics(createStats(), hvacProfile, 20, asOf, categoryId => (categoryId === 12 ? 0.35 : null));
+
+    expect(result.gaps[0]).toMatchObject({ marginRate: '0.3500', estimatedMarginOpportunity: '7000.00' });
+    expect(result.estimatedMarginOpportunity).toBe(7000);
+    expect(computeAccountMetrics(createStats(), hvacProfile, 20, asOf).estimatedMarginOpportunity).toBeNull();
+  });
+
+  it('counts spend across the subtree of a parent category target', () => {
+    const parentProfile: IcpProfile = {
+      ...hvacProfile,
+      categories: [{ categoryId: 1, expectedPct: 80, importance: 1, coveredCategoryIds: [1, 10, 11] }],
+    };
+    const stats = createStats({ categorySpend: new Map([[10, 30000], [11, 20000]]) });
+
+    const result = computeAccountMetrics(stats, parentProfile, 20, asOf);
+
+    expect(result.gaps).toHaveLength(1);
+    expect(result.gaps[0]).toMatchObject({ categoryId: 1, actualPct: '50.00', gapPct: '30.00' });
+    expect(result.metrics.categoryPenetration).toBe('100.00');
+  });
+
+  it('uses catalog breadth for penetration when no ICP matches', () => {
+    const result = computeAccountMetrics(createStats(), null, 20, asOf);
+
+    expect(result.gaps).toHaveLength(0);
+    expect(result.metrics.matchedProfileId).toBeNull();
+    expect(result.metrics.categoryPenetration).toBe('10.00');
+  });
+});
+
+describe('rollupOrderStats', () => {
+  it('combines a parent and its branches under the parent', () => {
+    const family = rollupOrderStats([
+      createStats({ marginPct12m: 30, creditLimit: 50000, creditUsage: 10000 }),
+      createStats({
+        accountId: 2,
+        segment: 'Plumbing',
+        revenue12m: 50000,
+        lastOrderDate: new Date('2025-06-25T00:00:00Z'),
+        categorySpend: new Map([[11, 20000], [12, 30000]]),
+        totalLineSpend: 50000,
+        marginPct12m: 15,
+        creditLimit: null,
+        competitorThreat: 3,
+      }),
+    ]);
+
+    expect(family).toMatchObject({ accountId: 1, segment: 'HVAC', revenue12m: 150000, orderCount12m: 60, totalLineSpend: 150000, creditLimit: 50000, competitorThreat: 3 });
+    expect(family.lastOrderDate).toEqual(new Date('2025-06-25T00:00:00Z'));
+    expect(Array.from(family.categorySpend.entries())).toEqual([[10, 60000], [11, 60000], [12, 30000]]);
+    expect(family.marginPct12m).toBe(25);
+  });
+});
+
+describe('scoreOpportunities', () => {
+  it('weights gap size, revenue potential and category count', () => {
+    const big = computeAccountMetrics(createStats(), hvacProfile, 20, asOf);
+    const small = computeAccountMetrics(
+      createStats({ accountId: 2, revenue12m: 50000 }),
+      hvacProfile,
+      20,
+      asOf,
+    );
+
+    const [bigScored, smallScored] = scoreOpportunities([big, small], {
+      gapSizeWeight: 40,
+      revenuePotentialWeight: 30,
+      categoryCountWeight: 30,
+    });
+
+    // gap 20% of expected, full revenue potential, 1 of 3 categories missing
+    expect(bigScored.opportunityScore).toBe('48.00');
+    expect(smallScored.opportunityScore).toBe('33.00');
+  });
+
+  it('applies a scoring model over any factors', () => {
+    const roomy = computeAccountMetrics(
+      createStats({ creditLimit: 10000, creditUsage: 2500, marginPct12m: 30, competitorThreat: 2 }),
+      hvacProfile,
+      20,
+      asOf,
+    );
+    const tight = computeAccountMetrics(
+      createStats({ accountId: 2, creditLimit: 10000, creditUsage: 10000, marginPct12m: 15, competitorThreat: 6 }),
+      hvacProfile,
+      20,
+      asOf,
+    );
+
+    const [roomyScored, tightScored] = scoreOpportunities([roomy, tight], [
+      { factor: 'credit_headroom', weight: 50 },
+      { factor: 'margin', weight: 25 },
+      { factor: 'competitor_threat', weight: 25 },
+    ]);
+
+    // headroom 75 / margin 100 (tenant best) / threat 33.33 vs 0 / 50 / 100
+    expect(roomyScored.opportunityScore).toBe('70.83');
+    expect(tightScored.opportunityScore).toBe('37.50');
+  });
+});
+
+describe('compareRankings', () => {
+  it('reports entries, exits and moves within the top N', () => {
+    const current = [
+      { accountId: 1, score: 90 },
+      { accountId: 2, score: 80 },
+      { accountId: 3, score: 70 },
+      { accountId: 4, score: 60 },
+    ];
+    const candidate = [
+      { accountId: 1, score: 50 },
+      { accountId: 2, score: 95 },
+      { accountId: 3, score: 10 },
+      { accountId: 4, score: 85 },
+    ];
+
+    const preview = compareRankings(current, candidate, 3);
+
+    expect(preview.rows.map(r => [r.accountId, r.currentRank, r.candidateRank])).toEqual([
+      [2, 2, 1],
+      [4, null, 2],
+      [1, 1, 3],
+      [3, 3, null],
+    ]);
+    expect(preview).toMatchObject({ topN: 3, entered: 1, exited: 1, moved: 2 });
+  });
+});
+
+describe('snapshotMonths', () => {
+  const iso = (months: { month: Date; asOf: Date }[]) =>
+    months.map(m => [m.month.toISOString().slice(0, 10), m.asOf.toISOString()]);
+
+  it('stores the current month as of now and completed months as of the next month\'s first instant', () => {
+    expect(iso(snapshotMonths(new Date('2026-01-31T23:30:00Z'), 2))).toEqual([
+      ['2026-01-01', '2026-01-31T23:30:00.000Z'],
+      ['2025-12-01', '2026-01-01T00:00:00.000Z'],
+      ['2025-11-01', '2025-12-01T00:00:00.000Z'],
+    ]);
+  });
+
+  it('treats the first instant of a month as the start of a new, empty current month', () => {
+    expect(iso(snapshotMonths(new Date('2026-03-01T00:00:00Z'), 1))).toEqual([
+      ['2026-03-01', '2026-03-01T00:00:00.000Z'],
+      ['2026-02-01', '2026-03-01T00:00:00.000Z'],
+    ]);
+  });
+
+  it('returns only the current month without a backfill', () => {
+    expect(snapshotMonths(new Date('2026-03-15T12:00:00Z'), 0)).toHaveLength(1);
+  });
+});
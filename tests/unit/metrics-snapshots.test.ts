@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// A real drizzle instance over a client that records each statement. It answers
+// the category count, one account and that account's orders; everything else is empty.
+const { queries } = vi.hoisted(() => ({ queries: [] as { text: string; params: unknown[] }[] }));
+
+vi.mock('../../server/db', async () => {
+  const { drizzle } = await import('drizzle-orm/node-postgres');
+  const respond = (text: string): unknown[] => {
+    if (text.startsWith('select count(*)::int from "product_categories"')) return [[3]];
+    if (text.startsWith('select "id", "segment", "sub_segment", "credit_limit", "credit_usage" from "accounts"')) {
+      return [[42, 'HVAC', null, null, null]];
+    }
+    if (text.includes('AS "revenue12m"')) {
+      return [{
+        accountId: 42, revenue12m: 120000, revenue3m: 30000, revenuePrior12m: 100000,
+        orderCount12m: 24, lastOrderDate: '2026-01-20T00:00:00Z', marginPct12m: null,
+      }];
+    }
+    return [];
+  };
+  const client = {
+    query: async (query: string | { text: string; values?: unknown[] }, params: unknown[] = []) => {
+      const text = typeof query === 'string' ? query : query.text;
+      queries.push({ text, params: typeof query === 'string' ? params : query.values ?? params });
+      const rows = respond(text);
+      return { rows, fields: [], rowCount: rows.length };
+    },
+  };
+  return { db: drizzle(client as any), pool: client };
+});
+
+import { recomputeAccountMetrics } from '../../server/services/metrics-engine';
+
+const iso = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value));
+
+/** snapshot_month of each statement against a snapshot table, in order */
+function snapshotWrites(table: string) {
+  return queries
+    .filter(q => q.text.startsWith(`delete from "${table}"`) || q.text.startsWith(`insert into "${table}"`))
+    .map(q => {
+      const verb = q.text.split(' ')[0];
+      const month = q.params.map(iso).find(p => /^\d{4}-\d{2}-01T00:00:00/.test(p));
+      return `${verb} ${month?.slice(0, 10)}`;
+    });
+}
+
+/** The `order_date < asOf` bound of each order stats query */
+function orderStatsAsOf() {
+  return queries.filter(q => q.text.includes('AS "revenue12m"')).map(q => iso(q.params[q.params.length - 1]));
+}
+
+describe('recomputeAccountMetrics snapshots', () => {
+  beforeEach(() => {
+    queries.length = 0;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('replaces the partial current month\'s snapshot on every run', async () => {
+    vi.setSystemTime(new Date('2026-01-20T09:00:00Z'));
+    await recomputeAccountMetrics(1);
+    vi.setSystemTime(new Date('2026-01-27T09:00:00Z'));
+    await recomputeAccountMetrics(1);
+
+    expect(snapshotWrites('account_metrics_snapshots')).toEqual([
+      'delete 2026-01-01', 'insert 2026-01-01',
+      'delete 2026-01-01', 'insert 2026-01-01',
+    ]);
+    const insert = queries.filter(q => q.text.startsWith('insert into "account_metrics_snapshots"')).pop()!;
+    expect(insert.params).toEqual(expect.arrayContaining([42, 1]));
+    expect(orderStatsAsOf()).toEqual(['2026-01-20T09:00:00.000Z', '2026-01-27T09:00:00.000Z']);
+  });
+
+  it('backfills completed months as of the first instant of the following month', async () => {
+    vi.setSystemTime(new Date('2026-01-31T23:30:00Z'));
+
+    const result = await recomputeAccountMetrics(1, { backfillMonths: 2 });
+
+    expect(result.backfilledMonths).toBe(2);
+    expect(snapshotWrites('account_metrics_snapshots')).toEqual([
+      'delete 2026-01-01', 'insert 2026-01-01',
+      'delete 2025-12-01', 'insert 2025-12-01',
+      'delete 2025-11-01', 'insert 2025-11-01',
+    ]);
+    expect(orderStatsAsOf()).toEqual([
+      '2026-01-31T23:30:00.000Z',
+      '2026-01-01T00:00:00.000Z',
+      '2025-12-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('writes each month\'s snapshot in its own transaction', async () => {
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+
+    await recomputeAccountMetrics(1, { backfillMonths: 1 });
+
+    const statements = queries.map(q => q.text.split(' ').slice(0, 3).join(' '));
+    const backfill = statements.lastIndexOf('begin');
+    expect(statements.slice(backfill)).toEqual([
+      'begin',
+      'delete from "account_category_gap_snapshots"',
+      'delete from "account_metrics_snapshots"',
+      'insert into "account_metrics_snapshots"',
+      'commit',
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { db } = vi.hoisted(() => ({
+  db: { select: vi.fn(), insert: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('../../server/db', () => ({ db }));
+
+import { TenantStorage } from '../../server/storage/tenantStorage';
+
+let updates: unknown[];
+let inserted: unknown[];
+
+function existingCategories(rows: { id: number; externalId: string | null; externalIdAliases: string[] | null; name: string; isActive?: boolean }[]) {
+  db.select.mockReturnValue({ from: () => ({ where: () => Promise.resolve(rows.map(r => ({ isActive: true, ...r }))) }) });
+}
+
+describe('TenantStorage.upsertProductCategories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updates = [];
+    inserted = [];
+    db.update.mockReturnValue({ set: (values: unknown) => { updates.push(values); return { where: () => Promise.resolve() }; } });
+    db.insert.mockReturnValue({ values: (values: unknown[]) => { inserted.push(...values); return Promise.resolve(); } });
+  });
+
+  it('updates categories matched on externalId and inserts the rest', async () => {
+    existingCategories([{ id: 1, externalId: 'C-1', externalIdAliases: null, name: 'PVF' }]);
+
+    const result = await new TenantStorage(7).upsertProductCategories([
+      { externalId: 'C-1', name: 'Pipe, Valves & Fittings', parentId: null },
+      { externalId: 'C-2', name: 'Tools', parentId: null },
+    ]);
+
+    expect(result).toEqual({ inserted: 1, updated: 1 });
+    expect(updates).toEqual([{ externalId: 'C-1', name: 'Pipe, Valves & Fittings', parentId: null }]);
+    expect(inserted).toEqual([{ externalId: 'C-2', name: 'Tools', parentId: null, tenantId: 7 }]);
+  });
+
+  it('gives a category created in Settings the ID of the row with its name', async () => {
+    existingCategories([
+      { id: 1, externalId: null, externalIdAliases: null, name: 'Water Heaters' },
+      { id: 2, externalId: null, externalIdAliases: null, name: 'Tools', isActive: false },
+    ]);
+
+    const result = await new TenantStorage(7).upsertProductCategories([
+      { externalId: 'C-9', name: 'water heaters ', parentId: null },
+      { externalId: 'C-10', name: 'Tools', parentId: null },
+    ]);
+
+    expect(result).toEqual({ inserted: 1, updated: 1 });
+    expect(updates).toEqual([{ externalId: 'C-9' }]);
+    expect(inserted).toEqual([{ externalId: 'C-10', name: 'Tools', parentId: null, tenantId: 7 }]);
+  });
+
+  it('resolves the ID of a merged category to the category it was merged into', async () => {
+    existingCategories([{ id: 1, externalId: 'C-1', externalIdAliases: ['C-4'], name: 'PVF' }]);
+
+    const result = await new TenantStorage(7).upsertProductCategories([
+      { externalId: 'C-4', name: 'Fittings', parentId: null },
+    ]);
+
+    expect(result).toEqual({ inserted: 0, updated: 1 });
+    expect(updates).toEqual([]);
+    expect(inserted).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import { buildProgramBaseline, expectedBaseline, proratedBaseline, type BaselineInputs } from '../../server/services/program-baseline';
+
+// Enrolled mid-March 2025; the prior year is Mar 2024..Feb 2025
+const months = ['2024-03', '2024-04', '2024-05', '2024-06', '2024-07', '2024-08', '2024-09', '2024-10', '2024-11', '2024-12', '2025-01', '2025-02'];
+const inputs: BaselineInputs = {
+  asOf: new Date('2025-03-15T00:00:00Z'),
+  last12mRevenue: 120000,
+  priorYear: { months, revenue: [5000, 5000, 15000, 15000, 15000, 15000, 10000, 10000, 5000, 5000, 10000, 10000] },
+  multipliers: [1, 1, 1, 1, 1.5, 1.5, 1.5, 1.5, 0.5, 0.5, 0.5, 0.5],
+};
+
+describe('proratedBaseline', () => {
+  it('scales the baseline by the period length', () => {
+    const baseline = proratedBaseline(
+      365000,
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2024-12-31T00:00:00Z'),
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-03-11T00:00:00Z'),
+    );
+    expect(baseline).toBeCloseTo(10000, 6);
+  });
+
+  it('is zero for an empty baseline window', () => {
+    const day = new Date('2024-01-01T00:00:00Z');
+    expect(proratedBaseline(1000, day, day, day, new Date('2024-02-01T00:00:00Z'))).toBe(0);
+  });
+});
+
+describe('buildProgramBaseline', () => {
+  it('keeps trailing-12 and negotiated baselines flat', () => {
+    const trailing = buildProgramBaseline('trailing_12', inputs);
+    expect(trailing.baselineRevenue).toBe(120000);
+    expect(trailing.baselineMonthly).toBeNull();
+    expect(trailing.baselineStart.toISOString()).toBe('2024-03-15T00:00:00.000Z');
+
+    const negotiated = buildProgramBaseline('negotiated', { ...inputs, negotiatedRevenue: 90000 });
+    expect(negotiated.baselineRevenue).toBe(90000);
+    expect(negotiated.baselineMonthly).toBeNull();
+    expect(() => buildProgramBaseline('negotiated', inputs)).toThrow();
+  });
+
+  it('falls back to the default revenue when metrics are missing', () => {
+    expect(buildProgramBaseline('trailing_12', { ...inputs, last12mRevenue: null }).baselineRevenue).toBe(50000);
+  });
+
+  it('keeps each calendar month of the prior year', () => {
+    const baseline = buildProgramBaseline('same_period_prior_year', inputs);
+
+    expect(baseline.baselineRevenue).toBe(120000);
+    expect(baseline.baselineMonthly?.[0]).toBe(10000);  // Jan 2025
+    expect(baseline.baselineMonthly?.[2]).toBe(5000);   // Mar 2024
+    expect(baseline.baselineStart.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+    expect(baseline.baselineEnd.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('shapes the trailing total by the seasonal multipliers', () => {
+    const baseline = buildProgramBaseline('seasonally_adjusted', inputs);
+
+    expect(baseline.baselineMonthly?.[0]).toBeCloseTo(10000, 6);
+    expect(baseline.baselineMonthly?.[4]).toBeCloseTo(15000, 6);
+    expect(baseline.baselineMonthly?.[8]).toBeCloseTo(5000, 6);
+    expect(baseline.baselineMonthly?.reduce((a, b) => a + b, 0)).toBeCloseTo(120000, 6);
+  });
+
+  it('uses an even shape when the account has no seasonality yet', () => {
+    const baseline = buildProgramBaseline('seasonally_adjusted', { ...inputs, multipliers: null });
+    expect(baseline.baselineMonthly).toEqual(Array.from({ length: 12 }, () => 10000));
+  });
+});
+
+describe('expectedBaseline', () => {
+  it('adds up the overlapped part of each calendar month', () => {
+    const baseline = buildProgramBaseline('same_period_prior_year', inputs);
+
+    // Half of April (30 days) plus all of May
+    const expected = expectedBaseline(baseline, new Date('2025-04-16T00:00:00Z'), new Date('2025-06-01T00:00:00Z'));
+    expect(expected).toBeCloseTo(2500 + 15000, 6);
+  });
+
+  it('pro-rates a flat baseline over its window', () => {
+    const baseline = buildProgramBaseline('negotiated', { ...inputs, asOf: new Date('2025-01-01T00:00:00Z'), negotiatedRevenue: 366000 });
+
+    expect(expectedBaseline(baseline, new Date('2025-02-01T00:00:00Z'), new Date('2025-02-11T00:00:00Z'))).toBeCloseTo(10000, 6);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  checkTransition,
+  pauseIntervals,
+  activeIntervals,
+} from '../../server/services/program-enrollment';
+
+const at = (iso: string) => new Date(iso);
+
+describe('checkTransition', () => {
+  it('allows pausing and withdrawing an active enrollment with a reason', () => {
+    expect(checkTransition('active', 'pause', 'credit_hold')).toBeNull();
+    expect(checkTransition('active', 'withdraw', 'contract_ended')).toBeNull();
+    expect(checkTransition('active', 'graduate')).toBeNull();
+  });
+
+  it('requires a reason to pause or withdraw', () => {
+    expect(checkTransition('active', 'pause')).toBe('A reason code is required to pause');
+    expect(checkTransition('paused', 'withdraw')).toBe('A reason code is required to withdraw');
+    expect(checkTransition('paused', 'resume')).toBeNull();
+  });
+
+  it('rejects transitions the current state does not allow', () => {
+    expect(checkTransition('active', 'resume')).toBe("Can't resume an enrollment that is active");
+    expect(checkTransition('paused', 'pause', 'other')).toBe("Can't pause an enrollment that is paused");
+    expect(checkTransition('graduated', 'withdraw', 'other')).toBe("Can't withdraw an enrollment that is graduated");
+    expect(checkTransition('withdrawn', 'graduate')).toBe("Can't graduate an enrollment that is withdrawn");
+  });
+
+  it('treats a missing status as active', () => {
+    expect(checkTransition(null, 'pause', 'seasonal_shutdown')).toBeNull();
+  });
+});
+
+describe('pauseIntervals', () => {
+  it('pairs pauses with resumes in whole days', () => {
+    const intervals = pauseIntervals([
+      { event: 'resumed', occurredAt: at('2025-02-03T16:00:00Z') },
+      { event: 'enrolled', occurredAt: at('2025-01-01T12:00:00Z') },
+      { event: 'paused', occurredAt: at('2025-01-20T09:30:00Z') },
+      { event: 'paused', occurredAt: at('2025-03-01T08:00:00Z') },
+    ], 'paused');
+
+    expect(intervals).toEqual([
+      { from: at('2025-01-20T00:00:00Z'), to: at('2025-02-03T00:00:00Z') },
+      { from: at('2025-03-01T00:00:00Z'), to: null },
+    ]);
+  });
+
+  it('drops a pause resumed the same day', () => {
+    expect(pauseIntervals([
+      { event: 'paused', occurredAt: at('2025-01-20T09:00:00Z') },
+      { event: 'resumed', occurredAt: at('2025-01-20T15:00:00Z') },
+    ], 'active')).toEqual([]);
+  });
+
+  it('counts a paused row without history as paused throughout', () => {
+    expect(pauseIntervals([], 'paused')).toEqual([{ from: new Date(0), to: null }]);
+    expect(pauseIntervals([], 'active')).toEqual([]);
+  });
+});
+
+describe('activeIntervals', () => {
+  const from = at('2025-01-01T00:00:00Z');
+  const to = at('2025-02-01T00:00:00Z');
+
+  it('cuts paused days out of the range', () => {
+    expect(activeIntervals(from, to, [
+      { from: at('2025-01-25T00:00:00Z'), to: at('2025-01-28T00:00:00Z') },
+      { from: at('2024-12-01T00:00:00Z'), to: at('2025-01-05T00:00:00Z') },
+    ])).toEqual([
+      { from: at('2025-01-05T00:00:00Z'), to: at('2025-01-25T00:00:00Z') },
+      { from: at('2025-01-28T00:00:00Z'), to },
+    ]);
+  });
+
+  it('ends at a pause that is still open', () => {
+    expect(activeIntervals(from, to, [{ from: at('2025-01-10T00:00:00Z'), to: null }]))
+      .toEqual([{ from, to: at('2025-01-10T00:00:00Z') }]);
+    expect(activeIntervals(from, to, [{ from: new Date(0), to: null }])).toEqual([]);
+  });
+
+  it('ignores pauses outside the range', () => {
+    expect(activeIntervals(from, to, [{ from: at('2025-03-01T00:00:00Z'), to: null }])).toEqual([{ from, to }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  pickHoldoutAccounts,
+  differenceInDifferences,
+  type HoldoutCandidate,
+} from '../../server/services/program-holdout';
+
+const enrolled: HoldoutCandidate = { accountId: 1, segment: 'Dental', region: 'West', revenue: 100000 };
+
+const candidates: HoldoutCandidate[] = [
+  { accountId: 2, segment: 'Dental', region: 'East', revenue: 100000 },
+  { accountId: 3, segment: 'Dental', region: 'West', revenue: 400000 },
+  { accountId: 4, segment: 'Dental', region: 'West', revenue: 90000 },
+  { accountId: 5, segment: 'Veterinary', region: 'West', revenue: 100000 },
+  { accountId: 6, segment: 'Veterinary', region: 'East', revenue: 50000 },
+];
+
+describe('pickHoldoutAccounts', () => {
+  it('takes the best similar pairs first, then same segment and region by closest revenue', () => {
+    const picks = pickHoldoutAccounts(enrolled, candidates, [
+      { accountId: 6, score: 0.7 },
+      { accountId: 5, score: 0.9 },
+    ], 4);
+
+    expect(picks.map(p => [p.accountId, p.matchMethod])).toEqual([
+      [5, 'similar_pair'],
+      [6, 'similar_pair'],
+      [4, 'segment_region'],
+      [3, 'segment_region'],
+    ]);
+    expect(picks[0].similarityScore).toBe(0.9);
+  });
+
+  it('ignores pairs that point at ineligible accounts', () => {
+    const picks = pickHoldoutAccounts(enrolled, candidates, [{ accountId: 99, score: 0.95 }], 1);
+
+    expect(picks).toEqual([{ accountId: 4, matchMethod: 'segment_region', similarityScore: null }]);
+  });
+
+  it('finds nothing by segment when the enrolled account has none', () => {
+    const picks = pickHoldoutAccounts({ ...enrolled, segment: null }, candidates, [], 3);
+
+    expect(picks).toEqual([]);
+  });
+});
+
+describe('differenceInDifferences', () => {
+  it('subtracts the growth the holdout group also saw', () => {
+    // Controls grew 10%, so $5,000 of the $8,000 above a $50,000 baseline is organic
+    const lift = differenceInDifferences(8000, 50000, { holdoutCount: 3, revenue: 110000, priorRevenue: 100000 });
+
+    expect(lift).toEqual({ organic: 5000, attributed: 3000, controlGrowthPct: 10 });
+  });
+
+  it('attributes more than the incremental revenue when the controls shrank', () => {
+    const lift = differenceInDifferences(1000, 50000, { holdoutCount: 2, revenue: 90000, priorRevenue: 100000 });
+
+    expect(lift).toEqual({ organic: -5000, attributed: 6000, controlGrowthPct: -10 });
+  });
+
+  it('attributes everything without a usable control group', () => {
+    const expected = { organic: 0, attributed: 8000, controlGrowthPct: null };
+
+    expect(differenceInDifferences(8000, 50000, null)).toEqual(expected);
+    expect(differenceInDifferences(8000, 50000, { holdoutCount: 3, revenue: 5000, priorRevenue: 0 })).toEqual(expected);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  monthBounds,
+  previousMonth,
+  tieredFee,
+  computeProgramPeriod,
+  type ProgramPeriodInput,
+} from '../../server/services/program-revenue';
+
+const tiers = [
+  { minRevenue: 50000, maxRevenue: 150000, ratePct: 12 },
+  { minRevenue: 0, maxRevenue: 50000, ratePct: 15 },
+  { minRevenue: 150000, maxRevenue: null, ratePct: 10 },
+];
+
+// $365,000 baseline over a 365-day year = $1,000 a day
+function makeInput(overrides: Partial<ProgramPeriodInput> = {}): ProgramPeriodInput {
+  return {
+    programAccountId: 1,
+    enrolledAt: new Date('2025-01-10T15:30:00Z'),
+    endedAt: null,
+    baseline: {
+      baselineMethod: 'trailing_12',
+      baselineRevenue: 365000,
+      baselineStart: new Date('2024-01-01T00:00:00Z'),
+      baselineEnd: new Date('2024-12-31T00:00:00Z'),
+      baselineMonthly: null,
+    },
+    tiers,
+    priorIncremental: 0,
+    dailyRevenue: new Map(),
+    dailyCategorySpend: new Map(),
+    pauses: [],
+    ...overrides,
+  };
+}
+
+describe('monthBounds / previousMonth', () => {
+  it('parses YYYY-MM into a UTC month', () => {
+    const bounds = monthBounds('2025-12');
+    expect(bounds?.start.toISOString()).toBe('2025-12-01T00:00:00.000Z');
+    expect(bounds?.end.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(monthBounds('2025-13')).toBeNull();
+    expect(monthBounds('2025-1')).toBeNull();
+  });
+
+  it('finds the month before, across a year end', () => {
+    expect(previousMonth(new Date('2026-01-01T10:00:00Z'))).toBe('2025-12');
+  });
+});
+
+describe('tieredFee', () => {
+  it('applies each tier to its own band of revenue', () => {
+    const { fee, breakdown } = tieredFee(200000, tiers);
+
+    expect(breakdown.map(l => [l.minRevenue, l.revenueInTier, l.fee])).toEqual([
+      [0, 50000, 7500],
+      [50000, 100000, 12000],
+      [150000, 50000, 5000],
+    ]);
+    expect(fee).toBe(24500);
+  });
+
+  it('charges nothing on zero revenue', () => {
+    expect(tieredFee(0, tiers)).toEqual({ fee: 0, breakdown: [] });
+  });
+});
+
+describe('computeProgramPeriod', () => {
+  it('covers only the enrolled part of the month', () => {
+    const snapshot = computeProgramPeriod(makeInput({
+      dailyRevenue: new Map([['2025-01-05', 9999], ['2025-01-10', 3000], ['2025-01-31', 40000]]),
+    }), '2025-01');
+
+    expect(snapshot?.periodStart.toISOString()).toBe('2025-01-10T00:00:00.000Z');
+    expect(snapshot?.periodEnd.toISOString()).toBe('2025-02-01T00:00:00.000Z');
+    expect(snapshot?.periodRevenue).toBe(43000);
+    expect(snapshot?.baselineComparison).toBe(22000);
+    expect(snapshot?.incrementalRevenue).toBe(21000);
+    expect(snapshot?.feeAmount).toBe(3150);
+  });
+
+  it('stops at the graduation day and skips months outside the enrollment', () => {
+    const input = makeInput({
+      endedAt: new Date('2025-03-04T09:00:00Z'),
+      dailyRevenue: new Map([['2025-03-04', 5000], ['2025-03-05', 7000]]),
+    });
+
+    const march = computeProgramPeriod(input, '2025-03');
+    expect(march?.periodEnd.toISOString()).toBe('2025-03-05T00:00:00.000Z');
+    expect(march?.periodRevenue).toBe(5000);
+    expect(march?.baselineComparison).toBe(4000);
+
+    expect(computeProgramPeriod(input, '2025-04')).toBeNull();
+    expect(computeProgramPeriod(input, '2024-12')).toBeNull();
+  });
+
+  it('leaves paused days out of revenue and baseline', () => {
+    const snapshot = computeProgramPeriod(makeInput({
+      pauses: [{ from: new Date('2025-01-20T00:00:00Z'), to: new Date('2025-01-25T00:00:00Z') }],
+      dailyRevenue: new Map([['2025-01-12', 8000], ['2025-01-22', 50000], ['2025-01-28', 12000]]),
+    }), '2025-01');
+
+    expect(snapshot?.pausedDays).toBe(5);
+    expect(snapshot?.periodRevenue).toBe(20000);
+    expect(snapshot?.baselineComparison).toBe(17000);
+    expect(snapshot?.incrementalRevenue).toBe(3000);
+  });
+
+  it('skips a month paused throughout', () => {
+    const input = makeInput({
+      pauses: [{ from: new Date('2025-01-15T00:00:00Z'), to: null }],
+      dailyRevenue: new Map([['2025-02-10', 30000]]),
+    });
+
+    expect(computeProgramPeriod(input, '2025-01')?.pausedDays).toBe(17);
+    expect(computeProgramPeriod(input, '2025-02')).toBeNull();
+  });
+
+  it('charges the change in the program-to-date fee', () => {
+    // $45,000 earlier plus $10,000 now crosses from the 15% into the 12% tier
+    const snapshot = computeProgramPeriod(makeInput({
+      enrolledAt: new Date('2024-06-01T00:00:00Z'),
+      priorIncremental: 45000,
+      dailyRevenue: new Map([['2025-02-10', 38000]]),
+    }), '2025-02');
+
+    expect(snapshot?.incrementalRevenue).toBe(10000);
+    expect(snapshot?.feeAmount).toBe(750 + 600);
+    expect(snapshot?.feeBreakdown.map(l => l.revenueInTier)).toEqual([50000, 5000]);
+  });
+
+  it('credits back fee when a month falls below baseline', () => {
+    const snapshot = computeProgramPeriod(makeInput({
+      enrolledAt: new Date('2024-06-01T00:00:00Z'),
+      priorIncremental: 10000,
+      dailyRevenue: new Map([['2025-02-10', 24000]]),
+    }), '2025-02');
+
+    expect(snapshot?.incrementalRevenue).toBe(-4000);
+    expect(snapshot?.feeAmount).toBe(-600);
+  });
+
+  it('uses a monthly baseline when the enrollment has one', () => {
+    const baselineMonthly = Array.from({ length: 12 }, () => 10000);
+    baselineMonthly[1] = 28000; // February
+    const snapshot = computeProgramPeriod(makeInput({
+      enrolledAt: new Date('2025-02-15T00:00:00Z'),
+      baseline: { ...makeInput().baseline, baselineMethod: 'same_period_prior_year', baselineMonthly },
+    }), '2025-02');
+
+    expect(snapshot?.baselineComparison).toBe(14000);
+  });
+
+  it('reports the category mix of the period', () => {
+    const snapshot = computeProgramPeriod(makeInput({
+      dailyCategorySpend: new Map([
+        ['2025-01-02', new Map([[7, 5000]])],
+        ['2025-01-15', new Map([[7, 1000], [8, 3000]])],
+      ]),
+    }), '2025-01');
+
+    expect(snapshot?.periodCategories).toEqual([
+      { categoryId: 8, revenue: 3000, pct: 75 },
+      { categoryId: 7, revenue: 1000, pct: 25 },
+    ]);
+  });
+});
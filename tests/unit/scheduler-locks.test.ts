@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Advisory locks are modelled as a set of held names; cron callbacks are captured so a tick can be fired by hand
+const { held, ticks, review, jobRunner } = vi.hoisted(() => {
+  const held = new Set<string>();
+  const run = (jobName: string, tenantId: number, trigger: string) =>
+    ({ id: 1, jobName, tenantId, trigger, status: 'running' });
+  return {
+    held,
+    ticks: new Map<string, () => void>(),
+    review: vi.fn(),
+    jobRunner: {
+      getActiveTenantIds: vi.fn(),
+      getNextDailyRun: vi.fn(),
+      getRecentJobRuns: vi.fn(),
+      getTenantScheduleSettings: vi.fn(),
+      getTenantsWithRunSince: vi.fn(),
+      isDailyJobDue: vi.fn(),
+      recordJobRun: vi.fn(async (jobName: string, tenantId: number, fn: () => Promise<unknown>) => {
+        await fn();
+        return { ...run(jobName, tenantId, 'schedule'), status: 'success' };
+      }),
+      startJobRun: vi.fn(async (jobName: string, tenantId: number, trigger: string) => run(jobName, tenantId, trigger)),
+      completeJobRun: vi.fn(async (started: object, fn: () => Promise<unknown>) => {
+        await fn();
+        return { ...started, status: 'success' };
+      }),
+      withAdvisoryLock: vi.fn(async (name: string, fn: () => Promise<unknown>) => {
+        if (held.has(name)) return { acquired: false };
+        held.add(name);
+        try {
+          return { acquired: true, result: await fn() };
+        } finally {
+          held.delete(name);
+        }
+      }),
+    },
+  };
+});
+
+vi.mock('../../server/index.js', () => ({ log: vi.fn() }));
+vi.mock('../../server/services/job-runner.js', () => jobRunner);
+vi.mock('../../server/services/weekly-account-review.js', () => ({ runWeeklyAccountReview: review }));
+vi.mock('node-cron', () => ({
+  default: {
+    schedule: (_expression: string, fn: () => void, options: { name: string }) => { ticks.set(options.name, fn); },
+    getTasks: () => new Map(),
+  },
+}));
+
+import { startScheduler, startJobNow, JobAlreadyRunningError } from '../../server/scheduler';
+
+/** A review run for `tenantId` that stays in progress until the returned function is called */
+function blockReview(tenantId: number) {
+  let release!: () => void;
+  const blocked = new Promise<void>(resolve => { release = resolve; });
+  review.mockImplementation(async (id: number) => { if (id === tenantId) await blocked; });
+  return release;
+}
+
+async function flush() {
+  for (let i = 0; i < 20; i++) await Promise.resolve();
+}
+
+describe('scheduler locks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    held.clear();
+    review.mockResolvedValue(undefined);
+    jobRunner.getActiveTenantIds.mockResolvedValue([1, 2, 3]);
+    startScheduler();
+  });
+
+  it('locks a manual run on the job and tenant, not the whole job', async () => {
+    const release = blockReview(2);
+
+    const { run, finished } = await startJobNow('weekly-account-review', 2);
+
+    expect(run).toMatchObject({ tenantId: 2, trigger: 'manual' });
+    expect([...held]).toEqual(['weekly-account-review:2']);
+    await expect(startJobNow('weekly-account-review', 2)).rejects.toBeInstanceOf(JobAlreadyRunningError);
+    await expect(startJobNow('weekly-account-review', 3).then(r => r.finished)).resolves.toMatchObject({ status: 'success' });
+
+    release();
+    await expect(finished).resolves.toMatchObject({ status: 'success' });
+  });
+
+  it('runs the scheduled sweep for every other tenant while one tenant\'s manual run is going', async () => {
+    const release = blockReview(2);
+    const manual = await startJobNow('weekly-account-review', 2);
+
+    ticks.get('weekly-account-review')!();
+    await flush();
+
+    expect(jobRunner.recordJobRun.mock.calls.map(([, tenantId]) => tenantId)).toEqual([1, 3]);
+    expect(jobRunner.withAdvisoryLock.mock.calls.map(([name]) => name)).toEqual([
+      'weekly-account-review:2',
+      'weekly-account-review',
+      'weekly-account-review:1',
+      'weekly-account-review:2',
+      'weekly-account-review:3',
+    ]);
+
+    release();
+    await manual.finished;
+  });
+});
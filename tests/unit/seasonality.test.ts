@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  completeMonths,
+  computeSeasonalMultipliers,
+  computeSeasonality,
+  seasonallyAdjustedTrendPct,
+  classifyWalletShareDirection,
+  type MonthlySeries,
+} from '../../server/services/seasonality';
+
+const months = completeMonths(new Date(Date.UTC(2025, 0, 15)));
+
+// December is 1.5 times an average month, July half of one
+const PATTERN = [1, 1, 1, 1, 1, 1, 0.5, 1, 1, 1, 1, 1.5];
+
+function seasonalSeries(base: number, growthPerMonth = 0): MonthlySeries {
+  return {
+    months,
+    revenue: months.map((m, i) => base * PATTERN[parseInt(m.slice(5, 7), 10) - 1] * (1 + growthPerMonth * i)),
+  };
+}
+
+describe('completeMonths', () => {
+  it('lists the 36 complete months before the as-of month', () => {
+    expect(months).toHaveLength(36);
+    expect(months[0]).toBe('2022-01');
+    expect(months[35]).toBe('2024-12');
+  });
+});
+
+describe('computeSeasonalMultipliers', () => {
+  it('recovers the seasonal pattern', () => {
+    const multipliers = computeSeasonalMultipliers(seasonalSeries(1000))!;
+    const mean = PATTERN.reduce((a, b) => a + b, 0) / 12;
+
+    expect(multipliers[6]).toBeCloseTo(0.5 / mean, 2);
+    expect(multipliers[11]).toBeCloseTo(1.5 / mean, 2);
+  });
+
+  it('returns null for accounts with under 24 months of history', () => {
+    const series = seasonalSeries(1000);
+    series.revenue = series.revenue.map((r, i) => (i < 18 ? 0 : r));
+
+    expect(computeSeasonalMultipliers(series)).toBeNull();
+  });
+});
+
+describe('wallet share direction', () => {
+  it('reads a seasonal dip as flat, not declining', () => {
+    const series = seasonalSeries(1000);
+    const multipliers = computeSeasonalMultipliers(series)!;
+    const trend = seasonallyAdjustedTrendPct(series, multipliers);
+
+    expect(Math.abs(trend!)).toBeLessThan(1);
+    expect(classifyWalletShareDirection(series, trend)).toBe('flat');
+  });
+
+  it('classifies sustained growth and decline', () => {
+    const growing = seasonalSeries(1000, 0.05);
+    const declining = seasonalSeries(1000, -0.02);
+
+    expect(classifyWalletShareDirection(growing, seasonallyAdjustedTrendPct(growing, computeSeasonalMultipliers(growing)!))).toBe('growing');
+    expect(classifyWalletShareDirection(declining, seasonallyAdjustedTrendPct(declining, computeSeasonalMultipliers(declining)!))).toBe('declining');
+  });
+});
+
+describe('computeSeasonality', () => {
+  it('falls back to the segment profile for new accounts', () => {
+    const newAccount = seasonalSeries(500);
+    newAccount.revenue = newAccount.revenue.map((r, i) => (i < 30 ? 0 : r));
+    const results = computeSeasonality([
+      { accountId: 1, segment: 'HVAC', series: seasonalSeries(1000) },
+      { accountId: 2, segment: 'HVAC', series: newAccount },
+      { accountId: 3, segment: 'Plumbing', series: { months, revenue: months.map(() => 0) } },
+    ], months, new Date(Date.UTC(2025, 0, 15)));
+
+    expect(results.get(1)!.profile.source).toBe('account');
+    expect(results.get(2)!.profile).toMatchObject({ source: 'segment', monthsOfHistory: 6 });
+    expect(results.get(3)!.profile.source).toBe('tenant');
+    expect(results.get(3)!.direction).toBeNull();
+  });
+});
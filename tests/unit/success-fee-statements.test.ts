@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({
+  db: {}
+}));
+
+import {
+  buildStatementLines,
+  statementTotals,
+  statementView,
+  statementCsv,
+  statementPdf,
+  isStaleDraft,
+} from '../../server/services/success-fee-statements';
+import type { SuccessFeeStatement, SuccessFeeStatementAdjustment } from '../../shared/schema';
+
+const tier = { minRevenue: 0, maxRevenue: 50000, ratePct: 15 };
+
+const snapshots = [
+  {
+    programAccountId: 11,
+    periodStart: new Date('2025-01-10T00:00:00Z'),
+    periodEnd: new Date('2025-02-01T00:00:00Z'),
+    periodRevenue: '43000.00',
+    baselineComparison: '22000.00',
+    incrementalRevenue: '21000.00',
+    feeAmount: '3150.00',
+    feeBreakdown: [{ ...tier, revenueInTier: 21000, fee: 3150 }],
+  },
+  {
+    programAccountId: 12,
+    periodStart: new Date('2025-01-01T00:00:00Z'),
+    periodEnd: new Date('2025-02-01T00:00:00Z'),
+    periodRevenue: '9000.00',
+    baselineComparison: '10000.00',
+    incrementalRevenue: '-1000.00',
+    feeAmount: '-150.00',
+    feeBreakdown: [],
+  },
+];
+
+const enrollments = new Map([
+  [11, { accountId: 101, baselineMethod: 'trailing_12' }],
+  [12, { accountId: 102, baselineMethod: 'negotiated' }],
+]);
+const accountNames = new Map([[101, 'Zenith Roofing'], [102, 'Acme, "West" Supply']]);
+
+function makeStatement(status: SuccessFeeStatement['status'] = 'approved'): SuccessFeeStatement {
+  const lines = buildStatementLines(snapshots, enrollments, accountNames);
+  const totals = statementTotals(lines);
+  return {
+    id: 1,
+    tenantId: 7,
+    statementNumber: 'SF-2025-01',
+    periodStart: new Date('2025-01-01T00:00:00Z'),
+    status,
+    lines,
+    totalBaseline: totals.totalBaseline.toFixed(2),
+    totalActual: totals.totalActual.toFixed(2),
+    totalIncremental: totals.totalIncremental.toFixed(2),
+    totalFee: totals.totalFee.toFixed(2),
+    generatedAt: new Date('2025-02-02T00:00:00Z'),
+    generatedBy: null,
+    approvedAt: new Date('2025-02-03T00:00:00Z'),
+    approvedBy: 'billing@example.com',
+    sentAt: null,
+    sentBy: null,
+    sentTo: null,
+  };
+}
+
+const adjustment: SuccessFeeStatementAdjustment = {
+  id: 5,
+  tenantId: 7,
+  statementId: 1,
+  programAccountId: 11,
+  amount: '-500.00',
+  reason: 'Returned order credited',
+  createdBy: 'billing@example.com',
+  createdAt: new Date('2025-02-10T00:00:00Z'),
+};
+
+describe('buildStatementLines', () => {
+  it('copies each snapshot into a line, by account name', () => {
+    const lines = buildStatementLines(snapshots, enrollments, accountNames);
+
+    expect(lines.map(l => [l.accountName, l.baselineMethod, l.incrementalRevenue, l.feeAmount])).toEqual([
+      ['Acme, "West" Supply', 'negotiated', -1000, -150],
+      ['Zenith Roofing', 'trailing_12', 21000, 3150],
+    ]);
+    expect(lines[1].feeBreakdown).toEqual([{ ...tier, revenueInTier: 21000, fee: 3150 }]);
+  });
+
+  it('adds the lines up', () => {
+    const totals = statementTotals(buildStatementLines(snapshots, enrollments, accountNames));
+
+    expect(totals).toEqual({ totalBaseline: 32000, totalActual: 52000, totalIncremental: 20000, totalFee: 3000 });
+  });
+});
+
+describe('statementView', () => {
+  it('adds adjustments to the fee for the amount due', () => {
+    const view = statementView(makeStatement(), [adjustment]);
+
+    expect(view.month).toBe('2025-01');
+    expect(view.adjustmentTotal).toBe(-500);
+    expect(view.amountDue).toBe(2500);
+  });
+});
+
+describe('isStaleDraft', () => {
+  const generatedAt = new Date('2025-02-02T00:00:00Z');
+
+  it('flags a draft generated before the month was closed again', () => {
+    expect(isStaleDraft({ generatedAt }, { lastRunAt: new Date('2025-02-05T00:00:00Z') })).toBe(true);
+    expect(isStaleDraft({ generatedAt }, { lastRunAt: new Date('2025-02-01T00:00:00Z') })).toBe(false);
+  });
+
+  it('treats a month with no close as stale', () => {
+    expect(isStaleDraft({ generatedAt }, undefined)).toBe(true);
+  });
+});
+
+describe('statementCsv', () => {
+  it('writes account, adjustment, total and amount due rows', () => {
+    const rows = statementCsv(statementView(makeStatement(), [adjustment])).trim().split('\n');
+
+    expect(rows[0].split(',')[0]).toBe('line_type');
+    expect(rows[1]).toBe('account,SF-2025-01,2025-01,12,102,"Acme, ""West"" Supply",2025-01-01,2025-01-31,negotiated,10000.00,9000.00,-1000.00,,-150.00,');
+    expect(rows[2]).toContain('2025-01-10,2025-01-31,trailing_12');
+    expect(rows[2]).toContain('15% x 21000.00');
+    expect(rows[3]).toBe('adjustment,SF-2025-01,2025-01,11,101,Zenith Roofing,,,,,,,,-500.00,Returned order credited');
+    expect(rows[4]).toBe('total,SF-2025-01,2025-01,,,,,,,32000.00,52000.00,20000.00,,3000.00,');
+    expect(rows[5]).toBe('amount_due,SF-2025-01,2025-01,,,,,,,,,,,2500.00,');
+    expect(rows.every(r => r.match(/(?:^|,)(?:"(?:[^"]|"")*"|[^,]*)/g)!.length === 15)).toBe(true);
+  });
+});
+
+describe('statementPdf', () => {
+  it('renders a valid single-page PDF with the figures', () => {
+    const pdf = statementPdf(statementView(makeStatement(), [adjustment]), 'ABC Supply').toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('/Count 1');
+    expect(pdf).toContain('(Success Fee Statement SF-2025-01)');
+    expect(pdf).toContain('Amount due: $2,500.00');
+    expect(pdf).toContain('Returned order credited');
+
+    // Every xref entry points at the object it names
+    const xrefAt = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    const offsets = pdf.slice(xrefAt).split('\n').slice(3).filter(l => / 00000 n $/.test(l)).map(l => Number(l.slice(0, 10)));
+    offsets.forEach((offset, i) => expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`));
+  });
+
+  it('marks drafts and continues long statements onto more pages', () => {
+    const many = Array.from({ length: 80 }, (_, i) => ({ ...snapshots[1], programAccountId: 1000 + i }));
+    const statement = { ...makeStatement('draft'), lines: buildStatementLines(many, new Map(), new Map()) };
+    const pdf = statementPdf(statementView(statement, []), 'ABC Supply').toString('latin1');
+
+    expect(pdf).toContain('DRAFT - not for payment');
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Page 2 of 2)');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getTableColumns } from 'drizzle-orm';
+
+// For the transaction test: a real drizzle instance over a client that records each statement,
+// answers task reads and updates with task 9, and fails the outcome insert
+const { queries } = vi.hoisted(() => ({ queries: [] as string[] }));
+
+vi.mock('../../server/db', async () => {
+  const { drizzle } = await import('drizzle-orm/node-postgres');
+  const { tasks } = await import('../../shared/schema');
+  const taskRow = Object.keys(getTableColumns(tasks)).map(column =>
+    ({ id: 9, tenantId: 1, accountId: 42, playbookId: 5, status: 'pending' } as Record<string, unknown>)[column] ?? null);
+  const client = {
+    query: async (query: string | { text: string }) => {
+      const text = typeof query === 'string' ? query : query.text;
+      queries.push(text);
+      if (text.startsWith('insert into "agent_playbook_outcomes"')) throw new Error('outcome insert failed');
+      const rows = text.startsWith('select') && text.includes('from "tasks"') || text.startsWith('update "tasks"') ? [taskRow] : [];
+      return { rows, fields: [], rowCount: rows.length };
+    },
+  };
+  return { db: drizzle(client as any), pool: client };
+});
+
+import { completeTask, TaskAlreadyCompletedError } from '../../server/services/task-completion';
+import { TenantStorage } from '../../server/storage/tenantStorage';
+
+const pending = {
+  id: 9, accountId: 42, playbookId: 5, title: 'Call about water heaters', status: 'pending', outcome: null,
+};
+
+const storage = {
+  getTask: vi.fn(),
+  markTaskCompleted: vi.fn(),
+  getActiveAgentPlaybook: vi.fn(),
+};
+
+function complete(input: Parameters<typeof completeTask>[2]) {
+  return completeTask(storage as unknown as TenantStorage, 9, input, 'rep@example.com');
+}
+
+describe('completeTask', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getTask.mockResolvedValue(pending);
+    storage.markTaskCompleted.mockImplementation(async (_id: number, outcome: string | null, values: object | null) => ({
+      task: { ...pending, status: 'completed', outcome },
+      playbookOutcome: values && { id: 1, ...values },
+    }));
+    storage.getActiveAgentPlaybook.mockResolvedValue({ id: 77 });
+  });
+
+  it('records a structured outcome against the task, its playbook and the active agent playbook', async () => {
+    const result = await complete({
+      outcomeType: 'won', wonCategory: 'Water Heaters', revenueImpact: 12500, outcomeScore: 4, repNotes: 'Switched suppliers',
+    });
+
+    expect(storage.getActiveAgentPlaybook).toHaveBeenCalledWith(42);
+    expect(storage.markTaskCompleted).toHaveBeenCalledWith(9, 'Switched suppliers', {
+      accountId: 42,
+      taskId: 9,
+      playbookId: 5,
+      agentPlaybookId: 77,
+      outcomeType: 'won',
+      wonCategory: 'Water Heaters',
+      revenueImpact: '12500',
+      outcomeScore: 4,
+      repNotes: 'Switched suppliers',
+      recordedBy: 'rep@example.com',
+    });
+    expect(result?.task.status).toBe('completed');
+    expect(result?.playbookOutcome).toMatchObject({ id: 1, outcomeType: 'won' });
+  });
+
+  it('falls back to the free-text outcome and nulls for omitted outcome fields', async () => {
+    storage.getActiveAgentPlaybook.mockResolvedValue(undefined);
+
+    await complete({ outcomeType: 'no_response', outcome: 'Left two voicemails' });
+
+    expect(storage.markTaskCompleted).toHaveBeenCalledWith(9, 'Left two voicemails', expect.objectContaining({
+      agentPlaybookId: null, wonCategory: null, revenueImpact: null, outcomeScore: null, repNotes: 'Left two voicemails',
+    }));
+  });
+
+  it('completes without a structured outcome when no outcome type is given', async () => {
+    const result = await complete({ outcome: 'Done' });
+
+    expect(result?.playbookOutcome).toBeNull();
+    expect(storage.markTaskCompleted).toHaveBeenCalledWith(9, 'Done', null);
+    expect(storage.getActiveAgentPlaybook).not.toHaveBeenCalled();
+  });
+
+  it('rejects a task that is already completed without recording another outcome', async () => {
+    storage.getTask.mockResolvedValue({ ...pending, status: 'completed' });
+
+    await expect(complete({ outcomeType: 'won' })).rejects.toBeInstanceOf(TaskAlreadyCompletedError);
+    expect(storage.markTaskCompleted).not.toHaveBeenCalled();
+  });
+
+  it('rejects when a concurrent request completes the task first', async () => {
+    storage.markTaskCompleted.mockResolvedValue(undefined);
+
+    await expect(complete({ outcomeType: 'won' })).rejects.toBeInstanceOf(TaskAlreadyCompletedError);
+  });
+
+  it('returns null for a task that does not exist', async () => {
+    storage.getTask.mockResolvedValue(undefined);
+
+    expect(await complete({ outcomeType: 'won' })).toBeNull();
+  });
+});
+
+describe('completeTask transaction', () => {
+  beforeEach(() => {
+    queries.length = 0;
+  });
+
+  it('leaves the task open when the outcome insert fails', async () => {
+    await expect(completeTask(new TenantStorage(1), 9, { outcomeType: 'won' }, 'rep@example.com'))
+      .rejects.toThrow('outcome insert failed');
+
+    const writes = queries.filter(text => !text.startsWith('select'));
+    expect(writes.map(text => text.split(' ')[0])).toEqual(['begin', 'update', 'insert', 'rollback']);
+  });
+});
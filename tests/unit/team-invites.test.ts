@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { db, send } = vi.hoisted(() => ({
+  db: { select: vi.fn(), insert: vi.fn(), update: vi.fn(), transaction: vi.fn() },
+  send: vi.fn(),
+}));
+
+vi.mock('../../server/db', () => ({ db }));
+vi.mock('../../server/storage', () => ({
+  storage: { getSetting: vi.fn().mockResolvedValue({ value: JSON.stringify({ enabled: true }) }) },
+}));
+vi.mock('resend', () => ({
+  Resend: class {
+    emails = { send };
+  },
+}));
+
+import { acceptPendingInvite } from '../../server/middleware/tenantContext';
+import { sendTeamInviteEmail } from '../../server/email-service';
+
+/** A query builder that accepts any chain of calls and resolves to `result` */
+function query(result: unknown): any {
+  const chain: any = new Proxy({}, {
+    get: (_, prop) => prop === 'then'
+      ? (resolve: (value: unknown) => void) => resolve(result)
+      : () => chain,
+  });
+  return chain;
+}
+
+const tenant = { id: 4, name: 'Acme Supply' };
+const invite = {
+  id: 11, tenantId: 4, email: 'rep@example.com', role: 'territory_manager', token: 'tok', status: 'pending',
+};
+
+let selects: unknown[][];
+let acceptedWith: Record<string, unknown> | undefined;
+let claimed: unknown[];
+
+describe('acceptPendingInvite', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    acceptedWith = undefined;
+    claimed = [invite];
+    db.transaction.mockImplementation(async (fn: (tx: typeof db) => unknown) => fn(db));
+    db.select.mockImplementation(() => query(selects.shift() ?? []));
+    db.insert.mockImplementation(() => ({
+      values: (values: object) => query([{ id: 1, ...values }]),
+    }));
+    db.update.mockImplementation(() => ({
+      set: (values: Record<string, unknown>) => {
+        acceptedWith = values;
+        return query(claimed);
+      },
+    }));
+  });
+
+  it('joins the user to the inviting tenant with the invited role', async () => {
+    selects = [[invite], [tenant]];
+
+    const result = await acceptPendingInvite('user-9', 'Rep@Example.com', 'tok');
+
+    expect(result?.tenant).toEqual(tenant);
+    expect(result?.role).toMatchObject({ userId: 'user-9', tenantId: 4, role: 'territory_manager' });
+    expect(acceptedWith).toMatchObject({ status: 'accepted', acceptedBy: 'user-9' });
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(db.update.mock.invocationCallOrder[0]).toBeLessThan(db.insert.mock.invocationCallOrder[0]);
+  });
+
+  it('does not add a role when a concurrent acceptance claimed the invite first', async () => {
+    selects = [[invite], [tenant]];
+    claimed = [];
+
+    expect(await acceptPendingInvite('user-9', 'rep@example.com', 'tok')).toBeNull();
+    expect(db.update).toHaveBeenCalledTimes(1);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it('ignores a token issued to another email and falls back to invites for the signed-in email', async () => {
+    selects = [[{ ...invite, email: 'someone@example.com' }], [], []];
+
+    expect(await acceptPendingInvite('user-9', 'rep@example.com', 'tok')).toBeNull();
+    expect(db.select).toHaveBeenCalledTimes(2);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it('uses the newest pending invite for the email when there is no token', async () => {
+    selects = [[invite], [tenant]];
+
+    const result = await acceptPendingInvite('user-9', 'rep@example.com');
+
+    expect(result?.tenant.id).toBe(4);
+    expect(db.select).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null without an invite', async () => {
+    selects = [[]];
+
+    expect(await acceptPendingInvite('user-9', 'rep@example.com')).toBeNull();
+    expect(db.insert).not.toHaveBeenCalled();
+    expect(db.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('sendTeamInviteEmail', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('escapes the tenant name in the email HTML', async () => {
+    vi.stubEnv('RESEND_API_KEY', 're_test');
+    send.mockResolvedValue({ data: { id: 'msg-1' }, error: null });
+
+    const result = await sendTeamInviteEmail(
+      'rep@example.com', 'Acme <script>alert(1)</script> & Sons', 'territory_manager', 'https://app.example.com/api/invites/tok', 7,
+    );
+
+    expect(result).toEqual({ success: true, messageId: 'msg-1' });
+    const { html, subject } = send.mock.calls[0][0];
+    expect(html).toContain('Join Acme &lt;script&gt;alert(1)&lt;/script&gt; &amp; Sons');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('as a <strong>territory manager</strong>');
+    expect(subject).toBe("You've been invited to join Acme <script>alert(1)</script> & Sons");
+  });
+});
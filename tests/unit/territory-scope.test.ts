@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// A real drizzle instance over a client that records each statement and returns no rows,
+// so the assertions see the SQL TenantStorage actually sends
+const { queries } = vi.hoisted(() => ({ queries: [] as { text: string; params: unknown[] }[] }));
+
+vi.mock('../../server/db', async () => {
+  const { drizzle } = await import('drizzle-orm/node-postgres');
+  const client = {
+    query: async (query: string | { text: string }, params: unknown[] = []) => {
+      queries.push({ text: typeof query === 'string' ? query : query.text, params });
+      return { rows: [], fields: [], rowCount: 0 };
+    },
+  };
+  return { db: drizzle(client as any), pool: client };
+});
+
+import { TenantStorage } from '../../server/storage/tenantStorage';
+import type { TerritoryManager } from '../../shared/schema';
+
+const sam: TerritoryManager = {
+  id: 3, tenantId: 1, name: 'Sam Lee', email: 'sam@example.com', territories: ['West'],
+  userId: 'user-3', isActive: true, createdAt: null,
+};
+
+const ACCOUNT_SCOPE = /"accounts"\."assigned_tm" in \(\$\d+, \$\d+\) or "accounts"\."region" in \(\$\d+\)/;
+
+function lastQuery() {
+  return queries[queries.length - 1];
+}
+
+function whereClause(text: string) {
+  return text.slice(text.indexOf(' where '));
+}
+
+describe('TenantStorage territory scoping', () => {
+  beforeEach(() => {
+    queries.length = 0;
+  });
+
+  it('limits account reads and updates to the manager\'s accounts and territories', async () => {
+    const storage = new TenantStorage(1, sam);
+
+    expect(await storage.getAccount(42)).toBeUndefined();
+    expect(lastQuery().text).toMatch(ACCOUNT_SCOPE);
+    expect(lastQuery().params).toEqual(expect.arrayContaining([42, 1, 'Sam Lee', 'sam@example.com', 'West']));
+
+    expect(await storage.updateAccount(42, { name: 'Renamed' })).toBeUndefined();
+    expect(lastQuery().text).toMatch(/^update "accounts"/);
+    expect(lastQuery().text).toMatch(ACCOUNT_SCOPE);
+
+    await storage.getAccounts();
+    expect(lastQuery().text).toMatch(ACCOUNT_SCOPE);
+  });
+
+  it('matches on name and email alone for a manager without territories', async () => {
+    await new TenantStorage(1, { ...sam, territories: null }).getAccounts();
+
+    expect(lastQuery().text).toMatch(/"accounts"\."assigned_tm" in \(\$\d+, \$\d+\)/);
+    expect(whereClause(lastQuery().text)).not.toContain('"region"');
+  });
+
+  it('limits tasks to the manager\'s accounts plus tasks assigned to them', async () => {
+    const storage = new TenantStorage(1, sam);
+    const taskScope = /"tasks"\."assigned_tm_id" = \$\d+ or "tasks"\."account_id" in \(select "id" from "accounts" where/;
+
+    expect(await storage.getTask(9)).toBeUndefined();
+    expect(lastQuery().text).toMatch(taskScope);
+    expect(lastQuery().text).toMatch(ACCOUNT_SCOPE);
+    expect(lastQuery().params).toEqual(expect.arrayContaining([9, 3, 'Sam Lee', 'West']));
+
+    expect(await storage.updateTask(9, { status: 'completed' })).toBeUndefined();
+    expect(lastQuery().text).toMatch(/^update "tasks"/);
+    expect(lastQuery().text).toMatch(taskScope);
+
+    expect(await storage.markTaskCompleted(9, null)).toBeUndefined();
+    const update = queries.filter(q => q.text.startsWith('update "tasks"')).pop()!;
+    expect(update.text).toMatch(taskScope);
+    expect(whereClause(update.text)).toContain(`"tasks"."status" is distinct from 'completed'`);
+  });
+
+  it('limits account metrics and their history to the manager\'s accounts', async () => {
+    const storage = new TenantStorage(1, sam);
+    const metricsScope = (table: string) =>
+      new RegExp(`"${table}"\\."account_id" in \\(select "id" from "accounts" where`);
+
+    expect(await storage.getAccountMetrics(42)).toBeUndefined();
+    expect(lastQuery().text).toMatch(metricsScope('account_metrics'));
+    expect(lastQuery().text).toMatch(ACCOUNT_SCOPE);
+
+    expect(await storage.getAccountMetricsBatch([42, 43])).toEqual(new Map());
+    expect(lastQuery().text).toMatch(metricsScope('account_metrics'));
+
+    await storage.getLatestAccountMetrics();
+    expect(lastQuery().text).toMatch(metricsScope('account_metrics'));
+
+    await storage.getAccountMetricsHistory(42, new Date(Date.UTC(2025, 0, 1)));
+    expect(lastQuery().text).toMatch(metricsScope('account_metrics_snapshots'));
+  });
+
+  it('leaves admins and background jobs unscoped', async () => {
+    const storage = new TenantStorage(1);
+
+    await storage.getAccount(42);
+    await storage.getTask(9);
+    await storage.getAccountMetrics(42);
+
+    for (const query of queries) {
+      expect(whereClause(query.text)).not.toContain('"assigned_tm"');
+      expect(whereClause(query.text)).not.toContain('select "id" from "accounts"');
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+
+const { db } = vi.hoisted(() => ({
+  db: { select: vi.fn(), insert: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('../../server/db', () => ({ db }));
+
+import {
+  signWebhookBody,
+  buildSignatureHeader,
+  activeWebhookSecrets,
+  getRetryDelayMs,
+  redeliverWebhook,
+  WebhookNotConfiguredError,
+  WEBHOOK_SECRET_GRACE_HOURS,
+} from '../../server/services/webhook-delivery';
+
+/** A query builder that accepts any chain of calls and resolves to `result` */
+function query(result: unknown): any {
+  const chain: any = new Proxy({}, {
+    get: (_, prop) => prop === 'then'
+      ? (resolve: (value: unknown) => void) => resolve(result)
+      : () => chain,
+  });
+  return chain;
+}
+
+const body = JSON.stringify({ event: 'at_risk', account_id: 7 });
+const timestamp = 1750000000;
+
+describe('signWebhookBody', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`${timestamp}.${body}`).digest('hex');
+
+    expect(signWebhookBody('whsec_test', timestamp, body)).toBe(expected);
+  });
+
+  it('changes when the timestamp changes, so captured requests cannot be replayed later', () => {
+    expect(signWebhookBody('whsec_test', timestamp + 1, body)).not.toBe(signWebhookBody('whsec_test', timestamp, body));
+  });
+});
+
+describe('buildSignatureHeader', () => {
+  it('includes one v1 entry per active secret', () => {
+    const header = buildSignatureHeader(['new', 'old'], timestamp, body);
+
+    expect(header).toBe(`v1=${signWebhookBody('new', timestamp, body)},v1=${signWebhookBody('old', timestamp, body)}`);
+  });
+});
+
+describe('activeWebhookSecrets', () => {
+  const rotatedAt = new Date('2025-06-01T12:00:00Z');
+  const settings = { crmWebhookSecret: 'new', crmWebhookPreviousSecret: 'old', crmWebhookSecretRotatedAt: rotatedAt };
+
+  it('keeps signing with the previous secret during the grace period', () => {
+    expect(activeWebhookSecrets(settings, new Date(rotatedAt.getTime() + 60 * 60 * 1000))).toEqual(['new', 'old']);
+  });
+
+  it('drops the previous secret once the grace period ends', () => {
+    const after = new Date(rotatedAt.getTime() + WEBHOOK_SECRET_GRACE_HOURS * 60 * 60 * 1000);
+
+    expect(activeWebhookSecrets(settings, after)).toEqual(['new']);
+  });
+});
+
+describe('getRetryDelayMs', () => {
+  it('doubles after each failure up to 12 hours', () => {
+    const minutes = [1, 2, 3, 4, 10].map(attempts => getRetryDelayMs(attempts) / 60000);
+
+    expect(minutes).toEqual([5, 10, 20, 40, 720]);
+  });
+});
+
+describe('redeliverWebhook', () => {
+  const delivery = { id: 30, tenantId: 1, queueId: 12, attempt: 3, trigger: 'automatic' };
+  const queued = { id: 12, tenantId: 1, eventType: 'at_risk', payload: { account_id: 7 }, status: 'pending', attempts: 3 };
+  const settings = { id: 2, tenantId: 1, crmWebhookUrl: 'https://hooks.example.com/crm', crmWebhookSecret: 'whsec_test' };
+
+  let selects: unknown[][];
+  let queueUpdates: Record<string, unknown>[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    selects = [[delivery], [queued], [settings]];
+    queueUpdates = [];
+    db.select.mockImplementation(() => query(selects.shift() ?? []));
+    db.insert.mockImplementation(() => ({
+      values: (values: object) => query([{ id: 31, createdAt: new Date('2026-03-02T10:00:00Z'), ...values }]),
+    }));
+    db.update.mockImplementation(() => ({
+      set: (values: Record<string, unknown>) => {
+        queueUpdates.push(values);
+        return query(undefined);
+      },
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('logs a failed manual attempt without counting it against the event', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('busy', { status: 503 })));
+
+    const result = await redeliverWebhook(1, 30);
+
+    expect(result).toMatchObject({ queueId: 12, attempt: 3, trigger: 'manual', responseStatus: 503, error: 'Webhook responded with 503' });
+    expect(queueUpdates).toEqual([]);
+  });
+
+  it('marks the event synced after a successful manual attempt, leaving its attempt count alone', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ok', { status: 200 })));
+
+    await redeliverWebhook(1, 30);
+
+    expect(queueUpdates).toEqual([{
+      status: 'synced', syncedAt: new Date('2026-03-02T10:00:00Z'), nextAttemptAt: null, errorMessage: null,
+    }]);
+  });
+
+  it('rejects with WebhookNotConfiguredError when no URL is set, without sending', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    selects = [[delivery], [queued], [{ ...settings, crmWebhookUrl: null }]];
+
+    await expect(redeliverWebhook(1, 30)).rejects.toBeInstanceOf(WebhookNotConfiguredError);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});